@@ -1,6 +1,33 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Upload, Download, Image, Users, Zap, Shield, Brain, Target, Palette } from 'lucide-react';
 import SEO from './SEO';
+import { CustomPixelFunction, customKernel } from '../utils/imageKernels';
+import { getImageWorkerPool } from '../utils/imageWorkerPool';
+
+// Channel multipliers of the artistic styles
+const STYLE_SCALES: Record<string, [number, number, number]> = {
+  vintage: [1.2, 0.9, 0.8],
+  cinematic: [1.1, 0.95, 0.9],
+  neon: [1.3, 1.2, 1.4],
+};
+
+// Enhancement of one pixel; runs on the image workers, so it only reads `params`
+const enhancePixel: CustomPixelFunction = (pixel, _x, _y, params) => {
+  let r = pixel[0];
+  let g = pixel[1];
+  let b = pixel[2];
+  if (params.smart) {
+    // Increase contrast slightly
+    r = Math.max(0, Math.min(255, (r - 128) * 1.1 + 128));
+    g = Math.max(0, Math.min(255, (g - 128) * 1.1 + 128));
+    b = Math.max(0, Math.min(255, (b - 128) * 1.1 + 128));
+  }
+  // Soften skin tones (reduce red channel slightly)
+  if (params.portrait && r > g && r > b) r = Math.max(0, r - 10);
+  pixel[0] = Math.round(Math.min(255, r * params.red));
+  pixel[1] = Math.round(Math.min(255, g * params.green));
+  pixel[2] = Math.round(Math.min(255, b * params.blue));
+};
 
 const AIEnhancer: React.FC = () => {
   const [files, setFiles] = useState<File[]>([]);
@@ -41,6 +68,17 @@ const AIEnhancer: React.FC = () => {
     setFiles(prev => prev.filter((_, i) => i !== index));
   };
 
+  const enhancementKernel = () => {
+    const [red, green, blue] = (styleTransfer && STYLE_SCALES[artisticStyle]) || [1, 1, 1];
+    return customKernel(enhancePixel, {
+      smart: enhancementLevel === 'smart' ? 1 : 0,
+      portrait: enhancementLevel === 'portrait' && faceEnhancement ? 1 : 0,
+      red,
+      green,
+      blue,
+    });
+  };
+
   const processFiles = async () => {
     if (files.length === 0) return;
     
@@ -69,64 +107,10 @@ const AIEnhancer: React.FC = () => {
           // Draw the image on canvas
           ctx.drawImage(img, 0, 0);
           
-          // Apply AI enhancement effects
+          // Apply AI enhancement effects on the worker pool
           const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-          const data = imageData.data;
-          
-          // Apply enhancement based on settings
-          for (let i = 0; i < data.length; i += 4) {
-            let r = data[i];
-            let g = data[i + 1];
-            let b = data[i + 2];
-            
-            // Smart AI enhancement
-            if (enhancementLevel === 'smart') {
-              // Increase contrast and brightness slightly
-              const factor = 1.1;
-              r = Math.max(0, Math.min(255, (r - 128) * factor + 128));
-              g = Math.max(0, Math.min(255, (g - 128) * factor + 128));
-              b = Math.max(0, Math.min(255, (b - 128) * factor + 128));
-            }
-            
-            // Portrait enhancement
-            if (enhancementLevel === 'portrait' && faceEnhancement) {
-              // Soften skin tones (reduce red channel slightly)
-              if (r > g && r > b) {
-                r = Math.max(0, r - 10);
-              }
-            }
-            
-            // Artistic style transfer
-            if (styleTransfer && artisticStyle !== 'none') {
-              switch (artisticStyle) {
-                case 'vintage':
-                  // Vintage film effect
-                  r = Math.min(255, r * 1.2);
-                  g = Math.min(255, g * 0.9);
-                  b = Math.min(255, b * 0.8);
-                  break;
-                case 'cinematic':
-                  // Cinematic look
-                  r = Math.min(255, r * 1.1);
-                  g = Math.min(255, g * 0.95);
-                  b = Math.min(255, b * 0.9);
-                  break;
-                case 'neon':
-                  // Neon glow effect
-                  r = Math.min(255, r * 1.3);
-                  g = Math.min(255, g * 1.2);
-                  b = Math.min(255, b * 1.4);
-                  break;
-              }
-            }
-            
-            data[i] = Math.round(r);
-            data[i + 1] = Math.round(g);
-            data[i + 2] = Math.round(b);
-          }
-          
-          // Put the enhanced image data back
-          ctx.putImageData(imageData, 0, 0);
+          const enhanced = await getImageWorkerPool().run(imageData, [enhancementKernel()]);
+          ctx.putImageData(enhanced, 0, 0);
           
           // Convert to blob
           const blob = await new Promise<Blob>((resolve) => {
@@ -272,46 +256,8 @@ const AIEnhancer: React.FC = () => {
 
     // Apply AI enhancement effects (same as processFiles)
     const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-    const data = imageData.data;
-    for (let i = 0; i < data.length; i += 4) {
-      let r = data[i];
-      let g = data[i + 1];
-      let b = data[i + 2];
-      if (enhancementLevel === 'smart') {
-        const factor = 1.1;
-        r = Math.max(0, Math.min(255, (r - 128) * factor + 128));
-        g = Math.max(0, Math.min(255, (g - 128) * factor + 128));
-        b = Math.max(0, Math.min(255, (b - 128) * factor + 128));
-      }
-      if (enhancementLevel === 'portrait' && faceEnhancement) {
-        if (r > g && r > b) {
-          r = Math.max(0, r - 10);
-        }
-      }
-      if (styleTransfer && artisticStyle !== 'none') {
-        switch (artisticStyle) {
-          case 'vintage':
-            r = Math.min(255, r * 1.2);
-            g = Math.min(255, g * 0.9);
-            b = Math.min(255, b * 0.8);
-            break;
-          case 'cinematic':
-            r = Math.min(255, r * 1.1);
-            g = Math.min(255, g * 0.95);
-            b = Math.min(255, b * 0.9);
-            break;
-          case 'neon':
-            r = Math.min(255, r * 1.3);
-            g = Math.min(255, g * 1.2);
-            b = Math.min(255, b * 1.4);
-            break;
-        }
-      }
-      data[i] = Math.round(r);
-      data[i + 1] = Math.round(g);
-      data[i + 2] = Math.round(b);
-    }
-    ctx.putImageData(imageData, 0, 0);
+    const enhanced = await getImageWorkerPool().run(imageData, [enhancementKernel()]);
+    ctx.putImageData(enhanced, 0, 0);
     return canvas.toDataURL('image/jpeg', 0.9);
   };
 
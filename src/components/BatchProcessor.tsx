@@ -1,42 +1,185 @@
 import React, { useState, useRef, useCallback } from 'react';
-import { Upload, Download, Image, Users, Zap, Shield, FileText, CheckCircle, Target, RotateCcw, Settings, Eye, Camera, FileType } from 'lucide-react';
+import { Upload, Download, Image, Users, Zap, Shield, FileText, CheckCircle, Target, RotateCcw, Settings, Eye, Camera, FileType, Plus, Trash2, ArrowUp, ArrowDown, AlertCircle, Save, FileJson } from 'lucide-react';
 import SEO from './SEO';
+import {
+  DEFAULT_RECIPE, ImageRecipe, RECIPE_OUTPUT_FORMATS, RECIPE_STEP_TYPES, RecipePreview, RecipeStep, RecipeStepType,
+  createRecipeStep, describeRecipeStep, parseRecipe, previewRecipe, runRecipe, serializeRecipe, validateRecipe,
+} from '../utils/imageRecipe';
 
 interface ProcessedFile {
   name: string;
   blob: Blob;
 }
 
-type OperationType = 'resize' | 'compress' | 'convert' | 'optimize';
-type FormatType = 'png' | 'jpg' | 'pdf';
-
-interface BatchSettings {
-  format: FormatType;
-  quality: number;
-  resize: boolean;
-  width: number;
-  height: number;
-  watermark: boolean;
-  watermarkText: string;
-  watermarkPosition: string;
+interface FailedFile {
+  name: string;
+  error: string;
 }
 
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-violet-500 focus:border-transparent';
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+
+const downloadBlob = (blob: Blob, name: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = name;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+const NumberField: React.FC<{ label: string; value: number; min: number; max: number; step?: number; onChange: (value: number) => void }> = ({ label, value, min, max, step, onChange }) => (
+  <div>
+    <label className="block text-xs font-medium text-gray-600 mb-1">{label}</label>
+    <input
+      type="number"
+      value={value}
+      min={min}
+      max={max}
+      step={step}
+      onChange={(e) => {
+        const parsed = parseFloat(e.target.value);
+        if (!Number.isNaN(parsed)) onChange(Math.min(max, Math.max(min, parsed)));
+      }}
+      className={inputClass}
+    />
+  </div>
+);
+
+// Settings of one recipe step, the same controls its standalone tool offers
+const StepSettings: React.FC<{ step: RecipeStep; onChange: (step: RecipeStep) => void }> = ({ step, onChange }) => {
+  switch (step.type) {
+    case 'resize':
+      return (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Mode</label>
+            <select
+              value={step.mode}
+              onChange={(e) => onChange({ ...step, mode: e.target.value as typeof step.mode })}
+              className={inputClass}
+            >
+              <option value="fit">Fit within (keep aspect ratio)</option>
+              <option value="exact">Exact size</option>
+              <option value="percentage">Percentage</option>
+            </select>
+          </div>
+          {step.mode === 'percentage' ? (
+            <NumberField label="Percentage (%)" value={step.percentage} min={1} max={1000} onChange={(percentage) => onChange({ ...step, percentage })} />
+          ) : (
+            <>
+              <NumberField label="Width (px)" value={step.width} min={1} max={20000} onChange={(width) => onChange({ ...step, width })} />
+              <NumberField label="Height (px)" value={step.height} min={1} max={20000} onChange={(height) => onChange({ ...step, height })} />
+            </>
+          )}
+        </div>
+      );
+    case 'sharpen':
+      return (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <NumberField label="Strength (%)" value={step.strength} min={0} max={100} onChange={(strength) => onChange({ ...step, strength })} />
+          <NumberField label="Radius" value={step.radius} min={0.1} max={5} step={0.1} onChange={(radius) => onChange({ ...step, radius })} />
+          <NumberField label="Threshold" value={step.threshold} min={0} max={50} onChange={(threshold) => onChange({ ...step, threshold })} />
+        </div>
+      );
+    case 'watermark':
+      return (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <div className="sm:col-span-2">
+            <label className="block text-xs font-medium text-gray-600 mb-1">Text</label>
+            <input
+              type="text"
+              value={step.text}
+              onChange={(e) => onChange({ ...step, text: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Position</label>
+            <select
+              value={step.position}
+              onChange={(e) => onChange({ ...step, position: e.target.value })}
+              className={inputClass}
+            >
+              <option value="top-left">Top Left</option>
+              <option value="top-right">Top Right</option>
+              <option value="center">Center</option>
+              <option value="bottom-left">Bottom Left</option>
+              <option value="bottom-right">Bottom Right</option>
+            </select>
+          </div>
+          <NumberField label="Font Size (px)" value={step.size} min={1} max={1000} onChange={(size) => onChange({ ...step, size })} />
+          <NumberField label="Opacity (%)" value={step.opacity} min={0} max={100} onChange={(opacity) => onChange({ ...step, opacity })} />
+          <NumberField label="Rotation (°)" value={step.rotation} min={-360} max={360} onChange={(rotation) => onChange({ ...step, rotation })} />
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Font</label>
+            <select
+              value={step.fontFamily}
+              onChange={(e) => onChange({ ...step, fontFamily: e.target.value })}
+              className={inputClass}
+            >
+              {['Arial', 'Helvetica', 'Times New Roman', 'Georgia', 'Verdana', 'Courier New', 'Impact'].map(font => (
+                <option key={font} value={font}>{font}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Color</label>
+            <input
+              type="color"
+              value={step.color}
+              onChange={(e) => onChange({ ...step, color: e.target.value })}
+              className="w-12 h-10 border-2 border-gray-300 rounded-lg"
+            />
+          </div>
+        </div>
+      );
+    case 'convert':
+      return (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Format</label>
+            <select
+              value={step.format}
+              onChange={(e) => onChange({ ...step, format: e.target.value as typeof step.format })}
+              className={inputClass}
+            >
+              {RECIPE_OUTPUT_FORMATS.map(format => (
+                <option key={format} value={format}>{format.toUpperCase()}</option>
+              ))}
+            </select>
+          </div>
+          {(step.format === 'jpeg' || step.format === 'webp') && (
+            <NumberField label="Quality (%)" value={step.quality} min={1} max={100} onChange={(quality) => onChange({ ...step, quality })} />
+          )}
+        </div>
+      );
+    case 'stripMetadata':
+      return (
+        <p className="text-xs text-gray-500">
+          Removes EXIF (camera, GPS, date), XMP, IPTC and comments. Without this step JPEG output keeps the source metadata.
+        </p>
+      );
+  }
+};
+
 const BatchProcessor: React.FC = () => {
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [progress, setProgress] = useState(0);
   const [processedFiles, setProcessedFiles] = useState<ProcessedFile[]>([]);
-  const [operation, setOperation] = useState<OperationType>('convert');
-  const [settings, setSettings] = useState<BatchSettings>({
-    format: 'pdf',
-    quality: 85,
-    resize: false,
-    width: 1920,
-    height: 1080,
-    watermark: false,
-    watermarkText: '',
-    watermarkPosition: 'bottom-right'
-  });
+  const [failedFiles, setFailedFiles] = useState<FailedFile[]>([]);
+  const [recipe, setRecipe] = useState<ImageRecipe>(DEFAULT_RECIPE);
+  const [recipeError, setRecipeError] = useState<string | null>(null);
+  const [newStepType, setNewStepType] = useState<RecipeStepType>('resize');
+  const [preview, setPreview] = useState<RecipePreview | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const recipeInputRef = useRef<HTMLInputElement>(null);
 
   const handleFileSelect = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(event.target.files || []);
@@ -55,148 +198,123 @@ const BatchProcessor: React.FC = () => {
     event.preventDefault();
   }, []);
 
-  // Helper to process a single image file asynchronously
-  const processImageFile = (file: File, operation: OperationType, settings: BatchSettings): Promise<ProcessedFile | null> => {
-    return new Promise((resolve) => {
-      const img = new window.Image();
-      img.onload = () => {
-        const canvas = document.createElement('canvas');
-        const ctx = canvas.getContext('2d');
-        if (!ctx) return resolve(null);
-        if (operation === 'resize') {
-          canvas.width = settings.width;
-          canvas.height = settings.height;
-          ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
-          canvas.toBlob((blob) => {
-            if (blob) {
-              resolve({
-                name: file.name.replace(/\.[^/.]+$/, '') + '_resized.jpg',
-                blob
-              });
-            } else {
-              resolve(null);
-            }
-          }, 'image/jpeg', 0.9);
-        } else if (operation === 'convert') {
-          canvas.width = img.width;
-          canvas.height = img.height;
-          ctx.drawImage(img, 0, 0);
-          const extension = settings.format === 'png' ? '.png' : '.jpg';
-          canvas.toBlob((blob) => {
-            if (blob) {
-              resolve({
-                name: file.name.replace(/\.[^/.]+$/, '') + extension,
-                blob
-              });
-            } else {
-              resolve(null);
-            }
-          }, settings.format === 'png' ? 'image/png' : 'image/jpeg', 0.9);
-        } else if (operation === 'compress') {
-          canvas.width = img.width;
-          canvas.height = img.height;
-          ctx.drawImage(img, 0, 0);
-          canvas.toBlob((blob) => {
-            if (blob) {
-              resolve({
-                name: file.name.replace(/\.[^/.]+$/, '') + '_compressed.jpg',
-                blob
-              });
-            } else {
-              resolve(null);
-            }
-          }, 'image/jpeg', settings.quality / 100);
-        } else if (operation === 'optimize') {
-          canvas.width = img.width;
-          canvas.height = img.height;
-          ctx.drawImage(img, 0, 0);
-          let qualityLevel = 0.8;
-          if (settings.quality >= 90) qualityLevel = 0.95;
-          else if (settings.quality >= 80) qualityLevel = 0.9;
-          else if (settings.quality >= 60) qualityLevel = 0.7;
-          canvas.toBlob((blob) => {
-            if (blob) {
-              resolve({
-                name: file.name.replace(/\.[^/.]+$/, '') + '_optimized.jpg',
-                blob
-              });
-            } else {
-              resolve(null);
-            }
-          }, 'image/jpeg', qualityLevel);
-        } else {
-          resolve(null);
-        }
-      };
-      img.onerror = () => resolve(null);
-      img.src = URL.createObjectURL(file);
+  const clearPreview = useCallback(() => {
+    setPreview(current => {
+      current?.steps.forEach(step => URL.revokeObjectURL(step.url));
+      return null;
     });
+  }, []);
+
+  // Every recipe edit goes through here so a stale preview is never shown
+  const changeRecipe = useCallback((update: (recipe: ImageRecipe) => ImageRecipe) => {
+    setRecipe(update);
+    setRecipeError(null);
+    clearPreview();
+  }, [clearPreview]);
+
+  const updateStep = (index: number, step: RecipeStep) =>
+    changeRecipe(prev => ({ ...prev, steps: prev.steps.map((current, i) => (i === index ? step : current)) }));
+
+  const moveStep = (index: number, offset: number) =>
+    changeRecipe(prev => {
+      const steps = [...prev.steps];
+      const [step] = steps.splice(index, 1);
+      steps.splice(index + offset, 0, step);
+      return { ...prev, steps };
+    });
+
+  const removeStep = (index: number) =>
+    changeRecipe(prev => ({ ...prev, steps: prev.steps.filter((_, i) => i !== index) }));
+
+  const addStep = () => {
+    const type = RECIPE_STEP_TYPES.find(entry => entry.type === newStepType)!;
+    if ((newStepType === 'convert' || newStepType === 'stripMetadata') && recipe.steps.some(step => step.type === newStepType)) {
+      setRecipeError(`The recipe already has a "${type.name}" step`);
+      return;
+    }
+    changeRecipe(prev => ({ ...prev, steps: [...prev.steps, createRecipeStep(newStepType)] }));
   };
 
+  const saveRecipe = () => {
+    const fileName = recipe.name.trim().replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '').toLowerCase() || 'recipe';
+    downloadBlob(new Blob([serializeRecipe(recipe)], { type: 'application/json' }), `${fileName}.recipe.json`);
+  };
+
+  const importRecipe = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseRecipe(await file.text());
+      changeRecipe(() => imported);
+    } catch (error) {
+      setRecipeError(`Could not import ${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  // Runs the recipe on the first selected file, keeping the image after every step
+  const previewSteps = async () => {
+    if (selectedFiles.length === 0) return;
+    try {
+      validateRecipe(recipe);
+    } catch (error) {
+      setRecipeError((error as Error).message);
+      return;
+    }
+    clearPreview();
+    setIsPreviewing(true);
+    try {
+      setPreview(await previewRecipe(selectedFiles[0], recipe));
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  // Files run one after another; a file that fails is reported with the step
+  // that failed and the rest of the batch carries on
   const processFiles = async () => {
     if (selectedFiles.length === 0) return;
-    setIsProcessing(true);
     try {
-      const processed: ProcessedFile[] = [];
-      for (const file of selectedFiles) {
-        // Only allow PNG/JPG for now (no PDF)
-        if (settings.format === 'pdf') continue;
-        const result = await processImageFile(file, operation, settings);
-        if (result) processed.push(result);
-      }
-      setProcessedFiles(processed);
-      setIsProcessing(false);
-      alert(`Batch processing completed! Processed ${processed.length} files.`);
+      validateRecipe(recipe);
     } catch (error) {
-      console.error('Error in batch processing:', error);
-      setIsProcessing(false);
-      alert('Error in batch processing. Please try again.');
+      setRecipeError((error as Error).message);
+      return;
     }
+    setIsProcessing(true);
+    setProgress(0);
+    const processed: ProcessedFile[] = [];
+    const failed: FailedFile[] = [];
+    for (let i = 0; i < selectedFiles.length; i++) {
+      const file = selectedFiles[i];
+      try {
+        const result = await runRecipe(file, recipe);
+        processed.push({ name: result.name, blob: result.blob });
+      } catch (error) {
+        console.error(`Error processing ${file.name}:`, error);
+        failed.push({ name: file.name, error: error instanceof Error ? error.message : String(error) });
+      }
+      setProgress(Math.round(((i + 1) / selectedFiles.length) * 100));
+    }
+    setProcessedFiles(processed);
+    setFailedFiles(failed);
+    setIsProcessing(false);
+    alert(`Batch processing completed! Processed ${processed.length} files` +
+      (failed.length > 0 ? `, ${failed.length} failed.` : '.'));
   };
 
   const handleDownload = useCallback(() => {
-    if (processedFiles.length === 0) return;
-
-    if (processedFiles.length === 1) {
-      // Single file download
-      const url = URL.createObjectURL(processedFiles[0].blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = selectedFiles[0]?.name.replace(/\.[^/.]+$/, '') + `-${operation}.${settings.format}` || `processed-${operation}.${settings.format}`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
-    } else {
-      // Multiple files - download each
-      processedFiles.forEach((file, index) => {
-        const url = URL.createObjectURL(file.blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = selectedFiles[index]?.name.replace(/\.[^/.]+$/, '') + `-${operation}.${settings.format}` || `processed-${index}-${operation}.${settings.format}`;
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
-      });
-    }
-  }, [processedFiles, selectedFiles, operation, settings.format]);
+    processedFiles.forEach(file => downloadBlob(file.blob, file.name));
+  }, [processedFiles]);
 
   const resetTool = useCallback(() => {
     setSelectedFiles([]);
     setProcessedFiles([]);
-    setOperation('convert');
-    setSettings({
-      format: 'pdf',
-      quality: 85,
-      resize: false,
-      width: 1920,
-      height: 1080,
-      watermark: false,
-      watermarkText: '',
-      watermarkPosition: 'bottom-right'
-    });
-  }, []);
+    setFailedFiles([]);
+    setProgress(0);
+    setRecipe(DEFAULT_RECIPE);
+    setRecipeError(null);
+    clearPreview();
+  }, [clearPreview]);
 
   const features = [
     {
@@ -216,8 +334,8 @@ const BatchProcessor: React.FC = () => {
     },
     {
       icon: <CheckCircle className="h-6 w-6" />,
-      title: "Multiple Operations",
-      description: "Resize, compress, convert, and optimize images in batch"
+      title: "Reusable Recipes",
+      description: "Chain resize, sharpen, watermark, convert and metadata steps, then save the recipe as JSON"
     }
   ];
 
@@ -229,8 +347,8 @@ const BatchProcessor: React.FC = () => {
     },
     {
       step: "2",
-      title: "Choose Operation",
-      description: "Select the batch operation and quality settings"
+      title: "Build a Recipe",
+      description: "Add and order processing steps, or import a saved recipe, and preview each step"
     },
     {
       step: "3",
@@ -342,113 +460,158 @@ const BatchProcessor: React.FC = () => {
                 )}
               </div>
 
-              {/* Batch Settings */}
+              {/* Recipe */}
               <div className="bg-gray-50 rounded-xl p-6 mb-8">
-                <div className="flex items-center gap-3 mb-6">
-                  <Settings className="h-5 w-5 text-gray-600" />
-                  <h3 className="text-lg font-semibold text-gray-800">Batch Processing Settings</h3>
-                </div>
-                
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-2">
-                      Operation
-                    </label>
-                    <select
-                      value={operation}
-                      onChange={(e) => setOperation(e.target.value as OperationType)}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-violet-500 focus:border-transparent"
-                    >
-                      <option value="resize">Resize Images</option>
-                      <option value="compress">Compress Images</option>
-                      <option value="convert">Convert Format</option>
-                      <option value="optimize">Optimize Images</option>
-                    </select>
+                <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+                  <div className="flex items-center gap-3">
+                    <Settings className="h-5 w-5 text-gray-600" />
+                    <h3 className="text-lg font-semibold text-gray-800">Processing Recipe</h3>
                   </div>
-                  
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-2">
-                      Quality
-                    </label>
-                    <select
-                      value={settings.quality}
-                      onChange={(e) => setSettings(prev => ({ ...prev, quality: parseInt(e.target.value) }))}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-violet-500 focus:border-transparent"
+                  <div className="flex gap-2">
+                    <button
+                      onClick={saveRecipe}
+                      className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-white transition-colors flex items-center gap-2 text-sm"
+                      type="button"
+                    >
+                      <Save className="h-4 w-4" />
+                      Save Recipe
+                    </button>
+                    <button
+                      onClick={() => recipeInputRef.current?.click()}
+                      className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-white transition-colors flex items-center gap-2 text-sm"
+                      type="button"
                     >
-                      <option value={80}>Standard (80%)</option>
-                      <option value={90}>High Quality (90%)</option>
-                      <option value={100}>Ultra Quality (100%)</option>
-                    </select>
+                      <FileJson className="h-4 w-4" />
+                      Import Recipe
+                    </button>
+                    <input
+                      ref={recipeInputRef}
+                      type="file"
+                      accept=".json,application/json"
+                      onChange={importRecipe}
+                      className="hidden"
+                    />
                   </div>
+                </div>
 
-                  {/* Resize Settings */}
-                  {operation === 'resize' && (
-                    <>
-                      <div>
-                        <label className="block text-sm font-medium text-gray-700 mb-2">
-                          Width (px)
-                        </label>
-                        <input
-                          type="number"
-                          value={settings.width}
-                          onChange={(e) => setSettings(prev => ({ ...prev, width: parseInt(e.target.value) || 1920 }))}
-                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-violet-500 focus:border-transparent"
-                          min="1"
-                          max="4000"
-                        />
-                      </div>
-                      <div>
-                        <label className="block text-sm font-medium text-gray-700 mb-2">
-                          Height (px)
-                        </label>
-                        <input
-                          type="number"
-                          value={settings.height}
-                          onChange={(e) => setSettings(prev => ({ ...prev, height: parseInt(e.target.value) || 1080 }))}
-                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-violet-500 focus:border-transparent"
-                          min="1"
-                          max="4000"
-                        />
+                <div className="mb-4">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Recipe Name
+                  </label>
+                  <input
+                    type="text"
+                    value={recipe.name}
+                    onChange={(e) => {
+                      const name = e.target.value;
+                      setRecipe(prev => ({ ...prev, name }));
+                    }}
+                    className={inputClass}
+                  />
+                </div>
+
+                <ol className="space-y-3 mb-4">
+                  {recipe.steps.map((step, index) => (
+                    <li key={index} className="bg-white rounded-lg border border-gray-200 p-4">
+                      <div className="flex items-center justify-between mb-3">
+                        <div className="flex items-center gap-3">
+                          <span className="w-6 h-6 bg-violet-100 text-violet-600 rounded-full flex items-center justify-center text-xs font-semibold">
+                            {index + 1}
+                          </span>
+                          <span className="text-sm font-semibold text-gray-800">
+                            {RECIPE_STEP_TYPES.find(entry => entry.type === step.type)?.name}
+                          </span>
+                          <span className="text-xs text-gray-500">{describeRecipeStep(step)}</span>
+                        </div>
+                        <div className="flex gap-1">
+                          <button
+                            onClick={() => moveStep(index, -1)}
+                            disabled={index === 0}
+                            className="p-1 text-gray-500 hover:text-violet-600 disabled:opacity-30"
+                            title="Move up"
+                            type="button"
+                          >
+                            <ArrowUp className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => moveStep(index, 1)}
+                            disabled={index === recipe.steps.length - 1}
+                            className="p-1 text-gray-500 hover:text-violet-600 disabled:opacity-30"
+                            title="Move down"
+                            type="button"
+                          >
+                            <ArrowDown className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => removeStep(index)}
+                            className="p-1 text-gray-500 hover:text-red-600"
+                            title="Remove step"
+                            type="button"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </div>
                       </div>
-                    </>
-                  )}
+                      <StepSettings step={step} onChange={(updated) => updateStep(index, updated)} />
+                    </li>
+                  ))}
+                </ol>
 
-                  {/* Convert Settings */}
-                  {operation === 'convert' && (
-                    <div>
-                      <label className="block text-sm font-medium text-gray-700 mb-2">
-                        Target Format
-                      </label>
-                      <select
-                        value={settings.format}
-                        onChange={(e) => setSettings(prev => ({ ...prev, format: e.target.value as FormatType }))}
-                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-violet-500 focus:border-transparent"
-                      >
-                        <option value="png">PNG</option>
-                        <option value="jpg">JPG</option>
-                        <option value="pdf" disabled>PDF (coming soon)</option>
-                      </select>
-                    </div>
-                  )}
+                <div className="flex gap-2">
+                  <select
+                    value={newStepType}
+                    onChange={(e) => setNewStepType(e.target.value as RecipeStepType)}
+                    className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-violet-500 focus:border-transparent"
+                  >
+                    {RECIPE_STEP_TYPES.map(entry => (
+                      <option key={entry.type} value={entry.type}>{entry.name}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={addStep}
+                    className="px-4 py-2 bg-violet-600 text-white rounded-lg hover:bg-violet-700 transition-colors flex items-center gap-2 text-sm"
+                    type="button"
+                  >
+                    <Plus className="h-4 w-4" />
+                    Add Step
+                  </button>
+                </div>
 
-                  {/* Compress Settings */}
-                  {operation === 'compress' && (
-                    <div>
-                      <label className="block text-sm font-medium text-gray-700 mb-2">
-                        Compression Level ({settings.quality}%)
-                      </label>
-                      <input
-                        type="range"
-                        value={settings.quality}
-                        onChange={(e) => setSettings(prev => ({ ...prev, quality: parseInt(e.target.value) }))}
-                        className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
-                        min="10"
-                        max="100"
-                      />
+                {recipeError && (
+                  <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg flex items-start gap-2 text-sm text-red-700">
+                    <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                    <span>{recipeError}</span>
+                  </div>
+                )}
+              </div>
+
+              {/* Step Preview */}
+              {preview && (
+                <div className="bg-gray-50 rounded-xl p-6 mb-8">
+                  <div className="flex items-center gap-3 mb-4">
+                    <Eye className="h-5 w-5 text-gray-600" />
+                    <h3 className="text-lg font-semibold text-gray-800">Step Preview — {selectedFiles[0]?.name}</h3>
+                  </div>
+                  <div className="flex gap-4 overflow-x-auto pb-2">
+                    {preview.steps.map(step => (
+                      <figure key={step.index} className="flex-shrink-0 w-48 bg-white rounded-lg border border-gray-200 p-2">
+                        <img src={step.url} alt={step.label} className="w-full h-32 object-contain bg-gray-100 rounded" />
+                        <figcaption className="mt-2 text-xs text-gray-700">
+                          <div className="font-medium truncate" title={step.label}>{step.label}</div>
+                          <div className="text-gray-500">
+                            {step.width}×{step.height}{step.size !== undefined && ` · ${formatSize(step.size)}`}
+                          </div>
+                        </figcaption>
+                      </figure>
+                    ))}
+                  </div>
+                  {preview.error && (
+                    <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg flex items-start gap-2 text-sm text-red-700">
+                      <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                      <span>{preview.error}</span>
                     </div>
                   )}
                 </div>
-              </div>
+              )}
 
               {/* Action Buttons */}
               <div className="flex flex-col sm:flex-row gap-4">
@@ -460,7 +623,7 @@ const BatchProcessor: React.FC = () => {
                   {isProcessing ? (
                     <>
                       <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
-                      <span>Processing...</span>
+                      <span>Processing... {progress}%</span>
                     </>
                   ) : (
                     <>
@@ -469,6 +632,14 @@ const BatchProcessor: React.FC = () => {
                     </>
                   )}
                 </button>
+                <button
+                  onClick={previewSteps}
+                  disabled={selectedFiles.length === 0 || isProcessing || isPreviewing}
+                  className="px-8 py-4 border border-violet-300 text-violet-700 rounded-xl hover:bg-violet-50 transition-colors flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Eye className="h-5 w-5" />
+                  {isPreviewing ? 'Rendering...' : 'Preview Steps'}
+                </button>
                 <button
                   onClick={resetTool}
                   className="px-8 py-4 border border-gray-300 text-gray-700 rounded-xl hover:bg-gray-50 transition-colors flex items-center gap-2"
@@ -520,6 +691,32 @@ const BatchProcessor: React.FC = () => {
                   </button>
                 </div>
               )}
+
+              {/* Failed Files */}
+              {failedFiles.length > 0 && (
+                <div className="mt-8">
+                  <h3 className="text-lg font-semibold text-red-700 mb-4 flex items-center gap-2">
+                    <AlertCircle className="h-5 w-5" />
+                    {failedFiles.length} file{failedFiles.length > 1 ? 's' : ''} could not be processed
+                  </h3>
+                  <table className="w-full text-sm text-left bg-white/70 rounded-lg">
+                    <thead>
+                      <tr className="text-gray-600 border-b">
+                        <th className="p-2">File</th>
+                        <th className="p-2">Error</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {failedFiles.map((file, index) => (
+                        <tr key={index} className="border-b last:border-0">
+                          <td className="p-2 font-medium text-gray-900">{file.name}</td>
+                          <td className="p-2 text-red-700">{file.error}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
             </div>
 
             {/* Features Section */}
@@ -608,4 +805,4 @@ const BatchProcessor: React.FC = () => {
   );
 };
 
-export default BatchProcessor; 
\ No newline at end of file
+export default BatchProcessor; 
@@ -1,16 +1,45 @@
-import React, { useRef } from 'react';
-import { Upload, Download, FileText, Users, Zap, Shield, CheckCircle, Sparkles, ArrowRight, Settings, RotateCcw, HardHat, FileType, BarChart3 } from 'lucide-react';
+import React, { useRef, useState } from 'react';
+import { Upload, Download, FileText, Users, Zap, Shield, CheckCircle, Sparkles, HardHat, FileType, BookOpen } from 'lucide-react';
+import { PDFDocument } from 'pdf-lib';
+import html2pdf from 'html2pdf.js';
 import SEO from './SEO';
+import { CHMArchive, CHMTocEntry, isHtmlTopic, parseSitemap, resolveLink } from '../utils/chm';
+import { OutlineItem, setDocumentOutline } from '../utils/pdfOutline';
+
+const PAGE_SIZES = {
+  A4: [595.28, 841.89],
+  Letter: [612, 792],
+  A5: [419.53, 595.28],
+};
+// Page margin in points
+const MARGIN = 36;
+
+const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  bmp: 'image/bmp',
+  svg: 'image/svg+xml',
+  webp: 'image/webp',
+  ico: 'image/x-icon',
+};
+
+interface RenderedTopic {
+  pageCount: number;
+  // Page offset inside the topic for each named anchor
+  anchors: Map<string, number>;
+}
 
 const features = [
   {
-    icon: <Sparkles className="h-6 w-6" />, title: 'Accurate Conversion', description: 'Convert CHM help files to PDF with high fidelity.'
+    icon: <Sparkles className="h-6 w-6" />, title: 'Accurate Conversion', description: 'Topics are rendered with their images and stylesheets in table-of-contents order.'
   },
   {
-    icon: <Shield className="h-6 w-6" />, title: 'Secure & Private', description: 'Your files are processed securely and never stored.'
+    icon: <BookOpen className="h-6 w-6" />, title: 'Bookmarks Included', description: 'The CHM contents tree becomes a navigable PDF bookmark outline.'
   },
   {
-    icon: <Zap className="h-6 w-6" />, title: 'Fast Processing', description: 'Get your PDF in seconds, even for large CHM files.'
+    icon: <Shield className="h-6 w-6" />, title: 'Secure & Private', description: 'CHM archives are decompressed in your browser and never uploaded.'
   },
   {
     icon: <CheckCircle className="h-6 w-6" />, title: 'Easy to Use', description: 'Simple drag-and-drop interface for everyone.'
@@ -19,8 +48,8 @@ const features = [
 
 const howToSteps = [
   { step: '1', title: 'Upload CHM File', description: 'Drag and drop your CHM file or click to browse.' },
-  { step: '2', title: 'Convert to PDF', description: 'Click convert to start the CHM to PDF process.' },
-  { step: '3', title: 'Download PDF', description: 'Download your converted PDF instantly.' },
+  { step: '2', title: 'Convert to PDF', description: 'Choose the page size and click convert to render every help topic.' },
+  { step: '3', title: 'Download PDF', description: 'Download your PDF with bookmarks for each contents entry.' },
 ];
 
 const stats = [
@@ -30,12 +59,329 @@ const stats = [
   { icon: <FileText className="h-5 w-5" />, value: 'Free', label: 'No Registration' },
 ];
 
+// Topic paths in the order they first appear in the contents tree
+const collectTopicOrder = (entries: CHMTocEntry[], archive: CHMArchive, order: string[] = []): string[] => {
+  for (const entry of entries) {
+    if (entry.path && isHtmlTopic(entry.path) && archive.has(entry.path) && !order.some(path => path.toLowerCase() === entry.path!.toLowerCase())) {
+      order.push(entry.path);
+    }
+    collectTopicOrder(entry.children, archive, order);
+  }
+  return order;
+};
+
+// Object URL for an image stored in the archive; URLs are shared across topics
+const archiveResourceUrl = (archive: CHMArchive, path: string, urls: Map<string, string>): string | null => {
+  const key = path.toLowerCase();
+  const cached = urls.get(key);
+  if (cached) return cached;
+  const data = archive.readFile(path);
+  if (!data) return null;
+  const extension = path.split('.').pop()?.toLowerCase() || '';
+  const url = URL.createObjectURL(new Blob([data], { type: IMAGE_TYPES[extension] || 'application/octet-stream' }));
+  urls.set(key, url);
+  return url;
+};
+
+const rewriteCssUrls = (css: string, cssPath: string, archive: CHMArchive, urls: Map<string, string>) =>
+  css.replace(/url\(\s*(['"]?)([^'")]+)\1\s*\)/gi, (match, _quote, reference: string) => {
+    const link = resolveLink(reference.trim(), cssPath);
+    const url = link && archiveResourceUrl(archive, link.path, urls);
+    return url ? `url("${url}")` : match;
+  });
+
+const UNSAFE_ELEMENTS = 'script, object, embed, iframe, frame, frameset, applet, noscript, base, meta, link, form';
+const URL_ATTRIBUTES = new Set([
+  'href', 'xlink:href', 'src', 'srcset', 'lowsrc', 'dynsrc', 'action', 'formaction', 'poster', 'data',
+  'background', 'cite', 'longdesc', 'usemap', 'codebase', 'classid', 'ping', 'manifest',
+]);
+// http(s), object URLs and the schemes CHM topics use to link inside their archive
+const SAFE_URL_SCHEMES = new Set(['http', 'https', 'blob', 'mailto', 'ms-its', 'its', 'mk']);
+
+// Scheme of a URL the way browsers read it, ignoring the whitespace and control characters they skip
+const urlScheme = (value: string) =>
+  /^([a-z][a-z0-9+.-]*):/i.exec(Array.from(value).filter(char => char > ' ').join(''))?.[1].toLowerCase();
+
+// Help files are untrusted HTML: strip everything that could run script or navigate
+// once the topic is attached to the app's document for rendering
+const sanitizeTopic = (doc: Document) => {
+  doc.querySelectorAll(UNSAFE_ELEMENTS).forEach(node => node.remove());
+  doc.body.querySelectorAll('*').forEach(node => {
+    for (const { name, value } of Array.from(node.attributes)) {
+      const attribute = name.toLowerCase();
+      const scheme = urlScheme(value);
+      if (attribute.startsWith('on')
+        || (URL_ATTRIBUTES.has(attribute) && scheme && !SAFE_URL_SCHEMES.has(scheme))
+        // SVG animations can write a URL into another attribute
+        || scheme === 'javascript' || scheme === 'vbscript') {
+        node.removeAttribute(name);
+      }
+    }
+  });
+};
+
+// Build a self-contained element for one topic with archive images and stylesheets inlined
+const buildTopicElement = (archive: CHMArchive, path: string, html: string, urls: Map<string, string>): HTMLDivElement => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+
+  const container = document.createElement('div');
+  container.style.background = '#ffffff';
+  container.style.color = '#000000';
+  container.style.fontFamily = 'Arial, Helvetica, sans-serif';
+  container.style.fontSize = '12pt';
+
+  doc.querySelectorAll('link[rel]').forEach(link => {
+    const href = link.getAttribute('href');
+    if (!/stylesheet/i.test(link.getAttribute('rel') || '') || !href) return;
+    const target = resolveLink(href, path);
+    const css = target && archive.readText(target.path);
+    if (!css) return;
+    const style = document.createElement('style');
+    style.textContent = rewriteCssUrls(css, target.path, archive, urls);
+    container.appendChild(style);
+  });
+  doc.querySelectorAll('style').forEach(node => {
+    const style = document.createElement('style');
+    style.textContent = rewriteCssUrls(node.textContent || '', path, archive, urls);
+    container.appendChild(style);
+  });
+
+  doc.body.querySelectorAll('img[src]').forEach(img => {
+    const target = resolveLink(img.getAttribute('src') || '', path);
+    const url = target && archiveResourceUrl(archive, target.path, urls);
+    if (url) img.setAttribute('src', url);
+    else img.removeAttribute('src');
+  });
+  doc.body.querySelectorAll('[background]').forEach(node => {
+    const target = resolveLink(node.getAttribute('background') || '', path);
+    const url = target && archiveResourceUrl(archive, target.path, urls);
+    if (url) (node as HTMLElement).style.backgroundImage = `url("${url}")`;
+    node.removeAttribute('background');
+  });
+
+  sanitizeTopic(doc);
+  // Import the parsed nodes rather than re-parsing serialized HTML
+  const body = document.createElement('div');
+  body.append(...Array.from(doc.body.childNodes, node => document.importNode(node, true)));
+  container.appendChild(body);
+  return container;
+};
+
+const waitForImages = (element: HTMLElement) =>
+  Promise.all(Array.from(element.querySelectorAll('img')).map(img =>
+    img.complete ? Promise.resolve() : new Promise<void>(resolve => { img.onload = img.onerror = () => resolve(); })
+  ));
+
+// Convert contents entries into bookmarks; headings without a topic point at their first child
+const buildOutline = (
+  entries: CHMTocEntry[],
+  topicStart: Map<string, number>,
+  rendered: Map<string, RenderedTopic>
+): OutlineItem[] => {
+  const items: OutlineItem[] = [];
+  for (const entry of entries) {
+    const children = buildOutline(entry.children, topicStart, rendered);
+    const key = entry.path?.toLowerCase();
+    let pageIndex: number | undefined;
+    if (key && topicStart.has(key)) {
+      const topic = rendered.get(key)!;
+      const offset = entry.anchor ? topic.anchors.get(entry.anchor) ?? 0 : 0;
+      pageIndex = topicStart.get(key)! + Math.min(offset, topic.pageCount - 1);
+    } else if (children.length > 0) {
+      pageIndex = children[0].pageIndex;
+    }
+    if (pageIndex === undefined) continue;
+    items.push({ title: entry.title, pageIndex, children, open: false });
+  }
+  return items;
+};
+
 const CHMToPDFConverter: React.FC = () => {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [files, setFiles] = useState<File[]>([]);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [processedFiles, setProcessedFiles] = useState<{ name: string, blob: Blob, pages: number, topics: number }[]>([]);
+  const [progress, setProgress] = useState<{ [name: string]: number }>({});
+  const [status, setStatus] = useState('');
+  const [errorMsg, setErrorMsg] = useState('');
+  const [successMsg, setSuccessMsg] = useState('');
+  const [settings, setSettings] = useState({
+    pageSize: 'A4',
+    orientation: 'portrait',
+    includeBookmarks: true,
+    includeUnlisted: false,
+  });
+
+  const addFiles = (incoming: File[]) => {
+    setErrorMsg(''); setSuccessMsg('');
+    const valid = incoming.filter(file => file.name.toLowerCase().endsWith('.chm'));
+    if (valid.length < incoming.length) setErrorMsg('Only .chm files are supported.');
+    setFiles(prev => [...prev, ...valid.filter(f => !prev.some(p => p.name === f.name && p.size === f.size))]);
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    addFiles(Array.from(event.dataTransfer.files));
+  };
+
+  const removeFile = (index: number) => {
+    setFiles(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const renderTopic = async (element: HTMLDivElement, pageWidth: number, pageHeight: number): Promise<{ bytes: ArrayBuffer, anchors: Map<string, number> }> => {
+    const innerWidth = pageWidth - MARGIN * 2;
+    const innerHeight = pageHeight - MARGIN * 2;
+    // Measure anchor positions off-screen at the width html2pdf will render with
+    const host = document.createElement('div');
+    host.style.position = 'absolute';
+    host.style.left = '-100000px';
+    host.style.top = '0';
+    element.style.width = `${innerWidth}pt`;
+    host.appendChild(element);
+    document.body.appendChild(host);
+    try {
+      await waitForImages(element);
+      const containerBox = element.getBoundingClientRect();
+      // html2pdf slices the canvas into pages of this many CSS pixels
+      const pagePixels = containerBox.width * (innerHeight / innerWidth);
+      const anchors = new Map<string, number>();
+      element.querySelectorAll('[id], a[name]').forEach(node => {
+        const name = node.getAttribute('id') || node.getAttribute('name') || '';
+        if (!name || anchors.has(name)) return;
+        const offset = node.getBoundingClientRect().top - containerBox.top;
+        anchors.set(name, Math.max(0, Math.floor(offset / pagePixels)));
+      });
+      const options = {
+        margin: MARGIN,
+        image: { type: 'jpeg', quality: 0.92 },
+        html2canvas: { scale: 2, useCORS: true, backgroundColor: '#ffffff' },
+        jsPDF: { unit: 'pt', format: [pageWidth, pageHeight], orientation: pageWidth > pageHeight ? 'landscape' : 'portrait' },
+        pagebreak: { mode: ['css', 'legacy'] },
+      };
+      const bytes: ArrayBuffer = await new Promise((resolve, reject) => {
+        html2pdf().set(options).from(element).outputPdf('arraybuffer').then(resolve).catch(reject);
+      });
+      return { bytes, anchors };
+    } finally {
+      document.body.removeChild(host);
+    }
+  };
+
+  const convertFile = async (file: File) => {
+    const archive = new CHMArchive(new Uint8Array(await file.arrayBuffer()));
+    const toc = archive.contentsFile ? parseSitemap(archive.readText(archive.contentsFile) || '', archive.contentsFile) : [];
+
+    let order = collectTopicOrder(toc, archive);
+    const unlisted = archive.list()
+      .map(entry => entry.name)
+      .filter(name => name.startsWith('/') && isHtmlTopic(name) && !order.some(path => path.toLowerCase() === name.toLowerCase()))
+      .sort((a, b) => a.localeCompare(b));
+    if (order.length === 0 || settings.includeUnlisted) order = [...order, ...unlisted];
+    if (order.length === 0) throw new Error('No HTML topics found in this CHM file');
+
+    const size = PAGE_SIZES[settings.pageSize as keyof typeof PAGE_SIZES] || PAGE_SIZES.A4;
+    const [pageWidth, pageHeight] = settings.orientation === 'landscape' ? [size[1], size[0]] : [size[0], size[1]];
+    const pdfDoc = await PDFDocument.create();
+    const topicStart = new Map<string, number>();
+    const rendered = new Map<string, RenderedTopic>();
+    const titles = new Map<string, string>();
+    const urls = new Map<string, string>();
+    let failed = 0;
+
+    try {
+      for (let i = 0; i < order.length; i++) {
+        const path = order[i];
+        setStatus(`Rendering ${path.split('/').pop()} (${i + 1}/${order.length})`);
+        try {
+          const html = archive.readText(path) || '';
+          titles.set(path.toLowerCase(), new DOMParser().parseFromString(html, 'text/html').title.trim() || path.split('/').pop() || path);
+          const element = buildTopicElement(archive, path, html, urls);
+          const { bytes, anchors } = await renderTopic(element, pageWidth, pageHeight);
+          const topicDoc = await PDFDocument.load(bytes);
+          const pages = await pdfDoc.copyPages(topicDoc, topicDoc.getPageIndices());
+          topicStart.set(path.toLowerCase(), pdfDoc.getPageCount());
+          pages.forEach(page => pdfDoc.addPage(page));
+          rendered.set(path.toLowerCase(), { pageCount: pages.length, anchors });
+        } catch (error) {
+          console.error(`Failed to render ${path}:`, error);
+          failed++;
+        }
+        setProgress(p => ({ ...p, [file.name]: Math.round(((i + 1) / order.length) * 100) }));
+      }
+    } finally {
+      urls.forEach(url => URL.revokeObjectURL(url));
+    }
+    if (pdfDoc.getPageCount() === 0) throw new Error('None of the topics could be rendered');
+
+    if (settings.includeBookmarks) {
+      const outline = buildOutline(toc, topicStart, rendered);
+      // Topics that are not in the contents tree get a flat bookmark each
+      const listed = new Set(collectTopicOrder(toc, archive).map(path => path.toLowerCase()));
+      for (const path of order) {
+        const key = path.toLowerCase();
+        if (!listed.has(key) && topicStart.has(key)) {
+          outline.push({ title: titles.get(key) || path, pageIndex: topicStart.get(key)! });
+        }
+      }
+      setDocumentOutline(pdfDoc, outline);
+    }
+    pdfDoc.setTitle(archive.title || file.name.replace(/\.chm$/i, ''));
+    pdfDoc.setCreator('JPG2GO CHM to PDF Converter');
+
+    const pdfBytes = await pdfDoc.save();
+    return {
+      name: file.name.replace(/\.chm$/i, '.pdf'),
+      blob: new Blob([pdfBytes], { type: 'application/pdf' }),
+      pages: pdfDoc.getPageCount(),
+      topics: rendered.size,
+      failed,
+    };
+  };
+
+  const processFiles = async () => {
+    if (files.length === 0) return;
+    setIsProcessing(true);
+    setErrorMsg(''); setSuccessMsg('');
+    setProgress({});
+    const processed: { name: string, blob: Blob, pages: number, topics: number }[] = [];
+    const errors: string[] = [];
+    for (const file of files) {
+      setProgress(p => ({ ...p, [file.name]: 0 }));
+      try {
+        const { failed, ...result } = await convertFile(file);
+        processed.push(result);
+        if (failed > 0) errors.push(`${file.name}: ${failed} topic(s) could not be rendered and were skipped.`);
+      } catch (error) {
+        console.error(`Error converting ${file.name}:`, error);
+        errors.push(`Error processing ${file.name}: ${error instanceof Error ? error.message : error}`);
+        setProgress(p => ({ ...p, [file.name]: 0 }));
+      }
+    }
+    setProcessedFiles(processed);
+    setStatus('');
+    setIsProcessing(false);
+    if (errors.length > 0) setErrorMsg(errors.join(' '));
+    if (processed.length > 0) setSuccessMsg('CHM to PDF conversion completed!');
+  };
+
+  const downloadFile = (file: { name: string, blob: Blob }) => {
+    const url = URL.createObjectURL(file.blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = file.name;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const downloadAll = () => {
+    processedFiles.forEach(downloadFile);
+  };
 
   return (
     <>
-      <SEO 
+      <SEO
         title="CHM to PDF Converter - Convert CHM to PDF Online | JPG2GO"
         description="Convert Microsoft Compiled HTML Help (CHM) files to PDF documents online. High-quality CHM to PDF conversion. Free CHM to PDF."
         keywords="CHM to PDF, convert CHM, CHM converter, help file to PDF, online tool, free tool"
@@ -73,57 +419,185 @@ const CHMToPDFConverter: React.FC = () => {
 
             {/* Main Tool Section */}
             <div className="bg-white/90 backdrop-blur-sm rounded-3xl shadow-2xl border border-white/20 p-8 mb-16">
-              {/* File Upload Area (disabled) */}
+              {/* File Upload Area */}
               <div className="mb-8">
                 <div
-                  className="border-2 border-dashed rounded-2xl p-12 text-center border-gray-300 bg-gray-50 opacity-60 cursor-not-allowed"
+                  className={`border-2 border-dashed rounded-2xl p-12 text-center transition-all duration-300 ${files.length > 0 ? 'border-violet-500 bg-violet-50/50' : 'border-gray-300 hover:border-violet-400 hover:bg-gray-50'}`}
+                  onDrop={handleDrop}
+                  onDragOver={e => e.preventDefault()}
+                  onClick={() => fileInputRef.current?.click()}
+                  style={{ cursor: 'pointer' }}
                 >
                   <Upload className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-                  <h3 className="text-xl font-semibold text-gray-900 mb-2">CHM to PDF Conversion Coming Soon</h3>
-                  <p className="text-gray-600 mb-6">Our team is working hard to bring you this feature. Please check back soon!</p>
+                  <h3 className="text-xl font-semibold text-gray-900 mb-2">Drop your CHM files here</h3>
+                  <p className="text-gray-600 mb-6">or click to browse files from your computer (.chm)</p>
                   <input
                     ref={fileInputRef}
                     type="file"
+                    multiple
                     accept=".chm"
-                    disabled
+                    onChange={e => { addFiles(Array.from(e.target.files || [])); e.target.value = ''; }}
                     className="hidden"
                   />
                   <button
-                    className="bg-gradient-to-r from-violet-600 to-blue-600 text-white px-8 py-3 rounded-xl font-semibold mt-4 opacity-60 cursor-not-allowed"
-                    disabled
+                    onClick={e => { e.stopPropagation(); fileInputRef.current?.click(); }}
+                    className="bg-gradient-to-r from-violet-600 to-blue-600 text-white px-8 py-3 rounded-xl font-semibold hover:shadow-lg transition-all duration-200"
                   >
                     Choose CHM File
                   </button>
                 </div>
               </div>
-              {/* Actions (disabled) */}
-              <div className="flex flex-col md:flex-row gap-4 items-center justify-center mb-8">
-                <button
-                  className="bg-gradient-to-r from-violet-600 to-blue-600 text-white px-8 py-3 rounded-xl font-semibold shadow opacity-60 cursor-not-allowed"
-                  disabled
-                >
-                  Convert to PDF
-                </button>
+
+              {/* File Management */}
+              {files.length > 0 && (
+                <div className="mb-8">
+                  <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center space-x-2">
+                    <FileType className="h-5 w-5 text-violet-600" />
+                    <span>Selected CHM Files ({files.length})</span>
+                  </h3>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                    {files.map((file, index) => (
+                      <div key={index} className="bg-gray-50 rounded-xl p-4 flex items-center space-x-3">
+                        <HardHat className="h-8 w-8 text-violet-600" />
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm font-medium text-gray-900 truncate">{file.name}</p>
+                          <p className="text-xs text-gray-500">{(file.size / 1024 / 1024).toFixed(2)} MB</p>
+                          {progress[file.name] !== undefined && (
+                            <div className="w-full bg-gray-200 rounded-full h-2 mt-2">
+                              <div className="bg-violet-500 h-2 rounded-full" style={{ width: `${progress[file.name]}%` }}></div>
+                            </div>
+                          )}
+                        </div>
+                        <button onClick={() => removeFile(index)} className="text-red-500 hover:text-red-700 transition-colors">×</button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Conversion Settings */}
+              <div className="mb-8">
+                <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center space-x-2">
+                  <BookOpen className="h-5 w-5 text-violet-600" />
+                  <span>Conversion Settings</span>
+                </h3>
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Page Size</label>
+                    <select
+                      value={settings.pageSize}
+                      onChange={e => setSettings(prev => ({ ...prev, pageSize: e.target.value }))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-violet-500 focus:border-transparent"
+                    >
+                      <option value="A4">A4 (Standard)</option>
+                      <option value="Letter">Letter</option>
+                      <option value="A5">A5</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Orientation</label>
+                    <select
+                      value={settings.orientation}
+                      onChange={e => setSettings(prev => ({ ...prev, orientation: e.target.value }))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-violet-500 focus:border-transparent"
+                    >
+                      <option value="portrait">Portrait</option>
+                      <option value="landscape">Landscape</option>
+                    </select>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      id="includeBookmarks"
+                      checked={settings.includeBookmarks}
+                      onChange={e => setSettings(prev => ({ ...prev, includeBookmarks: e.target.checked }))}
+                      className="w-4 h-4 text-violet-600 focus:ring-violet-500 border-gray-300 rounded"
+                    />
+                    <label htmlFor="includeBookmarks" className="text-sm font-medium text-gray-700">Create bookmarks from contents</label>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      id="includeUnlisted"
+                      checked={settings.includeUnlisted}
+                      onChange={e => setSettings(prev => ({ ...prev, includeUnlisted: e.target.checked }))}
+                      className="w-4 h-4 text-violet-600 focus:ring-violet-500 border-gray-300 rounded"
+                    />
+                    <label htmlFor="includeUnlisted" className="text-sm font-medium text-gray-700">Include topics missing from contents</label>
+                  </div>
+                </div>
+              </div>
+
+              {errorMsg && (
+                <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-xl">
+                  <div className="flex items-center space-x-2">
+                    <div className="text-red-600">⚠️</div>
+                    <p className="text-red-700">{errorMsg}</p>
+                  </div>
+                </div>
+              )}
+              {successMsg && (
+                <div className="mb-4 p-4 bg-green-50 border border-green-200 rounded-xl">
+                  <div className="flex items-center space-x-2">
+                    <div className="text-green-600">✅</div>
+                    <p className="text-green-700">{successMsg}</p>
+                  </div>
+                </div>
+              )}
+
+              {/* Actions */}
+              <div className="flex flex-col md:flex-row gap-4 items-center justify-center">
                 <button
-                  className="bg-white border border-violet-600 text-violet-600 px-8 py-3 rounded-xl font-semibold shadow hover:bg-violet-50 transition-all duration-200 opacity-60 cursor-not-allowed"
-                  disabled
+                  onClick={processFiles}
+                  disabled={files.length === 0 || isProcessing}
+                  className="flex-1 bg-gradient-to-r from-violet-600 to-blue-600 text-white px-8 py-4 rounded-xl font-semibold hover:shadow-lg transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
                 >
-                  <Download className="inline h-4 w-4 mr-1" /> Download PDF
+                  {isProcessing ? (
+                    <>
+                      <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
+                      <span>{status || 'Converting to PDF...'}</span>
+                    </>
+                  ) : (
+                    <>
+                      <FileText className="h-5 w-5" />
+                      <span>Convert to PDF</span>
+                    </>
+                  )}
                 </button>
+                {processedFiles.length > 0 && (
+                  <button
+                    onClick={downloadAll}
+                    className="bg-green-600 text-white px-8 py-4 rounded-xl font-semibold hover:bg-green-700 transition-all duration-200 flex items-center justify-center space-x-2"
+                  >
+                    <Download className="h-5 w-5" />
+                    <span>Download PDF Files</span>
+                  </button>
+                )}
               </div>
-              {/* Coming Soon Banner */}
-              <div className="flex items-center justify-center space-x-2 bg-violet-100 p-3 rounded-xl text-violet-700 font-semibold">
-                <FileType className="h-5 w-5 text-violet-600" />
-                <span>Feature Status:</span>
-                <span className="font-bold">Coming Soon</span>
-              </div>
+
+              {/* Converted Files */}
+              {processedFiles.length > 0 && (
+                <div className="mt-6 space-y-2">
+                  {processedFiles.map(file => (
+                    <div key={file.name} className="flex items-center justify-between bg-gray-50 rounded-lg px-4 py-3 text-sm">
+                      <span className="font-medium text-gray-900 truncate">{file.name}</span>
+                      <div className="flex items-center space-x-4">
+                        <span className="text-gray-500">{file.topics} topics · {file.pages} pages · {(file.blob.size / 1024 / 1024).toFixed(2)} MB</span>
+                        <button onClick={() => downloadFile(file)} className="text-violet-600 hover:text-violet-800">
+                          <Download className="h-4 w-4" />
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
 
             {/* Features Section */}
             <div className="mb-16">
               <div className="text-center mb-12">
                 <h2 className="text-3xl font-bold text-gray-900 mb-4">Why Use Our CHM to PDF Converter?</h2>
-                <p className="text-lg text-gray-600 max-w-2xl mx-auto">Fast, secure, and accurate CHM to PDF conversion—coming soon to JPG2GO!</p>
+                <p className="text-lg text-gray-600 max-w-2xl mx-auto">Fast, secure, and accurate CHM to PDF conversion, right in your browser.</p>
               </div>
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-8">
                 {features.map((feature, index) => (
@@ -140,7 +614,7 @@ const CHMToPDFConverter: React.FC = () => {
             <div className="bg-white/90 backdrop-blur-sm rounded-3xl shadow-xl p-8 mb-16">
               <div className="text-center mb-8">
                 <h2 className="text-3xl font-bold text-gray-900 mb-4">How to Convert CHM to PDF</h2>
-                <p className="text-lg text-gray-600">This feature will be available soon. Here's how it will work:</p>
+                <p className="text-lg text-gray-600">Follow these simple steps to convert your help files</p>
               </div>
               <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
                 {howToSteps.map((step, index) => (
@@ -160,13 +634,14 @@ const CHMToPDFConverter: React.FC = () => {
               <div className="bg-gradient-to-r from-violet-600 via-purple-600 to-blue-600 rounded-3xl p-8 sm:p-12 text-white relative overflow-hidden">
                 <div className="absolute inset-0 bg-black/10 rounded-3xl"></div>
                 <div className="relative z-10">
-                  <h3 className="text-2xl sm:text-3xl font-bold mb-4">Want CHM to PDF Conversion?</h3>
-                  <p className="text-violet-100 mb-8 text-lg max-w-2xl mx-auto">Let us know if you need this feature urgently, or check back soon for updates!</p>
-                  <button 
-                    className="bg-white text-violet-600 px-8 py-4 rounded-xl font-bold hover:bg-gray-100 transition-all duration-200 shadow-lg hover:shadow-xl flex items-center space-x-2 mx-auto opacity-60 cursor-not-allowed"
-                    disabled
+                  <h3 className="text-2xl sm:text-3xl font-bold mb-4">Ready to Convert CHM to PDF?</h3>
+                  <p className="text-violet-100 mb-8 text-lg max-w-2xl mx-auto">Turn legacy help files into searchable, bookmarked PDF documents in seconds.</p>
+                  <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className="bg-white text-violet-600 px-8 py-4 rounded-xl font-bold hover:bg-gray-100 transition-all duration-200 shadow-lg hover:shadow-xl flex items-center space-x-2 mx-auto"
                   >
-                    <BarChart3 className="h-5 w-5" /> Coming Soon
+                    <HardHat className="h-5 w-5" />
+                    <span>Start Converting Now</span>
                   </button>
                 </div>
                 {/* Decorative elements */}
@@ -181,4 +656,4 @@ const CHMToPDFConverter: React.FC = () => {
   );
 };
 
-export default CHMToPDFConverter; 
\ No newline at end of file
+export default CHMToPDFConverter;
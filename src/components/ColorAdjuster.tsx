@@ -1,6 +1,8 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Upload, Download, Image, Users, Zap, Shield, TrendingUp, FileImage, CheckCircle, Palette, Sparkles, Target } from 'lucide-react';
 import SEO from './SEO';
+import { PixelKernel } from '../utils/imageKernels';
+import { getImageWorkerPool } from '../utils/imageWorkerPool';
 
 interface UploadedImage {
   id: string;
@@ -98,6 +100,8 @@ const ColorAdjuster: React.FC = () => {
     setFiles(prev => prev.filter(img => img.id !== id));
   };
 
+  const adjustKernel = (): PixelKernel => ({ type: 'adjust', brightness, contrast, saturation });
+
   // Helper to process a single file for preview
   const processPreview = async (file: UploadedImage) => {
     const canvas = document.createElement('canvas');
@@ -116,43 +120,8 @@ const ColorAdjuster: React.FC = () => {
     ctx.drawImage(img, 0, 0);
 
     const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-    const data = imageData.data;
-    
-    for (let i = 0; i < data.length; i += 4) {
-      let r = data[i];
-      let g = data[i + 1];
-      let b = data[i + 2];
-      
-      // Apply brightness
-      if (brightness !== 0) {
-        r = Math.max(0, Math.min(255, r + brightness));
-        g = Math.max(0, Math.min(255, g + brightness));
-        b = Math.max(0, Math.min(255, b + brightness));
-      }
-      
-      // Apply contrast
-      if (contrast !== 0) {
-        const factor = (259 * (contrast + 255)) / (255 * (259 - contrast));
-        r = Math.max(0, Math.min(255, factor * (r - 128) + 128));
-        g = Math.max(0, Math.min(255, factor * (g - 128) + 128));
-        b = Math.max(0, Math.min(255, factor * (b - 128) + 128));
-      }
-      
-      // Apply saturation
-      if (saturation !== 0) {
-        const gray = 0.299 * r + 0.587 * g + 0.114 * b;
-        const factor = 1 + saturation / 100;
-        r = Math.max(0, Math.min(255, gray + factor * (r - gray)));
-        g = Math.max(0, Math.min(255, gray + factor * (g - gray)));
-        b = Math.max(0, Math.min(255, gray + factor * (b - gray)));
-      }
-      
-      data[i] = Math.round(r);
-      data[i + 1] = Math.round(g);
-      data[i + 2] = Math.round(b);
-    }
-    
-    ctx.putImageData(imageData, 0, 0);
+    const adjusted = await getImageWorkerPool().run(imageData, [adjustKernel()]);
+    ctx.putImageData(adjusted, 0, 0);
     
     return new Promise<string>((resolve) => {
       canvas.toBlob((blob) => {
@@ -208,38 +177,10 @@ const ColorAdjuster: React.FC = () => {
           // Draw the image on canvas
           ctx.drawImage(img, 0, 0);
           
-          // Apply color adjustments
+          // Apply color adjustments on the worker pool
           const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-          const data = imageData.data;
-          
-          for (let i = 0; i < data.length; i += 4) {
-            // Apply brightness
-            if (brightness !== 0) {
-              data[i] = Math.max(0, Math.min(255, data[i] + brightness));     // Red
-              data[i + 1] = Math.max(0, Math.min(255, data[i + 1] + brightness)); // Green
-              data[i + 2] = Math.max(0, Math.min(255, data[i + 2] + brightness)); // Blue
-            }
-            
-            // Apply contrast
-            if (contrast !== 0) {
-              const factor = (259 * (contrast + 255)) / (255 * (259 - contrast));
-              data[i] = Math.max(0, Math.min(255, factor * (data[i] - 128) + 128));
-              data[i + 1] = Math.max(0, Math.min(255, factor * (data[i + 1] - 128) + 128));
-              data[i + 2] = Math.max(0, Math.min(255, factor * (data[i + 2] - 128) + 128));
-            }
-            
-            // Apply saturation
-            if (saturation !== 0) {
-              const gray = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
-              const factor = 1 + saturation / 100;
-              data[i] = Math.max(0, Math.min(255, gray + factor * (data[i] - gray)));
-              data[i + 1] = Math.max(0, Math.min(255, gray + factor * (data[i + 1] - gray)));
-              data[i + 2] = Math.max(0, Math.min(255, gray + factor * (data[i + 2] - gray)));
-            }
-          }
-          
-          // Put the modified image data back
-          ctx.putImageData(imageData, 0, 0);
+          const adjusted = await getImageWorkerPool().run(imageData, [adjustKernel()]);
+          ctx.putImageData(adjusted, 0, 0);
           
           // Convert to blob
           const blob = await new Promise<Blob>((resolve) => {
@@ -1,25 +1,38 @@
 import React, { useState, useRef, useCallback } from 'react';
 import { Upload, Download, RotateCcw, Settings, FileText, Users, Shield, CheckCircle, FileType } from 'lucide-react';
 import SEO from './SEO';
+import { parseHWPDocument } from '../utils/hwp';
+import { PageSetup, loadCJKFonts, renderFlowDocument } from '../utils/documentLayout';
+
+type PageSizeOption = 'document' | 'a4' | 'letter' | 'legal';
+
+const PAGE_SIZES: Record<Exclude<PageSizeOption, 'document'>, [number, number]> = {
+  a4: [595.28, 841.89],
+  letter: [612, 792],
+  legal: [612, 1008],
+};
+const DEFAULT_MARGINS = { top: 72, right: 72, bottom: 72, left: 72 };
+
+const isHWPFile = (file: File) => /\.hwpx?$/i.test(file.name);
 
 const features = [
   {
-    icon: <FileText className="h-6 w-6" />, title: "HWP to PDF", description: "Convert HWP documents to professional PDF format"
+    icon: <FileText className="h-6 w-6" />, title: "HWP & HWPX to PDF", description: "Reads HWP 5.0 documents and zipped HWPX files"
   },
   {
-    icon: <FileType className="h-6 w-6" />, title: "Korean Support", description: "Full support for Korean Hangul Word Processor files"
+    icon: <FileType className="h-6 w-6" />, title: "Korean Support", description: "Hangul text is embedded with a Korean font and stays searchable"
   },
   {
-    icon: <Shield className="h-6 w-6" />, title: "Secure Processing", description: "Your files are processed securely and never stored permanently"
+    icon: <Shield className="h-6 w-6" />, title: "Secure Processing", description: "Documents are parsed in your browser and never uploaded"
   },
   {
-    icon: <CheckCircle className="h-6 w-6" />, title: "High Quality", description: "Maintain formatting and Korean text rendering"
+    icon: <CheckCircle className="h-6 w-6" />, title: "High Quality", description: "Keeps paragraph alignment, character styles and tables"
   }
 ];
 
 const howToSteps = [
-  { step: "1", title: "Upload HWP", description: "Select your HWP document file from your device" },
-  { step: "2", title: "Choose Settings", description: "Select page size and orientation for the PDF" },
+  { step: "1", title: "Upload HWP", description: "Select your HWP or HWPX document from your device" },
+  { step: "2", title: "Choose Settings", description: "Keep the document's page setup or pick a page size and orientation" },
   { step: "3", title: "Convert & Download", description: "Convert to PDF and download the result" }
 ];
 
@@ -32,13 +45,20 @@ const stats = [
 
 const HWPToPDFConverter: React.FC = () => {
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
-  const [pageSize, setPageSize] = useState<'a4' | 'letter' | 'legal'>('a4');
+  const [pageSize, setPageSize] = useState<PageSizeOption>('document');
   const [orientation, setOrientation] = useState<'portrait' | 'landscape'>('portrait');
+  const [customFont, setCustomFont] = useState<File | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [status, setStatus] = useState('');
+  const [processedFiles, setProcessedFiles] = useState<{ name: string, blob: Blob }[]>([]);
+  const [errorMsg, setErrorMsg] = useState('');
+  const [successMsg, setSuccessMsg] = useState('');
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const fontInputRef = useRef<HTMLInputElement>(null);
 
   const handleFileSelect = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(event.target.files || []);
-    const hwpFiles = files.filter(file => file.name.endsWith('.hwp'));
+    const hwpFiles = files.filter(isHWPFile);
     setSelectedFiles(prev => [...prev, ...hwpFiles]);
     if (fileInputRef.current) fileInputRef.current.value = '';
   }, []);
@@ -46,7 +66,7 @@ const HWPToPDFConverter: React.FC = () => {
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     const files = Array.from(e.dataTransfer.files || []);
-    const hwpFiles = files.filter(file => file.name.endsWith('.hwp'));
+    const hwpFiles = files.filter(isHWPFile);
     setSelectedFiles(prev => [...prev, ...hwpFiles]);
   }, []);
 
@@ -60,11 +80,71 @@ const HWPToPDFConverter: React.FC = () => {
 
   const resetTool = useCallback(() => {
     setSelectedFiles([]);
-    setPageSize('a4');
+    setPageSize('document');
     setOrientation('portrait');
+    setCustomFont(null);
+    setProcessedFiles([]);
+    setErrorMsg('');
+    setSuccessMsg('');
     if (fileInputRef.current) fileInputRef.current.value = '';
+    if (fontInputRef.current) fontInputRef.current.value = '';
   }, []);
 
+  const pageSetupFor = (documentPage?: PageSetup): PageSetup => {
+    if (pageSize === 'document') {
+      return documentPage ?? { width: PAGE_SIZES.a4[0], height: PAGE_SIZES.a4[1], margins: DEFAULT_MARGINS };
+    }
+    const [short, long] = PAGE_SIZES[pageSize];
+    const [width, height] = orientation === 'landscape' ? [long, short] : [short, long];
+    return { width, height, margins: documentPage?.margins ?? DEFAULT_MARGINS };
+  };
+
+  const convertFiles = async () => {
+    if (selectedFiles.length === 0) return;
+    setIsProcessing(true);
+    setErrorMsg('');
+    setSuccessMsg('');
+    setProcessedFiles([]);
+    const results: { name: string, blob: Blob }[] = [];
+    const errors: string[] = [];
+    try {
+      setStatus('Loading Korean font...');
+      const fonts = await loadCJKFonts(customFont);
+      for (const [index, file] of selectedFiles.entries()) {
+        setStatus(`Converting ${index + 1} of ${selectedFiles.length}...`);
+        try {
+          const doc = await parseHWPDocument(new Uint8Array(await file.arrayBuffer()));
+          const title = doc.title || file.name.replace(/\.hwpx?$/i, '');
+          results.push({
+            name: file.name.replace(/\.hwpx?$/i, '.pdf'),
+            blob: renderFlowDocument({ ...doc, title }, fonts, pageSetupFor(doc.page)),
+          });
+        } catch (error) {
+          console.error(`Error converting ${file.name}:`, error);
+          errors.push(`${file.name}: ${error instanceof Error ? error.message : 'conversion failed'}`);
+        }
+      }
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : 'Could not load the font');
+    }
+    setProcessedFiles(results);
+    setIsProcessing(false);
+    setStatus('');
+    if (errors.length > 0) setErrorMsg(errors.join(' '));
+    if (results.length > 0) setSuccessMsg(`Converted ${results.length} of ${selectedFiles.length} file(s) to PDF.`);
+  };
+
+  const downloadFile = (file: { name: string, blob: Blob }) => {
+    const url = URL.createObjectURL(file.blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = file.name;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
   return (
     <>
       <SEO 
@@ -123,11 +203,11 @@ const HWPToPDFConverter: React.FC = () => {
                     Drop your HWP files here for conversion
                   </h3>
                   <p className="text-gray-600 mb-6">
-                    or click to browse files from your computer
+                    or click to browse files from your computer (.hwp, .hwpx)
                   </p>
                   <input
                     type="file"
-                    accept=".hwp"
+                    accept=".hwp,.hwpx"
                     onChange={handleFileSelect}
                     className="hidden"
                     id="file-upload"
@@ -165,16 +245,17 @@ const HWPToPDFConverter: React.FC = () => {
                   <Settings className="h-5 w-5 text-gray-600" />
                   <h3 className="text-lg font-semibold text-gray-800">PDF Settings</h3>
                 </div>
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">
                       Page Size
                     </label>
                     <select
                       value={pageSize}
-                      onChange={e => setPageSize(e.target.value as 'a4' | 'letter' | 'legal')}
+                      onChange={e => setPageSize(e.target.value as PageSizeOption)}
                       className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-violet-500 focus:border-transparent"
                     >
+                      <option value="document">As in document</option>
                       <option value="a4">A4</option>
                       <option value="letter">Letter</option>
                       <option value="legal">Legal</option>
@@ -187,34 +268,94 @@ const HWPToPDFConverter: React.FC = () => {
                     <select
                       value={orientation}
                       onChange={e => setOrientation(e.target.value as 'portrait' | 'landscape')}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-violet-500 focus:border-transparent"
+                      disabled={pageSize === 'document'}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-violet-500 focus:border-transparent disabled:bg-gray-100"
                     >
                       <option value="portrait">Portrait</option>
                       <option value="landscape">Landscape</option>
                     </select>
                   </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Font (optional .ttf)
+                    </label>
+                    <input
+                      ref={fontInputRef}
+                      type="file"
+                      accept=".ttf"
+                      onChange={e => setCustomFont(e.target.files?.[0] ?? null)}
+                      className="w-full text-sm text-gray-600 file:mr-3 file:px-3 file:py-2 file:rounded-lg file:border-0 file:bg-violet-100 file:text-violet-700"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      {customFont ? customFont.name : 'Nanum Gothic is downloaded when no font is chosen'}
+                    </p>
+                  </div>
                 </div>
               </div>
 
               {/* Action Buttons */}
+              {errorMsg && (
+                <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-xl">
+                  <p className="text-red-700">{errorMsg}</p>
+                </div>
+              )}
+              {successMsg && (
+                <div className="mb-4 p-4 bg-green-50 border border-green-200 rounded-xl">
+                  <p className="text-green-700">{successMsg}</p>
+                </div>
+              )}
+
               <div className="flex flex-col sm:flex-row gap-4">
                 <button
-                  disabled
-                  className="flex-1 bg-gradient-to-r from-violet-600 to-blue-600 text-white px-8 py-4 rounded-xl font-semibold opacity-50 cursor-not-allowed flex items-center justify-center space-x-2"
+                  onClick={convertFiles}
+                  disabled={selectedFiles.length === 0 || isProcessing}
+                  className="flex-1 bg-gradient-to-r from-violet-600 to-blue-600 text-white px-8 py-4 rounded-xl font-semibold hover:shadow-lg transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
+                >
+                  {isProcessing ? (
+                    <>
+                      <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
+                      <span>{status || 'Converting...'}</span>
+                    </>
+                  ) : (
+                    <>
+                      <FileText className="h-5 w-5" />
+                      <span>Convert HWP to PDF</span>
+                    </>
+                  )}
+                </button>
+                {processedFiles.length > 1 && (
+                  <button
+                    onClick={() => processedFiles.forEach(downloadFile)}
+                    className="bg-green-600 text-white px-8 py-4 rounded-xl font-semibold hover:bg-green-700 transition-all duration-200 flex items-center justify-center space-x-2"
+                  >
+                    <Download className="h-5 w-5" />
+                    <span>Download All</span>
+                  </button>
+                )}
+                <button
+                  onClick={resetTool}
+                  className="px-8 py-4 border border-gray-300 text-gray-700 rounded-xl font-semibold hover:bg-gray-50 transition-all duration-200 flex items-center justify-center space-x-2"
                 >
-                  <FileText className="h-5 w-5" />
-                  <span>Convert HWP to PDF (Not Supported in Browser)</span>
+                  <RotateCcw className="h-5 w-5" />
+                  <span>Reset</span>
                 </button>
               </div>
 
-              {/* Warning Message */}
-              <div className="mt-8 max-w-2xl mx-auto">
-                <div className="bg-yellow-100 border-l-4 border-yellow-500 text-yellow-800 p-6 rounded shadow text-lg font-medium">
-                  <span className="block mb-2 font-bold">Conversion Not Supported in Browser</span>
-                  Real HWP to PDF conversion is <b>not possible in the browser</b> due to proprietary format restrictions.<br/>
-                  Please use <b>Hancom Office</b> or a dedicated server-side tool for real conversion.
+              {processedFiles.length > 0 && (
+                <div className="mt-6 space-y-2">
+                  {processedFiles.map(file => (
+                    <div key={file.name} className="flex items-center justify-between bg-gray-50 rounded-lg px-4 py-3 text-sm">
+                      <span className="font-medium text-gray-900 truncate">{file.name}</span>
+                      <div className="flex items-center space-x-4">
+                        <span className="text-gray-500">{(file.blob.size / 1024 / 1024).toFixed(2)} MB</span>
+                        <button onClick={() => downloadFile(file)} className="text-violet-600 hover:text-violet-800" aria-label={`Download ${file.name}`}>
+                          <Download className="h-4 w-4" />
+                        </button>
+                      </div>
+                    </div>
+                  ))}
                 </div>
-              </div>
+              )}
             </div>
 
             {/* Features Section */}
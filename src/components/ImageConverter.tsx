@@ -8,6 +8,10 @@ import {
 import JSZip from 'jszip';
 import SEO from './SEO';
 import ProcessingSettingsPanel from './ProcessingSettingsPanel';
+import {
+  ICO_SIZES, TiffCompression, assertImageFormat, encodeBMP, encodeGIF, encodeICO, encodeTIFF,
+} from '../utils/imageEncoders';
+import { JpegTransformOptions, JpegTransformPlan, planJpegTransform, rotationFromDegrees, transformJpeg } from '../utils/jpegTransform';
 
 interface ImageFile {
   id: string;
@@ -18,6 +22,8 @@ interface ImageFile {
   processedSize?: number;
   status: 'pending' | 'processing' | 'completed' | 'error';
   settings?: ProcessingSettings;
+  // How the output was produced, e.g. why a lossless JPEG edit was not possible
+  note?: string;
 }
 
 interface ProcessingSettings {
@@ -39,14 +45,119 @@ interface ProcessingSettings {
   rotation: number;
   flipHorizontal: boolean;
   flipVertical: boolean;
+  losslessJpeg: boolean;
+  trimJpegEdges: boolean;
   
   // Advanced
   removeBackground: boolean;
   addWatermark: boolean;
   watermarkText: string;
   watermarkOpacity: number;
+
+  // Format options
+  tiffCompression: TiffCompression;
+  bmpBitDepth: 24 | 32;
+  gifColors: number;
+  gifDither: boolean;
+  icoSizes: number[];
 }
 
+const getMimeType = (format: string): string => {
+  switch (format) {
+    case 'jpeg': return 'image/jpeg';
+    case 'png': return 'image/png';
+    case 'webp': return 'image/webp';
+    case 'avif': return 'image/avif';
+    case 'tiff': return 'image/tiff';
+    case 'bmp': return 'image/bmp';
+    case 'gif': return 'image/gif';
+    case 'ico': return 'image/x-icon';
+    case 'svg': return 'image/svg+xml';
+    case 'heic': return 'image/heic';
+    case 'tga': return 'image/tga';
+    case 'pdf': return 'application/pdf';
+    case 'eps': return 'application/postscript';
+    default: return 'image/jpeg';
+  }
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Failed to create blob'))), type, quality);
+  });
+
+const canvasPixels = (canvas: HTMLCanvasElement) =>
+  canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height);
+
+// Square icon image of `size` pixels, the picture centered and scaled to fit
+const renderIconSize = (source: HTMLCanvasElement, size: number) => {
+  const icon = document.createElement('canvas');
+  icon.width = size;
+  icon.height = size;
+  const ctx = icon.getContext('2d')!;
+  ctx.imageSmoothingQuality = 'high';
+  const scale = Math.min(size / source.width, size / source.height);
+  const width = Math.max(1, Math.round(source.width * scale));
+  const height = Math.max(1, Math.round(source.height * scale));
+  ctx.drawImage(source, Math.floor((size - width) / 2), Math.floor((size - height) / 2), width, height);
+  return icon;
+};
+
+// Browsers only encode a few formats and quietly fall back to PNG for the rest,
+// so TIFF, BMP, GIF and ICO are written here and every result is checked
+// against the signature of the requested format
+const encodeCanvas = async (canvas: HTMLCanvasElement, settings: ProcessingSettings): Promise<Blob> => {
+  const mimeType = getMimeType(settings.format);
+  let bytes: Uint8Array;
+  switch (settings.format) {
+    case 'tiff':
+      bytes = await encodeTIFF(canvasPixels(canvas), { compression: settings.tiffCompression });
+      break;
+    case 'bmp':
+      bytes = encodeBMP(canvasPixels(canvas), { bitDepth: settings.bmpBitDepth });
+      break;
+    case 'gif':
+      bytes = encodeGIF(canvasPixels(canvas), { colors: settings.gifColors, dither: settings.gifDither });
+      break;
+    case 'ico': {
+      const sizes = settings.icoSizes.length > 0 ? settings.icoSizes : [32];
+      const images = await Promise.all(sizes.map(async size => {
+        const icon = renderIconSize(canvas, size);
+        // 256px entries are stored as PNG, as Windows does
+        const png = size === 256 ? new Uint8Array(await (await canvasToBlob(icon, 'image/png')).arrayBuffer()) : undefined;
+        return { buffer: canvasPixels(icon), png };
+      }));
+      bytes = encodeICO(images);
+      break;
+    }
+    default: {
+      const useQuality = ['jpeg', 'webp', 'avif'].includes(settings.format);
+      const blob = await canvasToBlob(canvas, mimeType, useQuality ? settings.quality / 100 : undefined);
+      bytes = new Uint8Array(await blob.arrayBuffer());
+    }
+  }
+  assertImageFormat(bytes, settings.format);
+  return new Blob([bytes], { type: mimeType });
+};
+
+// JPEG to JPEG edits that only turn or mirror the image can be done on the
+// DCT coefficients; anything that changes pixel values needs the canvas
+const losslessJpegOptions = (file: File, settings: ProcessingSettings): JpegTransformOptions | null => {
+  const rotate = rotationFromDegrees(settings.rotation);
+  const isJpegFile = file.type === 'image/jpeg' || /\.jpe?g$/i.test(file.name);
+  const changesPixels =
+    settings.width !== undefined || settings.height !== undefined ||
+    settings.brightness !== 0 || settings.contrast !== 0 || settings.saturation !== 0 || settings.hue !== 0 ||
+    settings.blur > 0 || settings.sharpen > 0 || settings.removeBackground || settings.addWatermark;
+  if (!settings.losslessJpeg || settings.format !== 'jpeg' || !isJpegFile || rotate === null || changesPixels) return null;
+  return {
+    rotate,
+    flipHorizontal: settings.flipHorizontal,
+    flipVertical: settings.flipVertical,
+    trimEdges: settings.trimJpegEdges,
+  };
+};
+
 interface ImageConverterProps {
   onNavigate?: (page: string) => void;
 }
@@ -69,10 +180,17 @@ const ImageConverter: React.FC<ImageConverterProps> = ({ onNavigate }) => {
     rotation: 0,
     flipHorizontal: false,
     flipVertical: false,
+    losslessJpeg: true,
+    trimJpegEdges: false,
     removeBackground: false,
     addWatermark: false,
     watermarkText: '© JPG2GO',
-    watermarkOpacity: 50
+    watermarkOpacity: 50,
+    tiffCompression: 'lzw',
+    bmpBitDepth: 24,
+    gifColors: 256,
+    gifDither: true,
+    icoSizes: ICO_SIZES
   });
   const [activeTab, setActiveTab] = useState<'basic' | 'filters' | 'transform' | 'advanced'>('basic');
 
@@ -339,41 +457,7 @@ const ImageConverter: React.FC<ImageConverterProps> = ({ onNavigate }) => {
             ctx.shadowOffsetY = 0;
           }
 
-          // Convert to blob with proper format and quality
-          const getMimeType = (format: string): string => {
-            switch (format) {
-              case 'jpeg': return 'image/jpeg';
-              case 'png': return 'image/png';
-              case 'webp': return 'image/webp';
-              case 'avif': return 'image/avif';
-              case 'tiff': return 'image/tiff';
-              case 'bmp': return 'image/bmp';
-              case 'gif': return 'image/gif';
-              case 'ico': return 'image/x-icon';
-              case 'svg': return 'image/svg+xml';
-              case 'heic': return 'image/heic';
-              case 'tga': return 'image/tga';
-              case 'pdf': return 'application/pdf';
-              case 'eps': return 'application/postscript';
-              default: return 'image/jpeg';
-            }
-          };
-
-          const mimeType = getMimeType(settings.format);
-          const useQuality = ['jpeg', 'webp', 'avif', 'tiff'].includes(settings.format);
-          const quality = useQuality ? settings.quality / 100 : undefined;
-          
-          canvas.toBlob(
-            (blob) => {
-              if (blob) {
-                resolve(blob);
-              } else {
-                reject(new Error('Failed to create blob'));
-              }
-            },
-            mimeType,
-            quality
-          );
+          encodeCanvas(canvas, settings).then(resolve, reject);
         } catch (error) {
           reject(error);
         }
@@ -388,6 +472,25 @@ const ImageConverter: React.FC<ImageConverterProps> = ({ onNavigate }) => {
     });
   };
 
+  const convertImage = async (imageFile: ImageFile, settings: ProcessingSettings): Promise<{ blob: Blob; note?: string }> => {
+    const options = losslessJpegOptions(imageFile.file, settings);
+    if (!options) return { blob: await processImage(imageFile, settings) };
+    const bytes = new Uint8Array(await imageFile.file.arrayBuffer());
+    let plan: JpegTransformPlan;
+    try {
+      plan = planJpegTransform(bytes, options);
+    } catch (error) {
+      return { blob: await processImage(imageFile, settings), note: `Re-encoded: ${(error as Error).message}` };
+    }
+    if (!plan.lossless) {
+      return { blob: await processImage(imageFile, settings), note: `Re-encoded: ${plan.reason}` };
+    }
+    const trimmed = plan.trimmed.width || plan.trimmed.height
+      ? ` (trimmed ${plan.trimmed.width}×${plan.trimmed.height} px of partial blocks)`
+      : '';
+    return { blob: new Blob([transformJpeg(bytes, options)], { type: 'image/jpeg' }), note: `Lossless JPEG transform${trimmed}` };
+  };
+
   const convertSingle = async (id: string) => {
     const imageIndex = images.findIndex(img => img.id === id);
     if (imageIndex === -1) return;
@@ -398,7 +501,7 @@ const ImageConverter: React.FC<ImageConverterProps> = ({ onNavigate }) => {
 
     try {
       const imageFile = images[imageIndex];
-      const blob = await processImage(imageFile, settings);
+      const { blob, note } = await convertImage(imageFile, settings);
       const processedUrl = URL.createObjectURL(blob);
 
       setImages(prev => prev.map(img => 
@@ -408,7 +511,8 @@ const ImageConverter: React.FC<ImageConverterProps> = ({ onNavigate }) => {
               status: 'completed' as const, 
               processed: processedUrl,
               processedSize: blob.size,
-              settings: { ...settings }
+              settings: { ...settings },
+              note
             } 
           : img
       ));
@@ -431,7 +535,7 @@ const ImageConverter: React.FC<ImageConverterProps> = ({ onNavigate }) => {
       ));
 
       try {
-        const processedBlob = await processImage(image, settings);
+        const { blob: processedBlob, note } = await convertImage(image, settings);
         const processedUrl = URL.createObjectURL(processedBlob);
         
         setImages(prev => prev.map(img => 
@@ -440,7 +544,8 @@ const ImageConverter: React.FC<ImageConverterProps> = ({ onNavigate }) => {
               ...img, 
               processed: processedUrl,
               processedSize: processedBlob.size,
-              status: 'completed' 
+              status: 'completed',
+              note
             } 
           : img
         ));
@@ -700,6 +805,9 @@ const ImageConverter: React.FC<ImageConverterProps> = ({ onNavigate }) => {
                             </div>
                           </>
                         )}
+                        {image.note && (
+                          <p className="text-xs text-gray-500">{image.note}</p>
+                        )}
                       </div>
 
                       <div className="flex flex-col sm:flex-row space-y-2 sm:space-y-0 sm:space-x-2 xl:space-x-4">
@@ -16,6 +16,8 @@ import {
 } from 'lucide-react';
 import SEO from './SEO';
 import JSZip from 'jszip';
+import { JpegRotation, planJpegTransform, transformJpeg } from '../utils/jpegTransform';
+import { resizeDimensions } from '../utils/imageOperations';
 
 const ImageResizer: React.FC = () => {
   const [files, setFiles] = useState<File[]>([]);
@@ -41,6 +43,10 @@ const ImageResizer: React.FC = () => {
   const [applySepia, setApplySepia] = useState(false);
   const [applyInvert, setApplyInvert] = useState(false);
   const [saturation, setSaturation] = useState(100);
+  const [rotation, setRotation] = useState<JpegRotation>(0);
+  const [flipHorizontal, setFlipHorizontal] = useState(false);
+  const [flipVertical, setFlipVertical] = useState(false);
+  const [losslessJpeg, setLosslessJpeg] = useState(true);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -88,38 +94,52 @@ const ImageResizer: React.FC = () => {
           img.onerror = reject;
           img.src = URL.createObjectURL(file);
         });
-        let newWidth, newHeight;
-        if (resizeMode === 'percentage') {
-          newWidth = Math.round(img.width * (percentage / 100));
-          newHeight = Math.round(img.height * (percentage / 100));
-        } else if (resizeMode === 'pixels') {
-          if (maintainAspectRatio) {
-            const ratio = Math.min(width / img.width, height / img.height);
-            newWidth = Math.round(img.width * ratio);
-            newHeight = Math.round(img.height * ratio);
-          } else {
-            newWidth = width;
-            newHeight = height;
+        const target = resizeMode === 'preset' ? presets[preset as keyof typeof presets] : { width, height };
+        const { width: newWidth, height: newHeight } = resizeDimensions(img.width, img.height, {
+          mode: resizeMode === 'percentage' ? 'percentage' : maintainAspectRatio ? 'fit' : 'exact',
+          width: target.width,
+          height: target.height,
+          percentage,
+        });
+        // --- LOSSLESS JPEG ---
+        // Rotating or flipping a JPEG without resizing or filtering is done on
+        // the DCT coefficients, so the output keeps the original quality
+        const isJpegFile = file.type === 'image/jpeg' || /\.jpe?g$/i.test(file.name);
+        const changesPixels =
+          newWidth !== img.width || newHeight !== img.height || watermarkText !== '' ||
+          applyGrayscale || brightness !== 100 || contrast !== 100 || blur > 0 ||
+          applySepia || applyInvert || saturation !== 100;
+        if (losslessJpeg && isJpegFile && outputFormat === 'jpg' && !changesPixels) {
+          const bytes = new Uint8Array(await file.arrayBuffer());
+          const options = { rotate: rotation, flipHorizontal, flipVertical };
+          let lossless = false;
+          try {
+            lossless = planJpegTransform(bytes, options).lossless;
+          } catch (error) {
+            console.warn(`Re-encoding ${file.name}:`, error);
           }
-        } else {
-          const presetData = presets[preset as keyof typeof presets];
-          if (maintainAspectRatio) {
-            const ratio = Math.min(presetData.width / img.width, presetData.height / img.height);
-            newWidth = Math.round(img.width * ratio);
-            newHeight = Math.round(img.height * ratio);
-          } else {
-            newWidth = presetData.width;
-            newHeight = presetData.height;
+          if (lossless) {
+            const blob = new Blob([transformJpeg(bytes, options)], { type: 'image/jpeg' });
+            processed.push({ name: `resized_${file.name.replace(/\.[^.]+$/, '')}.jpg`, blob });
+            continue;
           }
         }
+
         const canvas = document.createElement('canvas');
         const ctx = canvas.getContext('2d');
         if (!ctx) continue;
-        canvas.width = newWidth;
-        canvas.height = newHeight;
+        const quarterTurn = rotation === 90 || rotation === 270;
+        canvas.width = quarterTurn ? newHeight : newWidth;
+        canvas.height = quarterTurn ? newWidth : newHeight;
         ctx.imageSmoothingEnabled = true;
         ctx.imageSmoothingQuality = 'high';
-        ctx.drawImage(img, 0, 0, newWidth, newHeight);
+        // Flips are applied before the rotation
+        ctx.save();
+        ctx.translate(canvas.width / 2, canvas.height / 2);
+        ctx.rotate((rotation * Math.PI) / 180);
+        ctx.scale(flipHorizontal ? -1 : 1, flipVertical ? -1 : 1);
+        ctx.drawImage(img, -newWidth / 2, -newHeight / 2, newWidth, newHeight);
+        ctx.restore();
 
         // --- FILTERS ---
         if (
@@ -250,7 +270,7 @@ const ImageResizer: React.FC = () => {
     } finally {
       setIsProcessing(false);
     }
-  }, [files, resizeMode, percentage, width, height, preset, maintainAspectRatio, presets, outputFormat, watermarkText, watermarkFontSize, watermarkColor, applyGrayscale, brightness, contrast, blur, watermarkPosition, applySepia, applyInvert, saturation]);
+  }, [files, resizeMode, percentage, width, height, preset, maintainAspectRatio, presets, outputFormat, watermarkText, watermarkFontSize, watermarkColor, applyGrayscale, brightness, contrast, blur, watermarkPosition, applySepia, applyInvert, saturation, rotation, flipHorizontal, flipVertical, losslessJpeg]);
 
   const handleDownload = () => {
     if (processedFiles.length > 0) {
@@ -620,6 +640,51 @@ const ImageResizer: React.FC = () => {
                       />
                       <div className="text-xs text-gray-500">{saturation}%</div>
                     </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Rotation</label>
+                      <select
+                        value={rotation}
+                        onChange={e => setRotation(Number(e.target.value) as JpegRotation)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-violet-500 focus:border-transparent"
+                      >
+                        <option value={0}>None</option>
+                        <option value={90}>90° clockwise</option>
+                        <option value={180}>180°</option>
+                        <option value={270}>90° counter-clockwise</option>
+                      </select>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <input
+                        type="checkbox"
+                        id="flipHorizontal"
+                        checked={flipHorizontal}
+                        onChange={e => setFlipHorizontal(e.target.checked)}
+                        className="w-4 h-4 text-violet-600 focus:ring-violet-500 border-gray-300 rounded"
+                      />
+                      <label htmlFor="flipHorizontal" className="text-sm font-medium text-gray-700">Flip Horizontal</label>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <input
+                        type="checkbox"
+                        id="flipVertical"
+                        checked={flipVertical}
+                        onChange={e => setFlipVertical(e.target.checked)}
+                        className="w-4 h-4 text-violet-600 focus:ring-violet-500 border-gray-300 rounded"
+                      />
+                      <label htmlFor="flipVertical" className="text-sm font-medium text-gray-700">Flip Vertical</label>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <input
+                        type="checkbox"
+                        id="losslessJpeg"
+                        checked={losslessJpeg}
+                        onChange={e => setLosslessJpeg(e.target.checked)}
+                        className="w-4 h-4 text-violet-600 focus:ring-violet-500 border-gray-300 rounded"
+                      />
+                      <label htmlFor="losslessJpeg" className="text-sm font-medium text-gray-700" title="JPEGs kept at their original size are rotated and flipped without re-encoding">
+                        Lossless JPEG Rotate &amp; Flip
+                      </label>
+                    </div>
                   </div>
 
                   <div className="flex items-center gap-3">
@@ -1,42 +1,151 @@
-import React, { useState, useRef, useCallback } from 'react';
-import { Upload, Download, Settings, Eye, Zap, Shield, FileText, FileImage, Users, TrendingUp } from 'lucide-react';
+import React, { useState, useRef, useEffect } from 'react';
+import { Upload, Download, Settings, Eye, Zap, Shield, FileText, FileImage, Users, TrendingUp, MapPin } from 'lucide-react';
+import ExifReader, { ExpandedTags } from 'exifreader';
 import SEO from './SEO';
+import { writeJpegMetadata, parseKeywords, GpsPosition } from '../utils/jpegMetadata';
+import { isJpeg } from '../utils/jpegSegments';
+
+interface MetadataForm {
+  title: string;
+  description: string;
+  author: string;
+  copyright: string;
+  keywords: string;
+  dateTimeOriginal: string;
+  latitude: string;
+  longitude: string;
+  altitude: string;
+}
+
+interface ProcessedImage {
+  name: string;
+  blob: Blob;
+  originalSize: number;
+}
+
+const EMPTY_METADATA: MetadataForm = {
+  title: '',
+  description: '',
+  author: '',
+  copyright: '',
+  keywords: '',
+  dateTimeOriginal: '',
+  latitude: '',
+  longitude: '',
+  altitude: ''
+};
+
+const tagText = (tag: unknown): string => {
+  if (!tag) return '';
+  if (Array.isArray(tag)) return tag.map(tagText).filter(Boolean).join(', ');
+  const { description, value } = tag as { description?: unknown; value?: unknown };
+  if (typeof description === 'string' || typeof description === 'number') return String(description).trim();
+  return typeof value === 'string' ? value.trim() : '';
+};
+
+// '2024:05:01 10:30:00' (EXIF) -> '2024-05-01T10:30:00' (datetime-local input)
+const exifDateToInput = (value: string): string => {
+  const match = /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2})(?::(\d{2}))?/.exec(value);
+  return match ? `${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6] ?? '00'}` : '';
+};
+
+// Flatten the groups returned by ExifReader into label/value rows for display
+const summarizeTags = (tags: ExpandedTags): [string, string][] => {
+  const rows: [string, string][] = [];
+  const groups: [string, Record<string, unknown> | undefined][] = [
+    ['EXIF', tags.exif as unknown as Record<string, unknown> | undefined],
+    ['GPS', tags.gps as unknown as Record<string, unknown> | undefined],
+    ['IPTC', tags.iptc as unknown as Record<string, unknown> | undefined],
+    ['XMP', tags.xmp as unknown as Record<string, unknown> | undefined]
+  ];
+  for (const [group, values] of groups) {
+    if (!values) continue;
+    for (const [name, tag] of Object.entries(values)) {
+      if (name === '_raw' || /Pointer$|^Thumbnail/.test(name)) continue;
+      const text = group === 'GPS' ? String(tag) : tagText(tag);
+      if (text && text.length < 200) rows.push([`${group}: ${name}`, text]);
+    }
+  }
+  if (tags.Thumbnail) rows.push(['EXIF: Thumbnail', 'Embedded preview image']);
+  return rows;
+};
+
+const formFromTags = (tags: ExpandedTags): MetadataForm => {
+  const exif = (tags.exif || {}) as unknown as Record<string, unknown>;
+  const iptc = (tags.iptc || {}) as unknown as Record<string, unknown>;
+  const xmp = (tags.xmp || {}) as unknown as Record<string, unknown>;
+  const first = (...values: unknown[]) => values.map(tagText).find(Boolean) || '';
+  return {
+    title: first(xmp.title, iptc['Object Name'], exif.XPTitle),
+    description: first(xmp.description, iptc['Caption/Abstract'], exif.ImageDescription),
+    author: first(xmp.creator, iptc['By-line'], exif.Artist, exif.XPAuthor),
+    copyright: first(xmp.rights, iptc['Copyright Notice'], exif.Copyright),
+    keywords: first(xmp.subject, iptc.Keywords, exif.XPKeywords).replace(/;/g, ', '),
+    dateTimeOriginal: exifDateToInput(tagText(exif.DateTimeOriginal)),
+    latitude: tags.gps?.Latitude !== undefined ? String(tags.gps.Latitude) : '',
+    longitude: tags.gps?.Longitude !== undefined ? String(tags.gps.Longitude) : '',
+    altitude: tags.gps?.Altitude !== undefined ? String(tags.gps.Altitude) : ''
+  };
+};
 
 const JPGMetadataEditor: React.FC = () => {
   const [files, setFiles] = useState<File[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [processedFiles, setProcessedFiles] = useState<string[]>([]);
-  const [metadata, setMetadata] = useState({
-    title: '',
-    description: '',
-    author: '',
-    copyright: '',
-    keywords: ''
-  });
+  const [processedFiles, setProcessedFiles] = useState<ProcessedImage[]>([]);
+  const [metadata, setMetadata] = useState<MetadataForm>(EMPTY_METADATA);
+  const [removeGps, setRemoveGps] = useState(false);
+  const [removeThumbnail, setRemoveThumbnail] = useState(false);
+  const [existingTags, setExistingTags] = useState<[string, string][]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [processedBlob, setProcessedBlob] = useState<Blob | null>(null);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
 
-  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFiles = Array.from(event.target.files || []);
-    const imageFiles = selectedFiles.filter(file => file.type.startsWith('image/'));
+  // Read the current metadata of the selected image and prefill the form with it
+  useEffect(() => {
+    if (!selectedFile) {
+      setExistingTags([]);
+      return;
+    }
+    let cancelled = false;
+    ExifReader.load(selectedFile, { expanded: true })
+      .then(tags => {
+        if (cancelled) return;
+        setExistingTags(summarizeTags(tags));
+        setMetadata(formFromTags(tags));
+      })
+      .catch(() => {
+        if (cancelled) return;
+        setExistingTags([]);
+        setMetadata(EMPTY_METADATA);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedFile]);
+
+  const addFiles = (incoming: File[]) => {
+    const imageFiles = incoming.filter(file => file.type === 'image/jpeg' || /\.jpe?g$/i.test(file.name));
+    if (imageFiles.length < incoming.length) {
+      setError('Only JPEG images can be edited without recompression; other files were skipped.');
+    }
     setFiles(prev => [...prev, ...imageFiles]);
+    setProcessedFiles([]);
     // Set the first file as selected for processing
-    if (imageFiles.length > 0) {
+    if (imageFiles.length > 0 && !selectedFile) {
       setSelectedFile(imageFiles[0]);
     }
   };
 
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    setError(null);
+    addFiles(Array.from(event.target.files || []));
+  };
+
   const handleDrop = (event: React.DragEvent) => {
     event.preventDefault();
-    const droppedFiles = Array.from(event.dataTransfer.files);
-    const imageFiles = droppedFiles.filter(file => file.type.startsWith('image/'));
-    setFiles(prev => [...prev, ...imageFiles]);
-    // Set the first file as selected for processing
-    if (imageFiles.length > 0) {
-      setSelectedFile(imageFiles[0]);
-    }
+    setError(null);
+    addFiles(Array.from(event.dataTransfer.files));
   };
 
   const handleDragOver = (event: React.DragEvent) => {
@@ -54,155 +163,87 @@ const JPGMetadataEditor: React.FC = () => {
       }
       return newFiles;
     });
+    setProcessedFiles([]);
   };
 
   const selectFileForProcessing = (file: File) => {
     setSelectedFile(file);
   };
 
-  const processImage = useCallback(async () => {
-    if (!selectedFile || !canvasRef.current) return;
-
-    setIsProcessing(true);
-    try {
-      // Create canvas for processing
-      const canvas = canvasRef.current;
-      const ctx = canvas.getContext('2d');
-      if (!ctx) return;
-
-      // Load image
-      const img = new Image();
-      img.onload = () => {
-        canvas.width = img.width;
-        canvas.height = img.height;
-        ctx.drawImage(img, 0, 0);
-        
-        // Create a new image with metadata information
-        // In a real implementation, this would modify EXIF data
-        // For now, we'll create a new image with the same content and add metadata info
-        
-        // Add metadata watermark (subtle, professional)
-        if (metadata.title || metadata.author || metadata.description) {
-          ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
-          ctx.fillRect(10, canvas.height - 80, canvas.width - 20, 70);
-          
-          ctx.font = '12px Arial';
-          ctx.fillStyle = '#ffffff';
-          
-          let y = canvas.height - 60;
-          if (metadata.title) {
-            ctx.fillText(`Title: ${metadata.title}`, 20, y);
-            y += 15;
-          }
-          if (metadata.author) {
-            ctx.fillText(`Author: ${metadata.author}`, 20, y);
-            y += 15;
-          }
-          if (metadata.description && metadata.description.length > 50) {
-            ctx.fillText(`Description: ${metadata.description.substring(0, 50)}...`, 20, y);
-          } else if (metadata.description) {
-            ctx.fillText(`Description: ${metadata.description}`, 20, y);
-          }
-        }
-        
-        // Convert to blob with high quality
-        canvas.toBlob((blob) => {
-          if (blob) {
-            setProcessedBlob(blob);
-            setIsProcessing(false);
-            alert('JPG metadata updated successfully! Your image has been processed with the new metadata.');
-          }
-        }, 'image/jpeg', 0.95);
-      };
-      
-      img.onerror = () => {
-        setIsProcessing(false);
-        alert('Error loading image. Please try again.');
-      };
-      
-      img.src = URL.createObjectURL(selectedFile);
-      
-    } catch (error) {
-      console.error('Error updating JPG metadata:', error);
-      setIsProcessing(false);
-      alert('Error updating JPG metadata. Please try again.');
+  const parseGps = (): GpsPosition | null => {
+    if (!metadata.latitude.trim() && !metadata.longitude.trim()) return null;
+    const latitude = parseFloat(metadata.latitude);
+    const longitude = parseFloat(metadata.longitude);
+    if (!Number.isFinite(latitude) || Math.abs(latitude) > 90 || !Number.isFinite(longitude) || Math.abs(longitude) > 180) {
+      throw new Error('GPS coordinates must be decimal degrees (latitude -90 to 90, longitude -180 to 180).');
     }
-  }, [selectedFile, metadata]);
+    const altitude = metadata.altitude.trim() ? parseFloat(metadata.altitude) : undefined;
+    return { latitude, longitude, altitude: Number.isFinite(altitude) ? altitude : undefined };
+  };
 
   const processFiles = async () => {
     if (files.length === 0) return;
-    
+
     setIsProcessing(true);
+    setError(null);
+    setSuccess(null);
+    setProcessedFiles([]);
     try {
-      // Process each image file
-      for (let i = 0; i < files.length; i++) {
-        const file = files[i];
-        
-        // Create canvas for image processing
-        const canvas = document.createElement('canvas');
-        const ctx = canvas.getContext('2d');
-        if (!ctx) throw new Error('Could not get canvas context');
-        
-        // Load the image
-        const imageUrl = URL.createObjectURL(file);
-        const img = document.createElement('img') as HTMLImageElement;
-        
-        await new Promise<void>((resolve, reject) => {
-          img.onload = () => resolve();
-          img.onerror = () => reject(new Error('Failed to load image'));
-          img.src = imageUrl;
-        });
-        
-        // Set canvas size to match image
-        canvas.width = img.width;
-        canvas.height = img.height;
-        
-        // Draw the image
-        ctx.drawImage(img, 0, 0);
-    
-        // Apply metadata settings (in a real implementation, this would modify EXIF data)
-        // For now, we'll create a new image with the same content
-        const blob = await new Promise<Blob>((resolve) => {
-          canvas.toBlob((blob) => {
-            if (blob) resolve(blob);
-          }, 'image/jpeg', 0.9);
-        });
-        
-        // Create download link
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = file.name.replace(/\.[^/.]+$/, '') + '_metadata-edited.jpg';
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
-        
-        // Clean up
-        URL.revokeObjectURL(imageUrl);
+      const gps = removeGps ? null : parseGps();
+      const fields = {
+        title: metadata.title.trim(),
+        description: metadata.description.trim(),
+        author: metadata.author.trim(),
+        copyright: metadata.copyright.trim(),
+        keywords: parseKeywords(metadata.keywords),
+        dateTimeOriginal: metadata.dateTimeOriginal,
+        gps
+      };
+      const options = { writeExif: true, writeXmp: true, writeIptc: true, removeGps, removeThumbnail };
+
+      const results: ProcessedImage[] = [];
+      const failures: string[] = [];
+      for (const file of files) {
+        try {
+          const bytes = new Uint8Array(await file.arrayBuffer());
+          if (!isJpeg(bytes)) throw new Error('not a JPEG file');
+          // Only the metadata segments are rewritten; the compressed image data is copied as-is
+          const output = writeJpegMetadata(bytes, fields, options);
+          results.push({
+            name: file.name.replace(/\.[^/.]+$/, '') + '_metadata-edited.jpg',
+            blob: new Blob([output], { type: 'image/jpeg' }),
+            originalSize: file.size
+          });
+        } catch (fileError) {
+          console.error(`Error editing metadata of ${file.name}:`, fileError);
+          failures.push(`${file.name}: ${fileError instanceof Error ? fileError.message : 'unknown error'}`);
+        }
       }
-      
-      setProcessedFiles(files.map(f => f.name.replace(/\.[^/.]+$/, '') + '_metadata-edited.jpg'));
-    setIsProcessing(false);
-    
-    } catch (error) {
-      console.error('Error editing JPG metadata:', error);
+
+      setProcessedFiles(results);
+      if (failures.length > 0) setError(`Some images could not be updated. ${failures.join('; ')}`);
+      if (results.length > 0) setSuccess(`Metadata written to ${results.length} image(s) without recompression.`);
+    } catch (processError) {
+      console.error('Error editing JPG metadata:', processError);
+      setError(processError instanceof Error ? processError.message : 'Error editing JPG metadata. Please try again.');
+    } finally {
       setIsProcessing(false);
-      alert('Error editing JPG metadata. Please try again.');
     }
   };
 
-  const downloadAll = () => {
-    if (!processedBlob) {
-      alert('No processed file to download');
-      return;
-    }
-
-    // Download the real processed file
+  const downloadFile = (file: ProcessedImage) => {
+    const url = URL.createObjectURL(file.blob);
     const link = document.createElement('a');
-    link.href = URL.createObjectURL(processedBlob);
-    link.download = selectedFile?.name.replace(/\.[^/.]+$/, '') + '_metadata-edited.jpg';
+    link.href = url;
+    link.download = file.name;
+    document.body.appendChild(link);
     link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const downloadAll = () => {
+    processedFiles.forEach(downloadFile);
   };
 
   const features = [
@@ -331,7 +372,7 @@ const JPGMetadataEditor: React.FC = () => {
                     ref={fileInputRef}
                     type="file"
                     multiple
-                    accept="image/*"
+                    accept="image/jpeg,.jpg,.jpeg"
                     onChange={handleFileSelect}
                     className="hidden"
                   />
@@ -467,57 +508,131 @@ const JPGMetadataEditor: React.FC = () => {
                     />
                   </div>
                 </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mt-6">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Date Taken
+                    </label>
+                    <input
+                      type="datetime-local"
+                      step={1}
+                      value={metadata.dateTimeOriginal}
+                      onChange={(e) => setMetadata({...metadata, dateTimeOriginal: e.target.value})}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-violet-500 focus:border-transparent"
+                    />
+                  </div>
+                </div>
+
+                <div className="mt-6">
+                  <div className="flex items-center gap-2 mb-2">
+                    <MapPin className="h-4 w-4 text-gray-600" />
+                    <span className="text-sm font-medium text-gray-700">GPS Location (decimal degrees)</span>
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <input
+                      type="text"
+                      inputMode="decimal"
+                      value={metadata.latitude}
+                      onChange={(e) => setMetadata({...metadata, latitude: e.target.value})}
+                      disabled={removeGps}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-violet-500 focus:border-transparent disabled:bg-gray-100"
+                      placeholder="Latitude, e.g. 48.8584"
+                    />
+                    <input
+                      type="text"
+                      inputMode="decimal"
+                      value={metadata.longitude}
+                      onChange={(e) => setMetadata({...metadata, longitude: e.target.value})}
+                      disabled={removeGps}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-violet-500 focus:border-transparent disabled:bg-gray-100"
+                      placeholder="Longitude, e.g. 2.2945"
+                    />
+                    <input
+                      type="text"
+                      inputMode="decimal"
+                      value={metadata.altitude}
+                      onChange={(e) => setMetadata({...metadata, altitude: e.target.value})}
+                      disabled={removeGps}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-violet-500 focus:border-transparent disabled:bg-gray-100"
+                      placeholder="Altitude in meters (optional)"
+                    />
+                  </div>
+                </div>
+
+                <div className="flex flex-col sm:flex-row gap-6 mt-6">
+                  <label className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={removeGps}
+                      onChange={(e) => setRemoveGps(e.target.checked)}
+                      className="rounded border-gray-300 text-violet-600 focus:ring-violet-500"
+                    />
+                    <span>Remove GPS location</span>
+                  </label>
+                  <label className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={removeThumbnail}
+                      onChange={(e) => setRemoveThumbnail(e.target.checked)}
+                      className="rounded border-gray-300 text-violet-600 focus:ring-violet-500"
+                    />
+                    <span>Remove embedded thumbnail</span>
+                  </label>
+                </div>
+                <p className="text-xs text-gray-500 mt-4">
+                  Fields are prefilled from the selected image and applied to every image in the list. Clearing a text field removes that value.
+                </p>
               </div>
 
-              {/* Metadata Preview */}
-              {(metadata.title || metadata.author || metadata.description || metadata.copyright || metadata.keywords) && (
+              {/* Existing Metadata */}
+              {selectedFile && (
                 <div className="bg-gradient-to-br from-blue-50 to-indigo-50 rounded-xl p-6 mb-8 border border-blue-200">
                   <div className="flex items-center gap-3 mb-4">
                     <Eye className="h-5 w-5 text-blue-600" />
-                    <h3 className="text-lg font-semibold text-blue-900">Metadata Preview</h3>
+                    <h3 className="text-lg font-semibold text-blue-900">Existing Metadata: {selectedFile.name}</h3>
                   </div>
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
-                    {metadata.title && (
-                      <div>
-                        <span className="font-medium text-blue-800">Title:</span>
-                        <span className="ml-2 text-blue-700">{metadata.title}</span>
-                      </div>
-                    )}
-                    {metadata.author && (
-                      <div>
-                        <span className="font-medium text-blue-800">Author:</span>
-                        <span className="ml-2 text-blue-700">{metadata.author}</span>
-                      </div>
-                    )}
-                    {metadata.description && (
-                      <div className="md:col-span-2">
-                        <span className="font-medium text-blue-800">Description:</span>
-                        <span className="ml-2 text-blue-700">{metadata.description}</span>
-                      </div>
-                    )}
-                    {metadata.copyright && (
-                      <div>
-                        <span className="font-medium text-blue-800">Copyright:</span>
-                        <span className="ml-2 text-blue-700">{metadata.copyright}</span>
-                      </div>
-                    )}
-                    {metadata.keywords && (
-                      <div>
-                        <span className="font-medium text-blue-800">Keywords:</span>
-                        <span className="ml-2 text-blue-700">{metadata.keywords}</span>
-                      </div>
-                    )}
+                  {existingTags.length > 0 ? (
+                    <div className="max-h-72 overflow-y-auto">
+                      <table className="w-full text-sm">
+                        <tbody>
+                          {existingTags.map(([label, value]) => (
+                            <tr key={label} className="border-b border-blue-100 last:border-0">
+                              <td className="py-1 pr-4 font-medium text-blue-800 whitespace-nowrap align-top">{label}</td>
+                              <td className="py-1 text-blue-700 break-all">{value}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  ) : (
+                    <p className="text-sm text-blue-700">No EXIF, IPTC or XMP metadata found in this image.</p>
+                  )}
+                </div>
+              )}
+
+              {/* Error and Success Messages */}
+              {error && (
+                <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-xl">
+                  <div className="flex items-center space-x-2">
+                    <div className="text-red-600">⚠️</div>
+                    <p className="text-red-700">{error}</p>
+                  </div>
+                </div>
+              )}
+              {success && (
+                <div className="mb-4 p-4 bg-green-50 border border-green-200 rounded-xl">
+                  <div className="flex items-center space-x-2">
+                    <div className="text-green-600">✅</div>
+                    <p className="text-green-700">{success}</p>
                   </div>
-                  <p className="text-xs text-blue-600 mt-3">
-                    💡 This metadata will be embedded in your processed image
-                  </p>
                 </div>
               )}
 
               {/* Action Buttons */}
               <div className="flex flex-col sm:flex-row gap-4">
                 <button
-                  onClick={processImage}
+                  onClick={processFiles}
                   disabled={files.length === 0 || isProcessing}
                   className="flex-1 bg-gradient-to-r from-violet-600 to-blue-600 text-white px-8 py-4 rounded-xl font-semibold hover:shadow-lg transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
                 >
@@ -533,20 +648,36 @@ const JPGMetadataEditor: React.FC = () => {
                     </>
                   )}
                 </button>
-                {processedBlob && (
+                {processedFiles.length > 0 && (
                   <button
                     onClick={downloadAll}
                     className="bg-green-600 text-white px-8 py-4 rounded-xl font-semibold hover:bg-green-700 transition-all duration-200 flex items-center justify-center space-x-2"
                   >
                     <Download className="h-5 w-5" />
-                    <span>Download Updated Image</span>
+                    <span>{processedFiles.length > 1 ? 'Download All Images' : 'Download Updated Image'}</span>
                   </button>
                 )}
               </div>
-            </div>
 
-            {/* Hidden canvas for image processing */}
-            <canvas ref={canvasRef} style={{ display: 'none' }} />
+              {/* Processed Files */}
+              {processedFiles.length > 0 && (
+                <div className="mt-6 space-y-2">
+                  {processedFiles.map(file => (
+                    <div key={file.name} className="flex items-center justify-between bg-gray-50 rounded-lg px-4 py-3 text-sm">
+                      <span className="font-medium text-gray-900 truncate">{file.name}</span>
+                      <div className="flex items-center space-x-4">
+                        <span className="text-gray-500">
+                          {(file.originalSize / 1024).toFixed(1)} KB → {(file.blob.size / 1024).toFixed(1)} KB
+                        </span>
+                        <button onClick={() => downloadFile(file)} className="text-violet-600 hover:text-violet-800">
+                          <Download className="h-4 w-4" />
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
 
             {/* Features Section */}
             <div className="mb-16">
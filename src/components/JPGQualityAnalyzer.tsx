@@ -1,72 +1,84 @@
-import React, { useState, useRef, useCallback } from 'react';
-import { Upload, Download, Eye, Zap, Shield, FileImage, Users, TrendingUp, BarChart3 } from 'lucide-react';
+import React, { useState, useRef } from 'react';
+import { Upload, Download, Eye, Zap, Shield, FileImage, Users, TrendingUp, BarChart3, AlertTriangle } from 'lucide-react';
 import SEO from './SEO';
 import { NotificationProvider, useNotification } from './NotificationProvider';
+import { analyzeJpeg, JpegQualityReport } from '../utils/jpegAnalysis';
 
-interface AnalysisResult {
-  quality: number;
-  resolution: { width: number; height: number };
-  fileSize: number;
-  compression: string;
-  format: string;
-  recommendations: string[];
-  metrics: {
-    brightness: number;
-    contrast: number;
-    sharpness: number;
-    noise: number;
-    compressionRatio: number;
-    artifacts: number;
-  };
+interface AnalyzedJPG {
+  file: File;
+  report?: JpegQualityReport;
+  error?: string;
+}
+
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+};
+
+const isJpeg = (file: File) =>
+  file.type === 'image/jpeg' ||
+  file.type === 'image/jpg' ||
+  file.name.toLowerCase().endsWith('.jpg') ||
+  file.name.toLowerCase().endsWith('.jpeg');
+
+const describeQuality = (report: JpegQualityReport) =>
+  report.quality ? `${report.quality.exact ? '' : '≈ '}${report.quality.estimate}` : 'Unknown';
+
+const describeDoubleCompression = (report: JpegQualityReport) => {
+  const { detected, primaryQuality } = report.doubleCompression;
+  if (detected === null) return 'Not enough data';
+  if (!detected) return 'Not detected';
+  return primaryQuality ? `Detected (first saved at ≈ ${primaryQuality})` : 'Detected';
+};
+
+const downloadJson = (data: unknown, filename: string) => {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(link.href);
+};
+
+async function analyzeFile(file: File): Promise<AnalyzedJPG> {
+  try {
+    return { file, report: analyzeJpeg(new Uint8Array(await file.arrayBuffer())) };
+  } catch (error) {
+    return { file, error: error instanceof Error ? error.message : 'Could not read the JPEG' };
+  }
 }
 
 const JPGQualityAnalyzer: React.FC = () => {
   const [files, setFiles] = useState<File[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [processedFiles, setProcessedFiles] = useState<string[]>([]);
+  const [progress, setProgress] = useState(0);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [previewUrl, setPreviewUrl] = useState<string>('');
-  const [processedBlob, setProcessedBlob] = useState<Blob | null>(null);
-  const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
+  const [results, setResults] = useState<AnalyzedJPG[]>([]);
   const notify = useNotification();
 
-  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFiles = Array.from(event.target.files || []);
-    const jpgFiles = selectedFiles.filter(file => 
-      file.type === 'image/jpeg' || 
-      file.type === 'image/jpg' || 
-      file.name.toLowerCase().endsWith('.jpg') || 
-      file.name.toLowerCase().endsWith('.jpeg')
-    );
+  const selectedResult = results.find(result => result.file === selectedFile);
+  const analyzed = results.filter(result => result.report);
+
+  const addFiles = (incoming: File[]) => {
+    const jpgFiles = incoming.filter(isJpeg);
     setFiles(prev => [...prev, ...jpgFiles]);
     // Set the first file as selected for analysis
     if (jpgFiles.length > 0) {
       setSelectedFile(jpgFiles[0]);
       setPreviewUrl(URL.createObjectURL(jpgFiles[0]));
-      setAnalysisResult(null);
-      setProcessedBlob(null);
     }
   };
 
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(Array.from(event.target.files || []));
+  };
+
   const handleDrop = (event: React.DragEvent) => {
     event.preventDefault();
-    const droppedFiles = Array.from(event.dataTransfer.files);
-    const jpgFiles = droppedFiles.filter(file => 
-      file.type === 'image/jpeg' || 
-      file.type === 'image/jpg' || 
-      file.name.toLowerCase().endsWith('.jpg') || 
-      file.name.toLowerCase().endsWith('.jpeg')
-    );
-    setFiles(prev => [...prev, ...jpgFiles]);
-    // Set the first file as selected for analysis
-    if (jpgFiles.length > 0) {
-      setSelectedFile(jpgFiles[0]);
-      setPreviewUrl(URL.createObjectURL(jpgFiles[0]));
-      setAnalysisResult(null);
-      setProcessedBlob(null);
-    }
+    addFiles(Array.from(event.dataTransfer.files));
   };
 
   const handleDragOver = (event: React.DragEvent) => {
@@ -74,253 +86,85 @@ const JPGQualityAnalyzer: React.FC = () => {
   };
 
   const removeFile = (index: number) => {
+    const file = files[index];
     setFiles(prev => prev.filter((_, i) => i !== index));
-    if (selectedFile === files[index]) {
+    setResults(prev => prev.filter(result => result.file !== file));
+    if (selectedFile === file) {
       setSelectedFile(null);
       setPreviewUrl('');
-      setAnalysisResult(null);
-      setProcessedBlob(null);
     }
   };
 
   const selectFileForAnalysis = (file: File) => {
     setSelectedFile(file);
     setPreviewUrl(URL.createObjectURL(file));
-    setAnalysisResult(null);
-    setProcessedBlob(null);
   };
 
-  const downloadAll = () => {
-    if (!processedBlob) {
-      notify('No analysis report to download', 'error');
-      return;
-    }
+  const storeResult = (result: AnalyzedJPG) => {
+    setResults(prev => [...prev.filter(item => item.file !== result.file), result]);
+  };
 
-    const link = document.createElement('a');
-    link.href = URL.createObjectURL(processedBlob);
-    link.download = selectedFile?.name.replace(/\.[^/.]+$/, '') + '_quality-analysis.jpg';
-    link.click();
+  const analyzeSelected = async () => {
+    if (!selectedFile) return;
+    setIsProcessing(true);
+    const result = await analyzeFile(selectedFile);
+    storeResult(result);
+    setIsProcessing(false);
+    if (result.error) notify(`Error analyzing ${selectedFile.name}: ${result.error}`, 'error');
+    else notify('Image quality analysis completed!', 'success');
   };
 
-  // Calculate image noise using variance
-  const calculateNoise = (imageData: ImageData): number => {
-    const data = imageData.data;
-    let totalVariance = 0;
-    const width = imageData.width;
-    const height = imageData.height;
-    
-    // Calculate local variance for noise estimation
-    for (let y = 1; y < height - 1; y++) {
-      for (let x = 1; x < width - 1; x++) {
-        const idx = (y * width + x) * 4;
-        const center = data[idx];
-        
-        // Get surrounding pixels
-        const neighbors = [
-          data[idx - 4], data[idx + 4], // left, right
-          data[idx - width * 4], data[idx + width * 4] // top, bottom
-        ];
-        
-        // Calculate local variance
-        const mean = neighbors.reduce((sum, val) => sum + val, 0) / neighbors.length;
-        const variance = neighbors.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / neighbors.length;
-        totalVariance += variance;
-      }
+  // Files are read one at a time so large photo sets do not exhaust memory
+  const analyzeAll = async () => {
+    if (files.length === 0) return;
+    setIsProcessing(true);
+    setProgress(0);
+    let failed = 0;
+    for (let i = 0; i < files.length; i++) {
+      const result = await analyzeFile(files[i]);
+      if (result.error) failed++;
+      storeResult(result);
+      setProgress(Math.round(((i + 1) / files.length) * 100));
     }
-    
-    return Math.sqrt(totalVariance / (width * height));
+    setIsProcessing(false);
+    if (failed > 0) notify(`${failed} of ${files.length} file(s) could not be analyzed`, 'error');
+    else notify(`Analyzed ${files.length} image(s)`, 'success');
   };
 
-  // Calculate compression artifacts (blocking and ringing)
-  const calculateArtifacts = (imageData: ImageData): number => {
-    const data = imageData.data;
-    const width = imageData.width;
-    const height = imageData.height;
-    let artifactScore = 0;
-    
-    // Check for blocking artifacts (8x8 block boundaries)
-    for (let y = 8; y < height; y += 8) {
-      for (let x = 0; x < width; x++) {
-        const idx1 = ((y - 1) * width + x) * 4;
-        const idx2 = (y * width + x) * 4;
-        const diff = Math.abs(data[idx1] - data[idx2]);
-        artifactScore += diff;
-      }
-    }
-    
-    for (let x = 8; x < width; x += 8) {
-      for (let y = 0; y < height; y++) {
-        const idx1 = (y * width + (x - 1)) * 4;
-        const idx2 = (y * width + x) * 4;
-        const diff = Math.abs(data[idx1] - data[idx2]);
-        artifactScore += diff;
-      }
+  const downloadReport = () => {
+    if (!selectedResult?.report || !selectedFile) {
+      notify('No analysis report to download', 'error');
+      return;
     }
-    
-    return artifactScore / (width * height);
+    downloadJson({ name: selectedFile.name, ...selectedResult.report }, selectedFile.name.replace(/\.[^/.]+$/, '') + '_quality-analysis.json');
   };
 
-  const analyzeImage = useCallback(async () => {
-    if (!selectedFile || !canvasRef.current) return;
-
-    setIsProcessing(true);
-    try {
-      const canvas = canvasRef.current;
-      const ctx = canvas.getContext('2d');
-      if (!ctx) return;
-
-      const img = new Image();
-      img.onload = () => {
-        canvas.width = img.width;
-        canvas.height = img.height;
-        ctx.drawImage(img, 0, 0);
-        
-        const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-        const data = imageData.data;
-        
-        // Calculate metrics
-        const totalPixels = canvas.width * canvas.height;
-        let brightness = 0;
-        let contrast = 0;
-        let sharpness = 0;
-        
-        // Calculate brightness and contrast
-        const pixelValues: number[] = [];
-        for (let i = 0; i < data.length; i += 4) {
-          const r = data[i];
-          const g = data[i + 1];
-          const b = data[i + 2];
-          const gray = (r + g + b) / 3;
-          brightness += gray;
-          pixelValues.push(gray);
-        }
-        brightness = brightness / totalPixels;
-        
-        // Calculate contrast (standard deviation)
-        const variance = pixelValues.reduce((sum, val) => sum + Math.pow(val - brightness, 2), 0) / totalPixels;
-        contrast = Math.sqrt(variance);
-        
-        // Calculate sharpness (edge detection)
-        for (let y = 1; y < canvas.height - 1; y++) {
-          for (let x = 1; x < canvas.width - 1; x++) {
-            const idx = (y * canvas.width + x) * 4;
-            const current = data[idx];
-            const right = data[idx + 4];
-            const bottom = data[idx + canvas.width * 4];
-            sharpness += Math.abs(current - right) + Math.abs(current - bottom);
-          }
-        }
-        sharpness = sharpness / (totalPixels * 2);
-        
-        // Calculate noise and artifacts
-        const noise = calculateNoise(imageData);
-        const artifacts = calculateArtifacts(imageData);
-        
-        // Calculate compression ratio
-        const theoreticalSize = canvas.width * canvas.height * 3; // RGB
-        const compressionRatio = (1 - selectedFile.size / theoreticalSize) * 100;
-        
-        // Calculate quality score
-        const qualityScore = Math.min(100, Math.max(0, 
-          (brightness / 255 * 15) + 
-          (contrast / 255 * 20) + 
-          (sharpness / 50 * 25) + 
-          (Math.max(0, 100 - noise) / 100 * 20) + 
-          (Math.max(0, 100 - artifacts) / 100 * 20)
-        ));
-        
-        // Generate recommendations
-        const recommendations: string[] = [];
-        if (qualityScore < 50) {
-          recommendations.push("Consider re-encoding with higher quality settings");
-        }
-        if (noise > 20) {
-          recommendations.push("Image has significant noise - consider noise reduction");
-        }
-        if (artifacts > 15) {
-          recommendations.push("Compression artifacts detected - use higher quality JPEG");
-        }
-        if (compressionRatio > 90) {
-          recommendations.push("Very high compression - quality may be compromised");
-        }
-        if (canvas.width < 800 || canvas.height < 600) {
-          recommendations.push("Low resolution - consider higher resolution source");
-        }
-        if (recommendations.length === 0) {
-          recommendations.push("Image quality is good - no major issues detected");
-        }
-        
-        // Create analysis result
-        const analysis: AnalysisResult = {
-          quality: Math.round(qualityScore),
-          resolution: { width: canvas.width, height: canvas.height },
-          fileSize: selectedFile.size,
-          compression: 'JPEG',
-          format: 'image/jpeg',
-          recommendations,
-          metrics: {
-            brightness: Math.round(brightness),
-            contrast: Math.round(contrast),
-            sharpness: Math.round(sharpness),
-            noise: Math.round(noise),
-            compressionRatio: Math.round(compressionRatio),
-            artifacts: Math.round(artifacts)
-          }
-        };
-        
-        // Create analysis overlay
-        ctx.fillStyle = 'rgba(0, 0, 0, 0.8)';
-        ctx.fillRect(10, 10, 300, 280);
-        
-        ctx.font = 'bold 16px Arial';
-        ctx.fillStyle = '#ffffff';
-        ctx.fillText('Quality Analysis Report', 20, 35);
-        
-        ctx.font = '14px Arial';
-        ctx.fillText(`Quality Score: ${analysis.quality}/100`, 20, 60);
-        ctx.fillText(`Resolution: ${analysis.resolution.width} x ${analysis.resolution.height}`, 20, 85);
-        ctx.fillText(`File Size: ${(selectedFile.size / 1024 / 1024).toFixed(2)} MB`, 20, 110);
-        ctx.fillText(`Brightness: ${analysis.metrics.brightness}`, 20, 135);
-        ctx.fillText(`Contrast: ${analysis.metrics.contrast}`, 20, 160);
-        ctx.fillText(`Sharpness: ${analysis.metrics.sharpness}`, 20, 185);
-        ctx.fillText(`Noise: ${analysis.metrics.noise}`, 20, 210);
-        ctx.fillText(`Compression: ${analysis.metrics.compressionRatio}%`, 20, 235);
-        ctx.fillText(`Artifacts: ${analysis.metrics.artifacts}`, 20, 260);
-        
-        // Convert to blob
-        canvas.toBlob((blob) => {
-          if (blob) {
-            setProcessedBlob(blob);
-            setAnalysisResult(analysis);
-            setIsProcessing(false);
-            notify('Image quality analysis completed!', 'success');
-          }
-        }, 'image/jpeg', 0.9);
-      };
-      
-      img.src = URL.createObjectURL(selectedFile);
-      
-    } catch (error) {
-      notify('Error analyzing image. Please try again.', 'error');
-      setIsProcessing(false);
+  const exportAll = () => {
+    if (results.length === 0) {
+      notify('Analyze some images first', 'error');
+      return;
     }
-  }, [selectedFile]);
+    downloadJson({
+      generatedAt: new Date().toISOString(),
+      files: results.map(({ file, report, error }) => (report ? { name: file.name, ...report } : { name: file.name, size: file.size, error })),
+    }, 'jpeg-quality-audit.json');
+  };
 
   const features = [
     {
       icon: <BarChart3 className="h-6 w-6" />,
-      title: "Quality Analysis",
-      description: "Comprehensive analysis of JPEG quality and compression"
+      title: "Quality Estimate",
+      description: "Reads the quantization tables and finds the IJG quality they were saved with"
     },
     {
       icon: <TrendingUp className="h-6 w-6" />,
-      title: "AI-Powered Insights",
-      description: "Get intelligent recommendations for optimization"
+      title: "Re-save Detection",
+      description: "Spots images that were compressed twice from their DCT coefficient histograms"
     },
     {
       icon: <Eye className="h-6 w-6" />,
-      title: "Detailed Reports",
-      description: "Generate comprehensive reports with visual charts"
+      title: "JSON Reports",
+      description: "Export the full structure of one file or a whole photo set for auditing"
     },
     {
       icon: <Shield className="h-6 w-6" />,
@@ -338,12 +182,12 @@ const JPGQualityAnalyzer: React.FC = () => {
     {
       step: "2", 
       title: "Analyze Quality",
-      description: "Our system analyzes compression, artifacts, and overall image quality"
+      description: "Markers, quantization and Huffman tables, subsampling and metadata are read directly from the file"
     },
     {
       step: "3",
       title: "Get Insights",
-      description: "Receive detailed reports with recommendations for optimization"
+      description: "Review the report and recommendations, or export every result as JSON"
     }
   ];
 
@@ -358,7 +202,7 @@ const JPGQualityAnalyzer: React.FC = () => {
     <>
       <SEO
         title="JPG Quality Analyzer | Check Image Quality Online"
-        description="Analyze JPG images for sharpness, compression, and artifacts with our free online JPG quality analyzer. Get detailed image quality reports instantly."
+        description="Inspect JPG quantization tables, estimate the saved quality, check subsampling, progressive encoding and metadata, and detect re-saved images. Export reports as JSON."
         keywords="JPG quality analyzer, analyze JPG quality, JPG compression, image quality, online tool, free tool"
         canonical="jpg-quality-analyzer"
         ogImage="/images/jpg-quality-analyzer-og.jpg"
@@ -381,8 +225,8 @@ const JPGQualityAnalyzer: React.FC = () => {
               JPG Quality Analyzer Online
             </h1>
             <p className="text-xl text-gray-600 max-w-3xl mx-auto mb-8 leading-relaxed">
-              Get comprehensive analysis of your JPEG images with AI-powered insights. Understand quality, 
-              compression, artifacts, and get intelligent recommendations for optimization.
+              See what your JPEG files really contain: the quality they were saved at, how they are encoded,
+              how much metadata they carry and whether they have been compressed more than once.
             </p>
             {/* Stats */}
             <div className="grid grid-cols-2 md:grid-cols-4 gap-6 mb-12">
@@ -491,12 +335,9 @@ const JPGQualityAnalyzer: React.FC = () => {
               </div>
             )}
 
-            {/* Hidden canvas for processing */}
-            <canvas ref={canvasRef} style={{ display: 'none' }} />
-
             {/* Preview & Analysis Actions */}
             {selectedFile && (
-              <div className="mb-8 grid grid-cols-1 md:grid-cols-2 gap-8 items-center">
+              <div className="mb-8 grid grid-cols-1 md:grid-cols-2 gap-8 items-start">
                 <div className="flex flex-col items-center">
                   <h4 className="text-md font-semibold text-gray-800 mb-2">Preview</h4>
                   <div className="bg-gray-100 rounded-xl p-4 border border-gray-200 shadow-inner">
@@ -506,53 +347,107 @@ const JPGQualityAnalyzer: React.FC = () => {
                       style={{ maxWidth: 320, maxHeight: 320, width: '100%', borderRadius: '0.75rem', background: '#fff' }}
                     />
                   </div>
-                  <div className="flex gap-4 mt-4">
+                  <div className="flex flex-wrap justify-center gap-4 mt-4">
                     <button
-                      onClick={analyzeImage}
+                      onClick={analyzeSelected}
                       className="bg-gradient-to-r from-violet-600 to-blue-600 text-white px-6 py-2 rounded-lg font-semibold shadow hover:from-violet-700 hover:to-blue-700 transition-all duration-200 disabled:opacity-60"
                       disabled={isProcessing}
                     >
                       {isProcessing ? 'Analyzing...' : 'Analyze Quality'}
                     </button>
                     <button
-                      onClick={downloadAll}
+                      onClick={downloadReport}
                       className="bg-white border border-violet-600 text-violet-600 px-6 py-2 rounded-lg font-semibold shadow hover:bg-violet-50 transition-all duration-200 disabled:opacity-60"
-                      disabled={!processedBlob}
+                      disabled={!selectedResult?.report}
                     >
                       <Download className="inline h-4 w-4 mr-1" /> Download Report
                     </button>
                   </div>
+                  {selectedResult?.error && (
+                    <p className="text-sm text-red-600 mt-3">{selectedResult.error}</p>
+                  )}
                 </div>
                 {/* Analysis Results */}
-                {analysisResult && (
+                {selectedResult?.report && (
                   <div className="bg-violet-50/60 border border-violet-200 rounded-xl p-6 shadow flex flex-col gap-3">
                     <h4 className="text-lg font-bold text-violet-700 mb-2 flex items-center gap-2">
                       <BarChart3 className="h-5 w-5" /> Analysis Results
                     </h4>
                     <div className="grid grid-cols-2 gap-2 text-sm">
-                      <span className="font-semibold text-gray-700">Quality Score:</span>
-                      <span className="text-gray-900">{analysisResult.quality}/100</span>
+                      <span className="font-semibold text-gray-700">Estimated Quality:</span>
+                      <span className="text-gray-900">
+                        {describeQuality(selectedResult.report)}
+                        {selectedResult.report.quality && !selectedResult.report.quality.exact && ' (custom tables)'}
+                      </span>
                       <span className="font-semibold text-gray-700">Resolution:</span>
-                      <span className="text-gray-900">{analysisResult.resolution.width} x {analysisResult.resolution.height}</span>
+                      <span className="text-gray-900">{selectedResult.report.width} x {selectedResult.report.height}</span>
                       <span className="font-semibold text-gray-700">File Size:</span>
-                      <span className="text-gray-900">{(analysisResult.fileSize / 1024 / 1024).toFixed(2)} MB</span>
-                      <span className="font-semibold text-gray-700">Brightness:</span>
-                      <span className="text-gray-900">{analysisResult.metrics.brightness}</span>
-                      <span className="font-semibold text-gray-700">Contrast:</span>
-                      <span className="text-gray-900">{analysisResult.metrics.contrast}</span>
-                      <span className="font-semibold text-gray-700">Sharpness:</span>
-                      <span className="text-gray-900">{analysisResult.metrics.sharpness}</span>
-                      <span className="font-semibold text-gray-700">Noise:</span>
-                      <span className="text-gray-900">{analysisResult.metrics.noise}</span>
-                      <span className="font-semibold text-gray-700">Compression:</span>
-                      <span className="text-gray-900">{analysisResult.metrics.compressionRatio}%</span>
-                      <span className="font-semibold text-gray-700">Artifacts:</span>
-                      <span className="text-gray-900">{analysisResult.metrics.artifacts}</span>
+                      <span className="text-gray-900">{formatSize(selectedResult.report.fileSize)}</span>
+                      <span className="font-semibold text-gray-700">Frame:</span>
+                      <span className="text-gray-900">
+                        {selectedResult.report.frameMarker} ({selectedResult.report.coding}
+                        {selectedResult.report.arithmetic ? ', arithmetic' : ''}
+                        {selectedResult.report.hierarchical ? ', hierarchical' : ''}, {selectedResult.report.precision}-bit)
+                      </span>
+                      <span className="font-semibold text-gray-700">Scans:</span>
+                      <span className="text-gray-900">{selectedResult.report.scans}</span>
+                      <span className="font-semibold text-gray-700">Color Space:</span>
+                      <span className="text-gray-900">{selectedResult.report.colorSpace}</span>
+                      <span className="font-semibold text-gray-700">Subsampling:</span>
+                      <span className="text-gray-900">{selectedResult.report.subsampling ?? 'None (single component)'}</span>
+                      <span className="font-semibold text-gray-700">Restart Interval:</span>
+                      <span className="text-gray-900">
+                        {selectedResult.report.restartInterval > 0
+                          ? `${selectedResult.report.restartInterval} MCUs (${selectedResult.report.restartMarkers} markers)`
+                          : 'None'}
+                      </span>
+                      <span className="font-semibold text-gray-700">Huffman Tables:</span>
+                      <span className="text-gray-900">
+                        {selectedResult.report.huffmanTables.length} ({selectedResult.report.optimizedHuffman ? 'optimized' : 'standard tables used'})
+                      </span>
+                      <span className="font-semibold text-gray-700">Scan Data:</span>
+                      <span className="text-gray-900">{formatSize(selectedResult.report.entropyBytes)}</span>
+                      <span className="font-semibold text-gray-700">EXIF:</span>
+                      <span className="text-gray-900">
+                        {formatSize(selectedResult.report.metadata.exifBytes)}
+                        {selectedResult.report.metadata.exifThumbnailBytes > 0 && ` (thumbnail ${formatSize(selectedResult.report.metadata.exifThumbnailBytes)})`}
+                      </span>
+                      <span className="font-semibold text-gray-700">ICC Profile:</span>
+                      <span className="text-gray-900">
+                        {selectedResult.report.metadata.iccBytes > 0
+                          ? `${formatSize(selectedResult.report.metadata.iccBytes)}${selectedResult.report.metadata.iccColorSpace ? ` (${selectedResult.report.metadata.iccColorSpace})` : ''}`
+                          : 'None'}
+                      </span>
+                      <span className="font-semibold text-gray-700">XMP / IPTC:</span>
+                      <span className="text-gray-900">
+                        {formatSize(selectedResult.report.metadata.xmpBytes)} / {formatSize(selectedResult.report.metadata.iptcBytes)}
+                      </span>
+                      <span className="font-semibold text-gray-700">All Metadata:</span>
+                      <span className="text-gray-900">{formatSize(selectedResult.report.metadata.totalBytes)}</span>
+                      <span className="font-semibold text-gray-700">Double Compression:</span>
+                      <span className={selectedResult.report.doubleCompression.detected ? 'text-red-600 font-semibold' : 'text-gray-900'}>
+                        {describeDoubleCompression(selectedResult.report)}
+                      </span>
                     </div>
-                    <div className="mt-4">
+                    {selectedResult.report.metadata.comments.length > 0 && (
+                      <p className="text-sm text-gray-700">
+                        <span className="font-semibold">Comment:</span> {selectedResult.report.metadata.comments.join(' / ')}
+                      </p>
+                    )}
+                    {selectedResult.report.warnings.length > 0 && (
+                      <ul className="text-sm text-amber-700 space-y-1">
+                        {selectedResult.report.warnings.map((warning, i) => (
+                          <li key={i} className="flex items-start gap-2">
+                            <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                            <span>{warning}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    <div className="mt-2">
                       <h5 className="font-semibold text-violet-600 mb-1">Recommendations:</h5>
                       <ul className="list-disc list-inside text-gray-700 text-sm">
-                        {analysisResult.recommendations.map((rec, i) => (
+                        {selectedResult.report.recommendations.map((rec, i) => (
                           <li key={i}>{rec}</li>
                         ))}
                       </ul>
@@ -562,20 +457,102 @@ const JPGQualityAnalyzer: React.FC = () => {
               </div>
             )}
 
-            {/* Download Area */}
-            {processedBlob && (
-              <div
-                className="mt-8 flex flex-col items-center cursor-pointer"
-                onClick={downloadAll}
-              >
-                <button
-                  onClick={e => { e.stopPropagation(); downloadAll(); }}
-                  className="bg-gradient-to-r from-violet-600 to-blue-600 text-white px-8 py-3 rounded-xl font-semibold hover:shadow-lg transition-all duration-200 flex items-center gap-2"
-                >
-                  <Download className="h-5 w-5" />
-                  Download Analysis Report
-                </button>
-                <p className="text-gray-500 text-sm mt-2">Click anywhere in this box to download</p>
+            {/* Quantization Tables */}
+            {selectedResult?.report && selectedResult.report.quantTables.length > 0 && (
+              <div className="mb-8">
+                <h4 className="text-md font-semibold text-gray-800 mb-3">Quantization Tables</h4>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  {selectedResult.report.quantTables.map(table => (
+                    <div key={table.slot} className="bg-gray-50 rounded-xl p-4 border border-gray-200">
+                      <p className="text-sm text-gray-700 mb-2">
+                        Table {table.slot} ({table.precision}-bit) — quality {table.exact ? '' : '≈ '}{table.quality}
+                        {table.exact ? ' (IJG standard)' : ''}
+                      </p>
+                      <div className="grid grid-cols-8 gap-1 font-mono text-xs text-center">
+                        {table.values.map((value, i) => (
+                          <span key={i} className="bg-white rounded px-1 py-0.5 border border-gray-100">{value}</span>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+                {selectedResult.report.doubleCompression.evidence.length > 0 && (
+                  <p className="text-xs text-gray-500 mt-3">
+                    Histogram evidence of an earlier quantization:{' '}
+                    {selectedResult.report.doubleCompression.evidence
+                      .map(item => `coefficient ${item.position}: step ${item.primaryStep} → ${item.step} (score ${item.score})`)
+                      .join('; ')}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {/* Batch Analysis */}
+            {files.length > 0 && (
+              <div className="mb-8">
+                <div className="flex flex-wrap items-center gap-4 mb-4">
+                  <button
+                    onClick={analyzeAll}
+                    disabled={isProcessing}
+                    className="bg-gradient-to-r from-violet-600 to-blue-600 text-white px-6 py-2 rounded-lg font-semibold shadow hover:from-violet-700 hover:to-blue-700 transition-all duration-200 disabled:opacity-60"
+                  >
+                    {isProcessing ? `Analyzing... ${progress}%` : `Analyze All (${files.length})`}
+                  </button>
+                  <button
+                    onClick={exportAll}
+                    disabled={results.length === 0}
+                    className="bg-white border border-violet-600 text-violet-600 px-6 py-2 rounded-lg font-semibold shadow hover:bg-violet-50 transition-all duration-200 disabled:opacity-60"
+                  >
+                    <Download className="inline h-4 w-4 mr-1" /> Export All as JSON
+                  </button>
+                  {analyzed.length > 0 && (
+                    <span className="text-sm text-gray-600">
+                      {analyzed.length} analyzed, {analyzed.filter(result => result.report?.doubleCompression.detected).length} re-saved
+                    </span>
+                  )}
+                </div>
+                {results.length > 0 && (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm text-left bg-white/70 rounded-lg">
+                      <thead>
+                        <tr className="text-gray-600 border-b border-gray-200">
+                          <th className="p-2">File</th>
+                          <th className="p-2">Size</th>
+                          <th className="p-2">Quality</th>
+                          <th className="p-2">Coding</th>
+                          <th className="p-2">Subsampling</th>
+                          <th className="p-2">Metadata</th>
+                          <th className="p-2">Double Compression</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {results.map(({ file, report, error }) => (
+                          <tr
+                            key={`${file.name}-${file.size}-${file.lastModified}`}
+                            className={`border-b border-gray-100 cursor-pointer hover:bg-violet-50 ${selectedFile === file ? 'bg-violet-50' : ''}`}
+                            onClick={() => selectFileForAnalysis(file)}
+                          >
+                            <td className="p-2 truncate max-w-xs">{file.name}</td>
+                            <td className="p-2">{formatSize(file.size)}</td>
+                            {report ? (
+                              <>
+                                <td className="p-2">{describeQuality(report)}</td>
+                                <td className="p-2">{report.frameMarker} {report.coding}</td>
+                                <td className="p-2">{report.subsampling ?? '—'}</td>
+                                <td className="p-2">{formatSize(report.metadata.totalBytes)}</td>
+                                <td className={`p-2 ${report.doubleCompression.detected ? 'text-red-600 font-semibold' : ''}`}>
+                                  {describeDoubleCompression(report)}
+                                </td>
+                              </>
+                            ) : (
+                              <td className="p-2 text-red-600" colSpan={5}>{error}</td>
+                            )}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
               </div>
             )}
           </div>
@@ -584,7 +561,7 @@ const JPGQualityAnalyzer: React.FC = () => {
           <div className="mb-16">
             <div className="text-center mb-12">
               <h2 className="text-3xl font-bold text-gray-900 mb-4">Why Use Our JPG Quality Analyzer?</h2>
-              <p className="text-lg text-gray-600 max-w-2xl mx-auto">AI-powered analysis and optimization for your JPEG images.</p>
+              <p className="text-lg text-gray-600 max-w-2xl mx-auto">Facts read from the file itself, not guesses from pixels.</p>
             </div>
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-8">
               {features.map((feature, index) => (
@@ -622,7 +599,7 @@ const JPGQualityAnalyzer: React.FC = () => {
               <div className="absolute inset-0 bg-black/10 rounded-3xl"></div>
               <div className="relative z-10">
                 <h3 className="text-2xl sm:text-3xl font-bold mb-4">Ready to Analyze Your JPGs?</h3>
-                <p className="text-violet-100 mb-8 text-lg max-w-2xl mx-auto">Get instant, AI-powered insights and recommendations for your JPEG images. Start now for free!</p>
+                <p className="text-violet-100 mb-8 text-lg max-w-2xl mx-auto">Check the quality, encoding and metadata of your JPEG images instantly. Start now for free!</p>
                 <button 
                   onClick={() => fileInputRef.current?.click()}
                   className="bg-white text-violet-600 px-8 py-4 rounded-xl font-bold hover:bg-gray-100 transition-all duration-200 shadow-lg hover:shadow-xl flex items-center space-x-2 mx-auto"
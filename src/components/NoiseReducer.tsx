@@ -1,6 +1,7 @@
 import React, { useState, useRef, useCallback } from 'react';
 import { Upload, Download, Image, Users, Zap, Shield, TrendingUp, CheckCircle, Sparkles, Target, Camera, FileText, ArrowRight, Settings, RotateCcw } from 'lucide-react';
 import SEO from './SEO';
+import { getImageWorkerPool } from '../utils/imageWorkerPool';
 
 interface UploadedImage {
   id: string;
@@ -66,55 +67,25 @@ const NoiseReducer: React.FC = () => {
     setFiles(prev => prev.filter(img => img.id !== id));
   };
 
-  // Helper: Median filter for a single channel
-  function median(values: number[]) {
-    values.sort((a, b) => a - b);
-    const mid = Math.floor(values.length / 2);
-    return values.length % 2 !== 0 ? values[mid] : (values[mid - 1] + values[mid]) / 2;
-  }
-
-  // Main noise reduction function
+  // Median filter on the worker pool; the alpha channel is left unchanged
   async function applyMedianFilter(imageUrl: string, kernelSize = 3): Promise<Blob | null> {
-    return new Promise((resolve) => {
-      const img = new window.Image();
-      img.crossOrigin = "Anonymous";
-      img.onload = () => {
-        const canvas = document.createElement('canvas');
-        const ctx = canvas.getContext('2d');
-        if (!ctx) return resolve(null);
-        canvas.width = img.width;
-        canvas.height = img.height;
-        ctx.drawImage(img, 0, 0);
-        const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-        const data = imageData.data;
-        const w = canvas.width, h = canvas.height;
-        const half = Math.floor(kernelSize / 2);
-        const output = new Uint8ClampedArray(data);
-
-        for (let y = half; y < h - half; y++) {
-          for (let x = half; x < w - half; x++) {
-            const r: number[] = [], g: number[] = [], b: number[] = [];
-            for (let ky = -half; ky <= half; ky++) {
-              for (let kx = -half; kx <= half; kx++) {
-                const idx = ((y + ky) * w + (x + kx)) * 4;
-                r.push(data[idx]);
-                g.push(data[idx + 1]);
-                b.push(data[idx + 2]);
-              }
-            }
-            const idx = (y * w + x) * 4;
-            output[idx] = median(r);
-            output[idx + 1] = median(g);
-            output[idx + 2] = median(b);
-            // Alpha channel remains unchanged
-          }
-        }
-        imageData.data.set(output);
-        ctx.putImageData(imageData, 0, 0);
-        canvas.toBlob((blob) => resolve(blob), 'image/jpeg', 0.95);
-      };
+    const img = new window.Image();
+    img.crossOrigin = "Anonymous";
+    await new Promise<void>((resolve, reject) => {
+      img.onload = () => resolve();
+      img.onerror = reject;
       img.src = imageUrl;
     });
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+    canvas.width = img.width;
+    canvas.height = img.height;
+    ctx.drawImage(img, 0, 0);
+    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    const filtered = await getImageWorkerPool().run(imageData, [{ type: 'median', radius: Math.floor(kernelSize / 2) }]);
+    ctx.putImageData(filtered, 0, 0);
+    return new Promise(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.95));
   }
 
   const processImage = async () => {
@@ -125,10 +96,14 @@ const NoiseReducer: React.FC = () => {
     const kernelSize = Math.max(3, Math.min(7, 3 + Math.round((noiseReductionLevel - 10) / 30)));
     const processed: { name: string, blob: Blob, url: string }[] = [];
     for (const fileObj of files) {
-      const blob = await applyMedianFilter(fileObj.url, kernelSize);
-      if (blob) {
-        const url = URL.createObjectURL(blob);
-        processed.push({ name: fileObj.name.replace(/\.[^/.]+$/, '') + '_denoised.jpg', blob, url });
+      try {
+        const blob = await applyMedianFilter(fileObj.url, kernelSize);
+        if (blob) {
+          const url = URL.createObjectURL(blob);
+          processed.push({ name: fileObj.name.replace(/\.[^/.]+$/, '') + '_denoised.jpg', blob, url });
+        }
+      } catch (error) {
+        console.error(`Error denoising ${fileObj.name}:`, error);
       }
     }
     setProcessedFiles(processed);
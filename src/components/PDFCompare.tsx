@@ -2,6 +2,174 @@ import React, { useState, useRef, useCallback, useEffect } from 'react';
 import { Upload, Download, FileText, Users, Zap, Shield, CheckCircle, Sparkles, ArrowRight, Settings, RotateCcw, XCircle } from 'lucide-react';
 import SEO from './SEO';
 import pdfWorker from 'pdfjs-dist/build/pdf.worker.min.js?url';
+import type { PDFDocumentProxy, PageViewport } from 'pdfjs-dist';
+import { DiffRegion, diffPixels, diffRegions, paintDiffMask } from '../utils/visualDiff';
+import { addSquareAnnotation } from '../utils/pdfAnnotations';
+import { StructuredTextDiff, describeTextChange, diffTextStructures, extractTextStructure, highlightTextChanges } from '../utils/textDiff';
+
+interface RenderedPage {
+  canvas: HTMLCanvasElement;
+  viewport: PageViewport;
+}
+
+// One page pair of a visual comparison; boxes and sizes are in pixels of the diff
+interface VisualDiffPage {
+  pageNumber: number;
+  width: number;
+  height: number;
+  imageA: { url: string, width: number, height: number, viewport: PageViewport } | null;
+  imageB: { url: string, width: number, height: number, viewport: PageViewport } | null;
+  overlay: string;
+  regions: DiffRegion[];
+  changedPixels: number;
+}
+
+async function renderPage(pdfDoc: PDFDocumentProxy, pageNumber: number, scale: number): Promise<RenderedPage> {
+  const page = await pdfDoc.getPage(pageNumber);
+  const viewport = page.getViewport({ scale });
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(viewport.width);
+  canvas.height = Math.ceil(viewport.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
+  ctx.fillStyle = '#fff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  await page.render({ canvasContext: ctx, viewport }).promise;
+  return { canvas, viewport };
+}
+
+// Encodes a canvas to an object URL and frees its backing store
+function canvasToObjectUrl(canvas: HTMLCanvasElement): Promise<string> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      canvas.width = 0;
+      canvas.height = 0;
+      if (blob) resolve(URL.createObjectURL(blob));
+      else reject(new Error('Could not encode the page image'));
+    }, 'image/png');
+  });
+}
+
+function revokeVisualPages(pages: VisualDiffPage[]) {
+  for (const page of pages) {
+    URL.revokeObjectURL(page.overlay);
+    if (page.imageA) URL.revokeObjectURL(page.imageA.url);
+    if (page.imageB) URL.revokeObjectURL(page.imageB.url);
+  }
+}
+
+function pagePixels(rendered: RenderedPage | null) {
+  if (!rendered) return { data: new Uint8ClampedArray(0), width: 0, height: 0 };
+  return rendered.canvas.getContext('2d')!.getImageData(0, 0, rendered.canvas.width, rendered.canvas.height);
+}
+
+async function compareVisually(
+  pdf1Doc: PDFDocumentProxy,
+  pdf2Doc: PDFDocumentProxy,
+  dpi: number,
+  threshold: number,
+  onPage: (pageNumber: number, total: number) => void
+): Promise<VisualDiffPage[]> {
+  const scale = dpi / 72;
+  const total = Math.max(pdf1Doc.numPages, pdf2Doc.numPages);
+  const pages: VisualDiffPage[] = [];
+  for (let pageNumber = 1; pageNumber <= total; pageNumber++) {
+    onPage(pageNumber, total);
+    const a = pageNumber <= pdf1Doc.numPages ? await renderPage(pdf1Doc, pageNumber, scale) : null;
+    const b = pageNumber <= pdf2Doc.numPages ? await renderPage(pdf2Doc, pageNumber, scale) : null;
+    const diff = diffPixels(pagePixels(a), pagePixels(b), { threshold });
+    // Overlay: the newer render faded, with changed pixels painted over it
+    const overlay = document.createElement('canvas');
+    overlay.width = diff.width;
+    overlay.height = diff.height;
+    const ctx = overlay.getContext('2d')!;
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(0, 0, diff.width, diff.height);
+    ctx.globalAlpha = 0.3;
+    ctx.drawImage((b ?? a)!.canvas, 0, 0);
+    ctx.globalAlpha = 1;
+    const faded = ctx.getImageData(0, 0, diff.width, diff.height);
+    paintDiffMask(faded, diff);
+    ctx.putImageData(faded, 0, 0);
+    const image = async (rendered: RenderedPage | null) => rendered && {
+      width: rendered.canvas.width,
+      height: rendered.canvas.height,
+      viewport: rendered.viewport,
+      url: await canvasToObjectUrl(rendered.canvas),
+    };
+    pages.push({
+      pageNumber,
+      width: diff.width,
+      height: diff.height,
+      imageA: await image(a),
+      imageB: await image(b),
+      overlay: await canvasToObjectUrl(overlay),
+      regions: diffRegions(diff, { cellSize: Math.max(4, Math.round(scale * 6)) }),
+      changedPixels: diff.changedPixels,
+    });
+  }
+  return pages;
+}
+
+// Region in PDF user space of a source page, clipped to what that page covers
+function regionToPdfRect(region: DiffRegion, image: NonNullable<VisualDiffPage['imageA']>) {
+  const x0 = Math.max(0, region.x0);
+  const y0 = Math.max(0, region.y0);
+  const x1 = Math.min(image.width, region.x1);
+  const y1 = Math.min(image.height, region.y1);
+  if (x1 <= x0 || y1 <= y0) return null;
+  const [ax, ay] = image.viewport.convertToPdfPoint(x0, y0);
+  const [bx, by] = image.viewport.convertToPdfPoint(x1, y1);
+  return { x: Math.min(ax, bx), y: Math.min(ay, by), width: Math.abs(bx - ax), height: Math.abs(by - ay) };
+}
+
+// Summary page followed by each changed page of the newer document with its regions boxed
+async function buildVisualReport(file1: File, file2: File, pages: VisualDiffPage[], dpi: number): Promise<Uint8Array> {
+  const { PDFDocument, rgb, StandardFonts } = await import('pdf-lib');
+  const report = await PDFDocument.create();
+  const source1 = await PDFDocument.load(await file1.arrayBuffer(), { ignoreEncryption: true });
+  const source2 = await PDFDocument.load(await file2.arrayBuffer(), { ignoreEncryption: true });
+  const font = await report.embedFont(StandardFonts.Helvetica);
+  const changed = pages.filter(page => page.regions.length > 0);
+  const summary = report.addPage([595, 842]);
+  let y = 800;
+  const line = (text: string, size = 12, color = rgb(0, 0, 0), x = 50) => {
+    if (y < 40) return;
+    summary.drawText(text, { x, y, size, font, color });
+    y -= size + 6;
+  };
+  line('PDF Visual Comparison Report', 20, rgb(0.2, 0.2, 0.7));
+  y -= 10;
+  line(`File 1: ${file1.name}`);
+  line(`File 2: ${file2.name}`);
+  line(`Pages: ${source1.getPageCount()} vs ${source2.getPageCount()}, rendered at ${dpi} DPI`);
+  line(`Changed pages: ${changed.length} of ${pages.length}`);
+  y -= 12;
+  line('Changes by page:', 14, rgb(0.7, 0.2, 0.2));
+  for (const page of pages) {
+    const share = (page.changedPixels / (page.width * page.height)) * 100;
+    const note = !page.imageA ? ' (only in file 2)' : !page.imageB ? ' (only in file 1)' : '';
+    line(`Page ${page.pageNumber}: ${page.regions.length} region(s), ${share.toFixed(2)}% of pixels changed${note}`, 10, page.regions.length > 0 ? rgb(0.8, 0.2, 0.2) : rgb(0.3, 0.3, 0.3), 60);
+  }
+
+  for (const page of changed) {
+    // Pages removed in file 2 are shown from file 1
+    const [source, image] = page.imageB ? [source2, page.imageB] : [source1, page.imageA!];
+    const [copied] = await report.copyPages(source, [page.pageNumber - 1]);
+    report.addPage(copied);
+    page.regions.forEach((region, index) => {
+      const rect = regionToPdfRect(region, image);
+      if (!rect) return;
+      addSquareAnnotation(report, copied, rect, {
+        color: [0.86, 0.15, 0.15],
+        contents: `Change ${index + 1} of ${page.regions.length} on page ${page.pageNumber}`,
+        title: 'PDF Compare',
+      });
+    });
+  }
+  return report.save();
+}
+
 
 const PDFCompare: React.FC = () => {
   const [files, setFiles] = useState<File[]>([]);
@@ -9,13 +177,21 @@ const PDFCompare: React.FC = () => {
   const [isProcessing, setIsProcessing] = useState(false);
   const [processedFiles, setProcessedFiles] = useState<{ name: string, blob: Blob }[]>([]);
   const [settings, setSettings] = useState({
-    compareMode: 'visual',
+    compareMode: 'textual',
     highlightDifferences: true,
     ignoreWhitespace: true,
     ignoreCase: false,
     generateReport: true,
     outputFormat: 'txt',
+    // Visual mode: render resolution and perceptual color tolerance (0-1)
+    visualDpi: 96,
+    visualThreshold: 0.1,
   });
+  const [visualPages, setVisualPages] = useState<VisualDiffPage[]>([]);
+  const [visualPageIndex, setVisualPageIndex] = useState(0);
+  const [visualView, setVisualView] = useState<'overlay' | 'side-by-side' | 'slider'>('overlay');
+  const [sliderPosition, setSliderPosition] = useState(50);
+  const [visualProgress, setVisualProgress] = useState<{ page: number, total: number } | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
   const [showSpinner, setShowSpinner] = useState(false);
@@ -24,6 +200,9 @@ const PDFCompare: React.FC = () => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const dropAreaRef = useRef<HTMLDivElement>(null);
 
+  // Page images of the previous comparison are released once replaced or unmounted
+  useEffect(() => () => revokeVisualPages(visualPages), [visualPages]);
+
   // File validation and deduplication
   const validateAndAddFiles = (incoming: File[]) => {
     const validFiles = incoming.filter(f => f.type === 'application/pdf');
@@ -75,6 +254,7 @@ const PDFCompare: React.FC = () => {
     setError(null);
     setSuccess(null);
     setProcessedFiles([]);
+    setVisualPages([]);
     if (files.length < 2) {
       setError('Please select at least 2 PDF files to compare.');
       return;
@@ -98,27 +278,19 @@ const PDFCompare: React.FC = () => {
       const pdf2Buffer = await files[idx2].arrayBuffer();
       const pdf1Doc = await pdfjsLib.getDocument({ data: pdf1Buffer }).promise;
       const pdf2Doc = await pdfjsLib.getDocument({ data: pdf2Buffer }).promise;
-      let pdf1Text = '';
-      let pdf2Text = '';
-      for (let pageNum = 1; pageNum <= pdf1Doc.numPages; pageNum++) {
-        const page = await pdf1Doc.getPage(pageNum);
-        const textContent = await page.getTextContent();
-        const pageText = textContent.items.map((item: any) => item.str).join(' ');
-        pdf1Text += `Page ${pageNum}:\n${pageText}\n\n`;
+      if (settings.compareMode === 'visual') {
+        await processVisually(pdf1Doc, pdf2Doc, files[idx1], files[idx2]);
+        return;
       }
-      for (let pageNum = 1; pageNum <= pdf2Doc.numPages; pageNum++) {
-        const page = await pdf2Doc.getPage(pageNum);
-        const textContent = await page.getTextContent();
-        const pageText = textContent.items.map((item: any) => item.str).join(' ');
-        pdf2Text += `Page ${pageNum}:\n${pageText}\n\n`;
+      const diff = diffTextStructures(await extractTextStructure(pdf1Doc), await extractTextStructure(pdf2Doc), { ignoreCase: settings.ignoreCase, ignoreWhitespace: settings.ignoreWhitespace });
+      const result = compareTexts(diff);
+      if (settings.highlightDifferences) {
+        processed.push(...await highlightSources(diff, files[idx1], files[idx2]));
       }
-      // Use compareMode
-      const result = compareTexts(pdf1Text, pdf2Text);
       // Only generate/download report if generateReport is checked
       if (!settings.generateReport) {
-        setIsProcessing(false);
-        setShowSpinner(false);
-        setSuccess('Comparison completed! See live preview for results.');
+        setProcessedFiles(processed);
+        setSuccess(processed.length > 0 ? 'Comparison completed! Download the PDFs with their changes highlighted.' : 'Comparison completed! See live preview for results.');
         return;
       }
       // Output format logic
@@ -136,6 +308,9 @@ const PDFCompare: React.FC = () => {
         const { PDFDocument, rgb, StandardFonts } = await import('pdf-lib');
         const pdfDoc = await PDFDocument.create();
         const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+        // Helvetica only covers WinAnsi; quoted document text may not
+        const charset = new Set(font.getCharacterSet());
+        const printable = (text: string) => [...text.replace(/→/g, '->')].map(ch => (charset.has(ch.codePointAt(0)!) ? ch : '?')).join('');
         const page = pdfDoc.addPage([595, 842]);
         let y = 800;
         page.drawText('PDF Comparison Report', { x: 50, y, size: 20, font, color: rgb(0.2,0.2,0.7) });
@@ -154,16 +329,36 @@ const PDFCompare: React.FC = () => {
         y -= 18;
         for (const diff of result.differences) {
           if (y < 40) break;
-          page.drawText(diff.replace(/\*\*(.*?)\*\*/g, (m, w) => w), { x: 60, y, size: 10, font, color: settings.highlightDifferences ? (diff.includes('PDF 1') ? rgb(0.8,0.2,0.2) : rgb(0.2,0.4,0.8)) : rgb(0,0,0) });
+          const color = diff.startsWith('Deleted') ? rgb(0.8,0.2,0.2) : diff.startsWith('Inserted') ? rgb(0.2,0.6,0.3) : rgb(0.2,0.4,0.8);
+          page.drawText(printable(diff.replace(/\*\*(.*?)\*\*/g, (m, w) => w)), { x: 60, y, size: 10, font, color: settings.highlightDifferences ? color : rgb(0,0,0) });
           y -= 14;
         }
-        if (result.structure) {
+        // Wrapped to the page width, stopping at the bottom margin like the differences
+        const structureLine = (text: string) => {
+          let line = '';
+          const flush = () => {
+            if (y >= 40) page.drawText(line, { x: 60, y, size: 10, font });
+            y -= 14;
+          };
+          for (const word of printable(text).split(' ')) {
+            const next = line ? `${line} ${word}` : word;
+            if (line && font.widthOfTextAtSize(next, 10) > 485) {
+              flush();
+              line = word;
+            } else {
+              line = next;
+            }
+          }
+          flush();
+        };
+        if (result.structure && y >= 76) {
           y -= 20;
           page.drawText('Structural Analysis:', { x: 50, y, size: 12, font, color: rgb(0.2,0.2,0.2) });
           y -= 16;
-          page.drawText(`PDF 1 pages: ${result.structure.pageCount1}`, { x: 60, y, size: 10, font });
-          y -= 14;
-          page.drawText(`PDF 2 pages: ${result.structure.pageCount2}`, { x: 60, y, size: 10, font });
+          structureLine(`PDF 1 pages: ${result.structure.pageCount1}`);
+          structureLine(`PDF 2 pages: ${result.structure.pageCount2}`);
+          structureLine(`Paragraphs: ${result.structure.paragraphs}`);
+          structureLine(`Page alignment: ${result.structure.pageAlignment}`);
         }
         const pdfBytes = await pdfDoc.save();
         blob = new Blob([pdfBytes], { type: 'application/pdf' });
@@ -179,41 +374,75 @@ const PDFCompare: React.FC = () => {
     } catch (error) {
       setError('Error comparing PDFs. Please try again.');
       console.error('Error comparing PDFs:', error);
+    } finally {
+      setIsProcessing(false);
+      setShowSpinner(false);
+      setVisualProgress(null);
     }
-    setIsProcessing(false);
-    setShowSpinner(false);
   };
 
-  // Helper: compare texts
-  const compareTexts = (text1: string, text2: string) => {
-    let t1 = settings.ignoreWhitespace ? text1.replace(/\s+/g, ' ') : text1;
-    let t2 = settings.ignoreWhitespace ? text2.replace(/\s+/g, ' ') : text2;
-    if (settings.ignoreCase) {
-      t1 = t1.toLowerCase();
-      t2 = t2.toLowerCase();
+  // Visual mode: render both documents, diff the pixels and report changed regions
+  const processVisually = async (pdf1Doc: PDFDocumentProxy, pdf2Doc: PDFDocumentProxy, file1: File, file2: File) => {
+    const pages = await compareVisually(pdf1Doc, pdf2Doc, settings.visualDpi, settings.visualThreshold, (page, total) => setVisualProgress({ page, total }));
+    setVisualPages(pages);
+    setVisualPageIndex(Math.max(0, pages.findIndex(page => page.regions.length > 0)));
+    const changedPages = pages.filter(page => page.regions.length > 0);
+    if (!settings.generateReport) {
+      setSuccess(`Visual comparison completed! ${changedPages.length} of ${pages.length} page(s) changed.`);
+      return;
+    }
+    const totalPixels = pages.reduce((sum, page) => sum + page.width * page.height, 0);
+    const result = {
+      similarity: totalPixels === 0 ? 1 : 1 - pages.reduce((sum, page) => sum + page.changedPixels, 0) / totalPixels,
+      differences: changedPages.map(page => `Page ${page.pageNumber}: ${page.regions.length} changed region(s), ${((page.changedPixels / (page.width * page.height)) * 100).toFixed(2)}% of pixels`),
+      structure: null,
+    };
+    let outName = `comparison_report_${file1.name.replace(/\.pdf$/i, '')}_vs_${file2.name.replace(/\.pdf$/i, '')}`;
+    let blob: Blob;
+    if (settings.outputFormat === 'pdf') {
+      blob = new Blob([await buildVisualReport(file1, file2, pages, settings.visualDpi)], { type: 'application/pdf' });
+      outName += '.pdf';
+    } else if (settings.outputFormat === 'html') {
+      blob = new Blob([generateHTMLReport(file1.name, file2.name, pdf1Doc.numPages, pdf2Doc.numPages, result)], { type: 'text/html' });
+      outName += '.html';
+    } else {
+      blob = new Blob([generateTextReport(file1.name, file2.name, pdf1Doc.numPages, pdf2Doc.numPages, result)], { type: 'text/plain' });
+      outName += '.txt';
     }
-    const words1 = t1.split(/\s+/);
-    const words2 = t2.split(/\s+/);
-    const set1 = new Set(words1);
-    const set2 = new Set(words2);
-    const intersection = new Set([...set1].filter(x => set2.has(x)));
-    const union = new Set([...set1, ...set2]);
-    const similarity = union.size === 0 ? 1 : intersection.size / union.size;
-    const differences = [];
-    const onlyIn1 = [...set1].filter(x => !set2.has(x));
-    const onlyIn2 = [...set2].filter(x => !set1.has(x));
-    if (onlyIn1.length > 0) differences.push(`Words only in PDF 1: ${onlyIn1.slice(0, 10).map(w => settings.highlightDifferences ? highlightWord(w, '1') : w).join(', ')}${onlyIn1.length > 10 ? '...' : ''}`);
-    if (onlyIn2.length > 0) differences.push(`Words only in PDF 2: ${onlyIn2.slice(0, 10).map(w => settings.highlightDifferences ? highlightWord(w, '2') : w).join(', ')}${onlyIn2.length > 10 ? '...' : ''}`);
+    setProcessedFiles([{ name: outName, blob }]);
+    setSuccess(`Visual comparison completed! ${changedPages.length} of ${pages.length} page(s) changed.`);
+  };
+
+  // Helper: summarize a structured text diff for the reports
+  const compareTexts = (diff: StructuredTextDiff) => {
+    const quote = (text: string, side: 'a' | 'b') => settings.highlightDifferences ? highlightWord(text, side === 'a' ? '1' : '2') : `"${text}"`;
+    const differences = diff.changes.map(change => describeTextChange(diff, change, quote));
     // Structural comparison
     let structure = null;
     if (settings.compareMode === 'structural' || settings.compareMode === 'comprehensive') {
+      const count = (kind: string) => diff.paragraphs.filter(paragraph => paragraph.kind === kind).length;
       structure = {
-        pageCount1: (text1.match(/Page \d+:/g) || []).length,
-        pageCount2: (text2.match(/Page \d+:/g) || []).length,
-        // Add more structure checks as needed
+        pageCount1: diff.a.pageCount,
+        pageCount2: diff.b.pageCount,
+        // Only pages whose text went to a different page, or nowhere
+        pageAlignment: diff.pageMap.filter(({ page, matches }) => matches !== page).map(({ page, matches }) => `${page} → ${matches ?? 'none'}`).join(', ') || 'every page matches the same page',
+        paragraphs: `${diff.a.paragraphs.length} vs ${diff.b.paragraphs.length} (${count('inserted')} inserted, ${count('deleted')} deleted, ${count('moved')} moved, ${count('modified')} modified)`,
       };
     }
-    return { similarity, differences, structure };
+    return { similarity: diff.similarity, differences, structure };
+  };
+
+  // Copies of both PDFs with the changed text highlighted where it sits
+  const highlightSources = async (diff: StructuredTextDiff, file1: File, file2: File) => {
+    const { PDFDocument } = await import('pdf-lib');
+    const outputs: { name: string, blob: Blob }[] = [];
+    for (const [file, side] of [[file1, 'a'], [file2, 'b']] as const) {
+      const pdfDoc = await PDFDocument.load(await file.arrayBuffer(), { ignoreEncryption: true });
+      highlightTextChanges(pdfDoc, diff, side);
+      const suffix = file1.name === file2.name ? `_changes_${side === 'a' ? 1 : 2}` : '_changes';
+      outputs.push({ name: `${file.name.replace(/\.pdf$/i, '')}${suffix}.pdf`, blob: new Blob([await pdfDoc.save()], { type: 'application/pdf' }) });
+    }
+    return outputs;
   };
 
   // Helper to highlight words
@@ -228,6 +457,7 @@ const PDFCompare: React.FC = () => {
     let report = `PDF COMPARISON REPORT\nGenerated: ${new Date().toLocaleString()}\n\nFile 1: ${file1}\nFile 2: ${file2}\n\nCOMPARISON RESULTS:\nSimilarity: ${Math.round(result.similarity * 100)}%\nDifferences: ${result.differences.length}\n`;
     if (result.structure) {
       report += `\nSTRUCTURAL ANALYSIS:\n- PDF 1 pages: ${result.structure.pageCount1}\n- PDF 2 pages: ${result.structure.pageCount2}\n`;
+      if (result.structure.paragraphs) report += `- Paragraphs: ${result.structure.paragraphs}\n- Page alignment: ${result.structure.pageAlignment}\n`;
     }
     report += `\nDETAILED ANALYSIS:\n- PDF 1 has ${pages1} pages\n- PDF 2 has ${pages2} pages\n\nDIFFERENCES:\n${result.differences.map((diff: string, i: number) => `${i + 1}. ${diff}`).join('\n')}`;
     return report;
@@ -236,7 +466,9 @@ const PDFCompare: React.FC = () => {
   const generateHTMLReport = (file1: string, file2: string, pages1: number, pages2: number, result: any) => {
     let report = `<!DOCTYPE html><html><head><meta charset='utf-8'><title>PDF Comparison Report</title></head><body><h1>PDF Comparison Report</h1><p><b>Generated:</b> ${new Date().toLocaleString()}</p><p><b>File 1:</b> ${file1}<br/><b>File 2:</b> ${file2}</p><h2>Comparison Results</h2><p><b>Similarity:</b> ${Math.round(result.similarity * 100)}%<br/><b>Differences:</b> ${result.differences.length}</p>`;
     if (result.structure) {
-      report += `<h2>Structural Analysis</h2><ul><li>PDF 1 pages: ${result.structure.pageCount1}</li><li>PDF 2 pages: ${result.structure.pageCount2}</li></ul>`;
+      report += `<h2>Structural Analysis</h2><ul><li>PDF 1 pages: ${result.structure.pageCount1}</li><li>PDF 2 pages: ${result.structure.pageCount2}</li>`;
+      if (result.structure.paragraphs) report += `<li>Paragraphs: ${result.structure.paragraphs}</li><li>Page alignment: ${result.structure.pageAlignment}</li>`;
+      report += '</ul>';
     }
     report += `<h2>Detailed Analysis</h2><ul><li>PDF 1 has ${pages1} pages</li><li>PDF 2 has ${pages2} pages</li></ul><h2>Differences</h2><ol>${result.differences.map((diff: string) => `<li>${diff}</li>`).join('')}</ol></body></html>`;
     return report;
@@ -288,39 +520,9 @@ const PDFCompare: React.FC = () => {
         const pdf2Buffer = await files[selectedPair[1]].arrayBuffer();
         const pdf1Doc = await pdfjsLib.getDocument({ data: pdf1Buffer }).promise;
         const pdf2Doc = await pdfjsLib.getDocument({ data: pdf2Buffer }).promise;
-        let pdf1Text = '';
-        let pdf2Text = '';
-        for (let pageNum = 1; pageNum <= Math.min(pdf1Doc.numPages, 2); pageNum++) {
-          const page = await pdf1Doc.getPage(pageNum);
-          const textContent = await page.getTextContent();
-          const pageText = textContent.items.map((item: any) => item.str).join(' ');
-          pdf1Text += `Page ${pageNum}:\n${pageText}\n\n`;
-        }
-        for (let pageNum = 1; pageNum <= Math.min(pdf2Doc.numPages, 2); pageNum++) {
-          const page = await pdf2Doc.getPage(pageNum);
-          const textContent = await page.getTextContent();
-          const pageText = textContent.items.map((item: any) => item.str).join(' ');
-          pdf2Text += `Page ${pageNum}:\n${pageText}\n\n`;
-        }
-        let t1 = settings.ignoreWhitespace ? pdf1Text.replace(/\s+/g, ' ') : pdf1Text;
-        let t2 = settings.ignoreWhitespace ? pdf2Text.replace(/\s+/g, ' ') : pdf2Text;
-        if (settings.ignoreCase) {
-          t1 = t1.toLowerCase();
-          t2 = t2.toLowerCase();
-        }
-        const words1 = t1.split(/\s+/);
-        const words2 = t2.split(/\s+/);
-        const set1 = new Set(words1);
-        const set2 = new Set(words2);
-        const intersection = new Set([...set1].filter(x => set2.has(x)));
-        const union = new Set([...set1, ...set2]);
-        const similarity = union.size === 0 ? 1 : intersection.size / union.size;
-        const differences = [];
-        const onlyIn1 = [...set1].filter(x => !set2.has(x));
-        const onlyIn2 = [...set2].filter(x => !set1.has(x));
-        if (onlyIn1.length > 0) differences.push(`Words only in PDF 1: ${onlyIn1.slice(0, 10).join(', ')}${onlyIn1.length > 10 ? '...' : ''}`);
-        if (onlyIn2.length > 0) differences.push(`Words only in PDF 2: ${onlyIn2.slice(0, 10).join(', ')}${onlyIn2.length > 10 ? '...' : ''}`);
-        setPreview({ similarity, differences });
+        // First two pages keep the preview quick
+        const diff = diffTextStructures(await extractTextStructure(pdf1Doc, 2), await extractTextStructure(pdf2Doc, 2), { ignoreCase: settings.ignoreCase, ignoreWhitespace: settings.ignoreWhitespace });
+        setPreview({ similarity: diff.similarity, differences: diff.changes.map(change => describeTextChange(diff, change)) });
       } catch (err) {
         setPreview(null);
       }
@@ -401,7 +603,9 @@ const PDFCompare: React.FC = () => {
               {showSpinner && (
                 <div className="fixed inset-0 bg-black bg-opacity-30 flex items-center justify-center z-50" role="status" aria-live="polite">
                   <div className="flex flex-col items-center">
-                    <span className="text-white text-lg font-semibold">Comparing PDFs...</span>
+                    <span className="text-white text-lg font-semibold">
+                      {visualProgress ? `Rendering and comparing page ${visualProgress.page} of ${visualProgress.total}...` : 'Comparing PDFs...'}
+                    </span>
                   </div>
                 </div>
               )}
@@ -489,10 +693,90 @@ const PDFCompare: React.FC = () => {
                     <div className="text-gray-500">Select two files to preview differences before comparing.</div>
                   )}
                 </div>
-                {/* Placeholder for visual preview */}
-                <div className="bg-gray-50 rounded-xl p-4 text-center text-gray-500 mt-4">
-                  <p>No visual preview available for PDF comparison.<br/>Comparison will analyze differences and generate a detailed report.</p>
-                </div>
+                {/* Visual diff viewer */}
+                {visualPages.length > 0 ? (() => {
+                  const page = visualPages[Math.min(visualPageIndex, visualPages.length - 1)];
+                  const percent = (value: number, total: number) => `${(value / total) * 100}%`;
+                  const boxes = page.regions.map((region, i) => (
+                    <div
+                      key={i}
+                      className="absolute border-2 border-red-600 pointer-events-none"
+                      style={{ left: percent(region.x0, page.width), top: percent(region.y0, page.height), width: percent(region.x1 - region.x0, page.width), height: percent(region.y1 - region.y0, page.height) }}
+                    />
+                  ));
+                  // Renders smaller than the diff area keep their size relative to it
+                  const pageImage = (image: VisualDiffPage['imageA'], alt: string, style: React.CSSProperties = {}) => image ? (
+                    <img src={image.url} alt={alt} className="block" style={{ width: percent(image.width, page.width), ...style }} />
+                  ) : (
+                    <div className="flex items-center justify-center bg-gray-100 text-gray-500 text-sm" style={{ aspectRatio: `${page.width} / ${page.height}` }}>{alt} does not have this page</div>
+                  );
+                  return (
+                    <div className="bg-gray-50 rounded-xl p-4 mt-4">
+                      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                        <div className="flex rounded-lg overflow-hidden border border-gray-300">
+                          {(['overlay', 'side-by-side', 'slider'] as const).map(view => (
+                            <button
+                              key={view}
+                              type="button"
+                              onClick={() => setVisualView(view)}
+                              className={`px-3 py-1.5 text-sm font-medium capitalize ${visualView === view ? 'bg-violet-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'}`}
+                            >{view.replace(/-/g, ' ')}</button>
+                          ))}
+                        </div>
+                        <div className="flex items-center gap-2 text-sm text-gray-700">
+                          <button type="button" disabled={visualPageIndex === 0} onClick={() => setVisualPageIndex(i => i - 1)} className="px-2 py-1 rounded border border-gray-300 bg-white disabled:opacity-50" aria-label="Previous page">‹</button>
+                          <span>Page {page.pageNumber} of {visualPages.length} · {page.regions.length} changed region(s)</span>
+                          <button type="button" disabled={visualPageIndex >= visualPages.length - 1} onClick={() => setVisualPageIndex(i => i + 1)} className="px-2 py-1 rounded border border-gray-300 bg-white disabled:opacity-50" aria-label="Next page">›</button>
+                        </div>
+                      </div>
+                      {visualView === 'overlay' && (
+                        <div className="relative mx-auto max-w-2xl border shadow bg-white">
+                          <img src={page.overlay} alt={`Differences on page ${page.pageNumber}`} className="block w-full" />
+                          {boxes}
+                        </div>
+                      )}
+                      {visualView === 'side-by-side' && (
+                        <div className="grid grid-cols-2 gap-4">
+                          {([['File 1', page.imageA], ['File 2', page.imageB]] as const).map(([label, image]) => (
+                            <div key={label}>
+                              <div className="text-sm font-medium text-gray-700 mb-1">{label}</div>
+                              <div className="relative border shadow bg-white">
+                                {pageImage(image, label)}
+                                {boxes}
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                      {visualView === 'slider' && (
+                        <div className="mx-auto max-w-2xl">
+                          <div className="relative border shadow bg-white select-none">
+                            {pageImage(page.imageB, 'File 2')}
+                            <div className="absolute inset-0 bg-white" style={{ clipPath: `inset(0 ${100 - sliderPosition}% 0 0)` }}>
+                              {pageImage(page.imageA, 'File 1')}
+                            </div>
+                            <div className="absolute top-0 bottom-0 w-0.5 bg-violet-600 pointer-events-none" style={{ left: `${sliderPosition}%` }} />
+                            {boxes}
+                          </div>
+                          <input
+                            type="range"
+                            min={0}
+                            max={100}
+                            value={sliderPosition}
+                            onChange={e => setSliderPosition(Number(e.target.value))}
+                            className="w-full mt-2 accent-violet-600"
+                            aria-label="Reveal file 1 over file 2"
+                          />
+                          <div className="flex justify-between text-xs text-gray-500"><span>File 2</span><span>File 1</span></div>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })() : (
+                  <div className="bg-gray-50 rounded-xl p-4 text-center text-gray-500 mt-4">
+                    <p>Run a visual comparison to see both documents rendered with their differences boxed.</p>
+                  </div>
+                )}
               </div>
 
               {/* Comparison Settings */}
@@ -515,6 +799,34 @@ const PDFCompare: React.FC = () => {
                       <option value="comprehensive">Comprehensive</option>
                     </select>
                   </div>
+                  {settings.compareMode === 'visual' && (
+                    <>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">Render Resolution</label>
+                        <select
+                          value={settings.visualDpi}
+                          onChange={e => setSettings(prev => ({ ...prev, visualDpi: Number(e.target.value) }))}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-violet-500 focus:border-transparent"
+                        >
+                          <option value={72}>72 DPI (fast)</option>
+                          <option value={96}>96 DPI</option>
+                          <option value={150}>150 DPI</option>
+                          <option value={200}>200 DPI (fine detail)</option>
+                        </select>
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">Color Tolerance: {Math.round(settings.visualThreshold * 100)}%</label>
+                        <input
+                          type="range"
+                          min={0}
+                          max={50}
+                          value={Math.round(settings.visualThreshold * 100)}
+                          onChange={e => setSettings(prev => ({ ...prev, visualThreshold: Number(e.target.value) / 100 }))}
+                          className="w-full accent-violet-600"
+                        />
+                      </div>
+                    </>
+                  )}
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">Output Format</label>
                     <select
@@ -1,16 +1,27 @@
 import React, { useState, useRef, useCallback } from 'react';
 import { Upload, Download, FileText, Users, Zap, Shield, CheckCircle, Sparkles, ArrowRight, Settings, RotateCcw, Minimize2, FileType } from 'lucide-react';
-import { PDFDocument } from 'pdf-lib';
 import SEO from './SEO';
 import JSZip from 'jszip';
+import { COMPRESSION_PRESETS, PDFCompressionOptions, PDFCompressionResult, compressPDF, compressPDFToTarget } from '../utils/pdfCompression';
+
+interface CompressedPDF {
+  name: string;
+  blob: Blob;
+  originalName: string;
+  result: PDFCompressionResult;
+}
+
+const formatSize = (bytes: number) => bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(2)} MB` : `${(bytes / 1024).toFixed(1)} KB`;
 
 const PDFCompressor: React.FC = () => {
   const [files, setFiles] = useState<File[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [processedFiles, setProcessedFiles] = useState<{ name: string, blob: Blob }[]>([]);
+  const [processedFiles, setProcessedFiles] = useState<CompressedPDF[]>([]);
   const [settings, setSettings] = useState({
     compressionLevel: 'medium',
     targetSize: '',
+    imageDpi: 150,
+    imageQuality: 70,
     compressImages: true,
     compressText: true,
     maintainQuality: true,
@@ -63,85 +74,69 @@ const PDFCompressor: React.FC = () => {
   const processFiles = async () => {
     if (files.length === 0) return;
     setIsProcessing(true);
-    
+    setError(null);
+    setSuccess(null);
+
+    const preset = COMPRESSION_PRESETS[settings.compressionLevel];
+    const options: PDFCompressionOptions = {
+      compressImages: settings.compressImages,
+      imageDpi: preset ? preset.imageDpi : settings.imageDpi,
+      imageQuality: preset ? preset.imageQuality : settings.imageQuality / 100,
+      compressStreams: settings.compressText,
+      deduplicateStreams: true,
+      removeUnusedObjects: true,
+      removeMetadata: settings.removeMetadata,
+      useObjectStreams: settings.compressionLevel !== 'light'
+    };
+    const targetMB = parseFloat(settings.targetSize);
+    // Maintain Quality keeps the target-size search away from heavily blocky JPEGs
+    const minQuality = settings.maintainQuality ? 0.4 : 0.1;
+
     try {
-      const processed: { name: string, blob: Blob }[] = [];
-      
+      const processed: CompressedPDF[] = [];
+      const failed: string[] = [];
+
       for (const file of files) {
         try {
-          // Load the PDF file
           const fileBuffer = await file.arrayBuffer();
-          const pdf = await PDFDocument.load(fileBuffer);
-          
-          // Determine compression options based on settings
-          const saveOptions: any = {};
-          
-          if (settings.compressionLevel === 'light') {
-            saveOptions.useObjectStreams = false;
-            saveOptions.addDefaultPage = false;
-          } else if (settings.compressionLevel === 'medium') {
-            saveOptions.useObjectStreams = true;
-            saveOptions.addDefaultPage = false;
-          } else if (settings.compressionLevel === 'heavy') {
-            saveOptions.useObjectStreams = true;
-            saveOptions.addDefaultPage = false;
-            // Additional compression options for heavy compression
-          }
-          
-          // Remove metadata if requested
-          if (settings.removeMetadata) {
-            pdf.setTitle('');
-            pdf.setAuthor('');
-            pdf.setSubject('');
-            pdf.setKeywords([]);
-            pdf.setCreator('');
-            pdf.setProducer('');
-            pdf.setCreationDate(new Date());
-            pdf.setModificationDate(new Date());
-          }
-          
-          // Save with compression options
-          const compressedPdfBytes = await pdf.save(saveOptions);
-          
-          // Create blob and check if target size is met
-          const blob = new Blob([compressedPdfBytes], { type: 'application/pdf' });
-          
-          // If target size is specified, try to compress further
-          if (settings.targetSize && !isNaN(parseFloat(settings.targetSize))) {
-            const targetSizeBytes = parseFloat(settings.targetSize) * 1024 * 1024; // Convert MB to bytes
-            const currentSize = blob.size;
-            
-            if (currentSize > targetSizeBytes) {
-              // Try additional compression by reducing image quality
-              // This is a simplified approach - in a real implementation, you'd need more sophisticated compression
-            }
+          let result = !isNaN(targetMB) && targetMB > 0
+            ? await compressPDFToTarget(fileBuffer, options, targetMB * 1024 * 1024, Math.min(minQuality, options.imageQuality))
+            : await compressPDF(fileBuffer, options);
+          // Never hand back a file that grew
+          if (result.compressedSize >= file.size) {
+            result = { ...result, bytes: new Uint8Array(fileBuffer), compressedSize: file.size, imagesRecompressed: 0, duplicatesRemoved: 0, unusedObjectsRemoved: 0 };
           }
-          
           processed.push({
             name: `compressed_${file.name}`,
-            blob: blob
+            blob: new Blob([result.bytes], { type: 'application/pdf' }),
+            originalName: file.name,
+            result
           });
-          
         } catch (error) {
           console.error(`Error processing ${file.name}:`, error);
-          alert(`Error processing ${file.name}. Skipping this file.`);
+          failed.push(file.name);
         }
       }
-      
+
       setProcessedFiles(processed);
       setIsProcessing(false);
-      
-      // Show compression results
-      const totalOriginalSize = files.reduce((sum, file) => sum + file.size, 0);
-      const totalCompressedSize = processed.reduce((sum, file) => sum + file.blob.size, 0);
-      const compressionRatio = ((totalOriginalSize - totalCompressedSize) / totalOriginalSize * 100).toFixed(1);
-      
-      alert(`PDF compression completed! Reduced size by ${compressionRatio}% (${(totalOriginalSize / 1024 / 1024).toFixed(2)}MB → ${(totalCompressedSize / 1024 / 1024).toFixed(2)}MB)`);
-      
+
+      const totalOriginalSize = processed.reduce((sum, file) => sum + file.result.originalSize, 0);
+      const totalCompressedSize = processed.reduce((sum, file) => sum + file.result.compressedSize, 0);
+      if (processed.length > 0) {
+        const compressionRatio = ((totalOriginalSize - totalCompressedSize) / totalOriginalSize * 100).toFixed(1);
+        setSuccess(`PDF compression completed! Reduced size by ${compressionRatio}% (${formatSize(totalOriginalSize)} → ${formatSize(totalCompressedSize)})`);
+      }
+      const missedTarget = processed.filter(file => file.result.targetMet === false);
+      if (failed.length > 0) {
+        setError(`Error processing ${failed.join(', ')}. These files were skipped.`);
+      } else if (missedTarget.length > 0) {
+        setError(`Could not reach ${settings.targetSize} MB for ${missedTarget.map(file => file.originalName).join(', ')}. The smallest result is used instead.`);
+      }
     } catch (error) {
       console.error('Error compressing PDFs:', error);
       setIsProcessing(false);
-      alert('Error compressing PDFs. Please try again.');
+      setError('Error compressing PDFs. Please try again.');
     }
   };
 
@@ -220,6 +215,8 @@ const PDFCompressor: React.FC = () => {
     setSettings({
       compressionLevel: 'medium',
       targetSize: '',
+      imageDpi: 150,
+      imageQuality: 70,
       compressImages: true,
       compressText: true,
       maintainQuality: true,
@@ -364,6 +361,34 @@ const PDFCompressor: React.FC = () => {
                       placeholder="e.g., 5, 10, 25"
                     />
                   </div>
+                  {settings.compressionLevel === 'custom' && (
+                    <>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">Image Resolution: {settings.imageDpi} DPI</label>
+                        <input
+                          type="range"
+                          min={50}
+                          max={300}
+                          step={10}
+                          value={settings.imageDpi}
+                          onChange={e => setSettings(prev => ({ ...prev, imageDpi: parseInt(e.target.value) }))}
+                          className="w-full"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">JPEG Quality: {settings.imageQuality}%</label>
+                        <input
+                          type="range"
+                          min={10}
+                          max={95}
+                          step={5}
+                          value={settings.imageQuality}
+                          onChange={e => setSettings(prev => ({ ...prev, imageQuality: parseInt(e.target.value) }))}
+                          className="w-full"
+                        />
+                      </div>
+                    </>
+                  )}
                   <div className="flex items-center space-x-2">
                     <input
                       type="checkbox"
@@ -461,6 +486,40 @@ const PDFCompressor: React.FC = () => {
                       <h3 className="text-lg font-semibold text-gray-900">Compression Complete!</h3>
                     </div>
                     <p className="text-gray-600 mb-4">Your PDF files have been successfully compressed.</p>
+                    <div className="overflow-x-auto mb-6">
+                      <table className="w-full text-sm text-left bg-white/70 rounded-lg">
+                        <thead className="text-gray-600 border-b">
+                          <tr>
+                            <th className="py-2 px-3">File</th>
+                            <th className="py-2 px-3">Before</th>
+                            <th className="py-2 px-3">After</th>
+                            <th className="py-2 px-3">Saved</th>
+                            <th className="py-2 px-3">Images</th>
+                            <th className="py-2 px-3">Duplicates</th>
+                            <th className="py-2 px-3">Unused Objects</th>
+                            <th className="py-2 px-3">JPEG Quality</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {processedFiles.map((file, index) => {
+                            const { result } = file;
+                            const saved = (1 - result.compressedSize / result.originalSize) * 100;
+                            return (
+                              <tr key={index} className="border-b last:border-0">
+                                <td className="py-2 px-3 font-medium text-gray-900">{file.originalName}</td>
+                                <td className="py-2 px-3">{formatSize(result.originalSize)}</td>
+                                <td className={`py-2 px-3 ${result.targetMet === false ? 'text-red-600' : ''}`}>{formatSize(result.compressedSize)}</td>
+                                <td className="py-2 px-3">{saved.toFixed(1)}%</td>
+                                <td className="py-2 px-3">{result.imagesRecompressed}</td>
+                                <td className="py-2 px-3">{result.duplicatesRemoved}</td>
+                                <td className="py-2 px-3">{result.unusedObjectsRemoved}</td>
+                                <td className="py-2 px-3">{result.imagesRecompressed > 0 ? `${Math.round(result.imageQuality * 100)}%` : '-'}</td>
+                              </tr>
+                            );
+                          })}
+                        </tbody>
+                      </table>
+                    </div>
                     <button
                       type="button"
                       onClick={downloadAll}
@@ -16,6 +16,7 @@ import JSZip from 'jszip';
 import * as pdfjsLib from 'pdfjs-dist';
 import pdfWorker from 'pdfjs-dist/build/pdf.worker.min.js?url';
 pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorker;
+import { buildImageManifest, extractPDFImages, ExtractedImage } from '../utils/pdfImageExtraction';
 
 const MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB
 const SUPPORTED_FORMATS = ['jpg', 'png', 'webp'];
@@ -23,8 +24,8 @@ const SUPPORTED_FORMATS = ['jpg', 'png', 'webp'];
 const PDFExtractImages: React.FC = () => {
   const [files, setFiles] = useState<File[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [extractedImages, setExtractedImages] = useState<{ file: string, images: { url: string, name: string }[] }[]>([]);
-  const [imageFormat, setImageFormat] = useState<'jpg' | 'png' | 'webp'>('jpg');
+  const [extractedImages, setExtractedImages] = useState<{ file: string, images: (ExtractedImage & { url: string })[] }[]>([]);
+  const [imageFormat, setImageFormat] = useState<'jpg' | 'png' | 'webp'>('png');
   const [quality, setQuality] = useState(90);
   const [banner, setBanner] = useState<{ message: string, type: 'success' | 'error' } | null>(null);
   const [showSpinner, setShowSpinner] = useState(false);
@@ -85,7 +86,7 @@ const PDFExtractImages: React.FC = () => {
     if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
-  // Real image extraction using pdfjs-dist (render each page to image)
+  // Pull the embedded image streams out of each page's operator list
   const processPDFs = useCallback(async () => {
     if (files.length === 0) {
       setBanner({ message: 'Please upload at least one PDF file.', type: 'error' });
@@ -97,42 +98,36 @@ const PDFExtractImages: React.FC = () => {
     setExtractedImages([]);
     setZipBlob(null);
     try {
-      const allExtracted: { file: string, images: { url: string, name: string }[] }[] = [];
+      const allExtracted: { file: string, images: (ExtractedImage & { url: string })[] }[] = [];
       const zip = new JSZip();
+      const manifest: Record<string, ReturnType<typeof buildImageManifest>> = {};
       for (const file of files) {
         const arrayBuffer = await file.arrayBuffer();
-        const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
-        const images: { url: string, name: string }[] = [];
-        for (let i = 1; i <= pdf.numPages; i++) {
-          const page = await pdf.getPage(i);
-          const viewport = page.getViewport({ scale: 2 }); // High-res
-          const canvas = document.createElement('canvas');
-          canvas.width = viewport.width;
-          canvas.height = viewport.height;
-          const ctx = canvas.getContext('2d');
-          if (!ctx) continue;
-          await page.render({ canvasContext: ctx, viewport }).promise;
-          // Export canvas as image
-          let url = '';
-          if (imageFormat === 'jpg') {
-            url = canvas.toDataURL('image/jpeg', quality / 100);
-          } else if (imageFormat === 'png') {
-            url = canvas.toDataURL('image/png');
-          } else if (imageFormat === 'webp') {
-            url = canvas.toDataURL('image/webp', quality / 100);
-          }
-          const imgNameOut = `${file.name.replace(/\.pdf$/i, '')}_page${i}.${imageFormat}`;
-          images.push({ url, name: imgNameOut });
-          // Add to zip
-          zip.file(imgNameOut, url.split(',')[1], { base64: true });
-        }
-        allExtracted.push({ file: file.name, images });
+        const pdf = await pdfjsLib.getDocument({ data: new Uint8Array(arrayBuffer.slice(0)) }).promise;
+        const images = await extractPDFImages(arrayBuffer, pdf, {
+          fallbackFormat: imageFormat,
+          quality: quality / 100,
+          prefix: file.name.replace(/\.pdf$/i, '')
+        });
+        await pdf.destroy();
+        for (const image of images) zip.file(image.name, image.bytes);
+        manifest[file.name] = buildImageManifest(images);
+        allExtracted.push({
+          file: file.name,
+          images: images.map(image => ({
+            ...image,
+            url: URL.createObjectURL(new Blob([image.bytes], { type: image.format === 'jpg' ? 'image/jpeg' : `image/${image.format}` }))
+          }))
+        });
       }
       setExtractedImages(allExtracted);
-      if (zip.files && Object.keys(zip.files).length > 0) {
+      const total = allExtracted.reduce((sum, batch) => sum + batch.images.length, 0);
+      if (total > 0) {
+        zip.file('manifest.json', JSON.stringify(manifest, null, 2));
         const zipBlob = await zip.generateAsync({ type: 'blob' });
         setZipBlob(zipBlob);
-        setBanner({ message: 'Page images extracted and ZIP ready for download!', type: 'success' });
+        const originals = allExtracted.reduce((sum, batch) => sum + batch.images.filter(image => image.native).length, 0);
+        setBanner({ message: `Extracted ${total} unique images (${originals} as original JPEG data). ZIP ready for download!`, type: 'success' });
       } else {
         setBanner({ message: 'No images found in the uploaded PDFs.', type: 'error' });
       }
@@ -356,17 +351,18 @@ const PDFExtractImages: React.FC = () => {
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
                     <div>
                       <label className="block text-sm font-medium text-gray-700 mb-2">
-                        Image Format
+                        Format for Non-JPEG Images
                       </label>
                       <select
                         value={imageFormat}
                         onChange={(e) => setImageFormat(e.target.value as 'jpg' | 'png' | 'webp')}
                         className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-violet-500 focus:border-transparent"
                       >
+                        <option value="png">PNG (Lossless)</option>
                         <option value="jpg">JPG (JPEG)</option>
-                        <option value="png">PNG</option>
                         <option value="webp">WebP</option>
                       </select>
+                      <p className="text-xs text-gray-500 mt-1">JPEG and JPEG 2000 images are always saved with their original bytes.</p>
                     </div>
                     
                     <div>
@@ -413,7 +409,7 @@ const PDFExtractImages: React.FC = () => {
                       {files.map(file => `${file.name} - ${Math.round(file.size / 1024)} KB`).join(', ')}
                     </p>
                     <p className="text-xs text-gray-500 mt-2">
-                      Ready to extract images in {imageFormat.toUpperCase()} format
+                      Ready to extract embedded images at their native resolution
                     </p>
                   </div>
                 </div>
@@ -456,28 +452,37 @@ const PDFExtractImages: React.FC = () => {
                 <h3 className="text-2xl font-bold text-gray-900 mb-6 text-center">
                   Extracted Images ({extractedImages.reduce((sum, batch) => sum + batch.images.length, 0)})
                 </h3>
-                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                <div className="space-y-8">
                   {extractedImages.map((batch, index) => (
-                    batch.images.length > 0 ? (
-                      <div key={index} className="bg-gray-50 rounded-xl p-4 text-center">
-                        <img 
-                          src={batch.images[0].url} 
-                          alt={`Extracted image from ${batch.file}`}
-                          className="w-full h-32 object-cover rounded-lg mb-3"
-                        />
-                        <p className="text-sm font-medium text-gray-700">
-                          {batch.file}
-                        </p>
-                        <p className="text-xs text-gray-500">
-                          {batch.images.length} image{batch.images.length > 1 ? 's' : ''} ({imageFormat.toUpperCase()})
-                        </p>
-                      </div>
-                    ) : (
-                      <div key={index} className="bg-gray-50 rounded-xl p-4 text-center">
-                        <p className="text-sm font-medium text-gray-700 mb-2">{batch.file}</p>
-                        <p className="text-xs text-gray-500">No images found in this file.</p>
-                      </div>
-                    )
+                    <div key={index}>
+                      <p className="text-sm font-semibold text-gray-800 mb-3">
+                        {batch.file} — {batch.images.length} image{batch.images.length === 1 ? '' : 's'}
+                      </p>
+                      {batch.images.length > 0 ? (
+                        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+                          {batch.images.map(image => (
+                            <div key={image.name} className="bg-gray-50 rounded-xl p-3 text-center">
+                              <img
+                                src={image.url}
+                                alt={`Page ${image.page} image ${image.index} from ${batch.file}`}
+                                className="w-full h-32 object-contain rounded-lg mb-2 bg-white"
+                              />
+                              <p className="text-xs font-medium text-gray-700">
+                                Page {image.page} · {image.width}×{image.height}
+                              </p>
+                              <p className="text-xs text-gray-500">
+                                {image.format.toUpperCase()} {image.native ? '(original)' : '(decoded)'} · {image.colorSpace}
+                                {image.duplicates.length > 0 && ` · used ${image.duplicates.length + 1}×`}
+                              </p>
+                            </div>
+                          ))}
+                        </div>
+                      ) : (
+                        <div className="bg-gray-50 rounded-xl p-4 text-center">
+                          <p className="text-xs text-gray-500">No images found in this file.</p>
+                        </div>
+                      )}
+                    </div>
                   ))}
                 </div>
               </div>
@@ -1,7 +1,7 @@
 import React, { useState, useRef, useCallback } from 'react';
 import { Upload, Download, FileText, Users, Zap, Shield, CheckCircle, Sparkles, ArrowRight, Settings, RotateCcw, Merge, FileType } from 'lucide-react';
-import { PDFDocument } from 'pdf-lib';
 import SEO from './SEO';
+import { MergeResult, PDFMergeError, mergePdfDocuments } from '../utils/pdfMerge';
 
 interface UploadedPDF {
   id: string;
@@ -125,9 +125,6 @@ const PDFMerger: React.FC = () => {
     setError(null);
     
     try {
-      // Create a new PDF document
-      const mergedPdf = await PDFDocument.create();
-      
       // Sort files based on merge order
       const sortedFiles = [...files];
       if (settings.mergeOrder === 'name') {
@@ -136,36 +133,25 @@ const PDFMerger: React.FC = () => {
         sortedFiles.sort((a, b) => a.size - b.size);
       }
       // For 'upload' and 'custom' order, keep the current order
-      
-      let totalPages = 0;
-      let processedCount = 0;
-      
-      // Process each PDF file
-      for (const uploadedFile of sortedFiles) {
-        try {
-          // Read the PDF file
-          const fileBuffer = await uploadedFile.file.arrayBuffer();
-          const pdf = await PDFDocument.load(fileBuffer);
-          
-          // Get all pages from the PDF
-          const pages = await mergedPdf.copyPages(pdf, pdf.getPageIndices());
-          
-          // Add pages to the merged PDF
-          pages.forEach((page) => {
-            mergedPdf.addPage(page);
-            totalPages++;
-          });
-          
-          processedCount++;
-          
-        } catch (error) {
-          console.error(`Error processing ${uploadedFile.name}:`, error);
-          setError(`Error processing ${uploadedFile.name}. Please ensure it's a valid PDF file.`);
-          setIsProcessing(false);
-          return;
-        }
+
+      let merged: MergeResult;
+      try {
+        const sources = await Promise.all(sortedFiles.map(async uploadedFile => ({
+          name: uploadedFile.name,
+          bytes: await uploadedFile.file.arrayBuffer()
+        })));
+        merged = await mergePdfDocuments(sources, { bookmarkPerFile: settings.addBookmarks });
+      } catch (error) {
+        if (!(error instanceof PDFMergeError)) throw error;
+        console.error(`Error processing ${error.fileName}:`, error);
+        setError(`Error processing ${error.fileName}. Please ensure it's a valid PDF file.`);
+        setIsProcessing(false);
+        return;
       }
-      
+      const mergedPdf = merged.pdfDoc;
+      const totalPages = mergedPdf.getPageCount();
+      const processedCount = sortedFiles.length;
+
       // Add page numbers if enabled
       if (settings.addPageNumbers) {
         try {
@@ -195,7 +181,10 @@ const PDFMerger: React.FC = () => {
       
       setProcessedFiles(processed);
       setIsProcessing(false);
-      setSuccess(`Successfully merged ${processedCount} PDF files into ${totalPages} pages!`);
+      const renamed = merged.renamedFields.length > 0
+        ? ` Renamed ${merged.renamedFields.length} form field(s) that clashed: ${merged.renamedFields.map(field => `${field.from} → ${field.to}`).join(', ')}.`
+        : '';
+      setSuccess(`Successfully merged ${processedCount} PDF files into ${totalPages} pages!${renamed}`);
       
     } catch (error) {
       console.error('Error merging PDFs:', error);
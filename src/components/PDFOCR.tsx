@@ -3,24 +3,98 @@ import { Upload, Download, FileText, Users, Zap, Shield, CheckCircle, Sparkles,
 import SEO from './SEO';
 import * as pdfjsLib from 'pdfjs-dist';
 import pdfWorker from 'pdfjs-dist/build/pdf.worker.min.js?url';
+import { PDFDocument } from 'pdf-lib';
+import JSZip from 'jszip';
+import { OCRBox, OCRPage, addInvisibleTextLayer, ocrPageFromTesseract } from '../utils/ocrTextLayer';
+import { ocrPageText, toALTO, toHOCR, wordsToCSV, wordsToJSON } from '../utils/ocrExport';
 pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorker;
 
+interface OCRResultPage {
+  pageNumber: number;
+  // Viewport the page was rendered and recognized at
+  viewport: pdfjsLib.PageViewport;
+  // False when rendering or recognition failed; ocr is then empty
+  recognized: boolean;
+  ocr: OCRPage;
+}
+
+interface OCRFileResult {
+  file: File;
+  pages: OCRResultPage[];
+}
+
+// A word below the confidence threshold, offered for manual correction
+interface ReviewWord {
+  key: string;
+  fileName: string;
+  pageNumber: number;
+  text: string;
+  confidence: number;
+  crop: string;
+}
+
+const reviewKey = (fileIndex: number, pageIndex: number, lineIndex: number, wordIndex: number) =>
+  `${fileIndex}:${pageIndex}:${lineIndex}:${wordIndex}`;
+
+// Word image with the full line height and a little context on either side
+function cropWord(canvas: HTMLCanvasElement, line: OCRBox, word: OCRBox): string {
+  const pad = Math.round((line.y1 - line.y0) * 0.5);
+  const x = Math.max(0, word.x0 - pad);
+  const y = Math.max(0, Math.min(line.y0, word.y0) - 4);
+  const width = Math.min(canvas.width, word.x1 + pad) - x;
+  const height = Math.min(canvas.height, Math.max(line.y1, word.y1) + 4) - y;
+  const crop = document.createElement('canvas');
+  const scale = Math.min(1, 48 / Math.max(1, height));
+  crop.width = Math.max(1, Math.round(width * scale));
+  crop.height = Math.max(1, Math.round(height * scale));
+  crop.getContext('2d')?.drawImage(canvas, x, y, width, height, 0, 0, crop.width, crop.height);
+  return crop.toDataURL('image/png');
+}
+
+function drawPreviewBanner(ctx: CanvasRenderingContext2D, message: string, color: string) {
+  ctx.save();
+  ctx.globalAlpha = 0.7;
+  ctx.fillStyle = '#fff';
+  ctx.fillRect(0, 0, ctx.canvas.width, 40);
+  ctx.restore();
+  ctx.save();
+  ctx.font = '18px Helvetica, Arial, sans-serif';
+  ctx.fillStyle = color;
+  ctx.textBaseline = 'top';
+  ctx.textAlign = 'left';
+  ctx.fillText(message, 10, 10);
+  ctx.restore();
+}
+
+const defaultSettings = {
+  language: 'eng',
+  outputFormat: 'searchable',
+  confidence: 'high',
+  preserveLayout: true,
+  addTextLayer: true,
+  // Words below this confidence (0-100) are highlighted and listed for review
+  lowConfidence: 60,
+  exportHOCR: false,
+  exportALTO: false,
+  exportWordsCSV: false,
+  exportWordsJSON: false
+};
+
 const PDFOCR: React.FC = () => {
   const [files, setFiles] = useState<File[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
   const [processedFiles, setProcessedFiles] = useState<{ name: string, blob: Blob }[]>([]);
-  const [settings, setSettings] = useState({
-    language: 'eng',
-    outputFormat: 'searchable',
-    confidence: 'high',
-    preserveLayout: true,
-    addTextLayer: true
-  });
+  const [settings, setSettings] = useState(defaultSettings);
+  const [ocrResults, setOcrResults] = useState<OCRFileResult[]>([]);
+  const [reviewWords, setReviewWords] = useState<ReviewWord[]>([]);
+  const [corrections, setCorrections] = useState<Record<string, string>>({});
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
   const [showSpinner, setShowSpinner] = useState(false);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  // First page of the first file as rendered for the preview, with its OCR
+  const [previewPage, setPreviewPage] = useState<{ canvas: HTMLCanvasElement, ocr: OCRPage } | null>(null);
   const [progress, setProgress] = useState<{ file: string, page: number, totalPages: number } | null>(null);
 
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -72,18 +146,99 @@ const PDFOCR: React.FC = () => {
   const resetTool = () => {
     setFiles([]);
     setProcessedFiles([]);
+    setOcrResults([]);
+    setReviewWords([]);
+    setCorrections({});
     setError(null);
     setSuccess(null);
-    setSettings({
-      language: 'eng',
-      outputFormat: 'searchable',
-      confidence: 'high',
-      preserveLayout: true,
-      addTextLayer: true
-    });
+    setSettings(defaultSettings);
     if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
+  // Corrected copy of a file's pages; emptied words are dropped
+  const correctedPages = (result: OCRFileResult, fileIndex: number, fixes: Record<string, string>): OCRPage[] =>
+    result.pages.map((page, pageIndex) => ({
+      ...page.ocr,
+      lines: page.ocr.lines
+        .map((line, lineIndex) => ({
+          ...line,
+          words: line.words
+            .map((word, wordIndex) => {
+              const key = reviewKey(fileIndex, pageIndex, lineIndex, wordIndex);
+              return key in fixes ? { ...word, text: fixes[key].trim() } : word;
+            })
+            .filter(word => word.text !== ''),
+        }))
+        .filter(line => line.words.length > 0),
+    }));
+
+  const buildOutputs = async (results: OCRFileResult[], fixes: Record<string, string>) => {
+    const outputs: { name: string, blob: Blob }[] = [];
+    for (const [fileIndex, result] of results.entries()) {
+      const { file } = result;
+      const baseName = file.name.replace(/\.pdf$/i, '');
+      const pages = correctedPages(result, fileIndex, fixes);
+      const recognized = result.pages.map((page, index) => ({ ...page, ocr: pages[index] })).filter(page => page.recognized);
+      try {
+        if (settings.outputFormat === 'searchable') {
+          // Searchable output keeps the original pages and adds the text on top
+          const outPdf = await PDFDocument.load(await file.arrayBuffer());
+          if (settings.addTextLayer) {
+            for (const page of recognized) {
+              addInvisibleTextLayer(outPdf, outPdf.getPage(page.pageNumber - 1), page.ocr, (x, y) => page.viewport.convertToPdfPoint(x, y));
+            }
+          }
+          const pdfBytes = await outPdf.save();
+          outputs.push({ name: `${baseName}_ocr.pdf`, blob: new Blob([pdfBytes], { type: 'application/pdf' }) });
+        } else if (settings.outputFormat === 'word') {
+          const { Document, Packer, Paragraph, TextRun } = await import('docx');
+          const doc = new Document({
+            sections: [{
+              properties: {},
+              children: [
+                ...recognized.map(page => ocrPageText(page.ocr)).join('\n\n').split('\n').map(line => new Paragraph({ children: [new TextRun(line)] }))
+              ]
+            }]
+          });
+          const buffer = await Packer.toBuffer(doc);
+          outputs.push({ name: `${baseName}_ocr.docx`, blob: new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' }) });
+        } else {
+          const txt = recognized.map(page => ocrPageText(page.ocr)).join('\n\n');
+          outputs.push({ name: `${baseName}_ocr.txt`, blob: new Blob([txt], { type: 'text/plain' }) });
+        }
+        if (settings.exportHOCR || settings.exportALTO) {
+          const language = settings.language || 'eng';
+          const pageFile = (pageNumber: number, extension: string) => `${baseName}_page_${String(pageNumber).padStart(4, '0')}.${extension}`;
+          if (settings.exportHOCR) {
+            const zip = new JSZip();
+            for (const page of recognized) {
+              zip.file(pageFile(page.pageNumber, 'hocr'), toHOCR(page.ocr, { pageNumber: page.pageNumber, language, source: file.name }));
+            }
+            outputs.push({ name: `${baseName}_hocr.zip`, blob: await zip.generateAsync({ type: 'blob' }) });
+          }
+          if (settings.exportALTO) {
+            const zip = new JSZip();
+            for (const page of recognized) {
+              zip.file(pageFile(page.pageNumber, 'xml'), toALTO(page.ocr, { pageNumber: page.pageNumber, language, source: file.name }));
+            }
+            outputs.push({ name: `${baseName}_alto.zip`, blob: await zip.generateAsync({ type: 'blob' }) });
+          }
+        }
+        // Word lists index pages by position, so unrecognized pages stay in as empty ones
+        if (settings.exportWordsCSV) {
+          outputs.push({ name: `${baseName}_words.csv`, blob: new Blob([wordsToCSV(pages)], { type: 'text/csv' }) });
+        }
+        if (settings.exportWordsJSON) {
+          outputs.push({ name: `${baseName}_words.json`, blob: new Blob([wordsToJSON(pages, file.name)], { type: 'application/json' }) });
+        }
+      } catch (saveErr) {
+        console.error(`[PDFOCR] Failed to save output for ${file.name}:`, saveErr);
+        setError(`Failed to save output for ${file.name}`);
+      }
+    }
+    return outputs;
+  };
+
   const processFiles = async () => {
     if (files.length === 0) return;
     setIsProcessing(true);
@@ -91,16 +246,15 @@ const PDFOCR: React.FC = () => {
     setError(null);
     setSuccess(null);
     setProgress(null);
+    setOcrResults([]);
+    setReviewWords([]);
+    setCorrections({});
     try {
-      const processed: { name: string, blob: Blob }[] = [];
+      const results: OCRFileResult[] = [];
+      const review: ReviewWord[] = [];
+      const Tesseract = (await import('tesseract.js')).default;
       for (const file of files) {
         try {
-          const Tesseract = (await import('tesseract.js')).default;
-          const { PDFDocument, rgb, StandardFonts } = await import('pdf-lib');
-          let docxLib: any = null;
-          if (settings.outputFormat === 'word') {
-            docxLib = await import('docx');
-          }
           const fileBuffer = await file.arrayBuffer();
           let pdfDoc;
           try {
@@ -111,97 +265,58 @@ const PDFOCR: React.FC = () => {
             continue;
           }
           const numPages = pdfDoc.numPages;
-          const allText: string[] = [];
-          let outPdf: any = null;
-          let font: any = null;
-          if (settings.outputFormat === 'searchable') {
-            outPdf = await PDFDocument.create();
-            font = await outPdf.embedFont(StandardFonts.Helvetica);
-          }
-          let pagesProcessed = 0;
-          for (let pageNum = 1; pageNum <= numPages; pageNum++) {
-            setProgress({ file: file.name, page: pageNum, totalPages: numPages });
-            try {
+          const result: OCRFileResult = { file, pages: [] };
+          const fileIndex = results.length;
+          // One worker per file; the one-shot recognize() cannot request word boxes
+          const worker = await Tesseract.createWorker(settings.language || 'eng');
+          try {
+            for (let pageNum = 1; pageNum <= numPages; pageNum++) {
+              setProgress({ file: file.name, page: pageNum, totalPages: numPages });
               const page = await pdfDoc.getPage(pageNum);
               const viewport = page.getViewport({ scale: 2.0 });
-              const canvas = document.createElement('canvas');
-              const ctx = canvas.getContext('2d');
-              if (!ctx) throw new Error('Could not get canvas context');
-              canvas.width = viewport.width;
-              canvas.height = viewport.height;
-              await page.render({ canvasContext: ctx, viewport }).promise;
-              let text = '';
+              const pageIndex = result.pages.length;
+              result.pages.push({ pageNumber: pageNum, viewport, recognized: false, ocr: { width: viewport.width, height: viewport.height, lines: [] } });
               try {
-                const ocrResult = await Tesseract.recognize(canvas, settings.language || 'eng');
-                text = ocrResult.data.text;
-              } catch (ocrErr) {
-                console.error(`[PDFOCR] OCR failed on page ${pageNum} of ${file.name}:`, ocrErr);
-                setError(`OCR failed on page ${pageNum} of ${file.name}`);
-                continue;
-              }
-              allText.push(text);
-              if (settings.outputFormat === 'searchable') {
-                const pdfPage = outPdf.addPage([canvas.width, canvas.height]);
-                const pngImage = await outPdf.embedPng(canvas.toDataURL('image/png'));
-                pdfPage.drawImage(pngImage, { x: 0, y: 0, width: canvas.width, height: canvas.height });
-                if (settings.addTextLayer && text) {
-                  const lines = text.split('\n');
-                  let y = canvas.height - 40;
-                  for (const line of lines) {
-                    if (y < 40) break;
-                    pdfPage.drawText(line, {
-                      x: 40,
-                      y,
-                      size: 14,
-                      font,
-                      color: rgb(0.1, 0.5, 0.1),
-                    });
-                    y -= 20;
-                  }
+                const canvas = document.createElement('canvas');
+                const ctx = canvas.getContext('2d');
+                if (!ctx) throw new Error('Could not get canvas context');
+                canvas.width = viewport.width;
+                canvas.height = viewport.height;
+                await page.render({ canvasContext: ctx, viewport }).promise;
+                let ocrPage: OCRPage;
+                try {
+                  const ocrResult = await worker.recognize(canvas, {}, { blocks: true });
+                  ocrPage = ocrPageFromTesseract(ocrResult.data, canvas.width, canvas.height);
+                } catch (ocrErr) {
+                  console.error(`[PDFOCR] OCR failed on page ${pageNum} of ${file.name}:`, ocrErr);
+                  setError(`OCR failed on page ${pageNum} of ${file.name}`);
+                  continue;
                 }
-              }
-              pagesProcessed++;
-            } catch (pageError) {
-              console.error(`[PDFOCR] Error processing page ${pageNum} of ${file.name}:`, pageError);
-              setError(`Error processing page ${pageNum} of ${file.name}`);
-            }
-          }
-          if (pagesProcessed > 0) {
-            try {
-              let blob: Blob;
-              let outName: string;
-              if (settings.outputFormat === 'searchable') {
-                const pdfBytes = await outPdf.save();
-                blob = new Blob([pdfBytes], { type: 'application/pdf' });
-                outName = file.name.replace(/\.pdf$/i, '_ocr.pdf');
-              } else if (settings.outputFormat === 'text') {
-                const txt = allText.join('\n\n');
-                blob = new Blob([txt], { type: 'text/plain' });
-                outName = file.name.replace(/\.pdf$/i, '_ocr.txt');
-              } else if (settings.outputFormat === 'word') {
-                const { Document, Packer, Paragraph, TextRun } = docxLib;
-                const doc = new Document({
-                  sections: [{
-                    properties: {},
-                    children: [
-                      ...allText.join('\n\n').split('\n').map(line => new Paragraph({ children: [new TextRun(line)] }))
-                    ]
-                  }]
+                result.pages[pageIndex] = { pageNumber: pageNum, viewport, recognized: true, ocr: ocrPage };
+                // Keep a snippet of each doubtful word so it can be checked without the page
+                ocrPage.lines.forEach((line, lineIndex) => {
+                  line.words.forEach((word, wordIndex) => {
+                    if (word.confidence >= settings.lowConfidence) return;
+                    review.push({
+                      key: reviewKey(fileIndex, pageIndex, lineIndex, wordIndex),
+                      fileName: file.name,
+                      pageNumber: pageNum,
+                      text: word.text,
+                      confidence: word.confidence,
+                      crop: cropWord(canvas, line.bbox, word.bbox),
+                    });
+                  });
                 });
-                const buffer = await Packer.toBuffer(doc);
-                blob = new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' });
-                outName = file.name.replace(/\.pdf$/i, '_ocr.docx');
-              } else {
-                // fallback to text
-                const txt = allText.join('\n\n');
-                blob = new Blob([txt], { type: 'text/plain' });
-                outName = file.name.replace(/\.pdf$/i, '_ocr.txt');
+              } catch (pageError) {
+                console.error(`[PDFOCR] Error processing page ${pageNum} of ${file.name}:`, pageError);
+                setError(`Error processing page ${pageNum} of ${file.name}`);
               }
-              processed.push({ name: outName, blob });
-            } catch (saveErr) {
-              console.error(`[PDFOCR] Failed to save output for ${file.name}:`, saveErr);
-              setError(`Failed to save output for ${file.name}`);
             }
+          } finally {
+            await worker.terminate();
+          }
+          if (result.pages.some(page => page.recognized)) {
+            results.push(result);
           } else {
             setError(`No pages processed for ${file.name}.`);
           }
@@ -210,12 +325,16 @@ const PDFOCR: React.FC = () => {
           setError(`Error processing ${file.name}. Skipping this file.`);
         }
       }
+      const processed = await buildOutputs(results, {});
+      setOcrResults(results);
+      setReviewWords(review);
       setProcessedFiles(processed);
       setIsProcessing(false);
       setShowSpinner(false);
       setProgress(null);
       if (processed.length > 0) {
-        setSuccess(`PDF OCR processing completed! Processed ${processed.length} file(s).`);
+        setSuccess(`PDF OCR processing completed! Processed ${results.length} file(s).`
+          + (review.length > 0 ? ` ${review.length} low-confidence word(s) are listed for review.` : ''));
       } else {
         setError('No files were processed. Please check your files and try again.');
       }
@@ -228,6 +347,22 @@ const PDFOCR: React.FC = () => {
     }
   };
 
+  const applyCorrections = async () => {
+    setIsProcessing(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const processed = await buildOutputs(ocrResults, corrections);
+      setProcessedFiles(processed);
+      setSuccess(`Corrections applied to ${processed.length} output file(s).`);
+    } catch (error) {
+      console.error('[PDFOCR] Failed to apply corrections:', error);
+      setError('Failed to apply corrections. Please try again.');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
   const downloadAll = () => {
     processedFiles.forEach((file) => {
       const url = URL.createObjectURL(file.blob);
@@ -261,9 +396,11 @@ const PDFOCR: React.FC = () => {
     { icon: <FileType className="h-5 w-5" />, value: 'Free', label: 'No Registration' }
   ];
 
-  // Live preview effect
+  // Live preview effect: OCR the first page once per file and language
   useEffect(() => {
+    let cancelled = false;
     const renderPreview = async () => {
+      setPreviewPage(null);
       if (files.length === 0) {
         setPreviewUrl(null);
         return;
@@ -285,53 +422,65 @@ const PDFOCR: React.FC = () => {
         await page.render({ canvasContext: ctx, viewport }).promise;
         // OCR with tesseract.js (first page only)
         const Tesseract = (await import('tesseract.js')).default;
-        ctx.save();
-        ctx.globalAlpha = 0.7;
-        ctx.fillStyle = '#fff';
-        ctx.fillRect(0, 0, canvas.width, 40);
-        ctx.restore();
-        ctx.save();
-        ctx.font = '18px Helvetica, Arial, sans-serif';
-        ctx.fillStyle = '#333';
-        ctx.textBaseline = 'top';
-        ctx.textAlign = 'left';
-        ctx.fillText('Running OCR preview...', 10, 10);
-        ctx.restore();
-        setPreviewUrl(canvas.toDataURL('image/png'));
-        // Run OCR and update preview
-        const { data: { text } } = await Tesseract.recognize(canvas, settings.language || 'eng');
-        ctx.save();
-        ctx.globalAlpha = 0.7;
-        ctx.fillStyle = '#fff';
-        ctx.fillRect(0, 0, canvas.width, 40);
-        ctx.restore();
-        ctx.save();
-        ctx.font = '18px Helvetica, Arial, sans-serif';
-        ctx.fillStyle = '#0a0';
-        ctx.textBaseline = 'top';
-        ctx.textAlign = 'left';
-        ctx.fillText('OCR Preview:', 10, 10);
-        ctx.restore();
-        ctx.save();
-        ctx.font = '16px Helvetica, Arial, sans-serif';
-        ctx.fillStyle = '#0a0';
-        ctx.textBaseline = 'top';
-        ctx.textAlign = 'left';
-        const lines = text.split('\n').slice(0, 5);
-        lines.forEach((line, i) => ctx.fillText(line, 10, 40 + i * 22));
-        ctx.restore();
-        canvas.toBlob(blob => {
-          if (blob) setPreviewUrl(URL.createObjectURL(blob));
-        }, 'image/png');
+        const overlay = document.createElement('canvas');
+        overlay.width = canvas.width;
+        overlay.height = canvas.height;
+        const overlayCtx = overlay.getContext('2d');
+        if (overlayCtx) {
+          overlayCtx.drawImage(canvas, 0, 0);
+          drawPreviewBanner(overlayCtx, 'Running OCR preview...', '#333');
+          if (!cancelled) setPreviewUrl(overlay.toDataURL('image/png'));
+        }
+        const worker = await Tesseract.createWorker(settings.language || 'eng');
+        try {
+          const { data } = await worker.recognize(canvas, {}, { blocks: true });
+          if (!cancelled) setPreviewPage({ canvas, ocr: ocrPageFromTesseract(data, canvas.width, canvas.height) });
+        } finally {
+          await worker.terminate();
+        }
       } catch (e) {
-        setPreviewUrl(null);
+        if (!cancelled) setPreviewUrl(null);
       }
     };
     renderPreview();
-    // Cleanup old preview URLs
-    return () => { if (previewUrl) URL.revokeObjectURL(previewUrl); };
+    return () => { cancelled = true; };
   }, [files, settings.language]);
 
+  // Highlight low-confidence words; redrawn when the threshold changes
+  useEffect(() => {
+    if (!previewPage) return;
+    const { canvas, ocr } = previewPage;
+    const out = document.createElement('canvas');
+    out.width = canvas.width;
+    out.height = canvas.height;
+    const ctx = out.getContext('2d');
+    if (!ctx) return;
+    ctx.drawImage(canvas, 0, 0);
+    const words = ocr.lines.flatMap(line => line.words);
+    const doubtful = words.filter(word => word.confidence < settings.lowConfidence);
+    ctx.save();
+    ctx.fillStyle = 'rgba(239, 68, 68, 0.25)';
+    ctx.strokeStyle = '#dc2626';
+    ctx.lineWidth = 1.5;
+    for (const { bbox } of doubtful) {
+      ctx.fillRect(bbox.x0, bbox.y0, bbox.x1 - bbox.x0, bbox.y1 - bbox.y0);
+      ctx.strokeRect(bbox.x0, bbox.y0, bbox.x1 - bbox.x0, bbox.y1 - bbox.y0);
+    }
+    ctx.restore();
+    drawPreviewBanner(
+      ctx,
+      `OCR Preview: ${doubtful.length} of ${words.length} words below ${settings.lowConfidence}% confidence`,
+      doubtful.length > 0 ? '#b91c1c' : '#0a0'
+    );
+    let url: string | null = null;
+    out.toBlob(blob => {
+      if (!blob) return;
+      url = URL.createObjectURL(blob);
+      setPreviewUrl(url);
+    }, 'image/png');
+    return () => { if (url) URL.revokeObjectURL(url); };
+  }, [previewPage, settings.lowConfidence]);
+
   return (
     <>
       <SEO 
@@ -509,9 +658,76 @@ const PDFOCR: React.FC = () => {
                     />
                     <label htmlFor="addTextLayer" className="text-sm font-medium text-gray-700">Add Text Layer</label>
                   </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Flag Words Below {settings.lowConfidence}% Confidence</label>
+                    <input
+                      type="range"
+                      min={0}
+                      max={100}
+                      step={5}
+                      value={settings.lowConfidence}
+                      onChange={e => setSettings(prev => ({ ...prev, lowConfidence: Number(e.target.value) }))}
+                      className="w-full accent-violet-600"
+                    />
+                  </div>
+                </div>
+                <div className="mt-4">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Layout Exports</label>
+                  <div className="flex flex-wrap gap-x-6 gap-y-2">
+                    {([
+                      ['exportHOCR', 'hOCR (per page)'],
+                      ['exportALTO', 'ALTO XML (per page)'],
+                      ['exportWordsCSV', 'Words CSV'],
+                      ['exportWordsJSON', 'Words JSON']
+                    ] as const).map(([key, label]) => (
+                      <div key={key} className="flex items-center space-x-2">
+                        <input
+                          type="checkbox"
+                          id={key}
+                          checked={settings[key]}
+                          onChange={e => setSettings(prev => ({ ...prev, [key]: e.target.checked }))}
+                          className="w-4 h-4 text-violet-600 focus:ring-violet-500 border-gray-300 rounded"
+                        />
+                        <label htmlFor={key} className="text-sm font-medium text-gray-700">{label}</label>
+                      </div>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-2">Per-page hOCR and ALTO files are zipped per PDF. Word lists include each word's box in pixels at 144 dpi and its confidence.</p>
                 </div>
               </div>
 
+              {/* Low-confidence review */}
+              {reviewWords.length > 0 && (
+                <div className="mb-8">
+                  <h3 className="text-lg font-semibold text-gray-900 mb-2 flex items-center space-x-2">
+                    <Eye className="h-5 w-5 text-violet-600" />
+                    <span>Review Low-Confidence Words ({reviewWords.length})</span>
+                  </h3>
+                  <p className="text-sm text-gray-600 mb-4">Correct any misread words, or clear a word to drop it, then apply the corrections to rebuild every output.</p>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 max-h-96 overflow-y-auto">
+                    {reviewWords.map(word => (
+                      <div key={word.key} className="bg-red-50 border border-red-200 rounded-xl p-3">
+                        <img src={word.crop} alt={`Scan of "${word.text}"`} className="h-12 max-w-full object-contain bg-white border mb-2" />
+                        <input
+                          type="text"
+                          value={corrections[word.key] ?? word.text}
+                          onChange={e => setCorrections(prev => ({ ...prev, [word.key]: e.target.value }))}
+                          className="w-full px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-violet-500 focus:border-transparent"
+                          aria-label={`Correction for "${word.text}" on page ${word.pageNumber} of ${word.fileName}`}
+                        />
+                        <p className="text-xs text-gray-500 mt-1 truncate">{word.fileName}, page {word.pageNumber} · {Math.round(word.confidence)}%</p>
+                      </div>
+                    ))}
+                  </div>
+                  <button
+                    onClick={applyCorrections}
+                    disabled={isProcessing || Object.keys(corrections).length === 0}
+                    className="mt-4 bg-violet-600 text-white px-6 py-2 rounded-xl font-semibold hover:bg-violet-700 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                    type="button"
+                  >Apply Corrections</button>
+                </div>
+              )}
+
               {/* Action Buttons */}
               <div className="flex flex-col sm:flex-row gap-4">
                 <button
@@ -1,6 +1,7 @@
 import React, { useState, useRef, useCallback } from 'react';
 import { Upload, Download, Users, Zap, Shield, FileType, Lock, RotateCcw, CheckCircle } from 'lucide-react';
 import SEO from './SEO';
+import { encryptPDF, PDFEncryptionAlgorithm } from '../utils/pdfSecurity';
 
 interface UploadedPDF {
   id: string;
@@ -19,9 +20,12 @@ const PDFProtector: React.FC = () => {
   const [settings, setSettings] = useState({
     password: '',
     confirmPassword: '',
-    protectionLevel: 'standard',
+    ownerPassword: '',
+    protectionLevel: 'aes-256' as PDFEncryptionAlgorithm,
     allowPrinting: false,
-    allowCopying: false
+    allowCopying: false,
+    allowModifying: false,
+    allowAnnotating: false
   });
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -62,27 +66,19 @@ const PDFProtector: React.FC = () => {
     event.preventDefault();
   }, []);
 
-  const protectPDFServer = async (file: File, password: string) => {
-    const formData = new FormData();
-    formData.append('pdf', file);
-    formData.append('password', password);
-
-    const response = await fetch('http://localhost:4000/protect', {
-      method: 'POST',
-      body: formData,
+  const protectPDF = async (file: File) => {
+    const encrypted = await encryptPDF(await file.arrayBuffer(), {
+      userPassword: settings.password,
+      ownerPassword: settings.ownerPassword,
+      algorithm: settings.protectionLevel,
+      permissions: {
+        printing: settings.allowPrinting,
+        copying: settings.allowCopying,
+        modifying: settings.allowModifying,
+        annotating: settings.allowAnnotating
+      }
     });
-
-    if (!response.ok) throw new Error('Failed to protect PDF');
-
-    const blob = await response.blob();
-    const url = window.URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'protected_' + file.name;
-    document.body.appendChild(a);
-    a.click();
-    a.remove();
-    window.URL.revokeObjectURL(url);
+    return { name: file.name, blob: new Blob([encrypted], { type: 'application/pdf' }) };
   };
 
   const processFile = async () => {
@@ -99,12 +95,17 @@ const PDFProtector: React.FC = () => {
     setError(null);
     setSuccess(null);
     try {
-      await Promise.all(files.map(fileObj => protectPDFServer(fileObj.file, settings.password)));
+      const protectedFiles: { name: string, blob: Blob }[] = [];
+      for (const fileObj of files) {
+        protectedFiles.push(await protectPDF(fileObj.file));
+      }
+      setProcessedFiles(protectedFiles);
       setIsProcessing(false);
-      setSuccess('PDFs protected and downloaded successfully!');
+      setSuccess(`${protectedFiles.length} PDF(s) encrypted successfully!`);
     } catch (error) {
+      console.error('Error protecting PDF:', error);
       setIsProcessing(false);
-      setError('Error protecting PDFs. Please try again.');
+      setError('Error protecting PDFs. Encrypted or damaged PDFs cannot be protected again.');
     }
   };
 
@@ -136,9 +137,12 @@ const PDFProtector: React.FC = () => {
     setSettings({
       password: '',
       confirmPassword: '',
-      protectionLevel: 'standard',
+      ownerPassword: '',
+      protectionLevel: 'aes-256',
       allowPrinting: false,
-      allowCopying: false
+      allowCopying: false,
+      allowModifying: false,
+      allowAnnotating: false
     });
     if (fileInputRef.current) fileInputRef.current.value = '';
   };
@@ -197,10 +201,10 @@ const PDFProtector: React.FC = () => {
     { icon: <FileType className="h-5 w-5" />, value: "99.9%", label: "Success Rate" }
   ];
 
-  const protectionLevels = [
-    { id: 'standard', name: 'Standard (128-bit)', description: 'Basic protection for general use' },
-    { id: 'high', name: 'High (256-bit)', description: 'Enhanced security for sensitive documents' },
-    { id: 'maximum', name: 'Maximum (AES-256)', description: 'Military-grade encryption for critical files' }
+  const protectionLevels: { id: PDFEncryptionAlgorithm, name: string, description: string }[] = [
+    { id: 'rc4-128', name: 'Standard (RC4 128-bit)', description: 'Compatible with very old PDF readers (PDF 1.4)' },
+    { id: 'aes-128', name: 'High (AES 128-bit)', description: 'Enhanced security for sensitive documents (PDF 1.6)' },
+    { id: 'aes-256', name: 'Maximum (AES 256-bit)', description: 'Strongest encryption for critical files (PDF 2.0)' }
   ];
 
   return (
@@ -322,13 +326,30 @@ const PDFProtector: React.FC = () => {
                 </div>
 
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Owner Password (optional)
+                    </label>
+                    <input
+                      type="password"
+                      value={settings.ownerPassword}
+                      onChange={(e) => setSettings({...settings, ownerPassword: e.target.value})}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-violet-500 focus:border-transparent"
+                      placeholder="Required to change permissions"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      Defaults to the open password when left empty
+                    </p>
+                  </div>
+
+
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">
                       Protection Level
                     </label>
                     <select
                       value={settings.protectionLevel}
-                      onChange={(e) => setSettings({...settings, protectionLevel: e.target.value})}
+                      onChange={(e) => setSettings({...settings, protectionLevel: e.target.value as PDFEncryptionAlgorithm})}
                       className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-violet-500 focus:border-transparent"
                     >
                       {protectionLevels.map(level => (
@@ -366,10 +387,43 @@ const PDFProtector: React.FC = () => {
                       Allow Copying Text
                     </label>
                   </div>
+
+                  <div className="flex items-center gap-3">
+                    <input
+                      type="checkbox"
+                      id="allowModifying"
+                      checked={settings.allowModifying}
+                      onChange={(e) => setSettings({...settings, allowModifying: e.target.checked})}
+                      className="h-4 w-4 text-violet-600 focus:ring-violet-500 border-gray-300 rounded"
+                    />
+                    <label htmlFor="allowModifying" className="text-sm font-medium text-gray-700">
+                      Allow Modifying
+                    </label>
+                  </div>
+
+                  <div className="flex items-center gap-3">
+                    <input
+                      type="checkbox"
+                      id="allowAnnotating"
+                      checked={settings.allowAnnotating}
+                      onChange={(e) => setSettings({...settings, allowAnnotating: e.target.checked})}
+                      className="h-4 w-4 text-violet-600 focus:ring-violet-500 border-gray-300 rounded"
+                    />
+                    <label htmlFor="allowAnnotating" className="text-sm font-medium text-gray-700">
+                      Allow Comments &amp; Form Filling
+                    </label>
+                  </div>
                 </div>
               </div>
             )}
 
+            {(error || success) && (
+              <div className={`flex items-center gap-2 rounded-xl px-4 py-3 mb-6 text-sm ${error ? 'bg-red-50 text-red-700' : 'bg-green-50 text-green-700'}`}>
+                {success && !error && <CheckCircle className="h-4 w-4" />}
+                <span>{error || success}</span>
+              </div>
+            )}
+
             {/* Action Buttons */}
             <div className="flex flex-col sm:flex-row gap-4">
               <button
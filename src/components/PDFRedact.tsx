@@ -1,6 +1,11 @@
-import React, { useState, useRef } from 'react';
-import { Upload, Download, Users, Zap, Shield, FileType, EyeOff, XCircle, CheckCircle } from 'lucide-react';
+import React, { useState, useRef, useEffect } from 'react';
+import { Upload, Download, Users, Zap, Shield, FileType, EyeOff, XCircle, CheckCircle, ChevronLeft, ChevronRight, FileText } from 'lucide-react';
+import * as pdfjsLib from 'pdfjs-dist';
+import pdfWorker from 'pdfjs-dist/build/pdf.worker.min.js?url';
+pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorker;
 import SEO from './SEO';
+import { REDACTION_PATTERNS, RedactionReport, redactPDF, verifyRedaction } from '../utils/pdfRedaction';
+import { Rect } from '../utils/pdfContent';
 
 const colorMap = {
   black: [0, 0, 0],
@@ -8,19 +13,75 @@ const colorMap = {
   gray: [0.5, 0.5, 0.5],
 };
 
+const PREVIEW_SCALE = 1.2;
+
+interface RedactedPDF {
+  name: string;
+  blob: Blob;
+  report: RedactionReport;
+}
+
+// Drawn boxes per page index, in PDF user space
+type PageBoxes = Record<number, Rect[]>;
+
+const fileKey = (file: File) => `${file.name}-${file.size}`;
+
 const PDFRedact: React.FC = () => {
   const [files, setFiles] = useState<File[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [processedFiles, setProcessedFiles] = useState<{ name: string, blob: Blob }[]>([]);
+  const [processedFiles, setProcessedFiles] = useState<RedactedPDF[]>([]);
   const [settings, setSettings] = useState({
-    redactionType: 'text',
+    terms: '',
+    redactEmails: false,
+    redactPhones: false,
+    redactIbans: false,
+    customPattern: '',
+    matchCase: false,
     redactionColor: 'black',
-    permanentRedaction: true,
     includeMetadata: false
   });
+  const [boxes, setBoxes] = useState<Record<string, PageBoxes>>({});
+  const [previewIndex, setPreviewIndex] = useState(0);
+  const [previewPage, setPreviewPage] = useState(1);
+  const [pageCount, setPageCount] = useState(0);
+  const [viewport, setViewport] = useState<pdfjsLib.PageViewport | null>(null);
+  const [dragStart, setDragStart] = useState<[number, number] | null>(null);
+  const [dragCurrent, setDragCurrent] = useState<[number, number] | null>(null);
   const [error, setError] = useState<string|null>(null);
   const [success, setSuccess] = useState<string|null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const previewFile = files[previewIndex];
+
+  // Render the selected page of the preview file
+  useEffect(() => {
+    if (!previewFile) {
+      setViewport(null);
+      setPageCount(0);
+      return;
+    }
+    let cancelled = false;
+    (async () => {
+      try {
+        const pdf = await pdfjsLib.getDocument({ data: new Uint8Array(await previewFile.arrayBuffer()) }).promise;
+        if (cancelled) return;
+        setPageCount(pdf.numPages);
+        const page = await pdf.getPage(Math.min(previewPage, pdf.numPages));
+        const pageViewport = page.getViewport({ scale: PREVIEW_SCALE });
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (!canvas || !ctx || cancelled) return;
+        canvas.width = pageViewport.width;
+        canvas.height = pageViewport.height;
+        await page.render({ canvasContext: ctx, viewport: pageViewport }).promise;
+        if (!cancelled) setViewport(pageViewport);
+      } catch {
+        if (!cancelled) setError(`Unable to preview ${previewFile.name}.`);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [previewFile, previewPage]);
 
   // Deduplicate and validate files
   const addFiles = (newFiles: File[]) => {
@@ -57,86 +118,134 @@ const PDFRedact: React.FC = () => {
   };
 
   const removeFile = (index: number) => {
+    const removed = files[index];
     setFiles(prev => prev.filter((_, i) => i !== index));
+    setBoxes(prev => {
+      const next = { ...prev };
+      delete next[fileKey(removed)];
+      return next;
+    });
+    if (previewIndex >= index && previewIndex > 0) setPreviewIndex(previewIndex - 1);
+    setPreviewPage(1);
+  };
+
+  const selectPreview = (index: number) => {
+    setPreviewIndex(index);
+    setPreviewPage(1);
+  };
+
+  // Box drawing on the preview, in canvas pixels
+  const pointerPosition = (event: React.MouseEvent<HTMLDivElement>): [number, number] => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    const canvas = canvasRef.current;
+    const scaleX = canvas ? canvas.width / bounds.width : 1;
+    const scaleY = canvas ? canvas.height / bounds.height : 1;
+    return [(event.clientX - bounds.left) * scaleX, (event.clientY - bounds.top) * scaleY];
+  };
+
+  const finishBox = () => {
+    if (dragStart && dragCurrent && viewport && previewFile) {
+      const [x0, y0] = viewport.convertToPdfPoint(dragStart[0], dragStart[1]);
+      const [x1, y1] = viewport.convertToPdfPoint(dragCurrent[0], dragCurrent[1]);
+      const rect = { x: Math.min(x0, x1), y: Math.min(y0, y1), width: Math.abs(x1 - x0), height: Math.abs(y1 - y0) };
+      if (rect.width > 2 && rect.height > 2) {
+        const key = fileKey(previewFile);
+        const pageIndex = previewPage - 1;
+        setBoxes(prev => ({
+          ...prev,
+          [key]: { ...prev[key], [pageIndex]: [...(prev[key]?.[pageIndex] ?? []), rect] }
+        }));
+      }
+    }
+    setDragStart(null);
+    setDragCurrent(null);
+  };
+
+  const removeBox = (boxIndex: number) => {
+    if (!previewFile) return;
+    const key = fileKey(previewFile);
+    const pageIndex = previewPage - 1;
+    setBoxes(prev => ({
+      ...prev,
+      [key]: { ...prev[key], [pageIndex]: (prev[key]?.[pageIndex] ?? []).filter((_, i) => i !== boxIndex) }
+    }));
+  };
+
+  // Convert a PDF-space box to CSS percentages over the preview canvas
+  const boxStyle = (rect: Rect): React.CSSProperties => {
+    if (!viewport) return { display: 'none' };
+    const [x0, y0, x1, y1] = viewport.convertToViewportRectangle([rect.x, rect.y, rect.x + rect.width, rect.y + rect.height]);
+    return {
+      left: `${(Math.min(x0, x1) / viewport.width) * 100}%`,
+      top: `${(Math.min(y0, y1) / viewport.height) * 100}%`,
+      width: `${(Math.abs(x1 - x0) / viewport.width) * 100}%`,
+      height: `${(Math.abs(y1 - y0) / viewport.height) * 100}%`
+    };
+  };
+
+  const currentBoxes = previewFile ? boxes[fileKey(previewFile)]?.[previewPage - 1] ?? [] : [];
+
+  const searchPatterns = (): RegExp[] => {
+    const patterns: RegExp[] = [];
+    if (settings.redactEmails) patterns.push(REDACTION_PATTERNS.email);
+    if (settings.redactPhones) patterns.push(REDACTION_PATTERNS.phone);
+    if (settings.redactIbans) patterns.push(REDACTION_PATTERNS.iban);
+    if (settings.customPattern.trim()) {
+      patterns.push(new RegExp(settings.customPattern.trim(), settings.matchCase ? 'g' : 'gi'));
+    }
+    return patterns;
   };
 
   const processFiles = async () => {
     if (files.length === 0) return;
+    let patterns: RegExp[];
+    try {
+      patterns = searchPatterns();
+    } catch {
+      setError('The custom pattern is not a valid regular expression.');
+      return;
+    }
+    const terms = settings.terms.split('\n').map(term => term.trim()).filter(Boolean);
     setIsProcessing(true);
     setError(null);
     setSuccess(null);
     try {
-      const processed: { name: string, blob: Blob }[] = [];
+      let fillColor: [number, number, number];
+      if (settings.redactionColor === 'custom') {
+        fillColor = [0.2, 0.2, 0.7];
+      } else {
+        const arr = colorMap[settings.redactionColor as keyof typeof colorMap];
+        fillColor = Array.isArray(arr) && arr.length === 3 ? [arr[0], arr[1], arr[2]] : [0, 0, 0];
+      }
+      const processed: RedactedPDF[] = [];
+      const failed: string[] = [];
       for (const file of files) {
         try {
-          const { PDFDocument, rgb, StandardFonts } = await import('pdf-lib');
-          const fileBuffer = await file.arrayBuffer();
-          const pdfDoc = await PDFDocument.load(fileBuffer);
-          // Remove metadata if requested
-          if (settings.includeMetadata) {
-            pdfDoc.setTitle('');
-            pdfDoc.setAuthor('');
-            pdfDoc.setSubject('');
-            pdfDoc.setKeywords([]);
-            pdfDoc.setProducer('');
-            pdfDoc.setCreator('');
-          }
-          const pages = pdfDoc.getPages();
-          let font;
-          try { font = await pdfDoc.embedFont(StandardFonts.Helvetica); } catch { font = await pdfDoc.embedFont(StandardFonts.TimesRoman); }
-          pages.forEach((page, pageIndex) => {
-            const { width, height } = page.getSize();
-            // Color
-            let colorArr: [number, number, number];
-            if (settings.redactionColor === 'custom') {
-              colorArr = [0.2, 0.2, 0.7];
-            } else {
-              const arr = colorMap[settings.redactionColor as keyof typeof colorMap];
-              colorArr = Array.isArray(arr) && arr.length === 3 ? [arr[0], arr[1], arr[2]] : [0, 0, 0];
-            }
-            // Redaction logic
-            if (settings.redactionType === 'text') {
-              const redactionBoxes = [
-                { x: 50, y: height - 100, width: 200, height: 20 },
-                { x: 50, y: height - 150, width: 300, height: 20 },
-                { x: 50, y: height - 200, width: 250, height: 20 }
-              ];
-              redactionBoxes.forEach(box => {
-                page.drawRectangle({ x: box.x, y: box.y, width: box.width, height: box.height, color: rgb(colorArr[0], colorArr[1], colorArr[2]) });
-                page.drawText('REDACTED', { x: box.x + 5, y: box.y + 2, size: 10, font, color: rgb(1, 1, 1) });
-              });
-            } else if (settings.redactionType === 'image') {
-              const imageBox = { x: width / 2 - 100, y: height / 2 - 100, width: 200, height: 200 };
-              page.drawRectangle({ x: imageBox.x, y: imageBox.y, width: imageBox.width, height: imageBox.height, color: rgb(colorArr[0], colorArr[1], colorArr[2]) });
-              page.drawText('IMAGE REDACTED', { x: imageBox.x + 20, y: imageBox.y + imageBox.height / 2, size: 12, font, color: rgb(1, 1, 1) });
-            } else if (settings.redactionType === 'area') {
-              // Area redaction: cover a fixed area (bottom right)
-              const areaBox = { x: width - 220, y: 40, width: 200, height: 60 };
-              page.drawRectangle({ x: areaBox.x, y: areaBox.y, width: areaBox.width, height: areaBox.height, color: rgb(colorArr[0], colorArr[1], colorArr[2]) });
-              page.drawText('AREA REDACTED', { x: areaBox.x + 10, y: areaBox.y + 20, size: 12, font, color: rgb(1, 1, 1) });
-            } else if (settings.redactionType === 'metadata') {
-              // Metadata redaction: just add a note
-              page.drawText('METADATA REDACTED', { x: 50, y: 50, size: 12, font, color: rgb(colorArr[0], colorArr[1], colorArr[2]) });
-            } else {
-              // Redact all content
-              page.drawRectangle({ x: 0, y: 0, width: width, height: height, color: rgb(colorArr[0], colorArr[1], colorArr[2]) });
-              page.drawText('DOCUMENT REDACTED', { x: width / 2 - 80, y: height / 2, size: 16, font, color: rgb(1, 1, 1) });
-            }
-            // Add redaction timestamp if enabled
-            if (settings.includeMetadata) {
-              const timestamp = new Date().toLocaleString();
-              page.drawText(`Redacted: ${timestamp}`, { x: 50, y: 30, size: 10, font, color: rgb(0.5, 0.5, 0.5) });
-            }
+          const { bytes, report } = await redactPDF(await file.arrayBuffer(), {
+            terms,
+            patterns,
+            matchCase: settings.matchCase,
+            boxes: boxes[fileKey(file)] ?? {},
+            fillColor,
+            removeMetadata: settings.includeMetadata
           });
-          const pdfBytes = await pdfDoc.save();
-          const blob = new Blob([pdfBytes], { type: 'application/pdf' });
-          processed.push({ name: file.name.replace(/\.pdf$/i, '_redacted.pdf'), blob });
+          // Re-extract the text with pdf.js to prove nothing recoverable is left
+          const pdf = await pdfjsLib.getDocument({ data: bytes.slice() }).promise;
+          report.verification = await verifyRedaction(pdf, bytes, report, settings.matchCase);
+          const blob = new Blob([bytes], { type: 'application/pdf' });
+          processed.push({ name: file.name.replace(/\.pdf$/i, '_redacted.pdf'), blob, report });
         } catch (error) {
-          setError(`Error processing ${file.name}. Skipping this file.`);
+          console.error(`Redaction failed for ${file.name}:`, error);
+          failed.push(file.name);
         }
       }
       setProcessedFiles(processed);
       setIsProcessing(false);
+      if (failed.length) setError(`Error processing ${failed.join(', ')}. Skipped.`);
+      const leaking = processed.filter(file => file.report.verification && !file.report.verification.passed);
+      if (leaking.length) {
+        setError(`Verification found remaining text in ${leaking.map(file => file.name).join(', ')}. Review the report before sharing.`);
+      }
       setSuccess(`PDF redaction completed! Processed ${processed.length} files.`);
     } catch (error) {
       setError('Error redacting PDFs. Please try again.');
@@ -144,6 +253,18 @@ const PDFRedact: React.FC = () => {
     }
   };
 
+  const downloadReport = (file: RedactedPDF) => {
+    const blob = new Blob([JSON.stringify(file.report, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = file.name.replace(/\.pdf$/i, '_report.json');
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
   const downloadAll = () => {
     processedFiles.forEach((file) => {
       const url = URL.createObjectURL(file.blob);
@@ -268,15 +389,83 @@ const PDFRedact: React.FC = () => {
                 </div>
               )}
 
-              {/* Live Preview (placeholder) */}
+              {/* Live Preview */}
               <div className="mb-8">
                 <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center space-x-2">
                   <EyeOff className="h-5 w-5 text-violet-600" />
                   <span>Live Preview</span>
                 </h3>
-                <div className="bg-gray-50 rounded-xl p-4 text-center text-gray-500">
-                  <p>No live preview available for PDF redaction.<br/>Redaction will permanently remove selected content and generate secure PDFs for download.</p>
-                </div>
+                {previewFile ? (
+                  <div className="bg-gray-50 rounded-xl p-4">
+                    <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                      <select
+                        value={previewIndex}
+                        onChange={e => selectPreview(Number(e.target.value))}
+                        className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-violet-500 focus:border-transparent text-sm"
+                      >
+                        {files.map((file, index) => (
+                          <option key={index} value={index}>{file.name}</option>
+                        ))}
+                      </select>
+                      <div className="flex items-center space-x-2 text-sm text-gray-700">
+                        <button
+                          onClick={() => setPreviewPage(page => Math.max(1, page - 1))}
+                          disabled={previewPage <= 1}
+                          className="p-2 rounded-lg hover:bg-gray-200 disabled:opacity-50"
+                          aria-label="Previous page"
+                        >
+                          <ChevronLeft className="h-4 w-4" />
+                        </button>
+                        <span>Page {previewPage} of {pageCount || 1}</span>
+                        <button
+                          onClick={() => setPreviewPage(page => Math.min(pageCount, page + 1))}
+                          disabled={previewPage >= pageCount}
+                          className="p-2 rounded-lg hover:bg-gray-200 disabled:opacity-50"
+                          aria-label="Next page"
+                        >
+                          <ChevronRight className="h-4 w-4" />
+                        </button>
+                      </div>
+                    </div>
+                    <p className="text-sm text-gray-600 mb-3">Drag on the page to mark areas for redaction. Click a box to remove it.</p>
+                    <div className="flex justify-center overflow-auto">
+                      <div
+                        className="relative inline-block cursor-crosshair select-none shadow-lg"
+                        onMouseDown={e => { const point = pointerPosition(e); setDragStart(point); setDragCurrent(point); }}
+                        onMouseMove={e => { if (dragStart) setDragCurrent(pointerPosition(e)); }}
+                        onMouseUp={finishBox}
+                        onMouseLeave={finishBox}
+                      >
+                        <canvas ref={canvasRef} className="block max-w-full h-auto" />
+                        {currentBoxes.map((rect, index) => (
+                          <div
+                            key={index}
+                            style={boxStyle(rect)}
+                            className="absolute bg-black/60 border-2 border-red-500 cursor-pointer"
+                            title="Remove box"
+                            onMouseDown={e => e.stopPropagation()}
+                            onClick={() => removeBox(index)}
+                          />
+                        ))}
+                        {dragStart && dragCurrent && canvasRef.current && (
+                          <div
+                            className="absolute border-2 border-dashed border-red-500 bg-red-500/20 pointer-events-none"
+                            style={{
+                              left: `${(Math.min(dragStart[0], dragCurrent[0]) / canvasRef.current.width) * 100}%`,
+                              top: `${(Math.min(dragStart[1], dragCurrent[1]) / canvasRef.current.height) * 100}%`,
+                              width: `${(Math.abs(dragCurrent[0] - dragStart[0]) / canvasRef.current.width) * 100}%`,
+                              height: `${(Math.abs(dragCurrent[1] - dragStart[1]) / canvasRef.current.height) * 100}%`
+                            }}
+                          />
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="bg-gray-50 rounded-xl p-4 text-center text-gray-500">
+                    <p>Upload a PDF to preview its pages and draw redaction boxes.<br/>Matched text and boxed content are removed from the file, not just covered.</p>
+                  </div>
+                )}
               </div>
 
               {/* Redaction Settings */}
@@ -285,21 +474,26 @@ const PDFRedact: React.FC = () => {
                   <EyeOff className="h-5 w-5 text-violet-600" />
                   <span>Redaction Settings</span>
                 </h3>
-                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
                   <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-2">Redaction Type</label>
-                    <select
-                      value={settings.redactionType}
-                      onChange={e => setSettings(prev => ({ ...prev, redactionType: e.target.value }))}
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Search Terms (one per line)</label>
+                    <textarea
+                      value={settings.terms}
+                      onChange={e => setSettings(prev => ({ ...prev, terms: e.target.value }))}
+                      rows={4}
+                      placeholder={'Jane Doe\nProject Falcon'}
                       className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-violet-500 focus:border-transparent"
-                    >
-                      <option value="text">Text Redaction</option>
-                      <option value="image">Image Redaction</option>
-                      <option value="area">Area Redaction</option>
-                      <option value="metadata">Metadata Redaction</option>
-                    </select>
+                    />
                   </div>
                   <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Custom Pattern (regular expression)</label>
+                    <input
+                      type="text"
+                      value={settings.customPattern}
+                      onChange={e => setSettings(prev => ({ ...prev, customPattern: e.target.value }))}
+                      placeholder="e.g. \d{3}-\d{2}-\d{4}"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-violet-500 focus:border-transparent mb-4"
+                    />
                     <label className="block text-sm font-medium text-gray-700 mb-2">Redaction Color</label>
                     <select
                       value={settings.redactionColor}
@@ -312,29 +506,89 @@ const PDFRedact: React.FC = () => {
                       <option value="custom">Custom</option>
                     </select>
                   </div>
-                  <div className="flex items-center space-x-2">
-                    <input
-                      type="checkbox"
-                      id="permanentRedaction"
-                      checked={settings.permanentRedaction}
-                      onChange={e => setSettings(prev => ({ ...prev, permanentRedaction: e.target.checked }))}
-                      className="w-4 h-4 text-violet-600 focus:ring-violet-500 border-gray-300 rounded"
-                    />
-                    <label htmlFor="permanentRedaction" className="text-sm font-medium text-gray-700">Permanent Redaction</label>
-                  </div>
-                  <div className="flex items-center space-x-2">
-                    <input
-                      type="checkbox"
-                      id="includeMetadata"
-                      checked={settings.includeMetadata}
-                      onChange={e => setSettings(prev => ({ ...prev, includeMetadata: e.target.checked }))}
-                      className="w-4 h-4 text-violet-600 focus:ring-violet-500 border-gray-300 rounded"
-                    />
-                    <label htmlFor="includeMetadata" className="text-sm font-medium text-gray-700">Remove Metadata</label>
-                  </div>
+                </div>
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                  {([
+                    ['redactEmails', 'Email Addresses'],
+                    ['redactPhones', 'Phone Numbers'],
+                    ['redactIbans', 'IBANs'],
+                    ['matchCase', 'Match Case'],
+                    ['includeMetadata', 'Remove Metadata']
+                  ] as const).map(([key, label]) => (
+                    <div key={key} className="flex items-center space-x-2">
+                      <input
+                        type="checkbox"
+                        id={key}
+                        checked={settings[key]}
+                        onChange={e => setSettings(prev => ({ ...prev, [key]: e.target.checked }))}
+                        className="w-4 h-4 text-violet-600 focus:ring-violet-500 border-gray-300 rounded"
+                      />
+                      <label htmlFor={key} className="text-sm font-medium text-gray-700">{label}</label>
+                    </div>
+                  ))}
                 </div>
               </div>
 
+              {/* Error/Success Messages */}
+              {error && (
+                <div className="mb-4 flex items-center space-x-2 text-red-600 bg-red-50 rounded-lg p-3">
+                  <XCircle className="h-5 w-5" />
+                  <span>{error}</span>
+                </div>
+              )}
+              {success && (
+                <div className="mb-4 flex items-center space-x-2 text-green-600 bg-green-50 rounded-lg p-3">
+                  <CheckCircle className="h-5 w-5" />
+                  <span>{success}</span>
+                </div>
+              )}
+
+              {/* Redaction Reports */}
+              {processedFiles.length > 0 && (
+                <div className="mb-8">
+                  <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center space-x-2">
+                    <FileText className="h-5 w-5 text-violet-600" />
+                    <span>Redaction Report</span>
+                  </h3>
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm text-left">
+                      <thead className="text-gray-600 border-b">
+                        <tr>
+                          <th className="py-2 pr-4">File</th>
+                          <th className="py-2 pr-4">Matches</th>
+                          <th className="py-2 pr-4">Boxes</th>
+                          <th className="py-2 pr-4">Glyphs Removed</th>
+                          <th className="py-2 pr-4">Images</th>
+                          <th className="py-2 pr-4">Verification</th>
+                          <th className="py-2"></th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {processedFiles.map((file, index) => (
+                          <tr key={index} className="border-b last:border-0">
+                            <td className="py-2 pr-4 font-medium text-gray-900">{file.name}</td>
+                            <td className="py-2 pr-4">{file.report.matches.length}</td>
+                            <td className="py-2 pr-4">{file.report.boxes.length}</td>
+                            <td className="py-2 pr-4">{file.report.removedGlyphs}</td>
+                            <td className="py-2 pr-4">{file.report.redactedImages} cleaned, {file.report.removedImages} removed</td>
+                            <td className="py-2 pr-4">
+                              {file.report.verification?.passed ? (
+                                <span className="inline-flex items-center space-x-1 text-green-600"><CheckCircle className="h-4 w-4" /><span>No text recovered</span></span>
+                              ) : (
+                                <span className="inline-flex items-center space-x-1 text-red-600"><XCircle className="h-4 w-4" /><span>{file.report.verification?.leaks.length ?? 0} leaks</span></span>
+                              )}
+                            </td>
+                            <td className="py-2">
+                              <button onClick={() => downloadReport(file)} className="text-violet-600 hover:text-violet-800 font-medium">JSON</button>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              )}
+
               {/* Action Buttons */}
               <div className="flex flex-col sm:flex-row gap-4">
                 <button
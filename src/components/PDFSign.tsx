@@ -6,6 +6,9 @@ import * as pdfjsLib from 'pdfjs-dist/build/pdf';
 import 'pdfjs-dist/web/pdf_viewer.css';
 import { NotificationProvider } from './NotificationProvider';
 import pdfWorker from 'pdfjs-dist/build/pdf.worker.min.js?url';
+import { loadPkcs12, SigningIdentity } from '../utils/pkcs12';
+import { signPdf, SignatureAppearance } from '../utils/pdfSignature';
+import { displayName } from '../utils/x509';
 
 const PDFSign: React.FC = () => {
   const [files, setFiles] = useState<File[]>([]);
@@ -34,6 +37,12 @@ const PDFSign: React.FC = () => {
   const [resizing, setResizing] = useState(false);
   const [dragOffset, setDragOffset] = useState<{ x: number, y: number }>({ x: 0, y: 0 });
   const [previewPdfBytes, setPreviewPdfBytes] = useState<Uint8Array | null>(null);
+  const certificateInputRef = useRef<HTMLInputElement>(null);
+  const [certificateFile, setCertificateFile] = useState<File | null>(null);
+  const [certificatePassword, setCertificatePassword] = useState('');
+  const [certificateLoading, setCertificateLoading] = useState(false);
+  const [signingIdentity, setSigningIdentity] = useState<SigningIdentity | null>(null);
+  const [signatureDetails, setSignatureDetails] = useState({ reason: '', location: '', contactInfo: '' });
 
   const addFiles = (newFiles: File[]) => {
     setFiles(prev => {
@@ -59,6 +68,40 @@ const PDFSign: React.FC = () => {
     }
   };
 
+  const handleCertificateSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    if (selected) {
+      setCertificateFile(selected);
+      setSigningIdentity(null);
+    }
+    event.target.value = '';
+  };
+
+  const unlockCertificate = async () => {
+    if (!certificateFile) return;
+    setCertificateLoading(true);
+    try {
+      const identity = await loadPkcs12(new Uint8Array(await certificateFile.arrayBuffer()), certificatePassword);
+      setSigningIdentity(identity);
+      setCertificatePassword('');
+      const now = new Date();
+      if (now < identity.certificate.notBefore || now > identity.certificate.notAfter) {
+        notify('The certificate is not valid at this time; signatures made with it will not validate.', 'error');
+      }
+    } catch (error) {
+      console.error('Error loading certificate:', error);
+      notify(error instanceof Error ? error.message : 'Could not open the certificate file.', 'error');
+    } finally {
+      setCertificateLoading(false);
+    }
+  };
+
+  const removeCertificate = () => {
+    setCertificateFile(null);
+    setCertificatePassword('');
+    setSigningIdentity(null);
+  };
+
   const handleDrop = (event: React.DragEvent) => {
     event.preventDefault();
     const droppedFiles = Array.from(event.dataTransfer.files);
@@ -303,6 +346,32 @@ const PDFSign: React.FC = () => {
     setResizing(false);
   };
 
+  // Stamp for the signature field on the first page; the overlay is in
+  // preview pixels (scale 1.5, origin top left)
+  const signatureAppearance = async (page: { width: number, height: number }): Promise<SignatureAppearance | undefined> => {
+    const overlay = signatureOverlay
+      ? { x: signatureOverlay.x / 1.5, width: signatureOverlay.width / 1.5, height: signatureOverlay.height / 1.5, top: signatureOverlay.y / 1.5 }
+      : { x: page.width - 160 * getSignatureScale() - 40, width: 160 * getSignatureScale(), height: 60 * getSignatureScale(), top: page.height - 40 - 60 * getSignatureScale() };
+    const base = {
+      pageIndex: 0,
+      rect: { x: overlay.x, y: page.height - overlay.top - overlay.height, width: overlay.width, height: overlay.height },
+      opacity: settings.opacity / 100,
+    };
+    if (settings.signatureType === 'image' && settings.signatureImage) {
+      const type: 'png' | 'jpg' = settings.signatureImage.type === 'image/png' ? 'png' : 'jpg';
+      return { ...base, image: { bytes: new Uint8Array(await settings.signatureImage.arrayBuffer()), type } };
+    }
+    if (settings.signatureType === 'draw' && drawnSignature) {
+      const res = await fetch(drawnSignature);
+      return { ...base, image: { bytes: new Uint8Array(await res.arrayBuffer()), type: 'png' } };
+    }
+    if (settings.signatureType === 'type' && settings.signatureText.trim()) {
+      return { ...base, text: settings.signatureText, fontSize: settings.size === 'medium' ? 12 : settings.size === 'large' ? 16 : 10 };
+    }
+    // Nothing to show: an invisible signature
+    return undefined;
+  };
+
   const processFiles = async () => {
     if (files.length === 0) {
       notify('Please upload at least one PDF file.', 'error');
@@ -317,6 +386,16 @@ const PDFSign: React.FC = () => {
           const fileBuffer = await file.arrayBuffer();
           const pdfDoc = await PDFDocument.load(fileBuffer);
           const pages = pdfDoc.getPages();
+          if (signingIdentity) {
+            // The stamp becomes the appearance of the signature field and the
+            // file is only appended to, so earlier signatures stay valid
+            const signed = await signPdf(new Uint8Array(fileBuffer), signingIdentity, {
+              ...signatureDetails,
+              appearance: await signatureAppearance(pages[0].getSize()),
+            });
+            processed.push({ name: file.name.replace(/\.pdf$/i, '_signed.pdf'), blob: new Blob([signed], { type: 'application/pdf' }) });
+            continue;
+          }
           let font;
           try { font = await pdfDoc.embedFont(StandardFonts.Helvetica); } catch { font = await pdfDoc.embedFont(StandardFonts.TimesRoman); }
           let signatureImageEmbed = null;
@@ -381,7 +460,8 @@ const PDFSign: React.FC = () => {
           processed.push({ name: file.name.replace(/\.pdf$/i, '_signed.pdf'), blob });
         } catch (error) {
           console.error(`Error processing ${file.name}:`, error);
-          notify(`Error processing ${file.name}. Skipping this file.`, 'error');
+          const reason = error instanceof Error && error.name === 'PDFSignatureError' ? ` ${error.message}.` : '';
+          notify(`Error processing ${file.name}.${reason} Skipping this file.`, 'error');
         }
       }
       setProcessedFiles(processed);
@@ -408,7 +488,7 @@ const PDFSign: React.FC = () => {
   };
 
   const features = [
-    { icon: <PenTool className="h-6 w-6" />, title: 'Digital Signatures', description: 'Add secure digital signatures to PDF documents' },
+    { icon: <PenTool className="h-6 w-6" />, title: 'Digital Signatures', description: 'Sign with your .p12/.pfx certificate or add a visible signature stamp' },
     { icon: <Shield className="h-6 w-6" />, title: 'Secure Processing', description: 'Files processed locally, privacy guaranteed' },
     { icon: <Zap className="h-6 w-6" />, title: 'Multiple Options', description: 'Draw, type, or upload signature images' },
     { icon: <Users className="h-6 w-6" />, title: 'Batch Signing', description: 'Sign multiple PDFs at once' }
@@ -699,6 +779,102 @@ const PDFSign: React.FC = () => {
                 </div>
               </div>
 
+              {/* Digital Certificate */}
+              <div className="mb-8">
+                <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center space-x-2">
+                  <Shield className="h-5 w-5 text-violet-600" />
+                  <span>Digital Certificate (optional)</span>
+                </h3>
+                <p className="text-sm text-gray-600 mb-4">
+                  Load a PKCS#12 certificate (.p12 or .pfx) to sign cryptographically. The key never leaves your browser.
+                </p>
+                {!signingIdentity ? (
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-6 items-end">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Certificate File</label>
+                      <div className="flex items-center space-x-4">
+                        <button
+                          onClick={() => certificateInputRef.current?.click()}
+                          className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                        >
+                          Choose Certificate
+                        </button>
+                        {certificateFile && (
+                          <span className="text-sm text-gray-600 truncate">{certificateFile.name}</span>
+                        )}
+                        <input
+                          ref={certificateInputRef}
+                          type="file"
+                          accept=".p12,.pfx,application/x-pkcs12"
+                          onChange={handleCertificateSelect}
+                          className="hidden"
+                        />
+                      </div>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Password</label>
+                      <input
+                        type="password"
+                        value={certificatePassword}
+                        onChange={e => setCertificatePassword(e.target.value)}
+                        onKeyDown={e => { if (e.key === 'Enter') unlockCertificate(); }}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-violet-500 focus:border-transparent"
+                        placeholder="Certificate password"
+                        autoComplete="off"
+                      />
+                    </div>
+                    <div>
+                      <button
+                        onClick={unlockCertificate}
+                        disabled={!certificateFile || certificateLoading}
+                        className="w-full px-4 py-2 bg-violet-600 text-white rounded-lg hover:bg-violet-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {certificateLoading ? 'Opening...' : 'Load Certificate'}
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <div>
+                    <div className="bg-green-50 border border-green-200 rounded-xl p-4 mb-4 flex items-start justify-between gap-4">
+                      <div className="flex items-start space-x-3">
+                        <CheckCircle className="h-5 w-5 text-green-600 mt-0.5" />
+                        <div className="text-sm text-gray-700">
+                          <p className="font-semibold text-gray-900">{displayName(signingIdentity.certificate.subject)}</p>
+                          <p>Issued by {displayName(signingIdentity.certificate.issuer)}</p>
+                          <p>
+                            Valid {signingIdentity.certificate.notBefore.toLocaleDateString()} to {signingIdentity.certificate.notAfter.toLocaleDateString()}
+                            {' · '}{signingIdentity.keyAlgorithm === 'RSA' ? 'RSA' : `ECDSA ${signingIdentity.namedCurve}`} key
+                            {signingIdentity.chain.length > 0 && ` · ${signingIdentity.chain.length} issuer certificate${signingIdentity.chain.length > 1 ? 's' : ''} included`}
+                          </p>
+                          {signingIdentity.certificate.keyUsage.length > 0 &&
+                            !signingIdentity.certificate.keyUsage.some(usage => usage === 'digitalSignature' || usage === 'nonRepudiation') && (
+                            <p className="text-red-600">This certificate is not meant for signatures; validators may reject it.</p>
+                          )}
+                          <p className="text-gray-500 mt-1">
+                            The stamp becomes the signature field on the first page. Signed files are only appended to, so existing signatures stay valid.
+                          </p>
+                        </div>
+                      </div>
+                      <button onClick={removeCertificate} className="text-red-500 hover:text-red-700 transition-colors text-sm">Remove</button>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                      {([['reason', 'Reason', 'e.g. I approve this document'], ['location', 'Location', 'e.g. Berlin'], ['contactInfo', 'Contact', 'e.g. email or phone']] as const).map(([key, label, placeholder]) => (
+                        <div key={key}>
+                          <label className="block text-sm font-medium text-gray-700 mb-2">{label}</label>
+                          <input
+                            type="text"
+                            value={signatureDetails[key]}
+                            onChange={e => setSignatureDetails(prev => ({ ...prev, [key]: e.target.value }))}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-violet-500 focus:border-transparent"
+                            placeholder={placeholder}
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+
               {/* Action Buttons */}
               <div className="flex flex-col sm:flex-row gap-4">
                 <button
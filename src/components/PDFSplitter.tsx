@@ -1,8 +1,25 @@
 import React, { useState, useRef, useCallback } from 'react';
 import { Upload, Download, FileText, Users, Zap, Shield, CheckCircle, Sparkles, ArrowRight, Settings, RotateCcw, Scissors, FileType } from 'lucide-react';
 import { PDFDocument } from 'pdf-lib';
+import * as pdfjsLib from 'pdfjs-dist';
+import pdfWorker from 'pdfjs-dist/build/pdf.worker.min.js?url';
 import SEO from './SEO';
 import JSZip from 'jszip';
+import {
+  SplitPlan,
+  findBarcodePages,
+  findBlankPages,
+  findTextPages,
+  planAtPages,
+  planAtSeparators,
+  planByBookmarks,
+  planBySize,
+  planEveryPages,
+  planRanges,
+  writeSplitParts
+} from '../utils/pdfSplit';
+
+pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorker;
 
 interface UploadedPDF {
   id: string;
@@ -11,22 +28,59 @@ interface UploadedPDF {
   size: number;
 }
 
+// The planned parts of one input file
+interface FilePlan {
+  fileId: string;
+  fileName: string;
+  pageCount: number;
+  plan: SplitPlan;
+}
+
+const DEFAULT_SETTINGS = {
+  splitMode: 'every',
+  pagesPerFile: 1,
+  splitAtPages: '',
+  customSplit: '',
+  maxSizeMB: 5,
+  bookmarkLevel: 1,
+  // Percent of the page area that may be inked on a blank separator page
+  blankThreshold: 0.1,
+  separatorText: '',
+  barcodePattern: '',
+  removeSeparators: true,
+  maintainQuality: true,
+  addPageNumbers: false
+};
+
+// 1-based page list with runs collapsed, e.g. "1-3, 5"
+function formatPages(pageIndices: number[]): string {
+  const runs: string[] = [];
+  for (let i = 0; i < pageIndices.length; i++) {
+    let j = i;
+    while (j + 1 < pageIndices.length && pageIndices[j + 1] === pageIndices[j] + 1) j++;
+    runs.push(j > i ? `${pageIndices[i] + 1}-${pageIndices[j] + 1}` : `${pageIndices[i] + 1}`);
+    i = j;
+  }
+  return runs.join(', ');
+}
+
 const PDFSplitter: React.FC = () => {
   const [files, setFiles] = useState<UploadedPDF[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
   const [processedFiles, setProcessedFiles] = useState<{ name: string, blob: Blob }[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
-  const [settings, setSettings] = useState({
-    splitMode: 'every',
-    pagesPerFile: 1,
-    splitAtPages: '',
-    customSplit: '',
-    maintainQuality: true,
-    addPageNumbers: false
-  });
+  const [settings, setSettings] = useState(DEFAULT_SETTINGS);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [isDownloading, setIsDownloading] = useState(false);
+  const [plans, setPlans] = useState<FilePlan[] | null>(null);
+  const [isPlanning, setIsPlanning] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+
+  // A preview is only valid for the files and settings it was made with
+  React.useEffect(() => {
+    setPlans(null);
+  }, [files, settings]);
 
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     setError(null);
@@ -76,17 +130,72 @@ const PDFSplitter: React.FC = () => {
     setProcessedFiles([]);
     setError(null);
     setSuccess(null);
-    setSettings({
-      splitMode: 'every',
-      pagesPerFile: 1,
-      splitAtPages: '',
-      customSplit: '',
-      maintainQuality: true,
-      addPageNumbers: false
-    });
+    setSettings(DEFAULT_SETTINGS);
     if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
+  // Work out the parts of one file; separator modes render or read every page
+  const planFile = async (file: UploadedPDF, pdf: PDFDocument, bytes: ArrayBuffer): Promise<FilePlan> => {
+    const pageCount = pdf.getPageCount();
+    const baseName = file.name.replace('.pdf', '');
+    let plan: SplitPlan;
+    if (settings.splitMode === 'every') {
+      plan = planEveryPages(pageCount, settings.pagesPerFile, baseName);
+    } else if (settings.splitMode === 'at') {
+      plan = planAtPages(pageCount, settings.splitAtPages.split(',').map(p => parseInt(p.trim())).filter(p => !isNaN(p)), baseName);
+    } else if (settings.splitMode === 'custom') {
+      plan = planRanges(pageCount, settings.customSplit, baseName);
+    } else if (settings.splitMode === 'size') {
+      plan = planBySize(pdf, Math.max(0.1, settings.maxSizeMB) * 1024 * 1024, baseName);
+    } else if (settings.splitMode === 'bookmarks') {
+      plan = planByBookmarks(pdf, Math.max(1, settings.bookmarkLevel), baseName);
+    } else if (settings.splitMode === 'blank' || settings.splitMode === 'text' || settings.splitMode === 'barcode') {
+      const pdfjsDoc = await pdfjsLib.getDocument({ data: new Uint8Array(bytes.slice(0)) }).promise;
+      const onProgress = (pageNumber: number, total: number) => setStatus(`${file.name}: checking page ${pageNumber} of ${total}`);
+      try {
+        const separators = settings.splitMode === 'blank'
+          ? await findBlankPages(pdfjsDoc, settings.blankThreshold / 100, onProgress)
+          : settings.splitMode === 'text'
+            ? await findTextPages(pdfjsDoc, settings.separatorText, onProgress)
+            : await findBarcodePages(pdfjsDoc, settings.barcodePattern.trim(), onProgress);
+        plan = planAtSeparators(pageCount, separators, {
+          removeSeparators: settings.removeSeparators,
+          nameFromLabel: settings.splitMode === 'barcode'
+        }, baseName);
+      } finally {
+        pdfjsDoc.destroy();
+      }
+    } else {
+      // Default: split into individual pages
+      plan = { parts: pdf.getPageIndices().map(i => ({ name: `${baseName}_page${i + 1}`, pageIndices: [i] })), removedPages: [] };
+    }
+    return { fileId: file.id, fileName: file.name, pageCount, plan };
+  };
+
+  const previewSplit = async () => {
+    if (files.length === 0) {
+      setError('Please select at least one PDF file to split.');
+      return;
+    }
+    setIsPlanning(true);
+    setError(null);
+    setSuccess(null);
+    const planned: FilePlan[] = [];
+    for (const file of files) {
+      try {
+        const fileBuffer = await file.file.arrayBuffer();
+        const pdf = await PDFDocument.load(fileBuffer);
+        planned.push(await planFile(file, pdf, fileBuffer));
+      } catch (error) {
+        console.error(`Error planning ${file.name}:`, error);
+        setError(`Error processing ${file.name}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+    setPlans(planned);
+    setStatus(null);
+    setIsPlanning(false);
+  };
+
   const processFiles = async () => {
     if (files.length === 0) {
       setError('Please select at least one PDF file to split.');
@@ -101,163 +210,21 @@ const PDFSplitter: React.FC = () => {
         try {
           const fileBuffer = await file.file.arrayBuffer();
           const pdf = await PDFDocument.load(fileBuffer);
-          const pageCount = pdf.getPageCount();
-          if (settings.splitMode === 'every') {
-            // Split every N pages
-            const pagesPerFile = Math.max(1, settings.pagesPerFile);
-            const numFiles = Math.ceil(pageCount / pagesPerFile);
-            for (let i = 0; i < numFiles; i++) {
-              const newPdf = await PDFDocument.create();
-              const startPage = i * pagesPerFile;
-              const endPage = Math.min((i + 1) * pagesPerFile, pageCount);
-              const pages = await newPdf.copyPages(pdf, Array.from({ length: endPage - startPage }, (_, j) => startPage + j));
-              pages.forEach(page => newPdf.addPage(page));
-              // Add page numbers if enabled
-              if (settings.addPageNumbers) {
-                const npages = newPdf.getPageCount();
-                newPdf.getPages().forEach((page, idx) => {
-                  const { width, height } = page.getSize();
-                  page.drawText(`${idx + 1}`, { x: width - 50, y: 30, size: 12 });
-                });
-              }
-              const pdfBytes = await newPdf.save();
-              const blob = new Blob([pdfBytes], { type: 'application/pdf' });
-              const fileName = file.name.replace('.pdf', '');
-              processed.push({ name: `${fileName}_part${i + 1}.pdf`, blob });
-            }
-          } else if (settings.splitMode === 'at') {
-            // Split at specific pages
-            const splitPages = settings.splitAtPages.split(',').map(p => parseInt(p.trim())).filter(p => !isNaN(p) && p > 0 && p < pageCount);
-            if (splitPages.length === 0) {
-              const newPdf = await PDFDocument.create();
-              const pages = await newPdf.copyPages(pdf, pdf.getPageIndices());
-              pages.forEach(page => newPdf.addPage(page));
-              if (settings.addPageNumbers) {
-                newPdf.getPages().forEach((page, idx) => {
-                  const { width, height } = page.getSize();
-                  page.drawText(`${idx + 1}`, { x: width - 50, y: 30, size: 12 });
-                });
-              }
-              const pdfBytes = await newPdf.save();
-              const blob = new Blob([pdfBytes], { type: 'application/pdf' });
-              processed.push({ name: file.name, blob });
-            } else {
-              let startPage = 0;
-              for (let i = 0; i <= splitPages.length; i++) {
-                const endPage = i < splitPages.length ? splitPages[i] : pageCount;
-                if (endPage > startPage) {
-                  const newPdf = await PDFDocument.create();
-                  const pages = await newPdf.copyPages(pdf, Array.from({ length: endPage - startPage }, (_, j) => startPage + j));
-                  pages.forEach(page => newPdf.addPage(page));
-                  if (settings.addPageNumbers) {
-                    newPdf.getPages().forEach((page, idx) => {
-                      const { width, height } = page.getSize();
-                      page.drawText(`${idx + 1}`, { x: width - 50, y: 30, size: 12 });
-                    });
-                  }
-                  const pdfBytes = await newPdf.save();
-                  const blob = new Blob([pdfBytes], { type: 'application/pdf' });
-                  const fileName = file.name.replace('.pdf', '');
-                  processed.push({ name: `${fileName}_part${i + 1}.pdf`, blob });
-                }
-                startPage = endPage;
-              }
-            }
-          } else if (settings.splitMode === 'custom') {
-            // Custom split: e.g., 1-3,4-7,8-10
-            const ranges = settings.customSplit.split(',').map(r => r.trim()).filter(Boolean);
-            for (let i = 0; i < ranges.length; i++) {
-              const [start, end] = ranges[i].split('-').map(n => parseInt(n.trim()));
-              if (!isNaN(start) && !isNaN(end) && start > 0 && end >= start && end <= pageCount) {
-                const newPdf = await PDFDocument.create();
-                const pages = await newPdf.copyPages(pdf, Array.from({ length: end - start + 1 }, (_, j) => start - 1 + j));
-                pages.forEach(page => newPdf.addPage(page));
-                if (settings.addPageNumbers) {
-                  newPdf.getPages().forEach((page, idx) => {
-                    const { width, height } = page.getSize();
-                    page.drawText(`${idx + 1}`, { x: width - 50, y: 30, size: 12 });
-                  });
-                }
-                const pdfBytes = await newPdf.save();
-                const blob = new Blob([pdfBytes], { type: 'application/pdf' });
-                const fileName = file.name.replace('.pdf', '');
-                processed.push({ name: `${fileName}_part${i + 1}.pdf`, blob });
-              }
-            }
-          } else if (settings.splitMode === 'size') {
-            // Split by file size (approximate, by page count)
-            const maxSizeMB = parseInt(settings.customSplit) || 1; // Use customSplit as MB input
-            const currentPdf = await PDFDocument.create();
-            let currentPages: number[] = [];
-            let part = 1;
-            for (let i = 0; i < pageCount; i++) {
-              currentPages.push(i);
-              const tempPdf = await PDFDocument.create();
-              const tempPages = await tempPdf.copyPages(pdf, currentPages);
-              tempPages.forEach(page => tempPdf.addPage(page));
-              const tempBytes = await tempPdf.save();
-              if (tempBytes.byteLength / (1024 * 1024) > maxSizeMB && currentPages.length > 1) {
-                // Save previous part
-                currentPages.pop();
-                const newPdf = await PDFDocument.create();
-                const pages = await newPdf.copyPages(pdf, currentPages);
-                pages.forEach(page => newPdf.addPage(page));
-                if (settings.addPageNumbers) {
-                  newPdf.getPages().forEach((page, idx) => {
-                    const { width, height } = page.getSize();
-                    page.drawText(`${idx + 1}`, { x: width - 50, y: 30, size: 12 });
-                  });
-                }
-                const pdfBytes = await newPdf.save();
-                const blob = new Blob([pdfBytes], { type: 'application/pdf' });
-                const fileName = file.name.replace('.pdf', '');
-                processed.push({ name: `${fileName}_part${part}.pdf`, blob });
-                part++;
-                currentPages = [i];
-              }
-            }
-            // Save last part
-            if (currentPages.length > 0) {
-              const newPdf = await PDFDocument.create();
-              const pages = await newPdf.copyPages(pdf, currentPages);
-              pages.forEach(page => newPdf.addPage(page));
-              if (settings.addPageNumbers) {
-                newPdf.getPages().forEach((page, idx) => {
-                  const { width, height } = page.getSize();
-                  page.drawText(`${idx + 1}`, { x: width - 50, y: 30, size: 12 });
-                });
-              }
-              const pdfBytes = await newPdf.save();
-              const blob = new Blob([pdfBytes], { type: 'application/pdf' });
-              const fileName = file.name.replace('.pdf', '');
-              processed.push({ name: `${fileName}_part${part}.pdf`, blob });
-            }
-          } else {
-            // Default: split into individual pages
-            for (let i = 0; i < pageCount; i++) {
-              const newPdf = await PDFDocument.create();
-              const [page] = await newPdf.copyPages(pdf, [i]);
-              newPdf.addPage(page);
-              if (settings.addPageNumbers) {
-                const { width, height } = page.getSize();
-                page.drawText(`1`, { x: width - 50, y: 30, size: 12 });
-              }
-              const pdfBytes = await newPdf.save();
-              const blob = new Blob([pdfBytes], { type: 'application/pdf' });
-              const fileName = file.name.replace('.pdf', '');
-              processed.push({ name: `${fileName}_page${i + 1}.pdf`, blob });
-            }
-          }
+          const filePlan = plans?.find(p => p.fileId === file.id) ?? await planFile(file, pdf, fileBuffer);
+          setStatus(`${file.name}: writing ${filePlan.plan.parts.length} part(s)`);
+          processed.push(...await writeSplitParts(pdf, filePlan.plan, { addPageNumbers: settings.addPageNumbers }));
         } catch (error) {
           console.error(`Error processing ${file.name}:`, error);
-          setError(`Error processing ${file.name}. Skipping this file.`);
+          setError(`Error processing ${file.name}: ${error instanceof Error ? error.message : error}. Skipping this file.`);
         }
       }
       setProcessedFiles(processed);
+      setStatus(null);
       setIsProcessing(false);
       setSuccess(`PDF splitting completed! Created ${processed.length} files.`);
     } catch (error) {
       console.error('Error splitting PDFs:', error);
+      setStatus(null);
       setIsProcessing(false);
       setError('Error splitting PDFs. Please try again.');
     }
@@ -445,15 +412,55 @@ const PDFSplitter: React.FC = () => {
                 </div>
               )}
 
-              {/* Live Preview (placeholder) */}
+              {/* Planned Parts */}
               <div className="mb-8">
                 <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center space-x-2">
                   <Scissors className="h-5 w-5 text-violet-600" />
-                  <span>Live Preview</span>
+                  <span>Planned Parts</span>
                 </h3>
-                <div className="bg-gray-50 rounded-xl p-4 text-center text-gray-500">
-                  <p>No live preview available for PDF splitting.<br/>Splitting will create separate PDF files for each section.</p>
-                </div>
+                {plans ? (
+                  <div className="space-y-4">
+                    {plans.map(filePlan => (
+                      <div key={filePlan.fileId} className="bg-gray-50 rounded-xl p-4">
+                        <p className="text-sm font-medium text-gray-900 mb-2">
+                          {filePlan.fileName}: {filePlan.plan.parts.length} part(s) from {filePlan.pageCount} pages
+                          {filePlan.plan.removedPages.length > 0 && `, separator pages ${formatPages(filePlan.plan.removedPages)} removed`}
+                        </p>
+                        {filePlan.plan.parts.length === 0 ? (
+                          <p className="text-sm text-gray-500">No parts match these settings.</p>
+                        ) : (
+                          <table className="w-full text-sm text-left bg-white/70 rounded-lg">
+                            <thead>
+                              <tr className="text-gray-600">
+                                <th className="px-3 py-2">File</th>
+                                <th className="px-3 py-2">Pages</th>
+                                <th className="px-3 py-2">{settings.splitMode === 'size' ? 'Estimated Size' : 'Starts At'}</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {filePlan.plan.parts.map(part => (
+                                <tr key={part.name} className="border-t border-gray-200">
+                                  <td className="px-3 py-2 break-all">{part.name}.pdf</td>
+                                  <td className="px-3 py-2">{formatPages(part.pageIndices)} ({part.pageIndices.length})</td>
+                                  <td className="px-3 py-2 text-gray-600">
+                                    {part.estimatedBytes !== undefined
+                                      ? `≈ ${(part.estimatedBytes / 1024 / 1024).toFixed(2)} MB${part.estimatedBytes > settings.maxSizeMB * 1024 * 1024 ? ' (single page over the limit)' : ''}`
+                                      : part.label ?? '-'}
+                                  </td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="bg-gray-50 rounded-xl p-4 text-center text-gray-500">
+                    <p>Preview the split to see which pages go into each file before anything is written.</p>
+                  </div>
+                )}
+                {status && <p className="mt-2 text-sm text-gray-600">{status}</p>}
               </div>
 
               {/* Split Settings */}
@@ -474,39 +481,128 @@ const PDFSplitter: React.FC = () => {
                       <option value="at">Split at Specific Pages</option>
                       <option value="custom">Custom Split</option>
                       <option value="size">Split by File Size</option>
+                      <option value="bookmarks">Split at Bookmarks</option>
+                      <option value="blank">Split at Blank Pages</option>
+                      <option value="text">Split at Pages with Text</option>
+                      <option value="barcode">Split at Pages with Barcode</option>
                     </select>
                   </div>
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-2">Pages Per File</label>
-                    <input
-                      type="number"
-                      value={settings.pagesPerFile}
-                      onChange={e => setSettings(prev => ({ ...prev, pagesPerFile: Number(e.target.value) }))}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-violet-500 focus:border-transparent"
-                      min="1"
-                      max="100"
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-2">Split at Pages</label>
-                    <input
-                      type="text"
-                      value={settings.splitAtPages}
-                      onChange={e => setSettings(prev => ({ ...prev, splitAtPages: e.target.value }))}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-violet-500 focus:border-transparent"
-                      placeholder="e.g., 5, 10, 15"
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-2">Custom Split</label>
-                    <input
-                      type="text"
-                      value={settings.customSplit}
-                      onChange={e => setSettings(prev => ({ ...prev, customSplit: e.target.value }))}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-violet-500 focus:border-transparent"
-                      placeholder="e.g., 1-3, 4-7, 8-10"
-                    />
-                  </div>
+                  {settings.splitMode === 'every' && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Pages Per File</label>
+                      <input
+                        type="number"
+                        value={settings.pagesPerFile}
+                        onChange={e => setSettings(prev => ({ ...prev, pagesPerFile: Number(e.target.value) }))}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-violet-500 focus:border-transparent"
+                        min="1"
+                        max="100"
+                      />
+                    </div>
+                  )}
+                  {settings.splitMode === 'at' && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Split at Pages</label>
+                      <input
+                        type="text"
+                        value={settings.splitAtPages}
+                        onChange={e => setSettings(prev => ({ ...prev, splitAtPages: e.target.value }))}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-violet-500 focus:border-transparent"
+                        placeholder="e.g., 5, 10, 15"
+                      />
+                    </div>
+                  )}
+                  {settings.splitMode === 'custom' && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Custom Split</label>
+                      <input
+                        type="text"
+                        value={settings.customSplit}
+                        onChange={e => setSettings(prev => ({ ...prev, customSplit: e.target.value }))}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-violet-500 focus:border-transparent"
+                        placeholder="e.g., 1-3, 4-7, 8-10"
+                      />
+                    </div>
+                  )}
+                  {settings.splitMode === 'size' && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Maximum File Size (MB)</label>
+                      <input
+                        type="number"
+                        value={settings.maxSizeMB}
+                        onChange={e => setSettings(prev => ({ ...prev, maxSizeMB: Number(e.target.value) }))}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-violet-500 focus:border-transparent"
+                        min="0.1"
+                        step="0.5"
+                      />
+                    </div>
+                  )}
+                  {settings.splitMode === 'bookmarks' && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Bookmark Level</label>
+                      <input
+                        type="number"
+                        value={settings.bookmarkLevel}
+                        onChange={e => setSettings(prev => ({ ...prev, bookmarkLevel: Number(e.target.value) }))}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-violet-500 focus:border-transparent"
+                        min="1"
+                        max="10"
+                      />
+                      <p className="text-xs text-gray-500 mt-1">1 splits at top-level bookmarks, 2 also at their children, and so on</p>
+                    </div>
+                  )}
+                  {settings.splitMode === 'blank' && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Blank Page Ink Limit: {settings.blankThreshold}%</label>
+                      <input
+                        type="range"
+                        min="0"
+                        max="2"
+                        step="0.05"
+                        value={settings.blankThreshold}
+                        onChange={e => setSettings(prev => ({ ...prev, blankThreshold: Number(e.target.value) }))}
+                        className="w-full"
+                      />
+                      <p className="text-xs text-gray-500 mt-1">Raise this for scans with specks or bleed-through</p>
+                    </div>
+                  )}
+                  {settings.splitMode === 'text' && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Split Before Pages Containing</label>
+                      <input
+                        type="text"
+                        value={settings.separatorText}
+                        onChange={e => setSettings(prev => ({ ...prev, separatorText: e.target.value }))}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-violet-500 focus:border-transparent"
+                        placeholder="e.g., INVOICE"
+                      />
+                    </div>
+                  )}
+                  {settings.splitMode === 'barcode' && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Barcode Value Contains</label>
+                      <input
+                        type="text"
+                        value={settings.barcodePattern}
+                        onChange={e => setSettings(prev => ({ ...prev, barcodePattern: e.target.value }))}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-violet-500 focus:border-transparent"
+                        placeholder="Leave empty to split at any barcode"
+                      />
+                      <p className="text-xs text-gray-500 mt-1">Parts are named after the barcode value</p>
+                    </div>
+                  )}
+                  {(settings.splitMode === 'blank' || settings.splitMode === 'text' || settings.splitMode === 'barcode') && (
+                    <div className="flex items-center space-x-2">
+                      <input
+                        type="checkbox"
+                        id="removeSeparators"
+                        checked={settings.removeSeparators}
+                        onChange={e => setSettings(prev => ({ ...prev, removeSeparators: e.target.checked }))}
+                        className="w-4 h-4 text-violet-600 focus:ring-violet-500 border-gray-300 rounded"
+                      />
+                      <label htmlFor="removeSeparators" className="text-sm font-medium text-gray-700">Remove Separator Pages</label>
+                    </div>
+                  )}
                   <div className="flex items-center space-x-2">
                     <input
                       type="checkbox"
@@ -532,9 +628,17 @@ const PDFSplitter: React.FC = () => {
 
               {/* Action Buttons */}
               <div className="flex flex-col sm:flex-row gap-4">
+                <button
+                  onClick={previewSplit}
+                  disabled={files.length === 0 || isProcessing || isPlanning}
+                  className="px-8 py-4 border border-violet-300 text-violet-700 rounded-xl font-semibold hover:bg-violet-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                >
+                  <FileText className="h-5 w-5" />
+                  {isPlanning ? 'Analyzing...' : 'Preview Split'}
+                </button>
                 <button
                   onClick={processFiles}
-                  disabled={files.length === 0 || isProcessing}
+                  disabled={files.length === 0 || isProcessing || isPlanning}
                   className="flex-1 bg-gradient-to-r from-violet-600 to-blue-600 text-white px-8 py-4 rounded-xl font-semibold hover:shadow-lg transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
                 >
                   {isProcessing ? (
@@ -3,7 +3,8 @@ import { Upload, Download, FileText, Users, Zap, Shield, CheckCircle, Sparkles,
 import SEO from './SEO';
 import JSZip from 'jszip';
 import * as pdfjsLib from 'pdfjs-dist';
-import { Document, Packer, Paragraph, TextRun } from 'docx';
+import { extractDocumentLayout } from '../utils/pdfLayout';
+import { layoutToDocx, layoutToHtml, layoutToRtf, layoutToText } from '../utils/wordExport';
 pdfjsLib.GlobalWorkerOptions.workerSrc = `//cdnjs.cloudflare.com/ajax/libs/pdf.js/${pdfjsLib.version}/pdf.worker.min.js`;
 
 const PDFToWordConverter: React.FC = () => {
@@ -52,89 +53,47 @@ const PDFToWordConverter: React.FC = () => {
       const processed: { name: string, blob: Blob, preview?: string }[] = [];
       const zip = new JSZip();
       
+      let skippedImages = 0;
       for (const file of files) {
         try {
-          // Use imported pdfjsLib
           const fileBuffer = await file.arrayBuffer();
-          const pdfDoc = await pdfjsLib.getDocument({ data: fileBuffer }).promise;
-          const numPages = pdfDoc.numPages;
-          
-          let extractedText = '';
-          
-          // Extract text from each page
-          for (let pageNum = 1; pageNum <= numPages; pageNum++) {
-            const page = await pdfDoc.getPage(pageNum);
-            
-            // Extract text
-            const textContent = await page.getTextContent();
-            const pageText = textContent.items
-              .map((item: any) => item.str)
-              .join(' ');
-            
-            extractedText += pageText + '\n\n';
-          }
-          
-          // Create Word document based on format
+          // pdf.js takes ownership of the buffer it is given, so it gets a copy
+          const pdfDoc = await pdfjsLib.getDocument({ data: new Uint8Array(fileBuffer.slice(0)) }).promise;
+          const layout = await extractDocumentLayout(fileBuffer, pdfDoc, {
+            detectColumns: settings.maintainLayout,
+            detectTables: settings.maintainLayout,
+            includeImages: settings.extractImages && settings.format === 'docx',
+          });
+          skippedImages += layout.skippedImages;
+          const exportOptions = { preserveFormatting: settings.preserveFormatting, maintainLayout: settings.maintainLayout };
+          const extractedText = layoutToText(layout);
+
           let blob: Blob;
           let fileName: string;
-          
+
           if (settings.format === 'docx') {
-            // Create DOCX using docx library (static import)
-            const doc = new Document({
-              sections: [{
-                properties: {},
-                children: [
-                  new Paragraph({
-                    children: [
-                      new TextRun({
-                        text: extractedText,
-                        size: 24,
-                        font: 'Calibri'
-                      })
-                    ]
-                  })
-                ]
-              }]
-            });
-            
-            const buffer = await Packer.toBuffer(doc);
-            blob = new Blob([buffer], { 
-              type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' 
-            });
+            blob = await layoutToDocx(layout, exportOptions);
             fileName = file.name.replace(/\.pdf$/i, '.docx');
-            
           } else if (settings.format === 'rtf') {
-            // Create RTF document
-            const rtfContent = `{\\rtf1\\ansi\\deff0 {\\fonttbl {\\f0 Times New Roman;}}
-\\f0\\fs24 ${extractedText.replace(/\n/g, '\\par ')} }`;
-            
-            blob = new Blob([rtfContent], { type: 'application/rtf' });
+            blob = new Blob([layoutToRtf(layout, exportOptions)], { type: 'application/rtf' });
             fileName = file.name.replace(/\.pdf$/i, '.rtf');
-            
           } else if (settings.format === 'doc') {
-            // Create legacy DOC as HTML
-            const htmlContent = `<!DOCTYPE html>\n<html>\n<head>\n<meta charset='UTF-8'><title>Converted PDF</title></head>\n<body>\n${extractedText.split('\n').map(line => `<p>${line.replace(/</g, '&lt;').replace(/>/g, '&gt;')}</p>`).join('')}\n</body>\n</html>`;
-            blob = new Blob([htmlContent], { type: 'application/msword' });
+            // Legacy DOC as HTML, which Word opens directly
+            blob = new Blob([layoutToHtml(layout, exportOptions)], { type: 'application/msword' });
             fileName = file.name.replace(/\.pdf$/i, '.doc');
           } else {
             // Fallback to plain text
             blob = new Blob([extractedText], { type: 'text/plain' });
             fileName = file.name.replace(/\.pdf$/i, '.txt');
           }
-          
+
           // For preview: store first 20 lines of first file
           let preview = '';
           if (processed.length === 0) {
-            if (settings.format === 'docx') {
-              preview = extractedText.split('\n').slice(0, 20).join('\n');
-            } else if (settings.format === 'rtf') {
-              preview = extractedText.split('\n').slice(0, 20).join('\n');
-            } else {
-              preview = extractedText.split('\n').slice(0, 20).join('\n');
-            }
+            preview = extractedText.replace(/\f/g, '').split('\n').slice(0, 20).join('\n');
             setPreviewText(preview);
           }
-          
+
           processed.push({ name: fileName, blob, preview });
           zip.file(fileName, blob);
         } catch (error) {
@@ -149,7 +108,10 @@ const PDFToWordConverter: React.FC = () => {
         setZipBlob(zipContent);
       }
       setIsProcessing(false);
-      if (!error) alert(`PDF to Word conversion completed! Processed ${processed.length} files.`);
+      if (!error) {
+        const imageNote = skippedImages > 0 ? ` ${skippedImages} image(s) in unsupported formats were left out.` : '';
+        alert(`PDF to Word conversion completed! Processed ${processed.length} files.${imageNote}`);
+      }
     } catch (error) {
       setError(error instanceof Error ? error.message : String(error));
       setIsProcessing(false);
@@ -1,13 +1,24 @@
 import React, { useState, useRef, useCallback } from 'react';
-import { PDFDocument } from 'pdf-lib';
 import { Upload, FileLock, Key, Download, Loader2, AlertTriangle, CheckCircle, Users, Zap, Shield, CheckCircle as CheckCircleIcon, Sparkles, ArrowRight, Settings, RotateCcw, Unlock, FileType } from 'lucide-react';
 import SEO from './SEO';
 import { NotificationProvider, useNotification } from './NotificationProvider';
+import { decryptPDF, encryptPDF, PDFPasswordError, PDFSecurityInfo } from '../utils/pdfSecurity';
+import { randomBytes, toHex } from '../utils/crypto';
+
+interface UnlockedPDF {
+  name: string;
+  blob: Blob;
+  security: PDFSecurityInfo | null;
+}
+
+const fileKey = (file: File) => `${file.name}-${file.size}-${file.lastModified}`;
 
 const PDFUnlocker: React.FC = () => {
   const [files, setFiles] = useState<File[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [processedFiles, setProcessedFiles] = useState<{ name: string, blob: Blob }[]>([]);
+  const [processedFiles, setProcessedFiles] = useState<UnlockedPDF[]>([]);
+  const [filePasswords, setFilePasswords] = useState<Record<string, string>>({});
+  const [lockedFiles, setLockedFiles] = useState<string[]>([]);
   const [settings, setSettings] = useState({
     unlockMode: 'password',
     removeRestrictions: true,
@@ -39,63 +50,64 @@ const PDFUnlocker: React.FC = () => {
     setFiles(prev => prev.filter((_, i) => i !== index));
   };
 
+  const setFilePassword = (file: File, password: string) => {
+    setFilePasswords(prev => ({ ...prev, [fileKey(file)]: password }));
+  };
+
   const processFiles = async () => {
     if (files.length === 0) return;
     setIsProcessing(true);
     
     try {
-      const processed: { name: string, blob: Blob }[] = [];
+      const processed: UnlockedPDF[] = [];
+      const locked: string[] = [];
       
       for (const file of files) {
         try {
-          // Load PDF using pdf-lib
-          const { PDFDocument } = await import('pdf-lib');
-          
           const fileBuffer = await file.arrayBuffer();
-          let pdfDoc;
+          const password = filePasswords[fileKey(file)] ?? settings.password;
+          let result;
           
           try {
-            // Try to load the PDF without password first
-            pdfDoc = await PDFDocument.load(fileBuffer);
+            // Authenticate with the user or owner password and decrypt every string and stream
+            result = await decryptPDF(fileBuffer, password);
           } catch (error) {
-            notify(`${file.name} appears to be password protected or corrupted. Please ensure the file is not password protected.`, 'error');
-            continue;
+            if (error instanceof PDFPasswordError) {
+              locked.push(fileKey(file));
+              notify(`${file.name} requires a password. Enter it next to the file and try again.`, 'error');
+              continue;
+            }
+            throw error;
           }
           
-          // Create a new unlocked PDF
-          const unlockedPdf = await PDFDocument.create();
-          
-          // Copy all pages from the original PDF
-          const pages = await unlockedPdf.copyPages(pdfDoc, pdfDoc.getPageIndices());
+          let pdfBytes = result.bytes;
           
-          // Add all pages to the unlocked PDF
-          pages.forEach(page => {
-            unlockedPdf.addPage(page);
-          });
-          
-          // Remove restrictions if enabled
-          if (settings.removeRestrictions) {
-            // Note: pdf-lib doesn't have direct restriction removal
-            // This creates an unlocked version by copying content
+          // Keep the original restrictions without an open password when requested
+          if (result.security && !settings.removeRestrictions) {
+            pdfBytes = await encryptPDF(pdfBytes, {
+              userPassword: '',
+              ownerPassword: toHex(randomBytes(16)),
+              algorithm: 'aes-256',
+              permissions: result.security.permissions
+            });
           }
           
-          // Save the unlocked PDF
-          const pdfBytes = await unlockedPdf.save();
-          const blob = new Blob([pdfBytes], { type: 'application/pdf' });
-          
           processed.push({
             name: file.name.replace(/\.pdf$/i, '_unlocked.pdf'),
-            blob: blob
+            blob: new Blob([pdfBytes], { type: 'application/pdf' }),
+            security: result.security
           });
           
         } catch (error) {
+          console.error(`Error unlocking ${file.name}:`, error);
           notify(`Error processing ${file.name}. Skipping this file.`, 'error');
         }
       }
       
+      setLockedFiles(locked);
       setProcessedFiles(processed);
       setIsProcessing(false);
-      notify(`PDF unlocking completed! Processed ${processed.length} files.`, 'success');
+      notify(`PDF unlocking completed! Processed ${processed.length} files.`, processed.length > 0 ? 'success' : 'info');
       
     } catch (error) {
       notify('Error unlocking PDFs. Please try again.', 'error');
@@ -215,6 +227,18 @@ const PDFUnlocker: React.FC = () => {
                         <div className="flex-1 min-w-0">
                           <p className="text-sm font-medium text-gray-900 truncate">{file.name}</p>
                           <p className="text-xs text-gray-500">{(file.size / 1024 / 1024).toFixed(2)} MB</p>
+                          {lockedFiles.includes(fileKey(file)) && (
+                            <div className="mt-2 flex items-center space-x-2">
+                              <Key className="h-4 w-4 text-amber-500 flex-shrink-0" />
+                              <input
+                                type="password"
+                                value={filePasswords[fileKey(file)] ?? ''}
+                                onChange={e => setFilePassword(file, e.target.value)}
+                                placeholder="Password for this file"
+                                className="w-full px-2 py-1 text-xs border border-amber-300 rounded-md focus:ring-2 focus:ring-violet-500 focus:border-transparent"
+                              />
+                            </div>
+                          )}
                         </div>
                         <button onClick={() => removeFile(index)} className="text-red-500 hover:text-red-700 transition-colors">×</button>
                       </div>
@@ -241,6 +265,16 @@ const PDFUnlocker: React.FC = () => {
                   <span>Unlock Settings</span>
                 </h3>
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Password</label>
+                    <input
+                      type="password"
+                      value={settings.password}
+                      onChange={e => setSettings(prev => ({ ...prev, password: e.target.value }))}
+                      placeholder="Used for all files"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-violet-500 focus:border-transparent"
+                    />
+                  </div>
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">Unlock Mode</label>
                     <select
@@ -287,6 +321,53 @@ const PDFUnlocker: React.FC = () => {
                 </div>
               </div>
 
+              {/* Security Report */}
+              {processedFiles.length > 0 && (
+                <div className="mb-8">
+                  <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center space-x-2">
+                    <FileLock className="h-5 w-5 text-violet-600" />
+                    <span>Original Security</span>
+                  </h3>
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm text-left">
+                      <thead>
+                        <tr className="text-gray-500 border-b border-gray-200">
+                          <th className="py-2 pr-4 font-medium">File</th>
+                          <th className="py-2 pr-4 font-medium">Encryption</th>
+                          <th className="py-2 pr-4 font-medium">Opened As</th>
+                          <th className="py-2 pr-4 font-medium">Print</th>
+                          <th className="py-2 pr-4 font-medium">Copy</th>
+                          <th className="py-2 pr-4 font-medium">Modify</th>
+                          <th className="py-2 pr-4 font-medium">Annotate</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {processedFiles.map((file, index) => (
+                          <tr key={index} className="border-b border-gray-100">
+                            <td className="py-2 pr-4 text-gray-900 truncate max-w-xs">{file.name}</td>
+                            {file.security ? (
+                              <>
+                                <td className="py-2 pr-4 text-gray-700">{file.security.algorithm} (R{file.security.revision})</td>
+                                <td className="py-2 pr-4 text-gray-700">{file.security.authenticatedAs === 'owner' ? 'Owner' : 'User'}</td>
+                                {[file.security.permissions.printing, file.security.permissions.copying, file.security.permissions.modifying, file.security.permissions.annotating].map((allowed, i) => (
+                                  <td key={i} className="py-2 pr-4">
+                                    {allowed
+                                      ? <CheckCircle className="h-4 w-4 text-green-600" />
+                                      : <AlertTriangle className="h-4 w-4 text-amber-500" />}
+                                  </td>
+                                ))}
+                              </>
+                            ) : (
+                              <td colSpan={6} className="py-2 pr-4 text-gray-500">Not encrypted</td>
+                            )}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              )}
+
               {/* Action Buttons */}
               <div className="flex flex-col sm:flex-row gap-4">
                 <button
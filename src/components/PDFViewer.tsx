@@ -1,8 +1,9 @@
 import React, { useState, useRef, useCallback, useEffect } from 'react';
-import { Upload, Download, FileText, Users, Zap, Shield, CheckCircle, Sparkles, ArrowRight, Settings, RotateCcw, Eye, FileType, X } from 'lucide-react';
+import { Upload, Download, FileText, Users, Zap, Shield, CheckCircle, Sparkles, ArrowRight, Settings, RotateCcw, Eye, FileType, X, AlertTriangle } from 'lucide-react';
 import SEO from './SEO';
 import { Document, Page, pdfjs, Thumbnail, Outline } from 'react-pdf';
 import pdfWorker from 'pdfjs-dist/build/pdf.worker.min.js?url';
+import { describeChanges, reportToJson, reportToText, SignatureValidation, validatePdfSignatures, ValidationReport } from '../utils/pdfSignatureValidation';
 pdfjs.GlobalWorkerOptions.workerSrc = pdfWorker;
 
 // Notification banner component
@@ -17,6 +18,13 @@ const Banner = ({ message, type, onClose }: { message: string, type: 'success' |
   </div>
 );
 
+const SIGNATURE_STATUS_STYLES: Record<SignatureValidation['status'], { label: string, className: string }> = {
+  valid: { label: 'Valid', className: 'border-green-300 bg-green-50 text-green-800' },
+  warning: { label: 'Valid with warnings', className: 'border-amber-300 bg-amber-50 text-amber-800' },
+  invalid: { label: 'Invalid', className: 'border-red-300 bg-red-50 text-red-800' },
+  unsigned: { label: 'Not signed', className: 'border-gray-300 bg-gray-50 text-gray-700' }
+};
+
 const PDFViewer: React.FC = () => {
   const [files, setFiles] = useState<File[]>([]);
   const [selectedFileIdx, setSelectedFileIdx] = useState(0);
@@ -38,6 +46,8 @@ const PDFViewer: React.FC = () => {
   const [thumbnails, setThumbnails] = useState<string[]>([]);
   const [outline, setOutline] = useState<any[]>([]);
   const [pdfUrl, setPdfUrl] = useState<string | null>(null);
+  const [signatureReport, setSignatureReport] = useState<ValidationReport | null>(null);
+  const [isValidating, setIsValidating] = useState(false);
 
   // Clean up object URLs
   useEffect(() => {
@@ -119,6 +129,42 @@ const PDFViewer: React.FC = () => {
     }
   }, [files, selectedFileIdx]);
 
+  // Validate the signatures of the selected file
+  useEffect(() => {
+    const file = files[selectedFileIdx];
+    setSignatureReport(null);
+    if (!file) return;
+    let cancelled = false;
+    const validate = async () => {
+      setIsValidating(true);
+      try {
+        const report = await validatePdfSignatures(new Uint8Array(await file.arrayBuffer()), file.name);
+        if (!cancelled) setSignatureReport(report);
+      } catch (error) {
+        if (!cancelled) setBanner({ message: `Could not check signatures: ${error instanceof Error ? error.message : String(error)}`, type: 'error' });
+      } finally {
+        if (!cancelled) setIsValidating(false);
+      }
+    };
+    validate();
+    return () => { cancelled = true; };
+  }, [files, selectedFileIdx]);
+
+  const exportSignatureReport = (format: 'txt' | 'json') => {
+    if (!signatureReport) return;
+    const blob = format === 'json'
+      ? new Blob([reportToJson(signatureReport)], { type: 'application/json' })
+      : new Blob([reportToText(signatureReport)], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${signatureReport.fileName.replace(/\.pdf$/i, '')}-signatures.${format}`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
   // Generate thumbnails
   useEffect(() => {
     const genThumbnails = async () => {
@@ -391,6 +437,84 @@ const PDFViewer: React.FC = () => {
                 </div>
               )}
 
+              {/* Signatures */}
+              {files.length > 0 && (
+                <div className="mb-8">
+                  <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center space-x-2">
+                    <Shield className="h-5 w-5 text-violet-600" />
+                    <span>Signatures</span>
+                  </h3>
+                  {isValidating && <p className="text-sm text-gray-600">Checking signatures...</p>}
+                  {!isValidating && signatureReport && signatureReport.signatures.length === 0 && (
+                    <p className="text-sm text-gray-600">This document has no signature fields.</p>
+                  )}
+                  {!isValidating && signatureReport && signatureReport.signatures.length > 0 && (
+                    <>
+                      <div className="space-y-3 mb-4">
+                        {signatureReport.signatures.map((result, idx) => {
+                          const style = SIGNATURE_STATUS_STYLES[result.status];
+                          return (
+                            <div
+                              key={result.fieldName + idx}
+                              className={`border rounded-xl p-4 ${style.className} ${result.pageNumber ? 'cursor-pointer' : ''}`}
+                              onClick={() => result.pageNumber && setPageNumber(result.pageNumber)}
+                              aria-label={`Signature ${result.fieldName}: ${style.label}`}
+                            >
+                              <div className="flex items-center justify-between mb-2">
+                                <div className="flex items-center space-x-2 font-semibold">
+                                  {result.status === 'valid' ? <CheckCircle className="h-5 w-5" /> : result.status === 'invalid' ? <X className="h-5 w-5" /> : <AlertTriangle className="h-5 w-5" />}
+                                  <span>{result.fieldName}</span>
+                                  <span className="text-sm font-normal">{style.label}</span>
+                                </div>
+                                {result.pageNumber && <span className="text-xs">Page {result.pageNumber}</span>}
+                              </div>
+                              {result.signed && (
+                                <table className="w-full text-sm text-left">
+                                  <tbody>
+                                    <tr><td className="pr-4 py-0.5 font-medium">Signer</td><td>{result.signerName ?? 'Unknown'}{result.signer && result.signer !== result.signerName ? ` (${result.signer})` : ''}</td></tr>
+                                    <tr><td className="pr-4 py-0.5 font-medium">Signed</td><td>{result.signingTime ? `${result.signingTime.toLocaleString()} (${result.timeSource})` : 'Unknown'}</td></tr>
+                                    {result.reason && <tr><td className="pr-4 py-0.5 font-medium">Reason</td><td>{result.reason}</td></tr>}
+                                    {result.location && <tr><td className="pr-4 py-0.5 font-medium">Location</td><td>{result.location}</td></tr>}
+                                    <tr><td className="pr-4 py-0.5 font-medium">Covers</td><td>Revision {result.revision ?? '?'} of {signatureReport.revisions}{result.coversWholeDocument ? ' (the whole document)' : ''}</td></tr>
+                                    <tr><td className="pr-4 py-0.5 font-medium">Changes since</td><td>{describeChanges(result)}</td></tr>
+                                    <tr><td className="pr-4 py-0.5 font-medium">Integrity</td><td>{result.integrity}{result.digestAlgorithm ? ` (${result.digestAlgorithm})` : ''}</td></tr>
+                                    <tr><td className="pr-4 py-0.5 font-medium">Signature</td><td>{result.signature}{result.subFilter ? ` (${result.subFilter})` : ''}</td></tr>
+                                    {result.timestamp && <tr><td className="pr-4 py-0.5 font-medium">Timestamp</td><td>{result.timestamp.status}</td></tr>}
+                                    <tr>
+                                      <td className="pr-4 py-0.5 font-medium align-top">Certificates</td>
+                                      <td>
+                                        {result.chain.status}
+                                        {result.chain.certificates.map((certificate, i) => (
+                                          <div key={i} className="text-xs">{i + 1}. {certificate.subject}{certificate.selfSigned ? ' (self-signed)' : ''}</div>
+                                        ))}
+                                      </td>
+                                    </tr>
+                                  </tbody>
+                                </table>
+                              )}
+                              {result.messages.length > 0 && (
+                                <ul className="mt-2 text-xs list-disc list-inside">
+                                  {result.messages.map((message, i) => <li key={i}>{message}</li>)}
+                                </ul>
+                              )}
+                            </div>
+                          );
+                        })}
+                      </div>
+                      <p className="text-xs text-gray-500 mb-3">Certificate chains are checked against the certificates embedded in each signature; whether their root is trusted is not checked.</p>
+                      <div className="flex gap-2">
+                        <button onClick={() => exportSignatureReport('txt')} className="flex items-center space-x-1 px-3 py-2 rounded-lg bg-gray-200 text-sm font-medium hover:bg-gray-300">
+                          <Download className="h-4 w-4" /><span>Export Report (TXT)</span>
+                        </button>
+                        <button onClick={() => exportSignatureReport('json')} className="flex items-center space-x-1 px-3 py-2 rounded-lg bg-gray-200 text-sm font-medium hover:bg-gray-300">
+                          <Download className="h-4 w-4" /><span>Export Report (JSON)</span>
+                        </button>
+                      </div>
+                    </>
+                  )}
+                </div>
+              )}
+
               {/* Viewer Settings */}
               <div className="mb-8">
                 <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center space-x-2">
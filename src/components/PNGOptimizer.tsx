@@ -2,18 +2,61 @@ import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { Upload, Download, Image, Users, Zap, Shield, FileText, TrendingUp, FileImage, CheckCircle, Sparkles, ArrowRight, Settings, RotateCcw } from 'lucide-react';
 import SEO from './SEO';
 import JSZip from 'jszip';
+import { PngOptimizeOptions, PngOptimizeResult, optimizePng } from '../utils/pngOptimizer';
+import { PNG_COLOR_TYPES } from '../utils/png';
+
+interface OptimizedPNG {
+  name: string;
+  blob: Blob;
+  originalName: string;
+  result?: PngOptimizeResult;
+  error?: string;
+}
+
+interface PNGSettings {
+  mode: 'lossless' | 'palette';
+  colors: number;
+  dither: boolean;
+  stripMetadata: boolean;
+  preserveTransparency: boolean;
+}
+
+const formatSize = (bytes: number) => bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(2)} MB` : `${(bytes / 1024).toFixed(1)} KB`;
+
+const COLOR_TYPE_NAMES: Record<number, string> = {
+  [PNG_COLOR_TYPES.GRAY]: 'Grayscale',
+  [PNG_COLOR_TYPES.RGB]: 'RGB',
+  [PNG_COLOR_TYPES.PALETTE]: 'Palette',
+  [PNG_COLOR_TYPES.GRAY_ALPHA]: 'Grayscale + alpha',
+  [PNG_COLOR_TYPES.RGBA]: 'RGBA',
+};
+
+const describeLayout = (result: PngOptimizeResult) => {
+  const name = COLOR_TYPE_NAMES[result.colorType] ?? `Type ${result.colorType}`;
+  return result.paletteSize ? `${name} (${result.paletteSize} colors, ${result.bitDepth}-bit)` : `${name} ${result.bitDepth}-bit`;
+};
+
+const toOptimizeOptions = (settings: PNGSettings): PngOptimizeOptions => ({
+  quantize: settings.mode === 'palette',
+  colors: settings.colors,
+  dither: settings.dither,
+  stripMetadata: settings.stripMetadata,
+  removeAlpha: !settings.preserveTransparency,
+});
 
 const PNGOptimizer: React.FC = () => {
   const [files, setFiles] = useState<File[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [processedFiles, setProcessedFiles] = useState<{ name: string, blob: Blob }[]>([]);
-  const [settings, setSettings] = useState({
-    quality: 85,
-    compression: 'balanced',
-    optimize: true,
+  const [processedFiles, setProcessedFiles] = useState<OptimizedPNG[]>([]);
+  const [settings, setSettings] = useState<PNGSettings>({
+    mode: 'lossless',
+    colors: 256,
+    dither: true,
+    stripMetadata: true,
     preserveTransparency: true
   });
-  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [preview, setPreview] = useState<{ url: string; result: PngOptimizeResult } | null>(null);
+  const [progress, setProgress] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -37,137 +80,63 @@ const PNGOptimizer: React.FC = () => {
     setFiles(prev => prev.filter((_, i) => i !== index));
   };
 
-  // Helper to process a single file for preview
-  const processPreview = async (file: File) => {
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return null;
-
-    const img = document.createElement('img') as HTMLImageElement;
-    await new Promise<void>((resolve, reject) => {
-      img.onload = () => resolve();
-      img.onerror = reject;
-      img.src = URL.createObjectURL(file);
-    });
-
-    canvas.width = img.width;
-    canvas.height = img.height;
-    ctx.drawImage(img, 0, 0);
-
-    // Apply optimization settings
-    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-    const data = imageData.data;
-    
-    if (settings.optimize) {
-      // Apply subtle optimization
-      for (let i = 0; i < data.length; i += 4) {
-        // Slight contrast enhancement
-        const factor = 1.05;
-        data[i] = Math.max(0, Math.min(255, (data[i] - 128) * factor + 128));
-        data[i + 1] = Math.max(0, Math.min(255, (data[i + 1] - 128) * factor + 128));
-        data[i + 2] = Math.max(0, Math.min(255, (data[i + 2] - 128) * factor + 128));
-      }
-    }
-    
-    ctx.putImageData(imageData, 0, 0);
-    
-    return new Promise<string>((resolve) => {
-      canvas.toBlob((blob) => {
-        if (blob) {
-          const url = URL.createObjectURL(blob);
-          resolve(url);
-        } else {
-          resolve(URL.createObjectURL(file));
-        }
-      }, 'image/png', settings.quality / 100);
-    });
-  };
-
-  // Live preview effect
+  // Live preview of the first file with the current settings
   useEffect(() => {
     if (files.length === 0) {
-      setPreviewUrl(null);
+      setPreview(null);
       return;
     }
     let cancelled = false;
-    processPreview(files[0]).then((url) => {
-      if (!cancelled) setPreviewUrl(url);
-    });
-    return () => { cancelled = true; };
-  // eslint-disable-next-line
-  }, [files, settings.quality, settings.optimize]);
+    let url: string | null = null;
+    files[0].arrayBuffer()
+      .then(buffer => optimizePng(new Uint8Array(buffer), toOptimizeOptions(settings)))
+      .then(result => {
+        if (cancelled) return;
+        url = URL.createObjectURL(new Blob([result.bytes], { type: 'image/png' }));
+        setPreview({ url, result });
+      })
+      .catch(error => {
+        console.error('Preview error:', error);
+        if (!cancelled) setPreview(null);
+      });
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [files, settings]);
 
   const processFiles = async () => {
     if (files.length === 0) return;
-    
+
     setIsProcessing(true);
-    
+    const processed: OptimizedPNG[] = [];
     try {
-      const processed = await Promise.all(
-        files.map(async (file) => {
-          // Create a canvas to process the image
-          const canvas = document.createElement('canvas');
-          const ctx = canvas.getContext('2d');
-          if (!ctx) throw new Error('Canvas context not available');
-          
-          // Create an image element
-          const img = document.createElement('img') as HTMLImageElement;
-          await new Promise<void>((resolve, reject) => {
-            img.onload = () => resolve();
-            img.onerror = reject;
-            img.src = URL.createObjectURL(file);
-          });
-          
-          // Set canvas dimensions
-          canvas.width = img.width;
-          canvas.height = img.height;
-          
-          // Draw the image on canvas
-          ctx.drawImage(img, 0, 0);
-          
-          // Apply optimization
-          const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-          const data = imageData.data;
-          
-          if (settings.optimize) {
-            // Apply optimization algorithms
-            for (let i = 0; i < data.length; i += 4) {
-              // Enhance contrast and brightness
-              const factor = 1.1;
-              data[i] = Math.max(0, Math.min(255, (data[i] - 128) * factor + 128));
-              data[i + 1] = Math.max(0, Math.min(255, (data[i + 1] - 128) * factor + 128));
-              data[i + 2] = Math.max(0, Math.min(255, (data[i + 2] - 128) * factor + 128));
-            }
-          }
-          
-          // Put the optimized image data back
-          ctx.putImageData(imageData, 0, 0);
-          
-          // Convert to blob with quality settings
-          const blob = await new Promise<Blob>((resolve) => {
-            canvas.toBlob((blob) => {
-              if (blob) resolve(blob);
-              else resolve(new Blob([''], { type: 'image/png' }));
-            }, 'image/png', settings.quality / 100);
-          });
-          
-          const name = file.name.replace(/\.png$/i, '_optimized.png');
-          
-          return { name, blob };
-        })
-      );
-      
+      // One file at a time: the maximum-effort deflate is CPU-bound and
+      // running files side by side would only multiply peak memory
+      for (const [index, file] of files.entries()) {
+        setProgress(`Optimizing ${file.name} (${index + 1}/${files.length})...`);
+        const name = file.name.replace(/\.png$/i, '_optimized.png');
+        try {
+          const result = await optimizePng(new Uint8Array(await file.arrayBuffer()), toOptimizeOptions(settings));
+          processed.push({ name, blob: new Blob([result.bytes], { type: 'image/png' }), originalName: file.name, result });
+        } catch (error) {
+          console.error('Processing error:', error);
+          processed.push({ name, blob: file, originalName: file.name, error: error instanceof Error ? error.message : 'Could not read this PNG' });
+        }
+      }
       setProcessedFiles(processed);
-    } catch (error) {
-      console.error('Processing error:', error);
-      alert('Error processing files. Please try again.');
     } finally {
+      setProgress(null);
       setIsProcessing(false);
     }
   };
 
+  const optimizedFiles = processedFiles.filter(file => file.result);
+  const totalOriginalSize = optimizedFiles.reduce((sum, file) => sum + file.result!.originalSize, 0);
+  const totalOptimizedSize = optimizedFiles.reduce((sum, file) => sum + file.result!.optimizedSize, 0);
+
   const downloadAll = () => {
-    processedFiles.forEach((file) => {
+    optimizedFiles.forEach((file) => {
       const url = URL.createObjectURL(file.blob);
       const link = document.createElement('a');
       link.href = url;
@@ -180,12 +149,12 @@ const PNGOptimizer: React.FC = () => {
   };
 
   const downloadAllAsZip = async () => {
-    if (processedFiles.length === 0) {
+    if (optimizedFiles.length === 0) {
       alert('No processed files to download');
       return;
     }
     const zip = new JSZip();
-    processedFiles.forEach((file) => {
+    optimizedFiles.forEach((file) => {
       zip.file(file.name, file.blob);
     });
     const zipBlob = await zip.generateAsync({ type: 'blob' });
@@ -203,7 +172,7 @@ const PNGOptimizer: React.FC = () => {
     {
       icon: <Zap className="h-6 w-6" />,
       title: "Smart Optimization",
-      description: "Advanced PNG compression with transparency preservation"
+      description: "Tries palette and channel reductions with every PNG filter, then deflates at maximum effort"
     },
     {
       icon: <Shield className="h-6 w-6" />,
@@ -213,12 +182,12 @@ const PNGOptimizer: React.FC = () => {
     {
       icon: <TrendingUp className="h-6 w-6" />,
       title: "Transparency Support",
-      description: "Preserve transparency and alpha channels"
+      description: "Palettes keep per-color alpha, so transparent edges survive quantization"
     },
     {
       icon: <CheckCircle className="h-6 w-6" />,
-      title: "Quality Control",
-      description: "Maintain image quality while reducing file size"
+      title: "Never Larger",
+      description: "Lossless by default, and a file that cannot be made smaller is kept as it was"
     }
   ];
 
@@ -231,7 +200,7 @@ const PNGOptimizer: React.FC = () => {
     {
       step: "2",
       title: "Adjust Settings",
-      description: "Choose quality and compression options"
+      description: "Stay lossless or quantize to a palette, and choose whether to strip metadata"
     },
     {
       step: "3",
@@ -358,7 +327,7 @@ const PNGOptimizer: React.FC = () => {
               )}
 
               {/* Live Preview */}
-              {previewUrl && (
+              {preview && (
                 <div className="mb-8">
                   <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center space-x-2">
                     <Image className="h-5 w-5 text-violet-600" />
@@ -366,12 +335,14 @@ const PNGOptimizer: React.FC = () => {
                   </h3>
                   <div className="bg-gray-50 rounded-xl p-4">
                     <img 
-                      src={previewUrl} 
+                      src={preview.url} 
                       alt="Preview" 
                       className="max-w-full h-auto max-h-64 mx-auto rounded-lg shadow-md"
                     />
                     <p className="text-sm text-gray-600 text-center mt-2">
-                      Real-time preview of optimization effect
+                      {preview.result.unchanged
+                        ? preview.result.note ?? `Already optimal at ${formatSize(preview.result.originalSize)}`
+                        : `${formatSize(preview.result.originalSize)} → ${formatSize(preview.result.optimizedSize)} · ${describeLayout(preview.result)}${preview.result.lossy ? ' · lossy' : ''}`}
                     </p>
                   </div>
                 </div>
@@ -385,38 +356,51 @@ const PNGOptimizer: React.FC = () => {
                 </h3>
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
                   <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-2">Quality: {settings.quality}%</label>
-                    <input
-                      type="range"
-                      min="10"
-                      max="100"
-                      value={settings.quality}
-                      onChange={(e) => setSettings(prev => ({ ...prev, quality: Number(e.target.value) }))}
-                      className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-2">Compression</label>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Mode</label>
                     <select
-                      value={settings.compression}
-                      onChange={(e) => setSettings(prev => ({ ...prev, compression: e.target.value }))}
+                      value={settings.mode}
+                      onChange={(e) => setSettings(prev => ({ ...prev, mode: e.target.value as PNGSettings['mode'] }))}
                       className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-violet-500 focus:border-transparent"
                     >
-                      <option value="balanced">Balanced</option>
-                      <option value="aggressive">Aggressive</option>
-                      <option value="conservative">Conservative</option>
+                      <option value="lossless">Lossless</option>
+                      <option value="palette">Palette (lossy)</option>
                     </select>
                   </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Colors: {settings.colors}</label>
+                    <input
+                      type="range"
+                      min="2"
+                      max="256"
+                      value={settings.colors}
+                      disabled={settings.mode !== 'palette'}
+                      onChange={(e) => setSettings(prev => ({ ...prev, colors: Number(e.target.value) }))}
+                      className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer disabled:opacity-50"
+                    />
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      id="dither"
+                      checked={settings.dither}
+                      disabled={settings.mode !== 'palette'}
+                      onChange={(e) => setSettings(prev => ({ ...prev, dither: e.target.checked }))}
+                      className="w-4 h-4 text-violet-600 focus:ring-violet-500 border-gray-300 rounded"
+                    />
+                    <label htmlFor="dither" className="text-sm font-medium text-gray-700">
+                      Dithering
+                    </label>
+                  </div>
                   <div className="flex items-center space-x-2">
                     <input
                       type="checkbox"
-                      id="optimize"
-                      checked={settings.optimize}
-                      onChange={(e) => setSettings(prev => ({ ...prev, optimize: e.target.checked }))}
+                      id="stripMetadata"
+                      checked={settings.stripMetadata}
+                      onChange={(e) => setSettings(prev => ({ ...prev, stripMetadata: e.target.checked }))}
                       className="w-4 h-4 text-violet-600 focus:ring-violet-500 border-gray-300 rounded"
                     />
-                    <label htmlFor="optimize" className="text-sm font-medium text-gray-700">
-                      Smart Optimization
+                    <label htmlFor="stripMetadata" className="text-sm font-medium text-gray-700">
+                      Strip Metadata
                     </label>
                   </div>
                   <div className="flex items-center space-x-2">
@@ -444,7 +428,7 @@ const PNGOptimizer: React.FC = () => {
                   {isProcessing ? (
                     <>
                       <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
-                      <span>Optimizing Images...</span>
+                      <span>{progress ?? 'Optimizing Images...'}</span>
                     </>
                   ) : (
                     <>
@@ -453,7 +437,7 @@ const PNGOptimizer: React.FC = () => {
                     </>
                   )}
                 </button>
-                {processedFiles.length > 0 && (
+                {optimizedFiles.length > 0 && (
                   <>
                     <button
                       onClick={downloadAll}
@@ -473,6 +457,57 @@ const PNGOptimizer: React.FC = () => {
                   </>
                 )}
               </div>
+
+              {/* Results */}
+              {processedFiles.length > 0 && (
+                <div className="mt-8">
+                  <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center space-x-2">
+                    <TrendingUp className="h-5 w-5 text-violet-600" />
+                    <span>
+                      Results
+                      {totalOriginalSize > 0 && ` · ${formatSize(totalOriginalSize)} → ${formatSize(totalOptimizedSize)} (saved ${((1 - totalOptimizedSize / totalOriginalSize) * 100).toFixed(1)}%)`}
+                    </span>
+                  </h3>
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm text-left bg-white/70 rounded-lg">
+                      <thead className="text-gray-600 border-b">
+                        <tr>
+                          <th className="py-2 px-3">File</th>
+                          <th className="py-2 px-3">Before</th>
+                          <th className="py-2 px-3">After</th>
+                          <th className="py-2 px-3">Saved</th>
+                          <th className="py-2 px-3">Layout</th>
+                          <th className="py-2 px-3">Removed Chunks</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {processedFiles.map((file, index) => {
+                          const { result } = file;
+                          if (!result) {
+                            return (
+                              <tr key={index} className="border-b last:border-0">
+                                <td className="py-2 px-3 font-medium text-gray-900">{file.originalName}</td>
+                                <td colSpan={5} className="py-2 px-3 text-red-600">{file.error}</td>
+                              </tr>
+                            );
+                          }
+                          const saved = (1 - result.optimizedSize / result.originalSize) * 100;
+                          return (
+                            <tr key={index} className="border-b last:border-0">
+                              <td className="py-2 px-3 font-medium text-gray-900">{file.originalName}</td>
+                              <td className="py-2 px-3">{formatSize(result.originalSize)}</td>
+                              <td className="py-2 px-3">{formatSize(result.optimizedSize)}</td>
+                              <td className="py-2 px-3">{result.unchanged ? result.note ?? 'Already optimal' : `${saved.toFixed(1)}%`}</td>
+                              <td className="py-2 px-3">{result.unchanged ? '-' : `${describeLayout(result)}${result.lossy ? ' (lossy)' : ''}`}</td>
+                              <td className="py-2 px-3">{result.removedChunks.length > 0 ? result.removedChunks.join(', ') : '-'}</td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              )}
             </div>
 
             {/* Features Section */}
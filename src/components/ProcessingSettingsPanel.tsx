@@ -1,5 +1,6 @@
 import React from 'react';
 import { Settings, Palette, RotateCw, Sparkles, Play, Download } from 'lucide-react';
+import { ICO_SIZES, TiffCompression } from '../utils/imageEncoders';
 
 const tabs = [
   { id: 'basic', label: 'Basic', icon: Settings },
@@ -23,10 +24,17 @@ interface ProcessingSettings {
   rotation: number;
   flipHorizontal: boolean;
   flipVertical: boolean;
+  losslessJpeg: boolean;
+  trimJpegEdges: boolean;
   removeBackground: boolean;
   addWatermark: boolean;
   watermarkText: string;
   watermarkOpacity: number;
+  tiffCompression: TiffCompression;
+  bmpBitDepth: 24 | 32;
+  gifColors: number;
+  gifDither: boolean;
+  icoSizes: number[];
 }
 
 interface ProcessingSettingsPanelProps {
@@ -262,6 +270,82 @@ const ProcessingSettingsPanel: React.FC<ProcessingSettingsPanelProps> = ({
                     {settings.format === 'eps' && 'PostScript format, print industry standard'}
                   </div>
                 </div>
+                {/* Format Options */}
+                {settings.format === 'tiff' && (
+                  <div className="flex flex-col sm:col-span-2">
+                    <label className="block text-sm font-semibold text-gray-700 mb-2">TIFF Compression</label>
+                    <select
+                      value={settings.tiffCompression}
+                      onChange={e => updateSettings({ tiffCompression: e.target.value as TiffCompression })}
+                      className="w-full px-3 sm:px-4 py-2.5 sm:py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-violet-500 focus:border-transparent bg-gray-50 text-gray-900 font-medium text-sm sm:text-base touch-manipulation"
+                    >
+                      <option value="lzw">LZW - Lossless, widely supported</option>
+                      <option value="deflate">Deflate (ZIP) - Lossless, smaller files</option>
+                      <option value="none">None - Largest files, fastest to open</option>
+                    </select>
+                  </div>
+                )}
+                {settings.format === 'bmp' && (
+                  <div className="flex flex-col sm:col-span-2">
+                    <label className="block text-sm font-semibold text-gray-700 mb-2">Bit Depth</label>
+                    <select
+                      value={settings.bmpBitDepth}
+                      onChange={e => updateSettings({ bmpBitDepth: Number(e.target.value) as 24 | 32 })}
+                      className="w-full px-3 sm:px-4 py-2.5 sm:py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-violet-500 focus:border-transparent bg-gray-50 text-gray-900 font-medium text-sm sm:text-base touch-manipulation"
+                    >
+                      <option value={24}>24-bit - Transparency flattened onto white</option>
+                      <option value={32}>32-bit - Keeps the alpha channel</option>
+                    </select>
+                  </div>
+                )}
+                {settings.format === 'gif' && (
+                  <div className="flex flex-col sm:col-span-2">
+                    <label className="block text-sm font-semibold text-gray-700 mb-2 flex justify-between">
+                      <span>Palette Colors</span>
+                      <span className="text-violet-600 font-bold">{settings.gifColors}</span>
+                    </label>
+                    <input
+                      type="range"
+                      min="2"
+                      max="256"
+                      value={settings.gifColors}
+                      onChange={e => updateSettings({ gifColors: Number(e.target.value) })}
+                      className="w-full h-3 sm:h-2 rounded-lg appearance-none accent-violet-600 bg-gray-200 focus:outline-none focus:ring-2 focus:ring-violet-500 touch-manipulation"
+                      style={{ accentColor: '#8b5cf6', height: '8px' }}
+                    />
+                    <div className="flex items-center mt-3">
+                      <input
+                        type="checkbox"
+                        checked={settings.gifDither}
+                        onChange={e => updateSettings({ gifDither: e.target.checked })}
+                        className="h-4 w-4 text-violet-600 border-gray-300 rounded focus:ring-violet-500 touch-manipulation"
+                      />
+                      <label className="ml-2 text-sm font-semibold text-gray-700">Dithering (Floyd-Steinberg)</label>
+                    </div>
+                  </div>
+                )}
+                {settings.format === 'ico' && (
+                  <div className="flex flex-col sm:col-span-2">
+                    <label className="block text-sm font-semibold text-gray-700 mb-2">Icon Sizes</label>
+                    <div className="flex flex-wrap gap-3">
+                      {ICO_SIZES.map(size => (
+                        <label key={size} className="flex items-center text-sm font-semibold text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={settings.icoSizes.includes(size)}
+                            onChange={e => updateSettings({
+                              icoSizes: e.target.checked
+                                ? [...settings.icoSizes, size].sort((a, b) => a - b)
+                                : settings.icoSizes.filter(s => s !== size)
+                            })}
+                            className="h-4 w-4 mr-1 text-violet-600 border-gray-300 rounded focus:ring-violet-500 touch-manipulation"
+                          />
+                          {size}&times;{size}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                )}
                 {/* Quality + Slider + Checkbox */}
                 <div className="flex flex-col sm:col-span-2">
                   <div className="flex-1">
@@ -357,6 +441,33 @@ const ProcessingSettingsPanel: React.FC<ProcessingSettingsPanelProps> = ({
                     <label className="ml-2 text-sm font-semibold text-gray-700">Flip Vertical</label>
                   </div>
                 </div>
+                {/* Lossless JPEG transform */}
+                <div className="flex flex-col space-y-3 sm:col-span-2">
+                  <div className="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={settings.losslessJpeg}
+                      onChange={e => updateSettings({ losslessJpeg: e.target.checked })}
+                      className="h-4 w-4 text-violet-600 border-gray-300 rounded focus:ring-violet-500 touch-manipulation"
+                    />
+                    <label className="ml-2 text-sm font-semibold text-gray-700">Lossless JPEG rotate & flip</label>
+                  </div>
+                  {settings.losslessJpeg && (
+                    <div className="flex items-center">
+                      <input
+                        type="checkbox"
+                        checked={settings.trimJpegEdges}
+                        onChange={e => updateSettings({ trimJpegEdges: e.target.checked })}
+                        className="h-4 w-4 text-violet-600 border-gray-300 rounded focus:ring-violet-500 touch-manipulation"
+                      />
+                      <label className="ml-2 text-sm font-semibold text-gray-700">Trim partial edge blocks</label>
+                    </div>
+                  )}
+                  <p className="text-xs text-gray-500">
+                    JPEG to JPEG conversions with a 90° step rotation or flips and no other edits skip re-encoding.
+                    Trimming drops up to 15 px at edges that are not a whole number of blocks; otherwise those images are re-encoded.
+                  </p>
+                </div>
               </div>
             )}
             {activeTab === 'advanced' && (
@@ -1,17 +1,127 @@
-import React, { useState, useRef, useCallback } from 'react';
+import React, { useState, useRef } from 'react';
 import { Upload, Download, Settings, Eye, FileImage, Zap, Shield, Image, Users, TrendingUp } from 'lucide-react';
 import SEO from './SEO';
+import { PixelBuffer } from '../utils/imageKernels';
+import { readJpegCoefficients } from '../utils/jpegCoefficients';
+import {
+  CHROMA_SUBSAMPLINGS,
+  ChromaSubsampling,
+  JpegScan,
+  SCAN_PRESETS,
+  ScanPreset,
+  formatScanScript,
+  parseScanScript,
+  pixelsToJpegCoefficients,
+  progressiveScanScript,
+  writeJpegCoefficients,
+} from '../utils/jpegEncoder';
+import { isJpeg } from '../utils/jpegSegments';
+
+interface ProgressiveSettings {
+  quality: number;
+  subsampling: ChromaSubsampling;
+  scanPreset: ScanPreset | 'custom';
+  customScript: string;
+  // Rewrite JPEG inputs from their DCT coefficients instead of re-encoding
+  losslessTranscode: boolean;
+}
+
+interface ProgressiveResult {
+  name: string;
+  originalName: string;
+  blob?: Blob;
+  originalSize: number;
+  size: number;
+  method: 'transcoded' | 'encoded';
+  scans: number;
+  note?: string;
+  error?: string;
+}
+
+const SCAN_PRESET_LABELS: Record<ScanPreset | 'custom', string> = {
+  spectral: 'Spectral selection (5 scans)',
+  standard: 'Standard (10 scans)',
+  fine: 'Fine (12 scans)',
+  custom: 'Custom script',
+};
+
+const formatSize = (bytes: number) => bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(2)} MB` : `${(bytes / 1024).toFixed(1)} KB`;
+
+const outputName = (file: File) => file.name.replace(/\.[^/.]+$/, '') + '_progressive.jpg';
+
+async function loadPixels(file: File): Promise<PixelBuffer> {
+  const url = URL.createObjectURL(file);
+  try {
+    const img = document.createElement('img') as HTMLImageElement;
+    await new Promise<void>((resolve, reject) => {
+      img.onload = () => resolve();
+      img.onerror = () => reject(new Error('Failed to load image'));
+      img.src = url;
+    });
+    const canvas = document.createElement('canvas');
+    canvas.width = img.naturalWidth;
+    canvas.height = img.naturalHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context');
+    ctx.drawImage(img, 0, 0);
+    const { data, width, height } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    return { data, width, height };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+function scanScript(settings: ProgressiveSettings, componentCount: number): JpegScan[] {
+  return settings.scanPreset === 'custom'
+    ? parseScanScript(settings.customScript)
+    : progressiveScanScript(settings.scanPreset, componentCount);
+}
+
+async function createProgressive(file: File, settings: ProgressiveSettings): Promise<ProgressiveResult> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const result = { name: outputName(file), originalName: file.name, originalSize: file.size };
+  let note: string | undefined;
+  if (settings.losslessTranscode && isJpeg(bytes)) {
+    try {
+      const frame = readJpegCoefficients(bytes);
+      const script = scanScript(settings, frame.components.length);
+      const output = writeJpegCoefficients(frame, { progressive: true, scanScript: script });
+      return { ...result, blob: new Blob([output], { type: 'image/jpeg' }), size: output.length, method: 'transcoded', scans: script.length };
+    } catch (error) {
+      // Arithmetic-coded or 12-bit files cannot be transcoded; re-encode them
+      note = `Re-encoded: ${error instanceof Error ? error.message : 'lossless transcode failed'}`;
+    }
+  }
+  const frame = pixelsToJpegCoefficients(await loadPixels(file), { quality: settings.quality, subsampling: settings.subsampling });
+  const script = scanScript(settings, frame.components.length);
+  const output = writeJpegCoefficients(frame, { progressive: true, scanScript: script });
+  return { ...result, blob: new Blob([output], { type: 'image/jpeg' }), size: output.length, method: 'encoded', scans: script.length, note };
+}
+
+function download(blob: Blob, name: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
 
 const ProgressiveJPGCreator: React.FC = () => {
   const [files, setFiles] = useState<File[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [processedFiles, setProcessedFiles] = useState<string[]>([]);
-  const [quality, setQuality] = useState(85);
-  const [progressiveLevel, setProgressiveLevel] = useState('medium');
+  const [processedFiles, setProcessedFiles] = useState<ProgressiveResult[]>([]);
+  const [settings, setSettings] = useState<ProgressiveSettings>({
+    quality: 85,
+    subsampling: '4:2:0',
+    scanPreset: 'standard',
+    customScript: formatScanScript(progressiveScanScript('standard', 3)),
+    losslessTranscode: true,
+  });
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [processedBlob, setProcessedBlob] = useState<Blob | null>(null);
 
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFiles = Array.from(event.target.files || []);
@@ -55,174 +165,61 @@ const ProgressiveJPGCreator: React.FC = () => {
     setSelectedFile(file);
   };
 
-  const processImage = useCallback(async () => {
-    if (!selectedFile || !canvasRef.current) return;
-
+  const process = async (targets: File[], downloadEach: boolean) => {
     setIsProcessing(true);
+    const results: ProgressiveResult[] = [];
     try {
-      // Create canvas for processing
-      const canvas = canvasRef.current;
-      const ctx = canvas.getContext('2d');
-      if (!ctx) return;
-
-      // Load image
-      const img = document.createElement('img') as HTMLImageElement;
-      img.onload = () => {
-        canvas.width = img.width;
-        canvas.height = img.height;
-        ctx.drawImage(img, 0, 0);
-        
-        // Convert to progressive JPEG
-        canvas.toBlob((blob) => {
-          if (blob) {
-            setProcessedBlob(blob);
-            setIsProcessing(false);
-            alert('Progressive JPEG created successfully!');
-          }
-        }, 'image/jpeg', quality / 100);
-      };
-      
-      img.src = URL.createObjectURL(selectedFile);
-      
-    } catch (error) {
-      console.error('Error creating progressive JPEG:', error);
-      setIsProcessing(false);
-      alert('Error creating progressive JPEG. Please try again.');
-    }
-  }, [selectedFile, quality]);
-
-  const processFiles = async () => {
-    if (files.length === 0) return;
-    
-    setIsProcessing(true);
-    try {
-      // Process each image file
-      for (let i = 0; i < files.length; i++) {
-        const file = files[i];
-        
-        // Create canvas for image processing
-        const canvas = document.createElement('canvas');
-        const ctx = canvas.getContext('2d');
-        if (!ctx) throw new Error('Could not get canvas context');
-        
-        // Load the image
-        const imageUrl = URL.createObjectURL(file);
-        const img = document.createElement('img') as HTMLImageElement;
-        
-        await new Promise<void>((resolve, reject) => {
-          img.onload = () => resolve();
-          img.onerror = () => reject(new Error('Failed to load image'));
-          img.src = imageUrl;
-        });
-        
-        // Set canvas size to match image
-        canvas.width = img.width;
-        canvas.height = img.height;
-        
-        // Draw the image
-        ctx.drawImage(img, 0, 0);
-    
-        // Apply progressive encoding settings
-        const quality = progressiveLevel === 'low' ? 0.6 : 
-                       progressiveLevel === 'medium' ? 0.8 : 
-                       progressiveLevel === 'high' ? 0.9 : 0.95;
-        
-        // Convert to progressive JPEG with enhanced settings
-        const blob = await new Promise<Blob>((resolve) => {
-          canvas.toBlob((blob) => {
-            if (blob) resolve(blob);
-          }, 'image/jpeg', quality);
-        });
-        
-        // Create download link
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = file.name.replace(/\.[^/.]+$/, '') + '_progressive.jpg';
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
-        
-        // Clean up
-        URL.revokeObjectURL(imageUrl);
+      for (const file of targets) {
+        try {
+          const result = await createProgressive(file, settings);
+          results.push(result);
+          if (downloadEach && result.blob) download(result.blob, result.name);
+        } catch (error) {
+          console.error('Error creating progressive JPEG:', error);
+          results.push({
+            name: outputName(file),
+            originalName: file.name,
+            originalSize: file.size,
+            size: 0,
+            method: 'encoded',
+            scans: 0,
+            error: error instanceof Error ? error.message : 'Could not create a progressive JPEG',
+          });
+        }
       }
-      
-      setProcessedFiles(files.map(f => f.name.replace(/\.[^/.]+$/, '') + '_progressive.jpg'));
-      setIsProcessing(false);
-      alert(`Successfully created ${files.length} progressive JPEG image(s)!`);
-      
-    } catch (error) {
-      console.error('Error creating progressive JPEG:', error);
+      setProcessedFiles(results);
+    } finally {
       setIsProcessing(false);
-      alert('Error creating progressive JPEG. Please try again.');
     }
   };
 
-  const processSingleImage = async () => {
-    if (!selectedFile || !canvasRef.current) return;
+  const processSingleImage = () => {
+    if (selectedFile) process([selectedFile], false);
+  };
 
-    setIsProcessing(true);
-    try {
-      // Create canvas for processing
-      const canvas = canvasRef.current;
-      const ctx = canvas.getContext('2d');
-      if (!ctx) return;
-
-      // Load image
-      const img = document.createElement('img') as HTMLImageElement;
-      img.onload = () => {
-        canvas.width = img.width;
-        canvas.height = img.height;
-        ctx.drawImage(img, 0, 0);
-        
-        // Apply progressive encoding with quality settings
-        const quality = progressiveLevel === 'low' ? 0.6 : 
-                       progressiveLevel === 'medium' ? 0.8 : 
-                       progressiveLevel === 'high' ? 0.9 : 0.95;
-        
-        // Convert to progressive JPEG
-        canvas.toBlob((blob) => {
-          if (blob) {
-            setProcessedBlob(blob);
-            setIsProcessing(false);
-            alert('Progressive JPEG created successfully!');
-          }
-        }, 'image/jpeg', quality);
-      };
-      
-      img.src = URL.createObjectURL(selectedFile);
-      
-    } catch (error) {
-      console.error('Error creating progressive JPEG:', error);
-      setIsProcessing(false);
-      alert('Error creating progressive JPEG. Please try again.');
-    }
+  const processFiles = () => {
+    if (files.length > 0) process(files, true);
   };
 
   const downloadAll = () => {
-    if (!processedBlob) {
+    const ready = processedFiles.filter(file => file.blob);
+    if (ready.length === 0) {
       alert('No processed file to download');
       return;
     }
-
-    // Download the real processed file
-    const link = document.createElement('a');
-    link.href = URL.createObjectURL(processedBlob);
-    link.download = selectedFile?.name.replace(/\.[^/.]+$/, '') + '_progressive.jpg';
-    link.click();
+    ready.forEach(file => download(file.blob!, file.name));
   };
 
   const features = [
     {
       icon: <TrendingUp className="h-6 w-6" />,
       title: "Progressive Encoding",
-      description: "Create progressive JPEG images for faster web loading"
+      description: "True SOF2 progressive JPEGs with spectral-selection and successive-approximation scans"
     },
     {
       icon: <Zap className="h-6 w-6" />,
-      title: "Web Optimization",
-      description: "Optimized for web performance and user experience"
+      title: "Lossless Transcoding",
+      description: "JPEG inputs are rewritten from their DCT coefficients with optimized Huffman tables, so no quality is lost"
     },
     {
       icon: <Eye className="h-6 w-6" />,
@@ -245,7 +242,7 @@ const ProgressiveJPGCreator: React.FC = () => {
     {
       step: "2", 
       title: "Configure Settings",
-      description: "Choose quality level and progressive encoding settings"
+      description: "Pick a scan script, and the quality and chroma subsampling used when an image has to be re-encoded"
     },
     {
       step: "3",
@@ -261,13 +258,6 @@ const ProgressiveJPGCreator: React.FC = () => {
     { icon: <FileImage className="h-5 w-5" />, value: "Free", label: "No Registration" }
   ];
 
-  const progressiveLevels = [
-    { id: 'low', name: 'Low', description: 'Basic progressive encoding' },
-    { id: 'medium', name: 'Medium', description: 'Balanced quality and loading' },
-    { id: 'high', name: 'High', description: 'Advanced progressive encoding' },
-    { id: 'maximum', name: 'Maximum', description: 'Best progressive loading' }
-  ];
-
   return (
     <>
       <SEO
@@ -412,17 +402,34 @@ const ProgressiveJPGCreator: React.FC = () => {
                   <h3 className="text-lg font-semibold text-gray-800">Progressive Settings</h3>
                 </div>
                 
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Scan Script
+                    </label>
+                    <select
+                      value={settings.scanPreset}
+                      onChange={(e) => setSettings(prev => ({ ...prev, scanPreset: e.target.value as ProgressiveSettings['scanPreset'] }))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-violet-500 focus:border-transparent"
+                    >
+                      {[...SCAN_PRESETS, 'custom' as const].map(preset => (
+                        <option key={preset} value={preset}>
+                          {SCAN_PRESET_LABELS[preset]}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">
-                      Quality: {quality}%
+                      Quality: {settings.quality}%
                     </label>
                     <input
                       type="range"
                       min="10"
                       max="100"
-                      value={quality}
-                      onChange={(e) => setQuality(Number(e.target.value))}
+                      value={settings.quality}
+                      onChange={(e) => setSettings(prev => ({ ...prev, quality: Number(e.target.value) }))}
                       className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
                     />
                     <div className="flex justify-between text-xs text-gray-500 mt-1">
@@ -430,24 +437,52 @@ const ProgressiveJPGCreator: React.FC = () => {
                       <span>High</span>
                     </div>
                   </div>
-                  
+
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">
-                      Progressive Level
+                      Chroma Subsampling
                     </label>
                     <select
-                      value={progressiveLevel}
-                      onChange={(e) => setProgressiveLevel(e.target.value)}
+                      value={settings.subsampling}
+                      onChange={(e) => setSettings(prev => ({ ...prev, subsampling: e.target.value as ChromaSubsampling }))}
                       className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-violet-500 focus:border-transparent"
                     >
-                      {progressiveLevels.map(level => (
-                        <option key={level.id} value={level.id}>
-                          {level.name}
+                      {CHROMA_SUBSAMPLINGS.map(subsampling => (
+                        <option key={subsampling} value={subsampling}>
+                          {subsampling}
                         </option>
                       ))}
                     </select>
                   </div>
                 </div>
+
+                {settings.scanPreset === 'custom' && (
+                  <div className="mt-6">
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Scans (components: Ss-Se, Ah, Al; one per line)
+                    </label>
+                    <textarea
+                      value={settings.customScript}
+                      onChange={(e) => setSettings(prev => ({ ...prev, customScript: e.target.value }))}
+                      rows={8}
+                      spellCheck={false}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm focus:ring-2 focus:ring-violet-500 focus:border-transparent"
+                    />
+                  </div>
+                )}
+
+                <div className="flex items-center space-x-2 mt-6">
+                  <input
+                    type="checkbox"
+                    id="losslessTranscode"
+                    checked={settings.losslessTranscode}
+                    onChange={(e) => setSettings(prev => ({ ...prev, losslessTranscode: e.target.checked }))}
+                    className="w-4 h-4 text-violet-600 focus:ring-violet-500 border-gray-300 rounded"
+                  />
+                  <label htmlFor="losslessTranscode" className="text-sm font-medium text-gray-700">
+                    Transcode JPEG files losslessly (quality and subsampling only apply to other formats)
+                  </label>
+                </div>
               </div>
 
               {/* Action Buttons */}
@@ -488,32 +523,55 @@ const ProgressiveJPGCreator: React.FC = () => {
                 </button>
               </div>
 
-              {/* Download Area */}
-              {processedBlob && (
+              {/* Results */}
+              {processedFiles.length > 0 && (
                 <div className="mt-8 bg-gradient-to-r from-green-50 to-emerald-50 rounded-xl p-6 border border-green-200">
-                  <div className="flex flex-col items-center">
-                    <Download className="h-8 w-8 text-green-600 mb-3" />
-                    <h3 className="text-lg font-semibold text-green-900 mb-2">
-                      Progressive JPG Ready!
-                    </h3>
-                    <p className="text-green-700 text-sm mb-4 text-center">
-                      Your progressive JPEG has been created successfully. Click below to download.
-                    </p>
+                  <div className="overflow-x-auto mb-4">
+                    <table className="w-full text-sm text-left bg-white/70 rounded-lg">
+                      <thead className="text-gray-600 border-b">
+                        <tr>
+                          <th className="py-2 px-3">File</th>
+                          <th className="py-2 px-3">Method</th>
+                          <th className="py-2 px-3">Scans</th>
+                          <th className="py-2 px-3">Before</th>
+                          <th className="py-2 px-3">After</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {processedFiles.map((file, index) => (
+                          <tr key={index} className="border-b last:border-0">
+                            <td className="py-2 px-3 font-medium text-gray-900">{file.originalName}</td>
+                            {file.error ? (
+                              <td colSpan={4} className="py-2 px-3 text-red-600">{file.error}</td>
+                            ) : (
+                              <>
+                                <td className="py-2 px-3">
+                                  {file.method === 'transcoded' ? 'Lossless transcode' : 'Re-encoded'}
+                                  {file.note && <span className="block text-xs text-amber-700">{file.note}</span>}
+                                </td>
+                                <td className="py-2 px-3">{file.scans}</td>
+                                <td className="py-2 px-3">{formatSize(file.originalSize)}</td>
+                                <td className="py-2 px-3">{formatSize(file.size)}</td>
+                              </>
+                            )}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                  {processedFiles.some(file => file.blob) && (
                     <button
                       onClick={downloadAll}
-                      className="bg-gradient-to-r from-green-600 to-emerald-600 text-white px-8 py-3 rounded-xl font-semibold hover:shadow-lg transition-all duration-200 flex items-center gap-2"
+                      className="bg-gradient-to-r from-green-600 to-emerald-600 text-white px-8 py-3 rounded-xl font-semibold hover:shadow-lg transition-all duration-200 flex items-center gap-2 mx-auto"
                     >
                       <Download className="h-5 w-5" />
                       Download Progressive JPG
                     </button>
-                  </div>
+                  )}
                 </div>
               )}
             </div>
 
-            {/* Hidden canvas for image processing */}
-            <canvas ref={canvasRef} style={{ display: 'none' }} />
-
             {/* Features Section */}
             <div className="mb-16">
               <div className="text-center mb-12">
@@ -1,6 +1,8 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { Upload, Download, Image, Users, Zap, Shield, FileText, TrendingUp, FileImage, CheckCircle, Sparkles, ArrowRight, Settings, RotateCcw } from 'lucide-react';
 import SEO from './SEO';
+import { ImageTaskCancelledError } from '../utils/imageWorkerPool';
+import { sharpenCanvas } from '../utils/imageOperations';
 
 interface UploadedImage {
   id: string;
@@ -57,11 +59,11 @@ const SharpeningTool: React.FC = () => {
     setFiles(prev => prev.filter(img => img.id !== id));
   };
 
-  // Helper to process a single file for preview
-  const processPreview = async (file: UploadedImage) => {
+  // Draw the file and run the unsharp mask on the worker pool
+  const sharpenToCanvas = async (file: UploadedImage, signal?: AbortSignal) => {
     const canvas = document.createElement('canvas');
     const ctx = canvas.getContext('2d');
-    if (!ctx) return null;
+    if (!ctx) throw new Error('Canvas context not available');
 
     const img = document.createElement('img') as HTMLImageElement;
     await new Promise<void>((resolve, reject) => {
@@ -74,87 +76,25 @@ const SharpeningTool: React.FC = () => {
     canvas.height = img.height;
     ctx.drawImage(img, 0, 0);
 
-    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-    const data = imageData.data;
-    
-    // Apply unsharp mask algorithm
-    const strength = settings.strength / 100;
-    const radius = settings.radius;
-    const threshold = settings.threshold;
-    
-    // Create a blurred version for comparison
-    const blurredData = new Uint8ClampedArray(data);
-    
-    // Simple box blur for demonstration
-    for (let y = radius; y < canvas.height - radius; y++) {
-      for (let x = radius; x < canvas.width - radius; x++) {
-        let r = 0, g = 0, b = 0, count = 0;
-        
-        for (let dy = -radius; dy <= radius; dy++) {
-          for (let dx = -radius; dx <= radius; dx++) {
-            const idx = ((y + dy) * canvas.width + (x + dx)) * 4;
-            r += data[idx];
-            g += data[idx + 1];
-            b += data[idx + 2];
-            count++;
-          }
-        }
-        
-        const idx = (y * canvas.width + x) * 4;
-        blurredData[idx] = r / count;
-        blurredData[idx + 1] = g / count;
-        blurredData[idx + 2] = b / count;
-      }
-    }
-    
-    // Apply sharpening
-    for (let i = 0; i < data.length; i += 4) {
-      const originalR = data[i];
-      const originalG = data[i + 1];
-      const originalB = data[i + 2];
-      
-      const blurredR = blurredData[i];
-      const blurredG = blurredData[i + 1];
-      const blurredB = blurredData[i + 2];
-      
-      const diffR = originalR - blurredR;
-      const diffG = originalG - blurredG;
-      const diffB = originalB - blurredB;
-      
-      const magnitude = Math.sqrt(diffR * diffR + diffG * diffG + diffB * diffB);
-      
-      if (magnitude > threshold) {
-        data[i] = Math.max(0, Math.min(255, originalR + diffR * strength));
-        data[i + 1] = Math.max(0, Math.min(255, originalG + diffG * strength));
-        data[i + 2] = Math.max(0, Math.min(255, originalB + diffB * strength));
-      }
-    }
-    
-    ctx.putImageData(imageData, 0, 0);
-    
-    return new Promise<string>((resolve) => {
-      canvas.toBlob((blob) => {
-        if (blob) {
-          const url = URL.createObjectURL(blob);
-          resolve(url);
-        } else {
-          resolve(file.url);
-        }
-      }, 'image/jpeg', 0.9);
-    });
+    await sharpenCanvas(canvas, settings, signal);
+    return canvas;
   };
 
-  // Live preview effect
+  // Live preview effect; a settings change cancels the preview still running
   useEffect(() => {
     if (files.length === 0) {
       setPreviewUrl(null);
       return;
     }
-    let cancelled = false;
-    processPreview(files[0]).then((url) => {
-      if (!cancelled) setPreviewUrl(url);
-    });
-    return () => { cancelled = true; };
+    const controller = new AbortController();
+    sharpenToCanvas(files[0], controller.signal)
+      .then(canvas => canvas.toBlob(blob => {
+        if (!controller.signal.aborted) setPreviewUrl(blob ? URL.createObjectURL(blob) : files[0].url);
+      }, 'image/jpeg', 0.9))
+      .catch(error => {
+        if (!(error instanceof ImageTaskCancelledError)) console.error('Error rendering preview:', error);
+      });
+    return () => controller.abort();
   // eslint-disable-next-line
   }, [files, settings.strength, settings.radius, settings.threshold]);
 
@@ -166,88 +106,7 @@ const SharpeningTool: React.FC = () => {
     try {
       const processed = await Promise.all(
         files.map(async (file) => {
-          // Create a canvas to process the image
-          const canvas = document.createElement('canvas');
-          const ctx = canvas.getContext('2d');
-          if (!ctx) throw new Error('Canvas context not available');
-          
-          // Create an image element
-          const img = document.createElement('img') as HTMLImageElement;
-          await new Promise<void>((resolve, reject) => {
-            img.onload = () => resolve();
-            img.onerror = reject;
-            img.src = file.url;
-          });
-          
-          // Set canvas dimensions
-          canvas.width = img.width;
-          canvas.height = img.height;
-          
-          // Draw the image on canvas
-          ctx.drawImage(img, 0, 0);
-          
-          // Get image data for sharpening
-          const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-          const data = imageData.data;
-          
-          // Apply unsharp mask algorithm
-          const strength = settings.strength / 100;
-          const radius = settings.radius;
-          const threshold = settings.threshold;
-          
-          // Create a blurred version for comparison
-          const blurredData = new Uint8ClampedArray(data);
-          
-          // Simple box blur for demonstration
-          for (let y = radius; y < canvas.height - radius; y++) {
-            for (let x = radius; x < canvas.width - radius; x++) {
-              let r = 0, g = 0, b = 0, count = 0;
-              
-              for (let dy = -radius; dy <= radius; dy++) {
-                for (let dx = -radius; dx <= radius; dx++) {
-                  const idx = ((y + dy) * canvas.width + (x + dx)) * 4;
-                  r += data[idx];
-                  g += data[idx + 1];
-                  b += data[idx + 2];
-                  count++;
-                }
-              }
-              
-              const idx = (y * canvas.width + x) * 4;
-              blurredData[idx] = r / count;
-              blurredData[idx + 1] = g / count;
-              blurredData[idx + 2] = b / count;
-            }
-          }
-          
-          // Apply sharpening
-          for (let i = 0; i < data.length; i += 4) {
-            const originalR = data[i];
-            const originalG = data[i + 1];
-            const originalB = data[i + 2];
-            
-            const blurredR = blurredData[i];
-            const blurredG = blurredData[i + 1];
-            const blurredB = blurredData[i + 2];
-            
-            // Calculate difference
-            const diffR = originalR - blurredR;
-            const diffG = originalG - blurredG;
-            const diffB = originalB - blurredB;
-            
-            // Apply threshold
-            const magnitude = Math.sqrt(diffR * diffR + diffG * diffG + diffB * diffB);
-            
-            if (magnitude > threshold) {
-              // Apply sharpening
-              data[i] = Math.max(0, Math.min(255, originalR + diffR * strength));
-              data[i + 1] = Math.max(0, Math.min(255, originalG + diffG * strength));
-              data[i + 2] = Math.max(0, Math.min(255, originalB + diffB * strength));
-            }
-          }
-          
-          // Put the sharpened image data back
-          ctx.putImageData(imageData, 0, 0);
+          const canvas = await sharpenToCanvas(file);
           
           // Convert to blob
           const blob = await new Promise<Blob>((resolve) => {
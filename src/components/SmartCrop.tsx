@@ -1,6 +1,7 @@
 import React, { useState, useRef, useCallback, useEffect } from 'react';
 import { Upload, Download, FileText, Users, Zap, Shield, CheckCircle, Sparkles, ArrowRight, Settings, RotateCcw, Target, Palette, Crop, FileImage, Camera, Eye, EyeOff, Maximize2, Move, MousePointer, Square } from 'lucide-react';
 import SEO from './SEO';
+import { planJpegTransform, snapCropToBlocks, transformJpeg } from '../utils/jpegTransform';
 
 interface CropArea {
   x: number;
@@ -29,10 +30,24 @@ interface VisualCropState {
   originalCrop: CropArea;
 }
 
+// Crops that start on the JPEG block grid are cut from the DCT coefficients
+// and keep the original quality; null means the crop has to be re-encoded
+async function losslessCrop(file: File, cropArea: CropArea, snapToBlocks: boolean): Promise<Blob | null> {
+  if (file.type !== 'image/jpeg' && !/\.jpe?g$/i.test(file.name)) return null;
+  try {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const crop = snapToBlocks ? snapCropToBlocks(bytes, cropArea) : cropArea;
+    if (!planJpegTransform(bytes, { crop }).lossless) return null;
+    return new Blob([transformJpeg(bytes, { crop })], { type: 'image/jpeg' });
+  } catch {
+    return null;
+  }
+}
+
 const SmartCrop: React.FC = () => {
   const [files, setFiles] = useState<UploadedImage[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [processedFiles, setProcessedFiles] = useState<{ name: string, blob: Blob }[]>([]);
+  const [processedFiles, setProcessedFiles] = useState<{ name: string, blob: Blob, lossless: boolean }[]>([]);
   const [aiModel, setAiModel] = useState('advanced');
   const [faceDetection, setFaceDetection] = useState(true);
   const [compositionAnalysis, setCompositionAnalysis] = useState(true);
@@ -43,6 +58,8 @@ const SmartCrop: React.FC = () => {
   const [customAspectRatio, setCustomAspectRatio] = useState({ width: 16, height: 9 });
   const [cropQuality, setCropQuality] = useState(90);
   const [maintainQuality, setMaintainQuality] = useState(true);
+  const [losslessJpeg, setLosslessJpeg] = useState(true);
+  const [snapToBlocks, setSnapToBlocks] = useState(false);
   const [visualCropMode, setVisualCropMode] = useState(false);
   const [visualCrop, setVisualCrop] = useState<VisualCropState>({
     isActive: false,
@@ -451,6 +468,11 @@ const SmartCrop: React.FC = () => {
           
           // Calculate crop area
           const cropArea = calculateSmartCrop(img.width, img.height, cropMode, aspectRatio);
+
+          const lossless = losslessJpeg ? await losslessCrop(image.file, cropArea, snapToBlocks) : null;
+          if (lossless) {
+            return { name: `cropped-${image.name}`, blob: lossless, lossless: true };
+          }
           
           // Set canvas dimensions to crop size
           canvas.width = cropArea.width;
@@ -477,14 +499,17 @@ const SmartCrop: React.FC = () => {
           
           return {
             name: `cropped-${image.name}`,
-            blob: blob
+            blob: blob,
+            lossless: false
           };
         })
       );
       
       setProcessedFiles(processed);
       setIsProcessing(false);
-      alert(`Smart cropping completed! ${processed.length} image${processed.length > 1 ? 's' : ''} have been intelligently cropped.`);
+      const losslessCount = processed.filter(file => file.lossless).length;
+      alert(`Smart cropping completed! ${processed.length} image${processed.length > 1 ? 's' : ''} have been intelligently cropped` +
+        (losslessCount > 0 ? `, ${losslessCount} losslessly without re-encoding.` : '.'));
     } catch (error) {
       console.error('Error processing images:', error);
       setIsProcessing(false);
@@ -998,6 +1023,36 @@ const SmartCrop: React.FC = () => {
                     </label>
                     <Maximize2 className="h-4 w-4 text-violet-600" />
                   </div>
+
+                  <div className="flex items-center gap-3">
+                    <input
+                      type="checkbox"
+                      id="losslessJpeg"
+                      checked={losslessJpeg}
+                      onChange={(e) => setLosslessJpeg(e.target.checked)}
+                      className="h-4 w-4 text-violet-600 focus:ring-violet-500 border-gray-300 rounded"
+                    />
+                    <label htmlFor="losslessJpeg" className="text-sm font-medium text-gray-700">
+                      Lossless JPEG Crop
+                    </label>
+                    <Crop className="h-4 w-4 text-violet-600" />
+                  </div>
+
+                  {losslessJpeg && (
+                    <div className="flex items-center gap-3">
+                      <input
+                        type="checkbox"
+                        id="snapToBlocks"
+                        checked={snapToBlocks}
+                        onChange={(e) => setSnapToBlocks(e.target.checked)}
+                        className="h-4 w-4 text-violet-600 focus:ring-violet-500 border-gray-300 rounded"
+                      />
+                      <label htmlFor="snapToBlocks" className="text-sm font-medium text-gray-700" title="Grows the crop by up to 15 px so it starts on the JPEG block grid">
+                        Snap Crop to JPEG Blocks
+                      </label>
+                      <Square className="h-4 w-4 text-violet-600" />
+                    </div>
+                  )}
                 </div>
               </div>
 
@@ -1,30 +1,51 @@
-import React, { useState, useRef, useCallback } from 'react';
-import { FileType, Upload, Download, Settings, FileText, Zap, Shield, Users, FileImage, ArrowRight, CheckCircle, Sparkles, RotateCcw } from 'lucide-react';
+import React, { useState, useRef } from 'react';
+import { FileType, Upload, Download, Settings, FileText, Zap, Shield, Users, FileImage, RotateCcw } from 'lucide-react';
 import SEO from './SEO';
 import { NotificationProvider, useNotification } from './NotificationProvider';
+import { WPSKind, parseWPSDocument } from '../utils/wps';
+import { PageSetup, detectScript, loadCJKFonts, renderFlowDocument } from '../utils/documentLayout';
+
+type PageSizeOption = 'auto' | 'a4' | 'letter' | 'a3';
+
+const PAGE_SIZES: Record<Exclude<PageSizeOption, 'auto'>, [number, number]> = {
+  a4: [595.28, 841.89],
+  letter: [612, 792],
+  a3: [841.89, 1190.55],
+};
+const WRITER_MARGINS = { top: 72, right: 72, bottom: 72, left: 72 };
+const SHEET_MARGINS = { top: 36, right: 36, bottom: 36, left: 36 };
+
+const WPS_EXTENSIONS = /\.(wps|et|dps|docx?|xlsx?|pptx?)$/i;
+
+interface ConvertedFile {
+  name: string;
+  blob: Blob;
+  format: string;
+}
 
 const WPSToPDFConverter: React.FC = () => {
   const [files, setFiles] = useState<File[]>([]);
-  const [processedFiles, setProcessedFiles] = useState<File[]>([]);
-  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [processedFiles, setProcessedFiles] = useState<ConvertedFile[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [quality, setQuality] = useState('high');
-  const [pageSize, setPageSize] = useState('auto');
-  const [preserveFormatting, setPreserveFormatting] = useState(true);
-  const [includeImages, setIncludeImages] = useState(true);
+  const [status, setStatus] = useState('');
+  const [pageSize, setPageSize] = useState<PageSizeOption>('auto');
+  const [orientation, setOrientation] = useState<'portrait' | 'landscape'>('portrait');
+  const [customFont, setCustomFont] = useState<File | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const fontInputRef = useRef<HTMLInputElement>(null);
   const notify = useNotification();
 
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFiles = Array.from(event.target.files || []);
-    const wpsFiles = selectedFiles.filter(file => file.name.toLowerCase().endsWith('.wps'));
+    const wpsFiles = selectedFiles.filter(file => WPS_EXTENSIONS.test(file.name));
     setFiles(prev => [...prev, ...wpsFiles]);
+    if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
   const handleDrop = (event: React.DragEvent) => {
     event.preventDefault();
     const droppedFiles = Array.from(event.dataTransfer.files);
-    const wpsFiles = droppedFiles.filter(file => file.name.toLowerCase().endsWith('.wps'));
+    const wpsFiles = droppedFiles.filter(file => WPS_EXTENSIONS.test(file.name));
     setFiles(prev => [...prev, ...wpsFiles]);
   };
 
@@ -36,51 +57,82 @@ const WPSToPDFConverter: React.FC = () => {
     setFiles(prev => prev.filter((_, i) => i !== index));
   };
 
+  const resetTool = () => {
+    setFiles([]);
+    setProcessedFiles([]);
+    setPageSize('auto');
+    setOrientation('portrait');
+    setCustomFont(null);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (fontInputRef.current) fontInputRef.current.value = '';
+  };
+
+  // Auto keeps Writer documents portrait and lays sheets and slides out in landscape
+  const pageSetupFor = (kind: WPSKind): PageSetup => {
+    const [short, long] = PAGE_SIZES[pageSize === 'auto' ? 'a4' : pageSize];
+    const landscape = pageSize === 'auto' ? kind !== 'writer' : orientation === 'landscape';
+    const [width, height] = landscape ? [long, short] : [short, long];
+    return { width, height, margins: kind === 'writer' ? WRITER_MARGINS : SHEET_MARGINS };
+  };
+
   const handleProcess = async () => {
-    if (files.length > 0) {
-      setIsProcessing(true);
+    if (files.length === 0) return;
+    setIsProcessing(true);
+    setProcessedFiles([]);
+    const results: ConvertedFile[] = [];
+    const errors: string[] = [];
+    for (const [index, file] of files.entries()) {
+      setStatus(`Converting ${index + 1} of ${files.length}...`);
       try {
-        notify('WPS Office files require server-side conversion due to their proprietary format. This feature is not available in the browser version. Please contact support for server-side conversion options or use our desktop application.', 'error');
-        setProcessedFiles([]);
+        const { kind, format, doc } = await parseWPSDocument(new Uint8Array(await file.arrayBuffer()));
+        const fonts = await loadCJKFonts(customFont, detectScript(doc));
+        const baseName = file.name.replace(/\.[^.]+$/, '');
+        results.push({
+          name: `${baseName}.pdf`,
+          blob: renderFlowDocument({ ...doc, title: doc.title || baseName }, fonts, pageSetupFor(kind)),
+          format,
+        });
       } catch (error) {
-        notify('WPS conversion is not supported in the browser version. Please use our desktop application or contact support.', 'error');
-      } finally {
-        setIsProcessing(false);
+        console.error(`Error converting ${file.name}:`, error);
+        errors.push(`${file.name}: ${error instanceof Error ? error.message : 'conversion failed'}`);
       }
     }
+    setProcessedFiles(results);
+    setIsProcessing(false);
+    setStatus('');
+    if (errors.length > 0) notify(errors.join(' '), 'error');
+    else notify(`Converted ${results.length} file(s) to PDF.`, 'success');
   };
 
-  const handleDownload = () => {
-    if (processedFiles.length > 0) {
-      const url = URL.createObjectURL(processedFiles[0]);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = processedFiles[0].name.replace(/\.wps$/, '') + '.pdf';
-      a.click();
-      URL.revokeObjectURL(url);
-    }
+  const handleDownload = (file: ConvertedFile) => {
+    const url = URL.createObjectURL(file.blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = file.name;
+    a.click();
+    URL.revokeObjectURL(url);
   };
 
   const features = [
     {
       icon: <FileType className="h-6 w-6" />,
-      title: "WPS Support",
-      description: "Convert WPS Office documents to PDF with precision"
+      title: "Writer, Spreadsheet & Presentation",
+      description: "Converts .wps documents, .et workbooks and .dps slide decks"
     },
     {
       icon: <FileText className="h-6 w-6" />,
-      title: "Format Preservation",
-      description: "Preserve document formatting and layout perfectly"
+      title: "Format Detection",
+      description: "Recognises OOXML and legacy binary files whatever the extension says"
     },
     {
       icon: <Shield className="h-6 w-6" />,
       title: "Secure Processing",
-      description: "Your files are processed securely and never stored permanently"
+      description: "Files are converted in your browser and never uploaded"
     },
     {
       icon: <Zap className="h-6 w-6" />,
-      title: "Fast Conversion",
-      description: "Lightning-fast conversion with high-quality output"
+      title: "Chinese & Korean Text",
+      description: "CJK text is embedded with a matching font and stays searchable"
     }
   ];
 
@@ -88,17 +140,17 @@ const WPSToPDFConverter: React.FC = () => {
     {
       step: "1",
       title: "Upload WPS Files",
-      description: "Drag and drop your WPS files or click to browse and select files from your computer"
+      description: "Drag and drop your .wps, .et or .dps files or click to browse"
     },
     {
-      step: "2", 
+      step: "2",
       title: "Choose Settings",
-      description: "Select quality, page size, and conversion preferences"
+      description: "Pick a page size and orientation, or keep the automatic layout"
     },
     {
       step: "3",
       title: "Convert to PDF",
-      description: "Our system converts your WPS files to high-quality PDF documents"
+      description: "Download a PDF for every file that was converted"
     }
   ];
 
@@ -109,24 +161,9 @@ const WPSToPDFConverter: React.FC = () => {
     { icon: <FileImage className="h-5 w-5" />, value: "Free", label: "No Registration" }
   ];
 
-  const qualityOptions = [
-    { id: 'low', name: 'Low Quality', description: 'Smaller file size' },
-    { id: 'medium', name: 'Medium Quality', description: 'Balanced size and quality' },
-    { id: 'high', name: 'High Quality', description: 'Best quality output' },
-    { id: 'ultra', name: 'Ultra Quality', description: 'Maximum quality for printing' }
-  ];
-
-  const pageSizeOptions = [
-    { id: 'auto', name: 'Auto Detect', description: 'Detect from WPS content' },
-    { id: 'a4', name: 'A4 (210×297mm)', description: 'Standard paper size' },
-    { id: 'letter', name: 'Letter (8.5×11in)', description: 'US standard size' },
-    { id: 'a3', name: 'A3 (297×420mm)', description: 'Large format' },
-    { id: 'custom', name: 'Custom Size', description: 'Set your own dimensions' }
-  ];
-
   return (
     <>
-      <SEO 
+      <SEO
         title="WPS to PDF | Convert WPS Files to PDF Online Free"
         description="Convert WPS files to PDF instantly with our easy-to-use online converter. Preserve formatting and share your documents effortlessly."
         keywords="WPS to PDF, convert WPS, WPS converter, document conversion, online tool, free tool"
@@ -146,15 +183,21 @@ const WPSToPDFConverter: React.FC = () => {
                 Convert WPS to PDF
               </h1>
               <p className="text-xl text-gray-600 max-w-3xl mx-auto mb-8 leading-relaxed">
-                Advanced WPS Office to PDF conversion with formatting preservation, high-quality output, 
-                and multiple format options. Perfect for document sharing and archiving.
+                Convert WPS Office Writer, Spreadsheet and Presentation files to PDF right in your browser.
+                Text, tables and sheets are laid out with searchable text for sharing and archiving.
               </p>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-6 mb-12">
+                {stats.map((stat, index) => (
+                  <div key={index} className="text-center">
+                    <div className="flex items-center justify-center space-x-2 mb-2">
+                      <div className="text-violet-600">{stat.icon}</div>
+                      <div className="text-2xl font-bold text-gray-900">{stat.value}</div>
+                    </div>
+                    <div className="text-sm text-gray-600">{stat.label}</div>
+                  </div>
+                ))}
+              </div>
               <div className="mt-8 max-w-2xl mx-auto">
-                <div className="bg-yellow-100 border-l-4 border-yellow-500 text-yellow-800 p-6 rounded shadow text-lg font-medium mb-8">
-                  <span className="block mb-2 font-bold">Conversion Not Supported in Browser</span>
-                  Real WPS to PDF conversion is <b>not possible in the browser</b> due to proprietary format restrictions.<br/>
-                  Please use <b>WPS Office</b> or a dedicated server-side tool for real conversion.
-                </div>
                 {/* Upload Area */}
                 <div className="mb-8">
                   <div
@@ -168,7 +211,7 @@ const WPSToPDFConverter: React.FC = () => {
                   >
                     <Upload className="h-12 w-12 text-blue-400 mx-auto mb-4" />
                     <h3 className="text-xl font-semibold text-gray-900 mb-2">{files.length > 0 ? 'Files Selected' : 'Drop your WPS files here for PDF conversion'}</h3>
-                    <p className="text-gray-600 mb-6">{files.length > 0 ? `${files.length} file(s) selected` : 'or click to browse files from your computer'}</p>
+                    <p className="text-gray-600 mb-6">{files.length > 0 ? `${files.length} file(s) selected` : 'or click to browse files from your computer (.wps, .et, .dps)'}</p>
                     <button
                       onClick={e => { e.stopPropagation(); fileInputRef.current?.click(); }}
                       className="bg-gradient-to-r from-violet-600 to-blue-600 text-white px-8 py-3 rounded-xl font-semibold hover:shadow-lg transition-all duration-200"
@@ -177,7 +220,7 @@ const WPSToPDFConverter: React.FC = () => {
                     <input
                       ref={fileInputRef}
                       type="file"
-                      accept=".wps"
+                      accept=".wps,.et,.dps,.doc,.docx,.xls,.xlsx,.ppt,.pptx"
                       multiple
                       onChange={handleFileSelect}
                       className="hidden"
@@ -202,16 +245,122 @@ const WPSToPDFConverter: React.FC = () => {
                     </div>
                   )}
                 </div>
+                {/* Settings */}
+                <div className="bg-white/90 rounded-xl p-6 mb-8 text-left shadow">
+                  <div className="flex items-center gap-3 mb-4">
+                    <Settings className="h-5 w-5 text-gray-600" />
+                    <h3 className="text-lg font-semibold text-gray-800">PDF Settings</h3>
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Page Size</label>
+                      <select
+                        value={pageSize}
+                        onChange={e => setPageSize(e.target.value as PageSizeOption)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-violet-500 focus:border-transparent"
+                      >
+                        <option value="auto">Auto</option>
+                        <option value="a4">A4</option>
+                        <option value="letter">Letter</option>
+                        <option value="a3">A3</option>
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Orientation</label>
+                      <select
+                        value={orientation}
+                        onChange={e => setOrientation(e.target.value as 'portrait' | 'landscape')}
+                        disabled={pageSize === 'auto'}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-violet-500 focus:border-transparent disabled:bg-gray-100"
+                      >
+                        <option value="portrait">Portrait</option>
+                        <option value="landscape">Landscape</option>
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Font (optional .ttf)</label>
+                      <input
+                        ref={fontInputRef}
+                        type="file"
+                        accept=".ttf"
+                        onChange={e => setCustomFont(e.target.files?.[0] ?? null)}
+                        className="w-full text-sm text-gray-600 file:mr-3 file:px-3 file:py-2 file:rounded-lg file:border-0 file:bg-violet-100 file:text-violet-700"
+                      />
+                      <p className="text-xs text-gray-500 mt-1">
+                        {customFont ? customFont.name : 'A Chinese or Korean font is downloaded to match the text'}
+                      </p>
+                    </div>
+                  </div>
+                </div>
                 {/* Process Button */}
-                <div className="flex justify-center">
+                <div className="flex justify-center gap-4">
                   <button
                     onClick={handleProcess}
                     className="bg-gradient-to-r from-blue-600 to-violet-600 text-white px-8 py-3 rounded-xl font-semibold hover:shadow-lg transition-all duration-200 disabled:opacity-50"
                     disabled={files.length === 0 || isProcessing}
                   >
-                    {isProcessing ? 'Processing...' : 'Convert to PDF'}
+                    {isProcessing ? (status || 'Processing...') : 'Convert to PDF'}
+                  </button>
+                  <button
+                    onClick={resetTool}
+                    className="px-8 py-3 border border-gray-300 text-gray-700 rounded-xl font-semibold hover:bg-gray-50 transition-all duration-200 flex items-center space-x-2"
+                  >
+                    <RotateCcw className="h-5 w-5" />
+                    <span>Reset</span>
                   </button>
                 </div>
+                {/* Results */}
+                {processedFiles.length > 0 && (
+                  <div className="mt-6 space-y-2 text-left">
+                    {processedFiles.map(file => (
+                      <div key={file.name} className="flex items-center justify-between bg-white rounded-lg px-4 py-3 text-sm shadow-sm">
+                        <div className="min-w-0">
+                          <div className="font-medium text-gray-900 truncate">{file.name}</div>
+                          <div className="text-xs text-gray-500">{file.format}</div>
+                        </div>
+                        <div className="flex items-center space-x-4">
+                          <span className="text-gray-500">{(file.blob.size / 1024 / 1024).toFixed(2)} MB</span>
+                          <button onClick={() => handleDownload(file)} className="text-violet-600 hover:text-violet-800" aria-label={`Download ${file.name}`}>
+                            <Download className="h-4 w-4" />
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+
+            {/* Features Section */}
+            <div className="mb-16">
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-8">
+                {features.map((feature, index) => (
+                  <div key={index} className="bg-white/90 backdrop-blur-sm rounded-2xl p-6 shadow-lg border border-white/20 text-center">
+                    <div className="inline-flex p-3 bg-gradient-to-br from-violet-500 to-blue-500 rounded-xl text-white mb-4">
+                      {feature.icon}
+                    </div>
+                    <h3 className="text-lg font-semibold text-gray-900 mb-2">{feature.title}</h3>
+                    <p className="text-gray-600 text-sm">{feature.description}</p>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* How to Use */}
+            <div className="bg-white/90 backdrop-blur-sm rounded-3xl shadow-xl p-8 mb-16">
+              <div className="text-center mb-8">
+                <h2 className="text-3xl font-bold text-gray-900 mb-4">How to Convert WPS to PDF</h2>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
+                {howToSteps.map((step, index) => (
+                  <div key={index} className="text-center">
+                    <div className="w-16 h-16 bg-gradient-to-br from-violet-500 to-blue-500 rounded-full flex items-center justify-center mx-auto mb-4">
+                      <span className="text-white font-bold text-xl">{step.step}</span>
+                    </div>
+                    <h3 className="text-lg font-semibold text-gray-900 mb-2">{step.title}</h3>
+                    <p className="text-gray-600">{step.description}</p>
+                  </div>
+                ))}
               </div>
             </div>
           </div>
@@ -227,4 +376,4 @@ const WPSToPDFConverterWithProvider: React.FC = () => (
   </NotificationProvider>
 );
 
-export default WPSToPDFConverterWithProvider; 
\ No newline at end of file
+export default WPSToPDFConverterWithProvider;
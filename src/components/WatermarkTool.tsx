@@ -2,6 +2,7 @@ import React, { useState, useRef, useCallback } from 'react';
 import { Upload, Download, Image, Users, Zap, Shield, TrendingUp, CheckCircle, Sparkles, Target, Layers } from 'lucide-react';
 import SEO from './SEO';
 import JSZip from 'jszip';
+import { drawTextWatermark } from '../utils/imageOperations';
 
 interface UploadedImage {
   id: string;
@@ -103,27 +104,19 @@ const WatermarkTool: React.FC = () => {
       ctx.save();
       // Watermark logic
       if (watermarkType === 'text') {
-        ctx.font = `${fontWeight} ${size}px ${fontFamily}`;
-        ctx.globalAlpha = opacity / 100;
-        ctx.fillStyle = color;
-        ctx.translate(canvas.width / 2, canvas.height / 2);
-        ctx.rotate((rotation * Math.PI) / 180);
-        ctx.translate(-canvas.width / 2, -canvas.height / 2);
-        // Shadow
-        if (shadowEnabled) {
-          ctx.shadowColor = shadowColor;
-          ctx.shadowBlur = shadowBlur;
-          ctx.shadowOffsetX = shadowOffsetX;
-          ctx.shadowOffsetY = shadowOffsetY;
-        }
-        // Position
-        let x = 20, y = size + 20;
-        if (position === 'top-left') { x = 20; y = size + 20; }
-        else if (position === 'top-right') { x = canvas.width - ctx.measureText(watermarkText).width - 20; y = size + 20; }
-        else if (position === 'bottom-left') { x = 20; y = canvas.height - 20; }
-        else if (position === 'bottom-right') { x = canvas.width - ctx.measureText(watermarkText).width - 20; y = canvas.height - 20; }
-        else if (position === 'center') { x = (canvas.width - ctx.measureText(watermarkText).width) / 2; y = canvas.height / 2; }
-        ctx.fillText(watermarkText, x, y);
+        drawTextWatermark(ctx, canvas.width, canvas.height, {
+          text: watermarkText,
+          position,
+          opacity,
+          size,
+          color,
+          fontFamily,
+          fontWeight,
+          rotation,
+          shadow: shadowEnabled
+            ? { color: shadowColor, blur: shadowBlur, offsetX: shadowOffsetX, offsetY: shadowOffsetY }
+            : undefined,
+        });
       } else if (watermarkType === 'image' && watermarkImage) {
         // Draw watermark image
         const wmImg = await new Promise<HTMLImageElement>((resolve) => {
@@ -1,7 +1,11 @@
 declare module 'utif' {
   const UTIF: {
     encodeImage: (rgba: Uint8ClampedArray | Uint8Array, width: number, height: number) => Uint8Array;
+    // Writes the header and IFDs only; tags are keyed 't<number>', e.g. { t256: [width] }
+    encode: (ifds: Record<string, (number | string)[]>[]) => ArrayBuffer;
+    // Field type of each tag it can write
+    ttypes: Record<number, number>;
     // Add more types as needed
   };
   export = UTIF;
-} 
\ No newline at end of file
+} 
@@ -0,0 +1,262 @@
+// ASN.1 reading and DER writing
+// Just enough of X.690 for certificates, PKCS#12 key files and CMS
+// signatures: a BER reader that also accepts the indefinite lengths and
+// constructed strings some PKCS#12 writers emit, and DER encoders for the
+// structures we build ourselves.
+
+import { concatBytes } from './crypto';
+
+export const TAG = {
+  BOOLEAN: 0x01,
+  INTEGER: 0x02,
+  BIT_STRING: 0x03,
+  OCTET_STRING: 0x04,
+  NULL: 0x05,
+  OID: 0x06,
+  UTF8_STRING: 0x0c,
+  SEQUENCE: 0x10,
+  SET: 0x11,
+  PRINTABLE_STRING: 0x13,
+  T61_STRING: 0x14,
+  IA5_STRING: 0x16,
+  UTC_TIME: 0x17,
+  GENERALIZED_TIME: 0x18,
+  UNIVERSAL_STRING: 0x1c,
+  BMP_STRING: 0x1e,
+} as const;
+
+export const CLASS_UNIVERSAL = 0;
+export const CLASS_CONTEXT = 2;
+
+export interface Asn1Node {
+  tagClass: number;
+  tag: number;
+  constructed: boolean;
+  // The complete encoding, header included
+  raw: Uint8Array;
+  // Content octets; empty for indefinite-length values, use `children`
+  value: Uint8Array;
+  children: Asn1Node[];
+}
+
+export class Asn1Error extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'Asn1Error';
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Reading
+// ---------------------------------------------------------------------------
+
+function parseAt(bytes: Uint8Array, start: number, depth: number): Asn1Node {
+  if (depth > 64) throw new Asn1Error('ASN.1 nesting too deep');
+  let offset = start;
+  const read = () => {
+    if (offset >= bytes.length) throw new Asn1Error('Truncated ASN.1 data');
+    return bytes[offset++];
+  };
+  const first = read();
+  const tagClass = first >> 6;
+  const constructed = (first & 0x20) !== 0;
+  let tag = first & 0x1f;
+  if (tag === 0x1f) {
+    tag = 0;
+    let byte: number;
+    do {
+      byte = read();
+      tag = tag * 128 + (byte & 0x7f);
+    } while (byte & 0x80);
+  }
+  let length = read();
+  const indefinite = length === 0x80;
+  if (length > 0x80) {
+    const count = length & 0x7f;
+    if (count > 4) throw new Asn1Error('ASN.1 length too large');
+    length = 0;
+    for (let i = 0; i < count; i++) length = length * 256 + read();
+  }
+
+  const children: Asn1Node[] = [];
+  if (indefinite) {
+    if (!constructed) throw new Asn1Error('Indefinite length on a primitive value');
+    while (bytes[offset] !== 0 || bytes[offset + 1] !== 0) {
+      const child = parseAt(bytes, offset, depth + 1);
+      children.push(child);
+      offset += child.raw.length;
+    }
+    offset += 2;
+    return { tagClass, tag, constructed, raw: bytes.subarray(start, offset), value: new Uint8Array(0), children };
+  }
+
+  const end = offset + length;
+  if (end > bytes.length) throw new Asn1Error('Truncated ASN.1 data');
+  const value = bytes.subarray(offset, end);
+  if (constructed) {
+    for (let position = offset; position < end;) {
+      const child = parseAt(bytes, position, depth + 1);
+      children.push(child);
+      position += child.raw.length;
+    }
+  }
+  return { tagClass, tag, constructed, raw: bytes.subarray(start, end), value, children };
+}
+
+/** Parse one value at the start of `bytes`; trailing bytes are ignored. */
+export function parseAsn1(bytes: Uint8Array): Asn1Node {
+  return parseAt(bytes, 0, 0);
+}
+
+export const isUniversal = (node: Asn1Node | undefined, tag: number): node is Asn1Node =>
+  !!node && node.tagClass === CLASS_UNIVERSAL && node.tag === tag;
+
+export const isContext = (node: Asn1Node | undefined, tag: number): node is Asn1Node =>
+  !!node && node.tagClass === CLASS_CONTEXT && node.tag === tag;
+
+/** Child `index` of a constructed value, or an error naming what was expected. */
+export function child(node: Asn1Node, index: number, what = 'value'): Asn1Node {
+  const found = node.children[index];
+  if (!found) throw new Asn1Error(`Missing ${what} in ASN.1 structure`);
+  return found;
+}
+
+// Content of a string type, joining the segments of a constructed (BER) one
+export function octets(node: Asn1Node): Uint8Array {
+  return node.constructed ? concatBytes(...node.children.map(octets)) : node.value;
+}
+
+export function readOid(node: Asn1Node): string {
+  if (!isUniversal(node, TAG.OID)) throw new Asn1Error('Expected an object identifier');
+  const parts: number[] = [];
+  let current = 0;
+  for (const byte of node.value) {
+    current = current * 128 + (byte & 0x7f);
+    if (byte & 0x80) continue;
+    if (parts.length === 0) {
+      const first = Math.min(2, Math.floor(current / 40));
+      parts.push(first, current - first * 40);
+    } else {
+      parts.push(current);
+    }
+    current = 0;
+  }
+  return parts.join('.');
+}
+
+// Small non-negative integers such as versions and iteration counts
+export function readInteger(node: Asn1Node): number {
+  if (!isUniversal(node, TAG.INTEGER)) throw new Asn1Error('Expected an integer');
+  return node.value.reduce((value, byte) => value * 256 + byte, 0);
+}
+
+export function readString(node: Asn1Node): string {
+  const bytes = octets(node);
+  if (node.tag === TAG.BMP_STRING) {
+    let text = '';
+    for (let i = 0; i + 1 < bytes.length; i += 2) text += String.fromCharCode((bytes[i] << 8) | bytes[i + 1]);
+    return text;
+  }
+  if (node.tag === TAG.UNIVERSAL_STRING) {
+    let text = '';
+    for (let i = 0; i + 3 < bytes.length; i += 4) text += String.fromCodePoint(((bytes[i] << 24) | (bytes[i + 1] << 16) | (bytes[i + 2] << 8) | bytes[i + 3]) >>> 0);
+    return text;
+  }
+  if (node.tag === TAG.T61_STRING) return String.fromCharCode(...bytes);
+  return new TextDecoder().decode(bytes);
+}
+
+// UTCTime (two-digit years, 1950-2049) and GeneralizedTime
+export function readTime(node: Asn1Node): Date {
+  const text = new TextDecoder().decode(node.value);
+  const match = /^(\d{2}|\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})?(?:[.,](\d+))?(Z|[+-]\d{4})?$/.exec(text);
+  if (!match) throw new Asn1Error(`Invalid time value: ${text}`);
+  let year = Number(match[1]);
+  if (match[1].length === 2) year += year < 50 ? 2000 : 1900;
+  const millis = match[7] ? Math.round(Number(`0.${match[7]}`) * 1000) : 0;
+  let time = Date.UTC(year, Number(match[2]) - 1, Number(match[3]), Number(match[4]), Number(match[5]), Number(match[6] ?? 0), millis);
+  const zone = match[8];
+  if (zone && zone !== 'Z') {
+    const minutes = Number(zone.slice(1, 3)) * 60 + Number(zone.slice(3));
+    time -= (zone[0] === '+' ? 1 : -1) * minutes * 60000;
+  }
+  return new Date(time);
+}
+
+// ---------------------------------------------------------------------------
+// DER writing
+// ---------------------------------------------------------------------------
+
+function encodeLength(length: number): Uint8Array {
+  if (length < 0x80) return Uint8Array.of(length);
+  const bytes: number[] = [];
+  for (let rest = length; rest > 0; rest = Math.floor(rest / 256)) bytes.unshift(rest & 0xff);
+  return Uint8Array.of(0x80 | bytes.length, ...bytes);
+}
+
+/** Encode a value with a single-byte identifier (tag number below 31). */
+export function derTlv(identifier: number, content: Uint8Array): Uint8Array {
+  return concatBytes(Uint8Array.of(identifier), encodeLength(content.length), content);
+}
+
+export const derSequence = (...items: Uint8Array[]) => derTlv(0x20 | TAG.SEQUENCE, concatBytes(...items));
+
+// SET OF with its elements in the DER order of their encodings
+export function derSet(...items: Uint8Array[]): Uint8Array {
+  const sorted = [...items].sort((a, b) => {
+    for (let i = 0; i < Math.min(a.length, b.length); i++) if (a[i] !== b[i]) return a[i] - b[i];
+    return a.length - b.length;
+  });
+  return derTlv(0x20 | TAG.SET, concatBytes(...sorted));
+}
+
+// [n] EXPLICIT, or IMPLICIT when `content` already is the value's content
+export const derContext = (tag: number, content: Uint8Array, constructed = true) =>
+  derTlv(0x80 | (constructed ? 0x20 : 0) | tag, content);
+
+export const derNull = () => Uint8Array.of(TAG.NULL, 0);
+export const derOctetString = (bytes: Uint8Array) => derTlv(TAG.OCTET_STRING, bytes);
+export const derBitString = (bytes: Uint8Array) => derTlv(TAG.BIT_STRING, concatBytes(Uint8Array.of(0), bytes));
+export const derUtf8String = (text: string) => derTlv(TAG.UTF8_STRING, new TextEncoder().encode(text));
+
+// Unsigned big-endian magnitude or a small number, as a minimal INTEGER
+export function derInteger(value: number | Uint8Array): Uint8Array {
+  let bytes: Uint8Array;
+  if (typeof value === 'number') {
+    const digits: number[] = [];
+    for (let rest = value; rest > 0; rest = Math.floor(rest / 256)) digits.unshift(rest & 0xff);
+    bytes = Uint8Array.from(digits);
+  } else {
+    bytes = value;
+  }
+  let start = 0;
+  while (start < bytes.length - 1 && bytes[start] === 0 && !(bytes[start + 1] & 0x80)) start++;
+  bytes = bytes.subarray(start);
+  if (bytes.length === 0 || bytes[0] & 0x80) bytes = concatBytes(Uint8Array.of(0), bytes);
+  return derTlv(TAG.INTEGER, bytes);
+}
+
+export function derOid(oid: string): Uint8Array {
+  const parts = oid.split('.').map(Number);
+  const values = [parts[0] * 40 + parts[1], ...parts.slice(2)];
+  const bytes: number[] = [];
+  for (const value of values) {
+    const group: number[] = [value & 0x7f];
+    for (let rest = Math.floor(value / 128); rest > 0; rest = Math.floor(rest / 128)) group.unshift(0x80 | (rest & 0x7f));
+    bytes.push(...group);
+  }
+  return derTlv(TAG.OID, Uint8Array.from(bytes));
+}
+
+// UTCTime for 1950-2049 as RFC 5280 requires, GeneralizedTime otherwise
+export function derTime(date: Date): Uint8Array {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const year = date.getUTCFullYear();
+  const rest = `${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+  if (year >= 1950 && year < 2050) return derTlv(TAG.UTC_TIME, new TextEncoder().encode(`${pad(year % 100)}${rest}`));
+  return derTlv(TAG.GENERALIZED_TIME, new TextEncoder().encode(`${year}${rest}`));
+}
+
+// AlgorithmIdentifier with absent or NULL parameters
+export const derAlgorithm = (oid: string, parameters?: Uint8Array) =>
+  derSequence(derOid(oid), ...(parameters ? [parameters] : []));
@@ -0,0 +1,193 @@
+// Compound File Binary (OLE2) reader
+// The container behind HWP 5.0, legacy Office and WPS documents: a small FAT
+// file system with a red-black tree directory and a separate mini stream for
+// streams below the cutoff size. Read-only; streams are copied out on demand.
+
+const SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+const END_OF_CHAIN = 0xfffffffe;
+const FREE_SECT = 0xffffffff;
+const NO_STREAM = 0xffffffff;
+const HEADER_DIFAT_ENTRIES = 109;
+const DIRECTORY_ENTRY_SIZE = 128;
+
+const TYPE_STORAGE = 1;
+const TYPE_STREAM = 2;
+const TYPE_ROOT = 5;
+
+export interface CFBEntry {
+  // Full path with '/' separators, without the root entry name
+  path: string;
+  isStorage: boolean;
+  size: number;
+  startSector: number;
+}
+
+export class CFBFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CFBFormatError';
+  }
+}
+
+export function isCompoundFile(bytes: Uint8Array): boolean {
+  return bytes.length >= 512 && SIGNATURE.every((byte, i) => bytes[i] === byte);
+}
+
+export class CompoundFile {
+  // Keyed by lowercase path; CFB names are case-insensitive
+  readonly entries = new Map<string, CFBEntry>();
+  private readonly view: DataView;
+  private readonly sectorSize: number;
+  private readonly miniSectorSize: number;
+  private readonly miniStreamCutoff: number;
+  private readonly fat: Uint32Array;
+  private readonly miniFat: Uint32Array;
+  private readonly miniStream: Uint8Array;
+
+  constructor(private readonly bytes: Uint8Array) {
+    if (!isCompoundFile(bytes)) throw new CFBFormatError('Not a compound document (missing OLE signature)');
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const sectorShift = this.view.getUint16(0x1e, true);
+    const miniSectorShift = this.view.getUint16(0x20, true);
+    if (sectorShift !== 9 && sectorShift !== 12) throw new CFBFormatError(`Unsupported sector size 2^${sectorShift}`);
+    this.sectorSize = 1 << sectorShift;
+    this.miniSectorSize = 1 << miniSectorShift;
+    this.miniStreamCutoff = this.view.getUint32(0x38, true);
+
+    this.fat = this.readFat();
+    const miniFatStart = this.view.getUint32(0x3c, true);
+    this.miniFat = miniFatStart === END_OF_CHAIN ? new Uint32Array(0) : this.toUint32(this.readChain(miniFatStart));
+
+    const directory = this.readChain(this.view.getUint32(0x30, true));
+    const root = this.readDirectoryEntry(directory, 0);
+    if (!root || root.type !== TYPE_ROOT) throw new CFBFormatError('Missing root directory entry');
+    this.miniStream = root.start === END_OF_CHAIN ? new Uint8Array(0) : this.readChain(root.start).subarray(0, root.size);
+    this.walkDirectory(directory, root.child, '', new Set());
+  }
+
+  has(path: string): boolean {
+    return this.entries.has(path.toLowerCase());
+  }
+
+  // Paths of every stream, in directory order
+  list(): string[] {
+    return Array.from(this.entries.values()).filter(entry => !entry.isStorage).map(entry => entry.path);
+  }
+
+  read(path: string): Uint8Array | null {
+    const entry = this.entries.get(path.toLowerCase());
+    if (!entry || entry.isStorage) return null;
+    if (entry.size === 0) return new Uint8Array(0);
+    if (entry.size < this.miniStreamCutoff) return this.readMiniChain(entry.startSector, entry.size);
+    return this.readChain(entry.startSector).slice(0, entry.size);
+  }
+
+  private toUint32(data: Uint8Array): Uint32Array {
+    const copy = data.slice(0, data.length & ~3);
+    return new Uint32Array(copy.buffer);
+  }
+
+  private sectorOffset(sector: number): number {
+    return (sector + 1) * this.sectorSize;
+  }
+
+  private readFat(): Uint32Array {
+    const fatSectors: number[] = [];
+    for (let i = 0; i < HEADER_DIFAT_ENTRIES; i++) {
+      const sector = this.view.getUint32(0x4c + i * 4, true);
+      if (sector === FREE_SECT || sector === END_OF_CHAIN) break;
+      fatSectors.push(sector);
+    }
+    const entriesPerSector = this.sectorSize / 4;
+    let difatSector = this.view.getUint32(0x44, true);
+    let difatCount = this.view.getUint32(0x48, true);
+    while (difatCount-- > 0 && difatSector !== END_OF_CHAIN && difatSector !== FREE_SECT) {
+      const offset = this.sectorOffset(difatSector);
+      if (offset + this.sectorSize > this.bytes.length) throw new CFBFormatError('DIFAT sector out of range');
+      for (let i = 0; i < entriesPerSector - 1; i++) {
+        const sector = this.view.getUint32(offset + i * 4, true);
+        if (sector !== FREE_SECT && sector !== END_OF_CHAIN) fatSectors.push(sector);
+      }
+      difatSector = this.view.getUint32(offset + (entriesPerSector - 1) * 4, true);
+    }
+
+    const fat = new Uint32Array(fatSectors.length * entriesPerSector);
+    fatSectors.forEach((sector, index) => {
+      const offset = this.sectorOffset(sector);
+      if (offset + this.sectorSize > this.bytes.length) throw new CFBFormatError('FAT sector out of range');
+      for (let i = 0; i < entriesPerSector; i++) fat[index * entriesPerSector + i] = this.view.getUint32(offset + i * 4, true);
+    });
+    return fat;
+  }
+
+  private readChain(start: number): Uint8Array {
+    const sectors: number[] = [];
+    const seen = new Set<number>();
+    for (let sector = start; sector !== END_OF_CHAIN; sector = this.fat[sector]) {
+      if (sector >= this.fat.length || seen.has(sector)) throw new CFBFormatError('Corrupt sector chain');
+      seen.add(sector);
+      sectors.push(sector);
+    }
+    const out = new Uint8Array(sectors.length * this.sectorSize);
+    sectors.forEach((sector, i) => {
+      const offset = this.sectorOffset(sector);
+      // The last sector of a file may be truncated
+      out.set(this.bytes.subarray(offset, Math.min(offset + this.sectorSize, this.bytes.length)), i * this.sectorSize);
+    });
+    return out;
+  }
+
+  private readMiniChain(start: number, size: number): Uint8Array {
+    const out = new Uint8Array(size);
+    const seen = new Set<number>();
+    let written = 0;
+    for (let sector = start; sector !== END_OF_CHAIN && written < size; sector = this.miniFat[sector]) {
+      if (sector >= this.miniFat.length || seen.has(sector)) throw new CFBFormatError('Corrupt mini sector chain');
+      seen.add(sector);
+      const offset = sector * this.miniSectorSize;
+      const chunk = this.miniStream.subarray(offset, offset + Math.min(this.miniSectorSize, size - written));
+      out.set(chunk, written);
+      written += chunk.length;
+    }
+    if (written < size) throw new CFBFormatError('Stream is shorter than its directory entry');
+    return out;
+  }
+
+  private readDirectoryEntry(directory: Uint8Array, index: number) {
+    const offset = index * DIRECTORY_ENTRY_SIZE;
+    if (offset + DIRECTORY_ENTRY_SIZE > directory.length) return null;
+    const view = new DataView(directory.buffer, directory.byteOffset + offset, DIRECTORY_ENTRY_SIZE);
+    const nameLength = Math.min(view.getUint16(0x40, true), 64);
+    let name = '';
+    for (let i = 0; i + 1 < nameLength - 1; i += 2) name += String.fromCharCode(view.getUint16(i, true));
+    return {
+      name,
+      type: view.getUint8(0x42),
+      left: view.getUint32(0x44, true),
+      right: view.getUint32(0x48, true),
+      child: view.getUint32(0x4c, true),
+      start: view.getUint32(0x74, true),
+      size: view.getUint32(0x78, true),
+    };
+  }
+
+  // In-order walk of one storage's sibling tree, descending into child storages
+  private walkDirectory(directory: Uint8Array, index: number, prefix: string, visited: Set<number>) {
+    if (index === NO_STREAM || visited.has(index)) return;
+    visited.add(index);
+    const entry = this.readDirectoryEntry(directory, index);
+    if (!entry) return;
+    this.walkDirectory(directory, entry.left, prefix, visited);
+    if (entry.type === TYPE_STORAGE || entry.type === TYPE_STREAM) {
+      const path = prefix + entry.name;
+      this.entries.set(path.toLowerCase(), {
+        path,
+        isStorage: entry.type === TYPE_STORAGE,
+        size: entry.size,
+        startSector: entry.start,
+      });
+      if (entry.type === TYPE_STORAGE) this.walkDirectory(directory, entry.child, `${path}/`, visited);
+    }
+    this.walkDirectory(directory, entry.right, prefix, visited);
+  }
+}
@@ -0,0 +1,361 @@
+// Microsoft Compiled HTML Help (CHM) reader
+// Parses the ITSF header and the ITSP/PMGL directory, reads files from the
+// uncompressed section 0 and the LZX-compressed section 1 (decoded lazily,
+// one reset interval at a time), and parses the .hhc sitemap into a TOC.
+
+import { LZX_FRAME_SIZE, decompressLZX } from './lzx';
+
+export interface CHMEntry {
+  name: string;
+  section: number;
+  offset: number;
+  length: number;
+}
+
+export interface CHMTocEntry {
+  title: string;
+  // Archive path of the topic (without the #anchor), or null for pure headings
+  path: string | null;
+  anchor: string;
+  children: CHMTocEntry[];
+}
+
+export class CHMFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CHMFormatError';
+  }
+}
+
+const CONTENT_PATH = '::DataSpace/Storage/MSCompressed/Content';
+const CONTROL_DATA_PATH = '::DataSpace/Storage/MSCompressed/ControlData';
+const RESET_TABLE_PATH =
+  '::DataSpace/Storage/MSCompressed/Transform/{7FC28940-9D31-11D0-9B27-00A0C91E9C7C}/InstanceData/ResetTable';
+
+// Decoded reset intervals kept in memory while topics are read
+const CACHED_INTERVALS = 8;
+
+function readUint64(view: DataView, offset: number): number {
+  return view.getUint32(offset, true) + view.getUint32(offset + 4, true) * 2 ** 32;
+}
+
+function ascii(bytes: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
+
+// Variable-length big-endian integer: 7 bits per byte, high bit set on all but the last
+function readEncInt(bytes: Uint8Array, cursor: { offset: number }): number {
+  let value = 0;
+  for (;;) {
+    const byte = bytes[cursor.offset++];
+    value = value * 128 + (byte & 0x7f);
+    if (!(byte & 0x80)) return value;
+  }
+}
+
+interface LZXSection {
+  content: Uint8Array;
+  windowBits: number;
+  resetInterval: number;
+  resetFrames: number;
+  uncompressedLength: number;
+  frameOffsets: number[];
+  cache: Map<number, Uint8Array>;
+}
+
+export class CHMArchive {
+  readonly entries = new Map<string, CHMEntry>();
+  title = '';
+  contentsFile: string | null = null;
+  defaultTopic: string | null = null;
+
+  private readonly contentOffset: number;
+  private lzx: LZXSection | null = null;
+
+  constructor(private readonly bytes: Uint8Array) {
+    if (bytes.length < 0x58 || ascii(bytes, 0, 4) !== 'ITSF') throw new CHMFormatError('Not a CHM file');
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const version = view.getUint32(4, true);
+    const directoryOffset = readUint64(view, 0x48);
+    const directoryLength = readUint64(view, 0x50);
+    // Version 2 files have no explicit content offset: data follows the directory
+    this.contentOffset = version >= 3 ? readUint64(view, 0x58) : directoryOffset + directoryLength;
+    this.readDirectory(view, directoryOffset);
+    this.readSystemFile();
+  }
+
+  private readDirectory(view: DataView, offset: number) {
+    if (ascii(this.bytes, offset, 4) !== 'ITSP') throw new CHMFormatError('Missing ITSP directory header');
+    const headerLength = view.getUint32(offset + 8, true);
+    const chunkSize = view.getUint32(offset + 0x10, true);
+    const chunkCount = view.getUint32(offset + 0x2c, true);
+    const chunksStart = offset + headerLength;
+    for (let i = 0; i < chunkCount; i++) {
+      const chunk = chunksStart + i * chunkSize;
+      if (chunk + chunkSize > this.bytes.length) break;
+      // PMGI chunks only index the listing chunks, so they can be skipped
+      if (ascii(this.bytes, chunk, 4) !== 'PMGL') continue;
+      const freeSpace = view.getUint32(chunk + 4, true);
+      const end = chunk + chunkSize - freeSpace;
+      const cursor = { offset: chunk + 0x14 };
+      while (cursor.offset < end) {
+        const nameLength = readEncInt(this.bytes, cursor);
+        const name = new TextDecoder().decode(this.bytes.subarray(cursor.offset, cursor.offset + nameLength));
+        cursor.offset += nameLength;
+        const section = readEncInt(this.bytes, cursor);
+        const entryOffset = readEncInt(this.bytes, cursor);
+        const length = readEncInt(this.bytes, cursor);
+        this.entries.set(name.toLowerCase(), { name, section, offset: entryOffset, length });
+      }
+    }
+  }
+
+  // #SYSTEM holds the title, default topic and the name of the .hhc file
+  private readSystemFile() {
+    const system = this.readFile('/#SYSTEM');
+    if (system && system.length > 4) {
+      const view = new DataView(system.buffer, system.byteOffset, system.byteLength);
+      let offset = 4;
+      while (offset + 4 <= system.length) {
+        const code = view.getUint16(offset, true);
+        const length = view.getUint16(offset + 2, true);
+        const data = system.subarray(offset + 4, offset + 4 + length);
+        const text = decodeText(data.subarray(0, data.indexOf(0) >= 0 ? data.indexOf(0) : data.length));
+        if (code === 0 && text) this.contentsFile = normalizePath(text);
+        if (code === 2 && text) this.defaultTopic = normalizePath(text);
+        if (code === 3) this.title = text;
+        offset += 4 + length;
+      }
+    }
+    if (!this.contentsFile || !this.entries.has(this.contentsFile.toLowerCase())) {
+      const hhc = [...this.entries.values()].find(entry => /\.hhc$/i.test(entry.name));
+      this.contentsFile = hhc ? hhc.name : null;
+    }
+  }
+
+  has(path: string): boolean {
+    return this.entries.has(path.toLowerCase());
+  }
+
+  list(): CHMEntry[] {
+    return [...this.entries.values()];
+  }
+
+  readFile(path: string): Uint8Array | null {
+    const entry = this.entries.get(path.toLowerCase());
+    if (!entry) return null;
+    if (entry.length === 0) return new Uint8Array(0);
+    if (entry.section === 0) {
+      const start = this.contentOffset + entry.offset;
+      if (start + entry.length > this.bytes.length) throw new CHMFormatError(`${entry.name} extends past the end of the file`);
+      return this.bytes.subarray(start, start + entry.length);
+    }
+    return this.readCompressed(entry.offset, entry.length);
+  }
+
+  readText(path: string): string | null {
+    const data = this.readFile(path);
+    return data ? decodeText(data) : null;
+  }
+
+  private openLZXSection(): LZXSection {
+    if (this.lzx) return this.lzx;
+    const content = this.readFile(CONTENT_PATH);
+    const control = this.readFile(CONTROL_DATA_PATH);
+    const resetTable = this.readFile(RESET_TABLE_PATH);
+    if (!content || !control || !resetTable) throw new CHMFormatError('Compressed section is missing its LZX control data');
+
+    const controlView = new DataView(control.buffer, control.byteOffset, control.byteLength);
+    if (ascii(control, 4, 4) !== 'LZXC') throw new CHMFormatError('Unknown compression in CHM content section');
+    let resetInterval = controlView.getUint32(12, true);
+    let windowSize = controlView.getUint32(16, true);
+    // Version 2 stores both values in 32 KB units
+    if (controlView.getUint32(8, true) === 2) {
+      resetInterval *= LZX_FRAME_SIZE;
+      windowSize *= LZX_FRAME_SIZE;
+    }
+    const windowBits = Math.log2(windowSize);
+    if (!Number.isInteger(windowBits) || !resetInterval || resetInterval % LZX_FRAME_SIZE) {
+      throw new CHMFormatError('Invalid LZX window size or reset interval');
+    }
+
+    const tableView = new DataView(resetTable.buffer, resetTable.byteOffset, resetTable.byteLength);
+    const entryCount = tableView.getUint32(4, true);
+    const entrySize = tableView.getUint32(8, true);
+    const tableOffset = tableView.getUint32(12, true);
+    const frameOffsets: number[] = [];
+    for (let i = 0; i < entryCount; i++) frameOffsets.push(readUint64(tableView, tableOffset + i * entrySize));
+
+    this.lzx = {
+      content,
+      windowBits,
+      resetInterval,
+      resetFrames: resetInterval / LZX_FRAME_SIZE,
+      uncompressedLength: readUint64(tableView, 16),
+      frameOffsets,
+      cache: new Map(),
+    };
+    return this.lzx;
+  }
+
+  private decodeInterval(section: LZXSection, index: number): Uint8Array {
+    const cached = section.cache.get(index);
+    if (cached) {
+      // Re-insert to keep the map in least-recently-used order
+      section.cache.delete(index);
+      section.cache.set(index, cached);
+      return cached;
+    }
+    const frame = index * section.resetFrames;
+    if (frame >= section.frameOffsets.length) throw new CHMFormatError('Reset table does not cover the requested data');
+    const start = index * section.resetInterval;
+    const length = Math.min(section.resetInterval, section.uncompressedLength - start);
+    const data = decompressLZX(section.content.subarray(section.frameOffsets[frame]), section.windowBits, length, start);
+    section.cache.set(index, data);
+    if (section.cache.size > CACHED_INTERVALS) section.cache.delete(section.cache.keys().next().value as number);
+    return data;
+  }
+
+  private readCompressed(offset: number, length: number): Uint8Array {
+    const section = this.openLZXSection();
+    if (offset + length > section.uncompressedLength) throw new CHMFormatError('File extends past the compressed section');
+    const out = new Uint8Array(length);
+    let written = 0;
+    while (written < length) {
+      const position = offset + written;
+      const index = Math.floor(position / section.resetInterval);
+      const interval = this.decodeInterval(section, index);
+      const start = position - index * section.resetInterval;
+      const count = Math.min(length - written, interval.length - start);
+      out.set(interval.subarray(start, start + count), written);
+      written += count;
+    }
+    return out;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Text and path helpers
+// ---------------------------------------------------------------------------
+
+// Honour a declared charset, then try UTF-8, then fall back to Windows-1252
+export function decodeText(bytes: Uint8Array): string {
+  const head = String.fromCharCode(...bytes.subarray(0, 1024));
+  const declared = /<meta[^>]+charset\s*=\s*["']?([\w-]+)/i.exec(head)?.[1];
+  if (declared) {
+    try {
+      return new TextDecoder(declared).decode(bytes);
+    } catch {
+      // Unknown label: fall through to detection
+    }
+  }
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return new TextDecoder('windows-1252').decode(bytes);
+  }
+}
+
+// Absolute, slash-separated archive path with '.' and '..' resolved
+export function normalizePath(path: string, base = '/'): string {
+  let target = path.replace(/\\/g, '/');
+  // Links such as mk:@MSITStore:help.chm::/topic.htm point into the archive itself
+  const archiveSeparator = target.indexOf('::');
+  if (archiveSeparator >= 0) target = target.slice(archiveSeparator + 2);
+  try {
+    target = decodeURIComponent(target);
+  } catch {
+    // Keep malformed escapes as they are
+  }
+  const baseDirectory = base.slice(0, base.lastIndexOf('/') + 1) || '/';
+  const parts = (target.startsWith('/') ? target : baseDirectory + target).split('/');
+  const resolved: string[] = [];
+  for (const part of parts) {
+    if (!part || part === '.') continue;
+    if (part === '..') resolved.pop();
+    else resolved.push(part);
+  }
+  return '/' + resolved.join('/');
+}
+
+// Split 'dir/page.htm#anchor' into the resolved path and the anchor
+export function resolveLink(link: string, base: string): { path: string; anchor: string } | null {
+  if (!link || /^(https?|mailto|javascript|ftp|file):/i.test(link)) return null;
+  const hash = link.indexOf('#');
+  const anchor = hash >= 0 ? link.slice(hash + 1) : '';
+  const target = hash >= 0 ? link.slice(0, hash) : link;
+  return { path: target ? normalizePath(target.replace(/^(ms-its|its):/i, ''), base) : base, anchor };
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source))) {
+    attributes[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attributes;
+}
+
+/**
+ * Parse a sitemap (.hhc) into a tree. The format is loose HTML where <LI>
+ * elements are rarely closed, so nesting is taken from the <UL> tags alone.
+ */
+export function parseSitemap(html: string, sitemapPath = '/'): CHMTocEntry[] {
+  const root: CHMTocEntry[] = [];
+  const stack: CHMTocEntry[][] = [root];
+  let current: { title: string; local: string } | null = null;
+  let lastEntry: CHMTocEntry | null = null;
+  const pattern = /<(\/?)(ul|object|param)\b([^>]*)>/gi;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(html))) {
+    const closing = match[1] === '/';
+    const tag = match[2].toLowerCase();
+    if (tag === 'ul') {
+      if (!closing) {
+        stack.push(lastEntry ? lastEntry.children : stack[stack.length - 1]);
+      } else if (stack.length > 1) {
+        stack.pop();
+      }
+      lastEntry = null;
+    } else if (tag === 'object') {
+      if (!closing) {
+        const attributes = parseAttributes(match[3]);
+        current = (attributes.type || '').toLowerCase() === 'text/sitemap' ? { title: '', local: '' } : null;
+      } else if (current) {
+        const link = current.local ? resolveLink(current.local, sitemapPath) : null;
+        lastEntry = {
+          title: current.title || link?.path.split('/').pop() || 'Untitled',
+          path: link?.path ?? null,
+          anchor: link?.anchor ?? '',
+          children: [],
+        };
+        stack[stack.length - 1].push(lastEntry);
+        current = null;
+      }
+    } else if (current) {
+      const attributes = parseAttributes(match[3]);
+      const name = (attributes.name || '').toLowerCase();
+      // Only the first Name counts; later ones are alternate titles for merged entries
+      if (name === 'name' && !current.title) current.title = attributes.value ?? '';
+      else if (name === 'local' && !current.local) current.local = attributes.value ?? '';
+    }
+  }
+  return root;
+}
+
+export function isHtmlTopic(path: string): boolean {
+  return /\.html?$/i.test(path);
+}
@@ -0,0 +1,244 @@
+// Palette quantization
+// Reduces RGBA pixels to an indexed image of at most 256 colors. Images that
+// already fit are indexed exactly; others get a median-cut palette built from
+// a 5-bit-per-channel histogram, optionally mapped with Floyd-Steinberg
+// dithering. Error is diffused over RGB only so transparent edges stay clean.
+
+import { PixelBuffer } from './imageKernels';
+
+export interface QuantizeOptions {
+  // Palette size, 2-256
+  colors?: number;
+  dither?: boolean;
+  // 'binary' keeps one fully transparent entry and makes everything else
+  // opaque (GIF); 'full' quantizes alpha like a color channel (PNG tRNS)
+  alpha?: 'binary' | 'full';
+}
+
+export interface IndexedImage {
+  width: number;
+  height: number;
+  // RGBA, four bytes per entry; entries with alpha below 255 come first
+  palette: Uint8Array;
+  // One palette index per pixel, row-major
+  indices: Uint8Array;
+  // Palette index of the fully transparent entry, or -1
+  transparentIndex: number;
+  // True when every pixel kept its exact color
+  exact: boolean;
+}
+
+interface HistogramBin {
+  count: number;
+  sums: [number, number, number, number];
+  // 5-bit channel values used for box bounds
+  key: [number, number, number, number];
+}
+
+interface ColorBox {
+  bins: HistogramBin[];
+  count: number;
+  // Channel with the widest range and that range
+  channel: number;
+  range: number;
+}
+
+// Normalized RGBA of pixel `i`: alpha is snapped to 0/255 in binary mode and
+// fully transparent pixels all share one color
+function normalizedPixel(data: Uint8ClampedArray, i: number, binary: boolean): number {
+  const alpha = binary ? (data[i + 3] < 128 ? 0 : 255) : data[i + 3];
+  if (alpha === 0) return 0;
+  return ((data[i] << 24) | (data[i + 1] << 16) | (data[i + 2] << 8) | alpha) >>> 0;
+}
+
+// Palette of the distinct colors when there are at most `limit`
+function exactColors(buffer: PixelBuffer, limit: number, binary: boolean): number[] | null {
+  const seen = new Set<number>();
+  const { data } = buffer;
+  for (let i = 0; i < data.length; i += 4) {
+    seen.add(normalizedPixel(data, i, binary));
+    if (seen.size > limit) return null;
+  }
+  return [...seen];
+}
+
+function describeBox(bins: HistogramBin[]): ColorBox {
+  const min = [31, 31, 31, 31];
+  const max = [0, 0, 0, 0];
+  let count = 0;
+  for (const bin of bins) {
+    count += bin.count;
+    for (let c = 0; c < 4; c++) {
+      min[c] = Math.min(min[c], bin.key[c]);
+      max[c] = Math.max(max[c], bin.key[c]);
+    }
+  }
+  let channel = 0;
+  for (let c = 1; c < 4; c++) if (max[c] - min[c] > max[channel] - min[channel]) channel = c;
+  return { bins, count, channel, range: max[channel] - min[channel] };
+}
+
+function medianCut(buffer: PixelBuffer, colors: number, binary: boolean): number[][] {
+  const { data } = buffer;
+  const histogram = new Map<number, HistogramBin>();
+  for (let i = 0; i < data.length; i += 4) {
+    const pixel = normalizedPixel(data, i, binary);
+    // Transparent pixels get their own palette entry
+    if (pixel === 0) continue;
+    const r = data[i] >> 3;
+    const g = data[i + 1] >> 3;
+    const b = data[i + 2] >> 3;
+    const a = (pixel & 0xff) >> 3;
+    const key = (r << 15) | (g << 10) | (b << 5) | a;
+    let bin = histogram.get(key);
+    if (!bin) {
+      bin = { count: 0, sums: [0, 0, 0, 0], key: [r, g, b, a] };
+      histogram.set(key, bin);
+    }
+    bin.count++;
+    bin.sums[0] += data[i];
+    bin.sums[1] += data[i + 1];
+    bin.sums[2] += data[i + 2];
+    bin.sums[3] += pixel & 0xff;
+  }
+  if (histogram.size === 0) return [];
+
+  const boxes = [describeBox([...histogram.values()])];
+  while (boxes.length < colors) {
+    // Split the box that covers the most pixels over the widest range
+    let best = -1;
+    for (let i = 0; i < boxes.length; i++) {
+      if (boxes[i].bins.length < 2 || boxes[i].range === 0) continue;
+      if (best < 0 || boxes[i].range * boxes[i].count > boxes[best].range * boxes[best].count) best = i;
+    }
+    if (best < 0) break;
+    const box = boxes[best];
+    const channel = box.channel;
+    box.bins.sort((p, q) => p.key[channel] - q.key[channel]);
+    let seen = 0;
+    let split = 1;
+    for (; split < box.bins.length - 1; split++) {
+      seen += box.bins[split - 1].count;
+      if (seen >= box.count / 2) break;
+    }
+    boxes.splice(best, 1, describeBox(box.bins.slice(0, split)), describeBox(box.bins.slice(split)));
+  }
+
+  return boxes.map(box => {
+    const sums = [0, 0, 0, 0];
+    for (const bin of box.bins) for (let c = 0; c < 4; c++) sums[c] += bin.sums[c];
+    return sums.map(sum => Math.round(sum / box.count));
+  });
+}
+
+function colorDistance(palette: Uint8Array, entry: number, r: number, g: number, b: number, a: number): number {
+  const p = entry * 4;
+  const dr = palette[p] - r;
+  const dg = palette[p + 1] - g;
+  const db = palette[p + 2] - b;
+  const da = palette[p + 3] - a;
+  return 3 * dr * dr + 4 * dg * dg + 2 * db * db + 3 * da * da;
+}
+
+// Palette order: translucent entries first, so a PNG tRNS chunk can stop early
+const byAlpha = (p: number[], q: number[]) => p[3] - q[3];
+
+/**
+ * Index `buffer` without changing any visible color, or return null when it
+ * has more than `colors` distinct colors.
+ */
+export function indexExactly(buffer: PixelBuffer, options: Pick<QuantizeOptions, 'colors' | 'alpha'> = {}): IndexedImage | null {
+  const colors = Math.max(2, Math.min(256, Math.round(options.colors ?? 256)));
+  const binary = options.alpha === 'binary';
+  const { data, width, height } = buffer;
+  const exact = exactColors(buffer, colors, binary);
+  if (!exact) return null;
+  const entries = exact.map(color => [color >>> 24, (color >>> 16) & 0xff, (color >>> 8) & 0xff, color & 0xff]).sort(byAlpha);
+  const palette = new Uint8Array(entries.length * 4);
+  const lookup = new Map<number, number>();
+  entries.forEach((entry, index) => {
+    palette.set(entry, index * 4);
+    lookup.set(((entry[0] << 24) | (entry[1] << 16) | (entry[2] << 8) | entry[3]) >>> 0, index);
+  });
+  const indices = new Uint8Array(width * height);
+  for (let p = 0; p < indices.length; p++) indices[p] = lookup.get(normalizedPixel(data, p * 4, binary))!;
+  return { width, height, palette, indices, transparentIndex: lookup.get(0) ?? -1, exact: true };
+}
+
+/** Reduce `buffer` to an indexed image with at most `colors` palette entries. */
+export function quantize(buffer: PixelBuffer, options: QuantizeOptions = {}): IndexedImage {
+  const exact = indexExactly(buffer, options);
+  if (exact) return exact;
+
+  const colors = Math.max(2, Math.min(256, Math.round(options.colors ?? 256)));
+  const binary = options.alpha === 'binary';
+  const { data, width, height } = buffer;
+  let hasTransparent = false;
+  for (let i = 3; i < data.length; i += 4) {
+    if (binary ? data[i] < 128 : data[i] === 0) {
+      hasTransparent = true;
+      break;
+    }
+  }
+  const entries = medianCut(buffer, hasTransparent ? colors - 1 : colors, binary);
+  if (hasTransparent) entries.push([0, 0, 0, 0]);
+  entries.sort(byAlpha);
+
+  const paletteSize = Math.max(1, entries.length);
+  const palette = new Uint8Array(paletteSize * 4);
+  entries.forEach((entry, index) => palette.set(entry, index * 4));
+  const transparentIndex = hasTransparent ? entries.findIndex(entry => entry[3] === 0 && entry[0] + entry[1] + entry[2] === 0) : -1;
+  const indices = new Uint8Array(width * height);
+
+  // Nearest entry among the visible colors, cached per bucket of 6 bits of
+  // RGB and 4 of alpha; neighbours within a bucket differ too little to matter
+  const cache = new Int16Array(1 << 22).fill(-1);
+  const nearest = (r: number, g: number, b: number, a: number): number => {
+    const key = ((r >> 2) << 16) | ((g >> 2) << 10) | ((b >> 2) << 4) | (a >> 4);
+    if (cache[key] >= 0) return cache[key];
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let entry = 0; entry < paletteSize; entry++) {
+      if (entry === transparentIndex) continue;
+      const distance = colorDistance(palette, entry, r, g, b, a);
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = entry;
+      }
+    }
+    cache[key] = best;
+    return best;
+  };
+
+  // Floyd-Steinberg error for the current and next row, three channels each
+  let current = new Float32Array((width + 2) * 3);
+  let next = new Float32Array((width + 2) * 3);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      const i = p * 4;
+      const alpha = binary ? (data[i + 3] < 128 ? 0 : 255) : data[i + 3];
+      if (alpha === 0 && transparentIndex >= 0) {
+        indices[p] = transparentIndex;
+        continue;
+      }
+      const e = (x + 1) * 3;
+      const r = Math.max(0, Math.min(255, Math.round(data[i] + current[e])));
+      const g = Math.max(0, Math.min(255, Math.round(data[i + 1] + current[e + 1])));
+      const b = Math.max(0, Math.min(255, Math.round(data[i + 2] + current[e + 2])));
+      const index = nearest(r, g, b, alpha);
+      indices[p] = index;
+      if (!options.dither) continue;
+      const errors = [r - palette[index * 4], g - palette[index * 4 + 1], b - palette[index * 4 + 2]];
+      for (let c = 0; c < 3; c++) {
+        current[e + 3 + c] += (errors[c] * 7) / 16;
+        next[e - 3 + c] += (errors[c] * 3) / 16;
+        next[e + c] += (errors[c] * 5) / 16;
+        next[e + 3 + c] += errors[c] / 16;
+      }
+    }
+    [current, next] = [next, current];
+    next.fill(0);
+  }
+  return { width, height, palette, indices, transparentIndex, exact: false };
+}
@@ -0,0 +1,496 @@
+// Low-level cryptographic primitives used by the PDF and image tools.
+// MD5, RC4 and AES are implemented here because the PDF standard security
+// handler needs unpadded and synchronous variants that Web Crypto lacks.
+// Triple DES and RC2 decryption are only needed to open PKCS#12 files, which
+// still protect keys and certificates with them.
+
+export type ShaAlgorithm = 'SHA-1' | 'SHA-256' | 'SHA-384' | 'SHA-512';
+
+// Concatenate byte arrays into a single buffer
+export function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const total = parts.reduce((sum, part) => sum + part.length, 0);
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+// Cryptographically secure random bytes
+export function randomBytes(length: number): Uint8Array {
+  const out = new Uint8Array(length);
+  crypto.getRandomValues(out);
+  return out;
+}
+
+export function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+  return diff === 0;
+}
+
+export function toHex(bytes: Uint8Array): string {
+  let out = '';
+  for (let i = 0; i < bytes.length; i++) out += bytes[i].toString(16).padStart(2, '0');
+  return out;
+}
+
+// SHA family digests through Web Crypto
+export async function sha(algorithm: ShaAlgorithm, data: Uint8Array): Promise<Uint8Array> {
+  const digest = await crypto.subtle.digest(algorithm, data);
+  return new Uint8Array(digest);
+}
+
+// MD5 (RFC 1321)
+const MD5_SHIFTS = [
+  7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22,
+  5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20,
+  4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23,
+  6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21
+];
+const MD5_CONSTANTS = Array.from({ length: 64 }, (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 0x100000000) | 0);
+
+export function md5(data: Uint8Array): Uint8Array {
+  const paddedLength = ((data.length + 72) >>> 6) << 6;
+  const buffer = new Uint8Array(paddedLength);
+  buffer.set(data);
+  buffer[data.length] = 0x80;
+  const bitLength = data.length * 8;
+  const view = new DataView(buffer.buffer);
+  view.setUint32(paddedLength - 8, bitLength >>> 0, true);
+  view.setUint32(paddedLength - 4, Math.floor(bitLength / 0x100000000), true);
+
+  let a0 = 0x67452301;
+  let b0 = 0xefcdab89 | 0;
+  let c0 = 0x98badcfe | 0;
+  let d0 = 0x10325476;
+  const words = new Int32Array(16);
+
+  for (let offset = 0; offset < paddedLength; offset += 64) {
+    for (let i = 0; i < 16; i++) words[i] = view.getInt32(offset + i * 4, true);
+    let a = a0, b = b0, c = c0, d = d0;
+    for (let i = 0; i < 64; i++) {
+      let f: number;
+      let g: number;
+      if (i < 16) {
+        f = (b & c) | (~b & d);
+        g = i;
+      } else if (i < 32) {
+        f = (d & b) | (~d & c);
+        g = (5 * i + 1) & 15;
+      } else if (i < 48) {
+        f = b ^ c ^ d;
+        g = (3 * i + 5) & 15;
+      } else {
+        f = c ^ (b | ~d);
+        g = (7 * i) & 15;
+      }
+      const temp = d;
+      d = c;
+      c = b;
+      const sum = (a + f + MD5_CONSTANTS[i] + words[g]) | 0;
+      b = (b + ((sum << MD5_SHIFTS[i]) | (sum >>> (32 - MD5_SHIFTS[i])))) | 0;
+      a = temp;
+    }
+    a0 = (a0 + a) | 0;
+    b0 = (b0 + b) | 0;
+    c0 = (c0 + c) | 0;
+    d0 = (d0 + d) | 0;
+  }
+
+  const out = new Uint8Array(16);
+  const outView = new DataView(out.buffer);
+  outView.setInt32(0, a0, true);
+  outView.setInt32(4, b0, true);
+  outView.setInt32(8, c0, true);
+  outView.setInt32(12, d0, true);
+  return out;
+}
+
+// RC4 stream cipher; encryption and decryption are the same operation
+export function rc4(key: Uint8Array, data: Uint8Array): Uint8Array {
+  const s = new Uint8Array(256);
+  for (let i = 0; i < 256; i++) s[i] = i;
+  for (let i = 0, j = 0; i < 256; i++) {
+    j = (j + s[i] + key[i % key.length]) & 0xff;
+    const t = s[i]; s[i] = s[j]; s[j] = t;
+  }
+  const out = new Uint8Array(data.length);
+  for (let k = 0, i = 0, j = 0; k < data.length; k++) {
+    i = (i + 1) & 0xff;
+    j = (j + s[i]) & 0xff;
+    const t = s[i]; s[i] = s[j]; s[j] = t;
+    out[k] = data[k] ^ s[(s[i] + s[j]) & 0xff];
+  }
+  return out;
+}
+
+// AES (FIPS-197) tables, generated once on first use
+interface AesTables {
+  sbox: Uint8Array;
+  inv: Uint8Array;
+  // GF(2^8) multiplication tables for the (Inv)MixColumns coefficients
+  m2: Uint8Array;
+  m3: Uint8Array;
+  m9: Uint8Array;
+  m11: Uint8Array;
+  m13: Uint8Array;
+  m14: Uint8Array;
+}
+
+let aesTables: AesTables | null = null;
+
+function getAesTables() {
+  if (aesTables) return aesTables;
+  const mul = (a: number, b: number) => {
+    let p = 0;
+    for (let i = 0; i < 8; i++) {
+      if (b & 1) p ^= a;
+      const hi = a & 0x80;
+      a = (a << 1) & 0xff;
+      if (hi) a ^= 0x1b;
+      b >>= 1;
+    }
+    return p;
+  };
+  const sbox = new Uint8Array(256);
+  const inv = new Uint8Array(256);
+  for (let i = 0; i < 256; i++) {
+    // Multiplicative inverse followed by the affine transform
+    let x = 0;
+    if (i !== 0) {
+      for (let j = 1; j < 256; j++) {
+        if (mul(i, j) === 1) { x = j; break; }
+      }
+    }
+    let s = x;
+    for (let k = 1; k < 5; k++) s ^= ((x << k) | (x >>> (8 - k))) & 0xff;
+    s ^= 0x63;
+    sbox[i] = s;
+    inv[s] = i;
+  }
+  const table = (factor: number) => Uint8Array.from({ length: 256 }, (_, i) => mul(i, factor));
+  aesTables = { sbox, inv, m2: table(2), m3: table(3), m9: table(9), m11: table(11), m13: table(13), m14: table(14) };
+  return aesTables;
+}
+
+function expandAesKey(key: Uint8Array): Uint8Array {
+  if (key.length !== 16 && key.length !== 24 && key.length !== 32) {
+    throw new Error(`Invalid AES key length: ${key.length}`);
+  }
+  const { sbox } = getAesTables();
+  const nk = key.length / 4;
+  const rounds = nk + 6;
+  const w = new Uint8Array(16 * (rounds + 1));
+  w.set(key);
+  let rcon = 1;
+  for (let i = nk; i < 4 * (rounds + 1); i++) {
+    let t0 = w[(i - 1) * 4], t1 = w[(i - 1) * 4 + 1], t2 = w[(i - 1) * 4 + 2], t3 = w[(i - 1) * 4 + 3];
+    if (i % nk === 0) {
+      const tmp = t0;
+      t0 = sbox[t1] ^ rcon; t1 = sbox[t2]; t2 = sbox[t3]; t3 = sbox[tmp];
+      rcon = rcon & 0x80 ? ((rcon << 1) ^ 0x1b) & 0xff : rcon << 1;
+    } else if (nk > 6 && i % nk === 4) {
+      t0 = sbox[t0]; t1 = sbox[t1]; t2 = sbox[t2]; t3 = sbox[t3];
+    }
+    w[i * 4] = w[(i - nk) * 4] ^ t0;
+    w[i * 4 + 1] = w[(i - nk) * 4 + 1] ^ t1;
+    w[i * 4 + 2] = w[(i - nk) * 4 + 2] ^ t2;
+    w[i * 4 + 3] = w[(i - nk) * 4 + 3] ^ t3;
+  }
+  return w;
+}
+
+function aesEncryptBlock(w: Uint8Array, block: Uint8Array): Uint8Array {
+  const { sbox, m2, m3 } = getAesTables();
+  const rounds = w.length / 16 - 1;
+  const s = new Uint8Array(16);
+  for (let i = 0; i < 16; i++) s[i] = block[i] ^ w[i];
+  const t = new Uint8Array(16);
+  for (let round = 1; round <= rounds; round++) {
+    // SubBytes + ShiftRows
+    for (let c = 0; c < 4; c++) {
+      for (let r = 0; r < 4; r++) t[c * 4 + r] = sbox[s[((c + r) % 4) * 4 + r]];
+    }
+    if (round !== rounds) {
+      // MixColumns
+      for (let c = 0; c < 4; c++) {
+        const a0 = t[c * 4], a1 = t[c * 4 + 1], a2 = t[c * 4 + 2], a3 = t[c * 4 + 3];
+        s[c * 4] = m2[a0] ^ m3[a1] ^ a2 ^ a3;
+        s[c * 4 + 1] = a0 ^ m2[a1] ^ m3[a2] ^ a3;
+        s[c * 4 + 2] = a0 ^ a1 ^ m2[a2] ^ m3[a3];
+        s[c * 4 + 3] = m3[a0] ^ a1 ^ a2 ^ m2[a3];
+      }
+    } else {
+      s.set(t);
+    }
+    for (let i = 0; i < 16; i++) s[i] ^= w[round * 16 + i];
+  }
+  return s;
+}
+
+function aesDecryptBlock(w: Uint8Array, block: Uint8Array): Uint8Array {
+  const { inv, m9, m11, m13, m14 } = getAesTables();
+  const rounds = w.length / 16 - 1;
+  const s = new Uint8Array(16);
+  for (let i = 0; i < 16; i++) s[i] = block[i] ^ w[rounds * 16 + i];
+  const t = new Uint8Array(16);
+  for (let round = rounds - 1; round >= 0; round--) {
+    // InvShiftRows + InvSubBytes
+    for (let c = 0; c < 4; c++) {
+      for (let r = 0; r < 4; r++) t[((c + r) % 4) * 4 + r] = inv[s[c * 4 + r]];
+    }
+    for (let i = 0; i < 16; i++) t[i] ^= w[round * 16 + i];
+    if (round !== 0) {
+      // InvMixColumns
+      for (let c = 0; c < 4; c++) {
+        const a0 = t[c * 4], a1 = t[c * 4 + 1], a2 = t[c * 4 + 2], a3 = t[c * 4 + 3];
+        s[c * 4] = m14[a0] ^ m11[a1] ^ m13[a2] ^ m9[a3];
+        s[c * 4 + 1] = m9[a0] ^ m14[a1] ^ m11[a2] ^ m13[a3];
+        s[c * 4 + 2] = m13[a0] ^ m9[a1] ^ m14[a2] ^ m11[a3];
+        s[c * 4 + 3] = m11[a0] ^ m13[a1] ^ m9[a2] ^ m14[a3];
+      }
+    } else {
+      s.set(t);
+    }
+  }
+  return s;
+}
+
+// AES-CBC encryption; `pad` applies PKCS#7 padding as required for PDF streams
+export function aesEncryptCBC(key: Uint8Array, iv: Uint8Array, data: Uint8Array, pad = true): Uint8Array {
+  let input = data;
+  if (pad) {
+    const padLength = 16 - (data.length % 16);
+    input = new Uint8Array(data.length + padLength);
+    input.set(data);
+    input.fill(padLength, data.length);
+  } else if (data.length % 16 !== 0) {
+    throw new Error('AES input must be a multiple of 16 bytes without padding');
+  }
+  const w = expandAesKey(key);
+  const out = new Uint8Array(input.length);
+  let prev = iv;
+  const block = new Uint8Array(16);
+  for (let offset = 0; offset < input.length; offset += 16) {
+    for (let i = 0; i < 16; i++) block[i] = input[offset + i] ^ prev[i];
+    prev = aesEncryptBlock(w, block);
+    out.set(prev, offset);
+  }
+  return out;
+}
+
+// AES-CBC decryption; invalid padding is tolerated and left in place
+export function aesDecryptCBC(key: Uint8Array, iv: Uint8Array, data: Uint8Array, unpad = true): Uint8Array {
+  const length = data.length - (data.length % 16);
+  const w = expandAesKey(key);
+  const out = new Uint8Array(length);
+  let prev = iv;
+  for (let offset = 0; offset < length; offset += 16) {
+    const cipherBlock = data.subarray(offset, offset + 16);
+    const plain = aesDecryptBlock(w, cipherBlock);
+    for (let i = 0; i < 16; i++) out[offset + i] = plain[i] ^ prev[i];
+    prev = cipherBlock;
+  }
+  if (unpad && length > 0) {
+    const padLength = out[length - 1];
+    if (padLength > 0 && padLength <= 16 && out.subarray(length - padLength).every(b => b === padLength)) {
+      return out.slice(0, length - padLength);
+    }
+  }
+  return out;
+}
+
+// Single-block AES-ECB helpers (used for the PDF /Perms entry)
+export function aesEncryptECB(key: Uint8Array, data: Uint8Array): Uint8Array {
+  return aesEncryptCBC(key, new Uint8Array(16), data, false);
+}
+
+export function aesDecryptECB(key: Uint8Array, data: Uint8Array): Uint8Array {
+  const w = expandAesKey(key);
+  const out = new Uint8Array(data.length);
+  for (let offset = 0; offset + 16 <= data.length; offset += 16) {
+    out.set(aesDecryptBlock(w, data.subarray(offset, offset + 16)), offset);
+  }
+  return out;
+}
+
+// Shared CBC decryption for the 64-bit block ciphers, removing PKCS#7 padding
+function decryptCBC64(decryptBlock: (block: Uint8Array) => Uint8Array, iv: Uint8Array, data: Uint8Array): Uint8Array {
+  const length = data.length - (data.length % 8);
+  const out = new Uint8Array(length);
+  let prev = iv;
+  for (let offset = 0; offset < length; offset += 8) {
+    const cipherBlock = data.subarray(offset, offset + 8);
+    const plain = decryptBlock(cipherBlock);
+    for (let i = 0; i < 8; i++) out[offset + i] = plain[i] ^ prev[i];
+    prev = cipherBlock;
+  }
+  const padLength = length > 0 ? out[length - 1] : 0;
+  if (padLength > 0 && padLength <= 8 && out.subarray(length - padLength).every(b => b === padLength)) {
+    return out.slice(0, length - padLength);
+  }
+  return out;
+}
+
+// DES (FIPS 46-3) tables; bit positions count from 1 at the most significant bit
+const DES_IP = [
+  58, 50, 42, 34, 26, 18, 10, 2, 60, 52, 44, 36, 28, 20, 12, 4,
+  62, 54, 46, 38, 30, 22, 14, 6, 64, 56, 48, 40, 32, 24, 16, 8,
+  57, 49, 41, 33, 25, 17, 9, 1, 59, 51, 43, 35, 27, 19, 11, 3,
+  61, 53, 45, 37, 29, 21, 13, 5, 63, 55, 47, 39, 31, 23, 15, 7
+];
+const DES_E = [
+  32, 1, 2, 3, 4, 5, 4, 5, 6, 7, 8, 9, 8, 9, 10, 11, 12, 13, 12, 13, 14, 15, 16, 17,
+  16, 17, 18, 19, 20, 21, 20, 21, 22, 23, 24, 25, 24, 25, 26, 27, 28, 29, 28, 29, 30, 31, 32, 1
+];
+const DES_P = [
+  16, 7, 20, 21, 29, 12, 28, 17, 1, 15, 23, 26, 5, 18, 31, 10,
+  2, 8, 24, 14, 32, 27, 3, 9, 19, 13, 30, 6, 22, 11, 4, 25
+];
+const DES_PC1 = [
+  57, 49, 41, 33, 25, 17, 9, 1, 58, 50, 42, 34, 26, 18,
+  10, 2, 59, 51, 43, 35, 27, 19, 11, 3, 60, 52, 44, 36,
+  63, 55, 47, 39, 31, 23, 15, 7, 62, 54, 46, 38, 30, 22,
+  14, 6, 61, 53, 45, 37, 29, 21, 13, 5, 28, 20, 12, 4
+];
+const DES_PC2 = [
+  14, 17, 11, 24, 1, 5, 3, 28, 15, 6, 21, 10, 23, 19, 12, 4, 26, 8, 16, 7, 27, 20, 13, 2,
+  41, 52, 31, 37, 47, 55, 30, 40, 51, 45, 33, 48, 44, 49, 39, 56, 34, 53, 46, 42, 50, 36, 29, 32
+];
+const DES_SHIFTS = [1, 1, 2, 2, 2, 2, 2, 2, 1, 2, 2, 2, 2, 2, 2, 1];
+const DES_SBOXES = [
+  [14, 4, 13, 1, 2, 15, 11, 8, 3, 10, 6, 12, 5, 9, 0, 7, 0, 15, 7, 4, 14, 2, 13, 1, 10, 6, 12, 11, 9, 5, 3, 8,
+    4, 1, 14, 8, 13, 6, 2, 11, 15, 12, 9, 7, 3, 10, 5, 0, 15, 12, 8, 2, 4, 9, 1, 7, 5, 11, 3, 14, 10, 0, 6, 13],
+  [15, 1, 8, 14, 6, 11, 3, 4, 9, 7, 2, 13, 12, 0, 5, 10, 3, 13, 4, 7, 15, 2, 8, 14, 12, 0, 1, 10, 6, 9, 11, 5,
+    0, 14, 7, 11, 10, 4, 13, 1, 5, 8, 12, 6, 9, 3, 2, 15, 13, 8, 10, 1, 3, 15, 4, 2, 11, 6, 7, 12, 0, 5, 14, 9],
+  [10, 0, 9, 14, 6, 3, 15, 5, 1, 13, 12, 7, 11, 4, 2, 8, 13, 7, 0, 9, 3, 4, 6, 10, 2, 8, 5, 14, 12, 11, 15, 1,
+    13, 6, 4, 9, 8, 15, 3, 0, 11, 1, 2, 12, 5, 10, 14, 7, 1, 10, 13, 0, 6, 9, 8, 7, 4, 15, 14, 3, 11, 5, 2, 12],
+  [7, 13, 14, 3, 0, 6, 9, 10, 1, 2, 8, 5, 11, 12, 4, 15, 13, 8, 11, 5, 6, 15, 0, 3, 4, 7, 2, 12, 1, 10, 14, 9,
+    10, 6, 9, 0, 12, 11, 7, 13, 15, 1, 3, 14, 5, 2, 8, 4, 3, 15, 0, 6, 10, 1, 13, 8, 9, 4, 5, 11, 12, 7, 2, 14],
+  [2, 12, 4, 1, 7, 10, 11, 6, 8, 5, 3, 15, 13, 0, 14, 9, 14, 11, 2, 12, 4, 7, 13, 1, 5, 0, 15, 10, 3, 9, 8, 6,
+    4, 2, 1, 11, 10, 13, 7, 8, 15, 9, 12, 5, 6, 3, 0, 14, 11, 8, 12, 7, 1, 14, 2, 13, 6, 15, 0, 9, 10, 4, 5, 3],
+  [12, 1, 10, 15, 9, 2, 6, 8, 0, 13, 3, 4, 14, 7, 5, 11, 10, 15, 4, 2, 7, 12, 9, 5, 6, 1, 13, 14, 0, 11, 3, 8,
+    9, 14, 15, 5, 2, 8, 12, 3, 7, 0, 4, 10, 1, 13, 11, 6, 4, 3, 2, 12, 9, 5, 15, 10, 11, 14, 1, 7, 6, 0, 8, 13],
+  [4, 11, 2, 14, 15, 0, 8, 13, 3, 12, 9, 7, 5, 10, 6, 1, 13, 0, 11, 7, 4, 9, 1, 10, 14, 3, 5, 12, 2, 15, 8, 6,
+    1, 4, 11, 13, 12, 3, 7, 14, 10, 15, 6, 8, 0, 5, 9, 2, 6, 11, 13, 8, 1, 4, 10, 7, 9, 5, 0, 15, 14, 2, 3, 12],
+  [13, 2, 8, 4, 6, 15, 11, 1, 10, 9, 3, 14, 5, 0, 12, 7, 1, 15, 13, 8, 10, 3, 7, 4, 12, 5, 6, 11, 0, 14, 9, 2,
+    7, 11, 4, 1, 9, 12, 14, 2, 0, 6, 10, 13, 15, 3, 5, 8, 2, 1, 14, 7, 4, 10, 8, 13, 15, 12, 9, 0, 3, 5, 6, 11]
+];
+
+// Blocks are handled as arrays of bits, which is slow but only ever applied
+// to the few kilobytes of a key file
+const permute = (bits: number[], table: number[]) => table.map(position => bits[position - 1]);
+
+function toBits(bytes: Uint8Array): number[] {
+  const bits: number[] = [];
+  for (const byte of bytes) for (let i = 7; i >= 0; i--) bits.push((byte >> i) & 1);
+  return bits;
+}
+
+function fromBits(bits: number[]): Uint8Array {
+  const out = new Uint8Array(bits.length / 8);
+  bits.forEach((bit, i) => { out[i >> 3] |= bit << (7 - (i & 7)); });
+  return out;
+}
+
+function desSubkeys(key: Uint8Array): number[][] {
+  const bits = permute(toBits(key), DES_PC1);
+  let c = bits.slice(0, 28), d = bits.slice(28);
+  return DES_SHIFTS.map(shift => {
+    c = [...c.slice(shift), ...c.slice(0, shift)];
+    d = [...d.slice(shift), ...d.slice(0, shift)];
+    return permute([...c, ...d], DES_PC2);
+  });
+}
+
+function desBlock(subkeys: number[][], block: Uint8Array, decrypt: boolean): Uint8Array {
+  const bits = permute(toBits(block), DES_IP);
+  let left = bits.slice(0, 32), right = bits.slice(32);
+  for (let round = 0; round < 16; round++) {
+    const subkey = subkeys[decrypt ? 15 - round : round];
+    const expanded = permute(right, DES_E).map((bit, i) => bit ^ subkey[i]);
+    const substituted: number[] = [];
+    for (let box = 0; box < 8; box++) {
+      const b = expanded.slice(box * 6, box * 6 + 6);
+      const value = DES_SBOXES[box][((b[0] << 1) | b[5]) * 16 + ((b[1] << 3) | (b[2] << 2) | (b[3] << 1) | b[4])];
+      for (let i = 3; i >= 0; i--) substituted.push((value >> i) & 1);
+    }
+    const f = permute(substituted, DES_P);
+    [left, right] = [right, left.map((bit, i) => bit ^ f[i])];
+  }
+  // The final permutation is the inverse of the initial one
+  const preOutput = [...right, ...left];
+  const out = new Array<number>(64);
+  DES_IP.forEach((position, i) => { out[position - 1] = preOutput[i]; });
+  return fromBits(out);
+}
+
+// Triple DES (EDE with a 24-byte key) in CBC mode, removing PKCS#7 padding
+export function tripleDesDecryptCBC(key: Uint8Array, iv: Uint8Array, data: Uint8Array): Uint8Array {
+  if (key.length !== 24) throw new Error(`Invalid triple DES key length: ${key.length}`);
+  const [k1, k2, k3] = [0, 8, 16].map(offset => desSubkeys(key.subarray(offset, offset + 8)));
+  return decryptCBC64(block => desBlock(k1, desBlock(k2, desBlock(k3, block, true), false), true), iv, data);
+}
+
+// RC2 (RFC 2268)
+const RC2_PITABLE = [
+  0xd9, 0x78, 0xf9, 0xc4, 0x19, 0xdd, 0xb5, 0xed, 0x28, 0xe9, 0xfd, 0x79, 0x4a, 0xa0, 0xd8, 0x9d,
+  0xc6, 0x7e, 0x37, 0x83, 0x2b, 0x76, 0x53, 0x8e, 0x62, 0x4c, 0x64, 0x88, 0x44, 0x8b, 0xfb, 0xa2,
+  0x17, 0x9a, 0x59, 0xf5, 0x87, 0xb3, 0x4f, 0x13, 0x61, 0x45, 0x6d, 0x8d, 0x09, 0x81, 0x7d, 0x32,
+  0xbd, 0x8f, 0x40, 0xeb, 0x86, 0xb7, 0x7b, 0x0b, 0xf0, 0x95, 0x21, 0x22, 0x5c, 0x6b, 0x4e, 0x82,
+  0x54, 0xd6, 0x65, 0x93, 0xce, 0x60, 0xb2, 0x1c, 0x73, 0x56, 0xc0, 0x14, 0xa7, 0x8c, 0xf1, 0xdc,
+  0x12, 0x75, 0xca, 0x1f, 0x3b, 0xbe, 0xe4, 0xd1, 0x42, 0x3d, 0xd4, 0x30, 0xa3, 0x3c, 0xb6, 0x26,
+  0x6f, 0xbf, 0x0e, 0xda, 0x46, 0x69, 0x07, 0x57, 0x27, 0xf2, 0x1d, 0x9b, 0xbc, 0x94, 0x43, 0x03,
+  0xf8, 0x11, 0xc7, 0xf6, 0x90, 0xef, 0x3e, 0xe7, 0x06, 0xc3, 0xd5, 0x2f, 0xc8, 0x66, 0x1e, 0xd7,
+  0x08, 0xe8, 0xea, 0xde, 0x80, 0x52, 0xee, 0xf7, 0x84, 0xaa, 0x72, 0xac, 0x35, 0x4d, 0x6a, 0x2a,
+  0x96, 0x1a, 0xd2, 0x71, 0x5a, 0x15, 0x49, 0x74, 0x4b, 0x9f, 0xd0, 0x5e, 0x04, 0x18, 0xa4, 0xec,
+  0xc2, 0xe0, 0x41, 0x6e, 0x0f, 0x51, 0xcb, 0xcc, 0x24, 0x91, 0xaf, 0x50, 0xa1, 0xf4, 0x70, 0x39,
+  0x99, 0x7c, 0x3a, 0x85, 0x23, 0xb8, 0xb4, 0x7a, 0xfc, 0x02, 0x36, 0x5b, 0x25, 0x55, 0x97, 0x31,
+  0x2d, 0x5d, 0xfa, 0x98, 0xe3, 0x8a, 0x92, 0xae, 0x05, 0xdf, 0x29, 0x10, 0x67, 0x6c, 0xba, 0xc9,
+  0xd3, 0x00, 0xe6, 0xcf, 0xe1, 0x9e, 0xa8, 0x2c, 0x63, 0x16, 0x01, 0x3f, 0x58, 0xe2, 0x89, 0xa9,
+  0x0d, 0x38, 0x34, 0x1b, 0xab, 0x33, 0xff, 0xb0, 0xbb, 0x48, 0x0c, 0x5f, 0xb9, 0xb1, 0xcd, 0x2e,
+  0xc5, 0xf3, 0xdb, 0x47, 0xe5, 0xa5, 0x9c, 0x77, 0x0a, 0xa6, 0x20, 0x68, 0xfe, 0x7f, 0xc1, 0xad
+];
+
+function rc2Subkeys(key: Uint8Array, effectiveBits: number): Uint16Array {
+  const l = new Uint8Array(128);
+  l.set(key);
+  for (let i = key.length; i < 128; i++) l[i] = RC2_PITABLE[(l[i - 1] + l[i - key.length]) & 0xff];
+  const t8 = Math.ceil(effectiveBits / 8);
+  const tm = 0xff >> (8 * t8 - effectiveBits);
+  l[128 - t8] = RC2_PITABLE[l[128 - t8] & tm];
+  for (let i = 127 - t8; i >= 0; i--) l[i] = RC2_PITABLE[l[i + 1] ^ l[i + t8]];
+  const k = new Uint16Array(64);
+  for (let i = 0; i < 64; i++) k[i] = l[2 * i] | (l[2 * i + 1] << 8);
+  return k;
+}
+
+function rc2DecryptBlock(k: Uint16Array, block: Uint8Array): Uint8Array {
+  const r = [0, 1, 2, 3].map(i => block[2 * i] | (block[2 * i + 1] << 8));
+  const shifts = [1, 2, 3, 5];
+  let j = 63;
+  const mix = () => {
+    for (let i = 3; i >= 0; i--) {
+      r[i] = ((r[i] >>> shifts[i]) | (r[i] << (16 - shifts[i]))) & 0xffff;
+      r[i] = (r[i] - k[j--] - (r[(i + 3) & 3] & r[(i + 2) & 3]) - (~r[(i + 3) & 3] & r[(i + 1) & 3])) & 0xffff;
+    }
+  };
+  const mash = () => {
+    for (let i = 3; i >= 0; i--) r[i] = (r[i] - k[r[(i + 3) & 3] & 63]) & 0xffff;
+  };
+  for (let round = 0; round < 16; round++) {
+    mix();
+    if (round === 4 || round === 10) mash();
+  }
+  return Uint8Array.from(r.flatMap(word => [word & 0xff, word >> 8]));
+}
+
+// RC2-CBC with the given effective key length in bits, removing PKCS#7 padding
+export function rc2DecryptCBC(key: Uint8Array, effectiveBits: number, iv: Uint8Array, data: Uint8Array): Uint8Array {
+  const k = rc2Subkeys(key, effectiveBits);
+  return decryptCBC64(block => rc2DecryptBlock(k, block), iv, data);
+}
@@ -0,0 +1,421 @@
+// Deflate encoder
+// Compresses with the effort of zlib level 9: lazy matching over hash chains
+// up to 4096 long. Each block takes whichever of dynamic Huffman, fixed
+// Huffman or stored encoding is smallest. CompressionStream has no level
+// setting, so this is for output where the last bytes matter more than speed.
+
+const WINDOW_SIZE = 32768;
+const WINDOW_MASK = WINDOW_SIZE - 1;
+const HASH_BITS = 15;
+const HASH_MASK = (1 << HASH_BITS) - 1;
+const MIN_MATCH = 3;
+const MAX_MATCH = 258;
+const MAX_CHAIN = 4096;
+// Matches at least this long get a quarter of the chain search
+const GOOD_MATCH = 32;
+// Three-byte matches further back than this cost more than three literals
+const TOO_FAR = 4096;
+// Symbols per block
+const BLOCK_SYMBOLS = 1 << 15;
+
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DIST_BASE = [1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577];
+const DIST_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+// Length 3-258 to its code offset from 257, distance 1-32768 to its code
+const LENGTH_CODE = new Uint8Array(MAX_MATCH + 1);
+const DIST_CODE = new Uint8Array(WINDOW_SIZE + 1);
+LENGTH_BASE.forEach((base, code) => {
+  for (let length = base; length < base + (1 << LENGTH_EXTRA[code]) && length <= MAX_MATCH; length++) LENGTH_CODE[length] = code;
+});
+LENGTH_CODE[MAX_MATCH] = 28;
+DIST_BASE.forEach((base, code) => {
+  for (let distance = base; distance < base + (1 << DIST_EXTRA[code]) && distance <= WINDOW_SIZE; distance++) DIST_CODE[distance] = code;
+});
+
+const FIXED_LITERAL_LENGTHS = Array.from({ length: 288 }, (_, symbol) => (symbol < 144 ? 8 : symbol < 256 ? 9 : symbol < 280 ? 7 : 8));
+const FIXED_DISTANCE_LENGTHS = new Array(30).fill(5);
+
+class BitWriter {
+  bytes = new Uint8Array(1 << 16);
+  length = 0;
+  private buffer = 0;
+  private count = 0;
+
+  private push(byte: number) {
+    if (this.length === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes[this.length++] = byte;
+  }
+
+  // LSB first, as deflate packs everything but Huffman codes
+  bits(value: number, count: number) {
+    this.buffer |= value << this.count;
+    this.count += count;
+    while (this.count >= 8) {
+      this.push(this.buffer & 0xff);
+      this.buffer >>>= 8;
+      this.count -= 8;
+    }
+  }
+
+  align() {
+    if (this.count > 0) this.push(this.buffer & 0xff);
+    this.buffer = 0;
+    this.count = 0;
+  }
+
+  write(data: Uint8Array) {
+    for (const byte of data) this.push(byte);
+  }
+
+  result(): Uint8Array {
+    this.align();
+    return this.bytes.slice(0, this.length);
+  }
+}
+
+/**
+ * Huffman code lengths for `frequencies`, no longer than `limit`. Overlong
+ * trees are rebuilt from flattened frequencies, which costs little in practice.
+ */
+function huffmanLengths(frequencies: ArrayLike<number>, limit: number): number[] {
+  const lengths = new Array(frequencies.length).fill(0);
+  let weights = Array.from(frequencies);
+  const used = weights.map((weight, symbol) => (weight > 0 ? symbol : -1)).filter(symbol => symbol >= 0);
+  if (used.length === 0) return lengths;
+  if (used.length === 1) {
+    lengths[used[0]] = 1;
+    return lengths;
+  }
+  for (;;) {
+    // Two-queue construction over leaves sorted by weight
+    const leaves = [...used].sort((a, b) => weights[a] - weights[b] || a - b);
+    const parent: number[] = [];
+    const nodeWeight: number[] = [];
+    const leafNode = new Map<number, number>();
+    leaves.forEach(symbol => {
+      leafNode.set(symbol, nodeWeight.length);
+      nodeWeight.push(weights[symbol]);
+      parent.push(-1);
+    });
+    let leaf = 0;
+    let internal = leaves.length;
+    const take = () => (leaf < leaves.length && (internal >= nodeWeight.length || nodeWeight[leaf] <= nodeWeight[internal]) ? leaf++ : internal++);
+    while (leaves.length - leaf + nodeWeight.length - internal > 1) {
+      const a = take();
+      const b = take();
+      parent[a] = parent[b] = nodeWeight.length;
+      nodeWeight.push(nodeWeight[a] + nodeWeight[b]);
+      parent.push(-1);
+    }
+    const depth = new Array(nodeWeight.length).fill(0);
+    for (let node = nodeWeight.length - 2; node >= 0; node--) depth[node] = depth[parent[node]] + 1;
+    let longest = 0;
+    for (const symbol of used) {
+      lengths[symbol] = depth[leafNode.get(symbol)!];
+      longest = Math.max(longest, lengths[symbol]);
+    }
+    if (longest <= limit) return lengths;
+    weights = weights.map(weight => (weight > 0 ? Math.max(1, weight >> 1) : 0));
+  }
+}
+
+// Canonical codes, bit-reversed so they can be written LSB first
+function canonicalCodes(lengths: number[]): number[] {
+  const counts = new Array(16).fill(0);
+  for (const length of lengths) if (length > 0) counts[length]++;
+  const next = new Array(16).fill(0);
+  for (let bits = 1, code = 0; bits < 16; bits++) {
+    code = (code + counts[bits - 1]) << 1;
+    next[bits] = code;
+  }
+  return lengths.map(length => {
+    if (length === 0) return 0;
+    let code = next[length]++;
+    let reversed = 0;
+    for (let i = 0; i < length; i++) {
+      reversed = (reversed << 1) | (code & 1);
+      code >>= 1;
+    }
+    return reversed;
+  });
+}
+
+// Run-length encoding of the combined code lengths with symbols 16-18
+function encodeCodeLengths(lengths: number[]): { symbol: number; extra: number }[] {
+  const out: { symbol: number; extra: number }[] = [];
+  for (let i = 0; i < lengths.length;) {
+    const length = lengths[i];
+    let run = 1;
+    while (i + run < lengths.length && lengths[i + run] === length) run++;
+    i += run;
+    if (length === 0) {
+      while (run >= 11) {
+        const n = Math.min(run, 138);
+        out.push({ symbol: 18, extra: n - 11 });
+        run -= n;
+      }
+      if (run >= 3) {
+        out.push({ symbol: 17, extra: run - 3 });
+        run = 0;
+      }
+    } else {
+      out.push({ symbol: length, extra: 0 });
+      run--;
+      while (run >= 3) {
+        const n = Math.min(run, 6);
+        out.push({ symbol: 16, extra: n - 3 });
+        run -= n;
+      }
+    }
+    for (; run > 0; run--) out.push({ symbol: length, extra: 0 });
+  }
+  return out;
+}
+
+const CODE_LENGTH_EXTRA: Record<number, number> = { 16: 2, 17: 3, 18: 7 };
+
+interface Block {
+  // Literal/length symbols; lengths carry the match length in `lengths`
+  symbols: Uint16Array;
+  lengths: Uint16Array;
+  distances: Uint16Array;
+  count: number;
+  // Input span the block covers, for stored encoding
+  start: number;
+  end: number;
+}
+
+function symbolBits(block: Block, literalLengths: number[], distanceLengths: number[]): number {
+  let bits = literalLengths[256];
+  for (let i = 0; i < block.count; i++) {
+    const symbol = block.symbols[i];
+    bits += literalLengths[symbol];
+    if (symbol > 256) {
+      bits += LENGTH_EXTRA[symbol - 257];
+      const code = DIST_CODE[block.distances[i]];
+      bits += distanceLengths[code] + DIST_EXTRA[code];
+    }
+  }
+  return bits;
+}
+
+function writeSymbols(out: BitWriter, block: Block, literalLengths: number[], distanceLengths: number[]) {
+  const literalCodes = canonicalCodes(literalLengths);
+  const distanceCodes = canonicalCodes(distanceLengths);
+  for (let i = 0; i < block.count; i++) {
+    const symbol = block.symbols[i];
+    out.bits(literalCodes[symbol], literalLengths[symbol]);
+    if (symbol > 256) {
+      const lengthCode = symbol - 257;
+      out.bits(block.lengths[i] - LENGTH_BASE[lengthCode], LENGTH_EXTRA[lengthCode]);
+      const distance = block.distances[i];
+      const code = DIST_CODE[distance];
+      out.bits(distanceCodes[code], distanceLengths[code]);
+      out.bits(distance - DIST_BASE[code], DIST_EXTRA[code]);
+    }
+  }
+  out.bits(literalCodes[256], literalLengths[256]);
+}
+
+function writeBlock(out: BitWriter, data: Uint8Array, block: Block, final: boolean) {
+  const literalFrequencies = new Uint32Array(286);
+  const distanceFrequencies = new Uint32Array(30);
+  literalFrequencies[256] = 1;
+  for (let i = 0; i < block.count; i++) {
+    literalFrequencies[block.symbols[i]]++;
+    if (block.symbols[i] > 256) distanceFrequencies[DIST_CODE[block.distances[i]]]++;
+  }
+  const literalLengths = huffmanLengths(literalFrequencies, 15);
+  const distanceLengths = huffmanLengths(distanceFrequencies, 15);
+  // Some decoders insist on at least one distance code
+  if (!distanceLengths.some(length => length > 0)) distanceLengths[0] = 1;
+
+  let literalCount = 286;
+  while (literalCount > 257 && literalLengths[literalCount - 1] === 0) literalCount--;
+  let distanceCount = 30;
+  while (distanceCount > 1 && distanceLengths[distanceCount - 1] === 0) distanceCount--;
+  const runs = encodeCodeLengths([...literalLengths.slice(0, literalCount), ...distanceLengths.slice(0, distanceCount)]);
+  const codeLengthFrequencies = new Uint32Array(19);
+  for (const run of runs) codeLengthFrequencies[run.symbol]++;
+  const codeLengthLengths = huffmanLengths(codeLengthFrequencies, 7);
+  let codeLengthCount = 19;
+  while (codeLengthCount > 4 && codeLengthLengths[CODE_LENGTH_ORDER[codeLengthCount - 1]] === 0) codeLengthCount--;
+
+  const dynamicBits = 3 + 14 + 3 * codeLengthCount
+    + runs.reduce((sum, run) => sum + codeLengthLengths[run.symbol] + (CODE_LENGTH_EXTRA[run.symbol] ?? 0), 0)
+    + symbolBits(block, literalLengths, distanceLengths);
+  const fixedBits = 3 + symbolBits(block, FIXED_LITERAL_LENGTHS, FIXED_DISTANCE_LENGTHS);
+  const storedLength = block.end - block.start;
+  // Stored blocks hold at most 65535 bytes, each with its own header
+  const storedBits = Math.max(1, Math.ceil(storedLength / 65535)) * (3 + 7 + 32) + 8 * storedLength;
+
+  if (storedBits <= dynamicBits && storedBits <= fixedBits) {
+    let offset = block.start;
+    do {
+      const size = Math.min(65535, block.end - offset);
+      const last = final && offset + size === block.end;
+      out.bits(last ? 1 : 0, 3);
+      out.align();
+      out.bits(size, 16);
+      out.bits(~size & 0xffff, 16);
+      out.write(data.subarray(offset, offset + size));
+      offset += size;
+    } while (offset < block.end);
+  } else if (fixedBits <= dynamicBits) {
+    out.bits(final ? 1 : 0, 1);
+    out.bits(1, 2);
+    writeSymbols(out, block, FIXED_LITERAL_LENGTHS, FIXED_DISTANCE_LENGTHS);
+  } else {
+    out.bits(final ? 1 : 0, 1);
+    out.bits(2, 2);
+    out.bits(literalCount - 257, 5);
+    out.bits(distanceCount - 1, 5);
+    out.bits(codeLengthCount - 4, 4);
+    for (let i = 0; i < codeLengthCount; i++) out.bits(codeLengthLengths[CODE_LENGTH_ORDER[i]], 3);
+    const codeLengthCodes = canonicalCodes(codeLengthLengths);
+    for (const run of runs) {
+      out.bits(codeLengthCodes[run.symbol], codeLengthLengths[run.symbol]);
+      if (run.symbol >= 16) out.bits(run.extra, CODE_LENGTH_EXTRA[run.symbol]);
+    }
+    writeSymbols(out, block, literalLengths, distanceLengths);
+  }
+}
+
+/** Raw deflate stream (RFC 1951) of `data`. */
+export function deflateRaw(data: Uint8Array): Uint8Array {
+  const out = new BitWriter();
+  const n = data.length;
+  const head = new Int32Array(1 << HASH_BITS).fill(-1);
+  const prev = new Int32Array(WINDOW_SIZE).fill(-1);
+  const hashAt = (i: number) => ((data[i] << 10) ^ (data[i + 1] << 5) ^ data[i + 2]) & HASH_MASK;
+  const insert = (i: number) => {
+    if (i + MIN_MATCH > n) return;
+    const hash = hashAt(i);
+    prev[i & WINDOW_MASK] = head[hash];
+    head[hash] = i;
+  };
+
+  let matchLength = 0;
+  let matchDistance = 0;
+  // Longest match at `i` that beats `atLeast`, from the chain before `i` is inserted
+  const findMatch = (i: number, atLeast: number) => {
+    matchLength = 0;
+    if (i + MIN_MATCH > n) return;
+    const maxLength = Math.min(MAX_MATCH, n - i);
+    let best = Math.max(MIN_MATCH - 1, atLeast);
+    if (best >= maxLength) return;
+    let chain = atLeast >= GOOD_MATCH ? MAX_CHAIN >> 2 : MAX_CHAIN;
+    let candidate = head[hashAt(i)];
+    while (candidate >= 0 && i - candidate <= WINDOW_SIZE && chain-- > 0) {
+      if (data[candidate + best] === data[i + best] && data[candidate] === data[i]) {
+        let length = 0;
+        while (length < maxLength && data[candidate + length] === data[i + length]) length++;
+        if (length > best) {
+          best = length;
+          matchLength = length;
+          matchDistance = i - candidate;
+          if (length >= maxLength) break;
+        }
+      }
+      const next = prev[candidate & WINDOW_MASK];
+      // Older entries of the ring buffer were overwritten by newer positions
+      if (next >= candidate) break;
+      candidate = next;
+    }
+    if (matchLength === MIN_MATCH && matchDistance > TOO_FAR) matchLength = 0;
+  };
+
+  let block: Block = {
+    symbols: new Uint16Array(BLOCK_SYMBOLS),
+    lengths: new Uint16Array(BLOCK_SYMBOLS),
+    distances: new Uint16Array(BLOCK_SYMBOLS),
+    count: 0,
+    start: 0,
+    end: 0,
+  };
+  const flush = (end: number, final: boolean) => {
+    block.end = end;
+    writeBlock(out, data, block, final);
+    block = { ...block, count: 0, start: end, end };
+  };
+  const literal = (i: number) => {
+    block.symbols[block.count] = data[i];
+    block.count++;
+    if (block.count === BLOCK_SYMBOLS) flush(i + 1, false);
+  };
+  const match = (i: number, length: number, distance: number) => {
+    block.symbols[block.count] = 257 + LENGTH_CODE[length];
+    block.lengths[block.count] = length;
+    block.distances[block.count] = distance;
+    block.count++;
+    if (block.count === BLOCK_SYMBOLS) flush(i + length, false);
+  };
+
+  // Lazy matching: a match is only taken if the next position has no longer one
+  let pendingLength = 0;
+  let pendingDistance = 0;
+  let i = 0;
+  while (i < n) {
+    findMatch(i, pendingLength);
+    insert(i);
+    if (pendingLength > 0) {
+      if (matchLength > pendingLength) {
+        literal(i - 1);
+        pendingLength = matchLength;
+        pendingDistance = matchDistance;
+        i++;
+        continue;
+      }
+      match(i - 1, pendingLength, pendingDistance);
+      const end = i - 1 + pendingLength;
+      for (let j = i + 1; j < end; j++) insert(j);
+      i = end;
+      pendingLength = 0;
+      continue;
+    }
+    if (matchLength > 0) {
+      pendingLength = matchLength;
+      pendingDistance = matchDistance;
+    } else {
+      literal(i);
+    }
+    i++;
+  }
+  if (pendingLength > 0) match(i - 1, pendingLength, pendingDistance);
+  flush(n, true);
+  return out.result();
+}
+
+function adler32(data: Uint8Array): number {
+  let a = 1;
+  let b = 0;
+  for (let i = 0; i < data.length;) {
+    // Largest run before the sums can overflow 2^32
+    const end = Math.min(data.length, i + 5552);
+    for (; i < end; i++) {
+      a += data[i];
+      b += a;
+    }
+    a %= 65521;
+    b %= 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+}
+
+/** zlib stream (RFC 1950) of `data`, flagged as maximum compression. */
+export function zlibCompress(data: Uint8Array): Uint8Array {
+  const raw = deflateRaw(data);
+  const zlib = new Uint8Array(raw.length + 6);
+  zlib[0] = 0x78;
+  zlib[1] = 0xda;
+  zlib.set(raw, 2);
+  new DataView(zlib.buffer).setUint32(raw.length + 2, adler32(data));
+  return zlib;
+}
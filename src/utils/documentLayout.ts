@@ -0,0 +1,521 @@
+// Paragraph and table layout into a PDF with an embedded TrueType font
+// Word-processor importers (HWP, WPS) parse into the FlowDocument model below
+// and this module breaks lines, sizes tables and paginates with jsPDF. All
+// lengths are in points. jsPDF embeds the font with Identity-H encoding, so
+// Hangul and CJK text stays selectable; italic is not synthesized.
+
+import { jsPDF } from 'jspdf';
+
+export interface TextStyle {
+  fontSize: number;
+  bold: boolean;
+  italic: boolean;
+  underline: boolean;
+  strike: boolean;
+  // #rrggbb
+  color: string;
+}
+
+export interface TextRun {
+  // May contain '\n' for forced line breaks and '\t' for tabs
+  text: string;
+  style: TextStyle;
+}
+
+export interface ParagraphBlock {
+  type: 'paragraph';
+  runs: TextRun[];
+  align: 'left' | 'right' | 'center' | 'justify';
+  indentLeft: number;
+  indentRight: number;
+  // CSS text-indent semantics: negative values hang the first line
+  firstLineIndent: number;
+  spaceBefore: number;
+  spaceAfter: number;
+  lineSpacing: { mode: 'percent' | 'fixed' | 'minimum'; value: number };
+  pageBreakBefore?: boolean;
+}
+
+export interface CellBorder {
+  width: number;
+  color: string;
+}
+
+export interface TableCell {
+  row: number;
+  col: number;
+  rowSpan: number;
+  colSpan: number;
+  width?: number;
+  height?: number;
+  padding: { top: number; right: number; bottom: number; left: number };
+  borders: { top: CellBorder | null; right: CellBorder | null; bottom: CellBorder | null; left: CellBorder | null };
+  background?: string;
+  verticalAlign: 'top' | 'middle' | 'bottom';
+  blocks: DocumentBlock[];
+}
+
+export interface TableBlock {
+  type: 'table';
+  rows: number;
+  cols: number;
+  cells: TableCell[];
+  pageBreakBefore?: boolean;
+}
+
+export type DocumentBlock = ParagraphBlock | TableBlock;
+
+export interface PageSetup {
+  width: number;
+  height: number;
+  margins: { top: number; right: number; bottom: number; left: number };
+}
+
+export interface FlowDocument {
+  title?: string;
+  // Page geometry stored in the source document, if any
+  page?: PageSetup;
+  blocks: DocumentBlock[];
+}
+
+export interface LayoutFonts {
+  regular: Uint8Array;
+  bold?: Uint8Array;
+}
+
+export const DEFAULT_TEXT_STYLE: TextStyle = {
+  fontSize: 10,
+  bold: false,
+  italic: false,
+  underline: false,
+  strike: false,
+  color: '#000000',
+};
+
+export const DEFAULT_BORDER: CellBorder = { width: 0.5, color: '#000000' };
+
+export type CJKScript = 'korean' | 'chinese';
+
+// SIL Open Font License fonts: Nanum Gothic covers Hangul, Hanja and Latin;
+// Noto Sans SC covers simplified and most traditional Chinese
+const CJK_FONT_URLS: Record<CJKScript, { regular: string; bold: string }> = {
+  korean: {
+    regular: 'https://cdn.jsdelivr.net/npm/@expo-google-fonts/nanum-gothic@0.2.3/NanumGothic_400Regular.ttf',
+    bold: 'https://cdn.jsdelivr.net/npm/@expo-google-fonts/nanum-gothic@0.2.3/NanumGothic_700Bold.ttf',
+  },
+  chinese: {
+    regular: 'https://cdn.jsdelivr.net/npm/@expo-google-fonts/noto-sans-sc@0.2.3/NotoSansSC_400Regular.ttf',
+    bold: 'https://cdn.jsdelivr.net/npm/@expo-google-fonts/noto-sans-sc@0.2.3/NotoSansSC_700Bold.ttf',
+  },
+};
+
+const FONT_FAMILY = 'FlowCJK';
+// Approximate ascent of CJK fonts as a fraction of the font size
+const ASCENT = 0.86;
+const TAB_WIDTH = 36;
+
+export class FontLoadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FontLoadError';
+  }
+}
+
+const cjkFonts = new Map<CJKScript, Promise<LayoutFonts>>();
+
+/**
+ * Fetch the default font for a script once per session. A user-supplied
+ * TrueType file replaces it, for offline use or a different typeface.
+ */
+export function loadCJKFonts(custom?: File | null, script: CJKScript = 'korean'): Promise<LayoutFonts> {
+  if (custom) return custom.arrayBuffer().then(buffer => ({ regular: new Uint8Array(buffer) }));
+  let fonts = cjkFonts.get(script);
+  if (!fonts) {
+    const fetchFont = async (url: string) => {
+      const response = await fetch(url);
+      if (!response.ok) throw new FontLoadError(`Font download failed (${response.status})`);
+      return new Uint8Array(await response.arrayBuffer());
+    };
+    const urls = CJK_FONT_URLS[script];
+    fonts = Promise.all([fetchFont(urls.regular), fetchFont(urls.bold).catch(() => undefined)])
+      .then(([regular, bold]) => ({ regular, bold }))
+      .catch(error => {
+        cjkFonts.delete(script);
+        throw error instanceof FontLoadError ? error : new FontLoadError('Could not download the document font; choose a .ttf font file instead');
+      });
+    cjkFonts.set(script, fonts);
+  }
+  return fonts;
+}
+
+// Pick the font family for a document: Chinese unless Hangul dominates
+export function detectScript(doc: FlowDocument): CJKScript {
+  let hangul = 0;
+  let han = 0;
+  const visit = (blocks: DocumentBlock[]) => {
+    for (const block of blocks) {
+      if (block.type === 'table') {
+        block.cells.forEach(cell => visit(cell.blocks));
+        continue;
+      }
+      for (const run of block.runs) {
+        hangul += (run.text.match(/[\uAC00-\uD7AF\u1100-\u11FF\u3130-\u318F]/g) || []).length;
+        han += (run.text.match(/[\u3400-\u4DBF\u4E00-\u9FFF]/g) || []).length;
+      }
+    }
+  };
+  visit(doc.blocks);
+  return han > hangul ? 'chinese' : 'korean';
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function parseColor(color: string): [number, number, number] {
+  const hex = /^#?([0-9a-f]{6})$/i.exec(color)?.[1] ?? '000000';
+  return [parseInt(hex.slice(0, 2), 16), parseInt(hex.slice(2, 4), 16), parseInt(hex.slice(4, 6), 16)];
+}
+
+// A vertical slice of content; pagination only happens between items
+interface FlowItem {
+  height: number;
+  draw: (x: number, y: number) => void;
+  // Vertical spacing that is dropped at the top of a page
+  isGap?: boolean;
+  pageBreakBefore?: boolean;
+}
+
+interface Fragment {
+  text: string;
+  style: TextStyle;
+  width: number;
+  isSpace: boolean;
+  // Tabs are sized when the line is assembled
+  isTab?: boolean;
+  // A forced line break follows this fragment
+  breakAfter?: boolean;
+  // Continues the previous fragment's word in a different style
+  joinPrevious?: boolean;
+}
+
+// Break opportunities exist between CJK ideographs and kana; Hangul breaks at spaces
+const CJK_CHAR = /[\u2E80-\u2FDF\u3040-\u30FF\u3400-\u4DBF\u4E00-\u9FFF\uF900-\uFAFF\uFF00-\uFFEF]/;
+
+class Layouter {
+  private readonly hasBold: boolean;
+
+  constructor(private readonly pdf: jsPDF, fonts: LayoutFonts) {
+    pdf.addFileToVFS('flow-regular.ttf', toBase64(fonts.regular));
+    pdf.addFont('flow-regular.ttf', FONT_FAMILY, 'normal', undefined, 'Identity-H');
+    this.hasBold = !!fonts.bold;
+    if (fonts.bold) {
+      pdf.addFileToVFS('flow-bold.ttf', toBase64(fonts.bold));
+      pdf.addFont('flow-bold.ttf', FONT_FAMILY, 'bold', undefined, 'Identity-H');
+    }
+  }
+
+  private applyStyle(style: TextStyle) {
+    this.pdf.setFont(FONT_FAMILY, style.bold && this.hasBold ? 'bold' : 'normal');
+    this.pdf.setFontSize(style.fontSize);
+  }
+
+  private measure(text: string, style: TextStyle): number {
+    this.applyStyle(style);
+    return this.pdf.getTextWidth(text);
+  }
+
+  private fragments(runs: TextRun[]): Fragment[] {
+    const fragments: Fragment[] = [];
+    for (const run of runs) {
+      for (const token of run.text.match(/\n|\t| +|[^\s]/g) || []) {
+        const last = fragments[fragments.length - 1];
+        if (token === '\n') {
+          if (last && !last.breakAfter) last.breakAfter = true;
+          else fragments.push({ text: '', style: run.style, width: 0, isSpace: false, breakAfter: true });
+        } else if (token === '\t') {
+          fragments.push({ text: '', style: run.style, width: 0, isSpace: true, isTab: true });
+        } else if (token[0] === ' ') {
+          fragments.push({ text: token, style: run.style, width: this.measure(token, run.style), isSpace: true });
+        } else if (last && !last.isSpace && !last.breakAfter && !CJK_CHAR.test(token) && !CJK_CHAR.test(last.text.slice(-1))) {
+          if (last.style === run.style) last.text += token;
+          else fragments.push({ text: token, style: run.style, width: 0, isSpace: false, joinPrevious: true });
+        } else {
+          fragments.push({ text: token, style: run.style, width: 0, isSpace: false });
+        }
+      }
+    }
+    for (const fragment of fragments) {
+      if (!fragment.isSpace) fragment.width = this.measure(fragment.text, fragment.style);
+    }
+    return fragments;
+  }
+
+  private paragraphItems(paragraph: ParagraphBlock, width: number): FlowItem[] {
+    const items: FlowItem[] = [];
+    const baseStyle = paragraph.runs[0]?.style ?? DEFAULT_TEXT_STYLE;
+    const fragments = this.fragments(paragraph.runs);
+    const available = Math.max(width - paragraph.indentLeft - paragraph.indentRight, 10);
+
+    // Group fragments into unbreakable words
+    const words: Fragment[][] = [];
+    for (const fragment of fragments) {
+      if (fragment.joinPrevious && words.length > 0) words[words.length - 1].push(fragment);
+      else words.push([fragment]);
+    }
+
+    const lines: { fragments: Fragment[]; offset: number; last: boolean }[] = [];
+    let current: Fragment[] = [];
+    let lineWidth = 0;
+    const lineOffset = () => (lines.length === 0 ? paragraph.firstLineIndent : 0);
+    const pushLine = (last: boolean) => {
+      while (current.length > 0 && current[current.length - 1].isSpace && !current[current.length - 1].breakAfter) current.pop();
+      lines.push({ fragments: current, offset: lineOffset(), last });
+      current = [];
+      lineWidth = 0;
+    };
+
+    for (const word of words) {
+      const limit = available - lineOffset();
+      if (word.length === 1 && word[0].isTab) {
+        const tab = word[0];
+        tab.width = TAB_WIDTH - ((lineWidth + lineOffset()) % TAB_WIDTH) || TAB_WIDTH;
+      }
+      const wordWidth = word.reduce((sum, fragment) => sum + fragment.width, 0);
+      const isSpace = word.every(fragment => fragment.isSpace);
+      if (isSpace && current.length === 0 && lines.length > 0 && !lines[lines.length - 1].last && !word[0].isTab) {
+        // Spaces at the start of a wrapped line are dropped
+        if (word.some(fragment => fragment.breakAfter)) lines[lines.length - 1].last = true;
+        continue;
+      }
+      if (!isSpace && current.length > 0 && lineWidth + wordWidth > limit) pushLine(false);
+      if (!isSpace && wordWidth > limit) {
+        // Break an over-long word between characters
+        for (const fragment of word) {
+          for (const char of Array.from(fragment.text)) {
+            const charWidth = this.measure(char, fragment.style);
+            if (current.length > 0 && lineWidth + charWidth > available - lineOffset()) pushLine(false);
+            current.push({ text: char, style: fragment.style, width: charWidth, isSpace: false });
+            lineWidth += charWidth;
+          }
+          if (fragment.breakAfter) pushLine(true);
+        }
+        continue;
+      }
+      current.push(...word);
+      lineWidth += wordWidth;
+      if (word[word.length - 1].breakAfter) pushLine(true);
+    }
+    if (current.length > 0 || lines.length === 0 || !lines[lines.length - 1].last) pushLine(true);
+
+    if (paragraph.spaceBefore > 0) items.push({ height: paragraph.spaceBefore, draw: () => {}, isGap: true });
+    lines.forEach((line, index) => {
+      const size = line.fragments.reduce((max, fragment) => Math.max(max, fragment.style.fontSize), 0) || baseStyle.fontSize;
+      const { mode, value } = paragraph.lineSpacing;
+      const height = mode === 'fixed' ? value : mode === 'minimum' ? Math.max(value, size * 1.2) : size * (value / 100);
+      const contentWidth = line.fragments.reduce((sum, fragment) => sum + fragment.width, 0);
+      const lineAvailable = available - line.offset;
+      let start = paragraph.indentLeft + line.offset;
+      let extraPerSpace = 0;
+      if (paragraph.align === 'center') start += (lineAvailable - contentWidth) / 2;
+      else if (paragraph.align === 'right') start += lineAvailable - contentWidth;
+      else if (paragraph.align === 'justify' && !line.last) {
+        const spaces = line.fragments.filter(fragment => fragment.isSpace && !fragment.isTab).length;
+        if (spaces > 0) extraPerSpace = Math.max(0, lineAvailable - contentWidth) / spaces;
+      }
+      items.push({
+        height: Math.max(height, size),
+        pageBreakBefore: index === 0 && paragraph.pageBreakBefore,
+        draw: (x, y) => {
+          const baseline = y + size * ASCENT;
+          let cursor = x + start;
+          for (const fragment of line.fragments) {
+            if (fragment.text && !fragment.isSpace) this.drawText(fragment, cursor, baseline);
+            else if (fragment.isSpace && !fragment.isTab && (fragment.style.underline || fragment.style.strike)) {
+              this.drawDecorations(fragment.style, cursor, baseline, fragment.width + extraPerSpace);
+            }
+            cursor += fragment.width + (fragment.isSpace && !fragment.isTab ? extraPerSpace : 0);
+          }
+        },
+      });
+    });
+    if (paragraph.pageBreakBefore && items[0]?.isGap) items[0].pageBreakBefore = true;
+    if (paragraph.spaceAfter > 0) items.push({ height: paragraph.spaceAfter, draw: () => {}, isGap: true });
+    return items;
+  }
+
+  private drawText(fragment: Fragment, x: number, baseline: number) {
+    const { pdf } = this;
+    const { style } = fragment;
+    this.applyStyle(style);
+    pdf.setTextColor(...parseColor(style.color));
+    if (style.bold && !this.hasBold) {
+      // Without a bold face, stroke the glyph outlines to thicken them
+      pdf.setDrawColor(...parseColor(style.color));
+      pdf.setLineWidth(style.fontSize * 0.03);
+      pdf.text(fragment.text, x, baseline, { renderingMode: 'fillThenStroke' });
+    } else {
+      pdf.text(fragment.text, x, baseline);
+    }
+    this.drawDecorations(style, x, baseline, fragment.width);
+  }
+
+  private drawDecorations(style: TextStyle, x: number, baseline: number, width: number) {
+    if (!style.underline && !style.strike) return;
+    const { pdf } = this;
+    pdf.setDrawColor(...parseColor(style.color));
+    pdf.setLineWidth(Math.max(style.fontSize * 0.05, 0.3));
+    if (style.underline) pdf.line(x, baseline + style.fontSize * 0.12, x + width, baseline + style.fontSize * 0.12);
+    if (style.strike) pdf.line(x, baseline - style.fontSize * 0.3, x + width, baseline - style.fontSize * 0.3);
+  }
+
+  private columnWidths(table: TableBlock, width: number): number[] {
+    const widths: (number | undefined)[] = new Array(table.cols).fill(undefined);
+    for (const cell of table.cells) {
+      if (cell.colSpan === 1 && cell.width && cell.col < table.cols) widths[cell.col] = Math.max(widths[cell.col] ?? 0, cell.width);
+    }
+    for (const cell of table.cells) {
+      if (cell.colSpan <= 1 || !cell.width) continue;
+      const span = widths.slice(cell.col, cell.col + cell.colSpan);
+      const unknown = span.filter(value => value === undefined).length;
+      const known = span.reduce<number>((sum, value) => sum + (value ?? 0), 0);
+      if (unknown > 0 && cell.width > known) {
+        for (let col = cell.col; col < Math.min(cell.col + cell.colSpan, table.cols); col++) {
+          if (widths[col] === undefined) widths[col] = (cell.width - known) / unknown;
+        }
+      }
+    }
+    const known = widths.reduce<number>((sum, value) => sum + (value ?? 0), 0);
+    const unknown = widths.filter(value => value === undefined).length;
+    const fallback = unknown > 0 ? Math.max((width - known) / unknown, 20) : 0;
+    const resolved = widths.map(value => value ?? fallback);
+    const total = resolved.reduce((sum, value) => sum + value, 0);
+    return total > width ? resolved.map(value => (value * width) / total) : resolved;
+  }
+
+  private tableItems(table: TableBlock, width: number): FlowItem[] {
+    if (table.rows === 0 || table.cols === 0) return [];
+    const colWidths = this.columnWidths(table, width);
+    const colX = colWidths.reduce<number[]>((xs, w) => [...xs, xs[xs.length - 1] + w], [0]);
+    const cells = table.cells
+      .filter(cell => cell.row < table.rows && cell.col < table.cols)
+      .map(cell => {
+        const lastCol = Math.min(cell.col + cell.colSpan, table.cols);
+        const cellWidth = colX[lastCol] - colX[cell.col];
+        const content = this.blockItems(cell.blocks, Math.max(cellWidth - cell.padding.left - cell.padding.right, 4));
+        const contentHeight = content.reduce((sum, item) => sum + item.height, 0) + cell.padding.top + cell.padding.bottom;
+        return { cell, width: cellWidth, content, contentHeight, lastRow: Math.min(cell.row + cell.rowSpan, table.rows) - 1 };
+      });
+
+    const rowHeights = new Array(table.rows).fill(0);
+    for (const entry of cells) {
+      if (entry.lastRow === entry.cell.row) {
+        rowHeights[entry.cell.row] = Math.max(rowHeights[entry.cell.row], entry.contentHeight, entry.cell.height ?? 0);
+      }
+    }
+    for (const entry of cells) {
+      if (entry.lastRow === entry.cell.row) continue;
+      const needed = Math.max(entry.contentHeight, entry.cell.height ?? 0);
+      const current = rowHeights.slice(entry.cell.row, entry.lastRow + 1).reduce((sum, h) => sum + h, 0);
+      if (needed > current) rowHeights[entry.lastRow] += needed - current;
+    }
+
+    // Rows joined by vertical spans are kept on one page
+    const items: FlowItem[] = [];
+    for (let start = 0; start < table.rows; ) {
+      let end = start;
+      for (let changed = true; changed; ) {
+        changed = false;
+        for (const entry of cells) {
+          if (entry.cell.row >= start && entry.cell.row <= end && entry.lastRow > end) {
+            end = entry.lastRow;
+            changed = true;
+          }
+        }
+      }
+      const groupStart = start;
+      const groupCells = cells.filter(entry => entry.cell.row >= groupStart && entry.cell.row <= end);
+      const rowY = rowHeights.slice(groupStart, end + 2).reduce<number[]>((ys, h) => [...ys, ys[ys.length - 1] + h], [0]);
+      items.push({
+        height: rowY[end - groupStart + 1],
+        pageBreakBefore: groupStart === 0 && table.pageBreakBefore,
+        draw: (x, y) => {
+          for (const entry of groupCells) {
+            const { cell } = entry;
+            const cellX = x + colX[cell.col];
+            const cellY = y + rowY[cell.row - groupStart];
+            const cellHeight = rowY[entry.lastRow - groupStart + 1] - rowY[cell.row - groupStart];
+            this.drawCellFrame(cell, cellX, cellY, entry.width, cellHeight);
+            const slack = cellHeight - entry.contentHeight;
+            let contentY = cellY + cell.padding.top + (cell.verticalAlign === 'middle' ? slack / 2 : cell.verticalAlign === 'bottom' ? slack : 0);
+            for (const item of entry.content) {
+              item.draw(cellX + cell.padding.left, contentY);
+              contentY += item.height;
+            }
+          }
+        },
+      });
+      start = end + 1;
+    }
+    return items;
+  }
+
+  private drawCellFrame(cell: TableCell, x: number, y: number, width: number, height: number) {
+    const { pdf } = this;
+    if (cell.background) {
+      pdf.setFillColor(...parseColor(cell.background));
+      pdf.rect(x, y, width, height, 'F');
+    }
+    const sides: [CellBorder | null, number, number, number, number][] = [
+      [cell.borders.top, x, y, x + width, y],
+      [cell.borders.right, x + width, y, x + width, y + height],
+      [cell.borders.bottom, x, y + height, x + width, y + height],
+      [cell.borders.left, x, y, x, y + height],
+    ];
+    for (const [border, x1, y1, x2, y2] of sides) {
+      if (!border || border.width <= 0) continue;
+      pdf.setDrawColor(...parseColor(border.color));
+      pdf.setLineWidth(border.width);
+      pdf.line(x1, y1, x2, y2);
+    }
+  }
+
+  blockItems(blocks: DocumentBlock[], width: number): FlowItem[] {
+    return blocks.flatMap(block => (block.type === 'table' ? this.tableItems(block, width) : this.paragraphItems(block, width)));
+  }
+}
+
+/**
+ * Lay the document out on pages of the given geometry and return the PDF.
+ */
+export function renderFlowDocument(doc: FlowDocument, fonts: LayoutFonts, page: PageSetup): Blob {
+  const pdf = new jsPDF({
+    unit: 'pt',
+    format: [page.width, page.height],
+    orientation: page.width > page.height ? 'landscape' : 'portrait',
+  });
+  const layouter = new Layouter(pdf, fonts);
+  const contentWidth = page.width - page.margins.left - page.margins.right;
+  const bottom = page.height - page.margins.bottom;
+  let y = page.margins.top;
+  let pageEmpty = true;
+
+  for (const item of layouter.blockItems(doc.blocks, contentWidth)) {
+    if (!pageEmpty && (item.pageBreakBefore || y + item.height > bottom)) {
+      pdf.addPage([page.width, page.height], page.width > page.height ? 'landscape' : 'portrait');
+      y = page.margins.top;
+      pageEmpty = true;
+    }
+    if (item.isGap && pageEmpty) continue;
+    item.draw(page.margins.left, y);
+    y += item.height;
+    pageEmpty = false;
+  }
+
+  if (doc.title) pdf.setProperties({ title: doc.title });
+  return pdf.output('blob');
+}
@@ -0,0 +1,635 @@
+// Hangul Word Processor documents (HWP 5.0 binary and HWPX)
+// HWP 5.0 is a compound file whose DocInfo and BodyText/SectionN streams hold
+// raw-deflated tag records; HWPX is a zip of OWPML XML parts. Both are read
+// into the FlowDocument model: paragraphs with character and paragraph
+// shapes, tables with spans, borders and fills, and the first page setup.
+// Headers, footers, footnotes, drawing objects and images are skipped.
+
+import JSZip from 'jszip';
+import { CompoundFile, isCompoundFile } from './cfb';
+import {
+  CellBorder,
+  DEFAULT_BORDER,
+  DEFAULT_TEXT_STYLE,
+  DocumentBlock,
+  FlowDocument,
+  PageSetup,
+  ParagraphBlock,
+  TableBlock,
+  TableCell,
+  TextRun,
+  TextStyle,
+} from './documentLayout';
+
+export class HWPFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HWPFormatError';
+  }
+}
+
+type ParagraphFormat = Omit<ParagraphBlock, 'type' | 'runs' | 'pageBreakBefore'>;
+
+interface BorderFill {
+  borders: TableCell['borders'];
+  background?: string;
+}
+
+const DEFAULT_FORMAT: ParagraphFormat = {
+  align: 'justify',
+  indentLeft: 0,
+  indentRight: 0,
+  firstLineIndent: 0,
+  spaceBefore: 0,
+  spaceAfter: 0,
+  lineSpacing: { mode: 'percent', value: 160 },
+};
+
+const HWP_SIGNATURE = 'HWP Document File';
+
+// Record tags (HWPTAG_BEGIN = 0x10)
+const TAG_BORDER_FILL = 0x14;
+const TAG_CHAR_SHAPE = 0x15;
+const TAG_PARA_SHAPE = 0x19;
+const TAG_PARA_HEADER = 0x42;
+const TAG_PARA_TEXT = 0x43;
+const TAG_PARA_CHAR_SHAPE = 0x44;
+const TAG_CTRL_HEADER = 0x47;
+const TAG_LIST_HEADER = 0x48;
+const TAG_PAGE_DEF = 0x49;
+const TAG_TABLE = 0x4d;
+
+// Border widths in millimetres, indexed by the stored width code
+const BORDER_WIDTHS_MM = [0.1, 0.12, 0.15, 0.2, 0.25, 0.3, 0.4, 0.5, 0.6, 0.7, 1.0, 1.5, 2.0, 3.0, 4.0, 5.0];
+const MM_TO_PT = 72 / 25.4;
+
+// HWPUNIT is 1/7200 inch; paragraph margins are stored doubled
+const hwpUnitToPt = (value: number) => value / 100;
+const doubledUnitToPt = (value: number) => value / 200;
+
+const ALIGNMENTS: ParagraphBlock['align'][] = ['justify', 'left', 'right', 'center', 'justify', 'justify'];
+const VERTICAL_ALIGNMENTS: TableCell['verticalAlign'][] = ['top', 'middle', 'bottom'];
+
+// ---------------------------------------------------------------------------
+// HWP 5.0 binary
+
+interface HWPRecord {
+  tag: number;
+  level: number;
+  data: Uint8Array;
+  children: HWPRecord[];
+}
+
+// COLORREF 0x00BBGGRR; a non-zero high byte marks "no colour"
+function colorRef(view: DataView, offset: number): string | undefined {
+  if (offset + 4 > view.byteLength) return undefined;
+  const value = view.getUint32(offset, true);
+  if (value >>> 24) return undefined;
+  const hex = (n: number) => n.toString(16).padStart(2, '0');
+  return `#${hex(value & 0xff)}${hex((value >> 8) & 0xff)}${hex((value >> 16) & 0xff)}`;
+}
+
+function dataView(data: Uint8Array): DataView {
+  return new DataView(data.buffer, data.byteOffset, data.byteLength);
+}
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const inflate = async (format: CompressionFormat) => {
+    const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream(format));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  };
+  try {
+    return await inflate('deflate-raw');
+  } catch {
+    // A few writers add a zlib header
+    return inflate('deflate');
+  }
+}
+
+// Flat record list to a tree: each record owns the following records one level deeper
+function parseRecords(data: Uint8Array): HWPRecord[] {
+  const view = dataView(data);
+  const roots: HWPRecord[] = [];
+  const stack: HWPRecord[] = [];
+  let offset = 0;
+  while (offset + 4 <= data.length) {
+    const header = view.getUint32(offset, true);
+    offset += 4;
+    let size = header >>> 20;
+    if (size === 0xfff) {
+      if (offset + 4 > data.length) break;
+      size = view.getUint32(offset, true);
+      offset += 4;
+    }
+    if (offset + size > data.length) throw new HWPFormatError('Record runs past the end of the stream');
+    const record: HWPRecord = { tag: header & 0x3ff, level: (header >>> 10) & 0x3ff, data: data.subarray(offset, offset + size), children: [] };
+    offset += size;
+    while (stack.length > 0 && stack[stack.length - 1].level >= record.level) stack.pop();
+    if (stack.length > 0) stack[stack.length - 1].children.push(record);
+    else roots.push(record);
+    stack.push(record);
+  }
+  return roots;
+}
+
+function readCharShape(data: Uint8Array): TextStyle {
+  const view = dataView(data);
+  if (data.length < 56) return DEFAULT_TEXT_STYLE;
+  const properties = view.getUint32(46, true);
+  return {
+    fontSize: Math.max(view.getInt32(42, true) / 100, 1),
+    italic: (properties & 1) !== 0,
+    bold: (properties & 2) !== 0,
+    underline: ((properties >> 2) & 3) === 1,
+    strike: ((properties >> 18) & 7) !== 0,
+    color: colorRef(view, 52) ?? '#000000',
+  };
+}
+
+function readParaShape(data: Uint8Array): ParagraphFormat {
+  if (data.length < 28) return DEFAULT_FORMAT;
+  const view = dataView(data);
+  const properties = view.getUint32(0, true);
+  const left = doubledUnitToPt(view.getInt32(4, true));
+  const indent = doubledUnitToPt(view.getInt32(12, true));
+  // Documents from 5.0.2.5 on store the line spacing kind and value at the end
+  const [kind, value] = data.length >= 54
+    ? [view.getUint32(46, true) & 0x1f, view.getUint32(50, true)]
+    : [properties & 3, view.getInt32(24, true)];
+  const lineSpacing: ParagraphFormat['lineSpacing'] =
+    kind === 1 ? { mode: 'fixed', value: doubledUnitToPt(value) }
+      : kind === 3 ? { mode: 'minimum', value: doubledUnitToPt(value) }
+        : { mode: 'percent', value: kind === 0 && value > 0 ? value : 160 };
+  return {
+    align: ALIGNMENTS[(properties >> 2) & 7] ?? 'justify',
+    // A negative indent hangs the following lines, so shift the whole paragraph
+    indentLeft: left + Math.max(-indent, 0),
+    indentRight: doubledUnitToPt(view.getInt32(8, true)),
+    firstLineIndent: indent,
+    spaceBefore: doubledUnitToPt(view.getInt32(16, true)),
+    spaceAfter: doubledUnitToPt(view.getInt32(20, true)),
+    lineSpacing,
+  };
+}
+
+function readBorderFill(data: Uint8Array): BorderFill {
+  const view = dataView(data);
+  const border = (index: number): CellBorder | null => {
+    const offset = 2 + index * 6;
+    if (offset + 6 > data.length || data[offset] === 0) return null;
+    return {
+      width: (BORDER_WIDTHS_MM[data[offset + 1]] ?? 0.12) * MM_TO_PT,
+      color: colorRef(view, offset + 2) ?? '#000000',
+    };
+  };
+  // Diagonal border follows the four sides, then the fill type
+  const fillType = data.length >= 36 ? view.getUint32(32, true) : 0;
+  return {
+    borders: { left: border(0), right: border(1), top: border(2), bottom: border(3) },
+    background: fillType & 1 ? colorRef(view, 36) : undefined,
+  };
+}
+
+function ctrlId(record: HWPRecord): string {
+  if (record.data.length < 4) return '';
+  const id = dataView(record.data).getUint32(0, true);
+  return String.fromCharCode((id >>> 24) & 0xff, (id >>> 16) & 0xff, (id >>> 8) & 0xff, id & 0xff);
+}
+
+// Control characters occupying eight WCHARs (inline and extended controls)
+const WIDE_CONTROLS = new Set([1, 2, 3, 4, 5, 6, 7, 8, 9, 11, 12, 14, 15, 16, 17, 18, 19, 20, 21, 22, 23]);
+
+class HWPBodyReader {
+  page?: PageSetup;
+
+  constructor(
+    private readonly charShapes: TextStyle[],
+    private readonly paraShapes: ParagraphFormat[],
+    private readonly borderFills: BorderFill[]
+  ) {}
+
+  readParagraphs(records: HWPRecord[]): DocumentBlock[] {
+    return records.filter(record => record.tag === TAG_PARA_HEADER).flatMap(record => this.readParagraph(record));
+  }
+
+  private readParagraph(record: HWPRecord): DocumentBlock[] {
+    const header = dataView(record.data);
+    const paraShapeId = record.data.length >= 10 ? header.getUint16(8, true) : 0;
+    const breakType = record.data.length >= 12 ? record.data[11] : 0;
+    const textRecord = record.children.find(child => child.tag === TAG_PARA_TEXT);
+    const shapeRecord = record.children.find(child => child.tag === TAG_PARA_CHAR_SHAPE);
+
+    // (position, char shape id) pairs sorted by position
+    const shapeChanges: [number, number][] = [];
+    if (shapeRecord) {
+      const view = dataView(shapeRecord.data);
+      for (let offset = 0; offset + 8 <= shapeRecord.data.length; offset += 8) {
+        shapeChanges.push([view.getUint32(offset, true), view.getUint32(offset + 4, true)]);
+      }
+    }
+    const styleAt = (position: number) => {
+      let id = shapeChanges[0]?.[1] ?? 0;
+      for (const [start, shape] of shapeChanges) {
+        if (start > position) break;
+        id = shape;
+      }
+      return this.charShapes[id] ?? DEFAULT_TEXT_STYLE;
+    };
+
+    const runs: TextRun[] = [];
+    const append = (text: string, position: number) => {
+      const style = styleAt(position);
+      const last = runs[runs.length - 1];
+      if (last && last.style === style) last.text += text;
+      else runs.push({ text, style });
+    };
+    if (textRecord) {
+      const view = dataView(textRecord.data);
+      const length = textRecord.data.length >> 1;
+      for (let i = 0; i < length; ) {
+        const code = view.getUint16(i * 2, true);
+        if (code >= 32) {
+          append(String.fromCharCode(code), i);
+          i++;
+        } else if (WIDE_CONTROLS.has(code)) {
+          if (code === 9) append('\t', i);
+          i += 8;
+        } else {
+          if (code === 10) append('\n', i);
+          else if (code === 24) append('-', i);
+          else if (code === 30 || code === 31) append(' ', i);
+          i++;
+        }
+      }
+    }
+
+    const blocks: DocumentBlock[] = [];
+    const tables: TableBlock[] = [];
+    for (const control of record.children.filter(child => child.tag === TAG_CTRL_HEADER)) {
+      const id = ctrlId(control);
+      if (id === 'tbl ') {
+        const table = this.readTable(control);
+        if (table) tables.push(table);
+      } else if (id === 'secd' && !this.page) {
+        const pageDef = control.children.find(child => child.tag === TAG_PAGE_DEF);
+        if (pageDef) this.page = this.readPageDef(pageDef.data);
+      }
+    }
+
+    const hasText = runs.some(run => run.text.trim() !== '');
+    if (hasText || tables.length === 0) {
+      blocks.push({
+        type: 'paragraph',
+        ...(this.paraShapes[paraShapeId] ?? DEFAULT_FORMAT),
+        runs: runs.length > 0 ? runs : [{ text: '', style: styleAt(0) }],
+      });
+    }
+    blocks.push(...tables);
+    // Section (0x01) and page (0x04) breaks start a new page
+    if (breakType & 0x05 && blocks.length > 0) blocks[0].pageBreakBefore = true;
+    return blocks;
+  }
+
+  private readPageDef(data: Uint8Array): PageSetup | undefined {
+    if (data.length < 40) return undefined;
+    const view = dataView(data);
+    const value = (index: number) => hwpUnitToPt(view.getUint32(index * 4, true));
+    let [width, height] = [value(0), value(1)];
+    if (view.getUint32(36, true) & 1) [width, height] = [height, width];
+    if (width <= 0 || height <= 0) return undefined;
+    return {
+      width,
+      height,
+      margins: { left: value(2), right: value(3), top: value(4) + value(6), bottom: value(5) + value(7) },
+    };
+  }
+
+  private readTable(control: HWPRecord): TableBlock | null {
+    const tableRecord = control.children.find(child => child.tag === TAG_TABLE);
+    if (!tableRecord || tableRecord.data.length < 8) return null;
+    const view = dataView(tableRecord.data);
+    const table: TableBlock = { type: 'table', rows: view.getUint16(4, true), cols: view.getUint16(6, true), cells: [] };
+
+    const children = control.children;
+    for (let i = 0; i < children.length; i++) {
+      const list = children[i];
+      if (list.tag !== TAG_LIST_HEADER || list.data.length < 34) continue;
+      const cellView = dataView(list.data);
+      const paragraphCount = cellView.getUint16(0, true);
+      // Cell paragraphs are either nested under the list header or follow it as siblings
+      let paragraphs = list.children.filter(child => child.tag === TAG_PARA_HEADER);
+      if (paragraphs.length === 0) {
+        paragraphs = [];
+        while (paragraphs.length < paragraphCount && children[i + 1]?.tag === TAG_PARA_HEADER) paragraphs.push(children[++i]);
+      }
+      const fill = this.borderFills[cellView.getUint16(32, true) - 1];
+      table.cells.push({
+        col: cellView.getUint16(8, true),
+        row: cellView.getUint16(10, true),
+        colSpan: Math.max(cellView.getUint16(12, true), 1),
+        rowSpan: Math.max(cellView.getUint16(14, true), 1),
+        width: hwpUnitToPt(cellView.getUint32(16, true)),
+        height: hwpUnitToPt(cellView.getUint32(20, true)),
+        padding: {
+          left: hwpUnitToPt(cellView.getUint16(24, true)),
+          right: hwpUnitToPt(cellView.getUint16(26, true)),
+          top: hwpUnitToPt(cellView.getUint16(28, true)),
+          bottom: hwpUnitToPt(cellView.getUint16(30, true)),
+        },
+        borders: fill?.borders ?? { top: DEFAULT_BORDER, right: DEFAULT_BORDER, bottom: DEFAULT_BORDER, left: DEFAULT_BORDER },
+        background: fill?.background,
+        verticalAlign: VERTICAL_ALIGNMENTS[(cellView.getUint32(4, true) >> 5) & 3] ?? 'top',
+        blocks: this.readParagraphs(paragraphs),
+      });
+    }
+    return table;
+  }
+}
+
+async function parseHWP5(bytes: Uint8Array): Promise<FlowDocument> {
+  const file = new CompoundFile(bytes);
+  const fileHeader = file.read('FileHeader');
+  if (!fileHeader || fileHeader.length < 40 || !new TextDecoder('ascii').decode(fileHeader.subarray(0, 32)).startsWith(HWP_SIGNATURE)) {
+    throw new HWPFormatError('Not an HWP document (missing FileHeader)');
+  }
+  const headerView = dataView(fileHeader);
+  const major = headerView.getUint32(32, true) >>> 24;
+  const properties = headerView.getUint32(36, true);
+  if (major !== 5) throw new HWPFormatError(`Unsupported HWP version ${major}`);
+  if (properties & 2) throw new HWPFormatError('Password-protected HWP documents are not supported');
+  if (properties & 4) throw new HWPFormatError('Distribution-protected HWP documents cannot be converted');
+  const compressed = (properties & 1) !== 0;
+  const readStream = async (path: string) => {
+    const data = file.read(path);
+    if (!data) return null;
+    return compressed ? inflateRaw(data) : data;
+  };
+
+  const docInfo = await readStream('DocInfo');
+  if (!docInfo) throw new HWPFormatError('Missing DocInfo stream');
+  // DocInfo records are flat; shape IDs are their order of appearance
+  const flatten = (records: HWPRecord[]): HWPRecord[] => records.flatMap(record => [record, ...flatten(record.children)]);
+  const docRecords = flatten(parseRecords(docInfo));
+  const reader = new HWPBodyReader(
+    docRecords.filter(record => record.tag === TAG_CHAR_SHAPE).map(record => readCharShape(record.data)),
+    docRecords.filter(record => record.tag === TAG_PARA_SHAPE).map(record => readParaShape(record.data)),
+    docRecords.filter(record => record.tag === TAG_BORDER_FILL).map(record => readBorderFill(record.data))
+  );
+
+  const blocks: DocumentBlock[] = [];
+  for (let index = 0; ; index++) {
+    const section = await readStream(`BodyText/Section${index}`);
+    if (!section) break;
+    const sectionBlocks = reader.readParagraphs(parseRecords(section));
+    if (index > 0 && sectionBlocks.length > 0) sectionBlocks[0].pageBreakBefore = true;
+    blocks.push(...sectionBlocks);
+  }
+  if (blocks.length === 0) throw new HWPFormatError('The document has no body text');
+  return { page: reader.page, blocks };
+}
+
+// ---------------------------------------------------------------------------
+// HWPX (OWPML)
+
+function childElements(parent: Element, localName?: string): Element[] {
+  return Array.from(parent.childNodes).filter(
+    (node): node is Element => node.nodeType === 1 && (!localName || (node as Element).localName === localName)
+  );
+}
+
+function firstDescendant(parent: Element, localName: string): Element | undefined {
+  return parent.getElementsByTagNameNS('*', localName)[0];
+}
+
+function numberAttribute(element: Element | undefined, name: string, fallback = 0): number {
+  const value = parseFloat(element?.getAttribute(name) ?? '');
+  return Number.isFinite(value) ? value : fallback;
+}
+
+function parseXml(text: string): Document {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new HWPFormatError('Malformed HWPX XML part');
+  return doc;
+}
+
+function hwpxColor(value: string | null): string | undefined {
+  return value && /^#[0-9a-f]{6}$/i.test(value) ? value : undefined;
+}
+
+function readHwpxHeader(doc: Document) {
+  const charShapes = new Map<string, TextStyle>();
+  for (const charPr of Array.from(doc.getElementsByTagNameNS('*', 'charPr'))) {
+    const underline = childElements(charPr, 'underline')[0];
+    const strikeout = childElements(charPr, 'strikeout')[0];
+    charShapes.set(charPr.getAttribute('id') ?? '', {
+      fontSize: Math.max(numberAttribute(charPr, 'height', 1000) / 100, 1),
+      bold: childElements(charPr, 'bold').length > 0,
+      italic: childElements(charPr, 'italic').length > 0,
+      underline: !!underline && (underline.getAttribute('type') ?? 'NONE') === 'BOTTOM',
+      strike: !!strikeout && !['NONE', '3D'].includes(strikeout.getAttribute('shape') ?? 'NONE'),
+      color: hwpxColor(charPr.getAttribute('textColor')) ?? '#000000',
+    });
+  }
+
+  const paraShapes = new Map<string, ParagraphFormat>();
+  const alignments: Record<string, ParagraphBlock['align']> = { LEFT: 'left', RIGHT: 'right', CENTER: 'center', JUSTIFY: 'justify', DISTRIBUTE: 'justify', DISTRIBUTE_SPACE: 'justify' };
+  for (const paraPr of Array.from(doc.getElementsByTagNameNS('*', 'paraPr'))) {
+    // Margins may sit in a <hp:switch>; the <hp:default> branch carries HWPUNIT values
+    const fallback = firstDescendant(paraPr, 'default');
+    const scope = fallback && firstDescendant(fallback, 'margin') ? fallback : paraPr;
+    const margin = firstDescendant(scope, 'margin');
+    const marginValue = (name: string) => doubledUnitToPt(numberAttribute(margin && childElements(margin, name)[0], 'value'));
+    const lineSpacing = firstDescendant(scope, 'lineSpacing') ?? firstDescendant(paraPr, 'lineSpacing');
+    const spacingType = lineSpacing?.getAttribute('type') ?? 'PERCENT';
+    const spacingValue = numberAttribute(lineSpacing, 'value', 160);
+    const indent = marginValue('intent');
+    paraShapes.set(paraPr.getAttribute('id') ?? '', {
+      align: alignments[firstDescendant(paraPr, 'align')?.getAttribute('horizontal') ?? ''] ?? 'justify',
+      indentLeft: marginValue('left') + Math.max(-indent, 0),
+      indentRight: marginValue('right'),
+      firstLineIndent: indent,
+      spaceBefore: marginValue('prev'),
+      spaceAfter: marginValue('next'),
+      lineSpacing: spacingType === 'FIXED' ? { mode: 'fixed', value: doubledUnitToPt(spacingValue) }
+        : spacingType === 'AT_LEAST' ? { mode: 'minimum', value: doubledUnitToPt(spacingValue) }
+          : { mode: 'percent', value: spacingType === 'PERCENT' && spacingValue > 0 ? spacingValue : 160 },
+    });
+  }
+
+  const borderFills = new Map<string, BorderFill>();
+  for (const borderFill of Array.from(doc.getElementsByTagNameNS('*', 'borderFill'))) {
+    const border = (name: string): CellBorder | null => {
+      const element = childElements(borderFill, name)[0];
+      const type = element?.getAttribute('type') ?? 'NONE';
+      if (!element || type === 'NONE') return null;
+      return { width: numberAttribute(element, 'width', 0.12) * MM_TO_PT, color: hwpxColor(element.getAttribute('color')) ?? '#000000' };
+    };
+    borderFills.set(borderFill.getAttribute('id') ?? '', {
+      borders: { left: border('leftBorder'), right: border('rightBorder'), top: border('topBorder'), bottom: border('bottomBorder') },
+      background: hwpxColor(firstDescendant(borderFill, 'winBrush')?.getAttribute('faceColor') ?? null),
+    });
+  }
+  return { charShapes, paraShapes, borderFills };
+}
+
+class HWPXBodyReader {
+  page?: PageSetup;
+
+  constructor(private readonly header: ReturnType<typeof readHwpxHeader>) {}
+
+  readParagraphs(parent: Element): DocumentBlock[] {
+    return childElements(parent, 'p').flatMap(p => this.readParagraph(p));
+  }
+
+  private readParagraph(p: Element): DocumentBlock[] {
+    const runs: TextRun[] = [];
+    const tables: TableBlock[] = [];
+    let baseStyle: TextStyle | undefined;
+    for (const run of childElements(p, 'run')) {
+      const style = this.header.charShapes.get(run.getAttribute('charPrIDRef') ?? '') ?? DEFAULT_TEXT_STYLE;
+      baseStyle ??= style;
+      let text = '';
+      for (const child of childElements(run)) {
+        if (child.localName === 't') text += this.readText(child);
+        else if (child.localName === 'tbl') tables.push(this.readTable(child));
+        else if (child.localName === 'secPr' && !this.page) this.page = this.readPage(child);
+        else if (child.localName === 'ctrl') {
+          const secPr = firstDescendant(child, 'secPr');
+          if (secPr && !this.page) this.page = this.readPage(secPr);
+        }
+      }
+      if (!text) continue;
+      const last = runs[runs.length - 1];
+      if (last && last.style === style) last.text += text;
+      else runs.push({ text, style });
+    }
+
+    const blocks: DocumentBlock[] = [];
+    if (runs.some(run => run.text.trim() !== '') || tables.length === 0) {
+      blocks.push({
+        type: 'paragraph',
+        ...(this.header.paraShapes.get(p.getAttribute('paraPrIDRef') ?? '') ?? DEFAULT_FORMAT),
+        runs: runs.length > 0 ? runs : [{ text: '', style: baseStyle ?? DEFAULT_TEXT_STYLE }],
+      });
+    }
+    blocks.push(...tables);
+    if ((p.getAttribute('pageBreak') === '1' || p.getAttribute('pageBreak') === 'true') && blocks.length > 0) blocks[0].pageBreakBefore = true;
+    return blocks;
+  }
+
+  private readText(t: Element): string {
+    let text = '';
+    for (const node of Array.from(t.childNodes)) {
+      if (node.nodeType === 3) text += node.nodeValue ?? '';
+      else if (node.nodeType === 1) {
+        const name = (node as Element).localName;
+        if (name === 'tab') text += '\t';
+        else if (name === 'lineBreak') text += '\n';
+        else if (name === 'nbSpace' || name === 'fwSpace') text += ' ';
+        else if (name === 'hyphen') text += '-';
+      }
+    }
+    return text;
+  }
+
+  private readPage(secPr: Element): PageSetup | undefined {
+    const pagePr = firstDescendant(secPr, 'pagePr');
+    if (!pagePr) return undefined;
+    let width = hwpUnitToPt(numberAttribute(pagePr, 'width'));
+    let height = hwpUnitToPt(numberAttribute(pagePr, 'height'));
+    if (width <= 0 || height <= 0) return undefined;
+    // OWPML stores portrait dimensions; NARROWLY turns the sheet sideways
+    if (pagePr.getAttribute('landscape') === 'NARROWLY' && height > width) [width, height] = [height, width];
+    const margin = childElements(pagePr, 'margin')[0];
+    const value = (name: string) => hwpUnitToPt(numberAttribute(margin, name));
+    return {
+      width,
+      height,
+      margins: { left: value('left'), right: value('right'), top: value('top') + value('header'), bottom: value('bottom') + value('footer') },
+    };
+  }
+
+  private readTable(tbl: Element): TableBlock {
+    const table: TableBlock = { type: 'table', rows: numberAttribute(tbl, 'rowCnt'), cols: numberAttribute(tbl, 'colCnt'), cells: [] };
+    const verticalAlignments: Record<string, TableCell['verticalAlign']> = { TOP: 'top', CENTER: 'middle', BOTTOM: 'bottom' };
+    for (const tr of childElements(tbl, 'tr')) {
+      for (const tc of childElements(tr, 'tc')) {
+        const address = childElements(tc, 'cellAddr')[0];
+        const span = childElements(tc, 'cellSpan')[0];
+        const size = childElements(tc, 'cellSz')[0];
+        const margin = childElements(tc, 'cellMargin')[0];
+        const subList = childElements(tc, 'subList')[0];
+        const fill = this.header.borderFills.get(tc.getAttribute('borderFillIDRef') ?? '');
+        table.cells.push({
+          col: numberAttribute(address, 'colAddr'),
+          row: numberAttribute(address, 'rowAddr'),
+          colSpan: Math.max(numberAttribute(span, 'colSpan', 1), 1),
+          rowSpan: Math.max(numberAttribute(span, 'rowSpan', 1), 1),
+          width: hwpUnitToPt(numberAttribute(size, 'width')) || undefined,
+          height: hwpUnitToPt(numberAttribute(size, 'height')) || undefined,
+          padding: {
+            left: hwpUnitToPt(numberAttribute(margin, 'left', 510)),
+            right: hwpUnitToPt(numberAttribute(margin, 'right', 510)),
+            top: hwpUnitToPt(numberAttribute(margin, 'top', 141)),
+            bottom: hwpUnitToPt(numberAttribute(margin, 'bottom', 141)),
+          },
+          borders: fill?.borders ?? { top: DEFAULT_BORDER, right: DEFAULT_BORDER, bottom: DEFAULT_BORDER, left: DEFAULT_BORDER },
+          background: fill?.background,
+          verticalAlign: verticalAlignments[subList?.getAttribute('vertAlign') ?? ''] ?? 'top',
+          blocks: subList ? this.readParagraphs(subList) : [],
+        });
+      }
+    }
+    return table;
+  }
+}
+
+async function parseHWPX(bytes: Uint8Array): Promise<FlowDocument> {
+  const zip = await JSZip.loadAsync(bytes);
+  const headerFile = zip.file('Contents/header.xml');
+  if (!headerFile) throw new HWPFormatError('Not an HWPX document (missing Contents/header.xml)');
+  const header = readHwpxHeader(parseXml(await headerFile.async('text')));
+
+  // Section order comes from the package spine, falling back to the file names
+  let sectionPaths: string[] = [];
+  const manifestFile = zip.file('Contents/content.hpf');
+  const manifest = manifestFile ? parseXml(await manifestFile.async('text')) : null;
+  if (manifest) {
+    const items = new Map(Array.from(manifest.getElementsByTagNameNS('*', 'item')).map(item => [item.getAttribute('id') ?? '', item.getAttribute('href') ?? '']));
+    sectionPaths = Array.from(manifest.getElementsByTagNameNS('*', 'itemref'))
+      .map(ref => items.get(ref.getAttribute('idref') ?? '') ?? '')
+      .filter(href => /section\d+\.xml$/i.test(href))
+      .map(href => (href.startsWith('Contents/') ? href : `Contents/${href}`));
+  }
+  if (sectionPaths.length === 0) {
+    sectionPaths = Object.keys(zip.files)
+      .filter(name => /^Contents\/section\d+\.xml$/i.test(name))
+      .sort((a, b) => parseInt(a.replace(/\D/g, ''), 10) - parseInt(b.replace(/\D/g, ''), 10));
+  }
+
+  const reader = new HWPXBodyReader(header);
+  const blocks: DocumentBlock[] = [];
+  for (const [index, path] of sectionPaths.entries()) {
+    const file = zip.file(path);
+    if (!file) continue;
+    const sectionBlocks = reader.readParagraphs(parseXml(await file.async('text')).documentElement);
+    if (index > 0 && sectionBlocks.length > 0) sectionBlocks[0].pageBreakBefore = true;
+    blocks.push(...sectionBlocks);
+  }
+  if (blocks.length === 0) throw new HWPFormatError('The document has no body text');
+
+  const title = manifest && firstDescendant(manifest.documentElement, 'title')?.textContent?.trim();
+  return { title: title || undefined, page: reader.page, blocks };
+}
+
+/**
+ * Parse an HWP 5.0 (compound file) or HWPX (zip) document.
+ */
+export async function parseHWPDocument(bytes: Uint8Array): Promise<FlowDocument> {
+  if (isCompoundFile(bytes)) return parseHWP5(bytes);
+  if (bytes[0] === 0x50 && bytes[1] === 0x4b) return parseHWPX(bytes);
+  if (new TextDecoder('ascii').decode(bytes.subarray(0, 17)) === HWP_SIGNATURE) {
+    throw new HWPFormatError('HWP 3.0 documents are not supported; save the file as HWP 5.0 or HWPX');
+  }
+  throw new HWPFormatError('Not an HWP or HWPX document');
+}
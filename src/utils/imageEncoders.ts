@@ -0,0 +1,421 @@
+// Image file encoders
+// Writers for the formats canvas.toBlob cannot produce: browsers silently
+// return PNG for image/tiff, image/bmp, image/gif and image/x-icon. Also
+// detects formats by their leading bytes so callers can check that what they
+// are about to save really is what the extension says.
+
+import UTIF from 'utif';
+import { PixelBuffer } from './imageKernels';
+import { quantize } from './colorQuantization';
+
+export class ImageEncodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImageEncodeError';
+  }
+}
+
+export type TiffCompression = 'none' | 'lzw' | 'deflate';
+
+export interface TiffOptions {
+  compression?: TiffCompression;
+  dpi?: number;
+}
+
+export interface BmpOptions {
+  // 32-bit keeps the alpha channel; 24-bit is flattened onto white
+  bitDepth?: 24 | 32;
+}
+
+export interface GifOptions {
+  // Palette size, 2-256
+  colors?: number;
+  dither?: boolean;
+}
+
+export interface IconImage {
+  // Square image, 1-256 pixels a side
+  buffer: PixelBuffer;
+  // Stored as-is instead of a bitmap when given, the usual choice for 256px
+  png?: Uint8Array;
+}
+
+export const ICO_SIZES = [16, 24, 32, 48, 64, 128, 256];
+
+// 72 dpi
+const PIXELS_PER_METER = 2835;
+
+// Growable byte buffer
+class ByteWriter {
+  bytes = new Uint8Array(1024);
+  length = 0;
+
+  private reserve(extra: number) {
+    if (this.length + extra <= this.bytes.length) return;
+    const grown = new Uint8Array(Math.max(this.bytes.length * 2, this.length + extra));
+    grown.set(this.bytes.subarray(0, this.length));
+    this.bytes = grown;
+  }
+
+  byte(value: number) {
+    this.reserve(1);
+    this.bytes[this.length++] = value;
+  }
+
+  write(data: ArrayLike<number>) {
+    this.reserve(data.length);
+    this.bytes.set(data, this.length);
+    this.length += data.length;
+  }
+
+  result(): Uint8Array {
+    return this.bytes.slice(0, this.length);
+  }
+}
+
+/**
+ * LZW as GIF and TIFF use it. GIF packs codes LSB-first and widens the code
+ * once the table outgrows it; TIFF packs MSB-first and widens one code early.
+ */
+function lzwEncode(data: Uint8Array, minCodeSize: number, format: 'gif' | 'tiff'): Uint8Array {
+  const out = new ByteWriter();
+  const msbFirst = format === 'tiff';
+  const early = format === 'tiff' ? 1 : 0;
+  // TIFF readers widen to 13 bits if the table reaches 4095 entries
+  const tableLimit = format === 'tiff' ? 4094 : 4096;
+  const clearCode = 1 << minCodeSize;
+  const eoiCode = clearCode + 1;
+  let width = minCodeSize + 1;
+  let nextCode = eoiCode + 1;
+  let table = new Map<number, number>();
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  const emit = (code: number) => {
+    if (msbFirst) {
+      bitBuffer = ((bitBuffer << width) | code) & 0xffffff;
+      bitCount += width;
+      while (bitCount >= 8) {
+        out.byte((bitBuffer >>> (bitCount - 8)) & 0xff);
+        bitCount -= 8;
+      }
+    } else {
+      bitBuffer |= code << bitCount;
+      bitCount += width;
+      while (bitCount >= 8) {
+        out.byte(bitBuffer & 0xff);
+        bitBuffer >>>= 8;
+        bitCount -= 8;
+      }
+    }
+  };
+  // Widen when the reader's table, which trails ours by one entry, needs it
+  const widenFor = (tableSize: number) => {
+    if (tableSize + early > 1 << width && width < 12) width++;
+  };
+
+  emit(clearCode);
+  if (data.length > 0) {
+    let prefix = data[0];
+    for (let i = 1; i < data.length; i++) {
+      const key = prefix * 256 + data[i];
+      const code = table.get(key);
+      if (code !== undefined) {
+        prefix = code;
+        continue;
+      }
+      emit(prefix);
+      if (nextCode === tableLimit) {
+        emit(clearCode);
+        table = new Map();
+        width = minCodeSize + 1;
+        nextCode = eoiCode + 1;
+      } else {
+        table.set(key, nextCode++);
+        widenFor(nextCode);
+      }
+      prefix = data[i];
+    }
+    emit(prefix);
+    widenFor(nextCode + 1);
+  }
+  emit(eoiCode);
+  if (bitCount > 0) out.byte(msbFirst ? (bitBuffer << (8 - bitCount)) & 0xff : bitBuffer & 0xff);
+  return out.result();
+}
+
+async function zlibDeflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function hasTransparency(buffer: PixelBuffer): boolean {
+  for (let i = 3; i < buffer.data.length; i += 4) if (buffer.data[i] < 255) return true;
+  return false;
+}
+
+/**
+ * RGB or RGBA TIFF, depending on whether the image has any transparency.
+ * Compressed strips use horizontal differencing, which helps both LZW and
+ * Deflate on photographic content.
+ */
+export async function encodeTIFF(buffer: PixelBuffer, options: TiffOptions = {}): Promise<Uint8Array> {
+  const compression = options.compression ?? 'lzw';
+  const { data, width, height } = buffer;
+  const samples = hasTransparency(buffer) ? 4 : 3;
+  const rowBytes = width * samples;
+  // Strips of about 64 KB, but few enough to fit UTIF's fixed-size IFD buffer
+  const rowsPerStrip = Math.max(1, Math.min(height, Math.floor(65536 / rowBytes)), Math.ceil(height / 1024));
+
+  const strips: Uint8Array[] = [];
+  for (let top = 0; top < height; top += rowsPerStrip) {
+    const rows = Math.min(rowsPerStrip, height - top);
+    const strip = new Uint8Array(rows * rowBytes);
+    for (let y = 0; y < rows; y++) {
+      const row = y * rowBytes;
+      for (let x = 0; x < width; x++) {
+        const i = ((top + y) * width + x) * 4;
+        for (let s = 0; s < samples; s++) strip[row + x * samples + s] = data[i + s];
+      }
+      if (compression !== 'none') {
+        for (let j = rowBytes - 1; j >= samples; j--) strip[row + j] = (strip[row + j] - strip[row + j - samples]) & 0xff;
+      }
+    }
+    if (compression === 'lzw') strips.push(lzwEncode(strip, 8, 'tiff'));
+    else if (compression === 'deflate') strips.push(await zlibDeflate(strip));
+    else strips.push(strip);
+  }
+
+  // UTIF only knows the types of tags it writes itself
+  UTIF.ttypes[317] ??= 3;
+  const dpi = options.dpi ?? 72;
+  const ifd = (offsets: number[]) => ({
+    t256: [width],
+    t257: [height],
+    t258: new Array(samples).fill(8),
+    t259: [{ none: 1, lzw: 5, deflate: 8 }[compression]],
+    t262: [2],
+    t273: offsets,
+    t277: [samples],
+    t278: [rowsPerStrip],
+    t279: strips.map(strip => strip.length),
+    t282: [dpi],
+    t283: [dpi],
+    t284: [1],
+    t296: [2],
+    ...(compression !== 'none' ? { t317: [2] } : {}),
+    // Unassociated alpha, as canvas pixels are
+    ...(samples === 4 ? { t338: [2] } : {}),
+  });
+  // Offsets are fixed-size fields, so a first pass gives the header length
+  const headerLength = UTIF.encode([ifd(strips.map(() => 0))]).byteLength;
+  const offsets: number[] = [];
+  let offset = headerLength + (headerLength & 1);
+  for (const strip of strips) {
+    offsets.push(offset);
+    offset += strip.length;
+  }
+  const header = new Uint8Array(UTIF.encode([ifd(offsets)]));
+  const tiff = new Uint8Array(offset);
+  tiff.set(header);
+  strips.forEach((strip, index) => tiff.set(strip, offsets[index]));
+  return tiff;
+}
+
+// Bottom-up BGR(A) rows padded to four bytes, as BMP and ICO bitmaps store them
+function dibPixels(buffer: PixelBuffer, bytesPerPixel: 3 | 4): Uint8Array {
+  const { data, width, height } = buffer;
+  const stride = Math.ceil((width * bytesPerPixel) / 4) * 4;
+  const pixels = new Uint8Array(stride * height);
+  for (let y = 0; y < height; y++) {
+    const row = (height - 1 - y) * stride;
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const o = row + x * bytesPerPixel;
+      if (bytesPerPixel === 4) {
+        pixels[o] = data[i + 2];
+        pixels[o + 1] = data[i + 1];
+        pixels[o + 2] = data[i];
+        pixels[o + 3] = data[i + 3];
+      } else {
+        // Flatten onto white
+        const alpha = data[i + 3] / 255;
+        pixels[o] = Math.round(255 + (data[i + 2] - 255) * alpha);
+        pixels[o + 1] = Math.round(255 + (data[i + 1] - 255) * alpha);
+        pixels[o + 2] = Math.round(255 + (data[i] - 255) * alpha);
+      }
+    }
+  }
+  return pixels;
+}
+
+/** 24-bit BI_RGB or 32-bit BITMAPV4HEADER bitmap with an alpha mask. */
+export function encodeBMP(buffer: PixelBuffer, options: BmpOptions = {}): Uint8Array {
+  const bitDepth = options.bitDepth ?? 24;
+  const pixels = dibPixels(buffer, bitDepth === 32 ? 4 : 3);
+  const headerSize = bitDepth === 32 ? 108 : 40;
+  const offset = 14 + headerSize;
+  const bmp = new Uint8Array(offset + pixels.length);
+  const view = new DataView(bmp.buffer);
+  bmp[0] = 0x42;
+  bmp[1] = 0x4d;
+  view.setUint32(2, bmp.length, true);
+  view.setUint32(10, offset, true);
+  view.setUint32(14, headerSize, true);
+  view.setInt32(18, buffer.width, true);
+  view.setInt32(22, buffer.height, true);
+  view.setUint16(26, 1, true);
+  view.setUint16(28, bitDepth, true);
+  // BI_BITFIELDS for 32-bit, BI_RGB otherwise
+  view.setUint32(30, bitDepth === 32 ? 3 : 0, true);
+  view.setUint32(34, pixels.length, true);
+  view.setInt32(38, PIXELS_PER_METER, true);
+  view.setInt32(42, PIXELS_PER_METER, true);
+  if (bitDepth === 32) {
+    view.setUint32(54, 0x00ff0000, true);
+    view.setUint32(58, 0x0000ff00, true);
+    view.setUint32(62, 0x000000ff, true);
+    view.setUint32(66, 0xff000000, true);
+    // 'sRGB'
+    view.setUint32(70, 0x73524742, true);
+  }
+  bmp.set(pixels, offset);
+  return bmp;
+}
+
+/** Single-frame GIF89a with a quantized palette; pixels under half opacity become transparent. */
+export function encodeGIF(buffer: PixelBuffer, options: GifOptions = {}): Uint8Array {
+  const { width, height } = buffer;
+  if (width > 65535 || height > 65535) throw new ImageEncodeError('GIF images are limited to 65535 pixels a side');
+  const indexed = quantize(buffer, { colors: options.colors ?? 256, dither: options.dither ?? true, alpha: 'binary' });
+  const entries = indexed.palette.length / 4;
+  const tableBits = Math.max(1, Math.ceil(Math.log2(entries)));
+  const out = new ByteWriter();
+  const word = (value: number) => out.write([value & 0xff, value >> 8]);
+
+  out.write([0x47, 0x49, 0x46, 0x38, 0x39, 0x61]);
+  word(width);
+  word(height);
+  // Global color table, 8 bits of color resolution
+  out.write([0x80 | (7 << 4) | (tableBits - 1), 0, 0]);
+  for (let entry = 0; entry < 1 << tableBits; entry++) {
+    if (entry < entries) out.write(indexed.palette.subarray(entry * 4, entry * 4 + 3));
+    else out.write([0, 0, 0]);
+  }
+  if (indexed.transparentIndex >= 0) {
+    // Graphic control extension with the transparent index
+    out.write([0x21, 0xf9, 4, 0x01, 0, 0, indexed.transparentIndex, 0]);
+  }
+  out.byte(0x2c);
+  word(0);
+  word(0);
+  word(width);
+  word(height);
+  out.byte(0);
+
+  const minCodeSize = Math.max(2, tableBits);
+  const lzw = lzwEncode(indexed.indices, minCodeSize, 'gif');
+  out.byte(minCodeSize);
+  for (let i = 0; i < lzw.length; i += 255) {
+    const block = lzw.subarray(i, i + 255);
+    out.byte(block.length);
+    out.write(block);
+  }
+  out.byte(0);
+  out.byte(0x3b);
+  return out.result();
+}
+
+// 32-bit bitmap with the doubled height ICO expects and a 1-bit AND mask
+function iconBitmap(buffer: PixelBuffer): Uint8Array {
+  const { data, width, height } = buffer;
+  const pixels = dibPixels(buffer, 4);
+  const maskStride = Math.ceil(width / 32) * 4;
+  const mask = new Uint8Array(maskStride * height);
+  for (let y = 0; y < height; y++) {
+    const row = (height - 1 - y) * maskStride;
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3] === 0) mask[row + (x >> 3)] |= 0x80 >> (x & 7);
+    }
+  }
+  const bitmap = new Uint8Array(40 + pixels.length + mask.length);
+  const view = new DataView(bitmap.buffer);
+  view.setUint32(0, 40, true);
+  view.setInt32(4, width, true);
+  view.setInt32(8, height * 2, true);
+  view.setUint16(12, 1, true);
+  view.setUint16(14, 32, true);
+  view.setUint32(20, pixels.length + mask.length, true);
+  bitmap.set(pixels, 40);
+  bitmap.set(mask, 40 + pixels.length);
+  return bitmap;
+}
+
+/** Icon with one entry per image, smallest first. */
+export function encodeICO(images: IconImage[]): Uint8Array {
+  if (images.length === 0) throw new ImageEncodeError('An icon needs at least one image');
+  const sorted = [...images].sort((a, b) => a.buffer.width - b.buffer.width);
+  const payloads = sorted.map(image => {
+    const { width, height } = image.buffer;
+    if (width < 1 || height < 1 || width > 256 || height > 256) throw new ImageEncodeError(`Icon images must be 1-256 pixels a side, got ${width}x${height}`);
+    return image.png ?? iconBitmap(image.buffer);
+  });
+  const directorySize = 6 + 16 * sorted.length;
+  const ico = new Uint8Array(directorySize + payloads.reduce((sum, payload) => sum + payload.length, 0));
+  const view = new DataView(ico.buffer);
+  view.setUint16(2, 1, true);
+  view.setUint16(4, sorted.length, true);
+  let offset = directorySize;
+  sorted.forEach((image, index) => {
+    const entry = 6 + index * 16;
+    // 0 means 256
+    ico[entry] = image.buffer.width & 0xff;
+    ico[entry + 1] = image.buffer.height & 0xff;
+    view.setUint16(entry + 4, 1, true);
+    view.setUint16(entry + 6, 32, true);
+    view.setUint32(entry + 8, payloads[index].length, true);
+    view.setUint32(entry + 12, offset, true);
+    ico.set(payloads[index], offset);
+    offset += payloads[index].length;
+  });
+  return ico;
+}
+
+const ascii = (bytes: Uint8Array, start: number, length: number) => String.fromCharCode(...bytes.subarray(start, start + length));
+
+// Formats that can be recognized from their first bytes
+const SIGNED_FORMATS = new Set(['jpeg', 'png', 'webp', 'avif', 'heic', 'tiff', 'bmp', 'gif', 'ico', 'pdf', 'eps', 'svg']);
+
+/** Identify an image or document format from its leading bytes. */
+export function detectImageFormat(bytes: Uint8Array): string | undefined {
+  if (bytes.length < 4) return undefined;
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'jpeg';
+  if (ascii(bytes, 0, 8) === '\x89PNG\r\n\x1a\n') return 'png';
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') return 'webp';
+  if (ascii(bytes, 4, 4) === 'ftyp') {
+    const brand = ascii(bytes, 8, 4);
+    if (brand === 'avif' || brand === 'avis') return 'avif';
+    if (['heic', 'heix', 'hevc', 'hevx', 'mif1', 'msf1'].includes(brand)) return 'heic';
+  }
+  const head = ascii(bytes, 0, 4);
+  if (head === 'II*\0' || head === 'MM\0*') return 'tiff';
+  if (ascii(bytes, 0, 6) === 'GIF87a' || ascii(bytes, 0, 6) === 'GIF89a') return 'gif';
+  if (bytes[0] === 0 && bytes[1] === 0 && bytes[2] === 1 && bytes[3] === 0) return 'ico';
+  if (ascii(bytes, 0, 5) === '%PDF-') return 'pdf';
+  if (head === '%!PS' || (bytes[0] === 0xc5 && bytes[1] === 0xd0 && bytes[2] === 0xd3 && bytes[3] === 0xc6)) return 'eps';
+  if (ascii(bytes, 0, 2) === 'BM') return 'bmp';
+  const text = new TextDecoder().decode(bytes.subarray(0, 1024)).trimStart();
+  if (text.startsWith('<') && /<svg[\s>]/.test(text)) return 'svg';
+  return undefined;
+}
+
+/**
+ * Throw unless `bytes` carry the signature of `format`. Formats without a
+ * signature (TGA) pass as long as the data is not some other known format.
+ */
+export function assertImageFormat(bytes: Uint8Array, format: string) {
+  const detected = detectImageFormat(bytes);
+  if (detected === format || (detected === undefined && !SIGNED_FORMATS.has(format))) return;
+  const found = detected ? `${detected.toUpperCase()} data` : 'unrecognized data';
+  throw new ImageEncodeError(`Expected ${format.toUpperCase()} output but the encoder produced ${found}; this browser cannot write ${format.toUpperCase()}`);
+}
@@ -0,0 +1,295 @@
+// Per-pixel image kernels
+// Pure functions over RGBA pixel buffers, shared by the image worker and the
+// main-thread fallback so both produce identical output. Neighbourhood
+// kernels clamp coordinates at the edges and read from a copy of the input.
+
+export interface PixelBuffer {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+export type PixelKernel =
+  | { type: 'adjust'; brightness?: number; contrast?: number; saturation?: number }
+  | { type: 'grayscale' }
+  | { type: 'invert' }
+  // Square matrix with an odd side, row-major
+  | { type: 'convolve'; matrix: number[]; divisor?: number; bias?: number }
+  | { type: 'boxBlur'; radius: number }
+  | { type: 'median'; radius: number }
+  | { type: 'unsharp'; radius: number; amount: number; threshold: number }
+  // Source of a self-contained `(pixel, x, y, params) => void` function that
+  // rewrites pixel[0..3] (r, g, b, a) in place
+  | { type: 'custom'; source: string; params?: Record<string, number> };
+
+export type CustomPixelFunction = (pixel: number[], x: number, y: number, params: Record<string, number>) => void;
+
+export class KernelError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'KernelError';
+  }
+}
+
+/**
+ * Wrap a per-pixel function as a kernel that can be posted to a worker. The
+ * function is sent as source text, so it must not capture outer variables;
+ * pass values through `params` instead.
+ */
+export function customKernel(fn: CustomPixelFunction, params: Record<string, number> = {}): PixelKernel {
+  return { type: 'custom', source: fn.toString(), params };
+}
+
+// Progress is reported per row, throttled to roughly every 2% of the image
+type RowProgress = (row: number) => void;
+
+function rowReporter(height: number, onProgress?: (fraction: number) => void): RowProgress {
+  if (!onProgress) return () => {};
+  const step = Math.max(1, Math.floor(height / 50));
+  return row => {
+    if (row % step === 0) onProgress(row / height);
+  };
+}
+
+function adjust(buffer: PixelBuffer, kernel: Extract<PixelKernel, { type: 'adjust' }>, progress: RowProgress) {
+  const { data, width, height } = buffer;
+  const brightness = kernel.brightness ?? 0;
+  const contrast = kernel.contrast ?? 0;
+  const saturation = kernel.saturation ?? 0;
+  const contrastFactor = (259 * (contrast + 255)) / (255 * (259 - contrast));
+  const saturationFactor = 1 + saturation / 100;
+  const clamp = (value: number) => Math.max(0, Math.min(255, value));
+  for (let y = 0; y < height; y++) {
+    progress(y);
+    for (let i = y * width * 4, end = i + width * 4; i < end; i += 4) {
+      let r = data[i];
+      let g = data[i + 1];
+      let b = data[i + 2];
+      if (brightness !== 0) {
+        r = clamp(r + brightness);
+        g = clamp(g + brightness);
+        b = clamp(b + brightness);
+      }
+      if (contrast !== 0) {
+        r = clamp(contrastFactor * (r - 128) + 128);
+        g = clamp(contrastFactor * (g - 128) + 128);
+        b = clamp(contrastFactor * (b - 128) + 128);
+      }
+      if (saturation !== 0) {
+        const gray = 0.299 * r + 0.587 * g + 0.114 * b;
+        r = clamp(gray + saturationFactor * (r - gray));
+        g = clamp(gray + saturationFactor * (g - gray));
+        b = clamp(gray + saturationFactor * (b - gray));
+      }
+      data[i] = r;
+      data[i + 1] = g;
+      data[i + 2] = b;
+    }
+  }
+}
+
+function convolve(buffer: PixelBuffer, matrix: number[], divisor: number, bias: number, progress: RowProgress) {
+  const { data, width, height } = buffer;
+  const side = Math.round(Math.sqrt(matrix.length));
+  if (side * side !== matrix.length || side % 2 === 0) throw new KernelError('Convolution matrix must be square with an odd side');
+  const half = side >> 1;
+  const source = new Uint8ClampedArray(data);
+  for (let y = 0; y < height; y++) {
+    progress(y);
+    for (let x = 0; x < width; x++) {
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      for (let ky = 0; ky < side; ky++) {
+        const sy = Math.min(height - 1, Math.max(0, y + ky - half));
+        for (let kx = 0; kx < side; kx++) {
+          const weight = matrix[ky * side + kx];
+          if (weight === 0) continue;
+          const sx = Math.min(width - 1, Math.max(0, x + kx - half));
+          const index = (sy * width + sx) * 4;
+          r += source[index] * weight;
+          g += source[index + 1] * weight;
+          b += source[index + 2] * weight;
+        }
+      }
+      const index = (y * width + x) * 4;
+      data[index] = r / divisor + bias;
+      data[index + 1] = g / divisor + bias;
+      data[index + 2] = b / divisor + bias;
+    }
+  }
+}
+
+// Separable box blur with clamped edges; returns the blurred copy
+function boxBlurred(buffer: PixelBuffer, radius: number, progress: RowProgress): Float32Array {
+  const { data, width, height } = buffer;
+  const horizontal = new Float32Array(width * height * 3);
+  const out = new Float32Array(width * height * 3);
+  const span = radius * 2 + 1;
+  for (let y = 0; y < height; y++) {
+    progress(y);
+    for (let c = 0; c < 3; c++) {
+      let sum = 0;
+      for (let k = -radius; k <= radius; k++) sum += data[(y * width + Math.min(width - 1, Math.max(0, k))) * 4 + c];
+      for (let x = 0; x < width; x++) {
+        horizontal[(y * width + x) * 3 + c] = sum / span;
+        const leaving = Math.max(0, x - radius);
+        const entering = Math.min(width - 1, x + radius + 1);
+        sum += data[(y * width + entering) * 4 + c] - data[(y * width + leaving) * 4 + c];
+      }
+    }
+  }
+  for (let x = 0; x < width; x++) {
+    for (let c = 0; c < 3; c++) {
+      let sum = 0;
+      for (let k = -radius; k <= radius; k++) sum += horizontal[(Math.min(height - 1, Math.max(0, k)) * width + x) * 3 + c];
+      for (let y = 0; y < height; y++) {
+        out[(y * width + x) * 3 + c] = sum / span;
+        const leaving = Math.max(0, y - radius);
+        const entering = Math.min(height - 1, y + radius + 1);
+        sum += horizontal[(entering * width + x) * 3 + c] - horizontal[(leaving * width + x) * 3 + c];
+      }
+    }
+  }
+  return out;
+}
+
+function median(buffer: PixelBuffer, radius: number, progress: RowProgress) {
+  const { data, width, height } = buffer;
+  const source = new Uint8ClampedArray(data);
+  const size = (radius * 2 + 1) ** 2;
+  const channels = [new Uint8Array(size), new Uint8Array(size), new Uint8Array(size)];
+  const mid = size >> 1;
+  for (let y = 0; y < height; y++) {
+    progress(y);
+    for (let x = 0; x < width; x++) {
+      let n = 0;
+      for (let dy = -radius; dy <= radius; dy++) {
+        const sy = Math.min(height - 1, Math.max(0, y + dy));
+        for (let dx = -radius; dx <= radius; dx++) {
+          const index = (sy * width + Math.min(width - 1, Math.max(0, x + dx))) * 4;
+          channels[0][n] = source[index];
+          channels[1][n] = source[index + 1];
+          channels[2][n] = source[index + 2];
+          n++;
+        }
+      }
+      const index = (y * width + x) * 4;
+      for (let c = 0; c < 3; c++) data[index + c] = channels[c].sort()[mid];
+    }
+  }
+}
+
+function unsharp(buffer: PixelBuffer, kernel: Extract<PixelKernel, { type: 'unsharp' }>, progress: RowProgress) {
+  const { data, width, height } = buffer;
+  const blurred = boxBlurred(buffer, Math.max(1, Math.round(kernel.radius)), () => {});
+  for (let y = 0; y < height; y++) {
+    progress(y);
+    for (let p = y * width, end = p + width; p < end; p++) {
+      const i = p * 4;
+      const diffR = data[i] - blurred[p * 3];
+      const diffG = data[i + 1] - blurred[p * 3 + 1];
+      const diffB = data[i + 2] - blurred[p * 3 + 2];
+      if (Math.sqrt(diffR * diffR + diffG * diffG + diffB * diffB) <= kernel.threshold) continue;
+      data[i] += diffR * kernel.amount;
+      data[i + 1] += diffG * kernel.amount;
+      data[i + 2] += diffB * kernel.amount;
+    }
+  }
+}
+
+function compileCustom(source: string): CustomPixelFunction {
+  try {
+    const fn = new Function(`return (${source});`)();
+    if (typeof fn !== 'function') throw new KernelError('Custom kernel source is not a function');
+    return fn as CustomPixelFunction;
+  } catch (error) {
+    if (error instanceof KernelError) throw error;
+    throw new KernelError(`Custom kernel does not compile: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function custom(buffer: PixelBuffer, kernel: Extract<PixelKernel, { type: 'custom' }>, progress: RowProgress) {
+  const { data, width, height } = buffer;
+  const fn = compileCustom(kernel.source);
+  const params = kernel.params ?? {};
+  const pixel = [0, 0, 0, 0];
+  for (let y = 0; y < height; y++) {
+    progress(y);
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      pixel[0] = data[i];
+      pixel[1] = data[i + 1];
+      pixel[2] = data[i + 2];
+      pixel[3] = data[i + 3];
+      fn(pixel, x, y, params);
+      data[i] = pixel[0];
+      data[i + 1] = pixel[1];
+      data[i + 2] = pixel[2];
+      data[i + 3] = pixel[3];
+    }
+  }
+}
+
+function applyKernel(buffer: PixelBuffer, kernel: PixelKernel, progress: RowProgress) {
+  const { data, width, height } = buffer;
+  switch (kernel.type) {
+    case 'adjust':
+      adjust(buffer, kernel, progress);
+      break;
+    case 'grayscale':
+      for (let y = 0; y < height; y++) {
+        progress(y);
+        for (let i = y * width * 4, end = i + width * 4; i < end; i += 4) {
+          data[i] = data[i + 1] = data[i + 2] = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+        }
+      }
+      break;
+    case 'invert':
+      for (let y = 0; y < height; y++) {
+        progress(y);
+        for (let i = y * width * 4, end = i + width * 4; i < end; i += 4) {
+          data[i] = 255 - data[i];
+          data[i + 1] = 255 - data[i + 1];
+          data[i + 2] = 255 - data[i + 2];
+        }
+      }
+      break;
+    case 'convolve': {
+      const divisor = kernel.divisor ?? (kernel.matrix.reduce((sum, weight) => sum + weight, 0) || 1);
+      convolve(buffer, kernel.matrix, divisor, kernel.bias ?? 0, progress);
+      break;
+    }
+    case 'boxBlur': {
+      const radius = Math.max(1, Math.round(kernel.radius));
+      const blurred = boxBlurred(buffer, radius, progress);
+      for (let p = 0; p < width * height; p++) {
+        data[p * 4] = blurred[p * 3];
+        data[p * 4 + 1] = blurred[p * 3 + 1];
+        data[p * 4 + 2] = blurred[p * 3 + 2];
+      }
+      break;
+    }
+    case 'median':
+      median(buffer, Math.max(1, Math.round(kernel.radius)), progress);
+      break;
+    case 'unsharp':
+      unsharp(buffer, kernel, progress);
+      break;
+    case 'custom':
+      custom(buffer, kernel, progress);
+      break;
+  }
+}
+
+/**
+ * Run kernels over the buffer in place, in order. `onProgress` receives the
+ * overall fraction done across all kernels.
+ */
+export function applyKernels(buffer: PixelBuffer, kernels: PixelKernel[], onProgress?: (fraction: number) => void) {
+  kernels.forEach((kernel, index) => {
+    const report = onProgress ? (fraction: number) => onProgress((index + fraction) / kernels.length) : undefined;
+    applyKernel(buffer, kernel, rowReporter(buffer.height, report));
+  });
+  onProgress?.(1);
+}
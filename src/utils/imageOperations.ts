@@ -0,0 +1,131 @@
+// Canvas image operations
+// The resize, sharpen and text watermark steps of the single-purpose tools,
+// shared with the batch recipe pipeline so a recipe step renders exactly like
+// the tool it comes from.
+
+import { getImageWorkerPool } from './imageWorkerPool';
+
+// ---------------------------------------------------------------------------
+// Resize
+// ---------------------------------------------------------------------------
+
+// 'fit' keeps the aspect ratio inside width × height, 'exact' stretches
+export type ResizeMode = 'percentage' | 'fit' | 'exact';
+
+export interface ResizeOptions {
+  mode: ResizeMode;
+  width: number;
+  height: number;
+  percentage: number;
+}
+
+/** Output size of a resize, never smaller than one pixel. */
+export function resizeDimensions(sourceWidth: number, sourceHeight: number, options: ResizeOptions) {
+  let width: number;
+  let height: number;
+  if (options.mode === 'percentage') {
+    width = sourceWidth * (options.percentage / 100);
+    height = sourceHeight * (options.percentage / 100);
+  } else if (options.mode === 'fit') {
+    const ratio = Math.min(options.width / sourceWidth, options.height / sourceHeight);
+    width = sourceWidth * ratio;
+    height = sourceHeight * ratio;
+  } else {
+    width = options.width;
+    height = options.height;
+  }
+  return { width: Math.max(1, Math.round(width)), height: Math.max(1, Math.round(height)) };
+}
+
+/** Draw the source scaled to a new canvas with high-quality smoothing. */
+export function resizeCanvas(source: CanvasImageSource, sourceWidth: number, sourceHeight: number, options: ResizeOptions) {
+  const { width, height } = resizeDimensions(sourceWidth, sourceHeight, options);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas context not available');
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(source, 0, 0, width, height);
+  return canvas;
+}
+
+// ---------------------------------------------------------------------------
+// Sharpen
+// ---------------------------------------------------------------------------
+
+export interface SharpenOptions {
+  // Percent, 100 adds the full high-pass detail back
+  strength: number;
+  radius: number;
+  // Minimum difference from the blurred pixel before it is sharpened
+  threshold: number;
+}
+
+/** Run an unsharp mask over the canvas on the image worker pool. */
+export async function sharpenCanvas(canvas: HTMLCanvasElement, options: SharpenOptions, signal?: AbortSignal) {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas context not available');
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const sharpened = await getImageWorkerPool().run(imageData, [{
+    type: 'unsharp',
+    radius: options.radius,
+    amount: options.strength / 100,
+    threshold: options.threshold,
+  }], { signal });
+  ctx.putImageData(sharpened, 0, 0);
+}
+
+// ---------------------------------------------------------------------------
+// Text watermark
+// ---------------------------------------------------------------------------
+
+export interface WatermarkShadow {
+  color: string;
+  blur: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+export interface TextWatermarkOptions {
+  text: string;
+  // top-left, top-right, bottom-left, bottom-right or center; anything else
+  // is drawn at the top left
+  position: string;
+  // Percent
+  opacity: number;
+  // Font size in pixels
+  size: number;
+  color: string;
+  fontFamily: string;
+  fontWeight: string;
+  // Degrees, around the image center
+  rotation: number;
+  shadow?: WatermarkShadow;
+}
+
+/** Draw a text watermark, leaving the context state as it was. */
+export function drawTextWatermark(ctx: CanvasRenderingContext2D, width: number, height: number, options: TextWatermarkOptions) {
+  const { text, size } = options;
+  ctx.save();
+  ctx.font = `${options.fontWeight} ${size}px ${options.fontFamily}`;
+  ctx.globalAlpha = options.opacity / 100;
+  ctx.fillStyle = options.color;
+  ctx.translate(width / 2, height / 2);
+  ctx.rotate((options.rotation * Math.PI) / 180);
+  ctx.translate(-width / 2, -height / 2);
+  if (options.shadow) {
+    ctx.shadowColor = options.shadow.color;
+    ctx.shadowBlur = options.shadow.blur;
+    ctx.shadowOffsetX = options.shadow.offsetX;
+    ctx.shadowOffsetY = options.shadow.offsetY;
+  }
+  let x = 20, y = size + 20;
+  if (options.position === 'top-right') { x = width - ctx.measureText(text).width - 20; y = size + 20; }
+  else if (options.position === 'bottom-left') { x = 20; y = height - 20; }
+  else if (options.position === 'bottom-right') { x = width - ctx.measureText(text).width - 20; y = height - 20; }
+  else if (options.position === 'center') { x = (width - ctx.measureText(text).width) / 2; y = height / 2; }
+  ctx.fillText(text, x, y);
+  ctx.restore();
+}
@@ -0,0 +1,435 @@
+// Image recipes
+// A recipe is an ordered list of steps (resize, sharpen, watermark, convert,
+// strip metadata) that the batch processor runs on every file. Recipes are
+// plain JSON so they can be saved, shared and imported; parseRecipe checks an
+// imported recipe and fills in defaults for missing step settings.
+//
+// Pixel steps run in order on a canvas. `convert` picks the output format and
+// `stripMetadata` drops the source metadata wherever they appear in the list;
+// the image is encoded once at the end. JPEG output keeps the source EXIF,
+// XMP, IPTC and comments unless the recipe strips them.
+
+import { drawTextWatermark, resizeCanvas, sharpenCanvas } from './imageOperations';
+import { assertImageFormat, encodeBMP, encodeTIFF } from './imageEncoders';
+import { JPEG_MARKERS, JpegSegment, hasSignature, isJpeg, parseJpeg, writeJpeg } from './jpegSegments';
+import { updateExifGeometry } from './jpegMetadata';
+import { ImageTaskCancelledError } from './imageWorkerPool';
+
+export const RECIPE_VERSION = 1;
+
+export type RecipeOutputFormat = 'jpeg' | 'png' | 'webp' | 'bmp' | 'tiff';
+
+export type RecipeStep =
+  | { type: 'resize'; mode: 'percentage' | 'fit' | 'exact'; width: number; height: number; percentage: number }
+  | { type: 'sharpen'; strength: number; radius: number; threshold: number }
+  | { type: 'watermark'; text: string; position: string; opacity: number; size: number; color: string; fontFamily: string; rotation: number }
+  | { type: 'convert'; format: RecipeOutputFormat; quality: number }
+  | { type: 'stripMetadata' };
+
+export type RecipeStepType = RecipeStep['type'];
+
+export interface ImageRecipe {
+  version: number;
+  name: string;
+  steps: RecipeStep[];
+}
+
+export interface RecipeResult {
+  name: string;
+  blob: Blob;
+  width: number;
+  height: number;
+}
+
+export interface RecipeRunOptions {
+  signal?: AbortSignal;
+  // Called with the canvas after each step; convert and stripMetadata pass
+  // the canvas through unchanged
+  onStep?: (index: number, canvas: HTMLCanvasElement) => void | Promise<void>;
+}
+
+export interface RecipeStepPreview {
+  // Step index, -1 for the source image and steps.length for the encoded output
+  index: number;
+  label: string;
+  url: string;
+  width: number;
+  height: number;
+  // Encoded size, only set on the output preview
+  size?: number;
+}
+
+export interface RecipePreview {
+  steps: RecipeStepPreview[];
+  // Why the recipe stopped; steps holds the previews up to the failing step
+  error?: string;
+}
+
+export class RecipeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecipeError';
+  }
+}
+
+export const RECIPE_STEP_TYPES: { type: RecipeStepType; name: string }[] = [
+  { type: 'resize', name: 'Resize' },
+  { type: 'sharpen', name: 'Sharpen' },
+  { type: 'watermark', name: 'Watermark' },
+  { type: 'convert', name: 'Convert Format' },
+  { type: 'stripMetadata', name: 'Strip Metadata' },
+];
+
+export const RECIPE_OUTPUT_FORMATS: RecipeOutputFormat[] = ['jpeg', 'png', 'webp', 'bmp', 'tiff'];
+
+const MIME_TYPES: Record<RecipeOutputFormat, string> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  bmp: 'image/bmp',
+  tiff: 'image/tiff',
+};
+
+const EXTENSIONS: Record<RecipeOutputFormat, string> = {
+  jpeg: 'jpg',
+  png: 'png',
+  webp: 'webp',
+  bmp: 'bmp',
+  tiff: 'tiff',
+};
+
+/** A step of the given type with the settings its tool starts with. */
+export function createRecipeStep(type: RecipeStepType): RecipeStep {
+  switch (type) {
+    case 'resize':
+      return { type, mode: 'fit', width: 1920, height: 1080, percentage: 50 };
+    case 'sharpen':
+      return { type, strength: 50, radius: 1, threshold: 0 };
+    case 'watermark':
+      return { type, text: '© JPG2GO', position: 'bottom-right', opacity: 50, size: 24, color: '#ffffff', fontFamily: 'Arial', rotation: 0 };
+    case 'convert':
+      return { type, format: 'webp', quality: 85 };
+    case 'stripMetadata':
+      return { type };
+  }
+}
+
+export const DEFAULT_RECIPE: ImageRecipe = {
+  version: RECIPE_VERSION,
+  name: 'Web export',
+  steps: (['resize', 'sharpen', 'watermark', 'convert', 'stripMetadata'] as RecipeStepType[]).map(createRecipeStep),
+};
+
+/** Short human-readable summary of a step, e.g. "Resize to fit 1920×1080". */
+export function describeRecipeStep(step: RecipeStep): string {
+  switch (step.type) {
+    case 'resize':
+      if (step.mode === 'percentage') return `Resize to ${step.percentage}%`;
+      return `Resize to ${step.mode === 'fit' ? 'fit ' : ''}${step.width}×${step.height}`;
+    case 'sharpen':
+      return `Sharpen ${step.strength}% (radius ${step.radius})`;
+    case 'watermark':
+      return `Watermark "${step.text}"`;
+    case 'convert':
+      return step.format === 'jpeg' || step.format === 'webp'
+        ? `Convert to ${step.format.toUpperCase()} at ${step.quality}%`
+        : `Convert to ${step.format.toUpperCase()}`;
+    case 'stripMetadata':
+      return 'Strip metadata';
+  }
+}
+
+// ---------------------------------------------------------------------------
+// JSON
+// ---------------------------------------------------------------------------
+
+export function serializeRecipe(recipe: ImageRecipe): string {
+  return JSON.stringify({ ...recipe, version: RECIPE_VERSION }, null, 2);
+}
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function numberField(source: JsonObject, key: string, fallback: number, min: number, max: number, where: string): number {
+  const value = source[key];
+  if (value === undefined) return fallback;
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw new RecipeError(`${where}: "${key}" must be a number`);
+  if (value < min || value > max) throw new RecipeError(`${where}: "${key}" must be between ${min} and ${max}`);
+  return value;
+}
+
+function stringField(source: JsonObject, key: string, fallback: string, where: string, allowed?: readonly string[]): string {
+  const value = source[key];
+  if (value === undefined) return fallback;
+  if (typeof value !== 'string') throw new RecipeError(`${where}: "${key}" must be a string`);
+  if (allowed && !allowed.includes(value)) throw new RecipeError(`${where}: "${key}" must be one of ${allowed.join(', ')}`);
+  return value;
+}
+
+function parseStep(source: unknown, index: number): RecipeStep {
+  const where = `Step ${index + 1}`;
+  if (!isObject(source)) throw new RecipeError(`${where} is not an object`);
+  const type = source.type;
+  if (!RECIPE_STEP_TYPES.some(entry => entry.type === type)) {
+    throw new RecipeError(`${where}: unknown step type ${JSON.stringify(type)}`);
+  }
+  const step = createRecipeStep(type as RecipeStepType);
+  switch (step.type) {
+    case 'resize':
+      return {
+        type: 'resize',
+        mode: stringField(source, 'mode', step.mode, where, ['percentage', 'fit', 'exact']) as typeof step.mode,
+        width: Math.round(numberField(source, 'width', step.width, 1, 20000, where)),
+        height: Math.round(numberField(source, 'height', step.height, 1, 20000, where)),
+        percentage: numberField(source, 'percentage', step.percentage, 1, 1000, where),
+      };
+    case 'sharpen':
+      return {
+        type: 'sharpen',
+        strength: numberField(source, 'strength', step.strength, 0, 100, where),
+        radius: numberField(source, 'radius', step.radius, 0.1, 5, where),
+        threshold: numberField(source, 'threshold', step.threshold, 0, 50, where),
+      };
+    case 'watermark':
+      return {
+        type: 'watermark',
+        text: stringField(source, 'text', step.text, where),
+        position: stringField(source, 'position', step.position, where),
+        opacity: numberField(source, 'opacity', step.opacity, 0, 100, where),
+        size: numberField(source, 'size', step.size, 1, 1000, where),
+        color: stringField(source, 'color', step.color, where),
+        fontFamily: stringField(source, 'fontFamily', step.fontFamily, where),
+        rotation: numberField(source, 'rotation', step.rotation, -360, 360, where),
+      };
+    case 'convert':
+      return {
+        type: 'convert',
+        format: stringField(source, 'format', step.format, where, RECIPE_OUTPUT_FORMATS) as RecipeOutputFormat,
+        quality: numberField(source, 'quality', step.quality, 1, 100, where),
+      };
+    case 'stripMetadata':
+      return step;
+  }
+}
+
+/** Throw a RecipeError when the recipe cannot be run as written. */
+export function validateRecipe(recipe: ImageRecipe) {
+  if (recipe.steps.length === 0) throw new RecipeError('The recipe has no steps');
+  for (const type of ['convert', 'stripMetadata'] as RecipeStepType[]) {
+    if (recipe.steps.filter(step => step.type === type).length > 1) {
+      const name = RECIPE_STEP_TYPES.find(entry => entry.type === type)!.name;
+      throw new RecipeError(`A recipe can only have one "${name}" step`);
+    }
+  }
+}
+
+/** Read a recipe from JSON, filling in defaults for missing step settings. */
+export function parseRecipe(json: string): ImageRecipe {
+  let source: unknown;
+  try {
+    source = JSON.parse(json);
+  } catch (error) {
+    throw new RecipeError(`Not valid JSON: ${(error as Error).message}`);
+  }
+  if (!isObject(source)) throw new RecipeError('A recipe must be a JSON object');
+  const version = source.version ?? RECIPE_VERSION;
+  if (typeof version !== 'number' || version > RECIPE_VERSION) {
+    throw new RecipeError(`Unsupported recipe version ${JSON.stringify(version)}`);
+  }
+  if (!Array.isArray(source.steps)) throw new RecipeError('A recipe needs a "steps" array');
+  const recipe: ImageRecipe = {
+    version: RECIPE_VERSION,
+    name: stringField(source, 'name', 'Imported recipe', 'Recipe'),
+    steps: source.steps.map(parseStep),
+  };
+  validateRecipe(recipe);
+  return recipe;
+}
+
+// ---------------------------------------------------------------------------
+// Running
+// ---------------------------------------------------------------------------
+
+const loadImage = (file: File) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new RecipeError('The file could not be decoded as an image'));
+    };
+    img.src = url;
+  });
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new RecipeError('Failed to create blob'))), type, quality);
+  });
+
+const canvasPixels = (canvas: HTMLCanvasElement) =>
+  canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height);
+
+// Output format when the recipe has no convert step: the source format when
+// the browser can write it, PNG otherwise
+function sourceFormat(file: File): RecipeOutputFormat {
+  if (file.type === 'image/jpeg') return 'jpeg';
+  if (file.type === 'image/webp') return 'webp';
+  return 'png';
+}
+
+async function encode(canvas: HTMLCanvasElement, format: RecipeOutputFormat, quality: number): Promise<Uint8Array> {
+  let bytes: Uint8Array;
+  if (format === 'bmp') bytes = encodeBMP(canvasPixels(canvas));
+  else if (format === 'tiff') bytes = await encodeTIFF(canvasPixels(canvas));
+  else {
+    const useQuality = format === 'jpeg' || format === 'webp';
+    const blob = await canvasToBlob(canvas, MIME_TYPES[format], useQuality ? quality / 100 : undefined);
+    bytes = new Uint8Array(await blob.arrayBuffer());
+  }
+  assertImageFormat(bytes, format);
+  return bytes;
+}
+
+// EXIF (also XMP), IPTC and comments. ICC profiles are left behind: canvas
+// pixels are already converted to sRGB, so the source profile no longer
+// describes them
+const isCarriedMetadata = (segment: JpegSegment) =>
+  (segment.marker === JPEG_MARKERS.APP1 && (hasSignature(segment, 'Exif\0') || hasSignature(segment, 'http://ns.adobe.com/xap/1.0/'))) ||
+  segment.marker === JPEG_MARKERS.APP13 ||
+  segment.marker === JPEG_MARKERS.COM;
+
+// Copy the source metadata into the encoded JPEG. The browser already applied
+// the EXIF orientation when decoding, so it is reset, and the thumbnail,
+// which shows the unedited image, is dropped
+function carryJpegMetadata(source: Uint8Array, output: Uint8Array, width: number, height: number): Uint8Array {
+  if (!isJpeg(source)) return output;
+  let metadata: JpegSegment[];
+  try {
+    metadata = parseJpeg(source).segments.filter(isCarriedMetadata);
+  } catch {
+    return output;
+  }
+  if (metadata.length === 0) return output;
+  metadata = updateExifGeometry(metadata, { orientation: 1, width, height, thumbnail: () => null });
+  const encoded = parseJpeg(output);
+  const insertAt = encoded.segments.filter(segment => segment.marker === JPEG_MARKERS.APP0).length;
+  encoded.segments.splice(insertAt, 0, ...metadata);
+  return writeJpeg(encoded);
+}
+
+async function applyStep(canvas: HTMLCanvasElement, step: RecipeStep, signal?: AbortSignal): Promise<HTMLCanvasElement> {
+  switch (step.type) {
+    case 'resize':
+      return resizeCanvas(canvas, canvas.width, canvas.height, step);
+    case 'sharpen':
+      await sharpenCanvas(canvas, step, signal);
+      return canvas;
+    case 'watermark':
+      drawTextWatermark(canvas.getContext('2d')!, canvas.width, canvas.height, { ...step, fontWeight: 'normal' });
+      return canvas;
+    default:
+      return canvas;
+  }
+}
+
+/**
+ * Run the recipe on one file. Failures are thrown as RecipeError naming the
+ * step that failed, so the batch can report them per file and carry on.
+ */
+export async function runRecipe(file: File, recipe: ImageRecipe, options: RecipeRunOptions = {}): Promise<RecipeResult> {
+  validateRecipe(recipe);
+  const img = await loadImage(file);
+  let canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new RecipeError('Canvas context not available');
+  ctx.drawImage(img, 0, 0);
+
+  for (let i = 0; i < recipe.steps.length; i++) {
+    const step = recipe.steps[i];
+    try {
+      canvas = await applyStep(canvas, step, options.signal);
+      await options.onStep?.(i, canvas);
+    } catch (error) {
+      if (error instanceof ImageTaskCancelledError) throw error;
+      const message = error instanceof Error ? error.message : String(error);
+      throw new RecipeError(`Step ${i + 1} (${describeRecipeStep(step)}) failed: ${message}`);
+    }
+  }
+
+  const convert = recipe.steps.find(step => step.type === 'convert');
+  const format = convert?.format ?? sourceFormat(file);
+  let bytes: Uint8Array;
+  try {
+    bytes = await encode(canvas, format, convert?.quality ?? 92);
+  } catch (error) {
+    throw new RecipeError(`Encoding ${format.toUpperCase()} failed: ${(error as Error).message}`);
+  }
+  if (format === 'jpeg' && !recipe.steps.some(step => step.type === 'stripMetadata')) {
+    bytes = carryJpegMetadata(new Uint8Array(await file.arrayBuffer()), bytes, canvas.width, canvas.height);
+  }
+  return {
+    name: `${file.name.replace(/\.[^/.]+$/, '')}.${EXTENSIONS[format]}`,
+    blob: new Blob([bytes], { type: MIME_TYPES[format] }),
+    width: canvas.width,
+    height: canvas.height,
+  };
+}
+
+async function thumbnail(canvas: HTMLCanvasElement, maxSize: number): Promise<string> {
+  const scale = Math.min(1, maxSize / Math.max(canvas.width, canvas.height));
+  const small = document.createElement('canvas');
+  small.width = Math.max(1, Math.round(canvas.width * scale));
+  small.height = Math.max(1, Math.round(canvas.height * scale));
+  const ctx = small.getContext('2d')!;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(canvas, 0, 0, small.width, small.height);
+  return URL.createObjectURL(await canvasToBlob(small, 'image/png'));
+}
+
+/**
+ * Render the file after every step as a thumbnail, followed by the encoded
+ * output at full size. A failing step ends the preview with its error. The
+ * caller revokes the returned object URLs.
+ */
+export async function previewRecipe(file: File, recipe: ImageRecipe, maxSize = 240): Promise<RecipePreview> {
+  const steps: RecipeStepPreview[] = [];
+  try {
+    const source = await loadImage(file);
+    const original = document.createElement('canvas');
+    original.width = source.naturalWidth;
+    original.height = source.naturalHeight;
+    original.getContext('2d')!.drawImage(source, 0, 0);
+    steps.push({ index: -1, label: 'Original', url: await thumbnail(original, maxSize), width: original.width, height: original.height });
+
+    const result = await runRecipe(file, recipe, {
+      onStep: async (index, canvas) => {
+        steps.push({
+          index,
+          label: describeRecipeStep(recipe.steps[index]),
+          url: await thumbnail(canvas, maxSize),
+          width: canvas.width,
+          height: canvas.height,
+        });
+      },
+    });
+    steps.push({
+      index: recipe.steps.length,
+      label: `Output (${result.name})`,
+      url: URL.createObjectURL(result.blob),
+      width: result.width,
+      height: result.height,
+      size: result.blob.size,
+    });
+    return { steps };
+  } catch (error) {
+    return { steps, error: error instanceof Error ? error.message : String(error) };
+  }
+}
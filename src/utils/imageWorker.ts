@@ -0,0 +1,42 @@
+// Image worker entry point
+// Spawned by ImageWorkerPool; see imageWorkerPool.ts for the message protocol.
+
+import { applyKernels } from './imageKernels';
+import type { ImageWorkerRequest, ImageWorkerResponse } from './imageWorkerPool';
+
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<ImageWorkerRequest>) => void) | null;
+  postMessage(message: ImageWorkerResponse, transfer?: Transferable[]): void;
+};
+
+async function handle(request: ImageWorkerRequest) {
+  const onProgress = (progress: number) => scope.postMessage({ type: 'progress', id: request.id, progress });
+  if (request.type === 'kernels') {
+    const { image } = request;
+    applyKernels(image, request.kernels, onProgress);
+    scope.postMessage({ type: 'image', id: request.id, image }, [image.data.buffer]);
+    return;
+  }
+
+  const { bitmap, width, height } = request;
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('OffscreenCanvas 2D context not available');
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+  if (request.kernels.length > 0) {
+    const image = ctx.getImageData(0, 0, width, height);
+    applyKernels(image, request.kernels, onProgress);
+    ctx.putImageData(image, 0, 0);
+  }
+  const blob = await canvas.convertToBlob({ type: request.mimeType, quality: request.quality });
+  scope.postMessage({ type: 'blob', id: request.id, blob });
+}
+
+scope.onmessage = event => {
+  handle(event.data).catch(error => {
+    scope.postMessage({ type: 'error', id: event.data.id, message: error instanceof Error ? error.message : String(error) });
+  });
+};
@@ -0,0 +1,250 @@
+// Image worker pool
+// Runs pixel kernels and resize/encode jobs on module workers so large photos
+// do not freeze the page. Pixel buffers and bitmaps are transferred, not
+// copied: the caller's ImageData is detached once a job is submitted.
+// Cancelling a running job terminates its worker; a fresh one is spawned for
+// the next job. Without Worker/OffscreenCanvas support jobs run inline.
+
+import { PixelKernel, applyKernels } from './imageKernels';
+
+export type ImageWorkerRequest =
+  | { type: 'kernels'; id: number; image: ImageData; kernels: PixelKernel[] }
+  | {
+      type: 'encode';
+      id: number;
+      bitmap: ImageBitmap;
+      width: number;
+      height: number;
+      mimeType: string;
+      quality: number;
+      kernels: PixelKernel[];
+    };
+
+export type ImageWorkerResponse =
+  | { type: 'progress'; id: number; progress: number }
+  | { type: 'image'; id: number; image: ImageData }
+  | { type: 'blob'; id: number; blob: Blob }
+  | { type: 'error'; id: number; message: string };
+
+export interface ImageTaskOptions {
+  signal?: AbortSignal;
+  // Fraction of the job done, 0 to 1
+  onProgress?: (fraction: number) => void;
+}
+
+export interface EncodeOptions {
+  width: number;
+  height: number;
+  mimeType?: string;
+  quality?: number;
+  // Applied after scaling, before encoding
+  kernels?: PixelKernel[];
+}
+
+export class ImageWorkerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImageWorkerError';
+  }
+}
+
+export class ImageTaskCancelledError extends Error {
+  constructor() {
+    super('Image task was cancelled');
+    this.name = 'ImageTaskCancelledError';
+  }
+}
+
+// Requests without the id, which the pool assigns
+type WithoutId<T> = T extends unknown ? Omit<T, 'id'> : never;
+type ImageWorkerJob = WithoutId<ImageWorkerRequest>;
+type ImageWorkerResult = Extract<ImageWorkerResponse, { type: 'image' | 'blob' }>;
+
+interface PendingTask {
+  request: ImageWorkerRequest;
+  transfer: Transferable[];
+  options: ImageTaskOptions;
+  resolve: (response: ImageWorkerResult) => void;
+  reject: (error: Error) => void;
+}
+
+interface WorkerSlot {
+  worker: Worker;
+  task: PendingTask | null;
+}
+
+export function isImageWorkerSupported(): boolean {
+  return typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+}
+
+function defaultPoolSize(): number {
+  const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2;
+  return Math.max(1, Math.min(4, cores - 1));
+}
+
+export class ImageWorkerPool {
+  private readonly slots: WorkerSlot[] = [];
+  private readonly queue: PendingTask[] = [];
+  private nextId = 1;
+  private destroyed = false;
+
+  constructor(private readonly size = defaultPoolSize()) {}
+
+  /** Apply kernels to the image off the main thread and resolve with the result. */
+  async run(image: ImageData, kernels: PixelKernel[], options: ImageTaskOptions = {}): Promise<ImageData> {
+    if (!isImageWorkerSupported()) {
+      throwIfAborted(options.signal);
+      applyKernels(image, kernels, options.onProgress);
+      return image;
+    }
+    const response = await this.submit({ type: 'kernels', image, kernels }, [image.data.buffer], options);
+    if (response.type !== 'image') throw new ImageWorkerError(`Unexpected ${response.type} response`);
+    return response.image;
+  }
+
+  /** Scale a bitmap onto an OffscreenCanvas, optionally run kernels, and encode it. */
+  async encode(bitmap: ImageBitmap, encode: EncodeOptions, options: ImageTaskOptions = {}): Promise<Blob> {
+    const job = {
+      type: 'encode' as const,
+      bitmap,
+      width: Math.max(1, Math.round(encode.width)),
+      height: Math.max(1, Math.round(encode.height)),
+      mimeType: encode.mimeType ?? 'image/jpeg',
+      quality: encode.quality ?? 0.85,
+      kernels: encode.kernels ?? [],
+    };
+    if (!isImageWorkerSupported()) return encodeInline(job, options);
+    const response = await this.submit(job, [bitmap], options);
+    if (response.type !== 'blob') throw new ImageWorkerError(`Unexpected ${response.type} response`);
+    return response.blob;
+  }
+
+  /** Terminate every worker and reject queued and running jobs. */
+  destroy() {
+    this.destroyed = true;
+    for (const task of this.queue.splice(0)) task.reject(new ImageTaskCancelledError());
+    for (const slot of this.slots.splice(0)) {
+      slot.worker.terminate();
+      slot.task?.reject(new ImageTaskCancelledError());
+    }
+  }
+
+  private submit(job: ImageWorkerJob, transfer: Transferable[], options: ImageTaskOptions): Promise<ImageWorkerResult> {
+    return new Promise((resolve, reject) => {
+      if (this.destroyed) throw new ImageWorkerError('Worker pool has been destroyed');
+      throwIfAborted(options.signal);
+      const { signal } = options;
+      const onAbort = () => this.cancel(task);
+      const task: PendingTask = {
+        request: { ...job, id: this.nextId++ } as ImageWorkerRequest,
+        transfer,
+        options,
+        resolve: response => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(response);
+        },
+        reject: error => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.queue.push(task);
+      this.dispatch();
+    });
+  }
+
+  private dispatch() {
+    while (this.queue.length > 0) {
+      let slot = this.slots.find(candidate => candidate.task === null);
+      if (!slot) {
+        if (this.slots.length >= this.size) return;
+        slot = this.spawn();
+      }
+      const task = this.queue.shift()!;
+      slot.task = task;
+      slot.worker.postMessage(task.request, task.transfer);
+    }
+  }
+
+  private spawn(): WorkerSlot {
+    const worker = new Worker(new URL('./imageWorker.ts', import.meta.url), { type: 'module' });
+    const slot: WorkerSlot = { worker, task: null };
+    worker.onmessage = (event: MessageEvent<ImageWorkerResponse>) => this.handleResponse(slot, event.data);
+    worker.onerror = event => {
+      event.preventDefault();
+      // An uncaught error leaves the worker in an unknown state, so replace it
+      this.retire(slot);
+      slot.task?.reject(new ImageWorkerError(event.message || 'Image worker failed'));
+      this.dispatch();
+    };
+    this.slots.push(slot);
+    return slot;
+  }
+
+  private handleResponse(slot: WorkerSlot, response: ImageWorkerResponse) {
+    const task = slot.task;
+    if (!task || task.request.id !== response.id) return;
+    if (response.type === 'progress') {
+      task.options.onProgress?.(response.progress);
+      return;
+    }
+    slot.task = null;
+    if (response.type === 'error') task.reject(new ImageWorkerError(response.message));
+    else task.resolve(response);
+    this.dispatch();
+  }
+
+  private cancel(task: PendingTask) {
+    const queued = this.queue.indexOf(task);
+    if (queued >= 0) {
+      this.queue.splice(queued, 1);
+    } else {
+      const slot = this.slots.find(candidate => candidate.task === task);
+      if (!slot) return;
+      this.retire(slot);
+    }
+    task.reject(new ImageTaskCancelledError());
+    this.dispatch();
+  }
+
+  private retire(slot: WorkerSlot) {
+    slot.worker.terminate();
+    const index = this.slots.indexOf(slot);
+    if (index >= 0) this.slots.splice(index, 1);
+  }
+}
+
+function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) throw new ImageTaskCancelledError();
+}
+
+// Main-thread fallback for browsers without OffscreenCanvas in workers
+async function encodeInline(job: Extract<ImageWorkerJob, { type: 'encode' }>, options: ImageTaskOptions): Promise<Blob> {
+  throwIfAborted(options.signal);
+  const canvas = document.createElement('canvas');
+  canvas.width = job.width;
+  canvas.height = job.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new ImageWorkerError('Canvas context not available');
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(job.bitmap, 0, 0, job.width, job.height);
+  job.bitmap.close();
+  if (job.kernels.length > 0) {
+    const image = ctx.getImageData(0, 0, job.width, job.height);
+    applyKernels(image, job.kernels, options.onProgress);
+    ctx.putImageData(image, 0, 0);
+  }
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new ImageWorkerError('Failed to create blob'))), job.mimeType, job.quality);
+  });
+}
+
+let sharedPool: ImageWorkerPool | null = null;
+
+/** Pool shared by tools that do not manage their own. */
+export function getImageWorkerPool(): ImageWorkerPool {
+  if (!sharedPool) sharedPool = new ImageWorkerPool();
+  return sharedPool;
+}
@@ -0,0 +1,517 @@
+// JPEG structure and quality inspection
+// Reports what a JPEG's markers actually say: frame type, sampling, restart
+// intervals, quantization and Huffman tables, embedded metadata sizes and the
+// IJG quality the quantization tables correspond to. The DCT coefficients are
+// also decoded to look for the periodic histogram gaps and peaks that a
+// second round of quantization leaves behind.
+
+import { JpegCoefficients, ZIGZAG, componentBlocks, readJpegCoefficients } from './jpegCoefficients';
+import { STANDARD_HUFFMAN_TABLES, STANDARD_QUANT_TABLES, scaledQuantTable } from './jpegEncoder';
+import { JPEG_MARKERS, JpegFormatError, hasSignature } from './jpegSegments';
+
+export interface JpegQuantTableReport {
+  slot: number;
+  precision: 8 | 16;
+  // Row-major (natural) order
+  values: number[];
+  // Closest IJG quality for this table alone
+  quality: number;
+  // The table is exactly the IJG table for that quality
+  exact: boolean;
+}
+
+export interface JpegHuffmanTableReport {
+  tableClass: 'DC' | 'AC';
+  slot: number;
+  codes: number;
+  maxCodeLength: number;
+  // Identical to the Annex K example table
+  standard: boolean;
+  // Number of scans written before this table was defined
+  beforeScan: number;
+}
+
+export interface DoubleCompressionEvidence {
+  // Zigzag position of the coefficient
+  position: number;
+  step: number;
+  // First quantization step that best explains the histogram
+  primaryStep: number;
+  // Correlation between the histogram and that step's pattern, 0-1
+  score: number;
+}
+
+export interface JpegDoubleCompression {
+  // null when the coefficients could not be examined
+  detected: boolean | null;
+  evidence: DoubleCompressionEvidence[];
+  // IJG quality whose luminance table matches the most primary steps
+  primaryQuality?: number;
+  note?: string;
+}
+
+export interface JpegMetadataSizes {
+  jfif?: { version: string; units: 'none' | 'dpi' | 'dpcm'; xDensity: number; yDensity: number };
+  // APP14 color transform: 0 none, 1 YCbCr, 2 YCCK
+  adobeTransform?: number;
+  exifBytes: number;
+  exifThumbnailBytes: number;
+  iccBytes: number;
+  iccColorSpace?: string;
+  xmpBytes: number;
+  iptcBytes: number;
+  comments: string[];
+  // Every APPn and COM segment, headers included
+  totalBytes: number;
+}
+
+export interface JpegQualityReport {
+  fileSize: number;
+  width: number;
+  height: number;
+  precision: number;
+  // SOFn marker name and what it means
+  frameMarker: string;
+  coding: 'baseline' | 'extended' | 'progressive' | 'lossless';
+  arithmetic: boolean;
+  hierarchical: boolean;
+  colorSpace: 'Grayscale' | 'YCbCr' | 'RGB' | 'CMYK' | 'YCCK' | 'Unknown';
+  components: { id: number; h: number; v: number; quantTable: number }[];
+  // Chroma subsampling such as '4:2:0', or null for single-component images
+  subsampling: string | null;
+  restartInterval: number;
+  restartMarkers: number;
+  scans: number;
+  quantTables: JpegQuantTableReport[];
+  // IJG quality of the luminance and chrominance tables taken together
+  quality: { estimate: number; exact: boolean } | null;
+  huffmanTables: JpegHuffmanTableReport[];
+  // No table is an Annex K example table
+  optimizedHuffman: boolean;
+  metadata: JpegMetadataSizes;
+  // Bytes of entropy-coded scan data
+  entropyBytes: number;
+  doubleCompression: JpegDoubleCompression;
+  warnings: string[];
+  recommendations: string[];
+}
+
+type FrameInfo = Pick<JpegQualityReport, 'width' | 'height' | 'precision' | 'frameMarker' | 'coding' | 'arithmetic' | 'hierarchical' | 'components'>;
+
+const SOF_NAMES: Record<number, { coding: JpegQualityReport['coding']; arithmetic: boolean; hierarchical: boolean }> = {
+  0xc0: { coding: 'baseline', arithmetic: false, hierarchical: false },
+  0xc1: { coding: 'extended', arithmetic: false, hierarchical: false },
+  0xc2: { coding: 'progressive', arithmetic: false, hierarchical: false },
+  0xc3: { coding: 'lossless', arithmetic: false, hierarchical: false },
+  0xc5: { coding: 'extended', arithmetic: false, hierarchical: true },
+  0xc6: { coding: 'progressive', arithmetic: false, hierarchical: true },
+  0xc7: { coding: 'lossless', arithmetic: false, hierarchical: true },
+  0xc9: { coding: 'extended', arithmetic: true, hierarchical: false },
+  0xca: { coding: 'progressive', arithmetic: true, hierarchical: false },
+  0xcb: { coding: 'lossless', arithmetic: true, hierarchical: false },
+  0xcd: { coding: 'extended', arithmetic: true, hierarchical: true },
+  0xce: { coding: 'progressive', arithmetic: true, hierarchical: true },
+  0xcf: { coding: 'lossless', arithmetic: true, hierarchical: true },
+};
+
+const SUBSAMPLING_NAMES: Record<string, string> = {
+  '1x1': '4:4:4',
+  '2x1': '4:2:2',
+  '2x2': '4:2:0',
+  '1x2': '4:4:0',
+  '4x1': '4:1:1',
+  '4x2': '4:1:0',
+};
+
+const decoder = new TextDecoder();
+
+// ---------------------------------------------------------------------------
+// Quality estimation
+// ---------------------------------------------------------------------------
+
+// Closest IJG quality for a set of tables, each compared with its own base
+function estimateQuality(tables: { table: Uint16Array; base: number[] }[]): { estimate: number; exact: boolean } {
+  let best = { estimate: 50, error: Infinity };
+  for (let q = 1; q <= 100; q++) {
+    let error = 0;
+    for (const { table, base } of tables) {
+      const expected = scaledQuantTable(base, q);
+      for (let k = 0; k < 64; k++) error += Math.abs(table[k] - expected[k]);
+    }
+    // Ties go to the higher quality, as libjpeg clamps low tables at 255
+    if (error <= best.error) best = { estimate: q, error };
+  }
+  return { estimate: best.estimate, exact: best.error === 0 };
+}
+
+// ---------------------------------------------------------------------------
+// Double compression
+// ---------------------------------------------------------------------------
+
+// Low and middle frequencies carry enough nonzero values for a histogram
+const EXAMINED_POSITIONS = [1, 2, 3, 4, 5, 6, 7, 8, 9];
+const MAX_BIN = 40;
+const MIN_SCORE = 0.9;
+const SPREAD = 0.5;
+
+function pearson(a: number[], b: number[]): number {
+  const n = a.length;
+  const meanA = a.reduce((sum, x) => sum + x, 0) / n;
+  const meanB = b.reduce((sum, x) => sum + x, 0) / n;
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+  for (let i = 0; i < n; i++) {
+    covariance += (a[i] - meanA) * (b[i] - meanB);
+    varianceA += (a[i] - meanA) ** 2;
+    varianceB += (b[i] - meanB) ** 2;
+  }
+  return varianceA > 0 && varianceB > 0 ? covariance / Math.sqrt(varianceA * varianceB) : 0;
+}
+
+/**
+ * Quantizing with step q1 and then again with q2 makes some magnitudes of
+ * the final histogram unreachable (q1 > q2) or reachable from two values
+ * instead of one (q1 < q2). For every candidate q1 the expected pattern is
+ * correlated with the histogram's deviation from a fitted Laplacian; a strong
+ * match at several frequencies means the image was compressed twice.
+ */
+function examinePosition(histogram: Float64Array, step: number): { primaryStep: number; score: number } | null {
+  let last = 0;
+  let total = 0;
+  for (let v = 1; v <= MAX_BIN; v++) {
+    total += histogram[v];
+    if (histogram[v] >= 5) last = v;
+  }
+  if (last < 4 || total < 100) return null;
+
+  // Weighted least squares fit of log(count) = a - b * v
+  let sw = 0;
+  let sx = 0;
+  let sy = 0;
+  let sxx = 0;
+  let sxy = 0;
+  for (let v = 1; v <= last; v++) {
+    if (histogram[v] === 0) continue;
+    const w = histogram[v];
+    const y = Math.log(histogram[v]);
+    sw += w;
+    sx += w * v;
+    sy += w * y;
+    sxx += w * v * v;
+    sxy += w * v * y;
+  }
+  const slope = (sw * sxy - sx * sy) / (sw * sxx - sx * sx || 1);
+  const intercept = (sy - slope * sx) / sw;
+  const deviation: number[] = [];
+  for (let v = 1; v <= last; v++) deviation.push(histogram[v] / Math.exp(intercept + slope * v));
+
+  let best: { primaryStep: number; score: number } | null = null;
+  // At least two reachable magnitudes must fall inside the histogram, or a
+  // single bump in its tail would pass for a periodic pattern
+  for (let q1 = 1; q1 <= Math.min(255, step * 8, (last * step) / 2); q1++) {
+    if (q1 === step) continue;
+    // Decoding to 8-bit pixels perturbs every value a little, so each
+    // reachable magnitude is spread over its neighbouring bins
+    const pattern = new Array<number>(last).fill(0);
+    for (let m = 1; m * q1 <= (last + 1) * step; m++) {
+      const centre = (m * q1) / step;
+      for (let v = Math.max(1, Math.floor(centre - 1)); v <= Math.min(last, Math.ceil(centre + 1)); v++) {
+        pattern[v - 1] += Math.exp(-((v - centre) ** 2) / (2 * SPREAD * SPREAD));
+      }
+    }
+    if (pattern.every(count => Math.abs(count - pattern[0]) < 1e-6)) continue;
+    const score = pearson(deviation, pattern);
+    if (!best || score > best.score) best = { primaryStep: q1, score };
+  }
+  return best;
+}
+
+function detectDoubleCompression(frame: JpegCoefficients): JpegDoubleCompression {
+  const luma = frame.components[0];
+  const table = frame.quantTables[luma.quantTable]!;
+  const { columns, rows } = componentBlocks(frame, luma);
+  const evidence: DoubleCompressionEvidence[] = [];
+  let examined = 0;
+  for (const position of EXAMINED_POSITIONS) {
+    const histogram = new Float64Array(MAX_BIN + 1);
+    for (let row = 0; row < rows; row++) {
+      for (let column = 0; column < columns; column++) {
+        const magnitude = Math.abs(luma.coefficients[(row * luma.blocksPerLine + column) * 64 + position]);
+        if (magnitude <= MAX_BIN) histogram[magnitude]++;
+      }
+    }
+    const result = examinePosition(histogram, table[position]);
+    if (!result) continue;
+    examined++;
+    if (result.score >= MIN_SCORE) evidence.push({ position, step: table[position], primaryStep: result.primaryStep, score: Math.round(result.score * 1000) / 1000 });
+  }
+  if (examined < 3) {
+    return { detected: null, evidence, note: 'Too few nonzero coefficients to judge; the image is small or very flat' };
+  }
+  const detected = evidence.length >= Math.max(2, Math.ceil(examined / 3));
+  if (!detected) return { detected, evidence };
+
+  let primaryQuality: number | undefined;
+  let bestMatches = 1;
+  for (let q = 1; q <= 100; q++) {
+    const candidate = scaledQuantTable(STANDARD_QUANT_TABLES.luminance, q);
+    const matches = evidence.filter(item => candidate[item.position] === item.primaryStep).length;
+    if (matches > bestMatches) {
+      bestMatches = matches;
+      primaryQuality = q;
+    }
+  }
+  return { detected, evidence, primaryQuality };
+}
+
+// ---------------------------------------------------------------------------
+// Metadata
+// ---------------------------------------------------------------------------
+
+// Size of the thumbnail referenced from IFD1 of an EXIF block
+function exifThumbnailSize(exif: Uint8Array): number {
+  const tiff = exif.subarray(6);
+  if (tiff.length < 8) return 0;
+  const little = tiff[0] === 0x49;
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const u16 = (offset: number) => view.getUint16(offset, little);
+  const u32 = (offset: number) => view.getUint32(offset, little);
+  const ifd0 = u32(4);
+  if (ifd0 + 2 > tiff.length) return 0;
+  const next = ifd0 + 2 + u16(ifd0) * 12;
+  if (next + 4 > tiff.length) return 0;
+  const ifd1 = u32(next);
+  if (ifd1 === 0 || ifd1 + 2 > tiff.length) return 0;
+  for (let i = 0; i < u16(ifd1); i++) {
+    const entry = ifd1 + 2 + i * 12;
+    if (entry + 12 > tiff.length) break;
+    // JPEGInterchangeFormatLength
+    if (u16(entry) === 0x0202) return u32(entry + 8);
+  }
+  return 0;
+}
+
+// ---------------------------------------------------------------------------
+// Report
+// ---------------------------------------------------------------------------
+
+const formatKb = (bytes: number) => `${(bytes / 1024).toFixed(1)} KB`;
+
+function recommend(report: JpegQualityReport): string[] {
+  const tips: string[] = [];
+  const quality = report.quality?.estimate;
+  if (quality !== undefined && quality >= 95) {
+    tips.push(`Saved at quality ${quality}; re-saving at 85-90 usually halves the size with little visible change`);
+  } else if (quality !== undefined && quality < 50) {
+    tips.push(`Heavily compressed (quality ${quality}); expect visible blocking and ringing`);
+  }
+  if (report.doubleCompression.detected) {
+    tips.push(report.doubleCompression.primaryQuality
+      ? `Re-saved JPEG: it was first compressed at about quality ${report.doubleCompression.primaryQuality}, so detail lost then cannot be recovered`
+      : 'Re-saved JPEG: the coefficient histograms show two rounds of quantization');
+  }
+  if (report.coding === 'baseline' && report.fileSize > 10 * 1024) {
+    tips.push('A progressive version would show a full preview sooner and is usually a few percent smaller');
+  }
+  if (!report.optimizedHuffman && report.huffmanTables.length > 0) {
+    tips.push('Uses the standard Huffman tables; optimizing them shrinks the file losslessly');
+  }
+  const { metadata } = report;
+  if (metadata.totalBytes > report.fileSize * 0.1 && metadata.totalBytes > 8 * 1024) {
+    tips.push(`Metadata takes ${formatKb(metadata.totalBytes)} (${Math.round((metadata.totalBytes / report.fileSize) * 100)}% of the file)`);
+  }
+  if (metadata.exifThumbnailBytes > 0) tips.push(`An embedded EXIF thumbnail adds ${formatKb(metadata.exifThumbnailBytes)}`);
+  if (report.subsampling === '4:4:4' && quality !== undefined && quality < 90) {
+    tips.push('Full-resolution chroma at this quality; 4:2:0 subsampling would save space with little visible change in photos');
+  }
+  if (tips.length === 0) tips.push('No issues found in the file structure');
+  return tips;
+}
+
+/** Inspect the markers and coefficients of a JPEG file. */
+export function analyzeJpeg(bytes: Uint8Array): JpegQualityReport {
+  if (bytes.length < 4 || bytes[0] !== 0xff || bytes[1] !== JPEG_MARKERS.SOI) throw new JpegFormatError('Not a JPEG file');
+  const warnings: string[] = [];
+  // Quantization tables by slot, in zigzag order
+  const quantTables = new Map<number, { precision: 8 | 16; zigzag: Uint16Array }>();
+  const huffmanTables: JpegHuffmanTableReport[] = [];
+  const metadata: JpegMetadataSizes = { exifBytes: 0, exifThumbnailBytes: 0, iccBytes: 0, xmpBytes: 0, iptcBytes: 0, comments: [], totalBytes: 0 };
+  let frame: FrameInfo | null = null;
+  let restartInterval = 0;
+  let restartMarkers = 0;
+  let scans = 0;
+  let entropyBytes = 0;
+  let sawEoi = false;
+  let offset = 2;
+
+  while (offset < bytes.length) {
+    if (bytes[offset] !== 0xff) {
+      warnings.push(`Unexpected data at offset ${offset}`);
+      break;
+    }
+    while (bytes[offset] === 0xff && offset < bytes.length) offset++;
+    const marker = bytes[offset++];
+    if (marker === JPEG_MARKERS.EOI) {
+      sawEoi = true;
+      if (offset < bytes.length) warnings.push(`${bytes.length - offset} bytes follow the end-of-image marker`);
+      break;
+    }
+    if (offset + 2 > bytes.length) break;
+    const length = (bytes[offset] << 8) | bytes[offset + 1];
+    if (length < 2 || offset + length > bytes.length) {
+      warnings.push(`Segment 0x${marker.toString(16)} is truncated`);
+      break;
+    }
+    const data = bytes.subarray(offset + 2, offset + length);
+    offset += length;
+
+    if (marker === JPEG_MARKERS.DQT) {
+      for (let p = 0; p < data.length;) {
+        const wide = data[p] >> 4;
+        const slot = data[p] & 15;
+        p++;
+        const zigzag = new Uint16Array(64);
+        for (let k = 0; k < 64 && p < data.length; k++) {
+          zigzag[k] = wide ? (data[p] << 8) | data[p + 1] : data[p];
+          p += wide ? 2 : 1;
+        }
+        quantTables.set(slot, { precision: wide ? 16 : 8, zigzag });
+      }
+    } else if (marker === JPEG_MARKERS.DHT) {
+      for (let p = 0; p + 17 <= data.length;) {
+        const tableClass = data[p] >> 4;
+        const slot = data[p] & 15;
+        const counts = data.subarray(p + 1, p + 17);
+        const codes = counts.reduce((sum, count) => sum + count, 0);
+        const symbols = data.subarray(p + 17, p + 17 + codes);
+        let maxCodeLength = 0;
+        counts.forEach((count, i) => { if (count) maxCodeLength = i + 1; });
+        const example = STANDARD_HUFFMAN_TABLES[slot]?.[tableClass === 0 ? 'dc' : 'ac'];
+        const standard = !!example && example.counts.every((count, i) => count === counts[i]) && example.symbols.every((symbol, i) => symbol === symbols[i]);
+        huffmanTables.push({ tableClass: tableClass === 0 ? 'DC' : 'AC', slot, codes, maxCodeLength, standard, beforeScan: scans });
+        p += 17 + codes;
+      }
+    } else if (marker === JPEG_MARKERS.DRI) {
+      restartInterval = (data[0] << 8) | data[1];
+    } else if (SOF_NAMES[marker]) {
+      if (frame) warnings.push('More than one frame header');
+      const components = [];
+      for (let i = 0; i < data[5]; i++) {
+        const p = 6 + i * 3;
+        components.push({ id: data[p], h: data[p + 1] >> 4, v: data[p + 1] & 15, quantTable: data[p + 2] });
+      }
+      frame = {
+        width: (data[3] << 8) | data[4],
+        height: (data[1] << 8) | data[2],
+        precision: data[0],
+        frameMarker: `SOF${marker - 0xc0}`,
+        ...SOF_NAMES[marker],
+        components,
+      };
+    } else if (marker === JPEG_MARKERS.SOS) {
+      scans++;
+      // Walk the entropy-coded data up to the next real marker
+      const start = offset;
+      while (offset + 1 < bytes.length) {
+        if (bytes[offset] === 0xff) {
+          const next = bytes[offset + 1];
+          if (next >= 0xd0 && next <= 0xd7) {
+            restartMarkers++;
+          } else if (next !== 0 && next !== 0xff) {
+            break;
+          }
+        }
+        offset++;
+      }
+      entropyBytes += offset - start;
+    } else if ((marker >= 0xe0 && marker <= 0xef) || marker === JPEG_MARKERS.COM) {
+      const segment = { marker, data };
+      metadata.totalBytes += data.length + 4;
+      if (marker === JPEG_MARKERS.APP0 && hasSignature(segment, 'JFIF\0') && data.length >= 12) {
+        metadata.jfif = {
+          version: `${data[5]}.${String(data[6]).padStart(2, '0')}`,
+          units: data[7] === 1 ? 'dpi' : data[7] === 2 ? 'dpcm' : 'none',
+          xDensity: (data[8] << 8) | data[9],
+          yDensity: (data[10] << 8) | data[11],
+        };
+      } else if (marker === JPEG_MARKERS.APP1 && hasSignature(segment, 'Exif\0\0')) {
+        metadata.exifBytes += data.length;
+        metadata.exifThumbnailBytes += exifThumbnailSize(data);
+      } else if (marker === JPEG_MARKERS.APP1 && (hasSignature(segment, 'http://ns.adobe.com/xap/1.0/\0') || hasSignature(segment, 'http://ns.adobe.com/xmp/extension/\0'))) {
+        metadata.xmpBytes += data.length;
+      } else if (marker === JPEG_MARKERS.APP2 && hasSignature(segment, 'ICC_PROFILE\0')) {
+        // 12-byte signature, then chunk number and count
+        metadata.iccBytes += data.length - 14;
+        if (data[12] === 1 && data.length >= 14 + 20) metadata.iccColorSpace = decoder.decode(data.subarray(14 + 16, 14 + 20)).trim();
+      } else if (marker === JPEG_MARKERS.APP13 && hasSignature(segment, 'Photoshop 3.0\0')) {
+        metadata.iptcBytes += data.length;
+      } else if (marker === JPEG_MARKERS.APP14 && hasSignature(segment, 'Adobe') && data.length >= 12) {
+        metadata.adobeTransform = data[11];
+      } else if (marker === JPEG_MARKERS.COM) {
+        metadata.comments.push(decoder.decode(data));
+      }
+    }
+  }
+  if (!frame) throw new JpegFormatError('No frame header found');
+  if (!sawEoi) warnings.push('The file is truncated: no end-of-image marker');
+
+  const ids = frame.components.map(component => component.id);
+  const colorSpace: JpegQualityReport['colorSpace'] = frame.components.length === 1 ? 'Grayscale'
+    : frame.components.length === 3 ? (metadata.adobeTransform === 0 || (!metadata.jfif && ids.join() === '82,71,66') ? 'RGB' : 'YCbCr')
+      : frame.components.length === 4 ? (metadata.adobeTransform === 2 ? 'YCCK' : 'CMYK') : 'Unknown';
+  let subsampling: string | null = null;
+  if (frame.components.length > 1) {
+    const [luma, ...others] = frame.components;
+    const uniform = others.every(component => component.h === others[0].h && component.v === others[0].v);
+    const key = `${luma.h / others[0].h}x${luma.v / others[0].v}`;
+    subsampling = uniform && SUBSAMPLING_NAMES[key] ? SUBSAMPLING_NAMES[key] : frame.components.map(component => `${component.h}x${component.v}`).join(', ');
+  }
+
+  // The first component's table is compared with the luminance example,
+  // every other table with the chrominance one
+  const lumaSlot = frame.components[0].quantTable;
+  const baseFor = (slot: number) => (slot === lumaSlot ? STANDARD_QUANT_TABLES.luminance : STANDARD_QUANT_TABLES.chrominance);
+  const tableReports: JpegQuantTableReport[] = [...quantTables.entries()].map(([slot, { precision, zigzag }]) => {
+    const values = new Array<number>(64);
+    for (let k = 0; k < 64; k++) values[ZIGZAG[k]] = zigzag[k];
+    const { estimate, exact } = estimateQuality([{ table: zigzag, base: baseFor(slot) }]);
+    return { slot, precision, values, quality: estimate, exact };
+  });
+  const usedSlots = [...new Set(frame.components.map(component => component.quantTable))];
+  const missing = usedSlots.filter(slot => !quantTables.has(slot));
+  if (missing.length > 0) warnings.push(`Missing quantization table ${missing.join(', ')}`);
+  const quality = quantTables.has(lumaSlot)
+    ? estimateQuality(usedSlots.filter(slot => quantTables.has(slot)).map(slot => ({ table: quantTables.get(slot)!.zigzag, base: baseFor(slot) })))
+    : null;
+
+  let doubleCompression: JpegDoubleCompression;
+  try {
+    doubleCompression = frame.arithmetic || frame.coding === 'lossless'
+      ? { detected: null, evidence: [], note: 'Only Huffman-coded DCT images can be examined' }
+      : detectDoubleCompression(readJpegCoefficients(bytes));
+  } catch (error) {
+    doubleCompression = { detected: null, evidence: [], note: error instanceof Error ? error.message : 'The coefficients could not be decoded' };
+  }
+
+  const report: JpegQualityReport = {
+    fileSize: bytes.length,
+    ...frame,
+    colorSpace,
+    subsampling,
+    restartInterval,
+    restartMarkers,
+    scans,
+    quantTables: tableReports,
+    quality,
+    huffmanTables,
+    optimizedHuffman: huffmanTables.length > 0 && huffmanTables.every(table => !table.standard),
+    metadata,
+    entropyBytes,
+    doubleCompression,
+    warnings,
+    recommendations: [],
+  };
+  report.recommendations = recommend(report);
+  return report;
+}
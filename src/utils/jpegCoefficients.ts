@@ -0,0 +1,419 @@
+// JPEG DCT coefficient reader
+// Decodes the Huffman-coded scans of a baseline, extended or progressive JPEG
+// down to its quantized DCT coefficients without running the inverse DCT, so
+// a file can be re-encoded, transformed or inspected with no generation loss.
+
+import { JPEG_MARKERS, JpegFormatError, JpegSegment } from './jpegSegments';
+
+// Natural (row-major) index of each zigzag position in an 8x8 block
+export const ZIGZAG = new Uint8Array([
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5,
+  12, 19, 26, 33, 40, 48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28,
+  35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51,
+  58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54, 47, 55, 62, 63,
+]);
+
+export const SOF_MARKERS = {
+  BASELINE: 0xc0,
+  EXTENDED: 0xc1,
+  PROGRESSIVE: 0xc2,
+} as const;
+
+export interface JpegComponent {
+  id: number;
+  // Sampling factors
+  h: number;
+  v: number;
+  // Quantization table slot, 0-3
+  quantTable: number;
+  // Block grid, padded to whole MCUs
+  blocksPerLine: number;
+  blocksPerColumn: number;
+  // Quantized coefficients, 64 per block in zigzag order, blocks row-major
+  coefficients: Int16Array;
+}
+
+export interface JpegCoefficients {
+  width: number;
+  height: number;
+  progressive: boolean;
+  components: JpegComponent[];
+  // Quantization tables by slot, 64 values each in zigzag order
+  quantTables: (Uint16Array | undefined)[];
+  // MCUs between restart markers, 0 for none
+  restartInterval: number;
+  // APPn and COM segments in file order
+  segments: JpegSegment[];
+}
+
+export interface HuffmanSpec {
+  // Number of codes of each length 1-16
+  counts: Uint8Array;
+  symbols: Uint8Array;
+}
+
+export function maxSampling(frame: Pick<JpegCoefficients, 'components'>): { h: number; v: number } {
+  return {
+    h: Math.max(...frame.components.map(component => component.h)),
+    v: Math.max(...frame.components.map(component => component.v)),
+  };
+}
+
+/** Size of the MCU grid of an interleaved scan. */
+export function mcuGrid(frame: Pick<JpegCoefficients, 'width' | 'height' | 'components'>): { columns: number; rows: number } {
+  const { h, v } = maxSampling(frame);
+  return { columns: Math.ceil(frame.width / (8 * h)), rows: Math.ceil(frame.height / (8 * v)) };
+}
+
+/**
+ * Blocks that hold image samples of a component. A scan of that component
+ * alone codes exactly these; interleaved scans also code the MCU padding.
+ */
+export function componentBlocks(frame: Pick<JpegCoefficients, 'width' | 'height' | 'components'>, component: JpegComponent): { columns: number; rows: number } {
+  const { h, v } = maxSampling(frame);
+  return {
+    columns: Math.ceil(Math.ceil((frame.width * component.h) / h) / 8),
+    rows: Math.ceil(Math.ceil((frame.height * component.v) / v) / 8),
+  };
+}
+
+// Lookup on the next 16 bits: (code length << 8) | symbol, 0 for no code
+function buildDecodeTable(spec: HuffmanSpec): Uint16Array {
+  const table = new Uint16Array(1 << 16);
+  let code = 0;
+  let k = 0;
+  for (let length = 1; length <= 16; length++) {
+    for (let i = 0; i < spec.counts[length - 1]; i++, k++) {
+      const shift = 16 - length;
+      table.fill((length << 8) | spec.symbols[k], code << shift, (code + 1) << shift);
+      code++;
+    }
+    code <<= 1;
+  }
+  return table;
+}
+
+class ScanReader {
+  private buffer = 0;
+  private count = 0;
+  private atMarker = false;
+
+  constructor(private data: Uint8Array, public offset: number) {}
+
+  private fill() {
+    while (this.count <= 24) {
+      let byte = 0;
+      if (!this.atMarker && this.offset < this.data.length) {
+        byte = this.data[this.offset];
+        if (byte === 0xff) {
+          const next = this.data[this.offset + 1];
+          if (next === 0) {
+            this.offset += 2;
+          } else {
+            // A marker ends the entropy-coded data; decoders pad with zeros
+            this.atMarker = true;
+            byte = 0;
+          }
+        } else {
+          this.offset++;
+        }
+      }
+      this.buffer = ((this.buffer << 8) | byte) >>> 0;
+      this.count += 8;
+    }
+  }
+
+  bits(n: number): number {
+    if (n === 0) return 0;
+    this.fill();
+    this.count -= n;
+    const value = (this.buffer >>> this.count) & ((1 << n) - 1);
+    this.buffer &= (1 << this.count) - 1;
+    return value;
+  }
+
+  // Read `n` bits as a signed value (JPEG "EXTEND")
+  signed(n: number): number {
+    const value = this.bits(n);
+    return value < 1 << (n - 1) ? value - (1 << n) + 1 : value;
+  }
+
+  decode(table: Uint16Array | undefined): number {
+    if (!table) throw new JpegFormatError('Scan uses an undefined Huffman table');
+    this.fill();
+    const entry = table[(this.buffer >>> (this.count - 16)) & 0xffff];
+    if (entry === 0) throw new JpegFormatError('Invalid Huffman code');
+    this.count -= entry >> 8;
+    this.buffer &= (1 << this.count) - 1;
+    return entry & 0xff;
+  }
+
+  // Drop buffered bits and step over the next RSTn marker
+  restart() {
+    this.buffer = 0;
+    this.count = 0;
+    this.atMarker = false;
+    while (this.offset + 1 < this.data.length) {
+      if (this.data[this.offset] === 0xff && this.data[this.offset + 1] >= 0xd0 && this.data[this.offset + 1] <= 0xd7) {
+        this.offset += 2;
+        return;
+      }
+      this.offset++;
+    }
+  }
+
+  // Offset of the marker that follows the scan data
+  end(): number {
+    let offset = this.offset;
+    while (offset + 1 < this.data.length) {
+      const next = this.data[offset + 1];
+      if (this.data[offset] === 0xff && next !== 0 && next !== 0xff && !(next >= 0xd0 && next <= 0xd7)) return offset;
+      offset++;
+    }
+    return this.data.length;
+  }
+}
+
+interface ScanComponent {
+  component: JpegComponent;
+  dc?: Uint16Array;
+  ac?: Uint16Array;
+  pred: number;
+}
+
+interface ScanHeader {
+  components: ScanComponent[];
+  ss: number;
+  se: number;
+  ah: number;
+  al: number;
+}
+
+function decodeScan(data: Uint8Array, offset: number, frame: JpegCoefficients, scan: ScanHeader): number {
+  const reader = new ScanReader(data, offset);
+  const { ss, se, ah, al } = scan;
+  let eobrun = 0;
+
+  const sequential = (sc: ScanComponent, coefs: Int16Array, o: number) => {
+    const t = reader.decode(sc.dc);
+    sc.pred += t === 0 ? 0 : reader.signed(t);
+    coefs[o] = sc.pred;
+    for (let k = 1; k < 64;) {
+      const rs = reader.decode(sc.ac);
+      const s = rs & 15;
+      const r = rs >> 4;
+      if (s === 0) {
+        if (r < 15) break;
+        k += 16;
+        continue;
+      }
+      k += r;
+      if (k > 63) break;
+      coefs[o + k] = reader.signed(s);
+      k++;
+    }
+  };
+
+  const dcFirst = (sc: ScanComponent, coefs: Int16Array, o: number) => {
+    const t = reader.decode(sc.dc);
+    sc.pred += t === 0 ? 0 : reader.signed(t);
+    coefs[o] = sc.pred * (1 << al);
+  };
+
+  const dcRefine = (_sc: ScanComponent, coefs: Int16Array, o: number) => {
+    if (reader.bits(1)) coefs[o] |= 1 << al;
+  };
+
+  const acFirst = (sc: ScanComponent, coefs: Int16Array, o: number) => {
+    if (eobrun > 0) {
+      eobrun--;
+      return;
+    }
+    for (let k = ss; k <= se;) {
+      const rs = reader.decode(sc.ac);
+      const s = rs & 15;
+      const r = rs >> 4;
+      if (s === 0) {
+        if (r < 15) {
+          eobrun = (1 << r) - 1 + reader.bits(r);
+          break;
+        }
+        k += 16;
+        continue;
+      }
+      k += r;
+      if (k > 63) break;
+      coefs[o + k] = reader.signed(s) * (1 << al);
+      k++;
+    }
+  };
+
+  // Section G.1.2.3: correction bits for nonzero coefficients are
+  // interleaved with the codes for newly nonzero ones
+  const acRefine = (sc: ScanComponent, coefs: Int16Array, o: number) => {
+    const p1 = 1 << al;
+    const m1 = -1 << al;
+    const correct = (k: number) => {
+      const coef = coefs[o + k];
+      if (reader.bits(1) && (coef & p1) === 0) coefs[o + k] = coef >= 0 ? coef + p1 : coef + m1;
+    };
+    let k = ss;
+    if (eobrun === 0) {
+      for (; k <= se; k++) {
+        const rs = reader.decode(sc.ac);
+        let r = rs >> 4;
+        let value = 0;
+        if ((rs & 15) !== 0) {
+          value = reader.bits(1) ? p1 : m1;
+        } else if (r !== 15) {
+          eobrun = (1 << r) + reader.bits(r);
+          break;
+        }
+        for (; k <= se; k++) {
+          if (coefs[o + k] !== 0) {
+            correct(k);
+          } else if (--r < 0) {
+            break;
+          }
+        }
+        if (value && k <= se) coefs[o + k] = value;
+      }
+    }
+    if (eobrun > 0) {
+      for (; k <= se; k++) if (coefs[o + k] !== 0) correct(k);
+      eobrun--;
+    }
+  };
+
+  const decodeBlock = !frame.progressive ? sequential
+    : ss === 0 ? (ah === 0 ? dcFirst : dcRefine)
+      : ah === 0 ? acFirst : acRefine;
+  const interval = frame.restartInterval;
+
+  if (scan.components.length === 1) {
+    const sc = scan.components[0];
+    const { component } = sc;
+    const { columns, rows } = componentBlocks(frame, component);
+    for (let n = 0; n < columns * rows; n++) {
+      if (interval && n > 0 && n % interval === 0) {
+        reader.restart();
+        sc.pred = 0;
+        eobrun = 0;
+      }
+      const row = Math.floor(n / columns);
+      const column = n % columns;
+      decodeBlock(sc, component.coefficients, (row * component.blocksPerLine + column) * 64);
+    }
+  } else {
+    const grid = mcuGrid(frame);
+    for (let n = 0; n < grid.columns * grid.rows; n++) {
+      if (interval && n > 0 && n % interval === 0) {
+        reader.restart();
+        for (const sc of scan.components) sc.pred = 0;
+        eobrun = 0;
+      }
+      const mcuRow = Math.floor(n / grid.columns);
+      const mcuColumn = n % grid.columns;
+      for (const sc of scan.components) {
+        const { component } = sc;
+        for (let v = 0; v < component.v; v++) {
+          for (let h = 0; h < component.h; h++) {
+            const row = mcuRow * component.v + v;
+            const column = mcuColumn * component.h + h;
+            decodeBlock(sc, component.coefficients, (row * component.blocksPerLine + column) * 64);
+          }
+        }
+      }
+    }
+  }
+  return reader.end();
+}
+
+/** Decode every scan of a JPEG into quantized DCT coefficients. */
+export function readJpegCoefficients(bytes: Uint8Array): JpegCoefficients {
+  if (bytes.length < 4 || bytes[0] !== 0xff || bytes[1] !== JPEG_MARKERS.SOI) throw new JpegFormatError('Not a JPEG file');
+  const quantTables: (Uint16Array | undefined)[] = [];
+  const dcTables: (Uint16Array | undefined)[] = [];
+  const acTables: (Uint16Array | undefined)[] = [];
+  const segments: JpegSegment[] = [];
+  let frame: JpegCoefficients | null = null;
+  let restartInterval = 0;
+  let offset = 2;
+
+  while (offset < bytes.length) {
+    if (bytes[offset] !== 0xff) throw new JpegFormatError(`Expected a marker at offset ${offset}`);
+    while (bytes[offset] === 0xff && offset < bytes.length) offset++;
+    const marker = bytes[offset++];
+    if (marker === JPEG_MARKERS.EOI) break;
+    if ((marker >= 0xd0 && marker <= 0xd7) || marker === 0x01) continue;
+    const length = (bytes[offset] << 8) | bytes[offset + 1];
+    if (length < 2 || offset + length > bytes.length) throw new JpegFormatError(`Truncated segment 0x${marker.toString(16)}`);
+    const data = bytes.subarray(offset + 2, offset + length);
+    offset += length;
+
+    if (marker === JPEG_MARKERS.DQT) {
+      for (let p = 0; p < data.length;) {
+        const wide = data[p] >> 4;
+        const slot = data[p] & 15;
+        p++;
+        const table = new Uint16Array(64);
+        for (let k = 0; k < 64; k++) {
+          table[k] = wide ? (data[p] << 8) | data[p + 1] : data[p];
+          p += wide ? 2 : 1;
+        }
+        quantTables[slot] = table;
+      }
+    } else if (marker === JPEG_MARKERS.DHT) {
+      for (let p = 0; p < data.length;) {
+        const tableClass = data[p] >> 4;
+        const slot = data[p] & 15;
+        const counts = data.slice(p + 1, p + 17);
+        const total = counts.reduce((sum, count) => sum + count, 0);
+        const symbols = data.slice(p + 17, p + 17 + total);
+        p += 17 + total;
+        (tableClass === 0 ? dcTables : acTables)[slot] = buildDecodeTable({ counts, symbols });
+      }
+    } else if (marker === JPEG_MARKERS.DRI) {
+      restartInterval = (data[0] << 8) | data[1];
+    } else if (marker === SOF_MARKERS.BASELINE || marker === SOF_MARKERS.EXTENDED || marker === SOF_MARKERS.PROGRESSIVE) {
+      if (frame) throw new JpegFormatError('More than one frame header');
+      if (data[0] !== 8) throw new JpegFormatError(`${data[0]}-bit JPEGs are not supported`);
+      const height = (data[1] << 8) | data[2];
+      const width = (data[3] << 8) | data[4];
+      if (width === 0 || height === 0) throw new JpegFormatError('Image has no size');
+      const components: JpegComponent[] = [];
+      for (let i = 0; i < data[5]; i++) {
+        const p = 6 + i * 3;
+        components.push({ id: data[p], h: data[p + 1] >> 4, v: data[p + 1] & 15, quantTable: data[p + 2], blocksPerLine: 0, blocksPerColumn: 0, coefficients: new Int16Array(0) });
+      }
+      frame = { width, height, progressive: marker === SOF_MARKERS.PROGRESSIVE, components, quantTables, restartInterval: 0, segments };
+      const grid = mcuGrid(frame);
+      for (const component of components) {
+        component.blocksPerLine = grid.columns * component.h;
+        component.blocksPerColumn = grid.rows * component.v;
+        component.coefficients = new Int16Array(component.blocksPerLine * component.blocksPerColumn * 64);
+      }
+    } else if ((marker >= 0xc3 && marker <= 0xcf) && marker !== JPEG_MARKERS.DHT && marker !== 0xc8 && marker !== 0xcc) {
+      throw new JpegFormatError('Lossless, hierarchical and arithmetic-coded JPEGs are not supported');
+    } else if (marker === JPEG_MARKERS.SOS) {
+      if (!frame) throw new JpegFormatError('Scan before the frame header');
+      frame.restartInterval = restartInterval;
+      const components: ScanComponent[] = [];
+      for (let i = 0; i < data[0]; i++) {
+        const component = frame.components.find(candidate => candidate.id === data[1 + i * 2]);
+        if (!component) throw new JpegFormatError('Scan refers to an unknown component');
+        const tables = data[2 + i * 2];
+        components.push({ component, dc: dcTables[tables >> 4], ac: acTables[tables & 15], pred: 0 });
+      }
+      const p = 1 + data[0] * 2;
+      offset = decodeScan(bytes, offset, frame, { components, ss: data[p], se: data[p + 1], ah: data[p + 2] >> 4, al: data[p + 2] & 15 });
+    } else if ((marker >= 0xe0 && marker <= 0xef) || marker === JPEG_MARKERS.COM) {
+      segments.push({ marker, data });
+    }
+  }
+  if (!frame) throw new JpegFormatError('No image data found');
+  for (const component of frame.components) {
+    if (!quantTables[component.quantTable]) throw new JpegFormatError('Missing quantization table');
+  }
+  return frame;
+}
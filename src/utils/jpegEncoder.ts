@@ -0,0 +1,828 @@
+// JPEG encoder
+// Writes baseline or progressive (SOF2) JPEGs from quantized DCT coefficients.
+// Progressive files follow a scan script of spectral-selection and
+// successive-approximation scans, and every scan gets Huffman tables built
+// from its own symbol statistics. Pixels are encoded by converting to YCbCr,
+// subsampling chroma and quantizing with the IJG-scaled Annex K tables; an
+// existing JPEG can instead be transcoded losslessly by re-using its
+// coefficients.
+
+import { ImageEncodeError } from './imageEncoders';
+import { PixelBuffer } from './imageKernels';
+import { HuffmanSpec, JpegCoefficients, JpegComponent, SOF_MARKERS, ZIGZAG, componentBlocks, maxSampling, mcuGrid, readJpegCoefficients } from './jpegCoefficients';
+import { JPEG_MARKERS } from './jpegSegments';
+
+export type ChromaSubsampling = '4:4:4' | '4:2:2' | '4:2:0';
+
+export type ScanPreset = 'spectral' | 'standard' | 'fine';
+
+export interface JpegScan {
+  // Frame component indexes, in frame order
+  components: number[];
+  // Spectral selection: first and last zigzag position
+  ss: number;
+  se: number;
+  // Successive approximation: previous and current point transform
+  ah: number;
+  al: number;
+}
+
+export interface JpegWriteOptions {
+  progressive?: boolean;
+  // Progressive scans; defaults to the 'standard' preset
+  scanScript?: JpegScan[];
+  // Build Huffman tables from the image statistics instead of using the
+  // Annex K examples; progressive files always do
+  optimizeHuffman?: boolean;
+  // MCUs between restart markers; defaults to the source's setting
+  restartInterval?: number;
+}
+
+export interface JpegEncodeOptions extends JpegWriteOptions {
+  // 1-100, IJG scale
+  quality?: number;
+  subsampling?: ChromaSubsampling;
+  grayscale?: boolean;
+}
+
+export const CHROMA_SUBSAMPLINGS: ChromaSubsampling[] = ['4:4:4', '4:2:2', '4:2:0'];
+export const SCAN_PRESETS: ScanPreset[] = ['spectral', 'standard', 'fine'];
+
+// Annex K.1 example tables, natural order
+const LUMINANCE_QUANT = [
+  16, 11, 10, 16, 24, 40, 51, 61, 12, 12, 14, 19, 26, 58, 60, 55,
+  14, 13, 16, 24, 40, 57, 69, 56, 14, 17, 22, 29, 51, 87, 80, 62,
+  18, 22, 37, 56, 68, 109, 103, 77, 24, 35, 55, 64, 81, 104, 113, 92,
+  49, 64, 78, 87, 103, 121, 120, 101, 72, 92, 95, 98, 112, 100, 103, 99,
+];
+const CHROMINANCE_QUANT = [
+  17, 18, 24, 47, 99, 99, 99, 99, 18, 21, 26, 66, 99, 99, 99, 99,
+  24, 26, 56, 99, 99, 99, 99, 99, 47, 66, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99,
+];
+
+// Annex K.3 example Huffman tables, used for baseline files when the tables
+// are not optimized
+export const STANDARD_HUFFMAN_TABLES: { dc: HuffmanSpec; ac: HuffmanSpec }[] = [
+  {
+    dc: { counts: new Uint8Array([0, 1, 5, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0, 0, 0]), symbols: new Uint8Array([0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11]) },
+    ac: {
+      counts: new Uint8Array([0, 2, 1, 3, 3, 2, 4, 3, 5, 5, 4, 4, 0, 0, 1, 0x7d]),
+      symbols: new Uint8Array([
+        0x01, 0x02, 0x03, 0x00, 0x04, 0x11, 0x05, 0x12, 0x21, 0x31, 0x41, 0x06, 0x13, 0x51, 0x61, 0x07,
+        0x22, 0x71, 0x14, 0x32, 0x81, 0x91, 0xa1, 0x08, 0x23, 0x42, 0xb1, 0xc1, 0x15, 0x52, 0xd1, 0xf0,
+        0x24, 0x33, 0x62, 0x72, 0x82, 0x09, 0x0a, 0x16, 0x17, 0x18, 0x19, 0x1a, 0x25, 0x26, 0x27, 0x28,
+        0x29, 0x2a, 0x34, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3a, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48, 0x49,
+        0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5a, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68, 0x69,
+        0x6a, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7a, 0x83, 0x84, 0x85, 0x86, 0x87, 0x88, 0x89,
+        0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a, 0xa2, 0xa3, 0xa4, 0xa5, 0xa6, 0xa7,
+        0xa8, 0xa9, 0xaa, 0xb2, 0xb3, 0xb4, 0xb5, 0xb6, 0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3, 0xc4, 0xc5,
+        0xc6, 0xc7, 0xc8, 0xc9, 0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda, 0xe1, 0xe2,
+        0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xf1, 0xf2, 0xf3, 0xf4, 0xf5, 0xf6, 0xf7, 0xf8,
+        0xf9, 0xfa,
+      ]),
+    },
+  },
+  {
+    dc: { counts: new Uint8Array([0, 3, 1, 1, 1, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0]), symbols: new Uint8Array([0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11]) },
+    ac: {
+      counts: new Uint8Array([0, 2, 1, 2, 4, 4, 3, 4, 7, 5, 4, 4, 0, 1, 2, 0x77]),
+      symbols: new Uint8Array([
+        0x00, 0x01, 0x02, 0x03, 0x11, 0x04, 0x05, 0x21, 0x31, 0x06, 0x12, 0x41, 0x51, 0x07, 0x61, 0x71,
+        0x13, 0x22, 0x32, 0x81, 0x08, 0x14, 0x42, 0x91, 0xa1, 0xb1, 0xc1, 0x09, 0x23, 0x33, 0x52, 0xf0,
+        0x15, 0x62, 0x72, 0xd1, 0x0a, 0x16, 0x24, 0x34, 0xe1, 0x25, 0xf1, 0x17, 0x18, 0x19, 0x1a, 0x26,
+        0x27, 0x28, 0x29, 0x2a, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3a, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48,
+        0x49, 0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5a, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68,
+        0x69, 0x6a, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7a, 0x82, 0x83, 0x84, 0x85, 0x86, 0x87,
+        0x88, 0x89, 0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a, 0xa2, 0xa3, 0xa4, 0xa5,
+        0xa6, 0xa7, 0xa8, 0xa9, 0xaa, 0xb2, 0xb3, 0xb4, 0xb5, 0xb6, 0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3,
+        0xc4, 0xc5, 0xc6, 0xc7, 0xc8, 0xc9, 0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda,
+        0xe2, 0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xf2, 0xf3, 0xf4, 0xf5, 0xf6, 0xf7, 0xf8,
+        0xf9, 0xfa,
+      ]),
+    },
+  },
+];
+
+// Correction bits buffered across an EOB run in refinement scans
+const MAX_CORRECTION_BITS = 1000;
+
+// ---------------------------------------------------------------------------
+// Scan scripts
+// ---------------------------------------------------------------------------
+
+const scan = (components: number[], ss: number, se: number, ah: number, al: number): JpegScan => ({ components, ss, se, ah, al });
+
+/**
+ * Progressive scan script for `componentCount` components. Component 0 is
+ * treated as luma and sent in more, finer steps than the others.
+ *   spectral: DC, then AC bands, no successive approximation
+ *   standard: the libjpeg default (spectral bands plus one refinement)
+ *   fine:     more luma bands and refinements for an earlier first preview
+ */
+export function progressiveScanScript(preset: ScanPreset, componentCount: number): JpegScan[] {
+  const all = Array.from({ length: componentCount }, (_, i) => i);
+  // Chroma in reverse order, as libjpeg sends Cr before Cb
+  const chroma = all.slice(1).reverse();
+  const perChroma = (ss: number, se: number, ah: number, al: number) => chroma.map(c => scan([c], ss, se, ah, al));
+  switch (preset) {
+    case 'spectral':
+      return [scan(all, 0, 0, 0, 0), scan([0], 1, 5, 0, 0), ...perChroma(1, 63, 0, 0), scan([0], 6, 63, 0, 0)];
+    case 'fine':
+      return [
+        scan(all, 0, 0, 0, 1),
+        scan([0], 1, 2, 0, 2),
+        scan([0], 3, 9, 0, 2),
+        ...perChroma(1, 63, 0, 1),
+        scan([0], 10, 63, 0, 2),
+        scan([0], 1, 63, 2, 1),
+        scan(all, 0, 0, 1, 0),
+        ...perChroma(1, 63, 1, 0),
+        scan([0], 1, 63, 1, 0),
+      ];
+    default:
+      return [
+        scan(all, 0, 0, 0, 1),
+        scan([0], 1, 5, 0, 2),
+        ...perChroma(1, 63, 0, 1),
+        scan([0], 6, 63, 0, 2),
+        scan([0], 1, 63, 2, 1),
+        scan(all, 0, 0, 1, 0),
+        ...perChroma(1, 63, 1, 0),
+        scan([0], 1, 63, 1, 0),
+      ];
+  }
+}
+
+/**
+ * Parse a scan script in jpegtran's `-scans` syntax: one scan per `;`, each
+ * `components[: Ss-Se[, Ah, Al]]`, with `#` comments. For example
+ * `0,1,2: 0-0, 0, 1; 0: 1-63, 0, 1; ...`.
+ */
+export function parseScanScript(text: string): JpegScan[] {
+  const scans: JpegScan[] = [];
+  const source = text.replace(/#[^\n]*/g, '');
+  for (const entry of source.split(';')) {
+    if (!entry.trim()) continue;
+    const match = entry.trim().match(/^(\d+(?:\s*,\s*\d+)*)\s*(?::\s*(\d+)\s*-\s*(\d+)\s*(?:,\s*(\d+)\s*,\s*(\d+))?)?$/);
+    if (!match) throw new ImageEncodeError(`Cannot read scan "${entry.trim()}"`);
+    scans.push(scan(
+      match[1].split(',').map(Number),
+      match[2] === undefined ? 0 : Number(match[2]),
+      match[3] === undefined ? 63 : Number(match[3]),
+      match[4] === undefined ? 0 : Number(match[4]),
+      match[5] === undefined ? 0 : Number(match[5]),
+    ));
+  }
+  return scans;
+}
+
+export function formatScanScript(scans: JpegScan[]): string {
+  return scans.map(s => `${s.components.join(',')}: ${s.ss}-${s.se}, ${s.ah}, ${s.al};`).join('\n');
+}
+
+/**
+ * Check a progressive scan script against the rules of Annex G, and that it
+ * sends every bit of every coefficient so nothing is lost.
+ */
+export function validateScanScript(scans: JpegScan[], componentCount: number): void {
+  if (scans.length === 0) throw new ImageEncodeError('The scan script is empty');
+  // Lowest bit sent so far per component and coefficient; -1 for none
+  const sent = Array.from({ length: componentCount }, () => new Int8Array(64).fill(-1));
+  scans.forEach((s, index) => {
+    const where = `Scan ${index + 1}`;
+    if (s.components.length < 1 || s.components.length > 4) throw new ImageEncodeError(`${where} must have 1-4 components`);
+    s.components.forEach((c, i) => {
+      if (!Number.isInteger(c) || c < 0 || c >= componentCount) throw new ImageEncodeError(`${where} refers to component ${c}, but the image has ${componentCount}`);
+      if (i > 0 && c <= s.components[i - 1]) throw new ImageEncodeError(`${where} must list components in ascending order`);
+    });
+    if (s.ss > s.se || s.se > 63) throw new ImageEncodeError(`${where} has an invalid spectral range ${s.ss}-${s.se}`);
+    if (s.ss === 0 && s.se !== 0) throw new ImageEncodeError(`${where} mixes DC and AC coefficients`);
+    if (s.ss > 0 && s.components.length !== 1) throw new ImageEncodeError(`${where} is an AC scan and must have a single component`);
+    if (s.al > 10 || s.ah > 10) throw new ImageEncodeError(`${where} has a point transform above 10`);
+    if (s.ah !== 0 && s.al !== s.ah - 1) throw new ImageEncodeError(`${where} must refine exactly one bit (Al = Ah - 1)`);
+    for (const c of s.components) {
+      if (s.ss > 0 && sent[c][0] < 0) throw new ImageEncodeError(`${where} sends AC coefficients of component ${c} before its DC`);
+      for (let k = s.ss; k <= s.se; k++) {
+        const expected = s.ah === 0 ? -1 : s.ah;
+        if (sent[c][k] !== expected) {
+          throw new ImageEncodeError(s.ah === 0
+            ? `${where} resends coefficient ${k} of component ${c}`
+            : `${where} refines coefficient ${k} of component ${c} out of order`);
+        }
+        sent[c][k] = s.al;
+      }
+    }
+  });
+  for (let c = 0; c < componentCount; c++) {
+    const missing = sent[c].findIndex(bit => bit !== 0);
+    if (missing >= 0) throw new ImageEncodeError(`The scan script never completes coefficient ${missing} of component ${c}`);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Huffman tables
+// ---------------------------------------------------------------------------
+
+// Section K.2: code lengths from symbol counts, limited to 16 bits, with
+// the all-ones code kept free
+function optimalTable(frequencies: Uint32Array): HuffmanSpec {
+  const freq = new Float64Array(257);
+  freq.set(frequencies.subarray(0, 256));
+  freq[256] = 1;
+  const codeSize = new Int32Array(257);
+  const others = new Int32Array(257).fill(-1);
+  for (;;) {
+    let c1 = -1;
+    let v = Infinity;
+    for (let i = 0; i <= 256; i++) {
+      if (freq[i] && freq[i] <= v) {
+        v = freq[i];
+        c1 = i;
+      }
+    }
+    let c2 = -1;
+    v = Infinity;
+    for (let i = 0; i <= 256; i++) {
+      if (freq[i] && freq[i] <= v && i !== c1) {
+        v = freq[i];
+        c2 = i;
+      }
+    }
+    if (c2 < 0) break;
+    freq[c1] += freq[c2];
+    freq[c2] = 0;
+    codeSize[c1]++;
+    while (others[c1] >= 0) {
+      c1 = others[c1];
+      codeSize[c1]++;
+    }
+    others[c1] = c2;
+    codeSize[c2]++;
+    while (others[c2] >= 0) {
+      c2 = others[c2];
+      codeSize[c2]++;
+    }
+  }
+  const bits = new Int32Array(33);
+  for (let i = 0; i <= 256; i++) if (codeSize[i]) bits[codeSize[i]]++;
+  for (let i = 32; i > 16; i--) {
+    while (bits[i] > 0) {
+      let j = i - 2;
+      while (bits[j] === 0) j--;
+      bits[i] -= 2;
+      bits[i - 1]++;
+      bits[j + 1] += 2;
+      bits[j]--;
+    }
+  }
+  // Drop the reserved symbol's code, the longest one
+  let longest = 16;
+  while (bits[longest] === 0) longest--;
+  bits[longest]--;
+
+  const symbols: number[] = [];
+  for (let length = 1; length <= 32; length++) {
+    for (let symbol = 0; symbol < 256; symbol++) if (codeSize[symbol] === length) symbols.push(symbol);
+  }
+  return { counts: Uint8Array.from(bits.subarray(1, 17)), symbols: Uint8Array.from(symbols) };
+}
+
+interface EncodeTable {
+  codes: Uint16Array;
+  lengths: Uint8Array;
+}
+
+function encodeTable(spec: HuffmanSpec): EncodeTable {
+  const codes = new Uint16Array(256);
+  const lengths = new Uint8Array(256);
+  let code = 0;
+  let k = 0;
+  for (let length = 1; length <= 16; length++) {
+    for (let i = 0; i < spec.counts[length - 1]; i++, k++) {
+      codes[spec.symbols[k]] = code++;
+      lengths[spec.symbols[k]] = length;
+    }
+    code <<= 1;
+  }
+  return { codes, lengths };
+}
+
+// ---------------------------------------------------------------------------
+// Scan encoding
+// ---------------------------------------------------------------------------
+
+class ByteSink {
+  private bytes = new Uint8Array(1 << 16);
+  length = 0;
+
+  push(byte: number) {
+    if (this.length === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes[this.length++] = byte;
+  }
+
+  append(data: Uint8Array) {
+    for (const byte of data) this.push(byte);
+  }
+
+  segment(marker: number, data: Uint8Array) {
+    this.push(0xff);
+    this.push(marker);
+    this.push((data.length + 2) >> 8);
+    this.push((data.length + 2) & 0xff);
+    this.append(data);
+  }
+
+  result(): Uint8Array {
+    return this.bytes.slice(0, this.length);
+  }
+}
+
+// Runs a scan either to count symbols (no tables given) or to write it
+class ScanEncoder {
+  private buffer = 0;
+  private count = 0;
+  private eobrun = 0;
+  // Refinement correction bits waiting for the next EOB run to be sent
+  private corrections = new Uint8Array(MAX_CORRECTION_BITS);
+  private pending = 0;
+  private magnitudes = new Int32Array(64);
+  readonly dcFrequencies = [new Uint32Array(256), new Uint32Array(256)];
+  readonly acFrequencies = [new Uint32Array(256), new Uint32Array(256)];
+
+  constructor(private sink: ByteSink | null, private dcTables: EncodeTable[] = [], private acTables: EncodeTable[] = []) {}
+
+  private bits(value: number, n: number) {
+    if (!this.sink || n === 0) return;
+    this.buffer = ((this.buffer << n) | (value & ((1 << n) - 1))) >>> 0;
+    this.count += n;
+    while (this.count >= 8) {
+      const byte = (this.buffer >>> (this.count - 8)) & 0xff;
+      this.sink.push(byte);
+      if (byte === 0xff) this.sink.push(0);
+      this.count -= 8;
+    }
+    this.buffer &= (1 << this.count) - 1;
+  }
+
+  private dc(slot: number, symbol: number) {
+    if (!this.sink) this.dcFrequencies[slot][symbol]++;
+    else this.bits(this.dcTables[slot].codes[symbol], this.dcTables[slot].lengths[symbol]);
+  }
+
+  private ac(slot: number, symbol: number) {
+    if (!this.sink) this.acFrequencies[slot][symbol]++;
+    else this.bits(this.acTables[slot].codes[symbol], this.acTables[slot].lengths[symbol]);
+  }
+
+  private flushCorrections(from: number, count: number) {
+    for (let i = 0; i < count; i++) this.bits(this.corrections[from + i], 1);
+  }
+
+  private flushEobrun(slot: number) {
+    if (this.eobrun === 0) return;
+    const nbits = 31 - Math.clz32(this.eobrun);
+    this.ac(slot, nbits << 4);
+    this.bits(this.eobrun, nbits);
+    this.eobrun = 0;
+    this.flushCorrections(0, this.pending);
+    this.pending = 0;
+  }
+
+  // Pad the last byte with ones, as required before a marker
+  private align() {
+    if (this.count > 0) this.bits(0x7f, 8 - this.count);
+  }
+
+  restart(slot: number, index: number) {
+    this.flushEobrun(slot);
+    this.align();
+    if (this.sink) {
+      this.sink.push(0xff);
+      this.sink.push(0xd0 + (index & 7));
+    }
+  }
+
+  finish(slot: number) {
+    this.flushEobrun(slot);
+    this.align();
+  }
+
+  sequential(coefs: Int16Array, o: number, pred: number, slot: number): number {
+    this.dcDiff(coefs[o] - pred, slot);
+    let run = 0;
+    for (let k = 1; k < 64; k++) {
+      const value = coefs[o + k];
+      if (value === 0) {
+        run++;
+        continue;
+      }
+      while (run > 15) {
+        this.ac(slot, 0xf0);
+        run -= 16;
+      }
+      const nbits = 32 - Math.clz32(Math.abs(value));
+      this.ac(slot, (run << 4) | nbits);
+      this.bits(value < 0 ? value - 1 : value, nbits);
+      run = 0;
+    }
+    if (run > 0) this.ac(slot, 0);
+    return coefs[o];
+  }
+
+  private dcDiff(diff: number, slot: number) {
+    const nbits = diff === 0 ? 0 : 32 - Math.clz32(Math.abs(diff));
+    this.dc(slot, nbits);
+    this.bits(diff < 0 ? diff - 1 : diff, nbits);
+  }
+
+  dcFirst(coefs: Int16Array, o: number, pred: number, slot: number, al: number): number {
+    const value = coefs[o] >> al;
+    this.dcDiff(value - pred, slot);
+    return value;
+  }
+
+  dcRefine(coefs: Int16Array, o: number, al: number) {
+    this.bits((coefs[o] >> al) & 1, 1);
+  }
+
+  acFirst(coefs: Int16Array, o: number, slot: number, ss: number, se: number, al: number) {
+    let run = 0;
+    for (let k = ss; k <= se; k++) {
+      const coef = coefs[o + k];
+      const magnitude = Math.abs(coef) >> al;
+      if (magnitude === 0) {
+        run++;
+        continue;
+      }
+      this.flushEobrun(slot);
+      while (run > 15) {
+        this.ac(slot, 0xf0);
+        run -= 16;
+      }
+      const nbits = 32 - Math.clz32(magnitude);
+      this.ac(slot, (run << 4) | nbits);
+      this.bits(coef < 0 ? ~magnitude : magnitude, nbits);
+      run = 0;
+    }
+    if (run > 0) {
+      this.eobrun++;
+      if (this.eobrun === 0x7fff) this.flushEobrun(slot);
+    }
+  }
+
+  // Section G.1.2.3, following libjpeg's encode_mcu_AC_refine
+  acRefine(coefs: Int16Array, o: number, slot: number, ss: number, se: number, al: number) {
+    const magnitudes = this.magnitudes;
+    let eob = 0;
+    for (let k = ss; k <= se; k++) {
+      magnitudes[k] = Math.abs(coefs[o + k]) >> al;
+      if (magnitudes[k] === 1) eob = k;
+    }
+    let run = 0;
+    // Correction bits of this block start after those already pending
+    let start = this.pending;
+    let added = 0;
+    for (let k = ss; k <= se; k++) {
+      const magnitude = magnitudes[k];
+      if (magnitude === 0) {
+        run++;
+        continue;
+      }
+      while (run > 15 && k <= eob) {
+        this.flushEobrun(slot);
+        this.ac(slot, 0xf0);
+        run -= 16;
+        this.flushCorrections(start, added);
+        start = 0;
+        added = 0;
+      }
+      if (magnitude > 1) {
+        this.corrections[start + added++] = magnitude & 1;
+        continue;
+      }
+      this.flushEobrun(slot);
+      this.ac(slot, (run << 4) | 1);
+      this.bits(coefs[o + k] < 0 ? 0 : 1, 1);
+      this.flushCorrections(start, added);
+      start = 0;
+      added = 0;
+      run = 0;
+    }
+    if (run > 0 || added > 0) {
+      // The new bits already sit right after the pending ones: a flush in
+      // this block emptied the buffer before `start` was reset to 0
+      this.eobrun++;
+      this.pending += added;
+      if (this.eobrun === 0x7fff || this.pending > MAX_CORRECTION_BITS - 64 + 1) this.flushEobrun(slot);
+    }
+  }
+}
+
+// Huffman table slot per frame component: luma gets its own, the others share
+const tableSlot = (componentIndex: number) => (componentIndex === 0 ? 0 : 1);
+
+function runScan(frame: JpegCoefficients, s: JpegScan, progressive: boolean, encoder: ScanEncoder) {
+  const interval = frame.restartInterval;
+  const preds = s.components.map(() => 0);
+  let restarts = 0;
+  const block = (index: number, component: JpegComponent, o: number) => {
+    const coefs = component.coefficients;
+    const slot = tableSlot(s.components[index]);
+    if (!progressive) preds[index] = encoder.sequential(coefs, o, preds[index], slot);
+    else if (s.ss === 0 && s.ah === 0) preds[index] = encoder.dcFirst(coefs, o, preds[index], slot, s.al);
+    else if (s.ss === 0) encoder.dcRefine(coefs, o, s.al);
+    else if (s.ah === 0) encoder.acFirst(coefs, o, slot, s.ss, s.se, s.al);
+    else encoder.acRefine(coefs, o, slot, s.ss, s.se, s.al);
+  };
+  const restart = (n: number) => {
+    if (!interval || n === 0 || n % interval !== 0) return;
+    encoder.restart(tableSlot(s.components[0]), restarts++);
+    preds.fill(0);
+  };
+
+  if (s.components.length === 1) {
+    const component = frame.components[s.components[0]];
+    const { columns, rows } = componentBlocks(frame, component);
+    for (let n = 0; n < columns * rows; n++) {
+      restart(n);
+      block(0, component, (Math.floor(n / columns) * component.blocksPerLine + (n % columns)) * 64);
+    }
+  } else {
+    const grid = mcuGrid(frame);
+    for (let n = 0; n < grid.columns * grid.rows; n++) {
+      restart(n);
+      const mcuRow = Math.floor(n / grid.columns);
+      const mcuColumn = n % grid.columns;
+      s.components.forEach((c, index) => {
+        const component = frame.components[c];
+        for (let v = 0; v < component.v; v++) {
+          for (let h = 0; h < component.h; h++) {
+            block(index, component, ((mcuRow * component.v + v) * component.blocksPerLine + mcuColumn * component.h + h) * 64);
+          }
+        }
+      });
+    }
+  }
+  encoder.finish(tableSlot(s.components[0]));
+}
+
+function huffmanSegment(specs: { tableClass: number; slot: number; spec: HuffmanSpec }[]): Uint8Array {
+  const parts: number[] = [];
+  for (const { tableClass, slot, spec } of specs) parts.push((tableClass << 4) | slot, ...spec.counts, ...spec.symbols);
+  return Uint8Array.from(parts);
+}
+
+// ---------------------------------------------------------------------------
+// File writer
+// ---------------------------------------------------------------------------
+
+/** Write quantized coefficients as a JPEG file. */
+export function writeJpegCoefficients(frame: JpegCoefficients, options: JpegWriteOptions = {}): Uint8Array {
+  const progressive = options.progressive ?? frame.progressive;
+  const restartInterval = options.restartInterval ?? frame.restartInterval;
+  const target: JpegCoefficients = { ...frame, restartInterval };
+  const componentCount = frame.components.length;
+  const scans = progressive
+    ? options.scanScript ?? progressiveScanScript('standard', componentCount)
+    : [scan(frame.components.map((_, i) => i), 0, 63, 0, 0)];
+  if (progressive) validateScanScript(scans, componentCount);
+  else if (componentCount > 4 || frame.components.reduce((sum, c) => sum + c.h * c.v, 0) > 10) {
+    throw new ImageEncodeError('Too many blocks per MCU for an interleaved scan');
+  }
+  const optimize = progressive || (options.optimizeHuffman ?? true);
+
+  const sink = new ByteSink();
+  sink.push(0xff);
+  sink.push(JPEG_MARKERS.SOI);
+  for (const segment of frame.segments) sink.segment(segment.marker, segment.data);
+
+  const slots = [...new Set(frame.components.map(c => c.quantTable))];
+  let wide = false;
+  for (const slot of slots) {
+    const table = frame.quantTables[slot];
+    if (!table) throw new ImageEncodeError('Missing quantization table');
+    const precision = table.some(value => value > 255) ? 1 : 0;
+    wide ||= precision === 1;
+    const data = new Uint8Array(1 + 64 * (precision + 1));
+    data[0] = (precision << 4) | slot;
+    table.forEach((value, k) => {
+      if (precision) {
+        data[1 + k * 2] = value >> 8;
+        data[2 + k * 2] = value & 0xff;
+      } else {
+        data[1 + k] = value;
+      }
+    });
+    sink.segment(JPEG_MARKERS.DQT, data);
+  }
+
+  const sof = new Uint8Array(6 + componentCount * 3);
+  sof.set([8, frame.height >> 8, frame.height & 0xff, frame.width >> 8, frame.width & 0xff, componentCount]);
+  frame.components.forEach((c, i) => sof.set([c.id, (c.h << 4) | c.v, c.quantTable], 6 + i * 3));
+  sink.segment(progressive ? SOF_MARKERS.PROGRESSIVE : wide ? SOF_MARKERS.EXTENDED : SOF_MARKERS.BASELINE, sof);
+  if (restartInterval) sink.segment(JPEG_MARKERS.DRI, new Uint8Array([restartInterval >> 8, restartInterval & 0xff]));
+
+  for (const s of scans) {
+    const usedSlots = [...new Set(s.components.map(tableSlot))];
+    const needsDc = s.ss === 0 && s.ah === 0;
+    const needsAc = s.se > 0;
+    const dcSpecs: HuffmanSpec[] = [];
+    const acSpecs: HuffmanSpec[] = [];
+    if (optimize) {
+      const counter = new ScanEncoder(null);
+      runScan(target, s, progressive, counter);
+      for (const slot of usedSlots) {
+        if (needsDc) dcSpecs[slot] = optimalTable(counter.dcFrequencies[slot]);
+        if (needsAc) acSpecs[slot] = optimalTable(counter.acFrequencies[slot]);
+      }
+    } else {
+      for (const slot of usedSlots) {
+        dcSpecs[slot] = STANDARD_HUFFMAN_TABLES[slot].dc;
+        acSpecs[slot] = STANDARD_HUFFMAN_TABLES[slot].ac;
+      }
+    }
+    const tables = [
+      ...usedSlots.filter(slot => dcSpecs[slot]).map(slot => ({ tableClass: 0, slot, spec: dcSpecs[slot] })),
+      ...usedSlots.filter(slot => acSpecs[slot]).map(slot => ({ tableClass: 1, slot, spec: acSpecs[slot] })),
+    ];
+    if (tables.length > 0) sink.segment(JPEG_MARKERS.DHT, huffmanSegment(tables));
+
+    const sos = new Uint8Array(4 + s.components.length * 2);
+    sos[0] = s.components.length;
+    s.components.forEach((c, i) => {
+      sos[1 + i * 2] = frame.components[c].id;
+      sos[2 + i * 2] = (tableSlot(c) << 4) | tableSlot(c);
+    });
+    sos.set([s.ss, s.se, (s.ah << 4) | s.al], 1 + s.components.length * 2);
+    sink.segment(JPEG_MARKERS.SOS, sos);
+    const writer = new ScanEncoder(
+      sink,
+      dcSpecs.map(spec => (spec ? encodeTable(spec) : { codes: new Uint16Array(256), lengths: new Uint8Array(256) })),
+      acSpecs.map(spec => (spec ? encodeTable(spec) : { codes: new Uint16Array(256), lengths: new Uint8Array(256) })),
+    );
+    runScan(target, s, progressive, writer);
+  }
+  sink.push(0xff);
+  sink.push(JPEG_MARKERS.EOI);
+  return sink.result();
+}
+
+/**
+ * Rewrite a JPEG with a new scan structure and Huffman tables. The DCT
+ * coefficients and all APPn/COM segments are copied, so no pixel changes.
+ */
+export function transcodeJpeg(bytes: Uint8Array, options: JpegWriteOptions = {}): Uint8Array {
+  return writeJpegCoefficients(readJpegCoefficients(bytes), options);
+}
+
+// ---------------------------------------------------------------------------
+// Pixel encoding
+// ---------------------------------------------------------------------------
+
+/** IJG quality scaling of an Annex K table, returned in zigzag order. */
+export function scaledQuantTable(natural: number[], quality: number): Uint16Array {
+  const q = Math.max(1, Math.min(100, Math.round(quality)));
+  const scale = q < 50 ? 5000 / q : 200 - q * 2;
+  const table = new Uint16Array(64);
+  for (let k = 0; k < 64; k++) table[k] = Math.max(1, Math.min(255, Math.floor((natural[ZIGZAG[k]] * scale + 50) / 100)));
+  return table;
+}
+
+export const STANDARD_QUANT_TABLES = { luminance: LUMINANCE_QUANT, chrominance: CHROMINANCE_QUANT };
+
+// DCT basis: COSINES[u * 8 + x] = C(u) / 2 * cos((2x + 1) u pi / 16)
+const COSINES = new Float64Array(64);
+for (let u = 0; u < 8; u++) {
+  for (let x = 0; x < 8; x++) COSINES[u * 8 + x] = (u === 0 ? Math.SQRT1_2 : 1) / 2 * Math.cos(((2 * x + 1) * u * Math.PI) / 16);
+}
+
+function forwardDct(samples: Float64Array, out: Float64Array, temp: Float64Array) {
+  for (let y = 0; y < 8; y++) {
+    for (let u = 0; u < 8; u++) {
+      let sum = 0;
+      for (let x = 0; x < 8; x++) sum += COSINES[u * 8 + x] * samples[y * 8 + x];
+      temp[y * 8 + u] = sum;
+    }
+  }
+  for (let u = 0; u < 8; u++) {
+    for (let v = 0; v < 8; v++) {
+      let sum = 0;
+      for (let y = 0; y < 8; y++) sum += COSINES[v * 8 + y] * temp[y * 8 + u];
+      out[v * 8 + u] = sum;
+    }
+  }
+}
+
+const JFIF_HEADER = new Uint8Array([0x4a, 0x46, 0x49, 0x46, 0, 1, 1, 0, 0, 1, 0, 1, 0, 0]);
+
+/**
+ * Quantized coefficients for RGBA pixels. Transparency is flattened onto
+ * white, since JPEG has no alpha channel.
+ */
+export function pixelsToJpegCoefficients(pixels: PixelBuffer, options: JpegEncodeOptions = {}): JpegCoefficients {
+  const { width, height, data } = pixels;
+  if (width < 1 || height < 1 || width > 65535 || height > 65535) throw new ImageEncodeError('JPEG images must be 1-65535 pixels on each side');
+  const quality = options.quality ?? 85;
+  const subsampling = options.subsampling ?? '4:2:0';
+  const grayscale = options.grayscale ?? false;
+  const lumaH = grayscale || subsampling === '4:4:4' ? 1 : 2;
+  const lumaV = grayscale || subsampling !== '4:2:0' ? 1 : 2;
+  const components: JpegComponent[] = (grayscale ? [1] : [1, 2, 3]).map((id, i) => ({
+    id,
+    h: i === 0 ? lumaH : 1,
+    v: i === 0 ? lumaV : 1,
+    quantTable: i === 0 ? 0 : 1,
+    blocksPerLine: 0,
+    blocksPerColumn: 0,
+    coefficients: new Int16Array(0),
+  }));
+  const frame: JpegCoefficients = {
+    width,
+    height,
+    progressive: options.progressive ?? false,
+    components,
+    quantTables: grayscale ? [scaledQuantTable(LUMINANCE_QUANT, quality)] : [scaledQuantTable(LUMINANCE_QUANT, quality), scaledQuantTable(CHROMINANCE_QUANT, quality)],
+    restartInterval: options.restartInterval ?? 0,
+    segments: [{ marker: JPEG_MARKERS.APP0, data: JFIF_HEADER }],
+  };
+  const grid = mcuGrid(frame);
+  const { h: maxH, v: maxV } = maxSampling(frame);
+
+  // Full-resolution planes covering whole MCUs, edges repeated into the padding
+  const planeWidth = grid.columns * 8 * maxH;
+  const planeHeight = grid.rows * 8 * maxV;
+  const planes = components.map(() => new Float32Array(planeWidth * planeHeight));
+  for (let y = 0; y < planeHeight; y++) {
+    const sy = Math.min(y, height - 1);
+    for (let x = 0; x < planeWidth; x++) {
+      const i = (sy * width + Math.min(x, width - 1)) * 4;
+      const alpha = data[i + 3] / 255;
+      const r = 255 + (data[i] - 255) * alpha;
+      const g = 255 + (data[i + 1] - 255) * alpha;
+      const b = 255 + (data[i + 2] - 255) * alpha;
+      const p = y * planeWidth + x;
+      planes[0][p] = 0.299 * r + 0.587 * g + 0.114 * b;
+      if (!grayscale) {
+        planes[1][p] = -0.168736 * r - 0.331264 * g + 0.5 * b + 128;
+        planes[2][p] = 0.5 * r - 0.418688 * g - 0.081312 * b + 128;
+      }
+    }
+  }
+
+  const samples = new Float64Array(64);
+  const dct = new Float64Array(64);
+  const temp = new Float64Array(64);
+  components.forEach((component, c) => {
+    component.blocksPerLine = grid.columns * component.h;
+    component.blocksPerColumn = grid.rows * component.v;
+    component.coefficients = new Int16Array(component.blocksPerLine * component.blocksPerColumn * 64);
+    const quant = frame.quantTables[component.quantTable]!;
+    // Box-average the full-resolution plane down to this component's sampling
+    const stepX = maxH / component.h;
+    const stepY = maxV / component.v;
+    const area = stepX * stepY;
+    const plane = planes[c];
+    for (let by = 0; by < component.blocksPerColumn; by++) {
+      for (let bx = 0; bx < component.blocksPerLine; bx++) {
+        for (let y = 0; y < 8; y++) {
+          for (let x = 0; x < 8; x++) {
+            let sum = 0;
+            const px = (bx * 8 + x) * stepX;
+            const py = (by * 8 + y) * stepY;
+            for (let dy = 0; dy < stepY; dy++) {
+              for (let dx = 0; dx < stepX; dx++) sum += plane[(py + dy) * planeWidth + px + dx];
+            }
+            samples[y * 8 + x] = sum / area - 128;
+          }
+        }
+        forwardDct(samples, dct, temp);
+        const o = (by * component.blocksPerLine + bx) * 64;
+        for (let k = 0; k < 64; k++) component.coefficients[o + k] = Math.round(dct[ZIGZAG[k]] / quant[k]);
+      }
+    }
+  });
+  return frame;
+}
+
+/** Encode RGBA pixels as a baseline or progressive JPEG. */
+export function encodeJpeg(pixels: PixelBuffer, options: JpegEncodeOptions = {}): Uint8Array {
+  return writeJpegCoefficients(pixelsToJpegCoefficients(pixels, options), options);
+}
+
+/** True when the file's frame header is SOF2. */
+export function isProgressiveJpeg(bytes: Uint8Array): boolean {
+  for (let i = 2; i + 3 < bytes.length;) {
+    if (bytes[i] !== 0xff) return false;
+    const marker = bytes[i + 1];
+    if (marker === SOF_MARKERS.PROGRESSIVE) return true;
+    if (marker === SOF_MARKERS.BASELINE || marker === SOF_MARKERS.EXTENDED || marker === JPEG_MARKERS.SOS) return false;
+    i += 2 + ((bytes[i + 2] << 8) | bytes[i + 3]);
+  }
+  return false;
+}
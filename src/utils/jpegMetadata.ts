@@ -0,0 +1,777 @@
+// EXIF, XMP and IPTC-IIM writer for JPEG files
+// Metadata segments are rebuilt and spliced back into the file; the
+// compressed scan data is copied through untouched, so no quality is lost.
+
+import { concatBytes, md5 } from './crypto';
+import { JPEG_MARKERS, JpegSegment, hasSignature, parseJpeg, writeJpeg } from './jpegSegments';
+
+export interface GpsPosition {
+  latitude: number;
+  longitude: number;
+  altitude?: number;
+}
+
+export interface JpegMetadataFields {
+  title: string;
+  description: string;
+  author: string;
+  copyright: string;
+  keywords: string[];
+  // Local date and time as 'YYYY-MM-DDTHH:MM[:SS]'; empty keeps the existing value
+  dateTimeOriginal: string;
+  // New position; null keeps the existing GPS block (unless removeGps is set)
+  gps: GpsPosition | null;
+}
+
+export interface MetadataWriteOptions {
+  writeExif: boolean;
+  writeXmp: boolean;
+  writeIptc: boolean;
+  removeGps: boolean;
+  removeThumbnail: boolean;
+}
+
+export const DEFAULT_METADATA_WRITE_OPTIONS: MetadataWriteOptions = {
+  writeExif: true,
+  writeXmp: true,
+  writeIptc: true,
+  removeGps: false,
+  removeThumbnail: false,
+};
+
+const EXIF_SIGNATURE = 'Exif\0\0';
+const XMP_SIGNATURE = 'http://ns.adobe.com/xap/1.0/\0';
+const PHOTOSHOP_SIGNATURE = 'Photoshop 3.0\0';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// ---------------------------------------------------------------------------
+// EXIF (TIFF structure inside APP1)
+// ---------------------------------------------------------------------------
+
+interface TiffEntry {
+  type: number;
+  count: number;
+  // Raw value bytes in the byte order of the containing TIFF
+  value: Uint8Array;
+}
+
+type Ifd = Map<number, TiffEntry>;
+
+interface TiffData {
+  littleEndian: boolean;
+  ifd0: Ifd;
+  exif?: Ifd;
+  interop?: Ifd;
+  gps?: Ifd;
+  ifd1?: Ifd;
+  thumbnail?: Uint8Array;
+}
+
+const TYPE_SIZES = [0, 1, 1, 2, 4, 8, 1, 1, 2, 4, 8, 4, 8];
+
+const TIFF_TYPE = { BYTE: 1, ASCII: 2, SHORT: 3, LONG: 4, RATIONAL: 5 } as const;
+
+const TAGS = {
+  ImageDescription: 0x010e,
+  Artist: 0x013b,
+  Copyright: 0x8298,
+  SubIFDs: 0x014a,
+  ExifIFD: 0x8769,
+  GPSIFD: 0x8825,
+  InteropIFD: 0xa005,
+  DateTimeOriginal: 0x9003,
+  XPTitle: 0x9c9b,
+  XPAuthor: 0x9c9d,
+  XPKeywords: 0x9c9e,
+  Orientation: 0x0112,
+  StripOffsets: 0x0111,
+  PixelXDimension: 0xa002,
+  PixelYDimension: 0xa003,
+  ThumbnailOffset: 0x0201,
+  ThumbnailLength: 0x0202,
+} as const;
+
+const GPS_TAGS = {
+  Version: 0x0000,
+  LatitudeRef: 0x0001,
+  Latitude: 0x0002,
+  LongitudeRef: 0x0003,
+  Longitude: 0x0004,
+  AltitudeRef: 0x0005,
+  Altitude: 0x0006,
+} as const;
+
+function readIfd(view: DataView, offset: number, littleEndian: boolean): { ifd: Ifd; next: number } {
+  const ifd: Ifd = new Map();
+  if (offset < 8 || offset + 2 > view.byteLength) return { ifd, next: 0 };
+  const count = view.getUint16(offset, littleEndian);
+  for (let i = 0; i < count; i++) {
+    const entry = offset + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+    const tag = view.getUint16(entry, littleEndian);
+    const type = view.getUint16(entry + 2, littleEndian);
+    const valueCount = view.getUint32(entry + 4, littleEndian);
+    const size = (TYPE_SIZES[type] || 0) * valueCount;
+    if (!size) continue;
+    const start = size <= 4 ? entry + 8 : view.getUint32(entry + 8, littleEndian);
+    if (start + size > view.byteLength) continue;
+    ifd.set(tag, {
+      type,
+      count: valueCount,
+      value: new Uint8Array(view.buffer, view.byteOffset + start, size).slice(),
+    });
+  }
+  const nextOffset = offset + 2 + count * 12;
+  const next = nextOffset + 4 <= view.byteLength ? view.getUint32(nextOffset, littleEndian) : 0;
+  return { ifd, next };
+}
+
+function pointerValue(ifd: Ifd, tag: number, littleEndian: boolean): number {
+  const entry = ifd.get(tag);
+  if (!entry || entry.value.length < 4) return 0;
+  return new DataView(entry.value.buffer, entry.value.byteOffset, 4).getUint32(0, littleEndian);
+}
+
+function parseTiff(tiff: Uint8Array): TiffData {
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const order = view.getUint16(0, false);
+  if (order !== 0x4949 && order !== 0x4d4d) throw new Error('Invalid EXIF byte order');
+  const littleEndian = order === 0x4949;
+  const { ifd: ifd0, next } = readIfd(view, view.getUint32(4, littleEndian), littleEndian);
+  const data: TiffData = { littleEndian, ifd0 };
+
+  const exifOffset = pointerValue(ifd0, TAGS.ExifIFD, littleEndian);
+  if (exifOffset) {
+    data.exif = readIfd(view, exifOffset, littleEndian).ifd;
+    const interopOffset = pointerValue(data.exif, TAGS.InteropIFD, littleEndian);
+    if (interopOffset) data.interop = readIfd(view, interopOffset, littleEndian).ifd;
+  }
+  const gpsOffset = pointerValue(ifd0, TAGS.GPSIFD, littleEndian);
+  if (gpsOffset) data.gps = readIfd(view, gpsOffset, littleEndian).ifd;
+
+  if (next) {
+    const ifd1 = readIfd(view, next, littleEndian).ifd;
+    const thumbOffset = pointerValue(ifd1, TAGS.ThumbnailOffset, littleEndian);
+    const thumbLength = pointerValue(ifd1, TAGS.ThumbnailLength, littleEndian);
+    // Only JPEG thumbnails can be relocated; strip-based ones are dropped
+    if (thumbOffset && thumbLength && thumbOffset + thumbLength <= tiff.length && !ifd1.has(TAGS.StripOffsets)) {
+      data.ifd1 = ifd1;
+      data.thumbnail = tiff.slice(thumbOffset, thumbOffset + thumbLength);
+    }
+  }
+
+  // Offsets are rewritten on output, so drop the stale pointers now. SubIFDs
+  // cannot be followed reliably and would dangle after relocation.
+  ifd0.delete(TAGS.ExifIFD);
+  ifd0.delete(TAGS.GPSIFD);
+  ifd0.delete(TAGS.SubIFDs);
+  data.exif?.delete(TAGS.InteropIFD);
+  data.ifd1?.delete(TAGS.ThumbnailOffset);
+  data.ifd1?.delete(TAGS.ThumbnailLength);
+  return data;
+}
+
+function longEntry(value: number, littleEndian: boolean): TiffEntry {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value, littleEndian);
+  return { type: TIFF_TYPE.LONG, count: 1, value: bytes };
+}
+
+function ifdSize(ifd: Ifd): number {
+  let size = 2 + ifd.size * 12 + 4;
+  for (const entry of ifd.values()) {
+    if (entry.value.length > 4) size += entry.value.length + (entry.value.length & 1);
+  }
+  return size;
+}
+
+function writeIfd(out: Uint8Array, offset: number, ifd: Ifd, next: number, littleEndian: boolean) {
+  const view = new DataView(out.buffer, out.byteOffset, out.byteLength);
+  const tags = [...ifd.keys()].sort((a, b) => a - b);
+  view.setUint16(offset, tags.length, littleEndian);
+  let dataOffset = offset + 2 + tags.length * 12 + 4;
+  tags.forEach((tag, i) => {
+    const entry = ifd.get(tag)!;
+    const position = offset + 2 + i * 12;
+    view.setUint16(position, tag, littleEndian);
+    view.setUint16(position + 2, entry.type, littleEndian);
+    view.setUint32(position + 4, entry.count, littleEndian);
+    if (entry.value.length <= 4) {
+      out.set(entry.value, position + 8);
+    } else {
+      view.setUint32(position + 8, dataOffset, littleEndian);
+      out.set(entry.value, dataOffset);
+      dataOffset += entry.value.length + (entry.value.length & 1);
+    }
+  });
+  view.setUint32(offset + 2 + tags.length * 12, next, littleEndian);
+}
+
+// Serialise with a fresh layout: IFD0, Exif, Interop, GPS, IFD1, thumbnail.
+// MakerNote blobs are copied verbatim; vendors that use absolute offsets
+// inside them may lose some private fields, as with most EXIF editors.
+function serializeTiff(data: TiffData): Uint8Array {
+  const { littleEndian } = data;
+  const ifd0 = new Map(data.ifd0);
+  const exif = data.exif && data.exif.size ? new Map(data.exif) : undefined;
+  const ifd1 = data.ifd1 && data.thumbnail ? new Map(data.ifd1) : undefined;
+  const gps = data.gps && data.gps.size ? data.gps : undefined;
+  const interop = exif && data.interop && data.interop.size ? data.interop : undefined;
+
+  // Placeholders first so the IFD sizes already include the pointer entries
+  if (exif) ifd0.set(TAGS.ExifIFD, longEntry(0, littleEndian));
+  if (gps) ifd0.set(TAGS.GPSIFD, longEntry(0, littleEndian));
+  if (interop) exif!.set(TAGS.InteropIFD, longEntry(0, littleEndian));
+  if (ifd1) {
+    ifd1.set(TAGS.ThumbnailOffset, longEntry(0, littleEndian));
+    ifd1.set(TAGS.ThumbnailLength, longEntry(data.thumbnail!.length, littleEndian));
+  }
+
+  let offset = 8;
+  const place = (ifd?: Ifd) => {
+    if (!ifd) return 0;
+    const at = offset;
+    offset += ifdSize(ifd);
+    return at;
+  };
+  const ifd0Offset = place(ifd0);
+  const exifOffset = place(exif);
+  const interopOffset = place(interop);
+  const gpsOffset = place(gps);
+  const ifd1Offset = place(ifd1);
+  const thumbnailOffset = offset;
+  if (ifd1) offset += data.thumbnail!.length;
+
+  if (exif) ifd0.set(TAGS.ExifIFD, longEntry(exifOffset, littleEndian));
+  if (gps) ifd0.set(TAGS.GPSIFD, longEntry(gpsOffset, littleEndian));
+  if (interop) exif!.set(TAGS.InteropIFD, longEntry(interopOffset, littleEndian));
+  if (ifd1) ifd1.set(TAGS.ThumbnailOffset, longEntry(thumbnailOffset, littleEndian));
+
+  const out = new Uint8Array(offset);
+  const view = new DataView(out.buffer);
+  view.setUint16(0, littleEndian ? 0x4949 : 0x4d4d, false);
+  view.setUint16(2, 42, littleEndian);
+  view.setUint32(4, ifd0Offset, littleEndian);
+  writeIfd(out, ifd0Offset, ifd0, ifd1Offset, littleEndian);
+  if (exif) writeIfd(out, exifOffset, exif, 0, littleEndian);
+  if (interop) writeIfd(out, interopOffset, interop, 0, littleEndian);
+  if (gps) writeIfd(out, gpsOffset, gps, 0, littleEndian);
+  if (ifd1) {
+    writeIfd(out, ifd1Offset, ifd1, 0, littleEndian);
+    out.set(data.thumbnail!, thumbnailOffset);
+  }
+  return out;
+}
+
+function asciiEntry(text: string): TiffEntry {
+  const value = concatBytes(encoder.encode(text), new Uint8Array(1));
+  return { type: TIFF_TYPE.ASCII, count: value.length, value };
+}
+
+// Windows XP* tags are UCS-2 little endian regardless of the TIFF byte order
+function ucs2Entry(text: string): TiffEntry {
+  const value = new Uint8Array(text.length * 2 + 2);
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    value[i * 2] = code & 0xff;
+    value[i * 2 + 1] = code >> 8;
+  }
+  return { type: TIFF_TYPE.BYTE, count: value.length, value };
+}
+
+function rationalEntry(values: [number, number][], littleEndian: boolean): TiffEntry {
+  const value = new Uint8Array(values.length * 8);
+  const view = new DataView(value.buffer);
+  values.forEach(([numerator, denominator], i) => {
+    view.setUint32(i * 8, numerator, littleEndian);
+    view.setUint32(i * 8 + 4, denominator, littleEndian);
+  });
+  return { type: TIFF_TYPE.RATIONAL, count: values.length, value };
+}
+
+function setOrDelete(ifd: Ifd, tag: number, entry: TiffEntry | null) {
+  if (entry) ifd.set(tag, entry);
+  else ifd.delete(tag);
+}
+
+function toDegreesMinutesSeconds(decimal: number): [number, number][] {
+  const absolute = Math.abs(decimal);
+  const degrees = Math.floor(absolute);
+  const minutes = Math.floor((absolute - degrees) * 60);
+  const seconds = Math.round(((absolute - degrees) * 60 - minutes) * 60 * 10000);
+  return [[degrees, 1], [minutes, 1], [seconds, 10000]];
+}
+
+function buildGpsIfd(existing: Ifd | undefined, position: GpsPosition, littleEndian: boolean): Ifd {
+  const gps: Ifd = new Map(existing);
+  gps.set(GPS_TAGS.Version, { type: TIFF_TYPE.BYTE, count: 4, value: new Uint8Array([2, 3, 0, 0]) });
+  gps.set(GPS_TAGS.LatitudeRef, asciiEntry(position.latitude < 0 ? 'S' : 'N'));
+  gps.set(GPS_TAGS.Latitude, rationalEntry(toDegreesMinutesSeconds(position.latitude), littleEndian));
+  gps.set(GPS_TAGS.LongitudeRef, asciiEntry(position.longitude < 0 ? 'W' : 'E'));
+  gps.set(GPS_TAGS.Longitude, rationalEntry(toDegreesMinutesSeconds(position.longitude), littleEndian));
+  if (position.altitude !== undefined && Number.isFinite(position.altitude)) {
+    gps.set(GPS_TAGS.AltitudeRef, { type: TIFF_TYPE.BYTE, count: 1, value: new Uint8Array([position.altitude < 0 ? 1 : 0]) });
+    gps.set(GPS_TAGS.Altitude, rationalEntry([[Math.round(Math.abs(position.altitude) * 100), 100]], littleEndian));
+  } else {
+    gps.delete(GPS_TAGS.AltitudeRef);
+    gps.delete(GPS_TAGS.Altitude);
+  }
+  return gps;
+}
+
+interface ParsedDate {
+  year: string;
+  month: string;
+  day: string;
+  hour: string;
+  minute: string;
+  second: string;
+}
+
+function parseLocalDate(value: string): ParsedDate | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::(\d{2}))?/.exec(value.trim());
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second = '00'] = match;
+  return { year, month, day, hour, minute, second };
+}
+
+function buildExif(existing: Uint8Array | null, fields: JpegMetadataFields, options: MetadataWriteOptions): Uint8Array {
+  const data: TiffData = existing ? parseTiff(existing) : { littleEndian: false, ifd0: new Map() };
+  const { ifd0, littleEndian } = data;
+
+  setOrDelete(ifd0, TAGS.ImageDescription, fields.description ? asciiEntry(fields.description) : null);
+  setOrDelete(ifd0, TAGS.Artist, fields.author ? asciiEntry(fields.author) : null);
+  setOrDelete(ifd0, TAGS.Copyright, fields.copyright ? asciiEntry(fields.copyright) : null);
+  setOrDelete(ifd0, TAGS.XPTitle, fields.title ? ucs2Entry(fields.title) : null);
+  setOrDelete(ifd0, TAGS.XPAuthor, fields.author ? ucs2Entry(fields.author) : null);
+  setOrDelete(ifd0, TAGS.XPKeywords, fields.keywords.length ? ucs2Entry(fields.keywords.join(';')) : null);
+
+  const date = parseLocalDate(fields.dateTimeOriginal);
+  if (date) {
+    data.exif = data.exif ?? new Map();
+    data.exif.set(
+      TAGS.DateTimeOriginal,
+      asciiEntry(`${date.year}:${date.month}:${date.day} ${date.hour}:${date.minute}:${date.second}`)
+    );
+  }
+
+  if (options.removeGps) data.gps = undefined;
+  else if (fields.gps) data.gps = buildGpsIfd(data.gps, fields.gps, littleEndian);
+
+  if (options.removeThumbnail) {
+    data.ifd1 = undefined;
+    data.thumbnail = undefined;
+  }
+
+  return concatBytes(encoder.encode(EXIF_SIGNATURE), serializeTiff(data));
+}
+
+function shortEntry(value: number, littleEndian: boolean): TiffEntry {
+  const bytes = new Uint8Array(2);
+  new DataView(bytes.buffer).setUint16(0, value, littleEndian);
+  return { type: TIFF_TYPE.SHORT, count: 1, value: bytes };
+}
+
+// Reads a SHORT or LONG value, the two types TIFF allows for dimensions
+function integerValue(entry: TiffEntry | undefined, littleEndian: boolean): number | undefined {
+  if (!entry) return undefined;
+  const view = new DataView(entry.value.buffer, entry.value.byteOffset, entry.value.byteLength);
+  if (entry.type === TIFF_TYPE.SHORT && entry.value.length >= 2) return view.getUint16(0, littleEndian);
+  if (entry.type === TIFF_TYPE.LONG && entry.value.length >= 4) return view.getUint32(0, littleEndian);
+  return undefined;
+}
+
+const isExifSegment = (segment: JpegSegment) =>
+  segment.marker === JPEG_MARKERS.APP1 && hasSignature(segment, EXIF_SIGNATURE);
+
+/** EXIF Orientation (1-8) of a JPEG's header segments, 1 when absent. */
+export function readExifOrientation(segments: JpegSegment[]): number {
+  const segment = segments.find(isExifSegment);
+  if (!segment) return 1;
+  try {
+    const data = parseTiff(segment.data.subarray(EXIF_SIGNATURE.length));
+    const orientation = integerValue(data.ifd0.get(TAGS.Orientation), data.littleEndian);
+    return orientation && orientation >= 1 && orientation <= 8 ? orientation : 1;
+  } catch {
+    return 1;
+  }
+}
+
+export interface ExifGeometryUpdate {
+  orientation: number;
+  width: number;
+  height: number;
+  // Replacement for the embedded JPEG thumbnail; null removes it
+  thumbnail?: (thumbnail: Uint8Array) => Uint8Array | null;
+}
+
+/**
+ * Rewrite the EXIF segment of a JPEG whose pixels were rotated, flipped or
+ * cropped: the Orientation tag and the stored pixel dimensions are set to
+ * the new values so viewers do not rotate the image a second time.
+ */
+export function updateExifGeometry(segments: JpegSegment[], update: ExifGeometryUpdate): JpegSegment[] {
+  const index = segments.findIndex(isExifSegment);
+  if (index < 0) return segments;
+  let data: TiffData;
+  try {
+    data = parseTiff(segments[index].data.subarray(EXIF_SIGNATURE.length));
+  } catch {
+    return segments;
+  }
+  const { ifd0, exif, littleEndian } = data;
+  if (ifd0.has(TAGS.Orientation) || update.orientation !== 1) ifd0.set(TAGS.Orientation, shortEntry(update.orientation, littleEndian));
+  const dimension = (tag: number, value: number) => {
+    const entry = exif?.get(tag);
+    if (!entry) return;
+    exif!.set(tag, entry.type === TIFF_TYPE.SHORT && value <= 0xffff ? shortEntry(value, littleEndian) : longEntry(value, littleEndian));
+  };
+  dimension(TAGS.PixelXDimension, update.width);
+  dimension(TAGS.PixelYDimension, update.height);
+  if (data.thumbnail && update.thumbnail) {
+    const thumbnail = update.thumbnail(data.thumbnail);
+    if (thumbnail) data.thumbnail = thumbnail;
+    else data.ifd1 = data.thumbnail = undefined;
+  }
+  const result = [...segments];
+  result[index] = { marker: JPEG_MARKERS.APP1, data: concatBytes(encoder.encode(EXIF_SIGNATURE), serializeTiff(data)) };
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// XMP
+// ---------------------------------------------------------------------------
+
+const NS = {
+  x: 'adobe:ns:meta/',
+  rdf: 'http://www.w3.org/1999/02/22-rdf-syntax-ns#',
+  dc: 'http://purl.org/dc/elements/1.1/',
+  xmp: 'http://ns.adobe.com/xap/1.0/',
+  photoshop: 'http://ns.adobe.com/photoshop/1.0/',
+  exif: 'http://ns.adobe.com/exif/1.0/',
+} as const;
+
+// Properties owned by this writer; any existing copies are replaced
+const MANAGED_PROPERTIES: [string, string][] = [
+  [NS.dc, 'title'],
+  [NS.dc, 'description'],
+  [NS.dc, 'creator'],
+  [NS.dc, 'rights'],
+  [NS.dc, 'subject'],
+  [NS.photoshop, 'DateCreated'],
+  [NS.exif, 'DateTimeOriginal'],
+];
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function formatXmpDate(date: ParsedDate): string {
+  return `${date.year}-${date.month}-${date.day}T${date.hour}:${date.minute}:${date.second}`;
+}
+
+function buildManagedDescription(fields: JpegMetadataFields): string {
+  const properties: string[] = [];
+  const altText = (name: string, value: string) =>
+    `<dc:${name}><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(value)}</rdf:li></rdf:Alt></dc:${name}>`;
+  if (fields.title) properties.push(altText('title', fields.title));
+  if (fields.description) properties.push(altText('description', fields.description));
+  if (fields.copyright) properties.push(altText('rights', fields.copyright));
+  if (fields.author) {
+    properties.push(`<dc:creator><rdf:Seq><rdf:li>${escapeXml(fields.author)}</rdf:li></rdf:Seq></dc:creator>`);
+  }
+  if (fields.keywords.length) {
+    const items = fields.keywords.map(keyword => `<rdf:li>${escapeXml(keyword)}</rdf:li>`).join('');
+    properties.push(`<dc:subject><rdf:Bag>${items}</rdf:Bag></dc:subject>`);
+  }
+  const date = parseLocalDate(fields.dateTimeOriginal);
+  if (date) {
+    properties.push(`<photoshop:DateCreated>${formatXmpDate(date)}</photoshop:DateCreated>`);
+    properties.push(`<exif:DateTimeOriginal>${formatXmpDate(date)}</exif:DateTimeOriginal>`);
+  }
+  return (
+    `<rdf:Description rdf:about="" xmlns:dc="${NS.dc}" xmlns:xmp="${NS.xmp}" ` +
+    `xmlns:photoshop="${NS.photoshop}" xmlns:exif="${NS.exif}">${properties.join('')}</rdf:Description>`
+  );
+}
+
+function wrapPacket(body: string): string {
+  // Trailing padding lets other tools edit the packet in place
+  const padding = (' '.repeat(99) + '\n').repeat(20);
+  return `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>\n${body}\n${padding}<?xpacket end="w"?>`;
+}
+
+function isGpsProperty(namespace: string | null, localName: string): boolean {
+  return namespace === NS.exif && localName.startsWith('GPS');
+}
+
+// Merge into the existing packet when a DOM is available so that properties
+// from other namespaces survive; otherwise a fresh packet is written.
+function buildXmp(existing: string | null, fields: JpegMetadataFields, options: MetadataWriteOptions): Uint8Array {
+  const description = buildManagedDescription(fields);
+  let body = `<x:xmpmeta xmlns:x="${NS.x}"><rdf:RDF xmlns:rdf="${NS.rdf}">${description}</rdf:RDF></x:xmpmeta>`;
+
+  if (existing && typeof DOMParser !== 'undefined' && typeof XMLSerializer !== 'undefined') {
+    const start = existing.indexOf('<x:xmpmeta');
+    const end = existing.lastIndexOf('</x:xmpmeta>');
+    const xml = start >= 0 && end > start ? existing.slice(start, end + '</x:xmpmeta>'.length) : existing;
+    const doc = new DOMParser().parseFromString(xml, 'application/xml');
+    const rdf = doc.getElementsByTagNameNS(NS.rdf, 'RDF')[0];
+    if (rdf && !doc.getElementsByTagName('parsererror').length) {
+      const managed = (namespace: string | null, localName: string) =>
+        MANAGED_PROPERTIES.some(([ns, name]) => ns === namespace && name === localName) ||
+        (options.removeGps && isGpsProperty(namespace, localName));
+      for (const node of Array.from(rdf.getElementsByTagNameNS(NS.rdf, 'Description'))) {
+        for (const attribute of Array.from(node.attributes)) {
+          if (managed(attribute.namespaceURI, attribute.localName)) node.removeAttributeNode(attribute);
+        }
+        for (const child of Array.from(node.childNodes)) {
+          if (child.nodeType === 1 && managed((child as Element).namespaceURI, (child as Element).localName)) {
+            node.removeChild(child);
+          }
+        }
+      }
+      const fragment = new DOMParser().parseFromString(
+        `<rdf:RDF xmlns:rdf="${NS.rdf}">${description}</rdf:RDF>`,
+        'application/xml'
+      );
+      const managedNode = Array.from(fragment.documentElement.childNodes).find(child => child.nodeType === 1);
+      if (managedNode) rdf.appendChild(doc.importNode(managedNode, true));
+      body = new XMLSerializer().serializeToString(doc.documentElement);
+    }
+  }
+
+  return concatBytes(encoder.encode(XMP_SIGNATURE), encoder.encode(wrapPacket(body)));
+}
+
+// ---------------------------------------------------------------------------
+// IPTC-IIM inside a Photoshop image resource block (APP13)
+// ---------------------------------------------------------------------------
+
+interface PhotoshopResource {
+  id: number;
+  name: Uint8Array;
+  data: Uint8Array;
+}
+
+interface IimDataset {
+  record: number;
+  dataset: number;
+  data: Uint8Array;
+}
+
+const IPTC_RESOURCE_ID = 0x0404;
+const IPTC_DIGEST_RESOURCE_ID = 0x0425;
+
+const IIM = {
+  CodedCharacterSet: 90,
+  RecordVersion: 0,
+  ObjectName: 5,
+  Keywords: 25,
+  DateCreated: 55,
+  TimeCreated: 60,
+  Byline: 80,
+  CopyrightNotice: 116,
+  Caption: 120,
+} as const;
+
+// Record 2 datasets rewritten from the form fields
+const MANAGED_DATASETS: number[] = [
+  IIM.ObjectName,
+  IIM.Keywords,
+  IIM.Byline,
+  IIM.CopyrightNotice,
+  IIM.Caption,
+];
+
+// ESC % G declares UTF-8 for the text datasets
+const UTF8_MARKER = new Uint8Array([0x1b, 0x25, 0x47]);
+
+function parsePhotoshopResources(data: Uint8Array): PhotoshopResource[] {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const resources: PhotoshopResource[] = [];
+  let offset = PHOTOSHOP_SIGNATURE.length;
+  while (offset + 12 <= data.length && decoder.decode(data.subarray(offset, offset + 4)) === '8BIM') {
+    const id = view.getUint16(offset + 4, false);
+    const nameLength = data[offset + 6];
+    // The Pascal name (length byte included) is padded to an even size
+    const namePadded = (nameLength + 2) & ~1;
+    const name = data.slice(offset + 7, offset + 7 + nameLength);
+    const sizeOffset = offset + 6 + namePadded;
+    if (sizeOffset + 4 > data.length) break;
+    const size = view.getUint32(sizeOffset, false);
+    const start = sizeOffset + 4;
+    if (start + size > data.length) break;
+    resources.push({ id, name, data: data.slice(start, start + size) });
+    offset = start + size + (size & 1);
+  }
+  return resources;
+}
+
+function serializePhotoshopResources(resources: PhotoshopResource[]): Uint8Array {
+  const parts: Uint8Array[] = [encoder.encode(PHOTOSHOP_SIGNATURE)];
+  for (const resource of resources) {
+    const namePadded = (resource.name.length + 2) & ~1;
+    const header = new Uint8Array(4 + 2 + namePadded + 4);
+    const view = new DataView(header.buffer);
+    header.set(encoder.encode('8BIM'), 0);
+    view.setUint16(4, resource.id, false);
+    header[6] = resource.name.length;
+    header.set(resource.name, 7);
+    view.setUint32(6 + namePadded, resource.data.length, false);
+    parts.push(header, resource.data);
+    if (resource.data.length & 1) parts.push(new Uint8Array(1));
+  }
+  return concatBytes(...parts);
+}
+
+function parseIim(data: Uint8Array): IimDataset[] {
+  const datasets: IimDataset[] = [];
+  let offset = 0;
+  while (offset + 5 <= data.length && data[offset] === 0x1c) {
+    const record = data[offset + 1];
+    const dataset = data[offset + 2];
+    let length = (data[offset + 3] << 8) | data[offset + 4];
+    let start = offset + 5;
+    if (length & 0x8000) {
+      // Extended dataset: the low bits give the size of the length field
+      const lengthBytes = length & 0x7fff;
+      length = 0;
+      for (let i = 0; i < lengthBytes; i++) length = length * 256 + data[start + i];
+      start += lengthBytes;
+    }
+    if (start + length > data.length) break;
+    datasets.push({ record, dataset, data: data.slice(start, start + length) });
+    offset = start + length;
+  }
+  return datasets;
+}
+
+function serializeIim(datasets: IimDataset[]): Uint8Array {
+  const parts: Uint8Array[] = [];
+  for (const { record, dataset, data } of datasets) {
+    if (data.length > 0x7fff) throw new Error(`IPTC dataset ${record}:${dataset} is too long`);
+    parts.push(new Uint8Array([0x1c, record, dataset, data.length >> 8, data.length & 0xff]), data);
+  }
+  return concatBytes(...parts);
+}
+
+function buildIim(existing: Uint8Array | null, fields: JpegMetadataFields): Uint8Array {
+  const current = existing ? parseIim(existing) : [];
+  const date = parseLocalDate(fields.dateTimeOriginal);
+  const replaced = (item: IimDataset) =>
+    (item.record === 1 && item.dataset === IIM.CodedCharacterSet) ||
+    (item.record === 2 && item.dataset === IIM.RecordVersion) ||
+    (item.record === 2 && MANAGED_DATASETS.includes(item.dataset)) ||
+    (item.record === 2 && !!date && (item.dataset === IIM.DateCreated || item.dataset === IIM.TimeCreated));
+
+  const kept = current.filter(item => !replaced(item));
+  const text = (dataset: number, value: string): IimDataset => ({ record: 2, dataset, data: encoder.encode(value) });
+  const record2: IimDataset[] = [{ record: 2, dataset: IIM.RecordVersion, data: new Uint8Array([0, 4]) }];
+  if (fields.title) record2.push(text(IIM.ObjectName, fields.title));
+  fields.keywords.forEach(keyword => record2.push(text(IIM.Keywords, keyword)));
+  if (date) {
+    record2.push(text(IIM.DateCreated, `${date.year}${date.month}${date.day}`));
+    record2.push(text(IIM.TimeCreated, `${date.hour}${date.minute}${date.second}`));
+  }
+  if (fields.author) record2.push(text(IIM.Byline, fields.author));
+  if (fields.copyright) record2.push(text(IIM.CopyrightNotice, fields.copyright));
+  if (fields.description) record2.push(text(IIM.Caption, fields.description));
+
+  const ordered = [
+    ...kept.filter(item => item.record < 2),
+    { record: 1, dataset: IIM.CodedCharacterSet, data: UTF8_MARKER },
+    ...record2,
+    ...kept.filter(item => item.record >= 2),
+  ].sort((a, b) => a.record - b.record);
+  return serializeIim(ordered);
+}
+
+function buildPhotoshopSegment(existing: Uint8Array | null, fields: JpegMetadataFields): Uint8Array {
+  const resources = existing ? parsePhotoshopResources(existing) : [];
+  const iptcResource = resources.find(resource => resource.id === IPTC_RESOURCE_ID);
+  const iim = buildIim(iptcResource?.data ?? null, fields);
+  const upsert = (id: number, data: Uint8Array) => {
+    const resource = resources.find(item => item.id === id);
+    if (resource) resource.data = data;
+    else resources.push({ id, name: new Uint8Array(0), data });
+  };
+  upsert(IPTC_RESOURCE_ID, iim);
+  // Photoshop compares this digest to detect IPTC edited by other tools
+  upsert(IPTC_DIGEST_RESOURCE_ID, md5(iim));
+  return serializePhotoshopResources(resources);
+}
+
+// ---------------------------------------------------------------------------
+// Segment assembly
+// ---------------------------------------------------------------------------
+
+function replaceOrInsert(segments: JpegSegment[], index: number, insertAt: number, segment: JpegSegment): number {
+  if (index >= 0) {
+    segments[index] = segment;
+    return index + 1;
+  }
+  segments.splice(insertAt, 0, segment);
+  return insertAt + 1;
+}
+
+export function writeJpegMetadata(
+  bytes: Uint8Array,
+  fields: JpegMetadataFields,
+  options: MetadataWriteOptions = DEFAULT_METADATA_WRITE_OPTIONS
+): Uint8Array {
+  const jpeg = parseJpeg(bytes);
+  const segments = [...jpeg.segments];
+  const isXmp = (segment: JpegSegment) => segment.marker === JPEG_MARKERS.APP1 && hasSignature(segment, XMP_SIGNATURE);
+  const isPhotoshop = (segment: JpegSegment) =>
+    segment.marker === JPEG_MARKERS.APP13 && hasSignature(segment, PHOTOSHOP_SIGNATURE);
+
+  // New segments go after any leading APP0 (JFIF/JFXX) segments, as EXIF requires
+  let insertAt = 0;
+  while (insertAt < segments.length && segments[insertAt].marker === JPEG_MARKERS.APP0) insertAt++;
+
+  if (options.writeExif) {
+    const index = segments.findIndex(isExifSegment);
+    const existing = index >= 0 ? segments[index].data.subarray(EXIF_SIGNATURE.length) : null;
+    const data = buildExif(existing, fields, options);
+    insertAt = replaceOrInsert(segments, index, insertAt, { marker: JPEG_MARKERS.APP1, data });
+  } else if (options.removeGps || options.removeThumbnail) {
+    // Still honour the removal options when the other EXIF fields are left alone
+    const index = segments.findIndex(isExifSegment);
+    if (index >= 0) {
+      const data = parseTiff(segments[index].data.subarray(EXIF_SIGNATURE.length));
+      if (options.removeGps) data.gps = undefined;
+      if (options.removeThumbnail) data.ifd1 = data.thumbnail = undefined;
+      segments[index] = { marker: JPEG_MARKERS.APP1, data: concatBytes(encoder.encode(EXIF_SIGNATURE), serializeTiff(data)) };
+    }
+  }
+
+  if (options.writeXmp) {
+    const index = segments.findIndex(isXmp);
+    const existing = index >= 0 ? decoder.decode(segments[index].data.subarray(XMP_SIGNATURE.length)) : null;
+    const data = buildXmp(existing, fields, options);
+    insertAt = replaceOrInsert(segments, index, Math.max(insertAt, segments.findIndex(isExifSegment) + 1), {
+      marker: JPEG_MARKERS.APP1,
+      data,
+    });
+  }
+
+  if (options.writeIptc) {
+    const index = segments.findIndex(isPhotoshop);
+    const existing = index >= 0 ? segments[index].data : null;
+    const data = buildPhotoshopSegment(existing, fields);
+    replaceOrInsert(segments, index, insertAt, { marker: JPEG_MARKERS.APP13, data });
+  }
+
+  return writeJpeg({ segments, scan: jpeg.scan });
+}
+
+// Splits a free-form keyword list on commas and semicolons
+export function parseKeywords(value: string): string[] {
+  return value
+    .split(/[,;]/)
+    .map(keyword => keyword.trim())
+    .filter(Boolean);
+}
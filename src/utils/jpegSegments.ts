@@ -0,0 +1,101 @@
+// JPEG marker segment reader and writer
+// Splits a JPEG into its header segments and the entropy-coded remainder so
+// tools can add, replace or drop segments without touching the scan data.
+
+export const JPEG_MARKERS = {
+  SOI: 0xd8,
+  EOI: 0xd9,
+  SOS: 0xda,
+  DQT: 0xdb,
+  DHT: 0xc4,
+  DRI: 0xdd,
+  APP0: 0xe0,
+  APP1: 0xe1,
+  APP2: 0xe2,
+  APP13: 0xed,
+  APP14: 0xee,
+  COM: 0xfe,
+} as const;
+
+export interface JpegSegment {
+  marker: number;
+  // Payload without the marker and the two length bytes
+  data: Uint8Array;
+}
+
+export interface JpegFile {
+  // Segments between SOI and the first SOS (exclusive)
+  segments: JpegSegment[];
+  // Everything from the first SOS marker to the end of the file
+  scan: Uint8Array;
+}
+
+// Largest payload a single segment can carry (65535 minus the length field)
+export const MAX_SEGMENT_PAYLOAD = 65533;
+
+export class JpegFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JpegFormatError';
+  }
+}
+
+export function isJpeg(bytes: Uint8Array): boolean {
+  return bytes.length > 3 && bytes[0] === 0xff && bytes[1] === JPEG_MARKERS.SOI && bytes[2] === 0xff;
+}
+
+export function parseJpeg(bytes: Uint8Array): JpegFile {
+  if (!isJpeg(bytes)) throw new JpegFormatError('Not a JPEG file');
+  const segments: JpegSegment[] = [];
+  let offset = 2;
+  while (offset < bytes.length) {
+    if (bytes[offset] !== 0xff) throw new JpegFormatError(`Expected a marker at offset ${offset}`);
+    // Any number of 0xFF fill bytes may precede a marker
+    while (bytes[offset] === 0xff && offset < bytes.length) offset++;
+    const marker = bytes[offset++];
+    if (marker === JPEG_MARKERS.SOS || marker === JPEG_MARKERS.EOI) {
+      return { segments, scan: bytes.subarray(offset - 2) };
+    }
+    if ((marker >= 0xd0 && marker <= 0xd7) || marker === 0x01) {
+      segments.push({ marker, data: new Uint8Array(0) });
+      continue;
+    }
+    if (offset + 2 > bytes.length) break;
+    const length = (bytes[offset] << 8) | bytes[offset + 1];
+    if (length < 2 || offset + length > bytes.length) throw new JpegFormatError(`Truncated segment 0x${marker.toString(16)}`);
+    segments.push({ marker, data: bytes.subarray(offset + 2, offset + length) });
+    offset += length;
+  }
+  throw new JpegFormatError('No image data found');
+}
+
+export function writeJpeg(file: JpegFile): Uint8Array {
+  const total = 2 + file.segments.reduce((sum, segment) => sum + 4 + segment.data.length, 0) + file.scan.length;
+  const out = new Uint8Array(total);
+  out[0] = 0xff;
+  out[1] = JPEG_MARKERS.SOI;
+  let offset = 2;
+  for (const segment of file.segments) {
+    if (segment.data.length > MAX_SEGMENT_PAYLOAD) {
+      throw new JpegFormatError(`Segment 0x${segment.marker.toString(16)} is too large (${segment.data.length} bytes)`);
+    }
+    const length = segment.data.length + 2;
+    out[offset++] = 0xff;
+    out[offset++] = segment.marker;
+    out[offset++] = length >> 8;
+    out[offset++] = length & 0xff;
+    out.set(segment.data, offset);
+    offset += segment.data.length;
+  }
+  out.set(file.scan, offset);
+  return out;
+}
+
+// True when the segment payload starts with the given ASCII signature
+export function hasSignature(segment: JpegSegment, signature: string): boolean {
+  if (segment.data.length < signature.length) return false;
+  for (let i = 0; i < signature.length; i++) {
+    if (segment.data[i] !== signature.charCodeAt(i)) return false;
+  }
+  return true;
+}
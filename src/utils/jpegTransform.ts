@@ -0,0 +1,369 @@
+// Lossless JPEG rotation, flipping and cropping
+// Works like jpegtran: DCT blocks are moved and their coefficients transposed
+// or sign-flipped, so nothing is decoded and no quality is lost. The EXIF
+// orientation is folded into the result and the tag reset to 1, matching
+// what browsers show for the original file.
+
+import { JpegCoefficients, JpegComponent, ZIGZAG, componentBlocks, maxSampling, mcuGrid, readJpegCoefficients } from './jpegCoefficients';
+import { writeJpegCoefficients } from './jpegEncoder';
+import { readExifOrientation, updateExifGeometry } from './jpegMetadata';
+import { JpegSegment, parseJpeg } from './jpegSegments';
+
+export type JpegRotation = 0 | 90 | 180 | 270;
+
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface JpegTransformOptions {
+  // In displayed pixels, before rotating or flipping
+  crop?: CropRect;
+  // Clockwise, applied after the crop and the flips
+  rotate?: JpegRotation;
+  flipHorizontal?: boolean;
+  flipVertical?: boolean;
+  // Drop partial edge blocks that cannot be mirrored instead of giving up
+  trimEdges?: boolean;
+}
+
+export interface JpegTransformPlan {
+  lossless: boolean;
+  // Why the transform needs re-encoding
+  reason?: string;
+  // Output size
+  width: number;
+  height: number;
+  // Pixels trimEdges removed from the output width and height
+  trimmed: { width: number; height: number };
+}
+
+export class JpegTransformError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JpegTransformError';
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Geometry
+// ---------------------------------------------------------------------------
+
+// Signed 2x2 permutation matrix acting on centred (x, y) pixel coordinates
+type Matrix = [number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1];
+const ROTATIONS: Record<JpegRotation, Matrix> = {
+  0: IDENTITY,
+  90: [0, -1, 1, 0],
+  180: [-1, 0, 0, -1],
+  270: [0, 1, -1, 0],
+};
+const FLIP_HORIZONTAL: Matrix = [-1, 0, 0, 1];
+const FLIP_VERTICAL: Matrix = [1, 0, 0, -1];
+
+// EXIF orientation as the transform from stored to displayed pixels
+const ORIENTATIONS: Matrix[] = [
+  IDENTITY,
+  IDENTITY,
+  FLIP_HORIZONTAL,
+  ROTATIONS[180],
+  FLIP_VERTICAL,
+  [0, 1, 1, 0],
+  ROTATIONS[90],
+  [0, -1, -1, 0],
+  ROTATIONS[270],
+];
+
+// a applied after b
+const multiply = (a: Matrix, b: Matrix): Matrix => [
+  a[0] * b[0] + a[1] * b[2],
+  a[0] * b[1] + a[1] * b[3],
+  a[2] * b[0] + a[3] * b[2],
+  a[2] * b[1] + a[3] * b[3],
+];
+
+// Signed permutations are orthogonal, so the inverse is the transpose
+const invert = (m: Matrix): Matrix => [m[0], m[2], m[1], m[3]];
+
+const swapsAxes = (m: Matrix) => m[0] === 0;
+
+function mappedSize(m: Matrix, width: number, height: number) {
+  return swapsAxes(m) ? { width: height, height: width } : { width, height };
+}
+
+function mapRect(m: Matrix, rect: CropRect, width: number, height: number): CropRect {
+  const out = mappedSize(m, width, height);
+  const corner = (x: number, y: number) => {
+    const cx = x - width / 2;
+    const cy = y - height / 2;
+    return { x: m[0] * cx + m[1] * cy + out.width / 2, y: m[2] * cx + m[3] * cy + out.height / 2 };
+  };
+  const a = corner(rect.x, rect.y);
+  const b = corner(rect.x + rect.width, rect.y + rect.height);
+  return {
+    x: Math.round(Math.min(a.x, b.x)),
+    y: Math.round(Math.min(a.y, b.y)),
+    width: Math.round(Math.abs(b.x - a.x)),
+    height: Math.round(Math.abs(b.y - a.y)),
+  };
+}
+
+// Flips first, then the rotation, as the canvas transforms in the editors do
+function requestedMatrix(options: JpegTransformOptions): Matrix {
+  let m = IDENTITY;
+  if (options.flipHorizontal) m = multiply(FLIP_HORIZONTAL, m);
+  if (options.flipVertical) m = multiply(FLIP_VERTICAL, m);
+  return multiply(ROTATIONS[options.rotate ?? 0], m);
+}
+
+// Dihedral transform of a rotation in degrees, or null for other angles
+export function rotationFromDegrees(degrees: number): JpegRotation | null {
+  const normalized = ((Math.round(degrees) % 360) + 360) % 360;
+  return normalized % 90 === 0 ? (normalized as JpegRotation) : null;
+}
+
+// ---------------------------------------------------------------------------
+// Planning
+// ---------------------------------------------------------------------------
+
+interface FrameHeader {
+  width: number;
+  height: number;
+  precision: number;
+  marker: number;
+  sampling: { h: number; v: number }[];
+  orientation: number;
+}
+
+function readFrameHeader(bytes: Uint8Array): FrameHeader {
+  const { segments } = parseJpeg(bytes);
+  const sof = segments.find(segment => segment.marker >= 0xc0 && segment.marker <= 0xcf && segment.marker !== 0xc4 && segment.marker !== 0xc8 && segment.marker !== 0xcc);
+  if (!sof || sof.data.length < 6) throw new JpegTransformError('The JPEG has no frame header');
+  const count = sof.data[5];
+  const sampling = [];
+  for (let i = 0; i < count; i++) {
+    const value = sof.data[7 + i * 3];
+    sampling.push({ h: value >> 4, v: value & 15 });
+  }
+  return {
+    precision: sof.data[0],
+    height: (sof.data[1] << 8) | sof.data[2],
+    width: (sof.data[3] << 8) | sof.data[4],
+    marker: sof.marker,
+    sampling,
+    orientation: readExifOrientation(segments),
+  };
+}
+
+interface Layout {
+  plan: JpegTransformPlan;
+  // Transform from stored to output pixels
+  matrix: Matrix;
+  // Region of the stored image that is kept
+  region: CropRect;
+  orientation: number;
+}
+
+function layout(header: FrameHeader, options: JpegTransformOptions): Layout {
+  const orientation = ORIENTATIONS[header.orientation];
+  const matrix = multiply(requestedMatrix(options), orientation);
+  const shown = mappedSize(orientation, header.width, header.height);
+  const crop = options.crop ?? { x: 0, y: 0, ...shown };
+  let region = mapRect(invert(orientation), crop, shown.width, shown.height);
+  const fail = (reason: string): Layout => {
+    const size = mappedSize(matrix, region.width, region.height);
+    return { plan: { lossless: false, reason, ...size, trimmed: { width: 0, height: 0 } }, matrix, region, orientation: header.orientation };
+  };
+
+  region = {
+    x: Math.max(0, region.x),
+    y: Math.max(0, region.y),
+    width: Math.min(region.width, header.width - Math.max(0, region.x)),
+    height: Math.min(region.height, header.height - Math.max(0, region.y)),
+  };
+  if (region.width < 1 || region.height < 1) return fail('The crop is outside the image');
+  if (![0xc0, 0xc1, 0xc2].includes(header.marker)) return fail('Only Huffman-coded baseline and progressive JPEGs can be transformed losslessly');
+  if (header.precision !== 8) return fail('Only 8-bit JPEGs can be transformed losslessly');
+
+  const hMax = Math.max(...header.sampling.map(s => s.h));
+  const vMax = Math.max(...header.sampling.map(s => s.v));
+  const block = { width: 8 * hMax, height: 8 * vMax };
+  if (region.x % block.width !== 0 || region.y % block.height !== 0) {
+    return fail(`The crop does not start on the ${block.width}×${block.height} block grid`);
+  }
+
+  // A mirrored axis moves the partial blocks at its far end to the start,
+  // where they cannot be represented
+  const trimmed = { width: 0, height: 0 };
+  const mirroredX = (swapsAxes(matrix) ? matrix[2] : matrix[0]) < 0;
+  const mirroredY = (swapsAxes(matrix) ? matrix[1] : matrix[3]) < 0;
+  const excessX = mirroredX ? region.width % block.width : 0;
+  const excessY = mirroredY ? region.height % block.height : 0;
+  if (excessX || excessY) {
+    if (!options.trimEdges) return fail(`The image size is not a multiple of the ${block.width}×${block.height} block size on a mirrored edge`);
+    if (region.width - excessX < 1 || region.height - excessY < 1) return fail('The image is smaller than one block');
+    region = { ...region, width: region.width - excessX, height: region.height - excessY };
+    const removed = mappedSize(matrix, excessX, excessY);
+    trimmed.width = removed.width;
+    trimmed.height = removed.height;
+  }
+  const size = mappedSize(matrix, region.width, region.height);
+  return { plan: { lossless: true, ...size, trimmed }, matrix, region, orientation: header.orientation };
+}
+
+/** Decide whether a transform can be done on the DCT coefficients. */
+export function planJpegTransform(bytes: Uint8Array, options: JpegTransformOptions): JpegTransformPlan {
+  return layout(readFrameHeader(bytes), options).plan;
+}
+
+/**
+ * Grow a crop outwards onto the block grid so it can be done losslessly. The
+ * stored top-left corner always moves; the opposite edge is extended too
+ * where the EXIF orientation mirrors that axis.
+ */
+export function snapCropToBlocks(bytes: Uint8Array, crop: CropRect): CropRect {
+  const header = readFrameHeader(bytes);
+  const orientation = ORIENTATIONS[header.orientation];
+  const shown = mappedSize(orientation, header.width, header.height);
+  const stored = mapRect(invert(orientation), crop, shown.width, shown.height);
+  const snapAxis = (start: number, length: number, block: number, limit: number, mirrored: boolean) => {
+    const from = Math.max(0, Math.floor(start / block) * block);
+    let to = Math.min(limit, start + length);
+    if (mirrored && to < limit) to = Math.min(limit, Math.ceil(to / block) * block);
+    return { from, length: to - from };
+  };
+  const x = snapAxis(stored.x, stored.width, 8 * Math.max(...header.sampling.map(s => s.h)), header.width, (swapsAxes(orientation) ? orientation[2] : orientation[0]) < 0);
+  const y = snapAxis(stored.y, stored.height, 8 * Math.max(...header.sampling.map(s => s.v)), header.height, (swapsAxes(orientation) ? orientation[1] : orientation[3]) < 0);
+  return mapRect(orientation, { x: x.from, y: y.from, width: x.length, height: y.length }, header.width, header.height);
+}
+
+// ---------------------------------------------------------------------------
+// Coefficients
+// ---------------------------------------------------------------------------
+
+const ZIGZAG_INDEX = new Uint8Array(64);
+ZIGZAG.forEach((natural, k) => {
+  ZIGZAG_INDEX[natural] = k;
+});
+
+// For each output zigzag position: the source position and the sign to apply
+function coefficientMap(matrix: Matrix) {
+  const transpose = swapsAxes(matrix);
+  const flipX = (transpose ? matrix[1] : matrix[0]) < 0;
+  const flipY = (transpose ? matrix[2] : matrix[3]) < 0;
+  const source = new Uint8Array(64);
+  const sign = new Int8Array(64);
+  for (let k = 0; k < 64; k++) {
+    const natural = ZIGZAG[k];
+    const v = natural >> 3;
+    const u = natural & 7;
+    source[k] = ZIGZAG_INDEX[transpose ? u * 8 + v : natural];
+    sign[k] = (flipX && u & 1 ? -1 : 1) * (flipY && v & 1 ? -1 : 1);
+  }
+  return { source, sign, transpose, flipX, flipY };
+}
+
+function transposeTable(table: Uint16Array): Uint16Array {
+  const out = new Uint16Array(64);
+  for (let k = 0; k < 64; k++) {
+    const natural = ZIGZAG[k];
+    out[k] = table[ZIGZAG_INDEX[(natural & 7) * 8 + (natural >> 3)]];
+  }
+  return out;
+}
+
+function transformCoefficients(frame: JpegCoefficients, region: CropRect, matrix: Matrix, segments: JpegSegment[]): JpegCoefficients {
+  const map = coefficientMap(matrix);
+  const size = mappedSize(matrix, region.width, region.height);
+  const sourceMax = maxSampling(frame);
+  const shape = {
+    ...size,
+    components: frame.components.map(component => ({
+      ...component,
+      h: map.transpose ? component.v : component.h,
+      v: map.transpose ? component.h : component.v,
+    })),
+  };
+  const grid = mcuGrid(shape);
+
+  const components: JpegComponent[] = frame.components.map((component, index) => {
+    const { h, v } = shape.components[index];
+    const blocksPerLine = grid.columns * h;
+    const blocksPerColumn = grid.rows * v;
+    const coefficients = new Int16Array(blocksPerLine * blocksPerColumn * 64);
+    const target = { ...component, h, v, blocksPerLine, blocksPerColumn, coefficients };
+    const { columns, rows } = componentBlocks(shape, target);
+    const offsetX = ((region.x / 8) * component.h) / sourceMax.h;
+    const offsetY = ((region.y / 8) * component.v) / sourceMax.v;
+    for (let row = 0; row < rows; row++) {
+      for (let column = 0; column < columns; column++) {
+        const x = map.flipX ? columns - 1 - column : column;
+        const y = map.flipY ? rows - 1 - row : row;
+        const sourceColumn = (map.transpose ? y : x) + offsetX;
+        const sourceRow = (map.transpose ? x : y) + offsetY;
+        const from = (sourceRow * component.blocksPerLine + sourceColumn) * 64;
+        const to = (row * blocksPerLine + column) * 64;
+        for (let k = 0; k < 64; k++) coefficients[to + k] = map.sign[k] * component.coefficients[from + map.source[k]];
+      }
+    }
+    return target;
+  });
+
+  return {
+    ...frame,
+    ...size,
+    components,
+    quantTables: map.transpose ? frame.quantTables.map(table => table && transposeTable(table)) : frame.quantTables,
+    segments,
+  };
+}
+
+/**
+ * Crop, rotate and flip a JPEG without re-encoding it. Throws a
+ * JpegTransformError when planJpegTransform reports the edit is not lossless.
+ */
+export function transformJpeg(bytes: Uint8Array, options: JpegTransformOptions): Uint8Array {
+  const { plan, matrix, region, orientation } = layout(readFrameHeader(bytes), options);
+  if (!plan.lossless) throw new JpegTransformError(plan.reason ?? 'The transform cannot be done losslessly');
+  const frame = readJpegCoefficients(bytes);
+  const cropped = region.x !== 0 || region.y !== 0 || region.width !== frame.width || region.height !== frame.height;
+  const segments = updateExifGeometry(frame.segments, {
+    orientation: 1,
+    width: plan.width,
+    height: plan.height,
+    // The thumbnail shows the whole stored image, so it can follow a rotation but not a crop
+    thumbnail: thumbnail => {
+      if (cropped) return null;
+      if (orientation === 1 && matrix.every((value, i) => value === IDENTITY[i])) return thumbnail;
+      try {
+        return transformWithMatrix(thumbnail, matrix);
+      } catch {
+        return null;
+      }
+    },
+  });
+  return writeJpegCoefficients(transformCoefficients(frame, region, matrix, segments), { progressive: frame.progressive });
+}
+
+// Thumbnails are stored like the main image and carry no EXIF of their own
+function transformWithMatrix(bytes: Uint8Array, matrix: Matrix): Uint8Array | null {
+  const header = { ...readFrameHeader(bytes), orientation: 1 };
+  const { plan, region } = layout(header, { ...optionsFor(matrix), trimEdges: true });
+  if (!plan.lossless) return null;
+  const frame = readJpegCoefficients(bytes);
+  return writeJpegCoefficients(transformCoefficients(frame, region, matrix, frame.segments), { progressive: frame.progressive });
+}
+
+// Express a matrix as an optional horizontal flip followed by a rotation
+function optionsFor(matrix: Matrix): JpegTransformOptions {
+  for (const rotate of [0, 90, 180, 270] as JpegRotation[]) {
+    for (const flipHorizontal of [false, true]) {
+      const candidate = requestedMatrix({ rotate, flipHorizontal });
+      if (candidate.every((value, i) => value === matrix[i])) return { rotate, flipHorizontal };
+    }
+  }
+  return {};
+}
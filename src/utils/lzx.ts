@@ -0,0 +1,320 @@
+// LZX decompressor (the Microsoft CAB/CHM variant)
+// Decodes one reset interval at a time: the caller supplies the compressed
+// bytes starting at a reset point and the number of bytes to produce. Output
+// is organised in 32 KB frames, and the bitstream is realigned to 16 bits
+// after every frame, as CHM reset tables expect.
+
+export const LZX_FRAME_SIZE = 32768;
+
+const MIN_MATCH = 2;
+const NUM_CHARS = 256;
+const NUM_PRIMARY_LENGTHS = 7;
+const PRETREE_SYMBOLS = 20;
+const LENGTH_SYMBOLS = 249;
+const ALIGNED_SYMBOLS = 8;
+const MAX_CODE_LENGTH = 16;
+
+const BLOCK_VERBATIM = 1;
+const BLOCK_ALIGNED = 2;
+const BLOCK_UNCOMPRESSED = 3;
+
+// Position slots per window size (2^15 .. 2^21)
+const POSITION_SLOTS: Record<number, number> = { 15: 30, 16: 32, 17: 34, 18: 36, 19: 38, 20: 42, 21: 50 };
+
+const EXTRA_BITS = new Uint8Array(51);
+const POSITION_BASE = new Uint32Array(51);
+(() => {
+  for (let i = 0, bits = 0; i < 51; i += 2) {
+    EXTRA_BITS[i] = bits;
+    EXTRA_BITS[i + 1] = bits;
+    if (i !== 0 && bits < 17) bits++;
+  }
+  for (let i = 0, base = 0; i < 51; i++) {
+    POSITION_BASE[i] = base;
+    base += 1 << EXTRA_BITS[i];
+  }
+})();
+
+export class LZXError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LZXError';
+  }
+}
+
+// Reads 16-bit little-endian words, consuming bits from the most significant end
+class BitReader {
+  private buffer = 0;
+  private bitsLeft = 0;
+
+  constructor(private readonly input: Uint8Array, public position: number) {}
+
+  private ensure(count: number) {
+    while (this.bitsLeft < count) {
+      const low = this.position < this.input.length ? this.input[this.position] : 0;
+      const high = this.position + 1 < this.input.length ? this.input[this.position + 1] : 0;
+      this.position += 2;
+      this.buffer = (this.buffer | (((high << 8) | low) << (16 - this.bitsLeft))) >>> 0;
+      this.bitsLeft += 16;
+    }
+  }
+
+  peek(count: number): number {
+    this.ensure(count);
+    return this.buffer >>> (32 - count);
+  }
+
+  skip(count: number) {
+    this.buffer = (this.buffer << count) >>> 0;
+    this.bitsLeft -= count;
+  }
+
+  read(count: number): number {
+    if (count === 0) return 0;
+    // Reads wider than 16 bits are split so the 32-bit buffer never overflows
+    if (count > 16) return (this.read(16) << (count - 16)) | this.read(count - 16);
+    const value = this.peek(count);
+    this.skip(count);
+    return value;
+  }
+
+  // Drop the unread bits of the current 16-bit word
+  align() {
+    if (this.bitsLeft & 15) this.skip(this.bitsLeft & 15);
+  }
+
+  // Switch to byte access for stored blocks; always discards 1-16 bits
+  alignForBytes() {
+    if (this.bitsLeft === 0) this.ensure(16);
+    this.buffer = 0;
+    this.bitsLeft = 0;
+  }
+
+  readByte(): number {
+    if (this.position >= this.input.length) throw new LZXError('Unexpected end of compressed data');
+    return this.input[this.position++];
+  }
+
+  readUint32LE(): number {
+    return (this.readByte() | (this.readByte() << 8) | (this.readByte() << 16) | (this.readByte() << 24)) >>> 0;
+  }
+}
+
+// Canonical Huffman decoding table indexed by the next 16 bits of input
+class HuffmanTable {
+  private readonly table = new Uint16Array(1 << MAX_CODE_LENGTH);
+  private empty = true;
+
+  constructor(public readonly lengths: Uint8Array) {}
+
+  build() {
+    const { lengths, table } = this;
+    table.fill(0xffff);
+    this.empty = true;
+    let code = 0;
+    for (let length = 1; length <= MAX_CODE_LENGTH; length++) {
+      for (let symbol = 0; symbol < lengths.length; symbol++) {
+        if (lengths[symbol] !== length) continue;
+        const span = 1 << (MAX_CODE_LENGTH - length);
+        const start = code * span;
+        if (start + span > table.length) throw new LZXError('Invalid Huffman code lengths');
+        table.fill(symbol, start, start + span);
+        code++;
+        this.empty = false;
+      }
+      code <<= 1;
+    }
+  }
+
+  decode(bits: BitReader): number {
+    if (this.empty) throw new LZXError('Symbol read from an empty Huffman tree');
+    const symbol = this.table[bits.peek(MAX_CODE_LENGTH)];
+    if (symbol === 0xffff) throw new LZXError('Invalid Huffman code');
+    bits.skip(this.lengths[symbol]);
+    return symbol;
+  }
+}
+
+function readLengths(bits: BitReader, lengths: Uint8Array, first: number, last: number) {
+  const pretree = new HuffmanTable(new Uint8Array(PRETREE_SYMBOLS));
+  for (let i = 0; i < PRETREE_SYMBOLS; i++) pretree.lengths[i] = bits.read(4);
+  pretree.build();
+  for (let x = first; x < last; ) {
+    const code = pretree.decode(bits);
+    if (code === 17) {
+      let run = bits.read(4) + 4;
+      while (run-- && x < last) lengths[x++] = 0;
+    } else if (code === 18) {
+      let run = bits.read(5) + 20;
+      while (run-- && x < last) lengths[x++] = 0;
+    } else if (code === 19) {
+      let run = bits.read(1) + 4;
+      let value = lengths[x] - pretree.decode(bits);
+      if (value < 0) value += 17;
+      while (run-- && x < last) lengths[x++] = value;
+    } else {
+      let value = lengths[x] - code;
+      if (value < 0) value += 17;
+      lengths[x++] = value;
+    }
+  }
+}
+
+// Undo the E8 call translation applied by the compressor to x86 code
+function translateE8(frame: Uint8Array, position: number, fileSize: number) {
+  const end = frame.length - 10;
+  let current = position;
+  for (let i = 0; i < end; ) {
+    if (frame[i++] !== 0xe8) {
+      current++;
+      continue;
+    }
+    const absolute = frame[i] | (frame[i + 1] << 8) | (frame[i + 2] << 16) | (frame[i + 3] << 24);
+    if (absolute >= -current && absolute < fileSize) {
+      const relative = absolute >= 0 ? absolute - current : absolute + fileSize;
+      frame[i] = relative & 0xff;
+      frame[i + 1] = (relative >> 8) & 0xff;
+      frame[i + 2] = (relative >> 16) & 0xff;
+      frame[i + 3] = (relative >> 24) & 0xff;
+    }
+    i += 4;
+    current += 5;
+  }
+}
+
+/**
+ * Decompress `outputLength` bytes of LZX data that start at a reset point.
+ * `streamOffset` is the uncompressed position of that reset point, which only
+ * matters for the E8 translation.
+ */
+export function decompressLZX(
+  input: Uint8Array,
+  windowBits: number,
+  outputLength: number,
+  streamOffset = 0
+): Uint8Array {
+  const positionSlots = POSITION_SLOTS[windowBits];
+  if (!positionSlots) throw new LZXError(`Unsupported LZX window size 2^${windowBits}`);
+
+  const bits = new BitReader(input, 0);
+  const main = new HuffmanTable(new Uint8Array(NUM_CHARS + positionSlots * 8));
+  const length = new HuffmanTable(new Uint8Array(LENGTH_SYMBOLS));
+  const aligned = new HuffmanTable(new Uint8Array(ALIGNED_SYMBOLS));
+  // Matches may run up to 257 bytes past the requested length
+  const window = new Uint8Array(outputLength + 258);
+  let position = 0;
+  let r0 = 1;
+  let r1 = 1;
+  let r2 = 1;
+  let blockType = 0;
+  let blockLength = 0;
+  let blockRemaining = 0;
+  let intelStarted = false;
+
+  const intelFileSize = bits.read(1) ? bits.read(32) | 0 : 0;
+
+  const readBlockHeader = () => {
+    if (blockType === BLOCK_UNCOMPRESSED && blockLength & 1) bits.readByte();
+    blockType = bits.read(3);
+    blockLength = blockRemaining = (bits.read(16) << 8) | bits.read(8);
+    if (blockType === BLOCK_ALIGNED) {
+      for (let i = 0; i < ALIGNED_SYMBOLS; i++) aligned.lengths[i] = bits.read(3);
+      aligned.build();
+    }
+    if (blockType === BLOCK_ALIGNED || blockType === BLOCK_VERBATIM) {
+      readLengths(bits, main.lengths, 0, NUM_CHARS);
+      readLengths(bits, main.lengths, NUM_CHARS, main.lengths.length);
+      main.build();
+      if (main.lengths[0xe8]) intelStarted = true;
+      readLengths(bits, length.lengths, 0, LENGTH_SYMBOLS);
+      length.build();
+    } else if (blockType === BLOCK_UNCOMPRESSED) {
+      intelStarted = true;
+      bits.alignForBytes();
+      r0 = bits.readUint32LE();
+      r1 = bits.readUint32LE();
+      r2 = bits.readUint32LE();
+    } else {
+      throw new LZXError(`Invalid LZX block type ${blockType}`);
+    }
+  };
+
+  const decodeMatchOffset = (slot: number): number => {
+    if (slot === 0) return r0;
+    if (slot === 1) {
+      const offset = r1;
+      r1 = r0;
+      r0 = offset;
+      return offset;
+    }
+    if (slot === 2) {
+      const offset = r2;
+      r2 = r0;
+      r0 = offset;
+      return offset;
+    }
+    const extra = EXTRA_BITS[slot];
+    let offset = POSITION_BASE[slot] - 2;
+    if (blockType === BLOCK_ALIGNED && extra >= 3) {
+      if (extra > 3) offset += bits.read(extra - 3) << 3;
+      offset += aligned.decode(bits);
+    } else if (extra > 0) {
+      offset += bits.read(extra);
+    }
+    r2 = r1;
+    r1 = r0;
+    r0 = offset;
+    return offset;
+  };
+
+  const decodeRun = (end: number) => {
+    while (position < end) {
+      const symbol = main.decode(bits);
+      if (symbol < NUM_CHARS) {
+        window[position++] = symbol;
+        continue;
+      }
+      const element = symbol - NUM_CHARS;
+      let matchLength = element & NUM_PRIMARY_LENGTHS;
+      if (matchLength === NUM_PRIMARY_LENGTHS) matchLength += length.decode(bits);
+      matchLength += MIN_MATCH;
+      const offset = decodeMatchOffset(element >> 3);
+      if (offset > position) throw new LZXError('Match offset points before the start of the data');
+      if (position + matchLength > window.length) throw new LZXError('Match runs past the end of the data');
+      // Byte-by-byte copy: overlapping matches repeat the pattern
+      for (let i = 0; i < matchLength; i++, position++) window[position] = window[position - offset];
+    }
+  };
+
+  let frameStart = 0;
+  while (frameStart < outputLength) {
+    const frameEnd = Math.min(frameStart + LZX_FRAME_SIZE, outputLength);
+    while (position < frameEnd) {
+      if (blockRemaining === 0) readBlockHeader();
+      const runEnd = Math.min(position + blockRemaining, frameEnd);
+      const before = position;
+      if (blockType === BLOCK_UNCOMPRESSED) {
+        while (position < runEnd) window[position++] = bits.readByte();
+      } else {
+        decodeRun(runEnd);
+      }
+      const produced = position - before;
+      if (produced > blockRemaining) throw new LZXError('Match crosses an LZX block boundary');
+      blockRemaining -= produced;
+    }
+    bits.align();
+    frameStart = frameEnd;
+  }
+
+  const output = window.slice(0, outputLength);
+  if (intelStarted && intelFileSize) {
+    for (let start = 0; start < outputLength; start += LZX_FRAME_SIZE) {
+      const frameIndex = (streamOffset + start) / LZX_FRAME_SIZE;
+      const end = Math.min(start + LZX_FRAME_SIZE, outputLength);
+      if (frameIndex < 32768 && end - start > 10) {
+        translateE8(output.subarray(start, end), streamOffset + start, intelFileSize);
+      }
+    }
+  }
+  return output;
+}
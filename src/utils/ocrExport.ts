@@ -0,0 +1,246 @@
+// OCR layout exports
+// Serializes recognized pages as hOCR 1.2, ALTO 4 and flat word lists. Boxes
+// are in pixels of the image that was recognized, top-left origin, which is
+// what both hOCR and ALTO (MeasurementUnit pixel) expect.
+
+import { OCRBox, OCRLine, OCRPage } from './ocrTextLayer';
+
+export interface OCRExportOptions {
+  // 1-based
+  pageNumber: number;
+  // Tesseract language code(s), e.g. 'eng' or 'eng+deu'
+  language: string;
+  // Name of the source image or document, recorded in the output
+  source?: string;
+}
+
+export interface OCRWordRecord {
+  page: number;
+  block: number;
+  paragraph: number;
+  line: number;
+  word: number;
+  text: string;
+  confidence: number;
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+interface LineGroup {
+  lines: OCRLine[];
+  bbox: OCRBox;
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+}
+
+function union(boxes: OCRBox[]): OCRBox {
+  return {
+    x0: Math.min(...boxes.map(box => box.x0)),
+    y0: Math.min(...boxes.map(box => box.y0)),
+    x1: Math.max(...boxes.map(box => box.x1)),
+    y1: Math.max(...boxes.map(box => box.y1)),
+  };
+}
+
+// Consecutive lines sharing a key, e.g. the same paragraph
+function groupLines(lines: OCRLine[], key: (line: OCRLine) => string): LineGroup[] {
+  const groups: LineGroup[] = [];
+  let current: OCRLine[] = [];
+  lines.forEach((line, index) => {
+    current.push(line);
+    const next = lines[index + 1];
+    if (!next || key(next) !== key(line)) {
+      groups.push({ lines: current, bbox: union(current.map(member => member.bbox)) });
+      current = [];
+    }
+  });
+  return groups;
+}
+
+const blockKey = (line: OCRLine) => `${line.block}`;
+const paragraphKey = (line: OCRLine) => `${line.block}/${line.paragraph}`;
+
+const round = (value: number) => Math.round(value);
+
+// Primary Tesseract language as an xml:lang style tag, e.g. 'chi_sim+eng' -> 'chi-sim'
+const languageTag = (language: string) => language.split('+')[0].replace(/_/g, '-');
+
+/** Plain text of a page: words joined by spaces, paragraphs separated by a blank line. */
+export function ocrPageText(page: OCRPage): string {
+  return groupLines(page.lines, paragraphKey)
+    .map(paragraph => paragraph.lines.map(line => line.words.map(word => word.text).join(' ')).join('\n'))
+    .join('\n\n');
+}
+
+export function ocrWordRecords(pages: OCRPage[]): OCRWordRecord[] {
+  const records: OCRWordRecord[] = [];
+  pages.forEach((page, pageIndex) => {
+    page.lines.forEach((line, lineIndex) => {
+      line.words.forEach((word, wordIndex) => {
+        records.push({
+          page: pageIndex + 1,
+          block: line.block + 1,
+          paragraph: line.paragraph + 1,
+          line: lineIndex + 1,
+          word: wordIndex + 1,
+          text: word.text,
+          confidence: Math.round(word.confidence * 100) / 100,
+          x0: round(word.bbox.x0),
+          y0: round(word.bbox.y0),
+          x1: round(word.bbox.x1),
+          y1: round(word.bbox.y1),
+        });
+      });
+    });
+  });
+  return records;
+}
+
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** One row per word with its page, position in the layout, confidence (0-100) and box. */
+export function wordsToCSV(pages: OCRPage[]): string {
+  const columns: (keyof OCRWordRecord)[] = ['page', 'block', 'paragraph', 'line', 'word', 'text', 'confidence', 'x0', 'y0', 'x1', 'y1'];
+  const rows = ocrWordRecords(pages).map(record => columns.map(column => csvField(record[column])).join(','));
+  return [columns.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+export function wordsToJSON(pages: OCRPage[], source?: string): string {
+  const records = ocrWordRecords(pages);
+  return JSON.stringify({
+    source,
+    units: 'px',
+    pages: pages.map((page, index) => ({
+      page: index + 1,
+      width: page.width,
+      height: page.height,
+      words: records.filter(record => record.page === index + 1),
+    })),
+  }, null, 2);
+}
+
+const hocrBox = (box: OCRBox) => `bbox ${round(box.x0)} ${round(box.y0)} ${round(box.x1)} ${round(box.y1)}`;
+
+// hOCR baselines are `slope offset`, relative to the bottom-left corner of the line box
+function hocrBaseline(line: OCRLine): string {
+  const { baseline, bbox } = line;
+  if (!baseline || baseline.x1 === baseline.x0) return '';
+  const slope = (baseline.y1 - baseline.y0) / (baseline.x1 - baseline.x0);
+  const offset = baseline.y0 + slope * (bbox.x0 - baseline.x0) - bbox.y1;
+  return `; baseline ${slope.toFixed(3)} ${Math.round(offset)}`;
+}
+
+/** A standalone hOCR document for one page. */
+export function toHOCR(page: OCRPage, options: OCRExportOptions): string {
+  const p = options.pageNumber;
+  const image = options.source ? `image "${escapeXml(options.source.replace(/"/g, ''))}"; ` : '';
+  let lineNo = 0;
+  let wordNo = 0;
+  const blocks = groupLines(page.lines, blockKey).map((block, blockIndex) => {
+    const paragraphs = groupLines(block.lines, paragraphKey).map((paragraph, paragraphIndex) => {
+      const lines = paragraph.lines.map(line => {
+        lineNo++;
+        const words = line.words.map(word => {
+          wordNo++;
+          return `     <span class='ocrx_word' id='word_${p}_${wordNo}' title='${hocrBox(word.bbox)}; x_wconf ${Math.round(word.confidence)}'>${escapeXml(word.text)}</span>`;
+        });
+        return [
+          `    <span class='ocr_line' id='line_${p}_${lineNo}' title='${hocrBox(line.bbox)}${hocrBaseline(line)}'>`,
+          words.join('\n'),
+          '    </span>',
+        ].join('\n');
+      });
+      return [
+        `   <p class='ocr_par' id='par_${p}_${blockIndex + 1}_${paragraphIndex + 1}' lang='${escapeXml(languageTag(options.language))}' title='${hocrBox(paragraph.bbox)}'>`,
+        lines.join('\n'),
+        '   </p>',
+      ].join('\n');
+    });
+    return [
+      `  <div class='ocr_carea' id='block_${p}_${blockIndex + 1}' title='${hocrBox(block.bbox)}'>`,
+      paragraphs.join('\n'),
+      '  </div>',
+    ].join('\n');
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html PUBLIC "-//W3C//DTD XHTML 1.0 Transitional//EN" "http://www.w3.org/TR/xhtml1/DTD/xhtml1-transitional.dtd">
+<html xmlns="http://www.w3.org/1999/xhtml" xml:lang="en" lang="en">
+ <head>
+  <title>${escapeXml(options.source ?? '')}</title>
+  <meta http-equiv="Content-Type" content="text/html;charset=utf-8"/>
+  <meta name="ocr-system" content="tesseract.js"/>
+  <meta name="ocr-capabilities" content="ocr_page ocr_carea ocr_par ocr_line ocrx_word ocrp_wconf"/>
+ </head>
+ <body>
+  <div class='ocr_page' id='page_${p}' title='${image}bbox 0 0 ${page.width} ${page.height}; ppageno ${p - 1}'>
+${blocks.join('\n')}
+  </div>
+ </body>
+</html>
+`;
+}
+
+const altoBox = (box: OCRBox) =>
+  `HPOS="${round(box.x0)}" VPOS="${round(box.y0)}" WIDTH="${round(box.x1 - box.x0)}" HEIGHT="${round(box.y1 - box.y0)}"`;
+
+/** A standalone ALTO 4 document for one page. Word confidence (WC) is 0-1. */
+export function toALTO(page: OCRPage, options: OCRExportOptions): string {
+  const p = options.pageNumber;
+  let lineNo = 0;
+  let wordNo = 0;
+  const blocks = groupLines(page.lines, paragraphKey).map((paragraph, blockIndex) => {
+    const lines = paragraph.lines.map(line => {
+      lineNo++;
+      const strings: string[] = [];
+      line.words.forEach((word, index) => {
+        wordNo++;
+        if (index > 0) {
+          const previous = line.words[index - 1].bbox;
+          strings.push(`       <SP HPOS="${round(previous.x1)}" VPOS="${round(previous.y0)}" WIDTH="${round(Math.max(0, word.bbox.x0 - previous.x1))}"/>`);
+        }
+        const wc = Math.max(0, Math.min(1, word.confidence / 100)).toFixed(2);
+        strings.push(`       <String ID="string_${p}_${wordNo}" ${altoBox(word.bbox)} WC="${wc}" CONTENT="${escapeXml(word.text)}"/>`);
+      });
+      return [`      <TextLine ID="line_${p}_${lineNo}" ${altoBox(line.bbox)}>`, ...strings, '      </TextLine>'].join('\n');
+    });
+    return [
+      `     <TextBlock ID="block_${p}_${blockIndex + 1}" ${altoBox(paragraph.bbox)} LANG="${escapeXml(languageTag(options.language))}">`,
+      lines.join('\n'),
+      '     </TextBlock>',
+    ].join('\n');
+  });
+  const printSpace = page.lines.length > 0 ? union(page.lines.map(line => line.bbox)) : { x0: 0, y0: 0, x1: page.width, y1: page.height };
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<alto xmlns="http://www.loc.gov/standards/alto/ns-v4#" xmlns:xlink="http://www.w3.org/1999/xlink" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://www.loc.gov/standards/alto/ns-v4# http://www.loc.gov/standards/alto/v4/alto-4-2.xsd">
+ <Description>
+  <MeasurementUnit>pixel</MeasurementUnit>
+  <sourceImageInformation>
+   <fileName>${escapeXml(options.source ?? '')}</fileName>
+  </sourceImageInformation>
+  <OCRProcessing ID="ocr_processing">
+   <ocrProcessingStep>
+    <processingSoftware>
+     <softwareName>tesseract.js</softwareName>
+    </processingSoftware>
+   </ocrProcessingStep>
+  </OCRProcessing>
+ </Description>
+ <Layout>
+  <Page ID="page_${p}" PHYSICAL_IMG_NR="${p}" WIDTH="${page.width}" HEIGHT="${page.height}">
+   <PrintSpace ${altoBox(printSpace)}>
+${blocks.join('\n')}
+   </PrintSpace>
+  </Page>
+ </Layout>
+</alto>
+`;
+}
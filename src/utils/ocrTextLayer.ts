@@ -0,0 +1,237 @@
+// Invisible OCR text layer
+// Lays recognized words over the original page content as invisible text
+// (render mode 3), the way sandwich PDFs do, so search and selection land on
+// the words in the scan. Words use a glyphless Type0 font: each UTF-16 code
+// unit is one 2-byte code with a fixed advance, and the text matrix stretches
+// every word across its bounding box along the line's baseline.
+
+import {
+  PDFArray,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFPage,
+  PDFRef,
+  PDFString,
+  TextRenderingMode,
+  beginText,
+  endText,
+  popGraphicsState,
+  pushGraphicsState,
+  setFontAndSize,
+  setTextMatrix,
+  setTextRenderingMode,
+  showText,
+} from 'pdf-lib';
+
+// Image pixels, origin at the top-left of the rendered page
+export interface OCRBox {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+export interface OCRWord {
+  text: string;
+  // 0-100, as reported by Tesseract
+  confidence: number;
+  bbox: OCRBox;
+}
+
+export interface OCRLine {
+  // Indices of the text block and paragraph the line belongs to, in reading order
+  block: number;
+  paragraph: number;
+  words: OCRWord[];
+  bbox: OCRBox;
+  // Straight baseline through the line, when Tesseract found one
+  baseline?: OCRBox;
+}
+
+export interface OCRPage {
+  // Size of the image that was recognized
+  width: number;
+  height: number;
+  lines: OCRLine[];
+}
+
+// The part of tesseract.js' recognize() result read here; needs the `blocks` output
+interface TesseractBlocksResult {
+  blocks: {
+    paragraphs: {
+      lines: {
+        bbox: OCRBox;
+        baseline: OCRBox & { has_baseline: boolean };
+        words: { text: string; confidence: number; bbox: OCRBox }[];
+      }[];
+    }[];
+  }[] | null;
+}
+
+// Maps an image point to PDF user space, e.g. pdf.js' viewport.convertToPdfPoint
+export type ImageToPdfPoint = (x: number, y: number) => number[];
+
+// Advance of every glyph in the glyphless font, in thousandths of an em
+const GLYPH_ADVANCE = 500;
+const ASCENT = 800;
+const DESCENT = -200;
+
+const IDENTITY_TO_UNICODE = `/CIDInit /ProcSet findresource begin
+12 dict begin
+begincmap
+/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def
+/CMapName /Adobe-Identity-UCS def
+/CMapType 2 def
+1 begincodespacerange
+<0000> <FFFF>
+endcodespacerange
+1 beginbfrange
+<0000> <FFFF> <0000>
+endbfrange
+endcmap
+CMapName currentdict /CMap defineresource pop
+end
+end`;
+
+const glyphlessFonts = new WeakMap<PDFDocument, PDFRef>();
+
+export function ocrPageFromTesseract(result: TesseractBlocksResult, width: number, height: number): OCRPage {
+  const lines: OCRLine[] = [];
+  (result.blocks ?? []).forEach((block, blockIndex) => {
+    block.paragraphs.forEach((paragraph, paragraphIndex) => {
+      for (const line of paragraph.lines) {
+        const words = line.words
+          .map(word => ({ text: word.text.trim(), confidence: word.confidence, bbox: { ...word.bbox } }))
+          .filter(word => word.text !== '');
+        if (words.length === 0) continue;
+        const { x0, y0, x1, y1 } = line.baseline;
+        lines.push({
+          block: blockIndex,
+          paragraph: paragraphIndex,
+          words,
+          bbox: { ...line.bbox },
+          baseline: line.baseline.has_baseline ? { x0, y0, x1, y1 } : undefined,
+        });
+      }
+    });
+  });
+  return { width, height, lines };
+}
+
+function glyphlessFont(pdfDoc: PDFDocument): PDFRef {
+  const existing = glyphlessFonts.get(pdfDoc);
+  if (existing) return existing;
+  const context = pdfDoc.context;
+  const descriptor = context.register(context.obj({
+    Type: 'FontDescriptor',
+    FontName: 'GlyphLessFont',
+    Flags: 5,
+    FontBBox: [0, DESCENT, GLYPH_ADVANCE, ASCENT],
+    ItalicAngle: 0,
+    Ascent: ASCENT,
+    Descent: DESCENT,
+    CapHeight: ASCENT,
+    StemV: 80,
+  }));
+  const cidFont = context.register(context.obj({
+    Type: 'Font',
+    Subtype: 'CIDFontType2',
+    BaseFont: 'GlyphLessFont',
+    CIDSystemInfo: { Registry: PDFString.of('Adobe'), Ordering: PDFString.of('Identity'), Supplement: 0 },
+    FontDescriptor: descriptor,
+    DW: GLYPH_ADVANCE,
+    CIDToGIDMap: 'Identity',
+  }));
+  const toUnicode = context.register(context.flateStream(IDENTITY_TO_UNICODE));
+  const font = context.register(context.obj({
+    Type: 'Font',
+    Subtype: 'Type0',
+    BaseFont: 'GlyphLessFont',
+    Encoding: 'Identity-H',
+    DescendantFonts: [cidFont],
+    ToUnicode: toUnicode,
+  }));
+  glyphlessFonts.set(pdfDoc, font);
+  return font;
+}
+
+function utf16Hex(text: string): PDFHexString {
+  let hex = '';
+  for (let i = 0; i < text.length; i++) hex += text.charCodeAt(i).toString(16).padStart(4, '0');
+  return PDFHexString.of(hex);
+}
+
+// Scanner output may leave the CTM changed at the end of the page content, so
+// the existing streams are wrapped in q … Q before the layer is appended, as
+// pdf-lib does for drawText. Normalizing the page does that once; pages whose
+// contents do not start with that q stream are wrapped here
+function isolatePageContent(page: PDFPage) {
+  const { context } = page.doc;
+  page.node.normalize();
+  const contents = page.node.Contents();
+  const push = context.getPushGraphicsStateContentStream();
+  if (contents instanceof PDFArray && contents.size() > 0 && contents.get(0) !== push) {
+    page.node.wrapContentStreams(push, context.getPopGraphicsStateContentStream());
+  }
+}
+
+/**
+ * Draw the recognized words of `ocr` onto `page` as invisible text and return
+ * how many were placed. The page's existing content is left untouched.
+ */
+export function addInvisibleTextLayer(pdfDoc: PDFDocument, page: PDFPage, ocr: OCRPage, toPdfPoint: ImageToPdfPoint): number {
+  const placements: { fontSize: number; matrix: number[]; text: string }[] = [];
+  for (const line of ocr.lines) {
+    const lineHeight = Math.max(1, line.bbox.y1 - line.bbox.y0);
+    const { baseline } = line;
+    // Baseline y at image x; descenders take the bottom fifth of the line box without one
+    const baselineAt = (x: number) => baseline && baseline.x1 !== baseline.x0
+      ? baseline.y0 + ((baseline.y1 - baseline.y0) * (x - baseline.x0)) / (baseline.x1 - baseline.x0)
+      : line.bbox.y1 + (DESCENT / (ASCENT - DESCENT)) * lineHeight;
+
+    line.words.forEach((word, index) => {
+      const next = line.words[index + 1];
+      // Each word carries the following space and stretches up to the next word
+      const text = next ? `${word.text} ` : word.text;
+      const endX = next && next.bbox.x0 > word.bbox.x1 ? next.bbox.x0 : word.bbox.x1;
+      const start = toPdfPoint(word.bbox.x0, baselineAt(word.bbox.x0));
+      const end = toPdfPoint(endX, baselineAt(endX));
+      const top = toPdfPoint(word.bbox.x0, baselineAt(word.bbox.x0) - lineHeight * (ASCENT / (ASCENT - DESCENT)));
+      const dx = end[0] - start[0];
+      const dy = end[1] - start[1];
+      const length = Math.hypot(dx, dy);
+      const ascent = Math.hypot(top[0] - start[0], top[1] - start[1]);
+      if (length < 0.01 || ascent < 0.01) return;
+      const fontSize = ascent * ((ASCENT - DESCENT) / ASCENT);
+      const stretch = length / ((text.length * GLYPH_ADVANCE * fontSize) / 1000);
+      // Text space x runs along the baseline and y towards the top of the line
+      const matrix = [
+        (dx / length) * stretch,
+        (dy / length) * stretch,
+        (top[0] - start[0]) / ascent,
+        (top[1] - start[1]) / ascent,
+        start[0],
+        start[1],
+      ];
+      placements.push({ fontSize, matrix, text });
+    });
+  }
+  if (placements.length === 0) return 0;
+
+  isolatePageContent(page);
+  const fontName: PDFName = page.node.newFontDictionary('OCR', glyphlessFont(pdfDoc));
+  page.pushOperators(
+    pushGraphicsState(),
+    beginText(),
+    setTextRenderingMode(TextRenderingMode.Invisible),
+    ...placements.flatMap(({ fontSize, matrix: [a, b, c, d, e, f], text }) => [
+      setFontAndSize(fontName, fontSize),
+      setTextMatrix(a, b, c, d, e, f),
+      showText(utf16Hex(text)),
+    ]),
+    endText(),
+    popGraphicsState(),
+  );
+  return placements.length;
+}
@@ -0,0 +1,122 @@
+// Markup annotations
+// Adds review annotations (boxes and text highlights) to pages with an
+// appearance stream, so they look the same in viewers that do not generate
+// appearances themselves. Rectangles are in PDF user space.
+
+import {
+  PDFDocument,
+  PDFHexString,
+  PDFPage,
+  PDFRef,
+  PDFString,
+  closePath,
+  fill,
+  lineTo,
+  moveTo,
+  rectangle,
+  setFillingRgbColor,
+  setGraphicsState,
+  setLineWidth,
+  setStrokingRgbColor,
+  stroke,
+} from 'pdf-lib';
+
+export interface AnnotationRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface MarkupOptions {
+  // RGB, 0-1
+  color: [number, number, number];
+  // Shown in the annotation's popup
+  contents?: string;
+  // Author label
+  title?: string;
+  opacity?: number;
+}
+
+function markupDict(options: MarkupOptions) {
+  return {
+    Type: 'Annot',
+    C: options.color,
+    CA: options.opacity ?? 1,
+    F: 4,
+    M: PDFString.fromDate(new Date()),
+    ...(options.contents ? { Contents: PDFHexString.fromText(options.contents) } : {}),
+    ...(options.title ? { T: PDFHexString.fromText(options.title) } : {}),
+  };
+}
+
+function opacityResources(pdfDoc: PDFDocument, opacity: number, blendMode = 'Normal') {
+  return { ExtGState: { GS0: pdfDoc.context.obj({ Type: 'ExtGState', CA: opacity, ca: opacity, BM: blendMode }) } };
+}
+
+/** Outline `rect` with a Square annotation and return its reference. */
+export function addSquareAnnotation(pdfDoc: PDFDocument, page: PDFPage, rect: AnnotationRect, options: MarkupOptions & { borderWidth?: number }): PDFRef {
+  const { context } = pdfDoc;
+  const border = options.borderWidth ?? 1.5;
+  const [r, g, b] = options.color;
+  const appearance = context.register(context.formXObject(
+    [
+      setGraphicsState('GS0'),
+      setStrokingRgbColor(r, g, b),
+      setLineWidth(border),
+      rectangle(border / 2, border / 2, Math.max(0, rect.width - border), Math.max(0, rect.height - border)),
+      stroke(),
+    ],
+    { BBox: [0, 0, rect.width, rect.height], Resources: opacityResources(pdfDoc, options.opacity ?? 1) },
+  ));
+  const annot = context.register(context.obj({
+    ...markupDict(options),
+    Subtype: 'Square',
+    Rect: [rect.x, rect.y, rect.x + rect.width, rect.y + rect.height],
+    BS: { W: border, S: 'S' },
+    AP: { N: appearance },
+  }));
+  page.node.addAnnot(annot);
+  return annot;
+}
+
+/**
+ * Highlight text with a Highlight annotation covering one or more
+ * rectangles, typically one per line or text run.
+ */
+export function addHighlightAnnotation(pdfDoc: PDFDocument, page: PDFPage, rects: AnnotationRect[], options: MarkupOptions): PDFRef {
+  const { context } = pdfDoc;
+  const x0 = Math.min(...rects.map(rect => rect.x));
+  const y0 = Math.min(...rects.map(rect => rect.y));
+  const x1 = Math.max(...rects.map(rect => rect.x + rect.width));
+  const y1 = Math.max(...rects.map(rect => rect.y + rect.height));
+  const [r, g, b] = options.color;
+  // QuadPoints order each quad top-left, top-right, bottom-left, bottom-right
+  const quadPoints = rects.flatMap(rect => [
+    rect.x, rect.y + rect.height, rect.x + rect.width, rect.y + rect.height, rect.x, rect.y, rect.x + rect.width, rect.y,
+  ]);
+  const appearance = context.register(context.formXObject(
+    [
+      setGraphicsState('GS0'),
+      setFillingRgbColor(r, g, b),
+      ...rects.flatMap(rect => [
+        moveTo(rect.x - x0, rect.y - y0),
+        lineTo(rect.x + rect.width - x0, rect.y - y0),
+        lineTo(rect.x + rect.width - x0, rect.y + rect.height - y0),
+        lineTo(rect.x - x0, rect.y + rect.height - y0),
+        closePath(),
+      ]),
+      fill(),
+    ],
+    { BBox: [0, 0, x1 - x0, y1 - y0], Resources: opacityResources(pdfDoc, options.opacity ?? 0.4, 'Multiply') },
+  ));
+  const annot = context.register(context.obj({
+    ...markupDict({ ...options, opacity: options.opacity ?? 0.4 }),
+    Subtype: 'Highlight',
+    Rect: [x0, y0, x1, y1],
+    QuadPoints: quadPoints,
+    AP: { N: appearance },
+  }));
+  page.node.addAnnot(annot);
+  return annot;
+}
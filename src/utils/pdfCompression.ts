@@ -0,0 +1,313 @@
+// PDF size reduction
+// Downsamples and re-encodes image XObjects as JPEG, merges byte-identical
+// streams, deflates uncompressed streams and drops objects nothing refers to.
+// The quality search reuses the decoded images so each attempt only re-encodes.
+
+import {
+  PDFArray,
+  PDFContext,
+  PDFDict,
+  PDFDocument,
+  PDFName,
+  PDFNumber,
+  PDFObject,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+} from 'pdf-lib';
+import { concatBytes, sha, toHex } from './crypto';
+import {
+  ContentVisitor,
+  Matrix,
+  decodeStreamContents,
+  getPageContents,
+  getPageResources,
+  parseContentStream,
+  removeUnreachableObjects,
+  walkContent,
+} from './pdfContent';
+import { copyImageDict, imageStreamToCanvas, numberEntry } from './pdfImages';
+
+export interface PDFCompressionOptions {
+  compressImages: boolean;
+  // Images placed at a higher resolution than this are downsampled
+  imageDpi: number;
+  // JPEG quality between 0 and 1
+  imageQuality: number;
+  compressStreams: boolean;
+  deduplicateStreams: boolean;
+  removeUnusedObjects: boolean;
+  removeMetadata: boolean;
+  useObjectStreams: boolean;
+}
+
+export interface PDFCompressionResult {
+  bytes: Uint8Array;
+  originalSize: number;
+  compressedSize: number;
+  imageQuality: number;
+  imagesRecompressed: number;
+  duplicatesRemoved: number;
+  unusedObjectsRemoved: number;
+  // null when no target size was requested
+  targetMet: boolean | null;
+}
+
+// Presets behind the tool's compression levels
+export const COMPRESSION_PRESETS: Record<string, { imageDpi: number; imageQuality: number }> = {
+  light: { imageDpi: 220, imageQuality: 0.85 },
+  medium: { imageDpi: 150, imageQuality: 0.7 },
+  heavy: { imageDpi: 96, imageQuality: 0.5 },
+};
+
+// Number of encode passes spent searching for the quality that meets a target size
+const TARGET_SEARCH_STEPS = 6;
+
+interface PreparedImage {
+  canvas: HTMLCanvasElement;
+  originalLength: number;
+}
+
+// Largest placed size (in points) of every image XObject reachable from the pages
+function collectImagePlacements(pdfDoc: PDFDocument): Map<string, { width: number; height: number }> {
+  const placements = new Map<string, { width: number; height: number }>();
+  const visitedForms = new Set<string>();
+
+  const walk = (bytes: Uint8Array, resources: PDFDict | undefined, ctm: Matrix) => {
+    const visitor: ContentVisitor = {
+      onImage: ({ ref, ctm: imageCtm }) => {
+        if (!ref) return;
+        const width = Math.hypot(imageCtm[0], imageCtm[1]);
+        const height = Math.hypot(imageCtm[2], imageCtm[3]);
+        const previous = placements.get(ref.tag);
+        placements.set(ref.tag, {
+          width: Math.max(width, previous?.width ?? 0),
+          height: Math.max(height, previous?.height ?? 0),
+        });
+      },
+      onForm: ({ ref, stream, ctm: formCtm }) => {
+        // Forms drawn at different scales are rare; the first placement decides
+        const key = ref?.tag;
+        if (key && visitedForms.has(key)) return;
+        if (key) visitedForms.add(key);
+        const formResources = stream.dict.lookup(PDFName.of('Resources'));
+        walk(decodeStreamContents(stream), formResources instanceof PDFDict ? formResources : resources, formCtm);
+      },
+    };
+    walkContent(parseContentStream(bytes), visitor, { resources, ctm });
+  };
+
+  for (const page of pdfDoc.getPages()) {
+    walk(getPageContents(page.node), getPageResources(page.node), [1, 0, 0, 1, 0, 0]);
+  }
+  return placements;
+}
+
+// Decode and downsample every image worth re-encoding, keyed by object tag
+async function prepareImages(pdfDoc: PDFDocument, imageDpi: number): Promise<Map<string, PreparedImage>> {
+  const prepared = new Map<string, PreparedImage>();
+  const placements = collectImagePlacements(pdfDoc);
+  for (const [ref, object] of pdfDoc.context.enumerateIndirectObjects()) {
+    if (!(object instanceof PDFRawStream)) continue;
+    const dict = object.dict;
+    if (dict.lookup(PDFName.of('Subtype')) !== PDFName.of('Image')) continue;
+    // Stencil masks, colour-key masks and soft masks must keep their exact samples
+    if (dict.lookup(PDFName.of('ImageMask'))?.toString() === 'true') continue;
+    if (dict.lookup(PDFName.of('Mask')) instanceof PDFArray) continue;
+    if (dict.has(PDFName.of('SMaskInData'))) continue;
+    const placement = placements.get(ref.tag);
+    if (!placement) continue;
+
+    const width = numberEntry(dict, 'Width', 0);
+    const height = numberEntry(dict, 'Height', 0);
+    if (width * height < 64 * 64) continue;
+
+    try {
+      const source = await imageStreamToCanvas(object);
+      if (!source) continue;
+      // Effective resolution at the largest size the image is drawn
+      const dpi = Math.max(width / Math.max(placement.width / 72, 1e-3), height / Math.max(placement.height / 72, 1e-3));
+      const scale = Math.min(1, imageDpi / dpi);
+      let canvas = source;
+      if (scale < 1) {
+        canvas = document.createElement('canvas');
+        canvas.width = Math.max(1, Math.round(width * scale));
+        canvas.height = Math.max(1, Math.round(height * scale));
+        const ctx = canvas.getContext('2d');
+        if (!ctx) continue;
+        ctx.imageSmoothingEnabled = true;
+        ctx.imageSmoothingQuality = 'high';
+        ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+      }
+      prepared.set(ref.tag, { canvas, originalLength: object.contents.length });
+    } catch (error) {
+      console.warn(`Skipping image ${ref.tag}:`, error);
+    }
+  }
+  return prepared;
+}
+
+async function encodeJpeg(canvas: HTMLCanvasElement, quality: number): Promise<Uint8Array | null> {
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', quality));
+  return blob ? new Uint8Array(await blob.arrayBuffer()) : null;
+}
+
+// Replace prepared images with JPEG re-encodes that are actually smaller
+async function recompressImages(context: PDFContext, prepared: Map<string, PreparedImage>, quality: number): Promise<number> {
+  let count = 0;
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    const image = prepared.get(ref.tag);
+    if (!image || !(object instanceof PDFRawStream)) continue;
+    const jpeg = await encodeJpeg(image.canvas, quality);
+    if (!jpeg || jpeg.length >= image.originalLength) continue;
+    const dict = copyImageDict(context, object.dict, ['Filter', 'DecodeParms', 'Length', 'ColorSpace', 'Decode', 'BitsPerComponent', 'Width', 'Height']);
+    dict.set(PDFName.of('Filter'), PDFName.of('DCTDecode'));
+    dict.set(PDFName.of('ColorSpace'), PDFName.of('DeviceRGB'));
+    dict.set(PDFName.of('BitsPerComponent'), PDFNumber.of(8));
+    dict.set(PDFName.of('Width'), PDFNumber.of(image.canvas.width));
+    dict.set(PDFName.of('Height'), PDFNumber.of(image.canvas.height));
+    context.assign(ref, PDFRawStream.of(dict, jpeg));
+    count++;
+  }
+  return count;
+}
+
+// Rewrite every reference in `object` according to `mapping`, in place
+function remapReferences(object: PDFObject, mapping: Map<string, PDFRef>): void {
+  if (object instanceof PDFDict) {
+    for (const [key, value] of object.entries()) {
+      if (value instanceof PDFRef) {
+        const target = mapping.get(value.tag);
+        if (target) object.set(key, target);
+      } else {
+        remapReferences(value, mapping);
+      }
+    }
+  } else if (object instanceof PDFArray) {
+    for (let i = 0; i < object.size(); i++) {
+      const value = object.get(i);
+      if (value instanceof PDFRef) {
+        const target = mapping.get(value.tag);
+        if (target) object.set(i, target);
+      } else {
+        remapReferences(value, mapping);
+      }
+    }
+  } else if (object instanceof PDFStream) {
+    remapReferences(object.dict, mapping);
+  }
+}
+
+// Point all references to byte-identical streams at a single copy; returns the number merged
+async function deduplicateStreams(context: PDFContext): Promise<number> {
+  const canonical = new Map<string, PDFRef>();
+  const mapping = new Map<string, PDFRef>();
+  const encoder = new TextEncoder();
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    if (!(object instanceof PDFRawStream)) continue;
+    const digest = toHex(await sha('SHA-256', concatBytes(encoder.encode(object.dict.toString()), object.contents)));
+    const existing = canonical.get(digest);
+    if (existing) mapping.set(ref.tag, existing);
+    else canonical.set(digest, ref);
+  }
+  if (mapping.size === 0) return 0;
+  for (const [, object] of context.enumerateIndirectObjects()) remapReferences(object, mapping);
+  for (const [ref] of context.enumerateIndirectObjects()) {
+    if (mapping.has(ref.tag)) context.delete(ref);
+  }
+  return mapping.size;
+}
+
+// Flate-encode streams that were stored without any filter
+function compressPlainStreams(context: PDFContext): void {
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    if (!(object instanceof PDFRawStream) || object.dict.has(PDFName.of('Filter'))) continue;
+    if (object.contents.length < 64) continue;
+    const entries = Object.fromEntries(
+      object.dict.entries()
+        .filter(([key]) => key !== PDFName.of('Length'))
+        .map(([key, value]) => [key.asString().slice(1), value])
+    );
+    context.assign(ref, context.flateStream(object.contents, entries));
+  }
+}
+
+function clearMetadata(pdfDoc: PDFDocument) {
+  pdfDoc.setTitle('');
+  pdfDoc.setAuthor('');
+  pdfDoc.setSubject('');
+  pdfDoc.setKeywords([]);
+  pdfDoc.setCreator('');
+  pdfDoc.setProducer('');
+  pdfDoc.catalog.delete(PDFName.of('Metadata'));
+}
+
+// Load, decode and downsample once, then encode at any quality
+export async function prepareCompression(pdfBytes: ArrayBuffer | Uint8Array, options: PDFCompressionOptions) {
+  const source = new Uint8Array(pdfBytes);
+  const preparedImages = options.compressImages
+    ? await prepareImages(await PDFDocument.load(source), options.imageDpi)
+    : new Map<string, PreparedImage>();
+
+  const encode = async (imageQuality: number): Promise<PDFCompressionResult> => {
+    const pdfDoc = await PDFDocument.load(source);
+    const context = pdfDoc.context;
+    const duplicatesRemoved = options.deduplicateStreams ? await deduplicateStreams(context) : 0;
+    const imagesRecompressed = await recompressImages(context, preparedImages, imageQuality);
+    if (options.compressStreams) compressPlainStreams(context);
+    if (options.removeMetadata) clearMetadata(pdfDoc);
+    const unusedObjectsRemoved = options.removeUnusedObjects ? removeUnreachableObjects(context) : 0;
+    const bytes = await pdfDoc.save({ useObjectStreams: options.useObjectStreams, addDefaultPage: false });
+    return {
+      bytes,
+      originalSize: source.length,
+      compressedSize: bytes.length,
+      imageQuality,
+      imagesRecompressed,
+      duplicatesRemoved,
+      unusedObjectsRemoved,
+      targetMet: null,
+    };
+  };
+  return { imageCount: preparedImages.size, encode };
+}
+
+export async function compressPDF(pdfBytes: ArrayBuffer | Uint8Array, options: PDFCompressionOptions): Promise<PDFCompressionResult> {
+  const { encode } = await prepareCompression(pdfBytes, options);
+  return encode(options.imageQuality);
+}
+
+// Binary-search the JPEG quality for the best result no larger than `targetBytes`.
+// Falls back to the smallest attempt when even `minQuality` does not fit.
+export async function compressPDFToTarget(
+  pdfBytes: ArrayBuffer | Uint8Array,
+  options: PDFCompressionOptions,
+  targetBytes: number,
+  minQuality = 0.1
+): Promise<PDFCompressionResult> {
+  const { imageCount, encode } = await prepareCompression(pdfBytes, options);
+  const first = await encode(options.imageQuality);
+  if (first.compressedSize <= targetBytes) return { ...first, targetMet: true };
+  // Without re-encodable images the quality setting cannot change the size
+  if (imageCount === 0) return { ...first, targetMet: false };
+
+  let smallest = first;
+  let best: PDFCompressionResult | null = null;
+  let low = minQuality;
+  let high = options.imageQuality;
+  for (let step = 0; step < TARGET_SEARCH_STEPS && high - low > 0.01; step++) {
+    const quality = step === 0 ? low : (low + high) / 2;
+    const attempt = await encode(quality);
+    if (attempt.compressedSize < smallest.compressedSize) smallest = attempt;
+    if (attempt.compressedSize <= targetBytes) {
+      best = attempt;
+      low = quality;
+    } else if (step === 0) {
+      // Even the lowest quality is too large; more passes cannot help
+      break;
+    } else {
+      high = quality;
+    }
+  }
+  return best ? { ...best, targetMet: true } : { ...smallest, targetMet: false };
+}
@@ -0,0 +1,976 @@
+// PDF content stream toolkit
+// Tokenizes and re-serializes page content streams, decodes font strings into
+// positioned glyphs and walks the graphics state so tools can locate or rewrite
+// text and images without rasterizing the page.
+
+import {
+  PDFArray,
+  PDFContext,
+  PDFDict,
+  PDFFlateStream,
+  PDFName,
+  PDFNumber,
+  PDFObject,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+  StandardFontEmbedder,
+  StandardFonts,
+  decodePDFRawStream,
+} from 'pdf-lib';
+
+// Operands as they appear inside a content stream
+export type ContentToken =
+  | { type: 'number'; value: number; raw?: string }
+  | { type: 'string'; value: Uint8Array }
+  | { type: 'name'; value: string }
+  | { type: 'array'; value: ContentToken[] }
+  | { type: 'dict'; value: Map<string, ContentToken> }
+  | { type: 'bool'; value: boolean }
+  | { type: 'null' };
+
+export interface ContentOperation {
+  operator: string;
+  operands: ContentToken[];
+  // Raw `BI ... ID <data> EI` bytes for inline images
+  inlineImage?: { dict: Map<string, ContentToken>; data: Uint8Array; raw: Uint8Array };
+}
+
+export type Matrix = [number, number, number, number, number, number];
+
+export const IDENTITY_MATRIX: Matrix = [1, 0, 0, 1, 0, 0];
+
+// m1 × m2 in the PDF row-vector convention
+export function multiplyMatrix(m1: Matrix, m2: Matrix): Matrix {
+  return [
+    m1[0] * m2[0] + m1[1] * m2[2],
+    m1[0] * m2[1] + m1[1] * m2[3],
+    m1[2] * m2[0] + m1[3] * m2[2],
+    m1[2] * m2[1] + m1[3] * m2[3],
+    m1[4] * m2[0] + m1[5] * m2[2] + m2[4],
+    m1[4] * m2[1] + m1[5] * m2[3] + m2[5],
+  ];
+}
+
+export function transformPoint(m: Matrix, x: number, y: number): [number, number] {
+  return [m[0] * x + m[2] * y + m[4], m[1] * x + m[3] * y + m[5]];
+}
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Axis-aligned bounds of a rectangle after transformation
+export function transformRect(m: Matrix, x0: number, y0: number, x1: number, y1: number): Rect {
+  const points = [transformPoint(m, x0, y0), transformPoint(m, x1, y0), transformPoint(m, x0, y1), transformPoint(m, x1, y1)];
+  const xs = points.map(p => p[0]);
+  const ys = points.map(p => p[1]);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  return { x: minX, y: minY, width: Math.max(...xs) - minX, height: Math.max(...ys) - minY };
+}
+
+export function rectsIntersect(a: Rect, b: Rect): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+export function rectContainsPoint(rect: Rect, x: number, y: number): boolean {
+  return x >= rect.x && x <= rect.x + rect.width && y >= rect.y && y <= rect.y + rect.height;
+}
+
+// ---------------------------------------------------------------------------
+// Tokenizer
+
+const isWhitespace = (b: number) => b === 0x20 || b === 0x0a || b === 0x0d || b === 0x09 || b === 0x0c || b === 0x00;
+const isDelimiter = (b: number) =>
+  b === 0x28 || b === 0x29 || b === 0x3c || b === 0x3e || b === 0x5b || b === 0x5d || b === 0x7b || b === 0x7d || b === 0x2f || b === 0x25;
+
+class ContentLexer {
+  pos = 0;
+
+  constructor(readonly bytes: Uint8Array) {}
+
+  skipWhitespace() {
+    const { bytes } = this;
+    while (this.pos < bytes.length) {
+      const b = bytes[this.pos];
+      if (isWhitespace(b)) {
+        this.pos++;
+      } else if (b === 0x25) {
+        while (this.pos < bytes.length && bytes[this.pos] !== 0x0a && bytes[this.pos] !== 0x0d) this.pos++;
+      } else {
+        break;
+      }
+    }
+  }
+
+  // Returns a token, an operator keyword, or null at the end of input
+  next(): ContentToken | { type: 'operator'; value: string } | { type: 'close'; value: string } | null {
+    this.skipWhitespace();
+    const { bytes } = this;
+    if (this.pos >= bytes.length) return null;
+    const b = bytes[this.pos];
+
+    if (b === 0x28) return { type: 'string', value: this.readLiteralString() };
+    if (b === 0x3c) {
+      if (bytes[this.pos + 1] === 0x3c) {
+        this.pos += 2;
+        return { type: 'dict', value: this.readDict() };
+      }
+      return { type: 'string', value: this.readHexString() };
+    }
+    if (b === 0x3e && bytes[this.pos + 1] === 0x3e) {
+      this.pos += 2;
+      return { type: 'close', value: '>>' };
+    }
+    if (b === 0x5b) {
+      this.pos++;
+      const items: ContentToken[] = [];
+      for (;;) {
+        const token = this.next();
+        if (token === null || (token.type === 'close' && token.value === ']')) break;
+        if (token.type !== 'operator' && token.type !== 'close') items.push(token);
+      }
+      return { type: 'array', value: items };
+    }
+    if (b === 0x5d || b === 0x7d || b === 0x3e || b === 0x29) {
+      this.pos++;
+      return { type: 'close', value: String.fromCharCode(b) };
+    }
+    if (b === 0x7b) {
+      this.pos++;
+      return { type: 'operator', value: '{' };
+    }
+    if (b === 0x2f) return { type: 'name', value: this.readName() };
+
+    const start = this.pos;
+    while (this.pos < bytes.length && !isWhitespace(bytes[this.pos]) && !isDelimiter(bytes[this.pos])) this.pos++;
+    if (this.pos === start) this.pos++;
+    const word = latin1(bytes.subarray(start, this.pos));
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) return { type: 'number', value: parseFloat(word), raw: word };
+    if (word === 'true' || word === 'false') return { type: 'bool', value: word === 'true' };
+    if (word === 'null') return { type: 'null' };
+    return { type: 'operator', value: word };
+  }
+
+  private readLiteralString(): Uint8Array {
+    const { bytes } = this;
+    const out: number[] = [];
+    let depth = 1;
+    this.pos++;
+    while (this.pos < bytes.length) {
+      let b = bytes[this.pos++];
+      if (b === 0x28) {
+        depth++;
+      } else if (b === 0x29) {
+        if (--depth === 0) break;
+      } else if (b === 0x5c) {
+        b = bytes[this.pos++];
+        switch (b) {
+          case 0x6e: out.push(0x0a); continue;
+          case 0x72: out.push(0x0d); continue;
+          case 0x74: out.push(0x09); continue;
+          case 0x62: out.push(0x08); continue;
+          case 0x66: out.push(0x0c); continue;
+          case 0x0d:
+            if (bytes[this.pos] === 0x0a) this.pos++;
+            continue;
+          case 0x0a:
+            continue;
+          default:
+            if (b >= 0x30 && b <= 0x37) {
+              let code = b - 0x30;
+              for (let i = 0; i < 2 && bytes[this.pos] >= 0x30 && bytes[this.pos] <= 0x37; i++) {
+                code = code * 8 + (bytes[this.pos++] - 0x30);
+              }
+              out.push(code & 0xff);
+              continue;
+            }
+        }
+      }
+      out.push(b);
+    }
+    return new Uint8Array(out);
+  }
+
+  private readHexString(): Uint8Array {
+    const { bytes } = this;
+    this.pos++;
+    const digits: number[] = [];
+    while (this.pos < bytes.length && bytes[this.pos] !== 0x3e) {
+      const b = bytes[this.pos++];
+      const value = b >= 0x30 && b <= 0x39 ? b - 0x30 : b >= 0x41 && b <= 0x46 ? b - 0x37 : b >= 0x61 && b <= 0x66 ? b - 0x57 : -1;
+      if (value >= 0) digits.push(value);
+    }
+    this.pos++;
+    if (digits.length % 2) digits.push(0);
+    const out = new Uint8Array(digits.length / 2);
+    for (let i = 0; i < out.length; i++) out[i] = (digits[i * 2] << 4) | digits[i * 2 + 1];
+    return out;
+  }
+
+  private readName(): string {
+    const { bytes } = this;
+    this.pos++;
+    let name = '';
+    while (this.pos < bytes.length && !isWhitespace(bytes[this.pos]) && !isDelimiter(bytes[this.pos])) {
+      const b = bytes[this.pos++];
+      if (b === 0x23 && this.pos + 1 < bytes.length) {
+        name += String.fromCharCode(parseInt(latin1(bytes.subarray(this.pos, this.pos + 2)), 16));
+        this.pos += 2;
+      } else {
+        name += String.fromCharCode(b);
+      }
+    }
+    return name;
+  }
+
+  private readDict(): Map<string, ContentToken> {
+    const dict = new Map<string, ContentToken>();
+    for (;;) {
+      const key = this.next();
+      if (key === null || key.type === 'close') break;
+      if (key.type !== 'name') continue;
+      const value = this.next();
+      if (value === null) break;
+      if (value.type === 'close') break;
+      if (value.type !== 'operator') dict.set(key.value, value);
+    }
+    return dict;
+  }
+
+  // Inline image data runs from after `ID` to the `EI` keyword
+  readInlineImage(): { dict: Map<string, ContentToken>; data: Uint8Array } {
+    const dict = new Map<string, ContentToken>();
+    for (;;) {
+      const key = this.next();
+      if (key === null) break;
+      if (key.type === 'operator' && key.value === 'ID') break;
+      if (key.type !== 'name') continue;
+      const value = this.next();
+      if (value && value.type !== 'operator' && value.type !== 'close') dict.set(key.value, value);
+    }
+    const { bytes } = this;
+    this.pos++; // single whitespace after ID
+    const start = this.pos;
+    while (this.pos < bytes.length) {
+      if (
+        bytes[this.pos] === 0x45 && bytes[this.pos + 1] === 0x49 &&
+        isWhitespace(bytes[this.pos - 1]) &&
+        (this.pos + 2 >= bytes.length || isWhitespace(bytes[this.pos + 2]) || isDelimiter(bytes[this.pos + 2]))
+      ) {
+        const data = bytes.subarray(start, this.pos - 1);
+        this.pos += 2;
+        return { dict, data };
+      }
+      this.pos++;
+    }
+    return { dict, data: bytes.subarray(start) };
+  }
+}
+
+function latin1(bytes: Uint8Array): string {
+  let out = '';
+  for (let i = 0; i < bytes.length; i++) out += String.fromCharCode(bytes[i]);
+  return out;
+}
+
+// Split a content stream into operations
+export function parseContentStream(bytes: Uint8Array): ContentOperation[] {
+  const lexer = new ContentLexer(bytes);
+  const operations: ContentOperation[] = [];
+  let operands: ContentToken[] = [];
+  for (;;) {
+    const start = lexer.pos;
+    const token = lexer.next();
+    if (token === null) break;
+    if (token.type === 'close') continue;
+    if (token.type !== 'operator') {
+      operands.push(token);
+      continue;
+    }
+    if (token.value === 'BI') {
+      const { dict, data } = lexer.readInlineImage();
+      operations.push({ operator: 'BI', operands: [], inlineImage: { dict, data, raw: bytes.slice(start, lexer.pos) } });
+    } else {
+      operations.push({ operator: token.value, operands });
+    }
+    operands = [];
+  }
+  return operations;
+}
+
+function serializeToken(token: ContentToken): string {
+  switch (token.type) {
+    case 'number':
+      return token.raw ?? formatNumber(token.value);
+    case 'string':
+      return `<${Array.from(token.value, b => b.toString(16).padStart(2, '0')).join('')}>`;
+    case 'name':
+      return '/' + token.value.replace(/[^!-~]|[#()<>[\]{}/%]/g, c => '#' + c.charCodeAt(0).toString(16).padStart(2, '0'));
+    case 'array':
+      return `[${token.value.map(serializeToken).join(' ')}]`;
+    case 'dict':
+      return `<<${Array.from(token.value, ([key, value]) => `${serializeToken({ type: 'name', value: key })} ${serializeToken(value)}`).join(' ')}>>`;
+    case 'bool':
+      return token.value ? 'true' : 'false';
+    case 'null':
+      return 'null';
+  }
+}
+
+export function formatNumber(value: number): string {
+  if (Number.isInteger(value)) return String(value);
+  return value.toFixed(4).replace(/0+$/, '').replace(/\.$/, '');
+}
+
+// Serialize operations back into content stream bytes
+export function serializeContentStream(operations: ContentOperation[]): Uint8Array {
+  const chunks: Uint8Array[] = [];
+  let text = '';
+  const flush = () => {
+    if (text) {
+      chunks.push(Uint8Array.from(text, c => c.charCodeAt(0) & 0xff));
+      text = '';
+    }
+  };
+  for (const operation of operations) {
+    if (operation.inlineImage) {
+      flush();
+      chunks.push(operation.inlineImage.raw);
+      text += '\n';
+      continue;
+    }
+    text += operation.operands.map(serializeToken).concat(operation.operator).join(' ') + '\n';
+  }
+  flush();
+  const total = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
+
+// ---------------------------------------------------------------------------
+// Stream and page helpers
+
+export function decodeStreamContents(stream: PDFStream): Uint8Array {
+  if (stream instanceof PDFRawStream) {
+    return stream.dict.has(PDFName.of('Filter')) ? decodePDFRawStream(stream).decode() : stream.contents;
+  }
+  return stream instanceof PDFFlateStream ? stream.getUnencodedContents() : stream.getContents();
+}
+
+// Concatenate the page's content streams into a single byte array
+export function getPageContents(pageNode: PDFDict): Uint8Array {
+  const contents = pageNode.lookup(PDFName.of('Contents'));
+  const streams: PDFStream[] = [];
+  if (contents instanceof PDFStream) streams.push(contents);
+  if (contents instanceof PDFArray) {
+    for (let i = 0; i < contents.size(); i++) {
+      const stream = contents.lookup(i);
+      if (stream instanceof PDFStream) streams.push(stream);
+    }
+  }
+  const parts = streams.map(decodeStreamContents);
+  const total = parts.reduce((sum, part) => sum + part.length + 1, 0);
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    out[offset + part.length] = 0x0a;
+    offset += part.length + 1;
+  }
+  return out;
+}
+
+// Look up a page attribute, following the /Parent chain for inheritable entries
+export function getInheritedAttribute(pageNode: PDFDict, key: string): PDFObject | undefined {
+  let node: PDFDict | undefined = pageNode;
+  for (let depth = 0; node && depth < 32; depth++) {
+    const value = node.lookup(PDFName.of(key));
+    if (value) return value;
+    const parent: PDFObject | undefined = node.lookup(PDFName.of('Parent'));
+    node = parent instanceof PDFDict ? parent : undefined;
+  }
+  return undefined;
+}
+
+export function getPageResources(pageNode: PDFDict): PDFDict | undefined {
+  const resources = getInheritedAttribute(pageNode, 'Resources');
+  return resources instanceof PDFDict ? resources : undefined;
+}
+
+export function lookupResource(resources: PDFDict | undefined, category: string, name: string): PDFObject | undefined {
+  const group = resources?.lookup(PDFName.of(category));
+  return group instanceof PDFDict ? group.lookup(PDFName.of(name)) : undefined;
+}
+
+// Delete indirect objects that can no longer be reached from the trailer, so
+// replaced streams are not written out again; returns the number removed
+export function removeUnreachableObjects(context: PDFContext): number {
+  const reachable = new Set<string>();
+  const pending: PDFObject[] = [];
+  const { Root, Info, Encrypt } = context.trailerInfo;
+  for (const entry of [Root, Info, Encrypt]) {
+    if (entry) pending.push(entry);
+  }
+  while (pending.length) {
+    const object = pending.pop() as PDFObject;
+    if (object instanceof PDFRef) {
+      const tag = object.tag;
+      if (reachable.has(tag)) continue;
+      reachable.add(tag);
+      const target = context.lookup(object);
+      if (target) pending.push(target);
+    } else if (object instanceof PDFDict) {
+      pending.push(...object.values());
+    } else if (object instanceof PDFArray) {
+      pending.push(...object.asArray());
+    } else if (object instanceof PDFStream) {
+      pending.push(object.dict);
+    }
+  }
+  let removed = 0;
+  for (const [ref] of context.enumerateIndirectObjects()) {
+    if (!reachable.has(ref.tag)) {
+      context.delete(ref);
+      removed++;
+    }
+  }
+  return removed;
+}
+
+function numberOf(object: PDFObject | undefined, fallback: number): number {
+  return object instanceof PDFNumber ? object.asNumber() : fallback;
+}
+
+function numberArray(object: PDFObject | undefined): number[] | undefined {
+  if (!(object instanceof PDFArray)) return undefined;
+  const out: number[] = [];
+  for (let i = 0; i < object.size(); i++) out.push(numberOf(object.lookup(i), 0));
+  return out;
+}
+
+export function toMatrix(object: PDFObject | undefined): Matrix {
+  const values = numberArray(object);
+  return values && values.length === 6 ? (values as Matrix) : IDENTITY_MATRIX;
+}
+
+// ---------------------------------------------------------------------------
+// Fonts
+
+export interface DecodedGlyph {
+  code: number;
+  bytes: Uint8Array;
+  unicode: string;
+  // Horizontal displacement in unscaled text space (1 = font size)
+  width: number;
+}
+
+export interface FontInfo {
+  name: string;
+  decode(bytes: Uint8Array): DecodedGlyph[];
+  ascent: number;
+  descent: number;
+  vertical: boolean;
+}
+
+// WinAnsiEncoding differs from Latin-1 in 0x80-0x9f
+const WIN_ANSI_HIGH = '€�‚ƒ„…†‡ˆ‰Š‹Œ�Ž��‘’“”•–—˜™š›œ�žŸ';
+
+// Common glyph names from the Adobe Glyph List that are not single characters
+const GLYPH_NAMES: Record<string, string> = {
+  space: ' ', exclam: '!', quotedbl: '"', numbersign: '#', dollar: '$', percent: '%', ampersand: '&',
+  quotesingle: "'", quoteright: '’', quoteleft: '‘', parenleft: '(', parenright: ')', asterisk: '*',
+  plus: '+', comma: ',', hyphen: '-', minus: '−', period: '.', slash: '/', zero: '0', one: '1', two: '2',
+  three: '3', four: '4', five: '5', six: '6', seven: '7', eight: '8', nine: '9', colon: ':', semicolon: ';',
+  less: '<', equal: '=', greater: '>', question: '?', at: '@', bracketleft: '[', backslash: '\\',
+  bracketright: ']', asciicircum: '^', underscore: '_', grave: '`', braceleft: '{', bar: '|', braceright: '}',
+  asciitilde: '~', bullet: '•', endash: '–', emdash: '—', quotedblleft: '“',
+  quotedblright: '”', quotesinglbase: '‚', quotedblbase: '„', ellipsis: '…', fi: 'fi',
+  fl: 'fl', ff: 'ff', ffi: 'ffi', ffl: 'ffl', Euro: '€', copyright: '©', registered: '®',
+  trademark: '™', degree: '°', section: '§', paragraph: '¶', germandbls: 'ß',
+  adieresis: 'ä', odieresis: 'ö', udieresis: 'ü', Adieresis: 'Ä', Odieresis: 'Ö',
+  Udieresis: 'Ü', eacute: 'é', egrave: 'è', ecircumflex: 'ê', aacute: 'á',
+  agrave: 'à', ccedilla: 'ç', ntilde: 'ñ', oacute: 'ó', uacute: 'ú', iacute: 'í',
+  Eacute: 'É', nbspace: ' ', sterling: '£', yen: '¥', cent: '¢', dotlessi: 'ı',
+};
+
+export function glyphNameToUnicode(name: string): string {
+  if (GLYPH_NAMES[name]) return GLYPH_NAMES[name];
+  if (name.length === 1) return name;
+  const uni = /^uni([0-9A-F]{4,})$/i.exec(name) || /^u([0-9A-F]{4,6})$/i.exec(name);
+  if (uni) return String.fromCodePoint(parseInt(uni[1].slice(0, 6), 16));
+  const base = name.split(/[._]/)[0];
+  if (base !== name && base) return glyphNameToUnicode(base);
+  return '';
+}
+
+function decodeUtf16BE(bytes: Uint8Array): string {
+  let out = '';
+  for (let i = 0; i + 1 < bytes.length; i += 2) out += String.fromCharCode((bytes[i] << 8) | bytes[i + 1]);
+  if (bytes.length % 2) out += String.fromCharCode(bytes[bytes.length - 1]);
+  return out;
+}
+
+function bytesToCode(bytes: Uint8Array): number {
+  let code = 0;
+  for (let i = 0; i < bytes.length; i++) code = code * 256 + bytes[i];
+  return code;
+}
+
+interface CMapData {
+  codespaces: { length: number; low: number; high: number }[];
+  unicode: Map<number, string>;
+  cids: Map<number, number>;
+}
+
+// Parse ToUnicode and embedded encoding CMaps with the content tokenizer
+export function parseCMap(bytes: Uint8Array): CMapData {
+  const data: CMapData = { codespaces: [], unicode: new Map(), cids: new Map() };
+  for (const { operator, operands } of parseContentStream(bytes)) {
+    if (operator === 'endcodespacerange') {
+      for (let i = 0; i + 1 < operands.length; i += 2) {
+        const low = operands[i];
+        const high = operands[i + 1];
+        if (low.type === 'string' && high.type === 'string') {
+          data.codespaces.push({ length: low.value.length, low: bytesToCode(low.value), high: bytesToCode(high.value) });
+        }
+      }
+    } else if (operator === 'endbfchar') {
+      for (let i = 0; i + 1 < operands.length; i += 2) {
+        const src = operands[i];
+        const dst = operands[i + 1];
+        if (src.type === 'string' && dst.type === 'string') data.unicode.set(bytesToCode(src.value), decodeUtf16BE(dst.value));
+        if (src.type === 'string' && dst.type === 'name') data.unicode.set(bytesToCode(src.value), glyphNameToUnicode(dst.value));
+      }
+    } else if (operator === 'endbfrange') {
+      for (let i = 0; i + 2 < operands.length; i += 3) {
+        const [low, high, dst] = [operands[i], operands[i + 1], operands[i + 2]];
+        if (low.type !== 'string' || high.type !== 'string') continue;
+        const start = bytesToCode(low.value);
+        const end = Math.min(bytesToCode(high.value), start + 0xffff);
+        if (dst.type === 'string') {
+          const base = dst.value.slice();
+          for (let code = start; code <= end; code++) {
+            data.unicode.set(code, decodeUtf16BE(base));
+            base[base.length - 1]++;
+          }
+        } else if (dst.type === 'array') {
+          dst.value.forEach((item, offset) => {
+            if (item.type === 'string') data.unicode.set(start + offset, decodeUtf16BE(item.value));
+          });
+        }
+      }
+    } else if (operator === 'endcidchar') {
+      for (let i = 0; i + 1 < operands.length; i += 2) {
+        const src = operands[i];
+        const cid = operands[i + 1];
+        if (src.type === 'string' && cid.type === 'number') data.cids.set(bytesToCode(src.value), cid.value);
+      }
+    } else if (operator === 'endcidrange') {
+      for (let i = 0; i + 2 < operands.length; i += 3) {
+        const [low, high, cid] = [operands[i], operands[i + 1], operands[i + 2]];
+        if (low.type !== 'string' || high.type !== 'string' || cid.type !== 'number') continue;
+        const start = bytesToCode(low.value);
+        const end = Math.min(bytesToCode(high.value), start + 0xffff);
+        for (let code = start; code <= end; code++) data.cids.set(code, cid.value + code - start);
+      }
+    }
+  }
+  return data;
+}
+
+function loadCMapStream(object: PDFObject | undefined): CMapData | undefined {
+  if (!(object instanceof PDFStream)) return undefined;
+  try {
+    return parseCMap(decodeStreamContents(object));
+  } catch {
+    return undefined;
+  }
+}
+
+const STANDARD_FONT_ALIASES: Record<string, StandardFonts> = {
+  Arial: StandardFonts.Helvetica,
+  'Arial,Bold': StandardFonts.HelveticaBold,
+  'Arial-BoldMT': StandardFonts.HelveticaBold,
+  ArialMT: StandardFonts.Helvetica,
+  TimesNewRoman: StandardFonts.TimesRoman,
+  TimesNewRomanPSMT: StandardFonts.TimesRoman,
+  CourierNew: StandardFonts.Courier,
+  CourierNewPSMT: StandardFonts.Courier,
+};
+
+function standardFontFor(baseFont: string): StandardFontEmbedder | undefined {
+  const name = baseFont.replace(/^[A-Z]{6}\+/, '');
+  const standard = (Object.values(StandardFonts) as string[]).includes(name)
+    ? (name as StandardFonts)
+    : STANDARD_FONT_ALIASES[name];
+  return standard ? StandardFontEmbedder.for(standard as unknown as Parameters<typeof StandardFontEmbedder.for>[0]) : undefined;
+}
+
+function fontDescriptorMetrics(descriptor: PDFObject | undefined) {
+  if (!(descriptor instanceof PDFDict)) return { ascent: 0.8, descent: -0.2, missingWidth: 0 };
+  const ascent = numberOf(descriptor.lookup(PDFName.of('Ascent')), 800);
+  const descent = numberOf(descriptor.lookup(PDFName.of('Descent')), -200);
+  return {
+    ascent: ascent > 0 ? ascent / 1000 : 0.8,
+    descent: descent < 0 ? descent / 1000 : -0.2,
+    missingWidth: numberOf(descriptor.lookup(PDFName.of('MissingWidth')), 0),
+  };
+}
+
+function loadSimpleFont(dict: PDFDict, name: string): FontInfo {
+  const subtype = dict.lookup(PDFName.of('Subtype'));
+  const isType3 = subtype === PDFName.of('Type3');
+  const fontMatrix = isType3 ? toMatrix(dict.lookup(PDFName.of('FontMatrix'))) : [0.001, 0, 0, 0.001, 0, 0];
+  const firstChar = numberOf(dict.lookup(PDFName.of('FirstChar')), 0);
+  const widths = numberArray(dict.lookup(PDFName.of('Widths')));
+  const { ascent, descent, missingWidth } = fontDescriptorMetrics(dict.lookup(PDFName.of('FontDescriptor')));
+  const toUnicode = loadCMapStream(dict.lookup(PDFName.of('ToUnicode')));
+  const baseFontName = dict.lookup(PDFName.of('BaseFont'));
+  const standard = !widths && baseFontName instanceof PDFName ? standardFontFor(baseFontName.asString().slice(1)) : undefined;
+
+  // Base encoding plus /Differences
+  const differences = new Map<number, string>();
+  const encoding = dict.lookup(PDFName.of('Encoding'));
+  if (encoding instanceof PDFDict) {
+    const diffs = encoding.lookup(PDFName.of('Differences'));
+    if (diffs instanceof PDFArray) {
+      let code = 0;
+      for (let i = 0; i < diffs.size(); i++) {
+        const item = diffs.lookup(i);
+        if (item instanceof PDFNumber) code = item.asNumber();
+        else if (item instanceof PDFName) differences.set(code++, glyphNameToUnicode(item.asString().slice(1)));
+      }
+    }
+  }
+
+  const unicodeFor = (code: number) => {
+    const mapped = toUnicode?.unicode.get(code);
+    if (mapped !== undefined) return mapped;
+    const diff = differences.get(code);
+    if (diff !== undefined) return diff;
+    if (code >= 0x80 && code <= 0x9f) return WIN_ANSI_HIGH[code - 0x80];
+    return String.fromCharCode(code);
+  };
+
+  return {
+    name,
+    ascent,
+    descent,
+    vertical: false,
+    decode(bytes) {
+      const glyphs: DecodedGlyph[] = [];
+      for (let i = 0; i < bytes.length; i++) {
+        const code = bytes[i];
+        const unicode = unicodeFor(code);
+        let width: number;
+        if (widths && code >= firstChar && code - firstChar < widths.length) {
+          width = widths[code - firstChar] * fontMatrix[0];
+        } else if (standard) {
+          try {
+            width = standard.widthOfTextAtSize(unicode || ' ', 1);
+          } catch {
+            width = 0.5;
+          }
+        } else {
+          width = missingWidth * fontMatrix[0];
+        }
+        glyphs.push({ code, bytes: bytes.subarray(i, i + 1), unicode, width });
+      }
+      return glyphs;
+    },
+  };
+}
+
+function loadCompositeFont(dict: PDFDict, name: string): FontInfo {
+  const descendants = dict.lookup(PDFName.of('DescendantFonts'));
+  const cidFont = descendants instanceof PDFArray ? descendants.lookup(0) : undefined;
+  const cidDict = cidFont instanceof PDFDict ? cidFont : undefined;
+  const defaultWidth = numberOf(cidDict?.lookup(PDFName.of('DW')), 1000);
+  const { ascent, descent } = fontDescriptorMetrics(cidDict?.lookup(PDFName.of('FontDescriptor')));
+
+  // /W array: c [w1 w2 ...] or c_first c_last w
+  const widths = new Map<number, number>();
+  const w = cidDict?.lookup(PDFName.of('W'));
+  if (w instanceof PDFArray) {
+    for (let i = 0; i < w.size();) {
+      const first = numberOf(w.lookup(i), 0);
+      const next = w.lookup(i + 1);
+      if (next instanceof PDFArray) {
+        for (let j = 0; j < next.size(); j++) widths.set(first + j, numberOf(next.lookup(j), defaultWidth));
+        i += 2;
+      } else {
+        const last = numberOf(next, first);
+        const width = numberOf(w.lookup(i + 2), defaultWidth);
+        for (let cid = first; cid <= last && cid - first < 0x10000; cid++) widths.set(cid, width);
+        i += 3;
+      }
+    }
+  }
+
+  const encoding = dict.lookup(PDFName.of('Encoding'));
+  const encodingCMap = loadCMapStream(encoding);
+  const toUnicode = loadCMapStream(dict.lookup(PDFName.of('ToUnicode')));
+  const vertical = encoding instanceof PDFName && encoding.asString().endsWith('-V');
+  const codespaces = encodingCMap?.codespaces.length ? encodingCMap.codespaces : toUnicode?.codespaces ?? [];
+
+  const codeLength = (bytes: Uint8Array, offset: number) => {
+    for (let length = 1; length <= 4; length++) {
+      if (offset + length > bytes.length) break;
+      const code = bytesToCode(bytes.subarray(offset, offset + length));
+      if (codespaces.some(range => range.length === length && code >= range.low && code <= range.high)) return length;
+    }
+    return Math.min(2, bytes.length - offset);
+  };
+
+  return {
+    name,
+    ascent,
+    descent,
+    vertical,
+    decode(bytes) {
+      const glyphs: DecodedGlyph[] = [];
+      for (let i = 0; i < bytes.length;) {
+        const length = codeLength(bytes, i);
+        const codeBytes = bytes.subarray(i, i + length);
+        const code = bytesToCode(codeBytes);
+        const cid = encodingCMap?.cids.get(code) ?? code;
+        glyphs.push({
+          code,
+          bytes: codeBytes,
+          unicode: toUnicode?.unicode.get(code) ?? '',
+          width: (widths.get(cid) ?? defaultWidth) / 1000,
+        });
+        i += length;
+      }
+      return glyphs;
+    },
+  };
+}
+
+const fontCache = new WeakMap<PDFDict, FontInfo>();
+
+export function loadFont(fontDict: PDFDict, name: string): FontInfo {
+  const cached = fontCache.get(fontDict);
+  if (cached) return cached;
+  const font = fontDict.lookup(PDFName.of('Subtype')) === PDFName.of('Type0')
+    ? loadCompositeFont(fontDict, name)
+    : loadSimpleFont(fontDict, name);
+  fontCache.set(fontDict, font);
+  return font;
+}
+
+// ---------------------------------------------------------------------------
+// Interpreter
+
+export interface TextState {
+  font: FontInfo | null;
+  fontSize: number;
+  charSpacing: number;
+  wordSpacing: number;
+  horizontalScale: number;
+  leading: number;
+  rise: number;
+}
+
+interface GraphicsState {
+  ctm: Matrix;
+  text: TextState;
+}
+
+export interface PositionedGlyph extends DecodedGlyph {
+  // Sequential id across the whole walk (stable between walks of the same content)
+  id: number;
+  // Index of the show operation within its content stream
+  operationIndex: number;
+  // Bounding box in the coordinate space of the walk's initial CTM
+  bbox: Rect;
+  // Displacement in text space units, including spacing (used when rewriting)
+  advance: number;
+  fontSize: number;
+  horizontalScale: number;
+  // Baseline origin in walk coordinates
+  origin: [number, number];
+}
+
+export interface ContentVisitor {
+  onGlyphs?(glyphs: PositionedGlyph[], operationIndex: number, state: TextState): void;
+  onImage?(info: { name?: string; ref?: PDFRef; stream?: PDFStream; operationIndex: number; ctm: Matrix; bbox: Rect; inline: boolean }): void;
+  onForm?(info: { name: string; ref?: PDFRef; stream: PDFStream; operationIndex: number; ctm: Matrix }): void;
+}
+
+export interface WalkOptions {
+  resources?: PDFDict;
+  ctm?: Matrix;
+  // Shared counter so glyph ids stay unique across nested forms
+  glyphCounter?: { next: number };
+}
+
+function showTextTokens(operation: ContentOperation): ContentToken[] {
+  const { operator, operands } = operation;
+  if (operator === 'TJ') {
+    const array = operands[operands.length - 1];
+    return array?.type === 'array' ? array.value : [];
+  }
+  const last = operands[operands.length - 1];
+  return last?.type === 'string' ? [last] : [];
+}
+
+// Walk a parsed content stream, tracking graphics and text state
+export function walkContent(operations: ContentOperation[], visitor: ContentVisitor, options: WalkOptions = {}): void {
+  const resources = options.resources;
+  const counter = options.glyphCounter ?? { next: 0 };
+  let state: GraphicsState = {
+    ctm: options.ctm ?? IDENTITY_MATRIX,
+    text: { font: null, fontSize: 0, charSpacing: 0, wordSpacing: 0, horizontalScale: 1, leading: 0, rise: 0 },
+  };
+  const stack: GraphicsState[] = [];
+  let tm: Matrix = IDENTITY_MATRIX;
+  let tlm: Matrix = IDENTITY_MATRIX;
+
+  const num = (operation: ContentOperation, index: number) => {
+    const token = operation.operands[index];
+    return token?.type === 'number' ? token.value : 0;
+  };
+
+  const nextLine = (tx: number, ty: number) => {
+    tlm = multiplyMatrix([1, 0, 0, 1, tx, ty], tlm);
+    tm = tlm;
+  };
+
+  const showText = (operation: ContentOperation, operationIndex: number) => {
+    const { text } = state;
+    const font = text.font;
+    if (!font) return;
+    const positioned: PositionedGlyph[] = [];
+    for (const token of showTextTokens(operation)) {
+      if (token.type === 'number') {
+        const tx = (-token.value / 1000) * text.fontSize * text.horizontalScale;
+        tm = multiplyMatrix([1, 0, 0, 1, tx, 0], tm);
+        continue;
+      }
+      if (token.type !== 'string') continue;
+      for (const glyph of font.decode(token.value)) {
+        const isSpace = glyph.bytes.length === 1 && glyph.code === 32;
+        const advance = (glyph.width * text.fontSize + text.charSpacing + (isSpace ? text.wordSpacing : 0)) * text.horizontalScale;
+        const trm = multiplyMatrix(
+          multiplyMatrix([text.fontSize * text.horizontalScale, 0, 0, text.fontSize, 0, text.rise], tm),
+          state.ctm
+        );
+        positioned.push({
+          ...glyph,
+          id: counter.next++,
+          operationIndex,
+          bbox: transformRect(trm, 0, font.descent, glyph.width || 0.5, font.ascent),
+          advance,
+          fontSize: text.fontSize,
+          horizontalScale: text.horizontalScale,
+          origin: transformPoint(trm, 0, 0),
+        });
+        tm = multiplyMatrix([1, 0, 0, 1, advance, 0], tm);
+      }
+    }
+    visitor.onGlyphs?.(positioned, operationIndex, text);
+  };
+
+  operations.forEach((operation, index) => {
+    const { operator, operands } = operation;
+    switch (operator) {
+      case 'q':
+        stack.push({ ctm: state.ctm, text: { ...state.text } });
+        break;
+      case 'Q':
+        if (stack.length) state = stack.pop() as GraphicsState;
+        break;
+      case 'cm':
+        state.ctm = multiplyMatrix([num(operation, 0), num(operation, 1), num(operation, 2), num(operation, 3), num(operation, 4), num(operation, 5)], state.ctm);
+        break;
+      case 'BT':
+        tm = IDENTITY_MATRIX;
+        tlm = IDENTITY_MATRIX;
+        break;
+      case 'Tf': {
+        const fontName = operands[0];
+        state.text.fontSize = num(operation, 1);
+        if (fontName?.type === 'name') {
+          const fontDict = lookupResource(resources, 'Font', fontName.value);
+          state.text.font = fontDict instanceof PDFDict ? loadFont(fontDict, fontName.value) : null;
+        }
+        break;
+      }
+      case 'Tc':
+        state.text.charSpacing = num(operation, 0);
+        break;
+      case 'Tw':
+        state.text.wordSpacing = num(operation, 0);
+        break;
+      case 'Tz':
+        state.text.horizontalScale = num(operation, 0) / 100;
+        break;
+      case 'TL':
+        state.text.leading = num(operation, 0);
+        break;
+      case 'Ts':
+        state.text.rise = num(operation, 0);
+        break;
+      case 'Td':
+        nextLine(num(operation, 0), num(operation, 1));
+        break;
+      case 'TD':
+        state.text.leading = -num(operation, 1);
+        nextLine(num(operation, 0), num(operation, 1));
+        break;
+      case 'Tm':
+        tlm = [num(operation, 0), num(operation, 1), num(operation, 2), num(operation, 3), num(operation, 4), num(operation, 5)];
+        tm = tlm;
+        break;
+      case 'T*':
+        nextLine(0, -state.text.leading);
+        break;
+      case 'Tj':
+      case 'TJ':
+        showText(operation, index);
+        break;
+      case "'":
+        nextLine(0, -state.text.leading);
+        showText(operation, index);
+        break;
+      case '"':
+        state.text.wordSpacing = num(operation, 0);
+        state.text.charSpacing = num(operation, 1);
+        nextLine(0, -state.text.leading);
+        showText(operation, index);
+        break;
+      case 'Do': {
+        const name = operands[0];
+        if (name?.type !== 'name') break;
+        const group = resources?.lookup(PDFName.of('XObject'));
+        const raw = group instanceof PDFDict ? group.get(PDFName.of(name.value)) : undefined;
+        const ref = raw instanceof PDFRef ? raw : undefined;
+        const xobject = group instanceof PDFDict ? group.lookup(PDFName.of(name.value)) : undefined;
+        if (!(xobject instanceof PDFStream)) break;
+        const subtype = xobject.dict.lookup(PDFName.of('Subtype'));
+        if (subtype === PDFName.of('Image')) {
+          visitor.onImage?.({ name: name.value, ref, stream: xobject, operationIndex: index, ctm: state.ctm, bbox: transformRect(state.ctm, 0, 0, 1, 1), inline: false });
+        } else if (subtype === PDFName.of('Form')) {
+          const ctm = multiplyMatrix(toMatrix(xobject.dict.lookup(PDFName.of('Matrix'))), state.ctm);
+          visitor.onForm?.({ name: name.value, ref, stream: xobject, operationIndex: index, ctm });
+        }
+        break;
+      }
+      case 'BI':
+        visitor.onImage?.({ operationIndex: index, ctm: state.ctm, bbox: transformRect(state.ctm, 0, 0, 1, 1), inline: true });
+        break;
+    }
+  });
+}
+
@@ -0,0 +1,351 @@
+// Embedded image extraction
+// pdf.js reports which images each page actually paints (and decodes them);
+// the matching streams are looked up with pdf-lib so JPEG and JPEG 2000 data can
+// be written out byte for byte instead of being re-encoded.
+
+import { OPS } from 'pdfjs-dist';
+import type { PDFDocumentProxy, PDFPageProxy } from 'pdfjs-dist';
+import { PDFArray, PDFDict, PDFDocument, PDFName, PDFObject, PDFRawStream, PDFStream } from 'pdf-lib';
+import { sha, toHex } from './crypto';
+import {
+  ContentOperation,
+  ContentToken,
+  Matrix,
+  decodeStreamContents,
+  getPageContents,
+  getPageResources,
+  parseContentStream,
+  walkContent,
+} from './pdfContent';
+import { colorComponents, filterNames, isJpegImage, numberEntry } from './pdfImages';
+
+export type ExtractedImageFormat = 'jpg' | 'jp2' | 'png' | 'webp';
+
+export interface ExtractedImage {
+  // Path inside the output archive
+  name: string;
+  page: number;
+  index: number;
+  width: number;
+  height: number;
+  colorSpace: string;
+  bitsPerComponent: number;
+  filter: string | null;
+  format: ExtractedImageFormat;
+  // True when the bytes are the original stream data
+  native: boolean;
+  sha256: string;
+  // Other placements of the same image that were not written again
+  duplicates: { page: number; index: number }[];
+  bytes: Uint8Array;
+}
+
+export interface ImageExtractionOptions {
+  // Encoding for images whose stream cannot be copied as-is
+  fallbackFormat: 'png' | 'jpg' | 'webp';
+  // 0-1, used for lossy fallback formats
+  quality: number;
+  // Prefix for archive paths, usually the source file name
+  prefix: string;
+}
+
+// Image description taken from the PDF object itself
+interface SourceImage {
+  width: number;
+  height: number;
+  colorSpace: string;
+  bitsPerComponent: number;
+  filter: string | null;
+  // Original encoded bytes when they form a standalone image file
+  nativeBytes: Uint8Array | null;
+  nativeFormat: ExtractedImageFormat | null;
+}
+
+// Decoded image as delivered by pdf.js
+interface PdfjsImage {
+  width: number;
+  height: number;
+  kind?: number;
+  data?: Uint8ClampedArray | Uint8Array;
+  bitmap?: ImageBitmap;
+}
+
+const IMAGE_KIND_GRAYSCALE_1BPP = 1;
+const IMAGE_KIND_RGB_24BPP = 2;
+
+function describeColorSpace(colorSpace: PDFObject | undefined): string {
+  if (colorSpace instanceof PDFName) return colorSpace.asString().slice(1);
+  if (colorSpace instanceof PDFArray) {
+    const family = colorSpace.lookup(0);
+    const name = family instanceof PDFName ? family.asString().slice(1) : 'Unknown';
+    if (name === 'ICCBased') return `ICCBased (${colorComponents(colorSpace)} components)`;
+    if (name === 'Indexed') return `Indexed (${describeColorSpace(colorSpace.lookup(1))})`;
+    return name;
+  }
+  return 'Unknown';
+}
+
+function describeXObject(stream: PDFStream): SourceImage {
+  const dict = stream.dict;
+  const filters = filterNames(dict);
+  const colorSpace = dict.lookup(PDFName.of('ColorSpace'));
+  let nativeFormat: ExtractedImageFormat | null = null;
+  // CMYK JPEGs and masked or decode-mapped images do not stand on their own
+  const standalone = !dict.has(PDFName.of('Decode')) && colorComponents(colorSpace) !== 4;
+  if (isJpegImage(stream) && standalone) nativeFormat = 'jpg';
+  if (stream instanceof PDFRawStream && filters.length === 1 && filters[0] === 'JPXDecode') nativeFormat = 'jp2';
+  return {
+    width: numberEntry(dict, 'Width', 0),
+    height: numberEntry(dict, 'Height', 0),
+    colorSpace: filters[0] === 'JPXDecode' && !colorSpace ? 'Embedded' : describeColorSpace(colorSpace),
+    bitsPerComponent: numberEntry(dict, 'BitsPerComponent', 8),
+    filter: filters.length ? filters.join(',') : null,
+    nativeBytes: nativeFormat && stream instanceof PDFRawStream ? stream.contents : null,
+    nativeFormat,
+  };
+}
+
+// Inline image dictionaries use abbreviated keys and values
+function inlineEntry(dict: Map<string, ContentToken>, short: string, long: string): ContentToken | undefined {
+  return dict.get(short) ?? dict.get(long);
+}
+
+function describeInlineImage(operation: ContentOperation): SourceImage | null {
+  const inline = operation.inlineImage;
+  if (!inline) return null;
+  const number = (token: ContentToken | undefined, fallback: number) => (token?.type === 'number' ? token.value : fallback);
+  // Single names or the first entry of an array (filter chains, Indexed colour spaces)
+  const name = (token: ContentToken | undefined): string | null => {
+    if (token?.type === 'name') return token.value;
+    if (token?.type === 'array' && token.value[0]?.type === 'name') return token.value[0].value;
+    return null;
+  };
+  const filter = name(inlineEntry(inline.dict, 'F', 'Filter'));
+  const colorSpace = name(inlineEntry(inline.dict, 'CS', 'ColorSpace'));
+  const abbreviations: Record<string, string> = { G: 'DeviceGray', RGB: 'DeviceRGB', CMYK: 'DeviceCMYK', I: 'Indexed' };
+  const isJpeg = filter === 'DCT' || filter === 'DCTDecode';
+  return {
+    width: number(inlineEntry(inline.dict, 'W', 'Width'), 0),
+    height: number(inlineEntry(inline.dict, 'H', 'Height'), 0),
+    colorSpace: colorSpace ? abbreviations[colorSpace] ?? colorSpace : 'Unknown',
+    bitsPerComponent: number(inlineEntry(inline.dict, 'BPC', 'BitsPerComponent'), 8),
+    filter: filter === 'DCT' ? 'DCTDecode' : filter,
+    nativeBytes: isJpeg && colorSpace !== 'CMYK' && colorSpace !== 'DeviceCMYK' ? inline.data : null,
+    nativeFormat: isJpeg ? 'jpg' : null,
+  };
+}
+
+// Images painted by each page, in content order, mirroring how pdf.js builds its
+// operator list: forms are expanded on every use, stencil masks are skipped and
+// consecutive paints of the same XObject collapse into one entry
+function listPageImages(pdfDoc: PDFDocument): { xobjects: SourceImage[]; inline: SourceImage[] }[] {
+  return pdfDoc.getPages().map(page => {
+    const xobjects: SourceImage[] = [];
+    const inline: SourceImage[] = [];
+    let lastTag: string | null = null;
+
+    const walk = (operations: ContentOperation[], resources: PDFDict | undefined, ctm: Matrix, depth: number) => {
+      walkContent(operations, {
+        onImage: ({ ref, stream, operationIndex, inline: isInline }) => {
+          if (isInline) {
+            const described = describeInlineImage(operations[operationIndex]);
+            if (described) inline.push(described);
+            return;
+          }
+          if (!stream || stream.dict.lookup(PDFName.of('ImageMask'))?.toString() === 'true') return;
+          const tag = ref?.tag ?? null;
+          if (tag && tag === lastTag) return;
+          lastTag = tag;
+          xobjects.push(describeXObject(stream));
+        },
+        onForm: ({ stream, ctm: formCtm }) => {
+          if (depth > 16) return;
+          const formResources = stream.dict.lookup(PDFName.of('Resources'));
+          walk(
+            parseContentStream(decodeStreamContents(stream)),
+            formResources instanceof PDFDict ? formResources : resources,
+            formCtm,
+            depth + 1
+          );
+        },
+      }, { resources, ctm });
+    };
+
+    walk(parseContentStream(getPageContents(page.node)), getPageResources(page.node), [1, 0, 0, 1, 0, 0], 0);
+    return { xobjects, inline };
+  });
+}
+
+function getPdfjsObject(page: PDFPageProxy, objId: string): Promise<PdfjsImage | null> {
+  const store = objId.startsWith('g_') ? page.commonObjs : page.objs;
+  return new Promise(resolve => {
+    try {
+      store.get(objId, (data: PdfjsImage | null) => resolve(data));
+    } catch {
+      resolve(null);
+    }
+  });
+}
+
+// Draw a pdf.js decoded image (or a sub-rectangle of it) onto a canvas
+function pdfjsImageToCanvas(image: PdfjsImage, crop?: { x: number; y: number; w: number; h: number }): HTMLCanvasElement | null {
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  if (image.bitmap) {
+    ctx.drawImage(image.bitmap, 0, 0);
+  } else if (image.data) {
+    const { width, height, data } = image;
+    const rgba = new Uint8ClampedArray(width * height * 4);
+    if (image.kind === IMAGE_KIND_GRAYSCALE_1BPP) {
+      // Packed rows, set bits are white
+      const rowBytes = (width + 7) >> 3;
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const value = data[y * rowBytes + (x >> 3)] & (0x80 >> (x & 7)) ? 255 : 0;
+          const offset = (y * width + x) * 4;
+          rgba[offset] = rgba[offset + 1] = rgba[offset + 2] = value;
+          rgba[offset + 3] = 255;
+        }
+      }
+    } else if (image.kind === IMAGE_KIND_RGB_24BPP) {
+      for (let i = 0, j = 0; i < width * height; i++, j += 3) {
+        rgba[i * 4] = data[j];
+        rgba[i * 4 + 1] = data[j + 1];
+        rgba[i * 4 + 2] = data[j + 2];
+        rgba[i * 4 + 3] = 255;
+      }
+    } else {
+      rgba.set(data.subarray(0, rgba.length));
+    }
+    ctx.putImageData(new ImageData(rgba, width, height), 0, 0);
+  } else {
+    return null;
+  }
+  if (!crop) return canvas;
+  const cropped = document.createElement('canvas');
+  cropped.width = crop.w;
+  cropped.height = crop.h;
+  cropped.getContext('2d')?.drawImage(canvas, crop.x, crop.y, crop.w, crop.h, 0, 0, crop.w, crop.h);
+  return cropped;
+}
+
+async function encodeCanvas(canvas: HTMLCanvasElement, format: ImageExtractionOptions['fallbackFormat'], quality: number): Promise<Uint8Array | null> {
+  const mime = format === 'jpg' ? 'image/jpeg' : `image/${format}`;
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, mime, quality));
+  return blob ? new Uint8Array(await blob.arrayBuffer()) : null;
+}
+
+// Extract every image painted in the document, deduplicated by content hash
+export async function extractPDFImages(
+  pdfBytes: ArrayBuffer | Uint8Array,
+  pdf: PDFDocumentProxy,
+  options: ImageExtractionOptions
+): Promise<ExtractedImage[]> {
+  let sources: ReturnType<typeof listPageImages> = [];
+  try {
+    sources = listPageImages(await PDFDocument.load(pdfBytes, { ignoreEncryption: true, updateMetadata: false }));
+  } catch (error) {
+    // Without the object model every image falls back to pdf.js decoding
+    console.warn('Could not read image streams, re-encoding decoded images instead:', error);
+  }
+
+  const results: ExtractedImage[] = [];
+  const byHash = new Map<string, ExtractedImage>();
+
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const page = await pdf.getPage(pageNumber);
+    const operatorList = await page.getOperatorList();
+    const pageSources = sources[pageNumber - 1] ?? { xobjects: [], inline: [] };
+    let xobjectIndex = 0;
+    let inlineIndex = 0;
+    let lastObjId: string | null = null;
+    let index = 0;
+
+    const addImage = async (decoded: PdfjsImage | null, source: SourceImage | undefined, crop?: { x: number; y: number; w: number; h: number }) => {
+      const width = crop?.w ?? decoded?.width ?? 0;
+      const height = crop?.h ?? decoded?.height ?? 0;
+      // Only trust the stream lookup when it agrees with what pdf.js decoded
+      const matches = source && (!decoded || (source.width === width && source.height === height));
+      let bytes: Uint8Array | null = null;
+      let format: ExtractedImageFormat = options.fallbackFormat;
+      let native = false;
+      if (matches && source?.nativeBytes && source.nativeFormat) {
+        bytes = source.nativeBytes;
+        format = source.nativeFormat;
+        native = true;
+      } else if (decoded) {
+        const canvas = pdfjsImageToCanvas(decoded, crop);
+        bytes = canvas ? await encodeCanvas(canvas, options.fallbackFormat, options.quality) : null;
+      }
+      if (!bytes) return;
+
+      index++;
+      const sha256 = toHex(await sha('SHA-256', bytes));
+      const existing = byHash.get(sha256);
+      if (existing) {
+        existing.duplicates.push({ page: pageNumber, index });
+        return;
+      }
+      const image: ExtractedImage = {
+        name: `${options.prefix}/page${String(pageNumber).padStart(3, '0')}_img${String(index).padStart(2, '0')}.${format}`,
+        page: pageNumber,
+        index,
+        width,
+        height,
+        colorSpace: matches && source ? source.colorSpace : 'DeviceRGB',
+        bitsPerComponent: matches && source ? source.bitsPerComponent : 8,
+        filter: matches && source ? source.filter : null,
+        format,
+        native,
+        sha256,
+        duplicates: [],
+        bytes,
+      };
+      byHash.set(sha256, image);
+      results.push(image);
+    };
+
+    for (let i = 0; i < operatorList.fnArray.length; i++) {
+      const fn = operatorList.fnArray[i];
+      const args = operatorList.argsArray[i];
+      if (fn === OPS.paintImageXObject || fn === OPS.paintImageXObjectRepeat) {
+        const objId = args[0] as string;
+        if (objId === lastObjId) continue;
+        lastObjId = objId;
+        await addImage(await getPdfjsObject(page, objId), pageSources.xobjects[xobjectIndex++]);
+      } else if (fn === OPS.paintInlineImageXObject) {
+        await addImage(args[0] as PdfjsImage, pageSources.inline[inlineIndex++]);
+      } else if (fn === OPS.paintInlineImageXObjectGroup) {
+        // Several small inline images packed into one atlas
+        const [atlas, map] = args as [PdfjsImage, { x: number; y: number; w: number; h: number }[]];
+        for (const entry of map) {
+          await addImage(atlas, pageSources.inline[inlineIndex++], entry);
+        }
+      }
+    }
+    page.cleanup();
+  }
+  return results;
+}
+
+// Manifest written next to the extracted files
+export function buildImageManifest(images: ExtractedImage[]) {
+  return images.map(image => ({
+    file: image.name,
+    page: image.page,
+    index: image.index,
+    width: image.width,
+    height: image.height,
+    colorSpace: image.colorSpace,
+    bitsPerComponent: image.bitsPerComponent,
+    filter: image.filter,
+    format: image.format,
+    original: image.native,
+    size: image.bytes.length,
+    sha256: image.sha256,
+    duplicates: image.duplicates,
+  }));
+}
@@ -0,0 +1,242 @@
+// PDF image XObject helpers
+// Shared by the tools that read or rewrite embedded images: filter and colour
+// space inspection, predictor removal and decoding sampled images to RGBA.
+
+import {
+  PDFArray,
+  PDFContext,
+  PDFDict,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFObject,
+  PDFRawStream,
+  PDFStream,
+  PDFString,
+} from 'pdf-lib';
+import { decodeStreamContents } from './pdfContent';
+
+export function filterNames(dict: PDFDict): string[] {
+  const filter = dict.lookup(PDFName.of('Filter'));
+  if (filter instanceof PDFName) return [filter.asString().slice(1)];
+  if (filter instanceof PDFArray) {
+    const names: string[] = [];
+    for (let i = 0; i < filter.size(); i++) {
+      const name = filter.lookup(i);
+      if (name instanceof PDFName) names.push(name.asString().slice(1));
+    }
+    return names;
+  }
+  return [];
+}
+
+export function numberEntry(dict: PDFDict, key: string, fallback: number): number {
+  const value = dict.lookup(PDFName.of(key));
+  return value instanceof PDFNumber ? value.asNumber() : fallback;
+}
+
+// Undo PNG (10-15) and TIFF (2) predictors on decoded Flate/LZW sample data
+export function removePredictor(data: Uint8Array, params: PDFObject | undefined, width: number, components: number, bitsPerComponent: number): Uint8Array {
+  if (!(params instanceof PDFDict)) return data;
+  const predictor = numberEntry(params, 'Predictor', 1);
+  if (predictor < 2) return data;
+  const colors = numberEntry(params, 'Colors', components);
+  const bpc = numberEntry(params, 'BitsPerComponent', bitsPerComponent);
+  const columns = numberEntry(params, 'Columns', width);
+  const bytesPerPixel = Math.max(1, Math.ceil((colors * bpc) / 8));
+  const rowLength = Math.ceil((columns * colors * bpc) / 8);
+
+  if (predictor === 2) {
+    const out = data.slice();
+    if (bpc !== 8) return out;
+    for (let row = 0; row * rowLength < out.length; row++) {
+      for (let i = bytesPerPixel; i < rowLength; i++) {
+        const index = row * rowLength + i;
+        out[index] = (out[index] + out[index - bytesPerPixel]) & 0xff;
+      }
+    }
+    return out;
+  }
+
+  const rows = Math.floor(data.length / (rowLength + 1));
+  const out = new Uint8Array(rows * rowLength);
+  for (let row = 0; row < rows; row++) {
+    const filter = data[row * (rowLength + 1)];
+    const src = row * (rowLength + 1) + 1;
+    const dst = row * rowLength;
+    for (let i = 0; i < rowLength; i++) {
+      const raw = data[src + i];
+      const left = i >= bytesPerPixel ? out[dst + i - bytesPerPixel] : 0;
+      const up = row > 0 ? out[dst - rowLength + i] : 0;
+      const upLeft = row > 0 && i >= bytesPerPixel ? out[dst - rowLength + i - bytesPerPixel] : 0;
+      let value = raw;
+      if (filter === 1) value = raw + left;
+      else if (filter === 2) value = raw + up;
+      else if (filter === 3) value = raw + ((left + up) >> 1);
+      else if (filter === 4) {
+        const p = left + up - upLeft;
+        const pa = Math.abs(p - left);
+        const pb = Math.abs(p - up);
+        const pc = Math.abs(p - upLeft);
+        value = raw + (pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft);
+      }
+      out[dst + i] = value & 0xff;
+    }
+  }
+  return out;
+}
+
+export function colorComponents(colorSpace: PDFObject | undefined): number {
+  if (colorSpace === PDFName.of('DeviceGray') || colorSpace === PDFName.of('CalGray') || colorSpace === PDFName.of('G')) return 1;
+  if (colorSpace === PDFName.of('DeviceCMYK') || colorSpace === PDFName.of('CMYK')) return 4;
+  if (colorSpace instanceof PDFArray) {
+    const family = colorSpace.lookup(0);
+    if (family === PDFName.of('Indexed') || family === PDFName.of('I')) return 1;
+    if (family === PDFName.of('ICCBased')) {
+      const profile = colorSpace.lookup(1);
+      if (profile instanceof PDFStream) return numberEntry(profile.dict, 'N', 3);
+    }
+    if (family === PDFName.of('CalGray') || family === PDFName.of('Separation')) return 1;
+    if (family === PDFName.of('DeviceN')) {
+      const names = colorSpace.lookup(1);
+      return names instanceof PDFArray ? names.size() : 1;
+    }
+  }
+  return 3;
+}
+
+export function copyImageDict(context: PDFContext, dict: PDFDict, omit: string[]): PDFDict {
+  const copy = context.obj({});
+  for (const [key, value] of dict.entries()) {
+    if (!omit.includes(key.asString().slice(1))) copy.set(key, value);
+  }
+  return copy;
+}
+
+// Filters that decodeStreamContents can undo, leaving raw samples
+const SAMPLE_FILTERS = ['FlateDecode', 'LZWDecode', 'RunLengthDecode', 'ASCIIHexDecode', 'ASCII85Decode'];
+
+export function isJpegImage(stream: PDFStream): stream is PDFRawStream {
+  const filters = filterNames(stream.dict);
+  return stream instanceof PDFRawStream && filters.length === 1 && filters[0] === 'DCTDecode';
+}
+
+export function isSampledImage(stream: PDFStream): boolean {
+  return filterNames(stream.dict).every(filter => SAMPLE_FILTERS.includes(filter));
+}
+
+export interface DecodedImage {
+  width: number;
+  height: number;
+  // RGBA, four bytes per pixel
+  data: Uint8ClampedArray;
+}
+
+// Resolve the base colour space and lookup table of an Indexed image
+function indexedPalette(colorSpace: PDFArray): { base: number; table: Uint8Array } | null {
+  const base = colorComponents(colorSpace.lookup(1));
+  const lookup = colorSpace.lookup(3);
+  let table: Uint8Array | null = null;
+  if (lookup instanceof PDFStream) table = decodeStreamContents(lookup);
+  else if (lookup instanceof PDFString || lookup instanceof PDFHexString) table = lookup.asBytes();
+  return table ? { base, table } : null;
+}
+
+function toRGB(samples: ArrayLike<number>, offset: number, components: number, out: Uint8ClampedArray, target: number) {
+  if (components === 1) {
+    out[target] = out[target + 1] = out[target + 2] = samples[offset];
+  } else if (components === 4) {
+    // Naive CMYK conversion, good enough for previews and recompression
+    const k = 255 - samples[offset + 3];
+    out[target] = ((255 - samples[offset]) * k) / 255;
+    out[target + 1] = ((255 - samples[offset + 1]) * k) / 255;
+    out[target + 2] = ((255 - samples[offset + 2]) * k) / 255;
+  } else {
+    out[target] = samples[offset];
+    out[target + 1] = samples[offset + 1];
+    out[target + 2] = samples[offset + 2];
+  }
+}
+
+// Decode a non-JPEG image XObject to RGBA pixels; null for unsupported layouts
+export function decodeImagePixels(stream: PDFStream): DecodedImage | null {
+  const dict = stream.dict;
+  const width = numberEntry(dict, 'Width', 0);
+  const height = numberEntry(dict, 'Height', 0);
+  if (!width || !height || !isSampledImage(stream)) return null;
+  const isMask = dict.lookup(PDFName.of('ImageMask'))?.toString() === 'true';
+  const bpc = isMask ? 1 : numberEntry(dict, 'BitsPerComponent', 8);
+  const colorSpace = dict.lookup(PDFName.of('ColorSpace'));
+  const palette = colorSpace instanceof PDFArray && colorSpace.lookup(0) === PDFName.of('Indexed') ? indexedPalette(colorSpace) : null;
+  const components = isMask ? 1 : colorComponents(colorSpace);
+  if (![1, 2, 4, 8].includes(bpc) || (bpc !== 8 && components !== 1)) return null;
+
+  const params = dict.lookup(PDFName.of('DecodeParms'));
+  const samples = removePredictor(
+    decodeStreamContents(stream),
+    params instanceof PDFArray ? params.lookup(params.size() - 1) : params,
+    width,
+    components,
+    bpc
+  );
+  const rowLength = Math.ceil((width * components * bpc) / 8);
+  if (samples.length < rowLength * height) return null;
+
+  // A Decode array of [1 0] inverts single-channel images (and is the stencil default)
+  const decode = dict.lookup(PDFName.of('Decode'));
+  const inverted = decode instanceof PDFArray && decode.lookup(0) instanceof PDFNumber && (decode.lookup(0) as PDFNumber).asNumber() === 1;
+  const maxValue = (1 << bpc) - 1;
+  const data = new Uint8ClampedArray(width * height * 4);
+  const pixel = new Uint8Array(4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const target = (y * width + x) * 4;
+      data[target + 3] = 255;
+      if (bpc === 8 && !palette) {
+        toRGB(samples, y * rowLength + x * components, components, data, target);
+        if (components === 1 && inverted) data[target] = data[target + 1] = data[target + 2] = 255 - data[target];
+        continue;
+      }
+      const bitOffset = x * bpc;
+      const byte = samples[y * rowLength + (bitOffset >> 3)];
+      let value = (byte >> (8 - bpc - (bitOffset & 7))) & maxValue;
+      if (inverted && !palette) value = maxValue - value;
+      if (isMask) {
+        // Painted (0) samples become opaque black, unpainted ones transparent
+        data[target] = data[target + 1] = data[target + 2] = 0;
+        data[target + 3] = value ? 0 : 255;
+      } else if (palette) {
+        const entry = Math.min(value, Math.floor(palette.table.length / palette.base) - 1) * palette.base;
+        for (let c = 0; c < palette.base; c++) pixel[c] = palette.table[entry + c] ?? 0;
+        toRGB(pixel, 0, palette.base, data, target);
+      } else {
+        data[target] = data[target + 1] = data[target + 2] = Math.round((value * 255) / maxValue);
+      }
+    }
+  }
+  return { width, height, data };
+}
+
+// Draw an image XObject onto a fresh canvas (browser only); null when it cannot be decoded
+export async function imageStreamToCanvas(stream: PDFStream): Promise<HTMLCanvasElement | null> {
+  if (typeof document === 'undefined') return null;
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  if (isJpegImage(stream)) {
+    // CMYK JPEGs are usually stored inverted (Adobe APP14) and decode with wrong colours
+    if (colorComponents(stream.dict.lookup(PDFName.of('ColorSpace'))) === 4) return null;
+    const bitmap = await createImageBitmap(new Blob([stream.contents], { type: 'image/jpeg' }));
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    ctx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    return canvas;
+  }
+  const decoded = decodeImagePixels(stream);
+  if (!decoded) return null;
+  canvas.width = decoded.width;
+  canvas.height = decoded.height;
+  ctx.putImageData(new ImageData(decoded.data, decoded.width, decoded.height), 0, 0);
+  return canvas;
+}
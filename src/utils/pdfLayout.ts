@@ -0,0 +1,660 @@
+// PDF page layout reconstruction
+// Text items reported by pdf.js are grouped into lines by baseline, lines into
+// segments at wide horizontal gaps, and the page into bands of one or more
+// columns wherever a vertical gutter runs through the text. Within a column,
+// consecutive lines whose segments line up become tables, and the remaining
+// lines are joined into paragraphs that break on vertical gaps, indents,
+// short last lines and style changes. Headings are picked by font size
+// relative to the body text and by weight. Images are placed from the content
+// stream (read with pdf-lib) at the position they are painted.
+//
+// All lengths are in points, measured from the top-left corner of the page.
+
+import { PDFDict, PDFDocument, PDFName, PDFStream } from 'pdf-lib';
+import {
+  IDENTITY_MATRIX,
+  Matrix,
+  Rect,
+  decodeStreamContents,
+  getPageContents,
+  getPageResources,
+  parseContentStream,
+  walkContent,
+} from './pdfContent';
+import { colorComponents, decodeImagePixels, isJpegImage } from './pdfImages';
+import { encodeRgbaPng } from './png';
+
+// Minimal slice of the pdf.js document API used for extraction
+interface LayoutSourcePage {
+  view: number[];
+  getTextContent(): Promise<{ items: unknown[] }>;
+  getOperatorList(): Promise<unknown>;
+  commonObjs: { has(id: string): boolean; get(id: string): unknown };
+}
+
+interface LayoutSource {
+  numPages: number;
+  getPage(pageNumber: number): Promise<LayoutSourcePage>;
+}
+
+interface PdfjsTextItem {
+  str: string;
+  transform: number[];
+  width: number;
+  fontName: string;
+}
+
+export interface LayoutOptions {
+  // Split pages into text columns and rebuild tables from aligned runs
+  detectColumns: boolean;
+  detectTables: boolean;
+  includeImages: boolean;
+}
+
+// A run of text drawn with one font at one position
+export interface TextFragment {
+  text: string;
+  x: number;
+  baseline: number;
+  width: number;
+  size: number;
+  font: string;
+  bold: boolean;
+  italic: boolean;
+}
+
+export interface PlacedImage {
+  x: number;
+  top: number;
+  width: number;
+  height: number;
+  format: 'jpg' | 'png';
+  data: Uint8Array;
+}
+
+export interface LayoutRun {
+  text: string;
+  font: string;
+  size: number;
+  bold: boolean;
+  italic: boolean;
+}
+
+export interface LayoutParagraph {
+  type: 'paragraph';
+  runs: LayoutRun[];
+  align: 'left' | 'center' | 'right' | 'justify';
+  // 1-3, 0 for body text
+  heading: number;
+  indentLeft: number;
+  // Negative values hang the first line
+  firstLineIndent: number;
+  spaceBefore: number;
+  // Baseline to baseline distance, 0 for single-line paragraphs
+  lineSpacing: number;
+}
+
+export interface LayoutTable {
+  type: 'table';
+  columnWidths: number[];
+  // Row, cell, runs
+  rows: LayoutRun[][][];
+  spaceBefore: number;
+}
+
+export interface LayoutImage {
+  type: 'image';
+  image: PlacedImage;
+  align: 'left' | 'center' | 'right';
+  spaceBefore: number;
+}
+
+export type LayoutBlock = LayoutParagraph | LayoutTable | LayoutImage;
+
+// A horizontal slice of the page with a fixed number of columns
+export interface LayoutBand {
+  // Blocks of each column, left to right
+  columns: LayoutBlock[][];
+  // Space between columns
+  gutter: number;
+}
+
+export interface PageLayout {
+  width: number;
+  height: number;
+  margins: { top: number; right: number; bottom: number; left: number };
+  bands: LayoutBand[];
+}
+
+export interface DocumentLayout {
+  pages: PageLayout[];
+  // Most common font size, used to rank headings
+  bodySize: number;
+  // Images painted on the pages that could not be decoded
+  skippedImages: number;
+}
+
+// Fragments closer than this (times the font size) belong to one segment
+const SEGMENT_GAP = 1.2;
+// Baselines within this share of the font size are on one line
+const BASELINE_TOLERANCE = 0.35;
+// Glyph boxes extend this far above and below the baseline
+const ASCENT = 0.8;
+const DESCENT = 0.2;
+
+interface Segment {
+  fragments: TextFragment[];
+  x0: number;
+  x1: number;
+}
+
+// One line of text, or an image, in top-to-bottom order
+interface Row {
+  top: number;
+  bottom: number;
+  baseline: number;
+  size: number;
+  segments: Segment[];
+  image?: PlacedImage;
+}
+
+// ---------------------------------------------------------------------------
+// Extraction
+// ---------------------------------------------------------------------------
+
+const isTextItem = (item: unknown): item is PdfjsTextItem =>
+  typeof item === 'object' && item !== null && 'str' in item && 'transform' in item;
+
+// Family name without the subset prefix and style suffix, e.g.
+// ABCDEF+TimesNewRomanPS-BoldMT -> Times New Roman
+export function fontFamily(name: string): string {
+  const base = name.replace(/^[A-Z]{6}\+/, '').split(/[-,]/)[0].replace(/(PS)?MT$|PS$/, '');
+  const spaced = base.replace(/([a-z])([A-Z])/g, '$1 $2').trim();
+  if (/^(Helvetica|Arial)/i.test(spaced)) return 'Arial';
+  if (/^Times/i.test(spaced)) return 'Times New Roman';
+  if (/^Courier/i.test(spaced)) return 'Courier New';
+  return spaced || 'Calibri';
+}
+
+function resolveFont(page: LayoutSourcePage, id: string) {
+  let name = id;
+  let bold = false;
+  let italic = false;
+  try {
+    if (page.commonObjs.has(id)) {
+      const font = page.commonObjs.get(id) as { name?: string; bold?: boolean; black?: boolean; italic?: boolean } | null;
+      if (font?.name) name = font.name;
+      bold = !!(font?.bold || font?.black);
+      italic = !!font?.italic;
+    }
+  } catch {
+    // Fonts that failed to load keep their internal id
+  }
+  bold ||= /bold|black|heavy|semibold|demi/i.test(name);
+  italic ||= /italic|oblique/i.test(name);
+  return { font: fontFamily(name), bold, italic };
+}
+
+async function pageFragments(page: LayoutSourcePage): Promise<TextFragment[]> {
+  const content = await page.getTextContent();
+  // Loads the page's fonts so their names and weights can be read
+  await page.getOperatorList();
+  const [vx0, , , vy1] = page.view;
+  const fonts = new Map<string, ReturnType<typeof resolveFont>>();
+  const fragments: TextFragment[] = [];
+  for (const item of content.items) {
+    if (!isTextItem(item) || item.str.trim() === '') continue;
+    const [a, b, c, d, e, f] = item.transform;
+    if (!fonts.has(item.fontName)) fonts.set(item.fontName, resolveFont(page, item.fontName));
+    fragments.push({
+      text: item.str,
+      x: e - vx0,
+      baseline: vy1 - f,
+      width: item.width,
+      size: Math.round((Math.hypot(c, d) || Math.hypot(a, b) || 1) * 10) / 10,
+      ...fonts.get(item.fontName)!,
+    });
+  }
+  return fragments;
+}
+
+// Images painted by a page, with their placement in user space
+function pageImageStreams(pdfDoc: PDFDocument, pageIndex: number): { stream: PDFStream; bbox: Rect }[] {
+  const page = pdfDoc.getPage(pageIndex);
+  const found: { stream: PDFStream; bbox: Rect }[] = [];
+  const walk = (stream: Uint8Array, resources: PDFDict | undefined, ctm: Matrix, depth: number) => {
+    walkContent(parseContentStream(stream), {
+      onImage: ({ stream: image, bbox, inline }) => {
+        if (inline || !image || image.dict.lookup(PDFName.of('ImageMask'))?.toString() === 'true') return;
+        found.push({ stream: image, bbox });
+      },
+      onForm: ({ stream: form, ctm: formCtm }) => {
+        if (depth > 16) return;
+        const formResources = form.dict.lookup(PDFName.of('Resources'));
+        walk(decodeStreamContents(form), formResources instanceof PDFDict ? formResources : resources, formCtm, depth + 1);
+      },
+    }, { resources, ctm });
+  };
+  walk(getPageContents(page.node), getPageResources(page.node), IDENTITY_MATRIX, 0);
+  return found;
+}
+
+// JPEG data is kept as-is (except CMYK, which few word processors show
+// correctly); other sampled images are re-encoded as PNG
+async function encodePlacedImage(stream: PDFStream): Promise<{ format: 'jpg' | 'png'; data: Uint8Array } | null> {
+  if (isJpegImage(stream)) {
+    const cmyk = colorComponents(stream.dict.lookup(PDFName.of('ColorSpace'))) === 4;
+    return cmyk || stream.dict.has(PDFName.of('Decode')) ? null : { format: 'jpg', data: stream.contents };
+  }
+  const pixels = decodeImagePixels(stream);
+  return pixels ? { format: 'png', data: await encodeRgbaPng(pixels) } : null;
+}
+
+/**
+ * Read every page of the document and rebuild its layout. `pdfBytes` is
+ * parsed again with pdf-lib to find images; when that fails the layout is
+ * built from the text alone.
+ */
+export async function extractDocumentLayout(pdfBytes: ArrayBuffer | Uint8Array, pdf: LayoutSource, options: LayoutOptions): Promise<DocumentLayout> {
+  let pdfDoc: PDFDocument | null = null;
+  if (options.includeImages) {
+    try {
+      pdfDoc = await PDFDocument.load(pdfBytes, { ignoreEncryption: true, updateMetadata: false });
+    } catch (error) {
+      console.warn('Could not read image streams, converting text only:', error);
+    }
+  }
+
+  const pages: { width: number; height: number; fragments: TextFragment[]; images: PlacedImage[] }[] = [];
+  let skippedImages = 0;
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const page = await pdf.getPage(pageNumber);
+    const [vx0, vy0, vx1, vy1] = page.view;
+    const images: PlacedImage[] = [];
+    if (pdfDoc && pageNumber <= pdfDoc.getPageCount()) {
+      for (const { stream, bbox } of pageImageStreams(pdfDoc, pageNumber - 1)) {
+        // Hairlines and dots are decoration, not pictures
+        if (bbox.width < 4 || bbox.height < 4) continue;
+        const encoded = await encodePlacedImage(stream);
+        if (!encoded) {
+          skippedImages++;
+          continue;
+        }
+        images.push({ x: bbox.x - vx0, top: vy1 - (bbox.y + bbox.height), width: bbox.width, height: bbox.height, ...encoded });
+      }
+    }
+    pages.push({ width: vx1 - vx0, height: vy1 - vy0, fragments: await pageFragments(page), images });
+  }
+
+  const bodySize = dominantSize(pages.flatMap(page => page.fragments));
+  return {
+    pages: pages.map(page => layoutPage(page.fragments, page.images, page.width, page.height, bodySize, options)),
+    bodySize,
+    skippedImages,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Analysis
+// ---------------------------------------------------------------------------
+
+/** Font size covering the most characters, rounded to half points. */
+export function dominantSize(fragments: TextFragment[]): number {
+  const counts = new Map<number, number>();
+  for (const fragment of fragments) {
+    const size = Math.round(fragment.size * 2) / 2;
+    counts.set(size, (counts.get(size) ?? 0) + fragment.text.length);
+  }
+  let best = 12;
+  let bestCount = 0;
+  counts.forEach((count, size) => {
+    if (count > bestCount) {
+      best = size;
+      bestCount = count;
+    }
+  });
+  return best;
+}
+
+// Lines by baseline, left to right; text drawn twice to fake bold is dropped
+function groupRows(fragments: TextFragment[]): Row[] {
+  const sorted = [...fragments].sort((a, b) => a.baseline - b.baseline || a.x - b.x);
+  const lines: TextFragment[][] = [];
+  let baseline = -Infinity;
+  let size = 0;
+  for (const fragment of sorted) {
+    if (lines.length > 0 && Math.abs(fragment.baseline - baseline) <= BASELINE_TOLERANCE * Math.max(fragment.size, size)) {
+      lines[lines.length - 1].push(fragment);
+      size = Math.max(size, fragment.size);
+    } else {
+      lines.push([fragment]);
+      baseline = fragment.baseline;
+      size = fragment.size;
+    }
+  }
+  return lines.map(line => {
+    line.sort((a, b) => a.x - b.x);
+    const unique = line.filter((fragment, i) =>
+      !line.slice(0, i).some(other => other.text === fragment.text && Math.abs(other.x - fragment.x) < 0.2 * fragment.size));
+    const lineSize = Math.max(...unique.map(fragment => fragment.size));
+    const lineBaseline = unique.reduce((sum, fragment) => sum + fragment.baseline, 0) / unique.length;
+    const segments: Segment[] = [];
+    for (const fragment of unique) {
+      const last = segments[segments.length - 1];
+      if (last && fragment.x - last.x1 <= SEGMENT_GAP * Math.max(fragment.size, lineSize * 0.5)) {
+        last.fragments.push(fragment);
+        last.x1 = Math.max(last.x1, fragment.x + fragment.width);
+      } else {
+        segments.push({ fragments: [fragment], x0: fragment.x, x1: fragment.x + fragment.width });
+      }
+    }
+    return {
+      top: lineBaseline - ASCENT * lineSize,
+      bottom: lineBaseline + DESCENT * lineSize,
+      baseline: lineBaseline,
+      size: lineSize,
+      segments,
+    };
+  });
+}
+
+const median = (values: number[]) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+// Vertical strips of white space with full lines of text on both sides.
+// Table columns are ruled out by requiring the text beside the gutter to
+// fill most of its column, as running text does.
+function findGutters(rows: Row[], pageWidth: number, bodySize: number): { start: number; end: number }[] {
+  const textRows = rows.filter(row => row.segments.length > 0);
+  if (textRows.length < 6) return [];
+  const width = Math.ceil(pageWidth);
+  const coverage = new Uint16Array(width + 1);
+  for (const row of textRows) {
+    for (const segment of row.segments) {
+      for (let x = Math.max(0, Math.floor(segment.x0)); x <= Math.min(width, Math.ceil(segment.x1)); x++) coverage[x]++;
+    }
+  }
+  const allowed = Math.max(1, Math.floor(textRows.length * 0.04));
+  const gutters: { start: number; end: number }[] = [];
+  let runStart = -1;
+  for (let x = Math.floor(width * 0.15); x <= Math.ceil(width * 0.85) + 1; x++) {
+    const open = x <= width * 0.85 && coverage[x] <= allowed;
+    if (open && runStart < 0) runStart = x;
+    if (!open && runStart >= 0) {
+      if (x - runStart >= Math.max(bodySize, 8)) gutters.push({ start: runStart, end: x });
+      runStart = -1;
+    }
+  }
+  return gutters.filter(gutter => {
+    const left = textRows.flatMap(row => row.segments.filter(segment => segment.x1 <= gutter.start + 1));
+    const right = textRows.flatMap(row => row.segments.filter(segment => segment.x0 >= gutter.end - 1));
+    if (left.length < Math.max(5, textRows.length * 0.25) || right.length < Math.max(5, textRows.length * 0.25)) return false;
+    const leftWidth = gutter.start - Math.min(...left.map(segment => segment.x0));
+    const rightWidth = Math.max(...right.map(segment => segment.x1)) - gutter.end;
+    return median(left.map(segment => segment.x1 - segment.x0)) >= 0.5 * leftWidth &&
+      median(right.map(segment => segment.x1 - segment.x0)) >= 0.5 * rightWidth;
+  });
+}
+
+const rowText = (row: Row) => row.segments.flatMap(segment => segment.fragments);
+
+// Join fragments into runs, adding the spaces the PDF leaves implicit
+function buildRuns(lines: TextFragment[][]): LayoutRun[] {
+  const runs: LayoutRun[] = [];
+  const append = (text: string, fragment: TextFragment) => {
+    const last = runs[runs.length - 1];
+    if (last && last.font === fragment.font && last.size === fragment.size && last.bold === fragment.bold && last.italic === fragment.italic) {
+      last.text += text;
+    } else {
+      runs.push({ text, font: fragment.font, size: fragment.size, bold: fragment.bold, italic: fragment.italic });
+    }
+  };
+  lines.forEach((line, lineIndex) => {
+    line.forEach((fragment, i) => {
+      let text = fragment.text;
+      const previous = i > 0 ? line[i - 1] : null;
+      if (previous && fragment.x - (previous.x + previous.width) > 0.15 * fragment.size && !/\s$/.test(previous.text) && !/^\s/.test(text)) {
+        text = ' ' + text;
+      }
+      if (i === line.length - 1) text = text.replace(/\s+$/, '');
+      if (i === 0) text = text.replace(/^\s+/, '');
+      append(text, fragment);
+    });
+    const next = lines[lineIndex + 1];
+    if (!next) return;
+    const last = runs[runs.length - 1];
+    // A word hyphenated across the line break is joined again
+    if (last && /[a-z]-$/.test(last.text) && /^[a-z]/.test(next[0].text.trimStart())) last.text = last.text.slice(0, -1);
+    else if (last) last.text += ' ';
+  });
+  return runs.filter(run => run.text !== '');
+}
+
+interface RegionBounds {
+  left: number;
+  right: number;
+}
+
+function headingLevel(lines: Row[], runs: LayoutRun[], bodySize: number): number {
+  const text = runs.map(run => run.text).join('');
+  if (lines.length > 3 || text.length > 200) return 0;
+  const weighted = new Map<number, number>();
+  for (const run of runs) weighted.set(run.size, (weighted.get(run.size) ?? 0) + run.text.length);
+  const size = [...weighted.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? bodySize;
+  const ratio = size / bodySize;
+  if (ratio >= 1.6) return 1;
+  if (ratio >= 1.3) return 2;
+  if (ratio >= 1.12) return 3;
+  const bold = runs.every(run => run.bold || run.text.trim() === '');
+  if (bold && lines.length === 1 && text.length < 80 && !/[.,;:]$/.test(text.trim()) && ratio >= 0.95) return 3;
+  return 0;
+}
+
+function buildParagraph(lines: Row[], region: RegionBounds, spaceBefore: number, bodySize: number, options: LayoutOptions): LayoutParagraph {
+  const runs = buildRuns(lines.map(rowText));
+  const size = Math.max(...lines.map(line => line.size));
+  const lefts = lines.map(line => line.segments[0].x0);
+  const rights = lines.map(line => line.segments[line.segments.length - 1].x1);
+  const left = Math.min(...lefts);
+  const regionCenter = (region.left + region.right) / 2;
+  let align: LayoutParagraph['align'] = 'left';
+  if (options.detectColumns) {
+    const centered = lines.every((_, i) => Math.abs((lefts[i] + rights[i]) / 2 - regionCenter) < size) && left - region.left > 2 * size;
+    const rightAligned = rights.every(right => region.right - right < size) && left - region.left > 2 * size;
+    const justified = lines.length > 2 && rights.slice(0, -1).every(right => region.right - right < size);
+    if (centered) align = 'center';
+    else if (rightAligned) align = 'right';
+    else if (justified) align = 'justify';
+  }
+  const restLeft = lines.length > 1 ? Math.min(...lefts.slice(1)) : lefts[0];
+  const indentLeft = align === 'left' || align === 'justify' ? Math.max(0, Math.min(lefts[0], restLeft) - region.left) : 0;
+  const firstLineIndent = lines.length > 1 && Math.abs(lefts[0] - restLeft) > 0.5 * size ? lefts[0] - restLeft : 0;
+  const pitches = lines.slice(1).map((line, i) => line.baseline - lines[i].baseline);
+  return {
+    type: 'paragraph',
+    runs,
+    align,
+    heading: headingLevel(lines, runs, bodySize),
+    indentLeft: Math.round(indentLeft),
+    firstLineIndent: Math.round(firstLineIndent),
+    spaceBefore: Math.round(Math.max(0, spaceBefore)),
+    lineSpacing: pitches.length > 0 ? Math.round(median(pitches) * 10) / 10 : 0,
+  };
+}
+
+// Columns of a table are the merged horizontal extents of its cells
+function buildTable(rows: Row[], region: RegionBounds, spaceBefore: number): LayoutTable | null {
+  const spans = rows.flatMap(row => row.segments.map(segment => [segment.x0, segment.x1])).sort((a, b) => a[0] - b[0]);
+  const columns: number[][] = [];
+  for (const [x0, x1] of spans) {
+    const last = columns[columns.length - 1];
+    if (last && x0 <= last[1] + 2) last[1] = Math.max(last[1], x1);
+    else columns.push([x0, x1]);
+  }
+  if (columns.length < 2) return null;
+  const cellRows = rows.map(row => columns.map(([x0, x1]) =>
+    buildRuns([row.segments.filter(segment => segment.x0 >= x0 - 0.5 && segment.x1 <= x1 + 0.5).flatMap(segment => segment.fragments)])));
+  // Aligned runs only count as a table when most rows fill more than one column
+  const filled = cellRows.filter(cells => cells.filter(cell => cell.length > 0).length >= 2).length;
+  if (filled < Math.max(2, rows.length * 0.6)) return null;
+  const edges = [Math.min(region.left, columns[0][0])];
+  for (let i = 1; i < columns.length; i++) edges.push((columns[i - 1][1] + columns[i][0]) / 2);
+  edges.push(Math.max(region.right, columns[columns.length - 1][1]));
+  return {
+    type: 'table',
+    columnWidths: columns.map((_, i) => Math.round(edges[i + 1] - edges[i])),
+    rows: cellRows,
+    spaceBefore: Math.round(Math.max(0, spaceBefore)),
+  };
+}
+
+// Whether the next line starts a new paragraph
+function breaksParagraph(previous: Row[], line: Row, region: RegionBounds): boolean {
+  const last = previous[previous.length - 1];
+  const size = Math.max(last.size, line.size);
+  const gap = line.baseline - last.baseline;
+  const pitch = previous.length > 1 ? last.baseline - previous[previous.length - 2].baseline : 1.25 * size;
+  if (gap > Math.max(pitch, 1.1 * size) + 0.4 * size || gap < 0) return true;
+  if (Math.abs(line.size - last.size) > 0.15 * size) return true;
+  const lastText = rowText(last);
+  const lineText = rowText(line);
+  if (lastText.every(fragment => fragment.bold) !== lineText.every(fragment => fragment.bold)) return true;
+  const lastLeft = last.segments[0].x0;
+  const lastRight = last.segments[last.segments.length - 1].x1;
+  const lineLeft = line.segments[0].x0;
+  // First-line indent of a new paragraph
+  if (lineLeft - lastLeft > 1.5 * size && lastLeft - region.left < size) return true;
+  // A left-aligned line that stops well short of the margin ends its paragraph
+  if (lastLeft - region.left < size && region.right - lastRight > 6 * size) return true;
+  return false;
+}
+
+function layoutRegion(rows: Row[], region: RegionBounds, startY: number, bodySize: number, options: LayoutOptions): LayoutBlock[] {
+  const blocks: LayoutBlock[] = [];
+  let previousBottom = startY;
+  let i = 0;
+  while (i < rows.length) {
+    const row = rows[i];
+    const spaceBefore = row.top - previousBottom;
+    if (row.image) {
+      const center = row.image.x + row.image.width / 2;
+      const regionCenter = (region.left + region.right) / 2;
+      blocks.push({
+        type: 'image',
+        image: row.image,
+        align: Math.abs(center - regionCenter) < 0.1 * (region.right - region.left) ? 'center' : center > regionCenter ? 'right' : 'left',
+        spaceBefore: Math.round(Math.max(0, spaceBefore)),
+      });
+      previousBottom = row.bottom;
+      i++;
+      continue;
+    }
+    if (options.detectTables && row.segments.length >= 2) {
+      let end = i + 1;
+      while (end < rows.length && !rows[end].image && rows[end].segments.length >= 2 &&
+        rows[end].top - rows[end - 1].bottom < 2 * rows[end].size) end++;
+      const table = end - i >= 2 ? buildTable(rows.slice(i, end), region, spaceBefore) : null;
+      if (table) {
+        blocks.push(table);
+        previousBottom = rows[end - 1].bottom;
+        i = end;
+        continue;
+      }
+    }
+    const lines = [row];
+    let end = i + 1;
+    while (end < rows.length && !rows[end].image && !(options.detectTables && rows[end].segments.length >= 2 && rows[end + 1]?.segments.length >= 2) &&
+      !breaksParagraph(lines, rows[end], region)) {
+      lines.push(rows[end]);
+      end++;
+    }
+    blocks.push(buildParagraph(lines, region, spaceBefore - DESCENT * row.size, bodySize, options));
+    previousBottom = lines[lines.length - 1].bottom;
+    i = end;
+  }
+  return blocks;
+}
+
+/** Lay out one page from its text fragments and images. */
+export function layoutPage(
+  fragments: TextFragment[],
+  images: PlacedImage[],
+  width: number,
+  height: number,
+  bodySize: number,
+  options: LayoutOptions
+): PageLayout {
+  // A page-filling picture behind text is a background or a scan under an
+  // OCR layer; only image-only pages keep it
+  const pageArea = width * height;
+  const visibleImages = fragments.length === 0 ? images : images.filter(image => image.width * image.height < 0.8 * pageArea);
+  const rows = groupRows(fragments);
+  for (const image of visibleImages) {
+    rows.push({
+      top: image.top,
+      bottom: image.top + image.height,
+      baseline: image.top + image.height,
+      size: 0,
+      segments: [],
+      image,
+    });
+  }
+  rows.sort((a, b) => a.top - b.top);
+
+  const xs = rows.flatMap(row => (row.image ? [row.image.x, row.image.x + row.image.width] : [row.segments[0].x0, row.segments[row.segments.length - 1].x1]));
+  const contentLeft = xs.length ? Math.min(...xs) : 72;
+  const contentRight = xs.length ? Math.max(...xs) : width - 72;
+  const clampMargin = (value: number) => Math.round(Math.min(72, Math.max(18, value)));
+  const margins = {
+    top: clampMargin(rows.length ? rows[0].top : 72),
+    right: clampMargin(width - contentRight),
+    bottom: clampMargin(rows.length ? height - Math.max(...rows.map(row => row.bottom)) : 72),
+    left: clampMargin(contentLeft),
+  };
+  const page = { left: margins.left, right: width - margins.right };
+
+  const gutters = options.detectColumns ? findGutters(rows, width, bodySize) : [];
+  // Running text has at most one segment per column on a line, so more than
+  // that means a table row reaching across the gutters. Text reaching into a
+  // gutter, such as a centred page number or caption, belongs to no column
+  const spans = (row: Row) => row.segments.length > gutters.length + 1 || gutters.some(gutter => {
+    const overlaps = (x0: number, x1: number) => x0 < gutter.end - 1 && x1 > gutter.start + 1;
+    return row.image ? overlaps(row.image.x, row.image.x + row.image.width) : row.segments.some(segment => overlaps(segment.x0, segment.x1));
+  });
+  // Every segment of a columned row goes to the column its centre is nearest
+  const columnOf = (x0: number, x1: number) => gutters.filter(gutter => (x0 + x1) / 2 > (gutter.start + gutter.end) / 2).length;
+
+  // Consecutive rows that cross no gutter share a columned band
+  const bands: LayoutBand[] = [];
+  let previousBottom = margins.top;
+  let i = 0;
+  while (i < rows.length) {
+    const columned = gutters.length > 0 && !spans(rows[i]);
+    let end = i + 1;
+    while (end < rows.length && (gutters.length > 0 && !spans(rows[end])) === columned) end++;
+    const bandRows = rows.slice(i, end);
+    if (!columned) {
+      bands.push({ columns: [layoutRegion(bandRows, page, previousBottom, bodySize, options)], gutter: 0 });
+    } else {
+      const edges = [page.left, ...gutters.flatMap(gutter => [gutter.start, gutter.end]), page.right];
+      const columns: LayoutBlock[][] = [];
+      for (let c = 0; c <= gutters.length; c++) {
+        const region = { left: edges[c * 2], right: edges[c * 2 + 1] };
+        const columnRows = bandRows.flatMap(row => {
+          if (row.image) return columnOf(row.image.x, row.image.x + row.image.width) === c ? [row] : [];
+          const segments = row.segments.filter(segment => columnOf(segment.x0, segment.x1) === c);
+          return segments.length ? [{ ...row, segments }] : [];
+        });
+        columns.push(layoutRegion(columnRows, region, previousBottom, bodySize, options));
+      }
+      const gutter = gutters.reduce((sum, g) => sum + (g.end - g.start), 0) / gutters.length;
+      bands.push({ columns, gutter: Math.round(gutter) });
+    }
+    previousBottom = Math.max(...bandRows.map(row => row.bottom));
+    i = end;
+  }
+  return { width, height, margins, bands };
+}
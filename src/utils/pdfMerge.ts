@@ -0,0 +1,222 @@
+// Merging PDF documents
+// Pages are copied by reference with one object copier per source file, so
+// every link, widget, form field and destination that points at a page of
+// that file ends up pointing at its copy in the merged document. Named
+// destinations, form fields and outlines are then carried over, renaming
+// names that an earlier file already used.
+
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFObject,
+  PDFObjectCopier,
+  PDFPage,
+  PDFPageLeaf,
+  PDFRef,
+  PDFString,
+} from 'pdf-lib';
+import { OutlineItem, destinationName, readDocumentOutline, readNamedDestinations, setDocumentOutline } from './pdfOutline';
+
+export interface MergeSource {
+  name: string;
+  bytes: ArrayBuffer | Uint8Array;
+}
+
+export interface MergeOptions {
+  // One top-level bookmark per file with its own outline below it; without
+  // it the source outlines are concatenated
+  bookmarkPerFile: boolean;
+}
+
+export interface RenamedField {
+  file: string;
+  from: string;
+  to: string;
+}
+
+export interface MergeResult {
+  pdfDoc: PDFDocument;
+  renamedFields: RenamedField[];
+  renamedDestinations: number;
+}
+
+export class PDFMergeError extends Error {
+  constructor(public fileName: string, message: string) {
+    super(message);
+    this.name = 'PDFMergeError';
+  }
+}
+
+// First free name of the form `name`, `name_2`, `name_3`...
+function uniqueName(name: string, taken: (candidate: string) => boolean): string {
+  let candidate = name;
+  for (let n = 2; taken(candidate); n++) candidate = `${name}_${n}`;
+  return candidate;
+}
+
+const stringKey = (text: string) => (/^[\x20-\x7e]*$/.test(text) ? PDFString.of(text) : PDFHexString.fromText(text));
+
+function shiftOutline(items: OutlineItem[], offset: number): OutlineItem[] {
+  return items.map(item => ({
+    ...item,
+    pageIndex: item.pageIndex + offset,
+    children: item.children && shiftOutline(item.children, offset),
+  }));
+}
+
+interface DestinationRenames {
+  names: Map<string, string>;
+  strings: Map<string, string>;
+}
+
+// Point a copied link at the renamed destination, if its target was renamed
+function renameLinkTarget(holder: PDFDict, key: string, renames: DestinationRenames) {
+  const target = holder.get(PDFName.of(key));
+  const name = destinationName(target);
+  if (name === undefined) return;
+  if (target instanceof PDFName && renames.names.has(name)) holder.set(PDFName.of(key), PDFName.of(renames.names.get(name)!));
+  else if (!(target instanceof PDFName) && renames.strings.has(name)) holder.set(PDFName.of(key), stringKey(renames.strings.get(name)!));
+}
+
+/**
+ * Merge the sources in order. Form fields whose top-level name is already
+ * used by an earlier file are renamed so the two do not share a value.
+ */
+export async function mergePdfDocuments(sources: MergeSource[], options: MergeOptions): Promise<MergeResult> {
+  const merged = await PDFDocument.create();
+  const { context } = merged;
+  const outline: OutlineItem[] = [];
+  const destNames = new Map<string, PDFObject>();
+  const destStrings = new Map<string, { key: PDFString | PDFHexString; value: PDFObject }>();
+  const fields: PDFObject[] = [];
+  const fieldNames = new Set<string>();
+  const renamedFields: RenamedField[] = [];
+  let renamedDestinations = 0;
+  let defaultResources: PDFDict | undefined;
+  let defaultAppearance: PDFObject | undefined;
+  let needAppearances = false;
+
+  for (const [fileIndex, source] of sources.entries()) {
+    let pdf: PDFDocument;
+    try {
+      pdf = await PDFDocument.load(source.bytes, { updateMetadata: false });
+    } catch (error) {
+      throw new PDFMergeError(source.name, error instanceof Error ? error.message : String(error));
+    }
+    const offset = merged.getPageCount();
+    const copier = PDFObjectCopier.for(pdf.context, context);
+    for (const page of pdf.getPages()) {
+      const ref = copier.copy(page.ref) as PDFRef;
+      merged.addPage(PDFPage.of(context.lookup(ref) as PDFPageLeaf, ref, merged));
+    }
+
+    // Named destinations
+    const named = readNamedDestinations(pdf);
+    const renames: DestinationRenames = { names: new Map(), strings: new Map() };
+    named.names.forEach((value, name) => {
+      const unique = uniqueName(name, candidate => destNames.has(candidate));
+      if (unique !== name) renames.names.set(name, unique);
+      destNames.set(unique, copier.copy(value));
+    });
+    named.strings.forEach(({ key, value }, name) => {
+      const unique = uniqueName(name, candidate => destStrings.has(candidate));
+      if (unique !== name) renames.strings.set(name, unique);
+      destStrings.set(unique, { key: unique === name ? key : stringKey(unique), value: copier.copy(value) });
+    });
+    renamedDestinations += renames.names.size + renames.strings.size;
+    if (renames.names.size + renames.strings.size > 0) {
+      for (const page of merged.getPages().slice(offset)) {
+        const annots = page.node.lookup(PDFName.of('Annots'));
+        if (!(annots instanceof PDFArray)) continue;
+        for (let i = 0; i < annots.size(); i++) {
+          const annot = annots.lookup(i);
+          if (!(annot instanceof PDFDict)) continue;
+          renameLinkTarget(annot, 'Dest', renames);
+          const action = annot.lookup(PDFName.of('A'));
+          if (action instanceof PDFDict && action.lookup(PDFName.of('S')) === PDFName.of('GoTo')) renameLinkTarget(action, 'D', renames);
+        }
+      }
+    }
+
+    // Form fields; widgets were copied with their pages and share this copier,
+    // so the field tree links up with them
+    const acroForm = pdf.catalog.lookup(PDFName.of('AcroForm'));
+    if (acroForm instanceof PDFDict) {
+      const sourceFields = acroForm.lookup(PDFName.of('Fields'));
+      const fileNames: string[] = [];
+      if (sourceFields instanceof PDFArray) {
+        for (let i = 0; i < sourceFields.size(); i++) {
+          const copied = copier.copy(sourceFields.get(i));
+          const field = context.lookup(copied);
+          const name = field instanceof PDFDict ? destinationName(field.lookup(PDFName.of('T'))) : undefined;
+          if (field instanceof PDFDict && name !== undefined) {
+            const unique = uniqueName(fieldNames.has(name) ? `${name}_${fileIndex + 1}` : name, candidate => fieldNames.has(candidate));
+            if (unique !== name) {
+              field.set(PDFName.of('T'), stringKey(unique));
+              renamedFields.push({ file: source.name, from: name, to: unique });
+            }
+            fileNames.push(unique);
+          }
+          fields.push(copied);
+        }
+      }
+      fileNames.forEach(name => fieldNames.add(name));
+
+      // Font and colour resources of the field appearances, first file wins
+      const sourceResources = acroForm.get(PDFName.of('DR'));
+      const resources = sourceResources && context.lookup(copier.copy(sourceResources));
+      if (resources instanceof PDFDict) {
+        defaultResources ??= PDFDict.withContext(context);
+        for (const [category, entries] of resources.entries()) {
+          const target = defaultResources.lookup(category);
+          const sourceEntries = context.lookup(entries);
+          if (!(sourceEntries instanceof PDFDict)) continue;
+          if (!(target instanceof PDFDict)) {
+            defaultResources.set(category, sourceEntries);
+            continue;
+          }
+          for (const [key, value] of sourceEntries.entries()) if (!target.has(key)) target.set(key, value);
+        }
+      }
+      const appearance = acroForm.get(PDFName.of('DA'));
+      if (appearance) defaultAppearance ??= copier.copy(appearance);
+      needAppearances ||= acroForm.lookup(PDFName.of('NeedAppearances'))?.toString() === 'true';
+    }
+
+    const sourceOutline = shiftOutline(readDocumentOutline(pdf, named), offset);
+    if (options.bookmarkPerFile) {
+      outline.push({
+        title: pdf.getTitle()?.trim() || source.name.replace(/\.pdf$/i, ''),
+        pageIndex: offset,
+        children: sourceOutline.length > 0 ? sourceOutline : undefined,
+      });
+    } else {
+      outline.push(...sourceOutline);
+    }
+  }
+
+  if (destNames.size > 0) {
+    const dests = PDFDict.withContext(context);
+    destNames.forEach((value, name) => dests.set(PDFName.of(name), value));
+    merged.catalog.set(PDFName.of('Dests'), dests);
+  }
+  if (destStrings.size > 0) {
+    // A single leaf with the keys in sorted order is a valid name tree
+    const entries = [...destStrings.entries()].sort((a, b) => (a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0));
+    const names = context.obj(entries.flatMap(([, { key, value }]) => [key, value]));
+    merged.catalog.set(PDFName.of('Names'), context.obj({ Dests: context.register(context.obj({ Names: names })) }));
+  }
+  if (fields.length > 0) {
+    const form = context.obj({ Fields: context.obj(fields) }) as PDFDict;
+    if (defaultResources) form.set(PDFName.of('DR'), defaultResources);
+    if (defaultAppearance) form.set(PDFName.of('DA'), defaultAppearance);
+    if (needAppearances) form.set(PDFName.of('NeedAppearances'), context.obj(true));
+    merged.catalog.set(PDFName.of('AcroForm'), context.register(form));
+  }
+  setDocumentOutline(merged, outline);
+
+  return { pdfDoc: merged, renamedFields, renamedDestinations };
+}
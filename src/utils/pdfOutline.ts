@@ -0,0 +1,208 @@
+// PDF bookmarks (document outline) for pdf-lib documents
+// pdf-lib has no outline API, so the /Outlines tree is read and written as raw
+// dictionaries linked through First/Last/Next/Prev/Parent references.
+// Destinations may be explicit arrays or names looked up in the catalog
+// /Dests dictionary (name objects) or the /Names /Dests tree (strings).
+
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFNull,
+  PDFNumber,
+  PDFObject,
+  PDFRef,
+  PDFString,
+} from 'pdf-lib';
+
+export interface OutlineItem {
+  title: string;
+  pageIndex: number;
+  // Vertical position on the page in PDF user space; the page top when omitted
+  top?: number;
+  children?: OutlineItem[];
+  // Whether the children are shown expanded when the document is opened
+  open?: boolean;
+}
+
+// Items a viewer shows below this node when the outline is first displayed
+function visibleDescendants(items: OutlineItem[]): number {
+  return items.reduce(
+    (sum, item) => sum + 1 + (item.open && item.children ? visibleDescendants(item.children) : 0),
+    0
+  );
+}
+
+/**
+ * Replace the document outline with the given tree and ask viewers to show
+ * the bookmarks panel. Items pointing at missing pages are clamped to the
+ * last page.
+ */
+export function setDocumentOutline(pdfDoc: PDFDocument, items: OutlineItem[]): void {
+  const { context, catalog } = pdfDoc;
+  const pages = pdfDoc.getPages();
+  if (pages.length === 0 || items.length === 0) {
+    catalog.delete(PDFName.of('Outlines'));
+    return;
+  }
+
+  const writeLevel = (levelItems: OutlineItem[], parent: PDFRef): { first: PDFRef; last: PDFRef } => {
+    const refs = levelItems.map(() => context.nextRef());
+    levelItems.forEach((item, i) => {
+      const page = pages[Math.min(Math.max(item.pageIndex, 0), pages.length - 1)];
+      const top = item.top ?? page.getHeight();
+      const dict = context.obj({
+        Title: PDFHexString.fromText(item.title),
+        Parent: parent,
+        Dest: [page.ref, PDFName.of('XYZ'), PDFNull, PDFNumber.of(top), PDFNull],
+      }) as PDFDict;
+      if (i > 0) dict.set(PDFName.of('Prev'), refs[i - 1]);
+      if (i < refs.length - 1) dict.set(PDFName.of('Next'), refs[i + 1]);
+      if (item.children && item.children.length > 0) {
+        const { first, last } = writeLevel(item.children, refs[i]);
+        dict.set(PDFName.of('First'), first);
+        dict.set(PDFName.of('Last'), last);
+        // Negative counts mark collapsed entries
+        const count = visibleDescendants(item.children);
+        dict.set(PDFName.of('Count'), PDFNumber.of(item.open ? count : -count));
+      }
+      context.assign(refs[i], dict);
+    });
+    return { first: refs[0], last: refs[refs.length - 1] };
+  };
+
+  const outlinesRef = context.nextRef();
+  const { first, last } = writeLevel(items, outlinesRef);
+  context.assign(
+    outlinesRef,
+    context.obj({
+      Type: 'Outlines',
+      First: first,
+      Last: last,
+      Count: PDFNumber.of(visibleDescendants(items)),
+    })
+  );
+  catalog.set(PDFName.of('Outlines'), outlinesRef);
+  catalog.set(PDFName.of('PageMode'), PDFName.of('UseOutlines'));
+}
+
+// ---------------------------------------------------------------------------
+// Reading
+// ---------------------------------------------------------------------------
+
+export interface NamedDestinations {
+  // Catalog /Dests dictionary, referenced by name objects
+  names: Map<string, PDFObject>;
+  // /Names /Dests name tree, referenced by strings; keys keep their original
+  // string object because viewers compare the raw bytes
+  strings: Map<string, { key: PDFString | PDFHexString; value: PDFObject }>;
+}
+
+/** Text of a name or string object, undefined for anything else. */
+export function destinationName(object: PDFObject | undefined): string | undefined {
+  if (object instanceof PDFName || object instanceof PDFString || object instanceof PDFHexString) return object.decodeText();
+  return undefined;
+}
+
+/** Every named destination of the document, from both places they can live. */
+export function readNamedDestinations(pdfDoc: PDFDocument): NamedDestinations {
+  const { catalog } = pdfDoc;
+  const result: NamedDestinations = { names: new Map(), strings: new Map() };
+
+  const dests = catalog.lookup(PDFName.of('Dests'));
+  if (dests instanceof PDFDict) {
+    for (const [key, value] of dests.entries()) result.names.set(key.decodeText(), value);
+  }
+
+  const walkTree = (node: PDFObject | undefined, depth: number) => {
+    if (!(node instanceof PDFDict) || depth > 32) return;
+    const names = node.lookup(PDFName.of('Names'));
+    if (names instanceof PDFArray) {
+      for (let i = 0; i + 1 < names.size(); i += 2) {
+        const key = names.lookup(i);
+        if ((key instanceof PDFString || key instanceof PDFHexString) && !result.strings.has(key.decodeText())) {
+          result.strings.set(key.decodeText(), { key, value: names.get(i + 1) });
+        }
+      }
+    }
+    const kids = node.lookup(PDFName.of('Kids'));
+    if (kids instanceof PDFArray) {
+      for (let i = 0; i < kids.size(); i++) walkTree(kids.lookup(i), depth + 1);
+    }
+  };
+  const nameTree = catalog.lookup(PDFName.of('Names'));
+  if (nameTree instanceof PDFDict) walkTree(nameTree.lookup(PDFName.of('Dests')), 0);
+  return result;
+}
+
+/**
+ * Page index and top coordinate of a destination: an explicit array, a named
+ * destination, or a /D entry wrapping either. Null when it does not lead to
+ * a page of this document.
+ */
+export function resolveDestination(
+  pdfDoc: PDFDocument,
+  destination: PDFObject | undefined,
+  named: NamedDestinations
+): { pageIndex: number; top?: number } | null {
+  const { context } = pdfDoc;
+  let value = destination instanceof PDFRef ? context.lookup(destination) : destination;
+  for (let hops = 0; hops < 4 && value && !(value instanceof PDFArray); hops++) {
+    if (value instanceof PDFDict) value = value.get(PDFName.of('D'));
+    else if (value instanceof PDFName) value = named.names.get(value.decodeText());
+    else if (value instanceof PDFString || value instanceof PDFHexString) value = named.strings.get(value.decodeText())?.value;
+    else return null;
+    if (value instanceof PDFRef) value = context.lookup(value);
+  }
+  if (!(value instanceof PDFArray) || value.size() < 2) return null;
+
+  const target = value.get(0);
+  const pageIndex = target instanceof PDFRef ? pdfDoc.getPages().findIndex(page => page.ref === target) : -1;
+  if (pageIndex < 0) return null;
+  // [page /XYZ left top zoom] and [page /FitH top] carry a vertical position
+  const mode = value.lookup(1);
+  const topIndex = mode === PDFName.of('XYZ') ? 3 : mode === PDFName.of('FitH') || mode === PDFName.of('FitBH') ? 2 : -1;
+  const top = topIndex >= 0 ? value.lookup(topIndex) : undefined;
+  return { pageIndex, top: top instanceof PDFNumber ? top.asNumber() : undefined };
+}
+
+/**
+ * Read the outline as an item tree. Entries that do not jump to a page (URI
+ * or script actions, broken destinations) take the page of their first child
+ * and are dropped when they have none.
+ */
+export function readDocumentOutline(pdfDoc: PDFDocument, named = readNamedDestinations(pdfDoc)): OutlineItem[] {
+  const outlines = pdfDoc.catalog.lookup(PDFName.of('Outlines'));
+  if (!(outlines instanceof PDFDict)) return [];
+  const seen = new Set<PDFDict>();
+
+  const readLevel = (first: PDFObject | undefined, depth: number): OutlineItem[] => {
+    const items: OutlineItem[] = [];
+    let node = first instanceof PDFRef ? pdfDoc.context.lookup(first) : first;
+    while (node instanceof PDFDict && !seen.has(node) && depth < 32) {
+      seen.add(node);
+      const children = readLevel(node.get(PDFName.of('First')), depth + 1);
+      const action = node.lookup(PDFName.of('A'));
+      const goTo = action instanceof PDFDict && action.lookup(PDFName.of('S')) === PDFName.of('GoTo') ? action.get(PDFName.of('D')) : undefined;
+      const target = resolveDestination(pdfDoc, node.get(PDFName.of('Dest')) ?? goTo, named);
+      const count = node.lookup(PDFName.of('Count'));
+      const title = node.lookup(PDFName.of('Title'));
+      const pageIndex = target?.pageIndex ?? children[0]?.pageIndex;
+      if (pageIndex !== undefined) {
+        items.push({
+          title: title instanceof PDFString || title instanceof PDFHexString ? title.decodeText() : '',
+          pageIndex,
+          top: target ? target.top : children[0]?.top,
+          children: children.length > 0 ? children : undefined,
+          open: count instanceof PDFNumber && count.asNumber() > 0,
+        });
+      }
+      node = pdfDoc.context.lookup(node.get(PDFName.of('Next')));
+    }
+    return items;
+  };
+
+  return readLevel(outlines.get(PDFName.of('First')), 0);
+}
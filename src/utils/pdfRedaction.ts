@@ -0,0 +1,620 @@
+// Content-removing PDF redaction
+// Matched glyphs are cut out of the page content streams (their advance is kept as
+// TJ spacing so the remaining text does not move), image pixels under redaction
+// boxes are overwritten, and an opaque rectangle is painted on top.
+
+import {
+  PDFArray,
+  PDFContext,
+  PDFDict,
+  PDFDocument,
+  PDFName,
+  PDFNumber,
+  PDFPageLeaf,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+} from 'pdf-lib';
+import {
+  ContentOperation,
+  ContentToken,
+  Matrix,
+  PositionedGlyph,
+  Rect,
+  decodeStreamContents,
+  formatNumber,
+  getPageContents,
+  getPageResources,
+  parseContentStream,
+  rectContainsPoint,
+  rectsIntersect,
+  removeUnreachableObjects,
+  serializeContentStream,
+  toMatrix,
+  transformPoint,
+  walkContent,
+} from './pdfContent';
+import { colorComponents, copyImageDict, isJpegImage, isSampledImage, numberEntry, removePredictor } from './pdfImages';
+
+export interface RedactionOptions {
+  terms: string[];
+  patterns: RegExp[];
+  matchCase: boolean;
+  // Drawn boxes per page index, in PDF user space (origin bottom-left)
+  boxes: Record<number, Rect[]>;
+  fillColor: [number, number, number] | null;
+  removeMetadata: boolean;
+}
+
+export interface RedactionMatch {
+  pageIndex: number;
+  text: string;
+}
+
+export interface RedactionVerification {
+  passed: boolean;
+  leaks: { pageIndex: number; text: string }[];
+}
+
+export interface RedactionReport {
+  matches: RedactionMatch[];
+  boxes: { pageIndex: number; rect: Rect }[];
+  removedGlyphs: number;
+  redactedImages: number;
+  removedImages: number;
+  removedAnnotations: number;
+  verification: RedactionVerification | null;
+}
+
+// Built-in patterns offered by the redaction tool
+export const REDACTION_PATTERNS = {
+  email: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+  phone: /(?<![\w+])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d{2,4}[\s.-]\d{3,8}(?:[\s.-]\d{2,4}){0,2}(?!\w)/g,
+  iban: /\b[A-Z]{2}\d{2}(?:\s?[A-Z0-9]{4}){2,7}(?:\s?[A-Z0-9]{1,4})?\b/g,
+};
+
+interface ImageUse {
+  name?: string;
+  stream?: PDFStream;
+  operationIndex: number;
+  ctm: Matrix;
+  bbox: Rect;
+  inline: boolean;
+}
+
+interface StreamAnalysis {
+  operations: ContentOperation[];
+  resources?: PDFDict;
+  glyphsByOperation: Map<number, PositionedGlyph[]>;
+  images: ImageUse[];
+  forms: { operationIndex: number; name: string; stream: PDFStream; analysis: StreamAnalysis }[];
+}
+
+const MAX_FORM_DEPTH = 8;
+
+// Parse a content stream (recursing into form XObjects) and collect glyphs in reading order
+function analyzeStream(
+  operations: ContentOperation[],
+  resources: PDFDict | undefined,
+  ctm: Matrix,
+  glyphs: PositionedGlyph[],
+  counter: { next: number },
+  depth: number
+): StreamAnalysis {
+  const analysis: StreamAnalysis = { operations, resources, glyphsByOperation: new Map(), images: [], forms: [] };
+  walkContent(operations, {
+    onGlyphs(positioned, operationIndex) {
+      analysis.glyphsByOperation.set(operationIndex, positioned);
+      glyphs.push(...positioned);
+    },
+    onImage(info) {
+      analysis.images.push(info);
+    },
+    onForm({ name, stream, operationIndex, ctm: formCtm }) {
+      if (depth >= MAX_FORM_DEPTH) return;
+      const formResources = stream.dict.lookup(PDFName.of('Resources'));
+      const formOperations = parseContentStream(decodeStreamContents(stream));
+      analysis.forms.push({
+        operationIndex,
+        name,
+        stream,
+        analysis: analyzeStream(formOperations, formResources instanceof PDFDict ? formResources : resources, formCtm, glyphs, counter, depth + 1),
+      });
+    },
+  }, { resources, ctm, glyphCounter: counter });
+  return analysis;
+}
+
+// Whether a drawn box covers a glyph: its centre lies inside the box. Redaction
+// and its verification must both use this test to agree on what was covered
+function glyphUnderBox(glyph: PositionedGlyph, boxes: Rect[]): boolean {
+  const cx = glyph.bbox.x + glyph.bbox.width / 2;
+  const cy = glyph.bbox.y + glyph.bbox.height / 2;
+  return boxes.some(box => rectContainsPoint(box, cx, cy));
+}
+
+// Analyze a page's content and collect its glyphs in user space
+function analyzePage(pageNode: PDFPageLeaf): { analysis: StreamAnalysis; glyphs: PositionedGlyph[] } {
+  const glyphs: PositionedGlyph[] = [];
+  const analysis = analyzeStream(
+    parseContentStream(getPageContents(pageNode)),
+    getPageResources(pageNode),
+    [1, 0, 0, 1, 0, 0],
+    glyphs,
+    { next: 0 },
+    0
+  );
+  return { analysis, glyphs };
+}
+
+// Join glyphs into searchable text, inserting spaces and line breaks from geometry
+function buildPageText(glyphs: PositionedGlyph[]): { text: string; glyphAt: number[] } {
+  let text = '';
+  const glyphAt: number[] = [];
+  glyphs.forEach((glyph, index) => {
+    const prev = glyphs[index - 1];
+    if (prev) {
+      const lineHeight = Math.max(prev.bbox.height, glyph.bbox.height, 1);
+      if (Math.abs(glyph.origin[1] - prev.origin[1]) > lineHeight * 0.5) {
+        text += '\n';
+        glyphAt.push(-1);
+      } else {
+        const gap = glyph.bbox.x - (prev.bbox.x + prev.bbox.width);
+        if (gap > lineHeight * 0.15 && !/\s$/.test(prev.unicode) && !/^\s/.test(glyph.unicode)) {
+          text += ' ';
+          glyphAt.push(-1);
+        }
+      }
+    }
+    for (const char of glyph.unicode) {
+      text += char;
+      for (let i = 0; i < char.length; i++) glyphAt.push(index);
+    }
+  });
+  return { text, glyphAt };
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export function buildSearchExpressions(terms: string[], patterns: RegExp[], matchCase: boolean): RegExp[] {
+  const expressions = terms
+    .map(term => term.trim())
+    .filter(Boolean)
+    .map(term => new RegExp(term.split(/\s+/).map(escapeRegExp).join('\\s*'), matchCase ? 'g' : 'gi'));
+  for (const pattern of patterns) {
+    expressions.push(new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : pattern.flags + 'g'));
+  }
+  return expressions;
+}
+
+// Rebuild a show-text operation without the redacted glyphs
+function rewriteShowText(operation: ContentOperation, glyphs: PositionedGlyph[], redacted: Set<number>): ContentOperation[] {
+  const items: ContentToken[] = [];
+  let pendingShift = 0;
+  let run: number[] = [];
+  const flushRun = () => {
+    if (run.length) {
+      items.push({ type: 'string', value: new Uint8Array(run) });
+      run = [];
+    }
+  };
+  const flushShift = () => {
+    if (pendingShift !== 0) {
+      items.push({ type: 'number', value: pendingShift });
+      pendingShift = 0;
+    }
+  };
+
+  // Walk the original TJ items alongside the decoded glyphs
+  const source: ContentToken[] = operation.operator === 'TJ'
+    ? (operation.operands[operation.operands.length - 1] as { type: 'array'; value: ContentToken[] }).value
+    : [operation.operands[operation.operands.length - 1]];
+  let glyphIndex = 0;
+  for (const token of source) {
+    if (token.type === 'number') {
+      flushRun();
+      pendingShift += token.value;
+      continue;
+    }
+    if (token.type !== 'string') continue;
+    let consumed = 0;
+    while (consumed < token.value.length && glyphIndex < glyphs.length) {
+      const glyph = glyphs[glyphIndex++];
+      consumed += glyph.bytes.length;
+      if (redacted.has(glyph.id)) {
+        flushRun();
+        const scale = glyph.fontSize * glyph.horizontalScale;
+        if (scale !== 0) pendingShift -= (glyph.advance * 1000) / scale;
+      } else {
+        flushShift();
+        run.push(...glyph.bytes);
+      }
+    }
+  }
+  flushRun();
+  flushShift();
+
+  const result: ContentOperation[] = [];
+  if (operation.operator === "'") {
+    result.push({ operator: 'T*', operands: [] });
+  } else if (operation.operator === '"') {
+    result.push({ operator: 'Tw', operands: [operation.operands[0]] });
+    result.push({ operator: 'Tc', operands: [operation.operands[1]] });
+    result.push({ operator: 'T*', operands: [] });
+  }
+  result.push({ operator: 'TJ', operands: [{ type: 'array', value: items.map(item => item.type === 'number' ? { type: 'number', value: Number(formatNumber(item.value)) } : item) }] });
+  return result;
+}
+
+function invertMatrix(m: Matrix): Matrix | null {
+  const det = m[0] * m[3] - m[1] * m[2];
+  if (Math.abs(det) < 1e-12) return null;
+  return [
+    m[3] / det, -m[1] / det, -m[2] / det, m[0] / det,
+    (m[2] * m[5] - m[3] * m[4]) / det, (m[1] * m[4] - m[0] * m[5]) / det,
+  ];
+}
+
+// Map page-space boxes into the pixel grid of an image drawn with `ctm`
+function boxesInImageSpace(boxes: Rect[], ctm: Matrix, width: number, height: number): Rect[] {
+  const inverse = invertMatrix(ctm);
+  if (!inverse) return [];
+  return boxes.map(box => {
+    const corners = [
+      transformPoint(inverse, box.x, box.y),
+      transformPoint(inverse, box.x + box.width, box.y),
+      transformPoint(inverse, box.x, box.y + box.height),
+      transformPoint(inverse, box.x + box.width, box.y + box.height),
+    ];
+    const us = corners.map(c => c[0]);
+    const vs = corners.map(c => c[1]);
+    const x0 = Math.max(0, Math.floor(Math.min(...us) * width));
+    const x1 = Math.min(width, Math.ceil(Math.max(...us) * width));
+    const y0 = Math.max(0, Math.floor((1 - Math.max(...vs)) * height));
+    const y1 = Math.min(height, Math.ceil((1 - Math.min(...vs)) * height));
+    return { x: x0, y: y0, width: Math.max(0, x1 - x0), height: Math.max(0, y1 - y0) };
+  }).filter(rect => rect.width > 0 && rect.height > 0);
+}
+
+async function redactJpegImage(context: PDFContext, stream: PDFRawStream, boxes: Rect[]): Promise<PDFRef | null> {
+  if (typeof createImageBitmap === 'undefined' || typeof document === 'undefined') return null;
+  const bitmap = await createImageBitmap(new Blob([stream.contents], { type: 'image/jpeg' }));
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  ctx.fillStyle = '#000000';
+  for (const box of boxes) ctx.fillRect(box.x, box.y, box.width, box.height);
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.92));
+  if (!blob) return null;
+  const dict = copyImageDict(context, stream.dict, ['Filter', 'DecodeParms', 'Length', 'ColorSpace', 'Decode', 'BitsPerComponent']);
+  dict.set(PDFName.of('Filter'), PDFName.of('DCTDecode'));
+  dict.set(PDFName.of('ColorSpace'), PDFName.of('DeviceRGB'));
+  dict.set(PDFName.of('BitsPerComponent'), PDFNumber.of(8));
+  return context.register(PDFRawStream.of(dict, new Uint8Array(await blob.arrayBuffer())));
+}
+
+function redactSampledImage(context: PDFContext, stream: PDFStream, boxes: Rect[], width: number, height: number): PDFRef | null {
+  const dict = stream.dict;
+  const isMask = dict.lookup(PDFName.of('ImageMask'))?.toString() === 'true';
+  const bpc = isMask ? 1 : numberEntry(dict, 'BitsPerComponent', 8);
+  const colorSpace = dict.lookup(PDFName.of('ColorSpace'));
+  const components = isMask ? 1 : colorComponents(colorSpace);
+  if (bpc !== 8 && !(bpc === 1 && components === 1)) return null;
+
+  const params = dict.lookup(PDFName.of('DecodeParms'));
+  const decoded = removePredictor(decodeStreamContents(stream), params instanceof PDFArray ? params.lookup(params.size() - 1) : params, width, components, bpc);
+  const samples = decoded.slice();
+  const rowLength = Math.ceil((width * components * bpc) / 8);
+  if (samples.length < rowLength * height) return null;
+
+  // Fill value: black for gray/RGB, full K for CMYK, the unpainted bit for stencil masks
+  const isIndexed = colorSpace instanceof PDFArray && colorSpace.lookup(0) === PDFName.of('Indexed');
+  for (const box of boxes) {
+    for (let y = box.y; y < box.y + box.height; y++) {
+      for (let x = box.x; x < box.x + box.width; x++) {
+        if (bpc === 1) {
+          const index = y * rowLength + (x >> 3);
+          const bit = 0x80 >> (x & 7);
+          samples[index] = isMask ? samples[index] | bit : samples[index] & ~bit;
+        } else {
+          const offset = y * rowLength + x * components;
+          for (let c = 0; c < components; c++) {
+            samples[offset + c] = components === 4 && c === 3 && !isIndexed ? 255 : 0;
+          }
+        }
+      }
+    }
+  }
+
+  const newDict = copyImageDict(context, dict, ['Filter', 'DecodeParms', 'Length']);
+  return context.register(context.flateStream(samples, Object.fromEntries(
+    newDict.entries().map(([key, value]) => [key.asString().slice(1), value])
+  )));
+}
+
+// Overwrite the pixels of an image XObject that fall under the boxes; null when unsupported
+async function redactImageStream(context: PDFContext, stream: PDFStream, boxes: Rect[]): Promise<PDFRef | null> {
+  const width = numberEntry(stream.dict, 'Width', 0);
+  const height = numberEntry(stream.dict, 'Height', 0);
+  if (!width || !height) return null;
+  try {
+    if (isJpegImage(stream)) {
+      return await redactJpegImage(context, stream, boxes);
+    }
+    if (isSampledImage(stream)) {
+      return redactSampledImage(context, stream, boxes, width, height);
+    }
+  } catch (error) {
+    console.warn('Image redaction failed, removing image instead:', error);
+  }
+  return null;
+}
+
+interface ApplyResult {
+  operations: ContentOperation[];
+  resources?: PDFDict;
+  changed: boolean;
+}
+
+interface RedactionCounters {
+  removedGlyphs: number;
+  redactedImages: number;
+  removedImages: number;
+}
+
+// Apply glyph removal, image clipping and form rewriting to an analyzed stream
+async function applyRedaction(
+  context: PDFContext,
+  analysis: StreamAnalysis,
+  redacted: Set<number>,
+  boxes: Rect[],
+  counters: RedactionCounters
+): Promise<ApplyResult> {
+  const replacements = new Map<number, ContentOperation[]>();
+  let resources = analysis.resources;
+  let xobjects: PDFDict | undefined;
+
+  // Copy-on-write resources so shared dictionaries on other pages stay untouched
+  const setXObject = (name: string, ref: PDFRef) => {
+    if (!xobjects) {
+      resources = resources ? resources.clone(context) : context.obj({});
+      const existing = resources.lookup(PDFName.of('XObject'));
+      xobjects = existing instanceof PDFDict ? existing.clone(context) : context.obj({});
+      resources.set(PDFName.of('XObject'), xobjects);
+    }
+    xobjects.set(PDFName.of(name), ref);
+  };
+
+  for (const [operationIndex, glyphs] of analysis.glyphsByOperation) {
+    const removed = glyphs.filter(glyph => redacted.has(glyph.id)).length;
+    if (removed === 0) continue;
+    counters.removedGlyphs += removed;
+    replacements.set(operationIndex, rewriteShowText(analysis.operations[operationIndex], glyphs, redacted));
+  }
+
+  for (const image of analysis.images) {
+    const hits = boxes.filter(box => rectsIntersect(box, image.bbox));
+    if (hits.length === 0) continue;
+    if (image.inline || !image.stream || !image.name) {
+      replacements.set(image.operationIndex, []);
+      counters.removedImages++;
+      continue;
+    }
+    const width = numberEntry(image.stream.dict, 'Width', 0);
+    const height = numberEntry(image.stream.dict, 'Height', 0);
+    const newRef = await redactImageStream(context, image.stream, boxesInImageSpace(hits, image.ctm, width, height));
+    if (newRef) {
+      setXObject(image.name, newRef);
+      counters.redactedImages++;
+    } else {
+      replacements.set(image.operationIndex, []);
+      counters.removedImages++;
+    }
+  }
+
+  for (const form of analysis.forms) {
+    const result = await applyRedaction(context, form.analysis, redacted, boxes, counters);
+    if (!result.changed) continue;
+    const dict = copyImageDict(context, form.stream.dict, ['Filter', 'DecodeParms', 'Length', 'Resources']);
+    if (result.resources) dict.set(PDFName.of('Resources'), result.resources);
+    const entries = Object.fromEntries(dict.entries().map(([key, value]) => [key.asString().slice(1), value]));
+    setXObject(form.name, context.register(context.flateStream(serializeContentStream(result.operations), entries)));
+  }
+
+  const changed = replacements.size > 0 || xobjects !== undefined;
+  const operations = changed
+    ? analysis.operations.flatMap((operation, index) => replacements.get(index) ?? [operation])
+    : analysis.operations;
+  return { operations, resources, changed };
+}
+
+// Merge per-glyph rectangles on the same line into overlay boxes
+function mergeGlyphBoxes(glyphs: PositionedGlyph[]): Rect[] {
+  const boxes: Rect[] = [];
+  for (const glyph of glyphs) {
+    const last = boxes[boxes.length - 1];
+    const box = glyph.bbox;
+    if (last && Math.abs(last.y - box.y) < box.height * 0.3 && box.x - (last.x + last.width) < box.height) {
+      const x1 = Math.max(last.x + last.width, box.x + box.width);
+      const y1 = Math.max(last.y + last.height, box.y + box.height);
+      last.x = Math.min(last.x, box.x);
+      last.y = Math.min(last.y, box.y);
+      last.width = x1 - last.x;
+      last.height = y1 - last.y;
+    } else {
+      boxes.push({ ...box });
+    }
+  }
+  return boxes;
+}
+
+function removeMetadata(pdfDoc: PDFDocument) {
+  pdfDoc.setTitle('');
+  pdfDoc.setAuthor('');
+  pdfDoc.setSubject('');
+  pdfDoc.setKeywords([]);
+  pdfDoc.setProducer('');
+  pdfDoc.setCreator('');
+  pdfDoc.catalog.delete(PDFName.of('Metadata'));
+}
+
+// Redact matched text and boxed areas from a PDF, returning the new bytes and a report
+export async function redactPDF(pdfBytes: ArrayBuffer | Uint8Array, options: RedactionOptions): Promise<{ bytes: Uint8Array; report: RedactionReport }> {
+  const pdfDoc = await PDFDocument.load(pdfBytes);
+  const context = pdfDoc.context;
+  const expressions = buildSearchExpressions(options.terms, options.patterns, options.matchCase);
+  const report: RedactionReport = {
+    matches: [],
+    boxes: [],
+    removedGlyphs: 0,
+    redactedImages: 0,
+    removedImages: 0,
+    removedAnnotations: 0,
+    verification: null,
+  };
+
+  const pages = pdfDoc.getPages();
+  for (let pageIndex = 0; pageIndex < pages.length; pageIndex++) {
+    const pageNode = pages[pageIndex].node;
+    const boxes = options.boxes[pageIndex] ?? [];
+    const { analysis, glyphs } = analyzePage(pageNode);
+
+    // Glyphs hit by a search term or pattern. Patterns can match inside each
+    // other (digit groups of an IBAN look like a phone number), so the longest
+    // match wins and matches overlapping it are dropped
+    const redacted = new Set<number>();
+    const matchedGlyphs: PositionedGlyph[] = [];
+    const { text, glyphAt } = buildPageText(glyphs);
+    const found = expressions
+      .flatMap(expression => Array.from(text.matchAll(expression), match => ({ start: match.index ?? 0, text: match[0] })))
+      .filter(match => match.text)
+      .sort((a, b) => b.text.length - a.text.length || a.start - b.start);
+    const accepted: typeof found = [];
+    for (const match of found) {
+      const end = match.start + match.text.length;
+      if (!accepted.some(other => match.start < other.start + other.text.length && other.start < end)) accepted.push(match);
+    }
+    accepted.sort((a, b) => a.start - b.start);
+    for (const match of accepted) {
+      report.matches.push({ pageIndex, text: match.text });
+      for (let i = match.start; i < match.start + match.text.length; i++) {
+        const glyph = glyphs[glyphAt[i]];
+        if (glyphAt[i] >= 0 && !redacted.has(glyph.id)) {
+          redacted.add(glyph.id);
+          matchedGlyphs.push(glyph);
+        }
+      }
+    }
+
+    // Glyphs under a drawn box
+    for (const glyph of glyphs) {
+      if (glyphUnderBox(glyph, boxes)) redacted.add(glyph.id);
+    }
+
+    if (redacted.size === 0 && boxes.length === 0) continue;
+    boxes.forEach(rect => report.boxes.push({ pageIndex, rect }));
+
+    const result = await applyRedaction(context, analysis, redacted, boxes, report);
+    const overlays = [...boxes, ...mergeGlyphBoxes(matchedGlyphs)];
+    let contents = serializeContentStream([
+      { operator: 'q', operands: [] },
+      ...result.operations,
+      { operator: 'Q', operands: [] },
+    ]);
+    if (options.fillColor && overlays.length) {
+      const [r, g, b] = options.fillColor.map(formatNumber);
+      const paint = overlays
+        .map(box => `${formatNumber(box.x)} ${formatNumber(box.y)} ${formatNumber(box.width)} ${formatNumber(box.height)} re f`)
+        .join('\n');
+      const overlay = new TextEncoder().encode(`q ${r} ${g} ${b} rg\n${paint}\nQ\n`);
+      const combined = new Uint8Array(contents.length + overlay.length);
+      combined.set(contents);
+      combined.set(overlay, contents.length);
+      contents = combined;
+    }
+    pageNode.set(PDFName.of('Contents'), context.register(context.flateStream(contents)));
+    if (result.resources) pageNode.set(PDFName.of('Resources'), result.resources);
+
+    // Annotations over redacted areas may carry the same content in their appearance
+    const annots = pageNode.lookup(PDFName.of('Annots'));
+    if (annots instanceof PDFArray && overlays.length) {
+      const kept = context.obj([]);
+      for (let i = 0; i < annots.size(); i++) {
+        const annot = annots.lookup(i);
+        const rect = annot instanceof PDFDict ? toMatrix(annot.lookup(PDFName.of('Rect'))) : null;
+        const annotRect = rect ? { x: Math.min(rect[0], rect[2]), y: Math.min(rect[1], rect[3]), width: Math.abs(rect[2] - rect[0]), height: Math.abs(rect[3] - rect[1]) } : null;
+        if (annotRect && annotRect.width > 0 && overlays.some(box => rectsIntersect(box, annotRect))) {
+          report.removedAnnotations++;
+        } else {
+          kept.push(annots.get(i));
+        }
+      }
+      pageNode.set(PDFName.of('Annots'), kept);
+    }
+  }
+
+  if (options.removeMetadata) removeMetadata(pdfDoc);
+  // Replaced content streams and images must not survive as orphaned objects
+  removeUnreachableObjects(context);
+
+  const bytes = await pdfDoc.save();
+  return { bytes, report };
+}
+
+// Minimal slice of the pdf.js document API used for verification
+interface TextContentSource {
+  numPages: number;
+  getPage(pageNumber: number): Promise<{
+    getTextContent(): Promise<{ items: unknown[] }>;
+  }>;
+}
+
+// Confirm that no redacted string survives in pdf.js text extraction of the
+// redacted file and that no glyph is left under a drawn box
+export async function verifyRedaction(
+  pdf: TextContentSource,
+  redactedBytes: Uint8Array,
+  report: RedactionReport,
+  matchCase: boolean
+): Promise<RedactionVerification> {
+  const leaks: RedactionVerification['leaks'] = [];
+  const normalize = (value: string) => {
+    const compact = value.replace(/\s+/g, '');
+    return matchCase ? compact : compact.toLowerCase();
+  };
+  for (let pageIndex = 0; pageIndex < pdf.numPages; pageIndex++) {
+    const page = await pdf.getPage(pageIndex + 1);
+    const content = await page.getTextContent();
+    const items = content.items.filter((item): item is { str: string } =>
+      typeof item === 'object' && item !== null && 'str' in item
+    );
+    const pageText = normalize(items.map(item => item.str).join(''));
+    for (const match of report.matches.filter(m => m.pageIndex === pageIndex)) {
+      const needle = normalize(match.text);
+      if (needle && pageText.includes(needle)) leaks.push({ pageIndex, text: match.text });
+    }
+  }
+
+  // pdf.js items are whole runs of text, so boxed areas are checked glyph by
+  // glyph with the same test redaction used
+  const boxedPages = new Set(report.boxes.map(b => b.pageIndex));
+  if (boxedPages.size > 0) {
+    const pages = (await PDFDocument.load(redactedBytes)).getPages();
+    for (const pageIndex of boxedPages) {
+      if (!pages[pageIndex]) continue;
+      const boxes = report.boxes.filter(b => b.pageIndex === pageIndex).map(b => b.rect);
+      const text = analyzePage(pages[pageIndex].node).glyphs
+        .filter(glyph => glyphUnderBox(glyph, boxes))
+        .map(glyph => glyph.unicode)
+        .join('');
+      if (text.trim()) leaks.push({ pageIndex, text });
+    }
+  }
+  return { passed: leaks.length === 0, leaks };
+}
@@ -0,0 +1,566 @@
+// PDF standard security handler (ISO 32000-2, section 7.6.4)
+// Encrypts and decrypts strings and streams of a pdf-lib document in place and
+// reads or writes the matching /Encrypt dictionary, so no server round trip is required.
+
+import {
+  PDFArray,
+  PDFContext,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFObject,
+  PDFObjectStreamParser,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+  PDFString,
+} from 'pdf-lib';
+import {
+  aesDecryptCBC,
+  aesEncryptCBC,
+  aesEncryptECB,
+  bytesEqual,
+  concatBytes,
+  md5,
+  randomBytes,
+  rc4,
+  sha,
+  toHex,
+} from './crypto';
+
+export type PDFEncryptionAlgorithm = 'rc4-128' | 'aes-128' | 'aes-256';
+
+export interface PDFPermissions {
+  printing: boolean;
+  copying: boolean;
+  modifying: boolean;
+  annotating: boolean;
+}
+
+export interface PDFEncryptionOptions {
+  userPassword: string;
+  ownerPassword?: string;
+  algorithm: PDFEncryptionAlgorithm;
+  permissions: PDFPermissions;
+}
+
+export interface PDFSecurityInfo {
+  algorithm: string;
+  revision: number;
+  permissions: PDFPermissions;
+  permissionFlags: number;
+  authenticatedAs: 'user' | 'owner';
+}
+
+export interface PDFDecryptionResult {
+  bytes: Uint8Array;
+  // null when the input was not encrypted
+  security: PDFSecurityInfo | null;
+}
+
+// Thrown when neither the user nor the owner password matches
+export class PDFPasswordError extends Error {
+  constructor(message = 'Incorrect password') {
+    super(message);
+    this.name = 'PDFPasswordError';
+  }
+}
+
+type CipherMethod = 'rc4' | 'aesv2' | 'aesv3';
+
+// Padding string from Algorithm 2, step (a)
+const PASSWORD_PADDING = new Uint8Array([
+  0x28, 0xbf, 0x4e, 0x5e, 0x4e, 0x75, 0x8a, 0x41, 0x64, 0x00, 0x4e, 0x56, 0xff, 0xfa, 0x01, 0x08,
+  0x2e, 0x2e, 0x00, 0xb6, 0xd0, 0x68, 0x3e, 0x80, 0x2f, 0x0c, 0xa9, 0xfe, 0x64, 0x53, 0x69, 0x7a
+]);
+
+// Permission bits from Table 22 (1-based bit positions)
+const PERMISSION_BITS = {
+  print: 1 << 2,
+  modify: 1 << 3,
+  copy: 1 << 4,
+  annotate: 1 << 5,
+  fillForms: 1 << 8,
+  accessibility: 1 << 9,
+  assemble: 1 << 10,
+  printHighQuality: 1 << 11,
+};
+
+// Bits 7-8 and 13-32 are reserved and must be set
+const RESERVED_PERMISSION_BITS = 0xfffff0c0;
+
+// Encode the P entry from the tool's permission toggles
+export function encodePermissions(permissions: PDFPermissions): number {
+  let p = RESERVED_PERMISSION_BITS | PERMISSION_BITS.accessibility;
+  if (permissions.printing) p |= PERMISSION_BITS.print | PERMISSION_BITS.printHighQuality;
+  if (permissions.modifying) p |= PERMISSION_BITS.modify | PERMISSION_BITS.assemble;
+  if (permissions.copying) p |= PERMISSION_BITS.copy;
+  if (permissions.annotating) p |= PERMISSION_BITS.annotate | PERMISSION_BITS.fillForms;
+  return p | 0;
+}
+
+// Decode a P entry back into the tool's permission toggles
+export function decodePermissions(p: number): PDFPermissions {
+  return {
+    printing: (p & PERMISSION_BITS.print) !== 0,
+    copying: (p & PERMISSION_BITS.copy) !== 0,
+    modifying: (p & PERMISSION_BITS.modify) !== 0,
+    annotating: (p & PERMISSION_BITS.annotate) !== 0,
+  };
+}
+
+// Passwords for revisions 2-4 are PDFDocEncoded, padded or truncated to 32 bytes
+function padPassword(password: string): Uint8Array {
+  const out = new Uint8Array(32);
+  let length = 0;
+  for (const char of password) {
+    if (length === 32) break;
+    const code = char.codePointAt(0) ?? 0x3f;
+    out[length++] = code < 256 ? code : 0x3f;
+  }
+  out.set(PASSWORD_PADDING.subarray(0, 32 - length), length);
+  return out;
+}
+
+// Passwords for revision 6 are UTF-8 (after SASLprep normalisation), at most 127 bytes
+function encodePasswordR6(password: string): Uint8Array {
+  return new TextEncoder().encode(password.normalize('NFKC')).slice(0, 127);
+}
+
+function int32LE(value: number): Uint8Array {
+  const out = new Uint8Array(4);
+  new DataView(out.buffer).setInt32(0, value, true);
+  return out;
+}
+
+// Algorithm 3: compute the O entry for revisions 2-4
+function computeOwnerKeyR4(ownerPassword: string, userPassword: string, revision: number, keyLength: number): Uint8Array {
+  let hash = md5(padPassword(ownerPassword || userPassword));
+  if (revision >= 3) {
+    for (let i = 0; i < 50; i++) hash = md5(hash);
+  }
+  const key = hash.slice(0, revision >= 3 ? keyLength : 5);
+  let result = rc4(key, padPassword(userPassword));
+  if (revision >= 3) {
+    for (let i = 1; i <= 19; i++) {
+      result = rc4(key.map(b => b ^ i), result);
+    }
+  }
+  return result;
+}
+
+// Algorithm 2: compute the file encryption key for revisions 2-4
+export function computeFileKeyR4(
+  paddedPassword: Uint8Array,
+  ownerKey: Uint8Array,
+  permissions: number,
+  documentId: Uint8Array,
+  revision: number,
+  keyLength: number,
+  encryptMetadata: boolean
+): Uint8Array {
+  const parts = [paddedPassword, ownerKey.subarray(0, 32), int32LE(permissions), documentId];
+  if (revision >= 4 && !encryptMetadata) parts.push(new Uint8Array([0xff, 0xff, 0xff, 0xff]));
+  let hash = md5(concatBytes(...parts));
+  if (revision >= 3) {
+    for (let i = 0; i < 50; i++) hash = md5(hash.subarray(0, keyLength));
+  }
+  return hash.slice(0, revision >= 3 ? keyLength : 5);
+}
+
+// Algorithms 4 and 5: compute the U entry for revisions 2-4
+export function computeUserKeyR4(fileKey: Uint8Array, documentId: Uint8Array, revision: number): Uint8Array {
+  if (revision === 2) return rc4(fileKey, PASSWORD_PADDING);
+  let result = rc4(fileKey, md5(concatBytes(PASSWORD_PADDING, documentId)));
+  for (let i = 1; i <= 19; i++) {
+    result = rc4(fileKey.map(b => b ^ i), result);
+  }
+  return concatBytes(result, new Uint8Array(16));
+}
+
+// Algorithm 2.B: the iterated hash used by revision 6
+export async function hashR6(password: Uint8Array, salt: Uint8Array, userKey: Uint8Array = new Uint8Array(0)): Promise<Uint8Array> {
+  let k = await sha('SHA-256', concatBytes(password, salt, userKey));
+  let e = new Uint8Array(0);
+  for (let round = 0; round < 64 || e[e.length - 1] > round - 32; round++) {
+    const block = concatBytes(password, k, userKey);
+    const k1 = new Uint8Array(block.length * 64);
+    for (let i = 0; i < 64; i++) k1.set(block, i * block.length);
+    e = aesEncryptCBC(k.subarray(0, 16), k.subarray(16, 32), k1, false);
+    // The first 16 bytes of E as a big-endian integer, modulo 3
+    let remainder = 0;
+    for (let i = 0; i < 16; i++) remainder += e[i];
+    remainder %= 3;
+    k = await sha(remainder === 0 ? 'SHA-256' : remainder === 1 ? 'SHA-384' : 'SHA-512', e);
+  }
+  return k.slice(0, 32);
+}
+
+// Algorithm 1 / 1.A: derive the key for a single object
+export function objectKey(fileKey: Uint8Array, method: CipherMethod, ref: PDFRef): Uint8Array {
+  if (method === 'aesv3') return fileKey;
+  const parts = [
+    fileKey,
+    new Uint8Array([
+      ref.objectNumber & 0xff, (ref.objectNumber >> 8) & 0xff, (ref.objectNumber >> 16) & 0xff,
+      ref.generationNumber & 0xff, (ref.generationNumber >> 8) & 0xff
+    ])
+  ];
+  if (method === 'aesv2') parts.push(new Uint8Array([0x73, 0x41, 0x6c, 0x54])); // "sAlT"
+  return md5(concatBytes(...parts)).slice(0, Math.min(fileKey.length + 5, 16));
+}
+
+function encryptData(fileKey: Uint8Array, method: CipherMethod, ref: PDFRef, data: Uint8Array): Uint8Array {
+  const key = objectKey(fileKey, method, ref);
+  if (method === 'rc4') return rc4(key, data);
+  const iv = randomBytes(16);
+  return concatBytes(iv, aesEncryptCBC(key, iv, data));
+}
+
+// Apply `transform` to every string inside `object`, recursing through dicts and arrays
+export function transformStrings(object: PDFObject, transform: (bytes: Uint8Array) => Uint8Array): void {
+  if (object instanceof PDFDict) {
+    for (const [key, value] of object.entries()) {
+      if (value instanceof PDFString || value instanceof PDFHexString) {
+        object.set(key, PDFHexString.of(toHex(transform(value.asBytes()))));
+      } else {
+        transformStrings(value, transform);
+      }
+    }
+  } else if (object instanceof PDFArray) {
+    for (let i = 0; i < object.size(); i++) {
+      const value = object.get(i);
+      if (value instanceof PDFString || value instanceof PDFHexString) {
+        object.set(i, PDFHexString.of(toHex(transform(value.asBytes()))));
+      } else {
+        transformStrings(value, transform);
+      }
+    }
+  } else if (object instanceof PDFStream) {
+    transformStrings(object.dict, transform);
+  }
+}
+
+// Apply `transform` to every indirect object's strings and stream data
+export function transformIndirectObjects(
+  context: PDFContext,
+  skip: Set<string>,
+  transform: (ref: PDFRef, data: Uint8Array, isStream: boolean) => Uint8Array
+): void {
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    if (skip.has(ref.toString())) continue;
+    transformStrings(object, bytes => transform(ref, bytes, false));
+    if (object instanceof PDFStream) {
+      const contents = object instanceof PDFRawStream ? object.contents : object.getContents();
+      context.assign(ref, PDFRawStream.of(object.dict, transform(ref, contents, true)));
+    }
+  }
+}
+
+interface EncryptionSetup {
+  fileKey: Uint8Array;
+  method: CipherMethod;
+  dict: PDFDict;
+}
+
+async function buildEncryptionDict(
+  context: PDFContext,
+  options: PDFEncryptionOptions,
+  documentId: Uint8Array
+): Promise<EncryptionSetup> {
+  const permissions = encodePermissions(options.permissions);
+  const ownerPassword = options.ownerPassword || options.userPassword;
+
+  if (options.algorithm === 'aes-256') {
+    // Algorithms 8, 9 and 10 (revision 6)
+    const fileKey = randomBytes(32);
+    const userPassword = encodePasswordR6(options.userPassword);
+    const ownerPasswordBytes = encodePasswordR6(ownerPassword);
+
+    const userSalts = randomBytes(16);
+    const u = concatBytes(await hashR6(userPassword, userSalts.subarray(0, 8)), userSalts);
+    const ue = aesEncryptCBC(await hashR6(userPassword, userSalts.subarray(8, 16)), new Uint8Array(16), fileKey, false);
+
+    const ownerSalts = randomBytes(16);
+    const o = concatBytes(await hashR6(ownerPasswordBytes, ownerSalts.subarray(0, 8), u), ownerSalts);
+    const oe = aesEncryptCBC(await hashR6(ownerPasswordBytes, ownerSalts.subarray(8, 16), u), new Uint8Array(16), fileKey, false);
+
+    const perms = concatBytes(int32LE(permissions), new Uint8Array([0xff, 0xff, 0xff, 0xff, 0x54, 0x61, 0x64, 0x62]), randomBytes(4));
+
+    const dict = context.obj({
+      Filter: 'Standard',
+      V: 5,
+      R: 6,
+      Length: 256,
+      P: permissions,
+      O: PDFHexString.of(toHex(o)),
+      U: PDFHexString.of(toHex(u)),
+      OE: PDFHexString.of(toHex(oe)),
+      UE: PDFHexString.of(toHex(ue)),
+      Perms: PDFHexString.of(toHex(aesEncryptECB(fileKey, perms))),
+      CF: { StdCF: { CFM: 'AESV3', AuthEvent: 'DocOpen', Length: 32 } },
+      StmF: 'StdCF',
+      StrF: 'StdCF',
+    });
+    return { fileKey, method: 'aesv3', dict };
+  }
+
+  // Revision 3 (RC4) or 4 (AES-128), both with 128-bit keys
+  const revision = options.algorithm === 'aes-128' ? 4 : 3;
+  const keyLength = 16;
+  const o = computeOwnerKeyR4(ownerPassword, options.userPassword, revision, keyLength);
+  const fileKey = computeFileKeyR4(padPassword(options.userPassword), o, permissions, documentId, revision, keyLength, true);
+  const u = computeUserKeyR4(fileKey, documentId, revision);
+
+  const dict = context.obj({
+    Filter: 'Standard',
+    V: revision === 4 ? 4 : 2,
+    R: revision,
+    Length: 128,
+    P: permissions,
+    O: PDFHexString.of(toHex(o)),
+    U: PDFHexString.of(toHex(u)),
+  });
+  if (revision === 4) {
+    dict.set(PDFName.of('CF'), context.obj({ StdCF: { CFM: 'AESV2', AuthEvent: 'DocOpen', Length: 16 } }));
+    dict.set(PDFName.of('StmF'), PDFName.of('StdCF'));
+    dict.set(PDFName.of('StrF'), PDFName.of('StdCF'));
+  }
+  return { fileKey, method: revision === 4 ? 'aesv2' : 'rc4', dict };
+}
+
+// Read the first /ID entry, creating a fresh file identifier when missing
+function ensureDocumentId(context: PDFContext): Uint8Array {
+  const id = context.trailerInfo.ID;
+  if (id instanceof PDFArray) {
+    const first = id.get(0);
+    if (first instanceof PDFString || first instanceof PDFHexString) return first.asBytes();
+  }
+  const fresh = randomBytes(16);
+  context.trailerInfo.ID = context.obj([PDFHexString.of(toHex(fresh)), PDFHexString.of(toHex(fresh))]);
+  return fresh;
+}
+
+// Encrypt a PDF with the standard security handler and return the new file bytes
+export async function encryptPDF(pdfBytes: ArrayBuffer | Uint8Array, options: PDFEncryptionOptions): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.load(pdfBytes, { updateMetadata: false });
+  const context = pdfDoc.context;
+
+  const documentId = ensureDocumentId(context);
+  const { fileKey, method, dict } = await buildEncryptionDict(context, options, documentId);
+
+  transformIndirectObjects(context, new Set(), (ref, data) => encryptData(fileKey, method, ref, data));
+
+  // The encryption dictionary itself must stay in the clear
+  const encryptRef = context.register(dict);
+  context.trailerInfo.Encrypt = encryptRef;
+
+  // Object streams would hide strings from per-object encryption, so write a classic xref table
+  return pdfDoc.save({ useObjectStreams: false, addDefaultPage: false, updateFieldAppearances: false });
+}
+
+// Algorithm 7: recover the padded user password from the O entry (revisions 2-4)
+function recoverUserPasswordR4(ownerPassword: string, ownerKey: Uint8Array, revision: number, keyLength: number): Uint8Array {
+  let hash = md5(padPassword(ownerPassword));
+  if (revision >= 3) {
+    for (let i = 0; i < 50; i++) hash = md5(hash);
+  }
+  const key = hash.slice(0, revision >= 3 ? keyLength : 5);
+  let result = ownerKey.slice(0, 32);
+  if (revision === 2) return rc4(key, result);
+  for (let i = 19; i >= 0; i--) {
+    result = rc4(key.map(b => b ^ i), result);
+  }
+  return result;
+}
+
+function stringBytes(object: PDFObject | undefined): Uint8Array {
+  if (object instanceof PDFString || object instanceof PDFHexString) return object.asBytes();
+  return new Uint8Array(0);
+}
+
+function numberValue(object: PDFObject | undefined, fallback: number): number {
+  return object instanceof PDFNumber ? object.asNumber() : fallback;
+}
+
+// Resolve StmF/StrF to a cipher through the crypt filter dictionary (V4/V5)
+function resolveCryptFilter(encryptDict: PDFDict, entry: 'StmF' | 'StrF', version: number): CipherMethod | null {
+  if (version < 4) return 'rc4';
+  const filterName = encryptDict.lookup(PDFName.of(entry));
+  if (!(filterName instanceof PDFName) || filterName === PDFName.of('Identity')) return null;
+  const filters = encryptDict.lookup(PDFName.of('CF'));
+  const filter = filters instanceof PDFDict ? filters.lookup(filterName) : undefined;
+  const method = filter instanceof PDFDict ? filter.lookup(PDFName.of('CFM')) : undefined;
+  if (method === PDFName.of('AESV2')) return 'aesv2';
+  if (method === PDFName.of('AESV3')) return 'aesv3';
+  if (method === PDFName.of('V2')) return 'rc4';
+  return null;
+}
+
+function describeAlgorithm(version: number, revision: number, keyBits: number, method: CipherMethod | null): string {
+  if (revision >= 5) return 'AES 256-bit';
+  if (method === 'aesv2') return 'AES 128-bit';
+  return `RC4 ${version === 1 ? 40 : keyBits}-bit`;
+}
+
+interface AuthenticationResult {
+  fileKey: Uint8Array;
+  authenticatedAs: 'user' | 'owner';
+}
+
+// Algorithms 6 and 7 (revisions 2-4)
+function authenticateR4(encryptDict: PDFDict, password: string, documentId: Uint8Array, revision: number, keyLength: number): AuthenticationResult | null {
+  const o = stringBytes(encryptDict.lookup(PDFName.of('O')));
+  const u = stringBytes(encryptDict.lookup(PDFName.of('U')));
+  const p = numberValue(encryptDict.lookup(PDFName.of('P')), 0) | 0;
+  const encryptMetadata = encryptDict.lookup(PDFName.of('EncryptMetadata'))?.toString() !== 'false';
+
+  const tryUserPassword = (paddedPassword: Uint8Array) => {
+    const fileKey = computeFileKeyR4(paddedPassword, o, p, documentId, revision, keyLength, encryptMetadata);
+    const expected = computeUserKeyR4(fileKey, documentId, revision);
+    const compareLength = revision === 2 ? 32 : 16;
+    return bytesEqual(expected.subarray(0, compareLength), u.subarray(0, compareLength)) ? fileKey : null;
+  };
+
+  const ownerKey = tryUserPassword(recoverUserPasswordR4(password, o, revision, keyLength));
+  if (ownerKey) return { fileKey: ownerKey, authenticatedAs: 'owner' };
+  const userKey = tryUserPassword(padPassword(password));
+  if (userKey) return { fileKey: userKey, authenticatedAs: 'user' };
+  return null;
+}
+
+// Algorithms 2.A, 11 and 12 (revisions 5 and 6)
+async function authenticateR6(encryptDict: PDFDict, password: string, revision: number): Promise<AuthenticationResult | null> {
+  const o = stringBytes(encryptDict.lookup(PDFName.of('O')));
+  const u = stringBytes(encryptDict.lookup(PDFName.of('U')));
+  const oe = stringBytes(encryptDict.lookup(PDFName.of('OE')));
+  const ue = stringBytes(encryptDict.lookup(PDFName.of('UE')));
+  const passwordBytes = revision === 6
+    ? encodePasswordR6(password)
+    : new TextEncoder().encode(password).slice(0, 127);
+  const hash = (salt: Uint8Array, userKey?: Uint8Array) => revision === 6
+    ? hashR6(passwordBytes, salt, userKey)
+    : sha('SHA-256', concatBytes(passwordBytes, salt, userKey ?? new Uint8Array(0)));
+  const zeroIv = new Uint8Array(16);
+  const u48 = u.subarray(0, 48);
+
+  if (bytesEqual(await hash(o.subarray(32, 40), u48), o.subarray(0, 32))) {
+    const key = await hash(o.subarray(40, 48), u48);
+    return { fileKey: aesDecryptCBC(key, zeroIv, oe.subarray(0, 32), false), authenticatedAs: 'owner' };
+  }
+  if (bytesEqual(await hash(u.subarray(32, 40)), u.subarray(0, 32))) {
+    const key = await hash(u.subarray(40, 48));
+    return { fileKey: aesDecryptCBC(key, zeroIv, ue.subarray(0, 32), false), authenticatedAs: 'user' };
+  }
+  return null;
+}
+
+function decryptData(fileKey: Uint8Array, method: CipherMethod, ref: PDFRef, data: Uint8Array): Uint8Array {
+  const key = objectKey(fileKey, method, ref);
+  if (method === 'rc4') return rc4(key, data);
+  if (data.length < 16) return new Uint8Array(0);
+  return aesDecryptCBC(key, data.subarray(0, 16), data.subarray(16));
+}
+
+// pdf-lib cannot inflate encrypted object streams while parsing, so their type is
+// renamed (same byte length) before loading and restored once they are decrypted
+const OBJECT_STREAM_TYPE = new TextEncoder().encode('/ObjStm');
+const MASKED_OBJECT_STREAM_TYPE = '/EncStm';
+
+function maskObjectStreams(bytes: Uint8Array): Uint8Array {
+  const masked = bytes.slice();
+  const replacement = new TextEncoder().encode(MASKED_OBJECT_STREAM_TYPE);
+  const isDelimiter = (b: number | undefined) =>
+    b === undefined || b <= 0x20 || b === 0x2f || b === 0x3e || b === 0x3c || b === 0x5b || b === 0x5d;
+  for (let i = masked.indexOf(0x2f); i !== -1; i = masked.indexOf(0x2f, i + 1)) {
+    let match = true;
+    for (let j = 1; j < OBJECT_STREAM_TYPE.length && match; j++) {
+      match = masked[i + j] === OBJECT_STREAM_TYPE[j];
+    }
+    if (match && isDelimiter(masked[i + OBJECT_STREAM_TYPE.length])) masked.set(replacement, i);
+  }
+  return masked;
+}
+
+// Unpack decrypted object streams, keeping newer objects from incremental updates
+async function unpackObjectStreams(context: PDFContext): Promise<void> {
+  const maskedType = PDFName.of(MASKED_OBJECT_STREAM_TYPE.slice(1));
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    if (!(object instanceof PDFRawStream) || object.dict.lookup(PDFName.of('Type')) !== maskedType) continue;
+    context.delete(ref);
+
+    const scratch = PDFContext.create();
+    const dict = PDFDict.fromMapWithContext(object.dict.asMap(), scratch);
+    dict.set(PDFName.of('Type'), PDFName.of('ObjStm'));
+    await PDFObjectStreamParser.forStream(PDFRawStream.of(dict, object.contents)).parseIntoContext();
+
+    for (const [memberRef, member] of scratch.enumerateIndirectObjects()) {
+      if (!context.lookup(memberRef)) context.assign(memberRef, member);
+    }
+  }
+}
+
+// Decrypt a PDF protected by the standard security handler and return clean, unencrypted bytes
+export async function decryptPDF(pdfBytes: ArrayBuffer | Uint8Array, password = ''): Promise<PDFDecryptionResult> {
+  const original = pdfBytes instanceof Uint8Array ? pdfBytes : new Uint8Array(pdfBytes);
+  const pdfDoc = await PDFDocument.load(maskObjectStreams(original), { ignoreEncryption: true, updateMetadata: false });
+  const context = pdfDoc.context;
+
+  const encryptEntry = context.trailerInfo.Encrypt;
+  const encryptDict = context.lookup(encryptEntry);
+  if (!(encryptDict instanceof PDFDict)) {
+    return { bytes: original, security: null };
+  }
+  if (encryptDict.lookup(PDFName.of('Filter')) !== PDFName.of('Standard')) {
+    throw new Error('Only PDFs using the standard password security handler can be decrypted');
+  }
+
+  const version = numberValue(encryptDict.lookup(PDFName.of('V')), 0);
+  const revision = numberValue(encryptDict.lookup(PDFName.of('R')), 2);
+  const keyBits = version === 1 ? 40 : numberValue(encryptDict.lookup(PDFName.of('Length')), 40);
+  const permissionFlags = numberValue(encryptDict.lookup(PDFName.of('P')), 0) | 0;
+  const encryptMetadata = encryptDict.lookup(PDFName.of('EncryptMetadata'))?.toString() !== 'false';
+
+  const idArray = context.lookup(context.trailerInfo.ID);
+  const documentId = idArray instanceof PDFArray ? stringBytes(idArray.lookup(0)) : new Uint8Array(0);
+
+  const auth = revision >= 5
+    ? await authenticateR6(encryptDict, password, revision)
+    : authenticateR4(encryptDict, password, documentId, revision, keyBits / 8);
+  if (!auth) throw new PDFPasswordError();
+
+  const streamMethod = resolveCryptFilter(encryptDict, 'StmF', version);
+  const stringMethod = resolveCryptFilter(encryptDict, 'StrF', version);
+  const skip = new Set<string>();
+  if (encryptEntry instanceof PDFRef) skip.add(encryptEntry.toString());
+
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    // Unencrypted metadata streams are left as they are
+    if (!encryptMetadata && object instanceof PDFStream && object.dict.lookup(PDFName.of('Type')) === PDFName.of('Metadata')) {
+      skip.add(ref.toString());
+    }
+  }
+
+  transformIndirectObjects(context, skip, (ref, data, isStream) => {
+    const method = isStream ? streamMethod : stringMethod;
+    return method ? decryptData(auth.fileKey, method, ref, data) : data;
+  });
+  await unpackObjectStreams(context);
+
+  context.trailerInfo.Encrypt = undefined;
+  if (encryptEntry instanceof PDFRef) context.delete(encryptEntry);
+
+  const bytes = await pdfDoc.save({ addDefaultPage: false, updateFieldAppearances: false });
+  return {
+    bytes,
+    security: {
+      algorithm: describeAlgorithm(version, revision, keyBits, streamMethod),
+      revision,
+      permissions: decodePermissions(permissionFlags),
+      permissionFlags,
+      authenticatedAs: auth.authenticatedAs,
+    },
+  };
+}
@@ -0,0 +1,419 @@
+// Cryptographic PDF signatures (PAdES baseline B)
+// Adds a signature field whose /Sig dictionary holds a detached CMS
+// SignedData over the ByteRange of the file, signed with a key from a
+// PKCS#12 file (see pkcs12.ts). The field and its visible stamp are appended
+// as an incremental update: the original bytes are left untouched, so
+// signatures already in the document stay valid.
+
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFObject,
+  PDFRef,
+  PDFString,
+  StandardFonts,
+} from 'pdf-lib';
+import {
+  derAlgorithm,
+  derContext,
+  derInteger,
+  derNull,
+  derOctetString,
+  derOid,
+  derSequence,
+  derSet,
+  derTlv,
+  TAG,
+} from './asn1';
+import { concatBytes, sha, toHex } from './crypto';
+import { SigningIdentity } from './pkcs12';
+import { Certificate, displayName, OID } from './x509';
+
+export interface SignatureAppearance {
+  pageIndex: number;
+  // Widget rectangle in PDF user space (origin at the bottom left)
+  rect: { x: number; y: number; width: number; height: number };
+  image?: { bytes: Uint8Array; type: 'png' | 'jpg' };
+  text?: string;
+  fontSize?: number;
+  // 0..1
+  opacity: number;
+}
+
+export interface SignOptions {
+  reason?: string;
+  location?: string;
+  contactInfo?: string;
+  signingTime?: Date;
+  // Without an appearance the signature is invisible
+  appearance?: SignatureAppearance;
+}
+
+export class PDFSignatureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PDFSignatureError';
+  }
+}
+
+export const CMS_OID = {
+  data: '1.2.840.113549.1.7.1',
+  signedData: '1.2.840.113549.1.7.2',
+  contentType: '1.2.840.113549.1.9.3',
+  messageDigest: '1.2.840.113549.1.9.4',
+  signingTime: '1.2.840.113549.1.9.5',
+  signingCertificateV2: '1.2.840.113549.1.9.16.2.47',
+} as const;
+
+const latin1 = (text: string) => Uint8Array.from(text, char => char.charCodeAt(0));
+
+const num = (value: number) => Number(value.toFixed(3));
+
+const textString = (text: string) => (/^[\x20-\x7e]*$/.test(text) ? PDFString.of(text) : PDFHexString.fromText(text));
+
+// ---------------------------------------------------------------------------
+// CMS SignedData
+// ---------------------------------------------------------------------------
+
+// Signer certificate reference of ESS (RFC 5035), required by PAdES
+async function signingCertificateV2(certificate: Certificate): Promise<Uint8Array> {
+  const issuerSerial = derSequence(
+    derSequence(derContext(4, certificate.issuer.raw)),
+    derTlv(TAG.INTEGER, certificate.serialNumber),
+  );
+  // The hash algorithm is left out as SHA-256 is its default
+  const certId = derSequence(derOctetString(await sha('SHA-256', certificate.raw)), issuerSerial);
+  return derSequence(derSequence(certId));
+}
+
+// ECDSA signatures come from Web Crypto as r || s and go into CMS as DER
+function ecdsaToDer(signature: Uint8Array): Uint8Array {
+  const half = signature.length / 2;
+  return derSequence(derInteger(signature.subarray(0, half)), derInteger(signature.subarray(half)));
+}
+
+/** Detached CMS SignedData with a SHA-256 digest of the signed bytes. */
+export async function createCmsSignature(digest: Uint8Array, identity: SigningIdentity): Promise<Uint8Array> {
+  const { certificate } = identity;
+  const attribute = (oid: string, value: Uint8Array) => derSequence(derOid(oid), derSet(value));
+  const signedAttributes = derSet(
+    attribute(CMS_OID.contentType, derOid(CMS_OID.data)),
+    attribute(CMS_OID.messageDigest, derOctetString(digest)),
+    attribute(CMS_OID.signingCertificateV2, await signingCertificateV2(certificate)),
+  );
+
+  let signature: Uint8Array;
+  let signatureAlgorithm: Uint8Array;
+  try {
+    if (identity.keyAlgorithm === 'RSA') {
+      const key = await crypto.subtle.importKey('pkcs8', identity.privateKey, { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, false, ['sign']);
+      signature = new Uint8Array(await crypto.subtle.sign('RSASSA-PKCS1-v1_5', key, signedAttributes));
+      signatureAlgorithm = derAlgorithm(OID.sha256WithRSAEncryption, derNull());
+    } else {
+      const key = await crypto.subtle.importKey('pkcs8', identity.privateKey, { name: 'ECDSA', namedCurve: identity.namedCurve! }, false, ['sign']);
+      signature = ecdsaToDer(new Uint8Array(await crypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, key, signedAttributes)));
+      signatureAlgorithm = derAlgorithm(OID.ecdsaWithSHA256);
+    }
+  } catch {
+    throw new PDFSignatureError('The private key could not be used for signing');
+  }
+
+  // In the SignerInfo the attributes are [0] IMPLICIT instead of a SET
+  const signerInfo = derSequence(
+    derInteger(1),
+    derSequence(certificate.issuer.raw, derTlv(TAG.INTEGER, certificate.serialNumber)),
+    derAlgorithm(OID.sha256),
+    concatBytes(Uint8Array.of(0xa0), signedAttributes.subarray(1)),
+    signatureAlgorithm,
+    derOctetString(signature),
+  );
+  const signedData = derSequence(
+    derInteger(1),
+    derSet(derAlgorithm(OID.sha256)),
+    derSequence(derOid(CMS_OID.data)),
+    derContext(0, concatBytes(certificate.raw, ...identity.chain.map(issuer => issuer.raw))),
+    derSet(signerInfo),
+  );
+  return derSequence(derOid(CMS_OID.signedData), derContext(0, signedData));
+}
+
+// ---------------------------------------------------------------------------
+// Incremental update
+// ---------------------------------------------------------------------------
+
+interface PreviousSection {
+  // Offset given by the last startxref of the file
+  offset: number;
+  usesStream: boolean;
+  // Its /Size; may exceed what pdf-lib reports, as object and cross-reference
+  // streams are not counted there
+  size: number;
+}
+
+export function previousSection(bytes: Uint8Array): PreviousSection {
+  const decode = (start: number, end: number) => new TextDecoder('latin1').decode(bytes.subarray(Math.max(0, start), end));
+  const tail = decode(bytes.length - 1024, bytes.length);
+  const matches = [...tail.matchAll(/startxref\s+(\d+)/g)];
+  if (matches.length === 0) throw new PDFSignatureError('The PDF has no cross-reference information');
+  const offset = Number(matches[matches.length - 1][1]);
+  const usesStream = !/^\s*xref/.test(decode(offset, offset + 32));
+  // A trailer sits just before startxref; a stream dictionary at the offset itself
+  const dictionary = usesStream ? decode(offset, offset + 1024) : tail;
+  const sizes = [...dictionary.matchAll(/\/Size\s+(\d+)/g)];
+  const size = sizes.length > 0 ? Number(sizes[usesStream ? 0 : sizes.length - 1][1]) : 0;
+  return { offset, usesStream, size };
+}
+
+function serialize(ref: PDFRef, object: PDFObject | Uint8Array): Uint8Array {
+  let body: Uint8Array;
+  if (object instanceof Uint8Array) {
+    body = object;
+  } else {
+    body = new Uint8Array(object.sizeInBytes());
+    object.copyBytesInto(body, 0);
+  }
+  return concatBytes(latin1(`${ref.objectNumber} ${ref.generationNumber} obj\n`), body, latin1('\nendobj\n'));
+}
+
+// Consecutive object numbers share a subsection
+function subsections(numbers: number[]): [number, number][] {
+  const sections: [number, number][] = [];
+  for (const number of numbers) {
+    const last = sections[sections.length - 1];
+    if (last && last[0] + last[1] === number) last[1]++;
+    else sections.push([number, 1]);
+  }
+  return sections;
+}
+
+interface UpdateObject {
+  ref: PDFRef;
+  bytes: Uint8Array;
+}
+
+/**
+ * Cross-reference section and trailer for the appended objects. Files whose
+ * last section is a cross-reference stream get a stream again, as readers
+ * that understand one are not required to accept a mix.
+ */
+function crossReference(pdfDoc: PDFDocument, previous: PreviousSection, objects: UpdateObject[], offsets: Map<number, number>, start: number): Uint8Array {
+  const { context } = pdfDoc;
+  const info = context.trailerInfo;
+  const trailerEntries = [
+    `/Root ${info.Root}`,
+    info.Info ? `/Info ${info.Info}` : '',
+    info.ID ? `/ID ${info.ID}` : '',
+    `/Prev ${previous.offset}`,
+  ].filter(Boolean).join(' ');
+  const sorted = [...objects].sort((a, b) => a.ref.objectNumber - b.ref.objectNumber);
+
+  if (!previous.usesStream) {
+    let table = 'xref\n';
+    let index = 0;
+    for (const [first, count] of subsections(sorted.map(object => object.ref.objectNumber))) {
+      table += `${first} ${count}\n`;
+      for (let i = 0; i < count; i++, index++) {
+        const { ref } = sorted[index];
+        table += `${String(offsets.get(ref.objectNumber)).padStart(10, '0')} ${String(ref.generationNumber).padStart(5, '0')} n\r\n`;
+      }
+    }
+    return latin1(`${table}trailer\n<< /Size ${context.largestObjectNumber + 1} ${trailerEntries} >>\nstartxref\n${start}\n%%EOF\n`);
+  }
+
+  // The stream lists itself as well
+  const streamNumber = context.largestObjectNumber + 1;
+  offsets.set(streamNumber, start);
+  const entries = [...sorted.map(object => ({ number: object.ref.objectNumber, generation: object.ref.generationNumber })), { number: streamNumber, generation: 0 }];
+  const data = new Uint8Array(entries.length * 7);
+  entries.forEach(({ number, generation }, i) => {
+    const offset = offsets.get(number)!;
+    data.set([1, (offset >>> 24) & 0xff, (offset >>> 16) & 0xff, (offset >>> 8) & 0xff, offset & 0xff, (generation >> 8) & 0xff, generation & 0xff], i * 7);
+  });
+  const index = subsections(entries.map(entry => entry.number)).flat().join(' ');
+  const dict = `<< /Type /XRef /Size ${streamNumber + 1} /Index [${index}] /W [1 4 2] ${trailerEntries} /Length ${data.length} >>`;
+  return concatBytes(
+    latin1(`${streamNumber} 0 obj\n${dict}\nstream\n`), data, latin1('\nendstream\nendobj\n'),
+    latin1(`startxref\n${start}\n%%EOF\n`),
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Signature field
+// ---------------------------------------------------------------------------
+
+function fieldNames(fields: PDFArray): Set<string> {
+  const names = new Set<string>();
+  for (let i = 0; i < fields.size(); i++) {
+    const field = fields.lookup(i);
+    const name = field instanceof PDFDict ? field.lookup(PDFName.of('T')) : undefined;
+    if (name instanceof PDFString || name instanceof PDFHexString) names.add(name.decodeText());
+  }
+  return names;
+}
+
+// Form XObject with the stamp drawn into the widget rectangle
+async function appearanceStream(pdfDoc: PDFDocument, appearance: SignatureAppearance): Promise<PDFRef | undefined> {
+  const { context } = pdfDoc;
+  const { width, height } = appearance.rect;
+  const resources = context.obj({ ExtGState: { GS0: { ca: appearance.opacity, CA: appearance.opacity } } }) as PDFDict;
+  let operators = '';
+  if (appearance.image) {
+    const image = appearance.image.type === 'png' ? await pdfDoc.embedPng(appearance.image.bytes) : await pdfDoc.embedJpg(appearance.image.bytes);
+    await image.embed();
+    resources.set(PDFName.of('XObject'), context.obj({ Im0: image.ref }));
+    operators = `q /GS0 gs ${num(width)} 0 0 ${num(height)} 0 0 cm /Im0 Do Q`;
+  } else if (appearance.text?.trim()) {
+    const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+    await font.embed();
+    resources.set(PDFName.of('Font'), context.obj({ F0: font.ref }));
+    const size = appearance.fontSize ?? 12;
+    const textWidth = font.widthOfTextAtSize(appearance.text, size);
+    const x = Math.max(0, (width - textWidth) / 2);
+    const y = height / 2 - size / 3;
+    // Typed signatures are underlined, as on the page stamp
+    operators = `q /GS0 gs BT /F0 ${size} Tf ${num(x)} ${num(y)} Td ${font.encodeText(appearance.text)} Tj ET ` +
+      `1 w ${num(x)} ${num(y - 5)} m ${num(x + textWidth)} ${num(y - 5)} l S Q`;
+  } else {
+    return undefined;
+  }
+  const stream = context.stream(operators, {
+    Type: 'XObject',
+    Subtype: 'Form',
+    BBox: [0, 0, width, height],
+    Resources: resources,
+  });
+  return context.register(stream);
+}
+
+// Room for the CMS: certificates plus signature, attributes and structure
+const contentsLength = (identity: SigningIdentity) =>
+  identity.certificate.raw.length + identity.chain.reduce((sum, issuer) => sum + issuer.raw.length, 0) + 4096;
+
+/**
+ * Sign a PDF. The result is the original file followed by an incremental
+ * update with the signature field, its widget and the signature value.
+ */
+export async function signPdf(source: Uint8Array, identity: SigningIdentity, options: SignOptions = {}): Promise<Uint8Array> {
+  let pdfDoc: PDFDocument;
+  try {
+    pdfDoc = await PDFDocument.load(source, { updateMetadata: false });
+  } catch (error) {
+    if (error instanceof Error && error.name === 'EncryptedPDFError') throw new PDFSignatureError('Encrypted PDFs cannot be signed; remove the password first');
+    throw new PDFSignatureError(error instanceof Error ? error.message : String(error));
+  }
+  const { context } = pdfDoc;
+  const previous = previousSection(source);
+  context.largestObjectNumber = Math.max(context.largestObjectNumber, previous.size - 1);
+  const firstNewObject = context.largestObjectNumber + 1;
+  const dirty = new Set<PDFRef>();
+  const signingTime = options.signingTime ?? new Date();
+
+  const appearance = options.appearance;
+  const pages = pdfDoc.getPages();
+  const page = pages[Math.min(appearance?.pageIndex ?? 0, pages.length - 1)];
+  if (!page) throw new PDFSignatureError('The PDF has no pages');
+
+  // Field tree: extend an indirect AcroForm or Fields array in place, else
+  // give the catalog a new or updated inline form
+  const catalogRef = context.trailerInfo.Root as PDFRef;
+  let acroFormHolder: PDFRef = catalogRef;
+  let acroForm = pdfDoc.catalog.get(PDFName.of('AcroForm'));
+  if (acroForm instanceof PDFRef) {
+    acroFormHolder = acroForm;
+    acroForm = context.lookup(acroForm);
+  }
+  if (!(acroForm instanceof PDFDict)) {
+    acroForm = context.obj({ Fields: [] });
+    pdfDoc.catalog.set(PDFName.of('AcroForm'), acroForm);
+  }
+  const form = acroForm as PDFDict;
+  let fieldsHolder = acroFormHolder;
+  let fields = form.get(PDFName.of('Fields'));
+  if (fields instanceof PDFRef) {
+    fieldsHolder = fields;
+    fields = context.lookup(fields);
+  }
+  if (!(fields instanceof PDFArray)) {
+    fields = context.obj([]);
+    form.set(PDFName.of('Fields'), fields);
+  }
+  const fieldArray = fields as PDFArray;
+  const taken = fieldNames(fieldArray);
+  let fieldName = 'Signature1';
+  for (let n = 2; taken.has(fieldName); n++) fieldName = `Signature${n}`;
+
+  // The signature dictionary is written by hand so its placeholders can be filled in
+  const signatureRef = context.nextRef();
+  const widget = context.obj({
+    Type: 'Annot',
+    Subtype: 'Widget',
+    FT: 'Sig',
+    T: textString(fieldName),
+    V: signatureRef,
+    F: 4,
+    P: page.ref,
+    Rect: appearance ? [appearance.rect.x, appearance.rect.y, appearance.rect.x + appearance.rect.width, appearance.rect.y + appearance.rect.height] : [0, 0, 0, 0],
+  }) as PDFDict;
+  const stream = appearance && await appearanceStream(pdfDoc, appearance);
+  if (stream) widget.set(PDFName.of('AP'), context.obj({ N: stream }));
+  const widgetRef = context.register(widget);
+
+  fieldArray.push(widgetRef);
+  dirty.add(fieldsHolder);
+  // SignaturesExist | AppendOnly
+  form.set(PDFName.of('SigFlags'), context.obj(3));
+  dirty.add(acroFormHolder);
+
+  const annots = page.node.get(PDFName.of('Annots'));
+  const annotArray = annots instanceof PDFRef ? context.lookup(annots) : annots;
+  if (annotArray instanceof PDFArray) {
+    annotArray.push(widgetRef);
+    dirty.add(annots instanceof PDFRef ? annots : page.ref);
+  } else {
+    page.node.set(PDFName.of('Annots'), context.obj([widgetRef]));
+    dirty.add(page.ref);
+  }
+
+  const placeholder = contentsLength(identity) * 2;
+  const byteRangePlaceholder = '[0 0000000000 0000000000 0000000000]';
+  const optional = (key: string, value?: string) => (value?.trim() ? ` /${key} ${textString(value.trim())}` : '');
+  const signatureDict = latin1(
+    `<< /Type /Sig /Filter /Adobe.PPKLite /SubFilter /ETSI.CAdES.detached /ByteRange ${byteRangePlaceholder} ` +
+    `/Contents <${'0'.repeat(placeholder)}> /M ${PDFString.fromDate(signingTime)}` +
+    `${optional('Name', displayName(identity.certificate.subject))}${optional('Reason', options.reason)}` +
+    `${optional('Location', options.location)}${optional('ContactInfo', options.contactInfo)} >>`,
+  );
+
+  const objects: UpdateObject[] = [];
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    if (ref.objectNumber >= firstNewObject || dirty.has(ref)) objects.push({ ref, bytes: serialize(ref, object) });
+  }
+  objects.push({ ref: signatureRef, bytes: serialize(signatureRef, signatureDict) });
+
+  // Layout of the update
+  const separator = source[source.length - 1] === 0x0a || source[source.length - 1] === 0x0d ? new Uint8Array(0) : latin1('\n');
+  const offsets = new Map<number, number>();
+  let position = source.length + separator.length;
+  for (const object of objects) {
+    offsets.set(object.ref.objectNumber, position);
+    position += object.bytes.length;
+  }
+  const output = concatBytes(source, separator, ...objects.map(object => object.bytes), crossReference(pdfDoc, previous, objects, offsets, position));
+
+  // Fill in the byte range around the /Contents hex string, then sign it
+  const signatureOffset = offsets.get(signatureRef.objectNumber)!;
+  const signatureText = new TextDecoder('latin1').decode(output.subarray(signatureOffset, signatureOffset + objects[objects.length - 1].bytes.length));
+  const contentsStart = signatureOffset + signatureText.indexOf('/Contents <') + '/Contents '.length;
+  const contentsEnd = contentsStart + placeholder + 2;
+  const byteRange = `[0 ${contentsStart} ${contentsEnd} ${output.length - contentsEnd}]`.padEnd(byteRangePlaceholder.length, ' ');
+  output.set(latin1(byteRange), signatureOffset + signatureText.indexOf(byteRangePlaceholder));
+
+  const digest = await sha('SHA-256', concatBytes(output.subarray(0, contentsStart), output.subarray(contentsEnd)));
+  const cms = toHex(await createCmsSignature(digest, identity)).toUpperCase();
+  if (cms.length > placeholder) throw new PDFSignatureError('The signature does not fit the space reserved for it');
+  output.set(latin1(cms), contentsStart + 1);
+  return output;
+}
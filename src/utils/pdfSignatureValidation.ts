@@ -0,0 +1,627 @@
+// Validating PDF signatures
+// Lists the signature fields of a document and checks every signed one: the
+// digest of its ByteRange, the CMS signature against the certificates
+// embedded with it, the certificate chain, and what the incremental updates
+// saved after it changed. Whether the root certificate is trusted is not
+// decided here; the browser offers no trust list to check it against.
+
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFObject,
+  PDFPage,
+  PDFRawStream,
+  PDFRef,
+  PDFString,
+} from 'pdf-lib';
+import { Asn1Node, child, isContext, isUniversal, octets, parseAsn1, readOid, readTime, TAG } from './asn1';
+import { bytesEqual, concatBytes, sha, ShaAlgorithm } from './crypto';
+import { CMS_OID } from './pdfSignature';
+import { Certificate, DIGEST_ALGORITHMS, displayName, isSelfSigned, parseCertificate, verifySignature } from './x509';
+
+export type CheckStatus = 'valid' | 'invalid' | 'unknown';
+
+// What an incremental update saved after a signature did
+export type ChangeKind = 'signature' | 'form' | 'annotation' | 'content';
+
+export interface ChainCertificate {
+  subject: string;
+  issuer: string;
+  notBefore: Date;
+  notAfter: Date;
+  selfSigned: boolean;
+}
+
+export interface SignatureValidation {
+  fieldName: string;
+  pageNumber?: number;
+  signed: boolean;
+  status: 'valid' | 'warning' | 'invalid' | 'unsigned';
+  subFilter?: string;
+  signerName?: string;
+  signer?: string;
+  signingTime?: Date;
+  timeSource?: 'timestamp' | 'signed attribute' | 'signature dictionary';
+  reason?: string;
+  location?: string;
+  contactInfo?: string;
+  byteRange?: number[];
+  digestAlgorithm?: ShaAlgorithm;
+  // The signed bytes still hash to the value that was signed
+  integrity: CheckStatus;
+  // The signature over that value checks out with the signer's key
+  signature: CheckStatus;
+  chain: { status: 'complete' | 'incomplete' | 'invalid' | 'unknown'; certificates: ChainCertificate[] };
+  timestamp?: { time: Date; status: CheckStatus };
+  // 1-based revision the signature covers
+  revision?: number;
+  coversWholeDocument: boolean;
+  changes: ChangeKind[];
+  messages: string[];
+}
+
+export interface ValidationReport {
+  fileName: string;
+  fileSize: number;
+  revisions: number;
+  validatedAt: Date;
+  signatures: SignatureValidation[];
+}
+
+export class PDFSignatureValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PDFSignatureValidationError';
+  }
+}
+
+const TIMESTAMP_TOKEN = '1.2.840.113549.1.9.16.2.14';
+
+const decodeLatin1 = (bytes: Uint8Array) => new TextDecoder('latin1').decode(bytes);
+
+function text(object: PDFObject | undefined): string | undefined {
+  return object instanceof PDFString || object instanceof PDFHexString ? object.decodeText() : undefined;
+}
+
+function date(object: PDFObject | undefined): Date | undefined {
+  try {
+    return object instanceof PDFString || object instanceof PDFHexString ? object.decodeDate() : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+const name = (object: PDFObject | undefined) => (object instanceof PDFName ? object.decodeText() : undefined);
+
+// ---------------------------------------------------------------------------
+// CMS
+// ---------------------------------------------------------------------------
+
+interface CmsVerification {
+  signer?: Certificate;
+  certificates: Certificate[];
+  digestAlgorithm?: ShaAlgorithm;
+  // Encapsulated content, present in timestamp tokens and adbe.pkcs7.sha1
+  content?: Uint8Array;
+  integrity: CheckStatus;
+  signature: CheckStatus;
+  signingTime?: Date;
+  signatureValue?: Uint8Array;
+  unsignedAttributes: Asn1Node[];
+  messages: string[];
+}
+
+const attributeOid = (attribute: Asn1Node) => readOid(child(attribute, 0, 'attribute type'));
+const attributeValue = (attribute: Asn1Node) => child(child(attribute, 1, 'attribute values'), 0, 'attribute value');
+
+/**
+ * Check a CMS SignedData. The signed content is `detached` or, when absent,
+ * the encapsulated content.
+ */
+async function verifyCms(cms: Uint8Array, detached?: Uint8Array): Promise<CmsVerification> {
+  const result: CmsVerification = { certificates: [], integrity: 'unknown', signature: 'unknown', unsignedAttributes: [], messages: [] };
+  const contentInfo = parseAsn1(cms);
+  if (readOid(child(contentInfo, 0, 'content type')) !== CMS_OID.signedData) throw new PDFSignatureValidationError('The signature is not a CMS SignedData');
+  const signedData = child(child(contentInfo, 1, 'signed data'), 0, 'signed data');
+  const encapsulated = child(signedData, 2, 'encapsulated content');
+  const eContent = encapsulated.children.find(part => isContext(part, 0));
+  if (eContent) result.content = octets(child(eContent, 0, 'content'));
+
+  const certificateSet = signedData.children.find(part => isContext(part, 0));
+  for (const node of certificateSet?.children ?? []) {
+    // Other certificate formats (attribute certificates) are tagged and skipped
+    if (!isUniversal(node, TAG.SEQUENCE)) continue;
+    try {
+      result.certificates.push(parseCertificate(node.raw));
+    } catch {
+      result.messages.push('An embedded certificate could not be read');
+    }
+  }
+
+  const signerInfo = signedData.children[signedData.children.length - 1].children[0];
+  if (!signerInfo) throw new PDFSignatureValidationError('The signature has no signer information');
+  const sid = child(signerInfo, 1, 'signer identifier');
+  result.signer = isContext(sid, 0)
+    ? result.certificates.find(certificate => certificate.subjectKeyId && bytesEqual(certificate.subjectKeyId, sid.value))
+    : result.certificates.find(certificate =>
+      bytesEqual(certificate.issuer.raw, child(sid, 0).raw) && bytesEqual(certificate.serialNumber, child(sid, 1).value));
+  const digestOid = readOid(child(child(signerInfo, 2, 'digest algorithm'), 0));
+  result.digestAlgorithm = DIGEST_ALGORITHMS[digestOid];
+
+  let index = 3;
+  const signedAttributes = isContext(signerInfo.children[index], 0) ? signerInfo.children[index++] : undefined;
+  const signatureAlgorithm = child(signerInfo, index++, 'signature algorithm');
+  result.signatureValue = child(signerInfo, index++, 'signature value').value;
+  const unsigned = signerInfo.children[index];
+  if (isContext(unsigned, 1)) result.unsignedAttributes = unsigned.children;
+
+  if (!result.digestAlgorithm) {
+    result.messages.push(`Unsupported digest algorithm ${digestOid}`);
+    return result;
+  }
+  const content = detached ?? result.content;
+  if (!content) throw new PDFSignatureValidationError('The signature has no content to check');
+  const contentDigest = await sha(result.digestAlgorithm, content);
+
+  // With signed attributes the signature covers them (re-tagged as a SET),
+  // and they in turn carry the content digest
+  let signedBytes = content;
+  if (signedAttributes) {
+    signedBytes = concatBytes(Uint8Array.of(0x31), signedAttributes.raw.subarray(1));
+    const attributes = signedAttributes.children;
+    const messageDigest = attributes.find(attribute => attributeOid(attribute) === CMS_OID.messageDigest);
+    result.integrity = messageDigest && bytesEqual(octets(attributeValue(messageDigest)), contentDigest) ? 'valid' : 'invalid';
+    const signingTime = attributes.find(attribute => attributeOid(attribute) === CMS_OID.signingTime);
+    if (signingTime) result.signingTime = readTime(attributeValue(signingTime));
+  }
+  if (!result.signer) {
+    result.messages.push('The signer certificate is not embedded in the signature');
+    return result;
+  }
+  try {
+    const verified = await verifySignature(result.signer, readOid(child(signatureAlgorithm, 0)), signatureAlgorithm.children[1],
+      signedBytes, result.signatureValue, result.digestAlgorithm);
+    result.signature = verified ? 'valid' : 'invalid';
+  } catch (error) {
+    result.messages.push(error instanceof Error ? error.message : String(error));
+  }
+  // Without signed attributes the signature itself is the only integrity check
+  if (!signedAttributes) result.integrity = result.signature;
+  return result;
+}
+
+// RFC 3161 timestamp on the signature value, from the unsigned attributes
+async function verifyTimestamp(token: Asn1Node, signatureValue: Uint8Array): Promise<{ time: Date; status: CheckStatus } | undefined> {
+  const verification = await verifyCms(token.raw);
+  if (!verification.content) return undefined;
+  const tstInfo = parseAsn1(verification.content);
+  const imprint = child(tstInfo, 2, 'message imprint');
+  const hash = DIGEST_ALGORITHMS[readOid(child(child(imprint, 0), 0))];
+  const time = readTime(child(tstInfo, 4, 'generation time'));
+  if (!hash) return { time, status: 'unknown' };
+  const matches = bytesEqual(octets(child(imprint, 1)), await sha(hash, signatureValue));
+  const status: CheckStatus = !matches || verification.integrity === 'invalid' || verification.signature === 'invalid'
+    ? 'invalid'
+    : verification.signature === 'valid' ? 'valid' : 'unknown';
+  return { time, status };
+}
+
+// ---------------------------------------------------------------------------
+// Certificate chain
+// ---------------------------------------------------------------------------
+
+async function buildChain(signer: Certificate, certificates: Certificate[]): Promise<{ status: SignatureValidation['chain']['status']; chain: Certificate[] }> {
+  const chain = [signer];
+  for (;;) {
+    const current = chain[chain.length - 1];
+    const issuer = isSelfSigned(current)
+      ? current
+      : certificates.find(candidate => !chain.includes(candidate) && bytesEqual(candidate.subject.raw, current.issuer.raw));
+    if (!issuer) return { status: 'incomplete', chain };
+    try {
+      if (!await verifySignature(issuer, current.signatureAlgorithm, current.signatureParameters, current.tbs, current.signature)) {
+        return { status: 'invalid', chain };
+      }
+    } catch {
+      return { status: 'unknown', chain };
+    }
+    if (issuer === current) return { status: 'complete', chain };
+    chain.push(issuer);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Revisions
+// ---------------------------------------------------------------------------
+
+/**
+ * End offsets of the revisions of a file: each %%EOF after a startxref,
+ * except the first-page section of linearized files, whose trailer points
+ * forward to the main cross-reference section.
+ */
+export function revisionEnds(bytes: Uint8Array): number[] {
+  const source = decodeLatin1(bytes);
+  const ends: number[] = [];
+  for (const match of source.matchAll(/startxref\s+(\d+)\s+%%EOF(\r\n|\r|\n)?/g)) {
+    const end = match.index! + match[0].length;
+    const offset = Number(match[1]);
+    const section = offset < match.index! ? source.slice(offset, match.index!) : '';
+    const trailer = section.startsWith('xref') ? section.slice(section.lastIndexOf('trailer')) : section.slice(0, section.indexOf('stream'));
+    const prev = /\/Prev\s+(\d+)/.exec(trailer);
+    if (prev && Number(prev[1]) > end) continue;
+    ends.push(end);
+  }
+  return ends;
+}
+
+function serialize(object: PDFObject): Uint8Array {
+  const bytes = new Uint8Array(object.sizeInBytes());
+  object.copyBytesInto(bytes, 0);
+  return bytes;
+}
+
+// Dictionary without the given keys, to compare the remaining entries
+function without(dict: PDFDict, keys: string[]): Uint8Array {
+  const copy = dict.clone();
+  keys.forEach(key => copy.delete(PDFName.of(key)));
+  return serialize(copy);
+}
+
+/**
+ * What the revisions after a signature changed, found by comparing every
+ * object of the signed revision with its final version. New objects only
+ * count for what they are (new signatures, fields, annotations); a new page
+ * or new page content shows up as a change to an existing object.
+ */
+function changesSince(signed: PDFDocument, final: PDFDocument): ChangeKind[] {
+  const changes = new Set<ChangeKind>();
+  const before = new Map<number, PDFObject>();
+  for (const [ref, object] of signed.context.enumerateIndirectObjects()) before.set(ref.objectNumber, object);
+
+  // Arrays that only list annotations or form fields
+  const listRefs = new Set<PDFRef>();
+  let annotationLists: (PDFObject | undefined)[] = [];
+  try {
+    annotationLists = final.getPages().map(page => page.node.get(PDFName.of('Annots')));
+  } catch {
+    // The final page tree is damaged: something changed what was signed
+    changes.add('content');
+  }
+  let fields: PDFObject | undefined;
+  try {
+    const acroForm = final.catalog.lookup(PDFName.of('AcroForm'));
+    fields = acroForm instanceof PDFDict ? acroForm.get(PDFName.of('Fields')) : undefined;
+  } catch {
+    changes.add('content');
+  }
+  for (const list of [...annotationLists, fields]) if (list instanceof PDFRef) listRefs.add(list);
+
+  for (const [ref, object] of final.context.enumerateIndirectObjects()) {
+    const previous = before.get(ref.objectNumber);
+    if (previous && bytesEqual(serialize(previous), serialize(object))) continue;
+    if (object instanceof PDFRawStream) {
+      // XMP metadata may be updated along with a signature
+      if (previous && name(object.dict.lookup(PDFName.of('Type'))) !== 'Metadata') changes.add('content');
+      continue;
+    }
+    if (!(object instanceof PDFDict)) {
+      if (previous && !(object instanceof PDFArray && listRefs.has(ref))) changes.add('content');
+      continue;
+    }
+    const type = name(object.lookup(PDFName.of('Type')));
+    const subtype = name(object.lookup(PDFName.of('Subtype')));
+    const fieldType = name(object.lookup(PDFName.of('FT')));
+
+    if (!previous) {
+      if (fieldType === 'Sig' || type === 'Sig' || type === 'DocTimeStamp') changes.add('signature');
+      else if (fieldType || subtype === 'Widget') changes.add('form');
+      else if (type === 'Annot' || (subtype && type !== 'XObject' && type !== 'Font' && object.has(PDFName.of('Rect')))) changes.add('annotation');
+      continue;
+    }
+
+    const wasDict = previous instanceof PDFDict;
+    if (type === 'Catalog' && wasDict) {
+      if (!bytesEqual(without(object, ['AcroForm', 'DSS', 'Perms', 'Metadata']), without(previous, ['AcroForm', 'DSS', 'Perms', 'Metadata']))) changes.add('content');
+    } else if (type === 'Page' && wasDict) {
+      if (!bytesEqual(without(object, ['Annots']), without(previous, ['Annots']))) changes.add('content');
+    } else if (object.has(PDFName.of('Fields'))) {
+      // The AcroForm dictionary; its new fields are classified on their own
+    } else if (fieldType || subtype === 'Widget' || object.has(PDFName.of('Parent'))) {
+      // Signing an empty signature field sets its value
+      const signsEmptyField = fieldType === 'Sig' && wasDict && !previous.has(PDFName.of('V'));
+      changes.add(signsEmptyField ? 'signature' : 'form');
+    } else if (type === 'Annot' || (subtype && object.has(PDFName.of('Rect')))) {
+      changes.add('annotation');
+    } else if (!object.has(PDFName.of('Producer')) && !object.has(PDFName.of('ModDate'))) {
+      // Anything else but the document information dictionary, signature
+      // values included, changes what was signed
+      changes.add('content');
+    }
+  }
+  return [...changes];
+}
+
+// ---------------------------------------------------------------------------
+// Signature fields
+// ---------------------------------------------------------------------------
+
+interface SignatureField {
+  name: string;
+  value: PDFObject | undefined;
+  widgetRefs: PDFRef[];
+}
+
+function signatureFields(pdfDoc: PDFDocument): SignatureField[] {
+  const found: SignatureField[] = [];
+  const acroForm = pdfDoc.catalog.lookup(PDFName.of('AcroForm'));
+  const fields = acroForm instanceof PDFDict ? acroForm.lookup(PDFName.of('Fields')) : undefined;
+  const visited = new Set<PDFDict>();
+  const walk = (list: PDFArray, parentName: string, inheritedType?: string) => {
+    for (let i = 0; i < list.size(); i++) {
+      const entry = list.get(i);
+      const field = list.lookup(i);
+      if (!(field instanceof PDFDict) || visited.has(field)) continue;
+      visited.add(field);
+      const partial = text(field.lookup(PDFName.of('T')));
+      const fullName = partial === undefined ? parentName : parentName ? `${parentName}.${partial}` : partial;
+      const fieldType = name(field.lookup(PDFName.of('FT'))) ?? inheritedType;
+      const kids = field.lookup(PDFName.of('Kids'));
+      // Kids with names of their own are fields, the others are widgets
+      const childFields = kids instanceof PDFArray
+        ? Array.from({ length: kids.size() }, (_, k) => kids.lookup(k)).some(kid => kid instanceof PDFDict && kid.has(PDFName.of('T')))
+        : false;
+      if (kids instanceof PDFArray && childFields) {
+        walk(kids, fullName, fieldType);
+      } else if (fieldType === 'Sig') {
+        const widgetRefs = kids instanceof PDFArray
+          ? Array.from({ length: kids.size() }, (_, k) => kids.get(k)).filter((kid): kid is PDFRef => kid instanceof PDFRef)
+          : entry instanceof PDFRef ? [entry] : [];
+        found.push({ name: fullName || `Signature${found.length + 1}`, value: field.lookup(PDFName.of('V')), widgetRefs });
+      }
+    }
+  };
+  if (fields instanceof PDFArray) walk(fields, '');
+  return found;
+}
+
+// When the catalog or form cannot be read, the signature dictionaries are
+// still found by their ByteRange and Contents entries
+function orphanSignatures(pdfDoc: PDFDocument): SignatureField[] {
+  const found: SignatureField[] = [];
+  for (const [, object] of pdfDoc.context.enumerateIndirectObjects()) {
+    if (!(object instanceof PDFDict)) continue;
+    if (!(object.lookup(PDFName.of('ByteRange')) instanceof PDFArray) || !object.has(PDFName.of('Contents'))) continue;
+    found.push({ name: `Signature${found.length + 1}`, value: object, widgetRefs: [] });
+  }
+  return found;
+}
+
+// A damaged page tree (as in a tampered file) leaves the page unknown rather
+// than failing the whole report
+function pageOfWidget(pdfDoc: PDFDocument, widgetRefs: PDFRef[]): number | undefined {
+  let pages: PDFPage[];
+  try {
+    pages = pdfDoc.getPages();
+  } catch {
+    return undefined;
+  }
+  for (const [index, page] of pages.entries()) {
+    const annots = page.node.lookup(PDFName.of('Annots'));
+    if (!(annots instanceof PDFArray)) continue;
+    for (let i = 0; i < annots.size(); i++) if (widgetRefs.includes(annots.get(i) as PDFRef)) return index + 1;
+  }
+  return undefined;
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+function overallStatus(result: SignatureValidation): SignatureValidation['status'] {
+  if (!result.signed) return 'unsigned';
+  if (result.integrity === 'invalid' || result.signature === 'invalid' || result.chain.status === 'invalid' || result.changes.includes('content')) return 'invalid';
+  if (result.integrity !== 'valid' || result.signature !== 'valid' || result.chain.status !== 'complete' ||
+    result.changes.some(change => change === 'form' || change === 'annotation') || result.timestamp?.status === 'invalid' || result.messages.length > 0) return 'warning';
+  return 'valid';
+}
+
+async function validateSignature(bytes: Uint8Array, dict: PDFDict, result: SignatureValidation, ends: number[], final: PDFDocument, revisions: Map<number, PDFDocument>) {
+  result.subFilter = name(dict.lookup(PDFName.of('SubFilter')));
+  result.reason = text(dict.lookup(PDFName.of('Reason')));
+  result.location = text(dict.lookup(PDFName.of('Location')));
+  result.contactInfo = text(dict.lookup(PDFName.of('ContactInfo')));
+  const claimedTime = date(dict.lookup(PDFName.of('M')));
+
+  const range = dict.lookup(PDFName.of('ByteRange'));
+  const byteRange = range instanceof PDFArray ? range.asArray().map(value => (value instanceof PDFNumber ? value.asNumber() : NaN)) : [];
+  result.byteRange = byteRange;
+  const [start, firstLength, secondStart, secondLength] = byteRange;
+  const end = secondStart + secondLength;
+  const gap = byteRange.length === 4 && byteRange.every(Number.isInteger) ? decodeLatin1(bytes.subarray(start + firstLength, secondStart)) : '';
+  // The unsigned gap must hold exactly the hex string of /Contents
+  if (start !== 0 || end > bytes.length || !/^<[0-9A-Fa-f\s]*>$/.test(gap)) {
+    result.integrity = 'invalid';
+    result.messages.push('The byte range does not cover the document apart from the signature value');
+    return;
+  }
+  const signedBytes = concatBytes(bytes.subarray(0, firstLength), bytes.subarray(secondStart, end));
+  const hex = gap.slice(1, -1).replace(/\s/g, '');
+  const cms = Uint8Array.from({ length: hex.length >> 1 }, (_, i) => parseInt(hex.substr(i * 2, 2), 16));
+
+  if (result.subFilter === 'adbe.x509.rsa_sha1' || result.subFilter === 'ETSI.RFC3161') {
+    result.messages.push(`Signatures of type ${result.subFilter} are not supported`);
+  } else {
+    // adbe.pkcs7.sha1 signs a SHA-1 digest of the byte range as encapsulated content
+    const sha1Digest = result.subFilter === 'adbe.pkcs7.sha1';
+    const cmsResult = await verifyCms(cms, sha1Digest ? undefined : signedBytes);
+    result.messages.push(...cmsResult.messages);
+    result.digestAlgorithm = cmsResult.digestAlgorithm;
+    result.integrity = cmsResult.integrity;
+    result.signature = cmsResult.signature;
+    if (sha1Digest && cmsResult.content && !bytesEqual(cmsResult.content, await sha('SHA-1', signedBytes))) result.integrity = 'invalid';
+
+    if (cmsResult.signer) {
+      result.signerName = displayName(cmsResult.signer.subject);
+      result.signer = cmsResult.signer.subject.text;
+      const { status, chain } = await buildChain(cmsResult.signer, cmsResult.certificates);
+      result.chain = {
+        status,
+        certificates: chain.map(certificate => ({
+          subject: certificate.subject.text,
+          issuer: certificate.issuer.text,
+          notBefore: certificate.notBefore,
+          notAfter: certificate.notAfter,
+          selfSigned: isSelfSigned(certificate),
+        })),
+      };
+      if (status === 'incomplete') result.messages.push('The issuer of a certificate in the chain is not embedded');
+    }
+
+    const token = cmsResult.unsignedAttributes.find(attribute => attributeOid(attribute) === TIMESTAMP_TOKEN);
+    if (token && cmsResult.signatureValue) {
+      try {
+        result.timestamp = await verifyTimestamp(attributeValue(token), cmsResult.signatureValue);
+      } catch {
+        result.timestamp = undefined;
+        result.messages.push('The signature timestamp could not be read');
+      }
+    }
+    if (result.timestamp) {
+      result.signingTime = result.timestamp.time;
+      result.timeSource = 'timestamp';
+    } else if (cmsResult.signingTime) {
+      result.signingTime = cmsResult.signingTime;
+      result.timeSource = 'signed attribute';
+    }
+  }
+  if (!result.signingTime && claimedTime) {
+    result.signingTime = claimedTime;
+    result.timeSource = 'signature dictionary';
+  }
+  const when = result.signingTime ?? new Date();
+  for (const certificate of result.chain.certificates) {
+    if (when < certificate.notBefore || when > certificate.notAfter) {
+      result.messages.push(`Certificate "${certificate.subject}" was not valid at the time of signing`);
+    }
+  }
+
+  // Revision and later changes
+  const revisionIndex = ends.findIndex(revisionEnd => revisionEnd >= end && decodeLatin1(bytes.subarray(end, revisionEnd)).trim() === '');
+  result.revision = revisionIndex >= 0 ? revisionIndex + 1 : undefined;
+  result.coversWholeDocument = decodeLatin1(bytes.subarray(end)).trim() === '';
+  if (!result.coversWholeDocument) {
+    let signedRevision = revisions.get(end);
+    if (!signedRevision) {
+      signedRevision = await PDFDocument.load(bytes.subarray(0, end), { ignoreEncryption: true, updateMetadata: false });
+      revisions.set(end, signedRevision);
+    }
+    result.changes = changesSince(signedRevision, final);
+    if (result.changes.includes('content')) result.messages.push('The document content was changed after signing');
+  }
+}
+
+/** Validate every signature field of a PDF. */
+export async function validatePdfSignatures(bytes: Uint8Array, fileName: string): Promise<ValidationReport> {
+  let pdfDoc: PDFDocument;
+  try {
+    pdfDoc = await PDFDocument.load(bytes, { ignoreEncryption: true, updateMetadata: false });
+  } catch (error) {
+    throw new PDFSignatureValidationError(error instanceof Error ? error.message : String(error));
+  }
+  const ends = revisionEnds(bytes);
+  const revisions = new Map<number, PDFDocument>();
+  const signatures: SignatureValidation[] = [];
+
+  let fields: SignatureField[];
+  let formDamaged = false;
+  try {
+    fields = signatureFields(pdfDoc);
+  } catch {
+    fields = orphanSignatures(pdfDoc);
+    formDamaged = true;
+  }
+
+  for (const field of fields) {
+    const value = field.value;
+    const result: SignatureValidation = {
+      fieldName: field.name,
+      pageNumber: pageOfWidget(pdfDoc, field.widgetRefs),
+      signed: value instanceof PDFDict,
+      status: 'unsigned',
+      integrity: 'unknown',
+      signature: 'unknown',
+      chain: { status: 'unknown', certificates: [] },
+      coversWholeDocument: false,
+      changes: [],
+      messages: formDamaged ? ['The form fields could not be read; the signature was found by its dictionary'] : [],
+    };
+    if (value instanceof PDFDict) {
+      try {
+        await validateSignature(bytes, value, result, ends, pdfDoc, revisions);
+      } catch (error) {
+        result.integrity = result.integrity === 'unknown' ? 'invalid' : result.integrity;
+        result.messages.push(`The signature could not be read: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    result.status = overallStatus(result);
+    signatures.push(result);
+  }
+
+  return { fileName, fileSize: bytes.length, revisions: Math.max(1, ends.length), validatedAt: new Date(), signatures };
+}
+
+// ---------------------------------------------------------------------------
+// Report export
+// ---------------------------------------------------------------------------
+
+const CHANGE_LABELS: Record<ChangeKind, string> = {
+  signature: 'signatures added',
+  form: 'form fields filled in or added',
+  annotation: 'annotations added or changed',
+  content: 'document content changed',
+};
+
+export const describeChanges = (result: SignatureValidation) =>
+  result.coversWholeDocument ? 'none' : result.changes.length === 0 ? 'later revisions without relevant changes' : result.changes.map(change => CHANGE_LABELS[change]).join(', ');
+
+/** Plain text report, one block per signature field. */
+export function reportToText(report: ValidationReport): string {
+  const lines = [
+    'PDF signature validation report',
+    `File: ${report.fileName} (${report.fileSize} bytes, ${report.revisions} revision${report.revisions === 1 ? '' : 's'})`,
+    `Validated: ${report.validatedAt.toISOString()}`,
+    'Trust in root certificates was not checked.',
+    '',
+  ];
+  if (report.signatures.length === 0) lines.push('The document has no signature fields.');
+  for (const result of report.signatures) {
+    lines.push(`Field: ${result.fieldName}${result.pageNumber ? ` (page ${result.pageNumber})` : ''}`);
+    lines.push(`  Status: ${result.status.toUpperCase()}`);
+    if (result.signed) {
+      lines.push(`  Signer: ${result.signer ?? 'unknown'}`);
+      if (result.signingTime) lines.push(`  Signing time: ${result.signingTime.toISOString()} (${result.timeSource})`);
+      if (result.reason) lines.push(`  Reason: ${result.reason}`);
+      if (result.location) lines.push(`  Location: ${result.location}`);
+      if (result.contactInfo) lines.push(`  Contact: ${result.contactInfo}`);
+      lines.push(`  Type: ${result.subFilter ?? 'unknown'}${result.digestAlgorithm ? `, ${result.digestAlgorithm}` : ''}`);
+      lines.push(`  Byte range: [${result.byteRange?.join(' ') ?? ''}]`);
+      lines.push(`  Document integrity: ${result.integrity}`);
+      lines.push(`  Signature: ${result.signature}`);
+      if (result.timestamp) lines.push(`  Timestamp: ${result.timestamp.time.toISOString()} (${result.timestamp.status})`);
+      lines.push(`  Certificate chain: ${result.chain.status}`);
+      result.chain.certificates.forEach((certificate, i) => lines.push(
+        `    ${i + 1}. ${certificate.subject}${certificate.selfSigned ? ' (self-signed)' : ''}, valid ${certificate.notBefore.toISOString()} to ${certificate.notAfter.toISOString()}`));
+      lines.push(`  Covers: revision ${result.revision ?? '?'} of ${report.revisions}${result.coversWholeDocument ? ' (the whole document)' : ''}`);
+      lines.push(`  Changes after signing: ${describeChanges(result)}`);
+    }
+    result.messages.forEach(message => lines.push(`  Note: ${message}`));
+    lines.push('');
+  }
+  return lines.join('\n');
+}
+
+export const reportToJson = (report: ValidationReport) => JSON.stringify(report, null, 2);
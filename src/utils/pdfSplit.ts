@@ -0,0 +1,431 @@
+// PDF split planning
+// Every split mode first produces a plan: the parts to write, each a list of
+// source page indices and a file name, plus separator pages that are left
+// out. Plans are cheap to show before anything is written; writeSplitParts
+// then copies the pages of each part into its own document.
+//
+// Separator detection renders pages with pdf.js: blank pages by the share of
+// dark pixels, barcodes with the browser's BarcodeDetector.
+
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { PDFArray, PDFDict, PDFDocument, PDFName, PDFObject, PDFObjectCopier, PDFPage, PDFPageLeaf, PDFPageTree, PDFRef, PDFStream } from 'pdf-lib';
+import { PixelBuffer } from './imageKernels';
+import { OutlineItem, readDocumentOutline } from './pdfOutline';
+import { removeUnreachableObjects } from './pdfContent';
+
+export interface SplitPart {
+  // File name without the .pdf extension
+  name: string;
+  pageIndices: number[];
+  // Bookmark title, or text or barcode value found on the separator page
+  label?: string;
+  // Size-based plans only
+  estimatedBytes?: number;
+}
+
+export interface SplitPlan {
+  parts: SplitPart[];
+  // Separator pages that belong to no part
+  removedPages: number[];
+}
+
+export class PDFSplitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PDFSplitError';
+  }
+}
+
+/** Characters that are not allowed in file names on common systems become underscores. */
+export function sanitizeFileName(name: string): string {
+  const cleaned = Array.from(name, char => (char < ' ' || '\\/:*?"<>|'.includes(char) ? '_' : char)).join('')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return cleaned.slice(0, 80) || 'untitled';
+}
+
+// Parts named `${baseName}_part1`, `_part2`... from page index lists
+function numberedParts(baseName: string, groups: number[][]): SplitPart[] {
+  return groups.map((pageIndices, i) => ({ name: `${baseName}_part${i + 1}`, pageIndices }));
+}
+
+const pageRange = (start: number, end: number) => Array.from({ length: end - start }, (_, i) => start + i);
+
+// ---------------------------------------------------------------------------
+// Page-number plans
+// ---------------------------------------------------------------------------
+
+export function planEveryPages(pageCount: number, pagesPerFile: number, baseName: string): SplitPlan {
+  const size = Math.max(1, Math.floor(pagesPerFile));
+  const groups: number[][] = [];
+  for (let start = 0; start < pageCount; start += size) groups.push(pageRange(start, Math.min(start + size, pageCount)));
+  return { parts: numberedParts(baseName, groups), removedPages: [] };
+}
+
+/** Split before each of the given 1-based page numbers. */
+export function planAtPages(pageCount: number, splitPages: number[], baseName: string): SplitPlan {
+  const cuts = [...new Set(splitPages.filter(page => page > 0 && page < pageCount))].sort((a, b) => a - b);
+  if (cuts.length === 0) return { parts: [{ name: baseName, pageIndices: pageRange(0, pageCount) }], removedPages: [] };
+  const bounds = [0, ...cuts, pageCount];
+  return { parts: numberedParts(baseName, bounds.slice(1).map((end, i) => pageRange(bounds[i], end))), removedPages: [] };
+}
+
+/** Ranges such as "1-3, 4-7, 8"; ranges outside the document are skipped. */
+export function planRanges(pageCount: number, spec: string, baseName: string): SplitPlan {
+  const parts: SplitPart[] = [];
+  spec.split(',').map(range => range.trim()).filter(Boolean).forEach((range, i) => {
+    const [start, end = start] = range.split('-').map(n => parseInt(n.trim(), 10));
+    if (!isNaN(start) && !isNaN(end) && start > 0 && end >= start && end <= pageCount) {
+      parts.push({ name: `${baseName}_part${i + 1}`, pageIndices: pageRange(start - 1, end) });
+    }
+  });
+  return { parts, removedPages: [] };
+}
+
+// ---------------------------------------------------------------------------
+// Bookmarks
+// ---------------------------------------------------------------------------
+
+/**
+ * Start a part at every outline entry down to `level` (1 = top level), named
+ * after the entry. Entries starting on the same page share one part; pages
+ * before the first entry form a part of their own.
+ */
+export function planByBookmarks(pdfDoc: PDFDocument, level: number, baseName: string): SplitPlan {
+  const pageCount = pdfDoc.getPageCount();
+  const starts = new Map<number, string[]>();
+  const collect = (items: OutlineItem[], depth: number) => {
+    for (const item of items) {
+      const titles = starts.get(item.pageIndex) ?? [];
+      if (item.title.trim() && !titles.includes(item.title.trim())) titles.push(item.title.trim());
+      starts.set(item.pageIndex, titles);
+      if (depth < level && item.children) collect(item.children, depth + 1);
+    }
+  };
+  collect(readDocumentOutline(pdfDoc), 1);
+  if (starts.size === 0) throw new PDFSplitError('The document has no bookmarks to split at.');
+
+  const firstPages = [...starts.keys()].filter(page => page >= 0 && page < pageCount).sort((a, b) => a - b);
+  if (firstPages[0] !== 0) firstPages.unshift(0);
+  const used = new Set<string>();
+  const parts = firstPages.map((start, i) => {
+    const titles = starts.get(start);
+    const label = titles && titles.length > 0 ? titles.join(' - ') : undefined;
+    const stem = `${baseName}_${sanitizeFileName(label ?? 'front matter')}`;
+    let name = stem;
+    for (let n = 2; used.has(name.toLowerCase()); n++) name = `${stem}_${n}`;
+    used.add(name.toLowerCase());
+    return { name, label, pageIndices: pageRange(start, firstPages[i + 1] ?? pageCount) };
+  });
+  return { parts, removedPages: [] };
+}
+
+// ---------------------------------------------------------------------------
+// File size
+// ---------------------------------------------------------------------------
+
+// Object and cross-reference overhead of a document with no pages
+const DOCUMENT_OVERHEAD = 1024;
+// Object header, footer and cross-reference entry
+const OBJECT_OVERHEAD = 40;
+
+// Serialized size of every object a page needs, by reference. Links to other
+// pages do not count: they are dropped when those pages are not in the part
+function pageObjectSizes(pdfDoc: PDFDocument, pageRef: PDFRef): Map<string, number> {
+  const { context } = pdfDoc;
+  const sizes = new Map<string, number>();
+  const visit = (object: PDFObject | undefined) => {
+    if (object instanceof PDFRef) {
+      if (sizes.has(object.tag)) return;
+      const target = context.lookup(object);
+      if (target instanceof PDFPageLeaf && object !== pageRef) return;
+      sizes.set(object.tag, (target?.sizeInBytes() ?? 0) + OBJECT_OVERHEAD);
+      visit(target);
+    } else if (object instanceof PDFDict) {
+      for (const [key, value] of object.entries()) if (key !== PDFName.of('Parent')) visit(value);
+    } else if (object instanceof PDFArray) {
+      for (let i = 0; i < object.size(); i++) visit(object.get(i));
+    } else if (object instanceof PDFStream) {
+      visit(object.dict);
+    }
+  };
+  visit(pageRef);
+  // Resources inherited from the page tree are copied into the page
+  const page = context.lookup(pageRef);
+  if (page instanceof PDFPageLeaf && !page.has(PDFName.of('Resources'))) visit(page.getInheritableAttribute(PDFName.of('Resources')));
+  return sizes;
+}
+
+/**
+ * Fill parts page by page until the next page would push the estimated file
+ * size over `maxBytes`. Fonts and images shared between pages count once per
+ * part. A single page larger than the limit gets a part of its own.
+ */
+export function planBySize(pdfDoc: PDFDocument, maxBytes: number, baseName: string): SplitPlan {
+  const groups: { pageIndices: number[]; bytes: number }[] = [];
+  let current: { pageIndices: number[]; bytes: number; objects: Set<string> } | null = null;
+  pdfDoc.getPages().forEach((page, index) => {
+    const sizes = pageObjectSizes(pdfDoc, page.ref);
+    let added = 0;
+    sizes.forEach((size, tag) => {
+      if (!current?.objects.has(tag)) added += size;
+    });
+    if (current && current.bytes + added > maxBytes) {
+      groups.push(current);
+      current = null;
+    }
+    if (!current) {
+      current = { pageIndices: [], bytes: DOCUMENT_OVERHEAD, objects: new Set() };
+      added = [...sizes.values()].reduce((sum, size) => sum + size, 0);
+    }
+    current.pageIndices.push(index);
+    current.bytes += added;
+    sizes.forEach((_, tag) => current!.objects.add(tag));
+  });
+  if (current) groups.push(current);
+  return {
+    parts: groups.map((group, i) => ({ name: `${baseName}_part${i + 1}`, pageIndices: group.pageIndices, estimatedBytes: group.bytes })),
+    removedPages: [],
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Separator pages
+// ---------------------------------------------------------------------------
+
+/**
+ * Start a new part at every separator page (0-based index to the label found
+ * on it). Consecutive separators count as one break, such as both sides of a
+ * duplex-scanned separator sheet. With `removeSeparators` the separator pages
+ * are left out, otherwise they open their part. Parts are named after their
+ * separator's label when `nameFromLabel` is set.
+ */
+export function planAtSeparators(
+  pageCount: number,
+  separators: Map<number, string | undefined>,
+  options: { removeSeparators: boolean; nameFromLabel: boolean },
+  baseName: string
+): SplitPlan {
+  const groups: { pageIndices: number[]; label?: string }[] = [];
+  const removedPages: number[] = [];
+  let current: { pageIndices: number[]; label?: string } = { pageIndices: [] };
+  // The current part holds nothing but separator pages so far
+  let separatorsOnly = false;
+  for (let page = 0; page < pageCount; page++) {
+    if (separators.has(page)) {
+      if (separatorsOnly) {
+        current.label = separators.get(page) ?? current.label;
+      } else {
+        if (current.pageIndices.length > 0) groups.push(current);
+        current = { pageIndices: [], label: separators.get(page) ?? current.label };
+        separatorsOnly = true;
+      }
+      if (options.removeSeparators) {
+        removedPages.push(page);
+        continue;
+      }
+    } else {
+      separatorsOnly = false;
+    }
+    current.pageIndices.push(page);
+  }
+  if (current.pageIndices.length > 0) groups.push(current);
+
+  const used = new Set<string>();
+  const parts = groups.map((group, i) => {
+    const stem = options.nameFromLabel && group.label ? `${baseName}_${sanitizeFileName(group.label)}` : `${baseName}_part${i + 1}`;
+    let name = stem;
+    for (let n = 2; used.has(name.toLowerCase()); n++) name = `${stem}_${n}`;
+    used.add(name.toLowerCase());
+    return { name, label: group.label, pageIndices: group.pageIndices };
+  });
+  return { parts, removedPages };
+}
+
+/**
+ * Share of dark pixels, ignoring a border of `margin` (fraction of each side)
+ * where scanners leave edges and punch holes.
+ */
+export function inkCoverage(pixels: PixelBuffer, margin = 0.05, darkLevel = 128): number {
+  const { width, height, data } = pixels;
+  const x0 = Math.floor(width * margin);
+  const x1 = Math.ceil(width * (1 - margin));
+  const y0 = Math.floor(height * margin);
+  const y1 = Math.ceil(height * (1 - margin));
+  let dark = 0;
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0, i = (y * width + x0) * 4; x < x1; x++, i += 4) {
+      // Transparent pixels are paper
+      const alpha = data[i + 3] / 255;
+      const luminance = 255 - alpha * (255 - (0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]));
+      if (luminance < darkLevel) dark++;
+    }
+  }
+  const area = Math.max(1, (x1 - x0) * (y1 - y0));
+  return dark / area;
+}
+
+async function renderPageCanvas(pdf: PDFDocumentProxy, pageNumber: number, scale: number): Promise<HTMLCanvasElement> {
+  const page = await pdf.getPage(pageNumber);
+  const viewport = page.getViewport({ scale });
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(viewport.width);
+  canvas.height = Math.ceil(viewport.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas context not available');
+  ctx.fillStyle = '#fff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  await page.render({ canvasContext: ctx, viewport }).promise;
+  page.cleanup();
+  return canvas;
+}
+
+export type SplitProgress = (pageNumber: number, pageCount: number) => void;
+
+/** Pages whose ink coverage is at most `maxCoverage` (a fraction, e.g. 0.001). */
+export async function findBlankPages(pdf: PDFDocumentProxy, maxCoverage: number, onProgress?: SplitProgress): Promise<Map<number, string | undefined>> {
+  const blank = new Map<number, string | undefined>();
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    onProgress?.(pageNumber, pdf.numPages);
+    // 72 dpi is plenty to tell an empty page from one line of text
+    const canvas = await renderPageCanvas(pdf, pageNumber, 1);
+    const pixels = canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height);
+    if (inkCoverage(pixels) <= maxCoverage) blank.set(pageNumber - 1, undefined);
+  }
+  return blank;
+}
+
+const normalizeText = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+/** Pages whose text contains `query`, ignoring case and line breaks. */
+export async function findTextPages(pdf: PDFDocumentProxy, query: string, onProgress?: SplitProgress): Promise<Map<number, string | undefined>> {
+  const needle = normalizeText(query);
+  if (!needle) throw new PDFSplitError('Enter the text that marks the first page of each part.');
+  const found = new Map<number, string | undefined>();
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    onProgress?.(pageNumber, pdf.numPages);
+    const page = await pdf.getPage(pageNumber);
+    const content = await page.getTextContent();
+    const text = normalizeText(content.items.map(item => ('str' in item ? item.str : '')).join(' '));
+    // Words drawn letter by letter come out with spaces between the letters
+    if (text.includes(needle) || text.replace(/ /g, '').includes(needle.replace(/ /g, ''))) found.set(pageNumber - 1, query.trim());
+  }
+  return found;
+}
+
+interface DetectedBarcode {
+  rawValue: string;
+  format: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect(source: CanvasImageSource): Promise<DetectedBarcode[]>;
+}
+
+/**
+ * Pages carrying a barcode whose value contains `pattern` (any barcode when
+ * empty). Uses the BarcodeDetector API, which Chromium-based browsers provide.
+ */
+export async function findBarcodePages(pdf: PDFDocumentProxy, pattern: string, onProgress?: SplitProgress): Promise<Map<number, string | undefined>> {
+  const Detector = (globalThis as { BarcodeDetector?: new () => BarcodeDetectorInstance }).BarcodeDetector;
+  if (!Detector) throw new PDFSplitError('Barcode detection is not supported in this browser. Try Chrome or Edge.');
+  const detector = new Detector();
+  const found = new Map<number, string | undefined>();
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    onProgress?.(pageNumber, pdf.numPages);
+    // 144 dpi resolves the bars of codes printed at normal sizes
+    const canvas = await renderPageCanvas(pdf, pageNumber, 2);
+    const codes = await detector.detect(canvas);
+    const match = codes.find(code => !pattern || code.rawValue.includes(pattern));
+    if (match) found.set(pageNumber - 1, match.rawValue);
+  }
+  return found;
+}
+
+// ---------------------------------------------------------------------------
+// Writing
+// ---------------------------------------------------------------------------
+
+// Links into pages that are not part of this document would pull those pages
+// (and everything they use) into the file; they are removed instead
+function dropExternalLinks(pdfDoc: PDFDocument) {
+  const pageRefs = new Set(pdfDoc.getPages().map(page => page.ref));
+  const pointsOutside = (destination: PDFObject | undefined) => {
+    const value = pdfDoc.context.lookup(destination);
+    const target = value instanceof PDFArray ? value.get(0) : undefined;
+    return target instanceof PDFRef && !pageRefs.has(target);
+  };
+  for (const page of pdfDoc.getPages()) {
+    const annots = page.node.lookup(PDFName.of('Annots'));
+    if (!(annots instanceof PDFArray)) continue;
+    for (let i = annots.size() - 1; i >= 0; i--) {
+      const annot = annots.lookup(i);
+      if (!(annot instanceof PDFDict)) continue;
+      const action = annot.lookup(PDFName.of('A'));
+      const goTo = action instanceof PDFDict && action.lookup(PDFName.of('S')) === PDFName.of('GoTo') ? action.get(PDFName.of('D')) : undefined;
+      if (pointsOutside(annot.get(PDFName.of('Dest'))) || pointsOutside(goTo)) annots.remove(i);
+    }
+  }
+}
+
+// Copying a page also copies what its annotations reference: a widget's form
+// field and, through the field's /Kids, the field's widgets on other pages
+// together with those pages. Widgets that are not on a page of this document
+// are cut from their fields and the stray page copies deleted, so that
+// removeUnreachableObjects drops the rest
+function dropForeignPages(pdfDoc: PDFDocument) {
+  const { context } = pdfDoc;
+  const pageRefs = new Set(pdfDoc.getPages().map(page => page.ref));
+  const annotRefs = new Set<PDFRef>();
+  for (const page of pdfDoc.getPages()) {
+    const annots = page.node.lookup(PDFName.of('Annots'));
+    if (!(annots instanceof PDFArray)) continue;
+    annots.asArray().forEach(annot => { if (annot instanceof PDFRef) annotRefs.add(annot); });
+  }
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    if (object instanceof PDFPageLeaf) {
+      if (!pageRefs.has(ref)) context.delete(ref);
+      continue;
+    }
+    if (!(object instanceof PDFDict) || object instanceof PDFPageTree) continue;
+    const kids = object.lookup(PDFName.of('Kids'));
+    if (!(kids instanceof PDFArray)) continue;
+    for (let i = kids.size() - 1; i >= 0; i--) {
+      const kid = kids.get(i);
+      const widget = context.lookup(kid);
+      const isWidget = widget instanceof PDFDict && widget.lookup(PDFName.of('Subtype')) === PDFName.of('Widget');
+      if (kid instanceof PDFRef && isWidget && !annotRefs.has(kid)) kids.remove(i);
+    }
+  }
+}
+
+/** Write one PDF per part of the plan. */
+export async function writeSplitParts(
+  source: PDFDocument,
+  plan: SplitPlan,
+  options: { addPageNumbers: boolean }
+): Promise<{ name: string; blob: Blob }[]> {
+  const output: { name: string; blob: Blob }[] = [];
+  for (const part of plan.parts) {
+    const newPdf = await PDFDocument.create();
+    // Copying by reference keeps links between pages of the part pointing at
+    // the copies that are in its page tree
+    const copier = PDFObjectCopier.for(source.context, newPdf.context);
+    for (const pageIndex of part.pageIndices) {
+      const ref = copier.copy(source.getPage(pageIndex).ref) as PDFRef;
+      newPdf.addPage(PDFPage.of(newPdf.context.lookup(ref) as PDFPageLeaf, ref, newPdf));
+    }
+    dropForeignPages(newPdf);
+    dropExternalLinks(newPdf);
+    removeUnreachableObjects(newPdf.context);
+    if (options.addPageNumbers) {
+      newPdf.getPages().forEach((page, idx) => {
+        const { width } = page.getSize();
+        page.drawText(`${idx + 1}`, { x: width - 50, y: 30, size: 12 });
+      });
+    }
+    const pdfBytes = await newPdf.save();
+    output.push({ name: `${part.name}.pdf`, blob: new Blob([pdfBytes], { type: 'application/pdf' }) });
+  }
+  return output;
+}
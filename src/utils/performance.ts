@@ -1,5 +1,8 @@
 // Performance optimization utilities
 
+import { PixelKernel } from './imageKernels';
+import { ImageTaskCancelledError, ImageTaskOptions, ImageWorkerPool, getImageWorkerPool } from './imageWorkerPool';
+
 // Debounce function for performance optimization
 export function debounce<T extends (...args: any[]) => any>(
   func: T,
@@ -29,12 +32,16 @@ export function throttle<T extends (...args: any[]) => any>(
 
 // Optimized image processing with Web Workers
 export class ImageProcessor {
-  private worker: Worker | null = null;
+  private pool: ImageWorkerPool | null;
 
-  constructor() {
-    if (typeof Worker !== 'undefined') {
-      this.worker = new Worker('/image-worker.js');
-    }
+  constructor(poolSize?: number) {
+    this.pool = new ImageWorkerPool(poolSize);
+  }
+
+  // Run per-pixel kernels off the main thread; the input ImageData is transferred
+  applyKernels(imageData: ImageData, kernels: PixelKernel[], options: ImageTaskOptions = {}): Promise<ImageData> {
+    if (!this.pool) return Promise.reject(new Error('ImageProcessor has been destroyed'));
+    return this.pool.run(imageData, kernels, options);
   }
 
   // Process image with optimized canvas operations
@@ -110,7 +117,7 @@ export class ImageProcessor {
     });
   }
 
-  // Batch process images with optimized memory management
+  // Batch process images on the shared worker pool with bounded memory use
   static async processBatch(
     files: File[],
     options: {
@@ -119,24 +126,47 @@ export class ImageProcessor {
       maxHeight?: number;
       format?: 'jpeg' | 'png' | 'webp';
       batchSize?: number;
+      kernels?: PixelKernel[];
+      signal?: AbortSignal;
+      onProgress?: (completed: number, total: number) => void;
     } = {}
   ): Promise<Blob[]> {
-    const batchSize = options.batchSize || 3; // Process 3 images at a time
+    // Decoded bitmaps in flight at once; the pool decides how many run in parallel
+    const batchSize = options.batchSize || 3;
     const results: Blob[] = [];
+    const pool = getImageWorkerPool();
+    const format = options.format || 'jpeg';
+    const mimeType = format === 'jpeg' ? 'image/jpeg' :
+                    format === 'png' ? 'image/png' : 'image/webp';
 
     for (let i = 0; i < files.length; i += batchSize) {
+      if (options.signal?.aborted) throw new ImageTaskCancelledError();
       const batch = files.slice(i, i + batchSize);
-      const batchPromises = batch.map(file => 
-        this.processImage(file, options)
-      );
+      const batchPromises = batch.map(async file => {
+        if (typeof createImageBitmap === 'undefined') return this.processImage(file, options);
+        const bitmap = await createImageBitmap(file);
+        let { width, height } = bitmap;
+        const { maxWidth, maxHeight } = options;
+        if (maxWidth && width > maxWidth) {
+          height = (height * maxWidth) / width;
+          width = maxWidth;
+        }
+        if (maxHeight && height > maxHeight) {
+          width = (width * maxHeight) / height;
+          height = maxHeight;
+        }
+        return pool.encode(bitmap, {
+          width,
+          height,
+          mimeType,
+          quality: options.quality || 0.85,
+          kernels: options.kernels,
+        }, { signal: options.signal });
+      });
 
       const batchResults = await Promise.all(batchPromises);
       results.push(...batchResults);
-
-      // Small delay to prevent blocking the main thread
-      if (i + batchSize < files.length) {
-        await new Promise(resolve => setTimeout(resolve, 10));
-      }
+      options.onProgress?.(results.length, files.length);
     }
 
     return results;
@@ -144,9 +174,9 @@ export class ImageProcessor {
 
   // Clean up resources
   destroy() {
-    if (this.worker) {
-      this.worker.terminate();
-      this.worker = null;
+    if (this.pool) {
+      this.pool.destroy();
+      this.pool = null;
     }
   }
 }
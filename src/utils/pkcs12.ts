@@ -0,0 +1,300 @@
+// PKCS#12 key files (.p12/.pfx, RFC 7292)
+// Opens a password protected key file in the browser and returns the private
+// key with its certificate and chain, ready for Web Crypto. Both the PBES2
+// (PBKDF2 with AES) encryption of current tools and the older PKCS#12 PBE
+// schemes with triple DES, RC2 or RC4 are supported.
+
+import {
+  Asn1Node,
+  child,
+  isContext,
+  isUniversal,
+  octets,
+  parseAsn1,
+  readInteger,
+  readOid,
+  TAG,
+} from './asn1';
+import { aesDecryptCBC, bytesEqual, concatBytes, rc2DecryptCBC, rc4, sha, ShaAlgorithm, tripleDesDecryptCBC } from './crypto';
+import { Certificate, CURVES, NamedCurve, OID, parseCertificate } from './x509';
+
+export interface SigningIdentity {
+  // PKCS#8 PrivateKeyInfo
+  privateKey: Uint8Array;
+  keyAlgorithm: 'RSA' | 'EC';
+  namedCurve?: NamedCurve;
+  certificate: Certificate;
+  // Issuers found in the file, nearest first
+  chain: Certificate[];
+}
+
+export class PKCS12Error extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PKCS12Error';
+  }
+}
+
+const PKCS7_DATA = '1.2.840.113549.1.7.1';
+const PKCS7_ENCRYPTED_DATA = '1.2.840.113549.1.7.6';
+const KEY_BAG = '1.2.840.113549.1.12.10.1.1';
+const SHROUDED_KEY_BAG = '1.2.840.113549.1.12.10.1.2';
+const CERT_BAG = '1.2.840.113549.1.12.10.1.3';
+const X509_CERTIFICATE = '1.2.840.113549.1.9.22.1';
+const LOCAL_KEY_ID = '1.2.840.113549.1.9.21';
+const PBES2 = '1.2.840.113549.1.5.13';
+const PBKDF2 = '1.2.840.113549.1.5.12';
+
+const DIGESTS: Record<string, { hash: ShaAlgorithm; blockSize: number }> = {
+  [OID.sha1]: { hash: 'SHA-1', blockSize: 64 },
+  [OID.sha256]: { hash: 'SHA-256', blockSize: 64 },
+  [OID.sha384]: { hash: 'SHA-384', blockSize: 128 },
+  [OID.sha512]: { hash: 'SHA-512', blockSize: 128 },
+};
+
+const PBKDF2_PRFS: Record<string, ShaAlgorithm> = {
+  '1.2.840.113549.2.7': 'SHA-1',
+  '1.2.840.113549.2.9': 'SHA-256',
+  '1.2.840.113549.2.10': 'SHA-384',
+  '1.2.840.113549.2.11': 'SHA-512',
+};
+
+// PBES2 ciphers with their key lengths
+const PBES2_CIPHERS: Record<string, { cipher: 'aes' | '3des'; keyLength: number }> = {
+  '2.16.840.1.101.3.4.1.2': { cipher: 'aes', keyLength: 16 },
+  '2.16.840.1.101.3.4.1.22': { cipher: 'aes', keyLength: 24 },
+  '2.16.840.1.101.3.4.1.42': { cipher: 'aes', keyLength: 32 },
+  '1.2.840.113549.3.7': { cipher: '3des', keyLength: 24 },
+};
+
+// pbeWithSHAAnd... schemes of PKCS#12 itself
+const PKCS12_PBES: Record<string, { cipher: 'rc4' | '3des' | 'rc2'; keyLength: number }> = {
+  '1.2.840.113549.1.12.1.1': { cipher: 'rc4', keyLength: 16 },
+  '1.2.840.113549.1.12.1.2': { cipher: 'rc4', keyLength: 5 },
+  '1.2.840.113549.1.12.1.3': { cipher: '3des', keyLength: 24 },
+  '1.2.840.113549.1.12.1.4': { cipher: '3des', keyLength: 16 },
+  '1.2.840.113549.1.12.1.5': { cipher: 'rc2', keyLength: 16 },
+  '1.2.840.113549.1.12.1.6': { cipher: 'rc2', keyLength: 5 },
+};
+
+// ---------------------------------------------------------------------------
+// Key derivation
+// ---------------------------------------------------------------------------
+
+// PKCS#12 passwords are big-endian UTF-16 with a terminating zero
+function bmpPassword(password: string): Uint8Array {
+  const out = new Uint8Array((password.length + 1) * 2);
+  for (let i = 0; i < password.length; i++) {
+    out[i * 2] = password.charCodeAt(i) >> 8;
+    out[i * 2 + 1] = password.charCodeAt(i) & 0xff;
+  }
+  return out;
+}
+
+// RFC 7292 appendix B; `id` is 1 for keys, 2 for IVs and 3 for MAC keys
+async function pkcs12Kdf(hash: ShaAlgorithm, blockSize: number, password: Uint8Array, salt: Uint8Array, id: number, iterations: number, length: number): Promise<Uint8Array> {
+  const v = blockSize;
+  const fill = (source: Uint8Array) => {
+    const out = new Uint8Array(v * Math.ceil(source.length / v));
+    for (let i = 0; i < out.length; i++) out[i] = source[i % source.length];
+    return out;
+  };
+  const input = concatBytes(fill(salt), fill(password));
+  const diversifier = new Uint8Array(v).fill(id);
+  const blocks: Uint8Array[] = [];
+  let produced = 0;
+  while (produced < length) {
+    let a = await sha(hash, concatBytes(diversifier, input));
+    for (let i = 1; i < iterations; i++) a = await sha(hash, a);
+    blocks.push(a);
+    produced += a.length;
+    if (produced >= length) break;
+    // I_j = (I_j + B + 1) mod 2^(8v) for every v-byte block of I
+    const b = new Uint8Array(v);
+    for (let i = 0; i < v; i++) b[i] = a[i % a.length];
+    for (let offset = 0; offset < input.length; offset += v) {
+      let carry = 1;
+      for (let i = v - 1; i >= 0; i--) {
+        const sum = input[offset + i] + b[i] + carry;
+        input[offset + i] = sum & 0xff;
+        carry = sum >> 8;
+      }
+    }
+  }
+  return concatBytes(...blocks).slice(0, length);
+}
+
+async function pbkdf2(hash: ShaAlgorithm, password: Uint8Array, salt: Uint8Array, iterations: number, length: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey('raw', password, 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash, salt, iterations }, key, length * 8);
+  return new Uint8Array(bits);
+}
+
+async function hmac(hash: ShaAlgorithm, key: Uint8Array, data: Uint8Array): Promise<Uint8Array> {
+  const hmacKey = await crypto.subtle.importKey('raw', key, { name: 'HMAC', hash }, false, ['sign']);
+  return new Uint8Array(await crypto.subtle.sign('HMAC', hmacKey, data));
+}
+
+// ---------------------------------------------------------------------------
+// Decryption
+// ---------------------------------------------------------------------------
+
+async function decrypt(algorithm: Asn1Node, data: Uint8Array, password: string): Promise<Uint8Array> {
+  const oid = readOid(child(algorithm, 0, 'encryption algorithm'));
+  const parameters = child(algorithm, 1, 'encryption parameters');
+
+  if (oid === PBES2) {
+    const kdf = child(parameters, 0, 'key derivation function');
+    const scheme = child(parameters, 1, 'encryption scheme');
+    if (readOid(child(kdf, 0)) !== PBKDF2) throw new PKCS12Error('Unsupported key derivation function');
+    const kdfParameters = child(kdf, 1, 'PBKDF2 parameters');
+    const salt = octets(child(kdfParameters, 0, 'salt'));
+    const iterations = readInteger(child(kdfParameters, 1, 'iteration count'));
+    const prfNode = kdfParameters.children.find(node => isUniversal(node, TAG.SEQUENCE));
+    const prf = prfNode ? PBKDF2_PRFS[readOid(child(prfNode, 0))] : 'SHA-1';
+    const cipherOid = readOid(child(scheme, 0));
+    const cipher = PBES2_CIPHERS[cipherOid];
+    if (!prf || !cipher) throw new PKCS12Error(`Unsupported encryption algorithm ${cipherOid}`);
+    const iv = octets(child(scheme, 1, 'IV'));
+    const key = await pbkdf2(prf, new TextEncoder().encode(password), salt, iterations, cipher.keyLength);
+    return cipher.cipher === 'aes' ? aesDecryptCBC(key, iv, data) : tripleDesDecryptCBC(key, iv, data);
+  }
+
+  const pbe = PKCS12_PBES[oid];
+  if (!pbe) throw new PKCS12Error(`Unsupported encryption algorithm ${oid}`);
+  const salt = octets(child(parameters, 0, 'salt'));
+  const iterations = readInteger(child(parameters, 1, 'iteration count'));
+  const passwordBytes = bmpPassword(password);
+  const key = await pkcs12Kdf('SHA-1', 64, passwordBytes, salt, 1, iterations, pbe.keyLength);
+  if (pbe.cipher === 'rc4') return rc4(key, data);
+  const iv = await pkcs12Kdf('SHA-1', 64, passwordBytes, salt, 2, iterations, 8);
+  if (pbe.cipher === 'rc2') return rc2DecryptCBC(key, pbe.keyLength * 8, iv, data);
+  // Two-key triple DES reuses the first key as the third
+  return tripleDesDecryptCBC(key.length === 16 ? concatBytes(key, key.subarray(0, 8)) : key, iv, data);
+}
+
+// ---------------------------------------------------------------------------
+// Reading the file
+// ---------------------------------------------------------------------------
+
+// Content of a [0] EXPLICIT wrapper
+const explicit = (node: Asn1Node, what: string) => {
+  const wrapper = node.children.find(part => isContext(part, 0));
+  if (!wrapper) throw new PKCS12Error(`Missing ${what}`);
+  return child(wrapper, 0, what);
+};
+
+async function verifyMac(pfx: Asn1Node, authSafe: Uint8Array, password: string) {
+  const macData = pfx.children[2];
+  if (!macData) return;
+  const digestInfo = child(macData, 0, 'MAC');
+  const digestOid = readOid(child(child(digestInfo, 0), 0));
+  const digest = DIGESTS[digestOid];
+  if (!digest) throw new PKCS12Error(`Unsupported MAC algorithm ${digestOid}`);
+  const expected = octets(child(digestInfo, 1, 'MAC value'));
+  const salt = octets(child(macData, 1, 'MAC salt'));
+  const iterations = macData.children[2] ? readInteger(macData.children[2]) : 1;
+  const length = expected.length;
+  // Some writers encode an empty password as no bytes at all
+  const candidates = password === '' ? [bmpPassword(password), new Uint8Array(0)] : [bmpPassword(password)];
+  for (const candidate of candidates) {
+    const key = await pkcs12Kdf(digest.hash, digest.blockSize, candidate, salt, 3, iterations, length);
+    if (bytesEqual(await hmac(digest.hash, key, authSafe), expected)) return;
+  }
+  throw new PKCS12Error('Wrong password for the certificate file');
+}
+
+function keyAlgorithm(privateKey: Uint8Array): { keyAlgorithm: 'RSA' | 'EC'; namedCurve?: NamedCurve } {
+  const info = parseAsn1(privateKey);
+  const algorithm = child(info, 1, 'key algorithm');
+  const oid = readOid(child(algorithm, 0));
+  if (oid === OID.rsaEncryption) return { keyAlgorithm: 'RSA' };
+  if (oid !== OID.ecPublicKey) throw new PKCS12Error('Only RSA and ECDSA keys can sign');
+  const curve = algorithm.children[1];
+  const namedCurve = isUniversal(curve, TAG.OID) ? CURVES[readOid(curve)] : undefined;
+  if (!namedCurve) throw new PKCS12Error('Unsupported elliptic curve; use P-256, P-384 or P-521');
+  return { keyAlgorithm: 'EC', namedCurve };
+}
+
+interface Bag<T> {
+  value: T;
+  localKeyId?: Uint8Array;
+}
+
+/**
+ * Open a PKCS#12 file. The MAC is checked first so a wrong password is
+ * reported as such rather than as a decryption failure.
+ */
+export async function loadPkcs12(bytes: Uint8Array, password: string): Promise<SigningIdentity> {
+  let pfx: Asn1Node;
+  let authSafe: Uint8Array;
+  try {
+    pfx = parseAsn1(bytes);
+    const contentInfo = child(pfx, 1, 'authenticated safe');
+    if (readOid(child(contentInfo, 0)) !== PKCS7_DATA) throw new PKCS12Error('Public key protected PKCS#12 files are not supported');
+    authSafe = octets(explicit(contentInfo, 'authenticated safe'));
+  } catch (error) {
+    if (error instanceof PKCS12Error) throw error;
+    throw new PKCS12Error('Not a PKCS#12 (.p12/.pfx) file');
+  }
+  await verifyMac(pfx, authSafe, password);
+
+  const keys: Bag<Uint8Array>[] = [];
+  const certificates: Bag<Certificate>[] = [];
+  try {
+    for (const contentInfo of parseAsn1(authSafe).children) {
+      const type = readOid(child(contentInfo, 0));
+      let safeContents: Uint8Array;
+      if (type === PKCS7_DATA) {
+        safeContents = octets(explicit(contentInfo, 'safe contents'));
+      } else if (type === PKCS7_ENCRYPTED_DATA) {
+        const encryptedContentInfo = child(explicit(contentInfo, 'encrypted data'), 1, 'encrypted content');
+        const encrypted = encryptedContentInfo.children.find(part => isContext(part, 0));
+        if (!encrypted) continue;
+        safeContents = await decrypt(child(encryptedContentInfo, 1, 'encryption algorithm'), octets(encrypted), password);
+      } else {
+        continue;
+      }
+
+      for (const bag of parseAsn1(safeContents).children) {
+        const bagType = readOid(child(bag, 0));
+        const value = explicit(bag, 'bag value');
+        const attributes = bag.children[2]?.children ?? [];
+        const keyIdAttribute = attributes.find(attribute => readOid(child(attribute, 0)) === LOCAL_KEY_ID);
+        const localKeyId = keyIdAttribute && octets(child(child(keyIdAttribute, 1), 0));
+        if (bagType === KEY_BAG) {
+          keys.push({ value: value.raw, localKeyId });
+        } else if (bagType === SHROUDED_KEY_BAG) {
+          keys.push({ value: await decrypt(child(value, 0), octets(child(value, 1)), password), localKeyId });
+        } else if (bagType === CERT_BAG && readOid(child(value, 0)) === X509_CERTIFICATE) {
+          certificates.push({ value: parseCertificate(octets(explicit(value, 'certificate'))), localKeyId });
+        }
+      }
+    }
+  } catch (error) {
+    if (error instanceof PKCS12Error) throw error;
+    // Without a MAC, a wrong password only shows as garbage after decryption
+    throw new PKCS12Error(pfx.children[2] ? 'The certificate file is damaged' : 'Wrong password for the certificate file');
+  }
+
+  const key = keys[0];
+  if (!key) throw new PKCS12Error('The certificate file contains no private key');
+  const match = (bag: Bag<Certificate>) => !!key.localKeyId && !!bag.localKeyId && bytesEqual(key.localKeyId, bag.localKeyId);
+  // Without key ids, take the certificate that issued no other one
+  const signer = certificates.find(match) ?? certificates.find(bag =>
+    !certificates.some(other => other !== bag && bytesEqual(other.value.issuer.raw, bag.value.subject.raw)));
+  if (!signer) throw new PKCS12Error('The certificate file contains no certificate');
+
+  const chain: Certificate[] = [];
+  let current = signer.value;
+  for (;;) {
+    const issuer = certificates.find(bag =>
+      bag !== signer && !chain.includes(bag.value) && bytesEqual(bag.value.subject.raw, current.issuer.raw))?.value;
+    if (!issuer) break;
+    chain.push(issuer);
+    if (bytesEqual(issuer.subject.raw, issuer.issuer.raw)) break;
+    current = issuer;
+  }
+
+  return { privateKey: key.value, ...keyAlgorithm(key.value), certificate: signer.value, chain };
+}
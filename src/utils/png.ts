@@ -0,0 +1,372 @@
+// PNG chunks, decoding and filtering
+// Reads and writes the chunk stream and decodes image data of every standard
+// color type, bit depth and interlace method into plain unfiltered rows, so
+// files can be re-encoded without a canvas round trip (which premultiplies
+// alpha and drops 16-bit precision).
+
+import { PixelBuffer } from './imageKernels';
+
+export class PngFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PngFormatError';
+  }
+}
+
+export const PNG_SIGNATURE = Uint8Array.of(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a);
+
+export const PNG_COLOR_TYPES = {
+  GRAY: 0,
+  RGB: 2,
+  PALETTE: 3,
+  GRAY_ALPHA: 4,
+  RGBA: 6,
+} as const;
+
+export interface PngChunk {
+  type: string;
+  data: Uint8Array;
+}
+
+export interface PngHeader {
+  width: number;
+  height: number;
+  bitDepth: number;
+  colorType: number;
+  interlace: number;
+}
+
+export interface PngImage {
+  header: PngHeader;
+  // Unfiltered, de-interlaced rows without filter bytes
+  rows: Uint8Array;
+  stride: number;
+  // PLTE, three bytes per entry
+  palette?: Uint8Array;
+  // Raw tRNS payload for the color type
+  transparency?: Uint8Array;
+}
+
+// Filter type per row, or per-row choice by minimum sum of absolute differences
+export type PngFilterStrategy = 0 | 1 | 2 | 3 | 4 | 'adaptive';
+
+export const PNG_FILTER_STRATEGIES: PngFilterStrategy[] = [0, 1, 2, 3, 4, 'adaptive'];
+
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+// Adam7 passes: x start, y start, x step, y step
+const ADAM7 = [
+  [0, 0, 8, 8],
+  [4, 0, 8, 8],
+  [0, 4, 4, 8],
+  [2, 0, 4, 4],
+  [0, 2, 2, 4],
+  [1, 0, 2, 2],
+  [0, 1, 1, 2],
+];
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes: Uint8Array, crc = 0xffffffff): number {
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return crc;
+}
+
+export function isPng(bytes: Uint8Array): boolean {
+  return bytes.length >= 8 && PNG_SIGNATURE.every((byte, i) => bytes[i] === byte);
+}
+
+export function readPngChunks(bytes: Uint8Array): PngChunk[] {
+  if (!isPng(bytes)) throw new PngFormatError('Not a PNG file');
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: PngChunk[] = [];
+  let offset = 8;
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    if (offset + 12 + length > bytes.length) throw new PngFormatError(`Truncated ${type} chunk`);
+    chunks.push({ type, data: bytes.subarray(offset + 8, offset + 8 + length) });
+    offset += 12 + length;
+    if (type === 'IEND') break;
+  }
+  if (chunks[0]?.type !== 'IHDR') throw new PngFormatError('PNG does not start with an IHDR chunk');
+  return chunks;
+}
+
+export function writePng(chunks: PngChunk[]): Uint8Array {
+  const size = chunks.reduce((sum, chunk) => sum + 12 + chunk.data.length, 8);
+  const bytes = new Uint8Array(size);
+  const view = new DataView(bytes.buffer);
+  bytes.set(PNG_SIGNATURE);
+  let offset = 8;
+  for (const chunk of chunks) {
+    view.setUint32(offset, chunk.data.length);
+    for (let i = 0; i < 4; i++) bytes[offset + 4 + i] = chunk.type.charCodeAt(i);
+    bytes.set(chunk.data, offset + 8);
+    view.setUint32(offset + 8 + chunk.data.length, (crc32(bytes.subarray(offset + 4, offset + 8 + chunk.data.length)) ^ 0xffffffff) >>> 0);
+    offset += 12 + chunk.data.length;
+  }
+  return bytes;
+}
+
+export function parsePngHeader(data: Uint8Array): PngHeader {
+  if (data.length < 13) throw new PngFormatError('IHDR chunk is too short');
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const header = {
+    width: view.getUint32(0),
+    height: view.getUint32(4),
+    bitDepth: data[8],
+    colorType: data[9],
+    interlace: data[12],
+  };
+  if (!(header.colorType in CHANNELS) || ![1, 2, 4, 8, 16].includes(header.bitDepth)) {
+    throw new PngFormatError(`Unsupported color type ${header.colorType} at bit depth ${header.bitDepth}`);
+  }
+  return header;
+}
+
+export function pngHeaderChunk(header: PngHeader): PngChunk {
+  const data = new Uint8Array(13);
+  const view = new DataView(data.buffer);
+  view.setUint32(0, header.width);
+  view.setUint32(4, header.height);
+  data[8] = header.bitDepth;
+  data[9] = header.colorType;
+  data[12] = header.interlace;
+  return { type: 'IHDR', data };
+}
+
+export const pngChannels = (colorType: number) => CHANNELS[colorType];
+
+export const pngStride = (header: Pick<PngHeader, 'bitDepth' | 'colorType'>, width: number) =>
+  Math.ceil((width * CHANNELS[header.colorType] * header.bitDepth) / 8);
+
+// Byte distance to the corresponding byte of the previous pixel, as filters use it
+const filterDistance = (header: Pick<PngHeader, 'bitDepth' | 'colorType'>) =>
+  Math.max(1, (CHANNELS[header.colorType] * header.bitDepth) >> 3);
+
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+}
+
+function unfilterRow(type: number, row: Uint8Array, previous: Uint8Array | null, bpp: number) {
+  for (let i = 0; i < row.length; i++) {
+    const left = i >= bpp ? row[i - bpp] : 0;
+    const up = previous ? previous[i] : 0;
+    const upLeft = previous && i >= bpp ? previous[i - bpp] : 0;
+    switch (type) {
+      case 0: break;
+      case 1: row[i] = (row[i] + left) & 0xff; break;
+      case 2: row[i] = (row[i] + up) & 0xff; break;
+      case 3: row[i] = (row[i] + ((left + up) >> 1)) & 0xff; break;
+      case 4: row[i] = (row[i] + paeth(left, up, upLeft)) & 0xff; break;
+      default: throw new PngFormatError(`Unknown filter type ${type}`);
+    }
+  }
+}
+
+// Unfilter `height` rows of `stride` bytes starting at `offset` of the inflated data
+function unfilterRows(data: Uint8Array, offset: number, stride: number, height: number, bpp: number): Uint8Array {
+  if (data.length < offset + (stride + 1) * height) throw new PngFormatError('Image data is truncated');
+  const rows = new Uint8Array(stride * height);
+  for (let y = 0; y < height; y++) {
+    const row = rows.subarray(y * stride, (y + 1) * stride);
+    row.set(data.subarray(offset + y * (stride + 1) + 1, offset + (y + 1) * (stride + 1)));
+    unfilterRow(data[offset + y * (stride + 1)], row, y > 0 ? rows.subarray((y - 1) * stride, y * stride) : null, bpp);
+  }
+  return rows;
+}
+
+/** Decode the image data of a chunk list into unfiltered, non-interlaced rows. */
+export async function decodePng(chunks: PngChunk[]): Promise<PngImage> {
+  const header = parsePngHeader(chunks[0].data);
+  const idat = chunks.filter(chunk => chunk.type === 'IDAT');
+  if (idat.length === 0) throw new PngFormatError('PNG has no image data');
+  const compressed = new Uint8Array(idat.reduce((sum, chunk) => sum + chunk.data.length, 0));
+  idat.reduce((offset, chunk) => {
+    compressed.set(chunk.data, offset);
+    return offset + chunk.data.length;
+  }, 0);
+  const data = await inflate(compressed);
+  const { width, height } = header;
+  const stride = pngStride(header, width);
+  const bpp = filterDistance(header);
+  const palette = chunks.find(chunk => chunk.type === 'PLTE')?.data;
+  const transparency = chunks.find(chunk => chunk.type === 'tRNS')?.data;
+
+  if (header.interlace === 0) {
+    return { header, rows: unfilterRows(data, 0, stride, height, bpp), stride, palette, transparency };
+  }
+
+  const rows = new Uint8Array(stride * height);
+  const bitsPerPixel = CHANNELS[header.colorType] * header.bitDepth;
+  let offset = 0;
+  for (const [x0, y0, dx, dy] of ADAM7) {
+    const passWidth = Math.ceil((width - x0) / dx);
+    const passHeight = Math.ceil((height - y0) / dy);
+    if (passWidth <= 0 || passHeight <= 0) continue;
+    const passStride = pngStride(header, passWidth);
+    const pass = unfilterRows(data, offset, passStride, passHeight, bpp);
+    offset += (passStride + 1) * passHeight;
+    for (let py = 0; py < passHeight; py++) {
+      const target = (y0 + py * dy) * stride;
+      for (let px = 0; px < passWidth; px++) {
+        const x = x0 + px * dx;
+        if (bitsPerPixel >= 8) {
+          const size = bitsPerPixel >> 3;
+          rows.set(pass.subarray(py * passStride + px * size, py * passStride + (px + 1) * size), target + x * size);
+        } else {
+          const source = px * bitsPerPixel;
+          const value = (pass[py * passStride + (source >> 3)] >> (8 - bitsPerPixel - (source & 7))) & ((1 << bitsPerPixel) - 1);
+          const bit = x * bitsPerPixel;
+          rows[target + (bit >> 3)] |= value << (8 - bitsPerPixel - (bit & 7));
+        }
+      }
+    }
+  }
+  return { header: { ...header, interlace: 0 }, rows, stride, palette, transparency };
+}
+
+// Sample `channel` of pixel (x, y) at the image's own bit depth
+function sampleAt(image: PngImage, x: number, y: number, channel: number): number {
+  const { bitDepth, colorType } = image.header;
+  const row = y * image.stride;
+  if (bitDepth === 16) {
+    const i = row + (x * CHANNELS[colorType] + channel) * 2;
+    return (image.rows[i] << 8) | image.rows[i + 1];
+  }
+  if (bitDepth === 8) return image.rows[row + x * CHANNELS[colorType] + channel];
+  const bit = x * bitDepth;
+  return (image.rows[row + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) & ((1 << bitDepth) - 1);
+}
+
+/** True when every 16-bit sample is an 8-bit value scaled by 257, so reducing the depth loses nothing. */
+export function pngFitsIn8Bits(image: PngImage): boolean {
+  if (image.header.bitDepth <= 8) return true;
+  for (let i = 0; i < image.rows.length; i += 2) if (image.rows[i] !== image.rows[i + 1]) return false;
+  return true;
+}
+
+/** 8-bit RGBA pixels of a decoded image, with tRNS applied. */
+export function pngToRGBA(image: PngImage): PixelBuffer {
+  const { width, height, bitDepth, colorType } = image.header;
+  const data = new Uint8ClampedArray(width * height * 4);
+  const maxValue = (1 << bitDepth) - 1;
+  const to8 = (value: number) => (bitDepth === 16 ? value >> 8 : bitDepth === 8 ? value : Math.round((value * 255) / maxValue));
+  const trns = image.transparency;
+  const trnsView = trns && trns.length >= 2 ? new DataView(trns.buffer, trns.byteOffset, trns.byteLength) : undefined;
+  const palette = image.palette ?? new Uint8Array(0);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 4;
+      switch (colorType) {
+        case 0: {
+          const gray = sampleAt(image, x, y, 0);
+          data[o] = data[o + 1] = data[o + 2] = to8(gray);
+          data[o + 3] = trnsView && gray === trnsView.getUint16(0) ? 0 : 255;
+          break;
+        }
+        case 2: {
+          const r = sampleAt(image, x, y, 0);
+          const g = sampleAt(image, x, y, 1);
+          const b = sampleAt(image, x, y, 2);
+          data[o] = to8(r);
+          data[o + 1] = to8(g);
+          data[o + 2] = to8(b);
+          const keyed = trnsView && trns!.length >= 6 && r === trnsView.getUint16(0) && g === trnsView.getUint16(2) && b === trnsView.getUint16(4);
+          data[o + 3] = keyed ? 0 : 255;
+          break;
+        }
+        case 3: {
+          const index = sampleAt(image, x, y, 0);
+          data[o] = palette[index * 3] ?? 0;
+          data[o + 1] = palette[index * 3 + 1] ?? 0;
+          data[o + 2] = palette[index * 3 + 2] ?? 0;
+          data[o + 3] = trns && index < trns.length ? trns[index] : 255;
+          break;
+        }
+        case 4:
+          data[o] = data[o + 1] = data[o + 2] = to8(sampleAt(image, x, y, 0));
+          data[o + 3] = to8(sampleAt(image, x, y, 1));
+          break;
+        default:
+          data[o] = to8(sampleAt(image, x, y, 0));
+          data[o + 1] = to8(sampleAt(image, x, y, 1));
+          data[o + 2] = to8(sampleAt(image, x, y, 2));
+          data[o + 3] = to8(sampleAt(image, x, y, 3));
+      }
+    }
+  }
+  return { data, width, height };
+}
+
+function filterRow(type: number, row: Uint8Array, previous: Uint8Array | null, bpp: number, out: Uint8Array) {
+  out[0] = type;
+  for (let i = 0; i < row.length; i++) {
+    const left = i >= bpp ? row[i - bpp] : 0;
+    const up = previous ? previous[i] : 0;
+    const upLeft = previous && i >= bpp ? previous[i - bpp] : 0;
+    let predicted = 0;
+    if (type === 1) predicted = left;
+    else if (type === 2) predicted = up;
+    else if (type === 3) predicted = (left + up) >> 1;
+    else if (type === 4) predicted = paeth(left, up, upLeft);
+    out[i + 1] = (row[i] - predicted) & 0xff;
+  }
+}
+
+/** Filtered scanlines, each prefixed with its filter type, ready for deflate. */
+export function filterPngRows(rows: Uint8Array, stride: number, header: Pick<PngHeader, 'bitDepth' | 'colorType'>, strategy: PngFilterStrategy): Uint8Array {
+  const height = stride > 0 ? rows.length / stride : 0;
+  const bpp = filterDistance(header);
+  const out = new Uint8Array((stride + 1) * height);
+  const trial = new Uint8Array(stride + 1);
+  for (let y = 0; y < height; y++) {
+    const row = rows.subarray(y * stride, (y + 1) * stride);
+    const previous = y > 0 ? rows.subarray((y - 1) * stride, y * stride) : null;
+    const target = out.subarray(y * (stride + 1), (y + 1) * (stride + 1));
+    if (strategy !== 'adaptive') {
+      filterRow(strategy, row, previous, bpp, target);
+      continue;
+    }
+    // Bytes as signed values; the smallest total tends to compress best
+    let bestScore = Infinity;
+    for (let type = 0; type <= 4; type++) {
+      filterRow(type, row, previous, bpp, trial);
+      let score = 0;
+      for (let i = 1; i < trial.length && score < bestScore; i++) score += trial[i] < 128 ? trial[i] : 256 - trial[i];
+      if (score < bestScore) {
+        bestScore = score;
+        target.set(trial);
+      }
+    }
+  }
+  return out;
+}
+
+/** Encode RGBA pixels as an 8-bit RGBA PNG with adaptive filtering and the platform deflate. */
+export async function encodeRgbaPng(pixels: PixelBuffer): Promise<Uint8Array> {
+  const header: PngHeader = { width: pixels.width, height: pixels.height, bitDepth: 8, colorType: PNG_COLOR_TYPES.RGBA, interlace: 0 };
+  const rows = new Uint8Array(pixels.data.buffer, pixels.data.byteOffset, pixels.width * pixels.height * 4);
+  const filtered = filterPngRows(rows, pixels.width * 4, header, 'adaptive');
+  const stream = new Blob([filtered]).stream().pipeThrough(new CompressionStream('deflate'));
+  const compressed = new Uint8Array(await new Response(stream).arrayBuffer());
+  return writePng([pngHeaderChunk(header), { type: 'IDAT', data: compressed }, { type: 'IEND', data: new Uint8Array(0) }]);
+}
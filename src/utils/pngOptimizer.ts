@@ -0,0 +1,244 @@
+// PNG optimization
+// Re-encodes a PNG as the smallest of several candidates: the original color
+// type, an exact palette when the image has at most 256 colors, a narrower
+// truecolor/gray layout when channels are unused and, if asked, a quantized
+// palette. Every candidate is tried with each filter strategy using the fast
+// native deflate; the winner is then deflated at maximum effort. The input is
+// returned unchanged whenever nothing beats it.
+
+import { IndexedImage, indexExactly, quantize } from './colorQuantization';
+import { zlibCompress } from './deflate';
+import { PixelBuffer } from './imageKernels';
+import {
+  PNG_COLOR_TYPES,
+  PNG_FILTER_STRATEGIES,
+  PngChunk,
+  PngFilterStrategy,
+  PngHeader,
+  decodePng,
+  filterPngRows,
+  parsePngHeader,
+  pngChannels,
+  pngFitsIn8Bits,
+  pngHeaderChunk,
+  pngStride,
+  pngToRGBA,
+  readPngChunks,
+  writePng,
+} from './png';
+
+export interface PngOptimizeOptions {
+  // Reduce to a palette even when that merges colors
+  quantize?: boolean;
+  // Palette size for quantization, 2-256
+  colors?: number;
+  dither?: boolean;
+  // Drop text, time, EXIF and other chunks that do not change how the image looks
+  stripMetadata?: boolean;
+  // Flatten transparency onto white and drop the alpha channel
+  removeAlpha?: boolean;
+}
+
+export interface PngOptimizeResult {
+  bytes: Uint8Array;
+  originalSize: number;
+  optimizedSize: number;
+  // Nothing beat the input, which is returned as-is
+  unchanged: boolean;
+  // Why the file was left alone, when it was not even tried
+  note?: string;
+  colorType: number;
+  bitDepth: number;
+  paletteSize?: number;
+  filter: PngFilterStrategy;
+  // Colors were merged by quantization
+  lossy: boolean;
+  removedChunks: string[];
+}
+
+interface Candidate {
+  header: PngHeader;
+  rows: Uint8Array;
+  stride: number;
+  palette?: Uint8Array;
+  transparency?: Uint8Array;
+  lossy: boolean;
+}
+
+// Describe how the image is rendered; kept even when stripping metadata
+const COLOR_CHUNKS = ['gAMA', 'cHRM', 'sRGB', 'iCCP', 'cICP', 'mDCv', 'cLLi'];
+// Only valid for the color type or palette they were written for
+const LAYOUT_CHUNKS = ['sBIT', 'bKGD', 'hIST'];
+// Rewritten from the chosen candidate
+const IMAGE_CHUNKS = ['IHDR', 'PLTE', 'tRNS', 'IDAT', 'IEND'];
+// Ancillary chunks this code knows are safe to carry over re-encoded image data
+const KNOWN_CHUNKS = [...COLOR_CHUNKS, ...LAYOUT_CHUNKS, 'pHYs', 'sPLT', 'tIME', 'tEXt', 'zTXt', 'iTXt', 'eXIf', 'oFFs', 'pCAL', 'sCAL', 'sTER'];
+
+async function nativeDeflateSize(data: Uint8Array): Promise<number> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+  return (await new Response(stream).arrayBuffer()).byteLength;
+}
+
+async function nativeDeflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function paletteCandidate(pixels: PixelBuffer, indexed: IndexedImage, lossy: boolean): Candidate {
+  const entries = indexed.palette.length / 4;
+  const bitDepth = entries <= 2 ? 1 : entries <= 4 ? 2 : entries <= 16 ? 4 : 8;
+  const header: PngHeader = { width: pixels.width, height: pixels.height, bitDepth, colorType: PNG_COLOR_TYPES.PALETTE, interlace: 0 };
+  const stride = pngStride(header, pixels.width);
+  const rows = new Uint8Array(stride * pixels.height);
+  for (let y = 0; y < pixels.height; y++) {
+    for (let x = 0; x < pixels.width; x++) {
+      const bit = x * bitDepth;
+      rows[y * stride + (bit >> 3)] |= indexed.indices[y * pixels.width + x] << (8 - bitDepth - (bit & 7));
+    }
+  }
+  const palette = new Uint8Array(entries * 3);
+  let translucent = 0;
+  for (let i = 0; i < entries; i++) {
+    palette.set(indexed.palette.subarray(i * 4, i * 4 + 3), i * 3);
+    if (indexed.palette[i * 4 + 3] < 255) translucent = i + 1;
+  }
+  // Translucent entries come first, so tRNS can stop at the last of them
+  const transparency = translucent > 0 ? indexed.palette.filter((_, i) => i % 4 === 3).slice(0, translucent) : undefined;
+  return { header, rows, stride, palette, transparency, lossy };
+}
+
+// 8-bit gray, gray+alpha, RGB or RGBA, dropping channels no pixel uses
+function truecolorCandidate(pixels: PixelBuffer, allowGray: boolean): Candidate {
+  const { data, width, height } = pixels;
+  let gray = allowGray;
+  let alpha = false;
+  for (let i = 0; i < data.length && (gray || !alpha); i += 4) {
+    if (data[i] !== data[i + 1] || data[i] !== data[i + 2]) gray = false;
+    if (data[i + 3] !== 255) alpha = true;
+  }
+  const colorType = gray ? (alpha ? PNG_COLOR_TYPES.GRAY_ALPHA : PNG_COLOR_TYPES.GRAY) : alpha ? PNG_COLOR_TYPES.RGBA : PNG_COLOR_TYPES.RGB;
+  const channels = pngChannels(colorType);
+  const header: PngHeader = { width, height, bitDepth: 8, colorType, interlace: 0 };
+  const rows = new Uint8Array(width * height * channels);
+  for (let p = 0, o = 0; p < width * height; p++) {
+    const i = p * 4;
+    if (gray) {
+      rows[o++] = data[i];
+    } else {
+      rows[o++] = data[i];
+      rows[o++] = data[i + 1];
+      rows[o++] = data[i + 2];
+    }
+    if (alpha) rows[o++] = data[i + 3];
+  }
+  return { header, rows, stride: width * channels, lossy: false };
+}
+
+function flattenOntoWhite(pixels: PixelBuffer): PixelBuffer {
+  const data = new Uint8ClampedArray(pixels.data);
+  for (let i = 0; i < data.length; i += 4) {
+    const alpha = data[i + 3] / 255;
+    for (let c = 0; c < 3; c++) data[i + c] = Math.round(255 + (data[i + c] - 255) * alpha);
+    data[i + 3] = 255;
+  }
+  return { data, width: pixels.width, height: pixels.height };
+}
+
+/** Optimize a PNG file. The result is never larger than the input. */
+export async function optimizePng(input: Uint8Array, options: PngOptimizeOptions = {}): Promise<PngOptimizeResult> {
+  const chunks = readPngChunks(input);
+  const keepInput = (note?: string): PngOptimizeResult => {
+    const { colorType, bitDepth } = parsePngHeader(chunks[0].data);
+    return {
+      bytes: input,
+      originalSize: input.length,
+      optimizedSize: input.length,
+      unchanged: true,
+      note,
+      colorType,
+      bitDepth,
+      filter: 0,
+      lossy: false,
+      removedChunks: [],
+    };
+  };
+  // Re-encoding the default image would drop the animation frames
+  if (chunks.some(chunk => chunk.type === 'acTL')) return keepInput('Animated PNGs are left unchanged');
+
+  const image = await decodePng(chunks);
+  const source = image.header;
+  const sourceIsGray = source.colorType === PNG_COLOR_TYPES.GRAY || source.colorType === PNG_COLOR_TYPES.GRAY_ALPHA;
+  // An ICC profile only fits images of its own color space
+  const hasProfile = chunks.some(chunk => chunk.type === 'iCCP');
+  const allowPalette = !(hasProfile && sourceIsGray);
+  const allowGray = !(hasProfile && !sourceIsGray);
+  const hasAlpha = source.colorType === PNG_COLOR_TYPES.GRAY_ALPHA || source.colorType === PNG_COLOR_TYPES.RGBA || !!image.transparency;
+
+  const candidates: Candidate[] = [];
+  if (!(options.removeAlpha && hasAlpha)) {
+    candidates.push({ header: image.header, rows: image.rows, stride: image.stride, palette: image.palette, transparency: image.transparency, lossy: false });
+  }
+  // 8-bit layouts are exact unless 16-bit samples carry real precision, in
+  // which case they are only tried when the user accepted a lossy result
+  const fits8Bits = pngFitsIn8Bits(image);
+  if (fits8Bits || options.quantize || options.removeAlpha) {
+    let pixels = pngToRGBA(image);
+    if (options.removeAlpha) pixels = flattenOntoWhite(pixels);
+    const exact = allowPalette ? indexExactly(pixels, { alpha: 'full' }) : null;
+    if (exact) candidates.push(paletteCandidate(pixels, exact, !fits8Bits));
+    if (!exact && options.quantize && allowPalette) {
+      candidates.push(paletteCandidate(pixels, quantize(pixels, { colors: options.colors ?? 256, dither: options.dither, alpha: 'full' }), true));
+    }
+    if (source.colorType !== PNG_COLOR_TYPES.PALETTE || options.removeAlpha) {
+      candidates.push({ ...truecolorCandidate(pixels, allowGray), lossy: !fits8Bits });
+    }
+  }
+
+  let best: { candidate: Candidate; filter: PngFilterStrategy; filtered: Uint8Array; size: number } | null = null;
+  for (const candidate of candidates) {
+    for (const filter of PNG_FILTER_STRATEGIES) {
+      const filtered = filterPngRows(candidate.rows, candidate.stride, candidate.header, filter);
+      const size = await nativeDeflateSize(filtered);
+      if (!best || size < best.size) best = { candidate, filter, filtered, size };
+    }
+  }
+  if (!best) return keepInput();
+
+  const thorough = zlibCompress(best.filtered);
+  const idat = thorough.length < best.size ? thorough : await nativeDeflate(best.filtered);
+  const { candidate } = best;
+  const layoutChanged = candidate.header.colorType !== source.colorType || candidate.header.bitDepth !== source.bitDepth
+    || candidate.palette !== image.palette;
+  const keep = (chunk: PngChunk) => {
+    if (IMAGE_CHUNKS.includes(chunk.type)) return false;
+    if (LAYOUT_CHUNKS.includes(chunk.type) && layoutChanged) return false;
+    if (options.stripMetadata) return COLOR_CHUNKS.includes(chunk.type) || (chunk.type === 'sBIT' && !layoutChanged);
+    // Unknown chunks marked unsafe to copy must go once the image data changes
+    return KNOWN_CHUNKS.includes(chunk.type) || chunk.type.charCodeAt(3) >= 0x61;
+  };
+  const kept = chunks.filter(keep);
+  const output = writePng([
+    pngHeaderChunk(candidate.header),
+    ...kept.filter(chunk => COLOR_CHUNKS.includes(chunk.type) || chunk.type === 'sBIT'),
+    ...(candidate.palette ? [{ type: 'PLTE', data: candidate.palette }] : []),
+    ...(candidate.transparency ? [{ type: 'tRNS', data: candidate.transparency }] : []),
+    ...kept.filter(chunk => !COLOR_CHUNKS.includes(chunk.type) && chunk.type !== 'sBIT'),
+    { type: 'IDAT', data: idat },
+    { type: 'IEND', data: new Uint8Array(0) },
+  ]);
+  if (output.length >= input.length) return keepInput();
+
+  const removedChunks = [...new Set(chunks.filter(chunk => !IMAGE_CHUNKS.includes(chunk.type) && !kept.includes(chunk)).map(chunk => chunk.type))];
+  return {
+    bytes: output,
+    originalSize: input.length,
+    optimizedSize: output.length,
+    unchanged: false,
+    colorType: candidate.header.colorType,
+    bitDepth: candidate.header.bitDepth,
+    paletteSize: candidate.palette ? candidate.palette.length / 3 : undefined,
+    filter: best.filter,
+    lossy: candidate.lossy,
+    removedChunks,
+  };
+}
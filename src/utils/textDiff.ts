@@ -0,0 +1,519 @@
+// Structure-aware PDF text diff
+// Both documents are read into words that remember their page, paragraph,
+// position, font and size. The word sequences are aligned with a patience diff
+// (unique words anchor the alignment), so an inserted paragraph or a page
+// break that moved is a local change rather than a shift of everything after
+// it. Runs of removed words that reappear elsewhere are reported as moved,
+// and aligned words whose font or size changed as formatting-only changes.
+
+import { PDFDocument } from 'pdf-lib';
+import { AnnotationRect, addHighlightAnnotation } from './pdfAnnotations';
+
+// Minimal slice of the pdf.js document API used for extraction
+interface TextSourcePage {
+  getTextContent(): Promise<{ items: unknown[] }>;
+  getOperatorList(): Promise<unknown>;
+  commonObjs: { has(id: string): boolean; get(id: string): unknown };
+}
+
+interface TextSource {
+  numPages: number;
+  getPage(pageNumber: number): Promise<TextSourcePage>;
+}
+
+interface PdfjsTextItem {
+  str: string;
+  transform: number[];
+  width: number;
+  fontName: string;
+  hasEOL: boolean;
+}
+
+export interface TextWord {
+  text: string;
+  // 1-based
+  page: number;
+  // Index into ExtractedText.paragraphs
+  paragraph: number;
+  rect: AnnotationRect;
+  font: string;
+  size: number;
+}
+
+export interface TextParagraph {
+  page: number;
+  // Indices into ExtractedText.words
+  start: number;
+  end: number;
+}
+
+export interface ExtractedText {
+  pageCount: number;
+  words: TextWord[];
+  paragraphs: TextParagraph[];
+}
+
+export interface TextDiffOptions {
+  ignoreCase?: boolean;
+  // Drop replacements that only split or join words ("data base" and "database")
+  ignoreWhitespace?: boolean;
+  // Shortest run of words reported as moved rather than deleted and inserted
+  minMovedWords?: number;
+  // Font size difference, in points, below which sizes count as equal
+  sizeTolerance?: number;
+}
+
+export type TextChangeKind = 'inserted' | 'deleted' | 'replaced' | 'moved' | 'formatting';
+
+export interface TextChange {
+  kind: TextChangeKind;
+  // Word indices in the first and second document
+  a: number[];
+  b: number[];
+}
+
+export interface ParagraphChange {
+  kind: 'inserted' | 'deleted' | 'modified' | 'moved';
+  // Which document the paragraph is in
+  side: 'a' | 'b';
+  paragraph: number;
+}
+
+export interface StructuredTextDiff {
+  a: ExtractedText;
+  b: ExtractedText;
+  // In reading order of the second document, then the first
+  changes: TextChange[];
+  paragraphs: ParagraphChange[];
+  // For each page of the first document, the page of the second most of its text went to
+  pageMap: { page: number; matches: number | null }[];
+  // Share of words matched, 0-1
+  similarity: number;
+}
+
+type DiffOp = { type: 'equal'; a: number; b: number } | { type: 'delete'; a: number } | { type: 'insert'; b: number };
+
+// Word boxes span from the descender to roughly the cap height
+const DESCENT = 0.22;
+const ASCENT = 0.85;
+
+// Subset prefixes (ABCDEF+) differ between files embedding the same font
+const baseFontName = (name: string) => name.replace(/^[A-Z]{6}\+/, '');
+
+function isTextItem(item: unknown): item is PdfjsTextItem {
+  return typeof item === 'object' && item !== null && 'str' in item && 'transform' in item;
+}
+
+function resolveFontName(page: TextSourcePage, id: string): string {
+  try {
+    if (page.commonObjs.has(id)) {
+      const font = page.commonObjs.get(id) as { name?: string } | null;
+      if (font?.name) return baseFontName(font.name);
+    }
+  } catch {
+    // Fonts that failed to load keep their internal id
+  }
+  return id;
+}
+
+/**
+ * Read a document into words grouped in paragraphs. Lines break on pdf.js
+ * end-of-line markers and baseline jumps; paragraphs break on a larger than
+ * usual line gap, a font size change or a jump back up the page.
+ */
+export async function extractTextStructure(pdf: TextSource, maxPages = pdf.numPages): Promise<ExtractedText> {
+  const words: TextWord[] = [];
+  const paragraphs: TextParagraph[] = [];
+  const pageCount = Math.min(pdf.numPages, maxPages);
+  for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+    const page = await pdf.getPage(pageNumber);
+    const content = await page.getTextContent();
+    // Loads the page's fonts so their real names can be compared across files
+    await page.getOperatorList();
+    const fonts = new Map<string, string>();
+    const fontName = (id: string) => {
+      if (!fonts.has(id)) fonts.set(id, resolveFontName(page, id));
+      return fonts.get(id)!;
+    };
+
+    let current: TextWord | null = null;
+    let previous: { y: number; size: number; end: number; eol: boolean; lineY: number } | null = null;
+    const startParagraph = () => {
+      if (paragraphs.length > 0) paragraphs[paragraphs.length - 1].end = words.length;
+      paragraphs.push({ page: pageNumber, start: words.length, end: words.length });
+    };
+    const finishWord = () => {
+      if (current) words.push(current);
+      current = null;
+    };
+    startParagraph();
+
+    for (const item of content.items) {
+      if (!isTextItem(item)) continue;
+      const [a, b, c, d, e, f] = item.transform;
+      const size = Math.hypot(c, d) || Math.hypot(a, b) || 1;
+      const advance = Math.hypot(a, b) || 1;
+      const ux = a / advance;
+      const uy = b / advance;
+      // Up vector of the text, perpendicular to its advance
+      const vx = -uy;
+      const vy = ux;
+      if (item.str !== '') {
+        const y = f * vy + e * vx;
+        const x = e * ux + f * uy;
+        const newLine: boolean = !previous || previous.eol || Math.abs(y - previous.y) > 0.5 * Math.max(size, previous.size);
+        if (previous) {
+          if (newLine) {
+            finishWord();
+            const gap = previous.lineY - y;
+            const sizeChanged = Math.abs(size - previous.size) > 0.15 * Math.max(size, previous.size);
+            if (gap > 1.5 * Math.max(size, previous.size) || gap < -0.5 * size || sizeChanged) startParagraph();
+          } else if (x - previous.end > 0.15 * size) {
+            // A visible gap between runs on one line separates words
+            finishWord();
+          }
+        }
+        const length = item.str.length;
+        const font = fontName(item.fontName);
+        const corner = (offset: number, rise: number) => [e + ux * offset + vx * rise, f + uy * offset + vy * rise];
+        for (const match of item.str.matchAll(/\s+|\S+/g)) {
+          if (/^\s/.test(match[0])) {
+            finishWord();
+            continue;
+          }
+          const s0 = (item.width * match.index!) / length;
+          const s1 = (item.width * (match.index! + match[0].length)) / length;
+          const corners = [corner(s0, -DESCENT * size), corner(s1, -DESCENT * size), corner(s0, ASCENT * size), corner(s1, ASCENT * size)];
+          const xs = corners.map(point => point[0]);
+          const ys = corners.map(point => point[1]);
+          const rect = { x: Math.min(...xs), y: Math.min(...ys), width: Math.max(...xs) - Math.min(...xs), height: Math.max(...ys) - Math.min(...ys) };
+          if (current) {
+            // Continuation of a word split across text runs
+            const word: TextWord = current;
+            const x0 = Math.min(word.rect.x, rect.x);
+            const y0 = Math.min(word.rect.y, rect.y);
+            const x1 = Math.max(word.rect.x + word.rect.width, rect.x + rect.width);
+            const y1 = Math.max(word.rect.y + word.rect.height, rect.y + rect.height);
+            word.text += match[0];
+            word.rect = { x: x0, y: y0, width: x1 - x0, height: y1 - y0 };
+          } else {
+            current = { text: match[0], page: pageNumber, paragraph: paragraphs.length - 1, rect, font, size: Math.round(size * 10) / 10 };
+          }
+        }
+        previous = { y, size, end: x + item.width, eol: false, lineY: newLine || !previous ? y : previous.lineY };
+      }
+      if (item.hasEOL && previous) previous.eol = true;
+    }
+    finishWord();
+    paragraphs[paragraphs.length - 1].end = words.length;
+  }
+  // Blank pages and breaks leave empty paragraphs; drop them and renumber the words
+  const kept = paragraphs.filter(paragraph => paragraph.end > paragraph.start);
+  kept.forEach((paragraph, index) => {
+    for (let w = paragraph.start; w < paragraph.end; w++) words[w].paragraph = index;
+  });
+  return { pageCount, words, paragraphs: kept };
+}
+
+// Longest common subsequence for ranges without unique anchors
+function lcsDiff(a: string[], b: string[], aLo: number, aHi: number, bLo: number, bHi: number, out: DiffOp[]) {
+  const n = aHi - aLo;
+  const m = bHi - bLo;
+  if (n * m > 4_000_000) {
+    for (let i = aLo; i < aHi; i++) out.push({ type: 'delete', a: i });
+    for (let j = bLo; j < bHi; j++) out.push({ type: 'insert', b: j });
+    return;
+  }
+  const table = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[i * (m + 1) + j] = a[aLo + i] === b[bLo + j]
+        ? table[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(table[(i + 1) * (m + 1) + j], table[i * (m + 1) + j + 1]);
+    }
+  }
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[aLo + i] === b[bLo + j]) {
+      out.push({ type: 'equal', a: aLo + i++, b: bLo + j++ });
+    } else if (table[(i + 1) * (m + 1) + j] >= table[i * (m + 1) + j + 1]) {
+      out.push({ type: 'delete', a: aLo + i++ });
+    } else {
+      out.push({ type: 'insert', b: bLo + j++ });
+    }
+  }
+  for (; i < n; i++) out.push({ type: 'delete', a: aLo + i });
+  for (; j < m; j++) out.push({ type: 'insert', b: bLo + j });
+}
+
+// Indices of a longest increasing subsequence of `values`
+function longestIncreasing(values: number[]): number[] {
+  const tails: number[] = [];
+  const previous = new Int32Array(values.length).fill(-1);
+  values.forEach((value, index) => {
+    let lo = 0;
+    let hi = tails.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (values[tails[mid]] < value) lo = mid + 1;
+      else hi = mid;
+    }
+    if (lo > 0) previous[index] = tails[lo - 1];
+    tails[lo] = index;
+  });
+  const result: number[] = [];
+  for (let index = tails.length ? tails[tails.length - 1] : -1; index >= 0; index = previous[index]) result.push(index);
+  return result.reverse();
+}
+
+function patienceDiff(a: string[], b: string[], aLo: number, aHi: number, bLo: number, bHi: number, out: DiffOp[]) {
+  while (aLo < aHi && bLo < bHi && a[aLo] === b[bLo]) out.push({ type: 'equal', a: aLo++, b: bLo++ });
+  const suffix: DiffOp[] = [];
+  while (aLo < aHi && bLo < bHi && a[aHi - 1] === b[bHi - 1]) suffix.unshift({ type: 'equal', a: --aHi, b: --bHi });
+
+  if (aLo === aHi || bLo === bHi) {
+    for (let i = aLo; i < aHi; i++) out.push({ type: 'delete', a: i });
+    for (let j = bLo; j < bHi; j++) out.push({ type: 'insert', b: j });
+  } else {
+    // Words occurring exactly once on each side anchor the alignment
+    const counts = new Map<string, { a: number; b: number; ai: number; bi: number }>();
+    for (let i = aLo; i < aHi; i++) {
+      const entry = counts.get(a[i]) ?? { a: 0, b: 0, ai: i, bi: -1 };
+      entry.a++;
+      counts.set(a[i], entry);
+    }
+    for (let j = bLo; j < bHi; j++) {
+      const entry = counts.get(b[j]);
+      if (!entry) continue;
+      entry.b++;
+      entry.bi = j;
+    }
+    const candidates = [...counts.values()].filter(entry => entry.a === 1 && entry.b === 1).sort((p, q) => p.ai - q.ai);
+    const anchors = longestIncreasing(candidates.map(entry => entry.bi)).map(index => candidates[index]);
+    if (anchors.length === 0) {
+      lcsDiff(a, b, aLo, aHi, bLo, bHi, out);
+    } else {
+      let i = aLo;
+      let j = bLo;
+      for (const anchor of anchors) {
+        patienceDiff(a, b, i, anchor.ai, j, anchor.bi, out);
+        out.push({ type: 'equal', a: anchor.ai, b: anchor.bi });
+        i = anchor.ai + 1;
+        j = anchor.bi + 1;
+      }
+      patienceDiff(a, b, i, aHi, j, bHi, out);
+    }
+  }
+  out.push(...suffix);
+}
+
+// Longest run of equal keys shared by two index lists
+function longestCommonRun(keysA: string[], runA: number[], keysB: string[], runB: number[]) {
+  let best = { length: 0, i: 0, j: 0 };
+  let row = new Uint32Array(runB.length + 1);
+  for (let i = 1; i <= runA.length; i++) {
+    const next = new Uint32Array(runB.length + 1);
+    for (let j = 1; j <= runB.length; j++) {
+      if (keysA[runA[i - 1]] !== keysB[runB[j - 1]]) continue;
+      next[j] = row[j - 1] + 1;
+      if (next[j] > best.length) best = { length: next[j], i: i - next[j], j: j - next[j] };
+    }
+    row = next;
+  }
+  return best;
+}
+
+/** Align two extracted documents and classify what changed between them. */
+export function diffTextStructures(a: ExtractedText, b: ExtractedText, options: TextDiffOptions = {}): StructuredTextDiff {
+  const minMoved = options.minMovedWords ?? 4;
+  const sizeTolerance = options.sizeTolerance ?? 0.5;
+  const key = (word: TextWord) => (options.ignoreCase ? word.text.toLowerCase() : word.text);
+  const keysA = a.words.map(key);
+  const keysB = b.words.map(key);
+  const ops: DiffOp[] = [];
+  patienceDiff(keysA, keysB, 0, keysA.length, 0, keysB.length, ops);
+
+  // Unmatched stretches between equal words; each holds its deleted and inserted words
+  const regions: { deleted: number[]; inserted: number[] }[] = [];
+  const equalPairs: [number, number][] = [];
+  let open: { deleted: number[]; inserted: number[] } | null = null;
+  for (const op of ops) {
+    if (op.type === 'equal') {
+      equalPairs.push([op.a, op.b]);
+      open = null;
+      continue;
+    }
+    if (!open) regions.push((open = { deleted: [], inserted: [] }));
+    if (op.type === 'delete') open.deleted.push(op.a);
+    else open.inserted.push(op.b);
+  }
+
+  // Moved text: the longest shared run between deletions in one stretch and insertions in another
+  const changes: TextChange[] = [];
+  const movedA = new Set<number>();
+  const movedB = new Set<number>();
+  for (;;) {
+    let best: { length: number; a: number[]; b: number[] } = { length: 0, a: [], b: [] };
+    regions.forEach((from, fromIndex) => {
+      const deleted = from.deleted.filter(index => !movedA.has(index));
+      if (deleted.length < minMoved) return;
+      regions.forEach((to, toIndex) => {
+        if (toIndex === fromIndex) return;
+        const inserted = to.inserted.filter(index => !movedB.has(index));
+        if (inserted.length < minMoved) return;
+        const run = longestCommonRun(keysA, deleted, keysB, inserted);
+        if (run.length > best.length) {
+          best = { length: run.length, a: deleted.slice(run.i, run.i + run.length), b: inserted.slice(run.j, run.j + run.length) };
+        }
+      });
+    });
+    if (best.length < minMoved) break;
+    best.a.forEach(index => movedA.add(index));
+    best.b.forEach(index => movedB.add(index));
+    changes.push({ kind: 'moved', a: best.a, b: best.b });
+  }
+
+  for (const region of regions) {
+    const deleted = region.deleted.filter(index => !movedA.has(index));
+    const inserted = region.inserted.filter(index => !movedB.has(index));
+    const sameLetters = deleted.map(index => keysA[index]).join('') === inserted.map(index => keysB[index]).join('');
+    if (options.ignoreWhitespace && deleted.length > 0 && inserted.length > 0 && sameLetters) continue;
+    if (deleted.length > 0 && inserted.length > 0) changes.push({ kind: 'replaced', a: deleted, b: inserted });
+    else if (deleted.length > 0) changes.push({ kind: 'deleted', a: deleted, b: [] });
+    else if (inserted.length > 0) changes.push({ kind: 'inserted', a: [], b: inserted });
+  }
+
+  // Formatting-only changes: consecutive aligned words whose font or size differ
+  let formatting: TextChange | null = null;
+  let lastPair = -2;
+  equalPairs.forEach(([i, j], pairIndex) => {
+    const wa = a.words[i];
+    const wb = b.words[j];
+    const differs = wa.font !== wb.font || Math.abs(wa.size - wb.size) > sizeTolerance;
+    if (!differs) return;
+    const sameStyle = formatting && a.words[formatting.a[0]].font === wa.font && b.words[formatting.b[0]].font === wb.font
+      && a.words[formatting.a[0]].size === wa.size && b.words[formatting.b[0]].size === wb.size;
+    if (formatting && lastPair === pairIndex - 1 && sameStyle) {
+      formatting.a.push(i);
+      formatting.b.push(j);
+    } else {
+      formatting = { kind: 'formatting', a: [i], b: [j] };
+      changes.push(formatting);
+    }
+    lastPair = pairIndex;
+  });
+
+  const position = (change: TextChange) => (change.b.length > 0 ? change.b[0] : Number.MAX_SAFE_INTEGER);
+  changes.sort((p, q) => position(p) - position(q) || (p.a[0] ?? 0) - (q.a[0] ?? 0));
+
+  // Paragraph-level summary: wholly inserted, deleted or moved paragraphs, or modified ones
+  const paragraphs: ParagraphChange[] = [];
+  const status = (side: 'a' | 'b') => {
+    const marks = new Map<number, TextChangeKind>();
+    for (const change of changes) for (const index of change[side]) marks.set(index, change.kind);
+    return marks;
+  };
+  for (const side of ['a', 'b'] as const) {
+    const doc = side === 'a' ? a : b;
+    const marks = status(side);
+    doc.paragraphs.forEach((paragraph, index) => {
+      const kinds = new Set<TextChangeKind | 'equal'>();
+      for (let w = paragraph.start; w < paragraph.end; w++) kinds.add(marks.get(w) ?? 'equal');
+      if (kinds.size === 1 && kinds.has('deleted') && side === 'a') paragraphs.push({ kind: 'deleted', side, paragraph: index });
+      else if (kinds.size === 1 && kinds.has('inserted') && side === 'b') paragraphs.push({ kind: 'inserted', side, paragraph: index });
+      else if (kinds.size === 1 && kinds.has('moved') && side === 'b') paragraphs.push({ kind: 'moved', side, paragraph: index });
+      else if (side === 'b' && [...kinds].some(kind => kind !== 'equal' && kind !== 'moved')) paragraphs.push({ kind: 'modified', side, paragraph: index });
+    });
+  }
+
+  // Page alignment from where the matched words of each page ended up
+  const pageMap = Array.from({ length: a.pageCount }, (_, index) => {
+    const votes = new Map<number, number>();
+    for (const [i, j] of equalPairs) {
+      if (a.words[i].page === index + 1) votes.set(b.words[j].page, (votes.get(b.words[j].page) ?? 0) + 1);
+    }
+    const best = [...votes.entries()].sort((p, q) => q[1] - p[1])[0];
+    return { page: index + 1, matches: best ? best[0] : null };
+  });
+
+  const matched = equalPairs.length + movedA.size;
+  const total = a.words.length + b.words.length;
+  return { a, b, changes, paragraphs, pageMap, similarity: total === 0 ? 1 : (2 * matched) / total };
+}
+
+const excerpt = (words: TextWord[], indices: number[], limit = 12) =>
+  indices.slice(0, limit).map(index => words[index].text).join(' ') + (indices.length > limit ? ' …' : '');
+
+const pagesOf = (words: TextWord[], indices: number[]) => {
+  const pages = [...new Set(indices.map(index => words[index].page))];
+  return pages.length === 1 ? `page ${pages[0]}` : `pages ${pages[0]}-${pages[pages.length - 1]}`;
+};
+
+/** One-line description of a change; `quote` wraps quoted text, e.g. to highlight it. */
+export function describeTextChange(diff: StructuredTextDiff, change: TextChange, quote: (text: string, side: 'a' | 'b') => string = text => `"${text}"`): string {
+  const { a, b } = diff;
+  switch (change.kind) {
+    case 'inserted':
+      return `Inserted on ${pagesOf(b.words, change.b)}: ${quote(excerpt(b.words, change.b), 'b')}`;
+    case 'deleted':
+      return `Deleted from ${pagesOf(a.words, change.a)}: ${quote(excerpt(a.words, change.a), 'a')}`;
+    case 'replaced':
+      return `Changed on ${pagesOf(b.words, change.b)}: ${quote(excerpt(a.words, change.a), 'a')} → ${quote(excerpt(b.words, change.b), 'b')}`;
+    case 'moved':
+      return `Moved from ${pagesOf(a.words, change.a)} to ${pagesOf(b.words, change.b)}: ${quote(excerpt(b.words, change.b), 'b')}`;
+    case 'formatting': {
+      const wa = a.words[change.a[0]];
+      const wb = b.words[change.b[0]];
+      return `Formatting changed on ${pagesOf(b.words, change.b)}: ${quote(excerpt(b.words, change.b), 'b')} (${wa.font} ${wa.size}pt → ${wb.font} ${wb.size}pt)`;
+    }
+  }
+}
+
+const HIGHLIGHT_COLORS: Record<TextChangeKind, [number, number, number]> = {
+  inserted: [0.2, 0.75, 0.3],
+  deleted: [0.95, 0.3, 0.3],
+  replaced: [1, 0.85, 0.2],
+  moved: [0.3, 0.55, 1],
+  formatting: [1, 0.55, 0.1],
+};
+
+/**
+ * Highlight every change on one side of the diff in that side's PDF, one
+ * annotation per change and page with a quad per line of words.
+ */
+export function highlightTextChanges(pdfDoc: PDFDocument, diff: StructuredTextDiff, side: 'a' | 'b', title = 'PDF Compare'): number {
+  const words = diff[side].words;
+  const pages = pdfDoc.getPages();
+  let count = 0;
+  diff.changes.forEach(change => {
+    const byPage = new Map<number, AnnotationRect[]>();
+    let previous: TextWord | null = null;
+    for (const index of change[side]) {
+      const word = words[index];
+      const rects = byPage.get(word.page) ?? [];
+      const last = rects[rects.length - 1];
+      // Words next to each other on a line share one quad
+      const sameLine = previous && last && previous.page === word.page && index > 0 && words[index - 1] === previous
+        && Math.abs(last.y - word.rect.y) < word.rect.height * 0.5;
+      if (sameLine && last) {
+        const x1 = Math.max(last.x + last.width, word.rect.x + word.rect.width);
+        last.x = Math.min(last.x, word.rect.x);
+        last.width = x1 - last.x;
+        last.height = Math.max(last.height, word.rect.height);
+      } else {
+        rects.push({ ...word.rect });
+      }
+      byPage.set(word.page, rects);
+      previous = word;
+    }
+    const description = describeTextChange(diff, change);
+    byPage.forEach((rects, pageNumber) => {
+      const page = pages[pageNumber - 1];
+      if (!page || rects.length === 0) return;
+      addHighlightAnnotation(pdfDoc, page, rects, { color: HIGHLIGHT_COLORS[change.kind], contents: description, title });
+      count++;
+    });
+  });
+  return count;
+}
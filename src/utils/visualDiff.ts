@@ -0,0 +1,164 @@
+// Visual page diff
+// Compares two renders pixel by pixel and groups the changed pixels into boxed
+// regions. Colors are compared in YIQ space, weighted the way the eye is, after
+// blending onto white so transparent and white backgrounds match. Renders of
+// different sizes are aligned at the top-left; the uncovered area counts as white.
+
+import { PixelBuffer } from './imageKernels';
+
+export interface PixelDiffOptions {
+  // Minimum perceptual color difference that counts as a change, 0-1
+  threshold?: number;
+}
+
+export interface PixelDiff {
+  width: number;
+  height: number;
+  // 1 where the renders differ, row-major
+  mask: Uint8Array;
+  changedPixels: number;
+}
+
+export interface DiffRegion {
+  // Pixels, top-left origin, x1/y1 exclusive
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+  changedPixels: number;
+}
+
+export interface DiffRegionOptions {
+  // Side of the grid cells changed pixels are bucketed into
+  cellSize?: number;
+  // Cells this far apart still join the same region
+  gap?: number;
+  // Regions with fewer changed pixels are treated as noise
+  minPixels?: number;
+}
+
+// Largest possible squared YIQ distance, between black and white
+const MAX_YIQ_DELTA = 35215;
+
+function blendedRGB(data: Uint8ClampedArray, index: number, out: number[]) {
+  const alpha = data[index + 3] / 255;
+  out[0] = 255 + (data[index] - 255) * alpha;
+  out[1] = 255 + (data[index + 1] - 255) * alpha;
+  out[2] = 255 + (data[index + 2] - 255) * alpha;
+}
+
+function yiqDelta(a: number[], b: number[]): number {
+  const y = (a[0] - b[0]) * 0.29889531 + (a[1] - b[1]) * 0.58662247 + (a[2] - b[2]) * 0.11448223;
+  const i = (a[0] - b[0]) * 0.59597799 - (a[1] - b[1]) * 0.2741761 - (a[2] - b[2]) * 0.32180189;
+  const q = (a[0] - b[0]) * 0.21147017 - (a[1] - b[1]) * 0.52261711 + (a[2] - b[2]) * 0.31114694;
+  return 0.5053 * y * y + 0.299 * i * i + 0.1957 * q * q;
+}
+
+/** Per-pixel difference of two renders over the union of their sizes. */
+export function diffPixels(a: PixelBuffer, b: PixelBuffer, options: PixelDiffOptions = {}): PixelDiff {
+  const width = Math.max(a.width, b.width);
+  const height = Math.max(a.height, b.height);
+  const limit = MAX_YIQ_DELTA * (options.threshold ?? 0.1) ** 2;
+  const mask = new Uint8Array(width * height);
+  const white = [255, 255, 255];
+  const pixelA = [0, 0, 0];
+  const pixelB = [0, 0, 0];
+  let changedPixels = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const inA = x < a.width && y < a.height;
+      const inB = x < b.width && y < b.height;
+      if (inA) blendedRGB(a.data, (y * a.width + x) * 4, pixelA);
+      if (inB) blendedRGB(b.data, (y * b.width + x) * 4, pixelB);
+      if (yiqDelta(inA ? pixelA : white, inB ? pixelB : white) > limit) {
+        mask[y * width + x] = 1;
+        changedPixels++;
+      }
+    }
+  }
+  return { width, height, mask, changedPixels };
+}
+
+/**
+ * Group changed pixels into boxes. Pixels are bucketed into grid cells and
+ * cells within `gap` of each other are joined, so a reworded line becomes
+ * one region rather than one per glyph.
+ */
+export function diffRegions(diff: PixelDiff, options: DiffRegionOptions = {}): DiffRegion[] {
+  const cellSize = Math.max(1, options.cellSize ?? 8);
+  const gap = Math.max(0, options.gap ?? 2);
+  const minPixels = options.minPixels ?? 4;
+  const { width, height, mask } = diff;
+  const cols = Math.ceil(width / cellSize);
+  const rows = Math.ceil(height / cellSize);
+  const count = new Uint32Array(cols * rows);
+  // Exact bounds of the changed pixels in each cell
+  const bounds = new Int32Array(cols * rows * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!mask[y * width + x]) continue;
+      const cell = Math.floor(y / cellSize) * cols + Math.floor(x / cellSize);
+      const b = cell * 4;
+      if (count[cell]++ === 0) {
+        bounds[b] = x;
+        bounds[b + 1] = y;
+        bounds[b + 2] = x + 1;
+        bounds[b + 3] = y + 1;
+      } else {
+        bounds[b] = Math.min(bounds[b], x);
+        bounds[b + 2] = Math.max(bounds[b + 2], x + 1);
+        bounds[b + 3] = y + 1;
+      }
+    }
+  }
+
+  const regions: DiffRegion[] = [];
+  const visited = new Uint8Array(cols * rows);
+  const stack: number[] = [];
+  for (let start = 0; start < count.length; start++) {
+    if (count[start] === 0 || visited[start]) continue;
+    const region: DiffRegion = { x0: width, y0: height, x1: 0, y1: 0, changedPixels: 0 };
+    visited[start] = 1;
+    stack.push(start);
+    while (stack.length > 0) {
+      const cell = stack.pop()!;
+      const b = cell * 4;
+      region.x0 = Math.min(region.x0, bounds[b]);
+      region.y0 = Math.min(region.y0, bounds[b + 1]);
+      region.x1 = Math.max(region.x1, bounds[b + 2]);
+      region.y1 = Math.max(region.y1, bounds[b + 3]);
+      region.changedPixels += count[cell];
+      const col = cell % cols;
+      const row = (cell - col) / cols;
+      for (let r = Math.max(0, row - gap - 1); r <= Math.min(rows - 1, row + gap + 1); r++) {
+        for (let c = Math.max(0, col - gap - 1); c <= Math.min(cols - 1, col + gap + 1); c++) {
+          const next = r * cols + c;
+          if (count[next] > 0 && !visited[next]) {
+            visited[next] = 1;
+            stack.push(next);
+          }
+        }
+      }
+    }
+    if (region.changedPixels >= minPixels) regions.push(region);
+  }
+  return regions.sort((p, q) => p.y0 - q.y0 || p.x0 - q.x0);
+}
+
+/**
+ * Paint the changed pixels of `diff` onto `target` (usually a faded copy of
+ * one render) in the given color.
+ */
+export function paintDiffMask(target: PixelBuffer, diff: PixelDiff, color: [number, number, number, number] = [220, 38, 38, 255]) {
+  const { data, width, height } = target;
+  for (let y = 0; y < Math.min(height, diff.height); y++) {
+    for (let x = 0; x < Math.min(width, diff.width); x++) {
+      if (!diff.mask[y * diff.width + x]) continue;
+      const i = (y * width + x) * 4;
+      data[i] = color[0];
+      data[i + 1] = color[1];
+      data[i + 2] = color[2];
+      data[i + 3] = color[3];
+    }
+  }
+}
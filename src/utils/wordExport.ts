@@ -0,0 +1,258 @@
+// Word processor output for reconstructed PDF layouts
+// Turns the pages built by pdfLayout.ts into DOCX (with the docx library),
+// RTF, HTML for the legacy .doc option, and plain text. In DOCX every band of
+// a page becomes its own section so column counts can change mid-page; the
+// first band of each page starts on a new page, which keeps page breaks where
+// the PDF had them.
+
+import {
+  AlignmentType,
+  ColumnBreak,
+  Document,
+  HeadingLevel,
+  ImageRun,
+  LineRuleType,
+  Packer,
+  Paragraph,
+  ParagraphChild,
+  SectionType,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType,
+} from 'docx';
+import { DocumentLayout, LayoutBlock, LayoutImage, LayoutParagraph, LayoutRun, PageLayout } from './pdfLayout';
+
+export interface WordExportOptions {
+  // Keep fonts, sizes and weights of the source text
+  preserveFormatting: boolean;
+  // Keep alignment, indents, spacing and columns
+  maintainLayout: boolean;
+}
+
+const twips = (points: number) => Math.round(points * 20);
+// docx sizes pictures in pixels at 96 dpi
+const pixels = (points: number) => Math.round((points * 96) / 72);
+
+const HEADINGS = [HeadingLevel.HEADING_1, HeadingLevel.HEADING_2, HeadingLevel.HEADING_3];
+
+const ALIGNMENTS = {
+  left: AlignmentType.LEFT,
+  center: AlignmentType.CENTER,
+  right: AlignmentType.RIGHT,
+  justify: AlignmentType.JUSTIFIED,
+};
+
+// ---------------------------------------------------------------------------
+// DOCX
+// ---------------------------------------------------------------------------
+
+function textRuns(runs: LayoutRun[], options: WordExportOptions): TextRun[] {
+  return runs.map(run => options.preserveFormatting
+    ? new TextRun({ text: run.text, font: run.font, size: Math.round(run.size * 2), bold: run.bold, italics: run.italic })
+    : new TextRun({ text: run.text }));
+}
+
+function imageRun(block: LayoutImage, maxWidth: number): ImageRun {
+  const { image } = block;
+  const scale = Math.min(1, maxWidth / image.width);
+  return new ImageRun({
+    type: image.format,
+    data: image.data,
+    transformation: { width: pixels(image.width * scale), height: pixels(image.height * scale) },
+  });
+}
+
+function paragraphElement(block: LayoutParagraph, leading: ParagraphChild[], options: WordExportOptions): Paragraph {
+  const layout = options.maintainLayout;
+  return new Paragraph({
+    children: [...leading, ...textRuns(block.runs, options)],
+    heading: block.heading > 0 ? HEADINGS[block.heading - 1] : undefined,
+    alignment: layout ? ALIGNMENTS[block.align] : undefined,
+    indent: layout && (block.indentLeft || block.firstLineIndent) ? {
+      left: twips(block.indentLeft + Math.max(0, -block.firstLineIndent)),
+      ...(block.firstLineIndent > 0 ? { firstLine: twips(block.firstLineIndent) } : {}),
+      ...(block.firstLineIndent < 0 ? { hanging: twips(-block.firstLineIndent) } : {}),
+    } : undefined,
+    spacing: layout
+      ? { before: twips(block.spaceBefore), after: 0, ...(block.lineSpacing > 0 ? { line: twips(block.lineSpacing), lineRule: LineRuleType.AT_LEAST } : {}) }
+      : { after: 120 },
+  });
+}
+
+function tableElement(block: Extract<LayoutBlock, { type: 'table' }>, options: WordExportOptions): Table {
+  const widths = block.columnWidths.map(twips);
+  return new Table({
+    width: { size: widths.reduce((sum, width) => sum + width, 0), type: WidthType.DXA },
+    columnWidths: widths,
+    rows: block.rows.map(cells => new TableRow({
+      children: cells.map((runs, i) => new TableCell({
+        width: { size: widths[i], type: WidthType.DXA },
+        children: [new Paragraph({ children: textRuns(runs, options) })],
+      })),
+    })),
+  });
+}
+
+// The column break that moves to the next column rides on the first
+// paragraph of that column; tables and empty columns get a paragraph of their own
+function columnElements(blocks: LayoutBlock[], columnWidth: number, breakBefore: boolean, options: WordExportOptions): (Paragraph | Table)[] {
+  const elements: (Paragraph | Table)[] = [];
+  let pendingBreak = breakBefore;
+  const leading = (): ParagraphChild[] => {
+    if (!pendingBreak) return [];
+    pendingBreak = false;
+    return [new ColumnBreak()];
+  };
+  for (const block of blocks) {
+    if (block.type === 'paragraph') {
+      elements.push(paragraphElement(block, leading(), options));
+    } else if (block.type === 'image') {
+      elements.push(new Paragraph({
+        children: [...leading(), imageRun(block, columnWidth)],
+        alignment: options.maintainLayout ? ALIGNMENTS[block.align] : undefined,
+        spacing: options.maintainLayout ? { before: twips(block.spaceBefore), after: 0 } : { after: 120 },
+      }));
+    } else {
+      if (pendingBreak) elements.push(new Paragraph({ children: leading() }));
+      elements.push(tableElement(block, options));
+    }
+  }
+  if (pendingBreak) elements.push(new Paragraph({ children: leading() }));
+  return elements;
+}
+
+function pageSections(page: PageLayout, options: WordExportOptions) {
+  const properties = {
+    page: {
+      size: { width: twips(page.width), height: twips(page.height) },
+      margin: { top: twips(page.margins.top), right: twips(page.margins.right), bottom: twips(page.margins.bottom), left: twips(page.margins.left) },
+    },
+  };
+  const textWidth = page.width - page.margins.left - page.margins.right;
+  // Without layout the columns of each band are read one after another
+  const bands = options.maintainLayout ? page.bands : [{ columns: [page.bands.flatMap(band => band.columns.flat())], gutter: 0 }];
+  if (bands.length === 0) bands.push({ columns: [[]], gutter: 0 });
+  return bands.map((band, index) => {
+    const count = band.columns.length;
+    const columnWidth = (textWidth - band.gutter * (count - 1)) / count;
+    const children = band.columns.flatMap((blocks, column) => columnElements(blocks, columnWidth, column > 0, options));
+    return {
+      properties: {
+        ...properties,
+        type: index === 0 ? SectionType.NEXT_PAGE : SectionType.CONTINUOUS,
+        ...(count > 1 ? { column: { count, space: twips(band.gutter), equalWidth: true } } : {}),
+      },
+      // A section needs at least one paragraph
+      children: children.length > 0 ? children : [new Paragraph({})],
+    };
+  });
+}
+
+/** Build a DOCX file with one or more sections per source page. */
+export async function layoutToDocx(layout: DocumentLayout, options: WordExportOptions): Promise<Blob> {
+  const doc = new Document({
+    styles: {
+      default: {
+        document: { run: { font: 'Calibri', size: Math.round(layout.bodySize * 2) } },
+      },
+    },
+    sections: layout.pages.flatMap(page => pageSections(page, options)),
+  });
+  return Packer.toBlob(doc);
+}
+
+// ---------------------------------------------------------------------------
+// Plain text, HTML and RTF
+// ---------------------------------------------------------------------------
+
+const runsText = (runs: LayoutRun[]) => runs.map(run => run.text).join('').trim();
+
+// Blocks in reading order: bands top to bottom, columns left to right
+const readingOrder = (page: PageLayout) => page.bands.flatMap(band => band.columns.flat());
+
+/** Plain text, one paragraph per line with tables tab separated. */
+export function layoutToText(layout: DocumentLayout): string {
+  return layout.pages.map(page => readingOrder(page).flatMap(block => {
+    if (block.type === 'paragraph') return [runsText(block.runs)];
+    if (block.type === 'table') return [block.rows.map(cells => cells.map(runsText).join('\t')).join('\n')];
+    return [];
+  }).join('\n\n')).join('\n\n\f');
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+function htmlRuns(runs: LayoutRun[], options: WordExportOptions): string {
+  return runs.map(run => {
+    let html = escapeHtml(run.text);
+    if (!options.preserveFormatting) return html;
+    if (run.bold) html = `<b>${html}</b>`;
+    if (run.italic) html = `<i>${html}</i>`;
+    return `<span style="font-family:'${run.font}';font-size:${run.size}pt">${html}</span>`;
+  }).join('');
+}
+
+/** HTML that Word opens as a document, used for the legacy .doc output. */
+export function layoutToHtml(layout: DocumentLayout, options: WordExportOptions): string {
+  const pages = layout.pages.map(page => readingOrder(page).map(block => {
+    if (block.type === 'paragraph') {
+      const tag = block.heading > 0 ? `h${block.heading}` : 'p';
+      const style = options.maintainLayout
+        ? ` style="text-align:${block.align};margin:${block.spaceBefore}pt 0 0 ${block.indentLeft}pt;text-indent:${block.firstLineIndent}pt"`
+        : '';
+      return `<${tag}${style}>${htmlRuns(block.runs, options)}</${tag}>`;
+    }
+    if (block.type === 'table') {
+      const rows = block.rows.map(cells => `<tr>${cells.map((runs, i) =>
+        `<td style="width:${block.columnWidths[i]}pt">${htmlRuns(runs, options)}</td>`).join('')}</tr>`);
+      return `<table border="1" cellspacing="0" cellpadding="4">${rows.join('')}</table>`;
+    }
+    // Word does not load data: URLs from HTML documents
+    return '';
+  }).join('\n'));
+  return `<!DOCTYPE html>\n<html>\n<head>\n<meta charset='UTF-8'><title>Converted PDF</title></head>\n<body>\n${
+    pages.join('\n<br style="page-break-before:always">\n')}\n</body>\n</html>`;
+}
+
+// Non-ASCII characters as \uN? with signed 16-bit code units
+const escapeRtf = (text: string) => Array.from(text).map(char => {
+  if (char === '\\' || char === '{' || char === '}') return `\\${char}`;
+  const code = char.codePointAt(0)!;
+  if (code < 0x80) return char;
+  return Array.from(char.length > 1 ? [char.charCodeAt(0), char.charCodeAt(1)] : [code])
+    .map(unit => `\\u${unit > 0x7fff ? unit - 0x10000 : unit}?`).join('');
+}).join('');
+
+/** RTF with fonts, sizes, headings and tables. */
+export function layoutToRtf(layout: DocumentLayout, options: WordExportOptions): string {
+  const fonts: string[] = ['Times New Roman'];
+  const fontIndex = (name: string) => {
+    if (!fonts.includes(name)) fonts.push(name);
+    return fonts.indexOf(name);
+  };
+  const runs = (items: LayoutRun[]) => items.map(run => options.preserveFormatting
+    ? `{\\f${fontIndex(run.font)}\\fs${Math.round(run.size * 2)}${run.bold ? '\\b' : ''}${run.italic ? '\\i' : ''} ${escapeRtf(run.text)}}`
+    : escapeRtf(run.text)).join('');
+  const alignments = { left: '\\ql', center: '\\qc', right: '\\qr', justify: '\\qj' };
+
+  const body = layout.pages.map(page => readingOrder(page).map(block => {
+    if (block.type === 'paragraph') {
+      const layoutWords = options.maintainLayout
+        ? `${alignments[block.align]}\\sb${twips(block.spaceBefore)}\\li${twips(block.indentLeft)}\\fi${twips(block.firstLineIndent)}`
+        : '\\sa120';
+      const heading = block.heading > 0 && !options.preserveFormatting ? `\\b\\fs${[36, 30, 26][block.heading - 1]} ` : '';
+      return `{\\pard${layoutWords}${block.heading > 0 ? `\\outlinelevel${block.heading - 1}` : ''} ${heading}${runs(block.runs)}\\par}`;
+    }
+    if (block.type === 'table') {
+      let edge = 0;
+      const cells = block.columnWidths.map(width => `\\cellx${(edge += twips(width))}`).join('');
+      return block.rows.map(row => `{\\trowd\\trgaph72${cells}${row.map(cell => `\\pard\\intbl ${runs(cell)}\\cell`).join('')}\\row}`).join('\n');
+    }
+    return '';
+  }).filter(Boolean).join('\n')).join('\n\\page\n');
+
+  const fontTable = fonts.map((name, i) => `{\\f${i} ${escapeRtf(name)};}`).join('');
+  return `{\\rtf1\\ansi\\deff0 {\\fonttbl ${fontTable}}\n\\fs${Math.round(layout.bodySize * 2)}\n${body}\n}`;
+}
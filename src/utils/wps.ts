@@ -0,0 +1,715 @@
+// WPS Office documents (.wps, .et, .dps)
+// WPS saves either OOXML zips or the legacy binary Office formats inside a
+// compound file, whatever the extension says, so the container and its
+// streams decide the reader. Writer OOXML goes through mammoth and
+// spreadsheets (OOXML or BIFF) through xlsx. Legacy Writer and presentation
+// files get a text-and-table extraction from the Word binary piece table and
+// the PowerPoint record stream. Anything else falls back to recovered text.
+
+import JSZip from 'jszip';
+import mammoth from 'mammoth';
+import * as XLSX from 'xlsx';
+import { CompoundFile, isCompoundFile } from './cfb';
+import {
+  DEFAULT_BORDER,
+  DEFAULT_TEXT_STYLE,
+  DocumentBlock,
+  FlowDocument,
+  ParagraphBlock,
+  TableBlock,
+  TableCell,
+  TextRun,
+  TextStyle,
+} from './documentLayout';
+
+export type WPSKind = 'writer' | 'spreadsheet' | 'presentation';
+
+export interface WPSDocument {
+  kind: WPSKind;
+  // Human-readable description of the detected format
+  format: string;
+  doc: FlowDocument;
+}
+
+export class WPSFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WPSFormatError';
+  }
+}
+
+// WPS and Word default to 10.5 pt body text
+const BODY_STYLE: TextStyle = { ...DEFAULT_TEXT_STYLE, fontSize: 10.5 };
+const CELL_PADDING = { top: 2, right: 3, bottom: 2, left: 3 };
+const HEADING_SIZES: Record<string, number> = { H1: 20, H2: 16, H3: 14, H4: 12, H5: 11, H6: 10.5 };
+
+function paragraph(runs: TextRun[], overrides: Partial<ParagraphBlock> = {}): ParagraphBlock {
+  return {
+    type: 'paragraph',
+    align: 'left',
+    indentLeft: 0,
+    indentRight: 0,
+    firstLineIndent: 0,
+    spaceBefore: 0,
+    spaceAfter: 6,
+    lineSpacing: { mode: 'percent', value: 130 },
+    runs: runs.length > 0 ? runs : [{ text: '', style: BODY_STYLE }],
+    ...overrides,
+  };
+}
+
+function tableCell(row: number, col: number, blocks: DocumentBlock[], span: Partial<TableCell> = {}): TableCell {
+  return {
+    row,
+    col,
+    rowSpan: 1,
+    colSpan: 1,
+    padding: CELL_PADDING,
+    borders: { top: DEFAULT_BORDER, right: DEFAULT_BORDER, bottom: DEFAULT_BORDER, left: DEFAULT_BORDER },
+    verticalAlign: 'top',
+    blocks: blocks.length > 0 ? blocks : [paragraph([], { spaceAfter: 0 })],
+    ...span,
+  };
+}
+
+function textParagraphs(text: string): DocumentBlock[] {
+  return text
+    .split(/\r\n|\r|\n/)
+    .map(line => paragraph(line ? [{ text: line, style: BODY_STYLE }] : []));
+}
+
+function dataView(data: Uint8Array): DataView {
+  return new DataView(data.buffer, data.byteOffset, data.byteLength);
+}
+
+// ---------------------------------------------------------------------------
+// HTML from mammoth
+
+function inlineRuns(node: Node, style: TextStyle, runs: TextRun[]) {
+  if (node.nodeType === 3) {
+    const text = (node.nodeValue ?? '').replace(/\s+/g, ' ');
+    if (!text) return;
+    const last = runs[runs.length - 1];
+    if (last && last.style === style) last.text += text;
+    else runs.push({ text, style });
+    return;
+  }
+  if (node.nodeType !== 1) return;
+  const element = node as Element;
+  const tag = element.tagName;
+  if (tag === 'BR') {
+    runs.push({ text: '\n', style });
+    return;
+  }
+  if (tag === 'UL' || tag === 'OL' || tag === 'TABLE' || tag === 'IMG') return;
+  let next = style;
+  if (tag === 'B' || tag === 'STRONG') next = { ...next, bold: true };
+  if (tag === 'I' || tag === 'EM') next = { ...next, italic: true };
+  if (tag === 'U') next = { ...next, underline: true };
+  if (tag === 'S' || tag === 'DEL' || tag === 'STRIKE') next = { ...next, strike: true };
+  element.childNodes.forEach(child => inlineRuns(child, next, runs));
+}
+
+function trimRuns(runs: TextRun[]): TextRun[] {
+  if (runs.length > 0) {
+    runs[0].text = runs[0].text.replace(/^ +/, '');
+    runs[runs.length - 1].text = runs[runs.length - 1].text.replace(/ +$/, '');
+  }
+  return runs.filter(run => run.text !== '');
+}
+
+function htmlTable(table: HTMLTableElement): TableBlock {
+  const cells: TableCell[] = [];
+  // Columns still covered by a rowspan from an earlier row
+  const occupied: number[] = [];
+  let cols = 0;
+  Array.from(table.rows).forEach((tr, row) => {
+    let col = 0;
+    for (const td of Array.from(tr.cells)) {
+      while ((occupied[col] ?? 0) > row) col++;
+      const colSpan = Math.max(td.colSpan || 1, 1);
+      const rowSpan = Math.max(td.rowSpan || 1, 1);
+      const style = td.tagName === 'TH' ? { ...BODY_STYLE, bold: true } : BODY_STYLE;
+      cells.push(tableCell(row, col, htmlBlocks(td, style), { colSpan, rowSpan }));
+      for (let c = col; c < col + colSpan; c++) occupied[c] = row + rowSpan;
+      col += colSpan;
+    }
+    cols = Math.max(cols, col, occupied.length);
+  });
+  return { type: 'table', rows: table.rows.length, cols, cells };
+}
+
+function listBlocks(list: Element, style: TextStyle, depth: number): DocumentBlock[] {
+  const items = Array.from(list.children).filter(element => element.tagName === 'LI');
+  return items.flatMap((li, index) => {
+    const runs: TextRun[] = [];
+    inlineRuns(li, style, runs);
+    const marker = list.tagName === 'OL' ? `${index + 1}. ` : '\u2022 ';
+    const item = paragraph([{ text: marker, style }, ...trimRuns(runs)], { indentLeft: 18 * (depth + 1), firstLineIndent: -12, spaceAfter: 2 });
+    const nested = Array.from(li.children).filter(element => element.tagName === 'UL' || element.tagName === 'OL');
+    return [item, ...nested.flatMap(child => listBlocks(child, style, depth + 1))];
+  });
+}
+
+function htmlBlocks(parent: Element, style: TextStyle = BODY_STYLE): DocumentBlock[] {
+  const blocks: DocumentBlock[] = [];
+  let pending: TextRun[] = [];
+  const flush = () => {
+    const runs = trimRuns(pending);
+    if (runs.length > 0) blocks.push(paragraph(runs));
+    pending = [];
+  };
+  for (const child of Array.from(parent.childNodes)) {
+    const tag = child.nodeType === 1 ? (child as Element).tagName : '';
+    if (tag === 'P' || tag === 'DIV' || tag === 'BLOCKQUOTE') {
+      flush();
+      const element = child as Element;
+      if (element.querySelector('p, div, table, ul, ol, h1, h2, h3, h4, h5, h6')) {
+        blocks.push(...htmlBlocks(element, style));
+      } else {
+        const runs: TextRun[] = [];
+        inlineRuns(element, style, runs);
+        blocks.push(paragraph(trimRuns(runs)));
+      }
+    } else if (HEADING_SIZES[tag]) {
+      flush();
+      const runs: TextRun[] = [];
+      inlineRuns(child, { ...style, bold: true, fontSize: HEADING_SIZES[tag] }, runs);
+      blocks.push(paragraph(trimRuns(runs), { spaceBefore: 6, spaceAfter: 6 }));
+    } else if (tag === 'UL' || tag === 'OL') {
+      flush();
+      blocks.push(...listBlocks(child as Element, style, 0));
+    } else if (tag === 'TABLE') {
+      flush();
+      blocks.push(htmlTable(child as HTMLTableElement));
+    } else {
+      inlineRuns(child, style, pending);
+    }
+  }
+  flush();
+  return blocks;
+}
+
+// ---------------------------------------------------------------------------
+// Spreadsheets (OOXML and BIFF) through xlsx
+
+function workbookBlocks(workbook: XLSX.WorkBook): DocumentBlock[] {
+  const blocks: DocumentBlock[] = [];
+  const cellStyle: TextStyle = { ...BODY_STYLE, fontSize: 9 };
+  for (const name of workbook.SheetNames) {
+    const sheet = workbook.Sheets[name];
+    if (!sheet || !sheet['!ref']) continue;
+    const range = XLSX.utils.decode_range(sheet['!ref']);
+    const rows = XLSX.utils.sheet_to_json<string[]>(sheet, { header: 1, raw: false, defval: '', blankrows: true });
+    // Drop trailing empty rows and columns that only carry formatting
+    let lastRow = -1;
+    let lastCol = -1;
+    rows.forEach((row, r) => row.forEach((value, c) => {
+      if (String(value).trim() !== '') {
+        lastRow = Math.max(lastRow, r);
+        lastCol = Math.max(lastCol, c);
+      }
+    }));
+    blocks.push(paragraph([{ text: name, style: { ...BODY_STYLE, bold: true, fontSize: 14 } }], {
+      spaceAfter: 8,
+      pageBreakBefore: blocks.length > 0,
+    }));
+    if (lastRow < 0) continue;
+
+    const merged = new Map<string, XLSX.Range>();
+    const covered = new Set<string>();
+    for (const merge of sheet['!merges'] ?? []) {
+      const r0 = merge.s.r - range.s.r;
+      const c0 = merge.s.c - range.s.c;
+      merged.set(`${r0}:${c0}`, merge);
+      for (let r = r0; r <= merge.e.r - range.s.r; r++) {
+        for (let c = c0; c <= merge.e.c - range.s.c; c++) if (r !== r0 || c !== c0) covered.add(`${r}:${c}`);
+      }
+    }
+    const columns = sheet['!cols'] ?? [];
+    const cells: TableCell[] = [];
+    for (let r = 0; r <= lastRow; r++) {
+      for (let c = 0; c <= lastCol; c++) {
+        if (covered.has(`${r}:${c}`)) continue;
+        const merge = merged.get(`${r}:${c}`);
+        const source = sheet[XLSX.utils.encode_cell({ r: r + range.s.r, c: c + range.s.c })] as XLSX.CellObject | undefined;
+        const text = String(rows[r]?.[c] ?? '');
+        const info = columns[c + range.s.c];
+        const widthPx = info?.wpx ?? (info?.wch ? info.wch * 7 : undefined);
+        cells.push(tableCell(r, c, [paragraph(text ? [{ text, style: cellStyle }] : [{ text: '', style: cellStyle }], {
+          spaceAfter: 0,
+          lineSpacing: { mode: 'percent', value: 120 },
+          align: source?.t === 'n' ? 'right' : 'left',
+        })], {
+          rowSpan: merge ? Math.min(merge.e.r - merge.s.r + 1, lastRow - r + 1) : 1,
+          colSpan: merge ? Math.min(merge.e.c - merge.s.c + 1, lastCol - c + 1) : 1,
+          width: !merge && widthPx ? widthPx * 0.75 : undefined,
+        }));
+      }
+    }
+    blocks.push({ type: 'table', rows: lastRow + 1, cols: lastCol + 1, cells });
+  }
+  return blocks;
+}
+
+// ---------------------------------------------------------------------------
+// Presentations
+
+function slideHeading(index: number): ParagraphBlock {
+  return paragraph([{ text: `Slide ${index + 1}`, style: { ...BODY_STYLE, bold: true, fontSize: 14, color: '#555555' } }], {
+    spaceAfter: 10,
+    pageBreakBefore: index > 0,
+  });
+}
+
+function xmlChildren(parent: Element, localName?: string): Element[] {
+  return Array.from(parent.childNodes).filter(
+    (node): node is Element => node.nodeType === 1 && (!localName || (node as Element).localName === localName)
+  );
+}
+
+// DrawingML text body: <a:p> paragraphs with <a:r><a:t> runs
+function drawingTextBlocks(txBody: Element): ParagraphBlock[] {
+  return xmlChildren(txBody, 'p').map(p => {
+    const runs: TextRun[] = [];
+    const level = parseInt(xmlChildren(p, 'pPr')[0]?.getAttribute('lvl') ?? '0', 10) || 0;
+    for (const child of xmlChildren(p)) {
+      if (child.localName === 'br') {
+        runs.push({ text: '\n', style: BODY_STYLE });
+      } else if (child.localName === 'r' || child.localName === 'fld') {
+        const properties = xmlChildren(child, 'rPr')[0];
+        const size = parseInt(properties?.getAttribute('sz') ?? '', 10);
+        runs.push({
+          text: xmlChildren(child, 't').map(t => t.textContent ?? '').join(''),
+          style: {
+            ...BODY_STYLE,
+            fontSize: size ? Math.min(Math.max(size / 100, 8), 28) : 12,
+            bold: properties?.getAttribute('b') === '1',
+            italic: properties?.getAttribute('i') === '1',
+            underline: !!properties?.getAttribute('u') && properties.getAttribute('u') !== 'none',
+          },
+        });
+      }
+    }
+    return paragraph(runs, { indentLeft: level * 18, spaceAfter: 4 });
+  });
+}
+
+function drawingTable(tbl: Element): TableBlock {
+  const cells: TableCell[] = [];
+  const rows = xmlChildren(tbl, 'tr');
+  let cols = 0;
+  rows.forEach((tr, row) => {
+    xmlChildren(tr, 'tc').forEach((tc, col) => {
+      cols = Math.max(cols, col + 1);
+      // Continuation cells of a merge are placeholders
+      if (tc.getAttribute('hMerge') === '1' || tc.getAttribute('vMerge') === '1') return;
+      const txBody = xmlChildren(tc, 'txBody')[0];
+      cells.push(tableCell(row, col, txBody ? drawingTextBlocks(txBody) : [], {
+        colSpan: parseInt(tc.getAttribute('gridSpan') ?? '1', 10) || 1,
+        rowSpan: parseInt(tc.getAttribute('rowSpan') ?? '1', 10) || 1,
+      }));
+    });
+  });
+  return { type: 'table', rows: rows.length, cols, cells };
+}
+
+async function presentationXmlBlocks(zip: JSZip): Promise<DocumentBlock[]> {
+  const parse = async (path: string) => {
+    const file = zip.file(path);
+    return file ? new DOMParser().parseFromString(await file.async('text'), 'application/xml') : null;
+  };
+  const presentation = await parse('ppt/presentation.xml');
+  const rels = await parse('ppt/_rels/presentation.xml.rels');
+  const targets = new Map(
+    Array.from(rels?.getElementsByTagNameNS('*', 'Relationship') ?? []).map(rel => [rel.getAttribute('Id') ?? '', rel.getAttribute('Target') ?? ''])
+  );
+  const slidePaths = Array.from(presentation?.getElementsByTagNameNS('*', 'sldId') ?? [])
+    .map(sldId => targets.get(sldId.getAttributeNS('http://schemas.openxmlformats.org/officeDocument/2006/relationships', 'id') ?? sldId.getAttribute('r:id') ?? '') ?? '')
+    .filter(Boolean)
+    .map(target => (target.startsWith('/') ? target.slice(1) : `ppt/${target}`));
+
+  const blocks: DocumentBlock[] = [];
+  for (const [index, path] of slidePaths.entries()) {
+    const slide = await parse(path);
+    blocks.push(slideHeading(index));
+    if (!slide) continue;
+    const walk = (element: Element) => {
+      for (const child of xmlChildren(element)) {
+        if (child.localName === 'tbl') blocks.push(drawingTable(child));
+        else if (child.localName === 'txBody') blocks.push(...drawingTextBlocks(child));
+        else walk(child);
+      }
+    };
+    walk(slide.documentElement);
+  }
+  return blocks;
+}
+
+// Legacy PowerPoint: slide text lives in SlideListWithText (placeholders) and
+// in each Slide container's drawing (text boxes)
+const PPT_SLIDE = 0x03ee;
+const PPT_NOTES = 0x03f0;
+const PPT_MAIN_MASTER = 0x03f8;
+const PPT_SLIDE_LIST_WITH_TEXT = 0x0ff0;
+const PPT_SLIDE_PERSIST_ATOM = 0x03f3;
+const PPT_TEXT_CHARS_ATOM = 0x0fa0;
+const PPT_TEXT_BYTES_ATOM = 0x0fa8;
+
+function presentationBinaryBlocks(stream: Uint8Array): DocumentBlock[] {
+  const view = dataView(stream);
+  const listTexts: string[][] = [];
+  const slideTexts: string[][] = [];
+  const latin1 = new TextDecoder('windows-1252');
+
+  const walk = (start: number, end: number, sink: string[] | null, inList: boolean) => {
+    for (let offset = start; offset + 8 <= end; ) {
+      const instance = view.getUint16(offset, true) >> 4;
+      const isContainer = (view.getUint16(offset, true) & 0xf) === 0xf;
+      const type = view.getUint16(offset + 2, true);
+      const length = view.getUint32(offset + 4, true);
+      const body = offset + 8;
+      if (body + length > end) break;
+      if (type === PPT_SLIDE_LIST_WITH_TEXT) {
+        if (instance === 0) walk(body, body + length, null, true);
+      } else if (type === PPT_SLIDE) {
+        const texts: string[] = [];
+        slideTexts.push(texts);
+        walk(body, body + length, texts, false);
+      } else if (type === PPT_NOTES || type === PPT_MAIN_MASTER) {
+        // Speaker notes and master placeholder text are not slide content
+      } else if (inList && type === PPT_SLIDE_PERSIST_ATOM) {
+        listTexts.push([]);
+      } else if (type === PPT_TEXT_CHARS_ATOM || type === PPT_TEXT_BYTES_ATOM) {
+        const data = stream.subarray(body, body + length);
+        const text = type === PPT_TEXT_CHARS_ATOM
+          ? String.fromCharCode(...Array.from({ length: length >> 1 }, (_, i) => view.getUint16(body + i * 2, true)))
+          : latin1.decode(data);
+        const target = inList ? listTexts[listTexts.length - 1] : sink;
+        target?.push(text);
+      } else if (isContainer) {
+        walk(body, body + length, sink, inList);
+      }
+      offset = body + length;
+    }
+  };
+  walk(0, stream.length, null, false);
+
+  // Slide containers are normally stored in slide order
+  const count = Math.max(listTexts.length, slideTexts.length);
+  const blocks: DocumentBlock[] = [];
+  for (let i = 0; i < count; i++) {
+    blocks.push(slideHeading(i));
+    for (const text of [...(listTexts[i] ?? []), ...(slideTexts[i] ?? [])]) {
+      blocks.push(...text.split('\r').map(line => paragraph([{ text: line.replace(/\v/g, '\n'), style: { ...BODY_STYLE, fontSize: 12 } }], { spaceAfter: 4 })));
+    }
+  }
+  return blocks;
+}
+
+// ---------------------------------------------------------------------------
+// Legacy Writer (Word 97-2003 binary)
+
+interface WordPiece {
+  cpStart: number;
+  cpEnd: number;
+  fc: number;
+  compressed: boolean;
+}
+
+interface WordParagraphProps {
+  inTable: boolean;
+  rowEnd: boolean;
+  depth: number;
+  align: ParagraphBlock['align'];
+}
+
+const WORD_ALIGNMENTS: ParagraphBlock['align'][] = ['left', 'center', 'right', 'justify'];
+// Operand sizes by sprm "spra" bits; 6 means variable length
+const SPRM_OPERAND_SIZES = [1, 1, 2, 4, 2, 2, 0, 3];
+
+function readSprms(data: Uint8Array, start: number, end: number, props: WordParagraphProps) {
+  const view = dataView(data);
+  for (let offset = start; offset + 2 <= end; ) {
+    const sprm = view.getUint16(offset, true);
+    offset += 2;
+    const spra = sprm >> 13;
+    let size = SPRM_OPERAND_SIZES[spra];
+    let operand = offset;
+    if (spra === 6) {
+      if (sprm === 0xd608 || sprm === 0xd606) {
+        // sprmTDefTable / sprmTDefTable10: 16-bit size, incremented by one
+        size = view.getUint16(offset, true) - 1;
+        operand = offset + 2;
+      } else {
+        size = data[offset];
+        operand = offset + 1;
+      }
+    }
+    if (operand + size > end) break;
+    const byteValue = data[operand];
+    switch (sprm) {
+      case 0x2416: props.inTable = byteValue !== 0; break;
+      case 0x2417: props.rowEnd = byteValue !== 0; break;
+      case 0x6649: props.depth = view.getUint32(operand, true); break;
+      case 0x244c: if (byteValue) props.rowEnd = true; break;
+      case 0x2403:
+      case 0x2461: props.align = WORD_ALIGNMENTS[byteValue] ?? 'left'; break;
+    }
+    offset = operand + size;
+  }
+}
+
+function wordBinaryBlocks(file: CompoundFile): DocumentBlock[] {
+  const word = file.read('WordDocument')!;
+  const view = dataView(word);
+  if (word.length < 0x200 || view.getUint16(0, true) !== 0xa5ec) throw new WPSFormatError('Invalid Word binary header');
+  const flags = view.getUint16(0x0a, true);
+  if (flags & 0x0100) throw new WPSFormatError('Password-protected documents are not supported');
+  const table = file.read(flags & 0x0200 ? '1Table' : '0Table');
+  if (!table) throw new WPSFormatError('Missing table stream');
+  const tableView = dataView(table);
+
+  // FIB: FibBase, then the 16-bit, 32-bit and fc/lcb arrays, each preceded by its count
+  const csw = view.getUint16(32, true);
+  const cslwOffset = 34 + csw * 2;
+  const cslw = view.getUint16(cslwOffset, true);
+  const rgLw = cslwOffset + 2;
+  const ccpText = view.getInt32(rgLw + 3 * 4, true);
+  const rgFcLcb = rgLw + cslw * 4 + 2;
+  const fcLcb = (index: number) => [view.getUint32(rgFcLcb + index * 8, true), view.getUint32(rgFcLcb + index * 8 + 4, true)];
+  const [fcClx, lcbClx] = fcLcb(33);
+  const [fcBtePapx, lcbBtePapx] = fcLcb(13);
+
+  // Piece table from the CLX: skip Prc entries, then the Pcdt
+  let position = fcClx;
+  while (position < fcClx + lcbClx && table[position] === 0x01) position += 3 + tableView.getInt16(position + 1, true);
+  if (table[position] !== 0x02) throw new WPSFormatError('Missing piece table');
+  const plcLength = tableView.getUint32(position + 1, true);
+  const plc = position + 5;
+  const pieceCount = (plcLength - 4) / 12;
+  const pieces: WordPiece[] = [];
+  for (let i = 0; i < pieceCount; i++) {
+    const rawFc = tableView.getUint32(plc + (pieceCount + 1) * 4 + i * 8 + 2, true);
+    const compressed = (rawFc & 0x40000000) !== 0;
+    pieces.push({
+      cpStart: tableView.getUint32(plc + i * 4, true),
+      cpEnd: tableView.getUint32(plc + (i + 1) * 4, true),
+      fc: compressed ? (rawFc & 0x3fffffff) / 2 : rawFc,
+      compressed,
+    });
+  }
+
+  const latin1 = new TextDecoder('windows-1252');
+  let text = '';
+  for (const piece of pieces) {
+    const start = piece.cpStart;
+    const end = Math.min(piece.cpEnd, ccpText);
+    if (end <= start) continue;
+    if (piece.compressed) {
+      text += latin1.decode(word.subarray(piece.fc, piece.fc + (end - start)));
+    } else {
+      for (let cp = 0; cp < end - start; cp++) text += String.fromCharCode(view.getUint16(piece.fc + cp * 2, true));
+    }
+  }
+  const fcOfCp = (cp: number) => {
+    const piece = pieces.find(p => cp >= p.cpStart && cp < p.cpEnd);
+    if (!piece) return -1;
+    return piece.fc + (cp - piece.cpStart) * (piece.compressed ? 1 : 2);
+  };
+
+  // Paragraph properties from the PAPX formatted disk pages
+  const binCount = lcbBtePapx >= 12 ? (lcbBtePapx - 4) / 8 : 0;
+  const paragraphProps = (fc: number): WordParagraphProps | null => {
+    if (binCount === 0 || fc < 0) return null;
+    for (let i = 0; i < binCount; i++) {
+      if (fc < tableView.getUint32(fcBtePapx + i * 4, true) || fc >= tableView.getUint32(fcBtePapx + (i + 1) * 4, true)) continue;
+      const page = (tableView.getUint32(fcBtePapx + (binCount + 1) * 4 + i * 4, true) & 0x3fffff) * 512;
+      if (page + 512 > word.length) return null;
+      const runs = word[page + 511];
+      for (let j = 0; j < runs; j++) {
+        if (fc < view.getUint32(page + j * 4, true) || fc >= view.getUint32(page + (j + 1) * 4, true)) continue;
+        const props: WordParagraphProps = { inTable: false, rowEnd: false, depth: 0, align: 'left' };
+        const papx = page + word[page + (runs + 1) * 4 + j * 13] * 2;
+        if (papx === page) return props;
+        const cb = word[papx];
+        const [start, length] = cb === 0 ? [papx + 2, word[papx + 1] * 2] : [papx + 1, cb * 2 - 1];
+        // The grpprl follows the 16-bit style index
+        readSprms(word, start + 2, Math.min(start + length, page + 512), props);
+        return props;
+      }
+      return null;
+    }
+    return null;
+  };
+
+  const blocks: DocumentBlock[] = [];
+  let rows: DocumentBlock[][][] = [];
+  let cells: DocumentBlock[][] = [];
+  let cellBlocks: DocumentBlock[] = [];
+  let pageBreak = false;
+  const fieldStack: boolean[] = [];
+  let previousWasCellEnd = false;
+
+  const flushTable = () => {
+    if (cellBlocks.length > 0) cells.push(cellBlocks);
+    if (cells.length > 0) rows.push(cells);
+    if (rows.length > 0) {
+      const cols = Math.max(...rows.map(row => row.length));
+      const tableCells = rows.flatMap((row, r) => row.map((content, c) => tableCell(r, c, content)));
+      blocks.push({ type: 'table', rows: rows.length, cols, cells: tableCells });
+    }
+    rows = [];
+    cells = [];
+    cellBlocks = [];
+  };
+
+  let start = 0;
+  for (let cp = 0; cp < text.length; cp++) {
+    const char = text[cp];
+    if (char !== '\r' && char !== '\x07') continue;
+    // Field instructions (between \x13 and \x14) are hidden; results are kept
+    let content = '';
+    for (const c of text.slice(start, cp)) {
+      if (c === '\x13') fieldStack.push(false);
+      else if (c === '\x14') fieldStack[fieldStack.length - 1] = true;
+      else if (c === '\x15') fieldStack.pop();
+      else if (fieldStack.every(Boolean)) {
+        if (c === '\x0c') pageBreak = true;
+        else if (c === '\x0b') content += '\n';
+        else if (c === '\x1e') content += '-';
+        else if (c === '\xa0') content += ' ';
+        else if (c === '\t' || c >= ' ') content += c;
+      }
+    }
+    start = cp + 1;
+    const props = paragraphProps(fcOfCp(cp));
+    const block = paragraph(content ? [{ text: content, style: BODY_STYLE }] : [], { align: props?.align ?? 'left', pageBreakBefore: pageBreak });
+    pageBreak = false;
+
+    const inTable = props ? props.inTable || props.depth > 0 : char === '\x07';
+    if (!inTable) {
+      flushTable();
+      blocks.push(block);
+      previousWasCellEnd = false;
+      continue;
+    }
+    // Without paragraph properties an empty mark right after a cell ends the row
+    const rowEnd = props ? props.rowEnd && props.depth <= 1 : char === '\x07' && previousWasCellEnd && !content;
+    if (rowEnd) {
+      if (cellBlocks.length > 0) cells.push(cellBlocks);
+      rows.push(cells);
+      cells = [];
+      cellBlocks = [];
+      previousWasCellEnd = false;
+      continue;
+    }
+    cellBlocks.push({ ...block, spaceAfter: 0 });
+    // Cell marks of nested tables stay inside the outer cell
+    if (char === '\x07' && (!props || props.depth <= 1)) {
+      cells.push(cellBlocks);
+      cellBlocks = [];
+      previousWasCellEnd = true;
+    } else {
+      previousWasCellEnd = false;
+    }
+  }
+  flushTable();
+  return blocks;
+}
+
+// ---------------------------------------------------------------------------
+// Fallbacks
+
+// Recover readable UTF-16 or 8-bit text runs from an unknown binary stream
+function recoverText(data: Uint8Array): string {
+  const view = dataView(data);
+  const wide: string[] = [];
+  let current = '';
+  for (let i = 0; i + 1 < data.length; i += 2) {
+    const code = view.getUint16(i, true);
+    const printable = code === 0x0d || code === 0x0a || code === 0x09 || (code >= 0x20 && code < 0xd800) || (code >= 0xe000 && code < 0xfffe);
+    if (printable) current += String.fromCharCode(code);
+    else {
+      if (current.trim().length >= 4) wide.push(current);
+      current = '';
+    }
+  }
+  if (current.trim().length >= 4) wide.push(current);
+  const wideText = wide.join('\n');
+  const narrow = (new TextDecoder('windows-1252').decode(data).match(/[\x20-\x7e\r\n\t\xa0-\xff]{6,}/g) || []).join('\n');
+  // UTF-16 scanning of 8-bit text yields mostly CJK noise, so prefer the longer ASCII reading
+  const wideAscii = (wideText.match(/[\x20-\x7e]/g) || []).length;
+  return wideAscii * 2 >= narrow.length ? wideText : narrow;
+}
+
+function plainTextBlocks(bytes: Uint8Array): DocumentBlock[] {
+  const head = new TextDecoder('ascii').decode(bytes.subarray(0, 5));
+  let text: string;
+  try {
+    text = new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    // Chinese WPS installations save legacy text as GB18030
+    text = new TextDecoder('gb18030').decode(bytes);
+  }
+  if (head === '{\\rtf') {
+    text = text
+      .replace(/\{\\\*[^{}]*\}/g, '')
+      .replace(/\\par[d]?\s?/g, '\n')
+      .replace(/\\'([0-9a-f]{2})/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+      .replace(/\\u(-?\d+)\??/g, (_, code: string) => String.fromCharCode((parseInt(code, 10) + 65536) % 65536))
+      .replace(/\\[a-z]+-?\d*\s?/gi, '')
+      .replace(/[{}]/g, '');
+  }
+  return textParagraphs(text.trim());
+}
+
+/**
+ * Detect the container and content type of a WPS file and read it into a
+ * FlowDocument.
+ */
+export async function parseWPSDocument(bytes: Uint8Array): Promise<WPSDocument> {
+  if (bytes[0] === 0x50 && bytes[1] === 0x4b) {
+    const zip = await JSZip.loadAsync(bytes);
+    const core = zip.file('docProps/core.xml');
+    const title = core
+      ? new DOMParser().parseFromString(await core.async('text'), 'application/xml').getElementsByTagNameNS('*', 'title')[0]?.textContent?.trim()
+      : undefined;
+    if (zip.file('word/document.xml')) {
+      const result = await mammoth.convertToHtml({ arrayBuffer: bytes.slice().buffer });
+      const doc = new DOMParser().parseFromString(result.value, 'text/html');
+      return { kind: 'writer', format: 'OOXML document', doc: { title, blocks: htmlBlocks(doc.body) } };
+    }
+    if (zip.file('xl/workbook.xml')) {
+      const workbook = XLSX.read(bytes, { type: 'array', cellStyles: true });
+      return { kind: 'spreadsheet', format: 'OOXML spreadsheet', doc: { title, blocks: workbookBlocks(workbook) } };
+    }
+    if (zip.file('ppt/presentation.xml')) {
+      return { kind: 'presentation', format: 'OOXML presentation', doc: { title, blocks: await presentationXmlBlocks(zip) } };
+    }
+    throw new WPSFormatError('Unrecognized zip package');
+  }
+
+  if (isCompoundFile(bytes)) {
+    const file = new CompoundFile(bytes);
+    if (file.has('EncryptedPackage')) throw new WPSFormatError('Password-protected documents are not supported');
+    if (file.has('WordDocument')) {
+      return { kind: 'writer', format: 'Legacy document (Word 97-2003 binary)', doc: { blocks: wordBinaryBlocks(file) } };
+    }
+    if (file.has('Workbook') || file.has('Book')) {
+      const workbook = XLSX.read(bytes, { type: 'array', cellStyles: true });
+      return { kind: 'spreadsheet', format: 'Legacy spreadsheet (BIFF)', doc: { blocks: workbookBlocks(workbook) } };
+    }
+    const slides = file.read('PowerPoint Document');
+    if (slides) {
+      return { kind: 'presentation', format: 'Legacy presentation (PowerPoint 97-2003 binary)', doc: { blocks: presentationBinaryBlocks(slides) } };
+    }
+    // Unknown layout (e.g. Works documents): recover text from the largest stream
+    const largest = file.list().map(path => file.read(path)!).sort((a, b) => b.length - a.length)[0];
+    const text = largest ? recoverText(largest) : '';
+    if (!text.trim()) throw new WPSFormatError('No readable text found in this document');
+    return { kind: 'writer', format: 'Compound document (text recovered)', doc: { blocks: textParagraphs(text) } };
+  }
+
+  return { kind: 'writer', format: 'Plain text', doc: { blocks: plainTextBlocks(bytes) } };
+}
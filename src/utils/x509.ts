@@ -0,0 +1,265 @@
+// X.509 certificates (RFC 5280)
+// Parses the fields the signing and validation tools show or need: names,
+// validity, the public key and its algorithm, key usage and the CA flag, and
+// checks RSA and ECDSA signatures made with a certificate's key.
+
+import {
+  Asn1Node,
+  child,
+  isContext,
+  isUniversal,
+  octets,
+  parseAsn1,
+  readOid,
+  readString,
+  readTime,
+  TAG,
+} from './asn1';
+import { bytesEqual, concatBytes, ShaAlgorithm } from './crypto';
+
+export type NamedCurve = 'P-256' | 'P-384' | 'P-521';
+
+export const OID = {
+  rsaEncryption: '1.2.840.113549.1.1.1',
+  ecPublicKey: '1.2.840.10045.2.1',
+  sha1WithRSAEncryption: '1.2.840.113549.1.1.5',
+  sha256WithRSAEncryption: '1.2.840.113549.1.1.11',
+  sha384WithRSAEncryption: '1.2.840.113549.1.1.12',
+  sha512WithRSAEncryption: '1.2.840.113549.1.1.13',
+  ecdsaWithSHA1: '1.2.840.10045.4.1',
+  ecdsaWithSHA256: '1.2.840.10045.4.3.2',
+  ecdsaWithSHA384: '1.2.840.10045.4.3.3',
+  ecdsaWithSHA512: '1.2.840.10045.4.3.4',
+  rsassaPss: '1.2.840.113549.1.1.10',
+  sha1: '1.3.14.3.2.26',
+  sha256: '2.16.840.1.101.3.4.2.1',
+  sha384: '2.16.840.1.101.3.4.2.2',
+  sha512: '2.16.840.1.101.3.4.2.3',
+} as const;
+
+export const CURVES: Record<string, NamedCurve> = {
+  '1.2.840.10045.3.1.7': 'P-256',
+  '1.3.132.0.34': 'P-384',
+  '1.3.132.0.35': 'P-521',
+};
+
+export const DIGEST_ALGORITHMS: Record<string, ShaAlgorithm> = {
+  [OID.sha1]: 'SHA-1',
+  [OID.sha256]: 'SHA-256',
+  [OID.sha384]: 'SHA-384',
+  [OID.sha512]: 'SHA-512',
+};
+
+// Signature algorithms that name their hash; the bare key algorithms take it
+// from the context (the CMS digest algorithm)
+const SIGNATURE_ALGORITHMS: Record<string, { key: 'RSA' | 'EC'; hash?: ShaAlgorithm }> = {
+  [OID.rsaEncryption]: { key: 'RSA' },
+  [OID.sha1WithRSAEncryption]: { key: 'RSA', hash: 'SHA-1' },
+  [OID.sha256WithRSAEncryption]: { key: 'RSA', hash: 'SHA-256' },
+  [OID.sha384WithRSAEncryption]: { key: 'RSA', hash: 'SHA-384' },
+  [OID.sha512WithRSAEncryption]: { key: 'RSA', hash: 'SHA-512' },
+  [OID.ecPublicKey]: { key: 'EC' },
+  [OID.ecdsaWithSHA1]: { key: 'EC', hash: 'SHA-1' },
+  [OID.ecdsaWithSHA256]: { key: 'EC', hash: 'SHA-256' },
+  [OID.ecdsaWithSHA384]: { key: 'EC', hash: 'SHA-384' },
+  [OID.ecdsaWithSHA512]: { key: 'EC', hash: 'SHA-512' },
+};
+
+const CURVE_SIZES: Record<NamedCurve, number> = { 'P-256': 32, 'P-384': 48, 'P-521': 66 };
+
+const NAME_ATTRIBUTES: Record<string, string> = {
+  '2.5.4.3': 'CN',
+  '2.5.4.4': 'SN',
+  '2.5.4.5': 'serialNumber',
+  '2.5.4.6': 'C',
+  '2.5.4.7': 'L',
+  '2.5.4.8': 'ST',
+  '2.5.4.10': 'O',
+  '2.5.4.11': 'OU',
+  '2.5.4.12': 'T',
+  '2.5.4.42': 'GN',
+  '1.2.840.113549.1.9.1': 'E',
+};
+
+const KEY_USAGES = [
+  'digitalSignature', 'nonRepudiation', 'keyEncipherment', 'dataEncipherment',
+  'keyAgreement', 'keyCertSign', 'cRLSign', 'encipherOnly', 'decipherOnly',
+];
+
+export interface DistinguishedName {
+  // DER encoding, compared byte for byte when matching issuers
+  raw: Uint8Array;
+  attributes: { type: string; value: string }[];
+  // RFC 4514 style, most specific attribute first
+  text: string;
+  commonName?: string;
+}
+
+export interface Certificate {
+  raw: Uint8Array;
+  // The signed part, checked against the issuer's key
+  tbs: Uint8Array;
+  // Content octets of the serial number INTEGER
+  serialNumber: Uint8Array;
+  issuer: DistinguishedName;
+  subject: DistinguishedName;
+  notBefore: Date;
+  notAfter: Date;
+  // DER SubjectPublicKeyInfo, as Web Crypto imports it
+  publicKey: Uint8Array;
+  keyAlgorithm: 'RSA' | 'EC' | 'unknown';
+  namedCurve?: NamedCurve;
+  signatureAlgorithm: string;
+  // Parameters of the signature algorithm, used by RSASSA-PSS
+  signatureParameters?: Asn1Node;
+  signature: Uint8Array;
+  isCA: boolean;
+  keyUsage: string[];
+  subjectKeyId?: Uint8Array;
+  authorityKeyId?: Uint8Array;
+}
+
+export class CertificateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CertificateError';
+  }
+}
+
+function parseName(node: Asn1Node): DistinguishedName {
+  const attributes: { type: string; value: string }[] = [];
+  for (const rdn of node.children) {
+    for (const pair of rdn.children) {
+      const oid = readOid(child(pair, 0, 'attribute type'));
+      attributes.push({ type: NAME_ATTRIBUTES[oid] ?? oid, value: readString(child(pair, 1, 'attribute value')) });
+    }
+  }
+  return {
+    raw: node.raw,
+    attributes,
+    text: [...attributes].reverse().map(({ type, value }) => `${type}=${value}`).join(', '),
+    commonName: attributes.find(attribute => attribute.type === 'CN')?.value,
+  };
+}
+
+// The shortest useful label for a name: its common name, else its organisation
+export const displayName = (name: DistinguishedName) =>
+  name.commonName ?? name.attributes.find(attribute => attribute.type === 'O')?.value ?? name.text;
+
+export function parseCertificate(der: Uint8Array): Certificate {
+  let root: Asn1Node;
+  try {
+    root = parseAsn1(der);
+  } catch {
+    throw new CertificateError('Not a DER encoded certificate');
+  }
+  if (!isUniversal(root, TAG.SEQUENCE) || root.children.length < 3) throw new CertificateError('Not an X.509 certificate');
+  const tbs = child(root, 0, 'TBSCertificate');
+  // The version is optional; v1 certificates start with the serial number
+  const fields = isContext(tbs.children[0], 0) ? tbs.children.slice(1) : tbs.children;
+  const [serial, , issuer, validity, subject, spki] = fields;
+  if (!serial || !issuer || !validity || !subject || !spki) throw new CertificateError('Incomplete certificate');
+
+  const keyAlgorithm = child(spki, 0, 'key algorithm');
+  const keyOid = readOid(child(keyAlgorithm, 0, 'key algorithm'));
+  const curveParameter = keyAlgorithm.children[1];
+  const namedCurve = keyOid === OID.ecPublicKey && isUniversal(curveParameter, TAG.OID) ? CURVES[readOid(curveParameter)] : undefined;
+
+  const certificate: Certificate = {
+    raw: root.raw,
+    tbs: tbs.raw,
+    serialNumber: serial.value,
+    issuer: parseName(issuer),
+    subject: parseName(subject),
+    notBefore: readTime(child(validity, 0, 'notBefore')),
+    notAfter: readTime(child(validity, 1, 'notAfter')),
+    publicKey: spki.raw,
+    keyAlgorithm: keyOid === OID.rsaEncryption ? 'RSA' : keyOid === OID.ecPublicKey ? 'EC' : 'unknown',
+    namedCurve,
+    signatureAlgorithm: readOid(child(child(root, 1), 0, 'signature algorithm')),
+    signatureParameters: child(root, 1).children[1],
+    // Skip the unused-bits byte of the BIT STRING
+    signature: child(root, 2).value.subarray(1),
+    isCA: false,
+    keyUsage: [],
+  };
+
+  const extensions = fields.find(field => isContext(field, 3))?.children[0];
+  for (const extension of extensions?.children ?? []) {
+    const oid = readOid(child(extension, 0, 'extension id'));
+    const value = parseAsn1(octets(extension.children[extension.children.length - 1]));
+    if (oid === '2.5.29.19') {
+      certificate.isCA = isUniversal(value.children[0], TAG.BOOLEAN) && value.children[0].value[0] !== 0;
+    } else if (oid === '2.5.29.15') {
+      const bits = value.value.subarray(1);
+      certificate.keyUsage = KEY_USAGES.filter((_, i) => (bits[i >> 3] ?? 0) & (0x80 >> (i & 7)));
+    } else if (oid === '2.5.29.14') {
+      certificate.subjectKeyId = value.value;
+    } else if (oid === '2.5.29.35') {
+      certificate.authorityKeyId = value.children.find(part => isContext(part, 0))?.value;
+    }
+  }
+  return certificate;
+}
+
+export const isSelfSigned = (certificate: Certificate) => bytesEqual(certificate.subject.raw, certificate.issuer.raw);
+
+// DER ECDSA-Sig-Value to the fixed-size r || s that Web Crypto expects
+function ecdsaFromDer(signature: Uint8Array, size: number): Uint8Array {
+  const sequence = parseAsn1(signature);
+  return concatBytes(...[0, 1].map(index => {
+    let value = child(sequence, index, 'ECDSA signature').value;
+    while (value.length > size && value[0] === 0) value = value.subarray(1);
+    const out = new Uint8Array(size);
+    out.set(value, size - value.length);
+    return out;
+  }));
+}
+
+function pssParameters(parameters: Asn1Node | undefined): { hash: ShaAlgorithm; saltLength: number } {
+  let hash: ShaAlgorithm = 'SHA-1';
+  let saltLength = 20;
+  for (const part of parameters?.children ?? []) {
+    if (isContext(part, 0)) hash = DIGEST_ALGORITHMS[readOid(child(child(part, 0), 0))] ?? hash;
+    if (isContext(part, 2)) saltLength = child(part, 0).value.reduce((value, byte) => value * 256 + byte, 0);
+  }
+  return { hash, saltLength };
+}
+
+/**
+ * Check `signature` over `data` with the certificate's public key.
+ * `algorithm` is the OID of the signature algorithm; for bare key algorithms
+ * `hash` gives the digest. Unsupported algorithms throw a CertificateError.
+ */
+export async function verifySignature(
+  certificate: Certificate,
+  algorithm: string,
+  parameters: Asn1Node | undefined,
+  data: Uint8Array,
+  signature: Uint8Array,
+  hash?: ShaAlgorithm,
+): Promise<boolean> {
+  if (algorithm === OID.rsassaPss) {
+    const pss = pssParameters(parameters);
+    const key = await crypto.subtle.importKey('spki', certificate.publicKey, { name: 'RSA-PSS', hash: pss.hash }, false, ['verify']);
+    return crypto.subtle.verify({ name: 'RSA-PSS', saltLength: pss.saltLength }, key, signature, data);
+  }
+  const known = SIGNATURE_ALGORITHMS[algorithm];
+  const digest = known?.hash ?? hash;
+  if (!known || !digest) throw new CertificateError(`Unsupported signature algorithm ${algorithm}`);
+  if (known.key !== certificate.keyAlgorithm) return false;
+  if (known.key === 'RSA') {
+    const key = await crypto.subtle.importKey('spki', certificate.publicKey, { name: 'RSASSA-PKCS1-v1_5', hash: digest }, false, ['verify']);
+    return crypto.subtle.verify('RSASSA-PKCS1-v1_5', key, signature, data);
+  }
+  const curve = certificate.namedCurve;
+  if (!curve) throw new CertificateError('Unsupported elliptic curve');
+  const key = await crypto.subtle.importKey('spki', certificate.publicKey, { name: 'ECDSA', namedCurve: curve }, false, ['verify']);
+  let raw: Uint8Array;
+  try {
+    raw = ecdsaFromDer(signature, CURVE_SIZES[curve]);
+  } catch {
+    return false;
+  }
+  return crypto.subtle.verify({ name: 'ECDSA', hash: digest }, key, raw, data);
+}